@@ -1,4 +1,4 @@
-import { Switch, Route } from "wouter";
+import { Switch, Route, Redirect, useLocation } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
@@ -14,6 +14,31 @@ import Cart from "@/pages/cart";
 import Checkout from "@/pages/checkout";
 import OrderConfirmation from "@/pages/order-confirmation";
 import Contact from "@/pages/contact";
+import Garage from "@/pages/garage";
+import Login from "@/pages/login";
+import ResetPassword from "@/pages/reset-password";
+import Account from "@/pages/account";
+import TrackOrder from "@/pages/track-order";
+import AccountOrders from "@/pages/account-orders";
+import AccountOrderDetail from "@/pages/account-order-detail";
+import AdminProducts from "@/pages/admin/products";
+import AdminProductForm from "@/pages/admin/product-form";
+import AdminCategories from "@/pages/admin/categories";
+import AdminBrands from "@/pages/admin/brands";
+import AdminStockLocations from "@/pages/admin/stock-locations";
+import AdminPromotions from "@/pages/admin/promotions";
+import AdminBundles from "@/pages/admin/bundles";
+import AdminProductAnalytics from "@/pages/admin/product-analytics";
+import AdminFunnelAnalytics from "@/pages/admin/funnel-analytics";
+import AdminSuppliers from "@/pages/admin/suppliers";
+import AdminMargins from "@/pages/admin/margins";
+import AdminSupplierFeeds from "@/pages/admin/supplier-feeds";
+import AdminFeedImportDetail from "@/pages/admin/feed-import-detail";
+import AdminOrders from "@/pages/admin/orders";
+import AdminOrderDetail from "@/pages/admin/order-detail";
+import AdminReturns from "@/pages/admin/returns";
+import AdminReturnDetail from "@/pages/admin/return-detail";
+import AdminPurchaseOrders from "@/pages/admin/purchase-orders";
 import ChatbotWidget from "@/components/chatbot/chatbot-widget";
 import CartDrawer from "@/components/cart/cart-drawer";
 import { useEffect, useState } from "react";
@@ -29,13 +54,52 @@ function Router() {
       <Route path="/cart" component={Cart} />
       <Route path="/checkout" component={Checkout} />
       <Route path="/order-confirmation/:orderNumber" component={OrderConfirmation} />
+      <Route path="/track-order" component={TrackOrder} />
       <Route path="/contact" component={Contact} />
+      <Route path="/garage" component={Garage} />
+      <Route path="/login" component={Login} />
+      <Route path="/reset-password" component={ResetPassword} />
+      <Route path="/account" component={Account} />
+      <Route path="/account/orders" component={AccountOrders} />
+      <Route path="/account/orders/:orderNumber" component={AccountOrderDetail} />
+      <Route component={NotFound} />
+    </Switch>
+  );
+}
+
+// Staff pages render inside their own sidebar layout, without the storefront chrome
+function AdminRouter() {
+  return (
+    <Switch>
+      <Route path="/admin">
+        <Redirect to="/admin/orders" />
+      </Route>
+      <Route path="/admin/orders" component={AdminOrders} />
+      <Route path="/admin/orders/:id" component={AdminOrderDetail} />
+      <Route path="/admin/returns" component={AdminReturns} />
+      <Route path="/admin/returns/:id" component={AdminReturnDetail} />
+      <Route path="/admin/purchase-orders" component={AdminPurchaseOrders} />
+      <Route path="/admin/products" component={AdminProducts} />
+      <Route path="/admin/products/new" component={AdminProductForm} />
+      <Route path="/admin/products/:id" component={AdminProductForm} />
+      <Route path="/admin/categories" component={AdminCategories} />
+      <Route path="/admin/brands" component={AdminBrands} />
+      <Route path="/admin/stock-locations" component={AdminStockLocations} />
+      <Route path="/admin/promotions" component={AdminPromotions} />
+      <Route path="/admin/bundles" component={AdminBundles} />
+      <Route path="/admin/analytics/products" component={AdminProductAnalytics} />
+      <Route path="/admin/analytics/funnel" component={AdminFunnelAnalytics} />
+      <Route path="/admin/suppliers" component={AdminSuppliers} />
+      <Route path="/admin/margins" component={AdminMargins} />
+      <Route path="/admin/supplier-feeds" component={AdminSupplierFeeds} />
+      <Route path="/admin/feed-imports/:id" component={AdminFeedImportDetail} />
       <Route component={NotFound} />
     </Switch>
   );
 }
 
 function App() {
+  const [location] = useLocation();
   const [isPageLoaded, setIsPageLoaded] = useState(false);
 
   useEffect(() => {
@@ -47,6 +111,17 @@ function App() {
     return () => clearTimeout(timer);
   }, []);
 
+  if (location.startsWith("/admin")) {
+    return (
+      <QueryClientProvider client={queryClient}>
+        <TooltipProvider>
+          <Toaster />
+          <AdminRouter />
+        </TooltipProvider>
+      </QueryClientProvider>
+    );
+  }
+
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
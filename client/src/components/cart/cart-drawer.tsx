@@ -2,10 +2,27 @@ import { useCart } from "@/hooks/use-cart";
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { ShoppingCart, X } from "lucide-react";
+import { AlertTriangle, ShoppingCart, X } from "lucide-react";
 import CartItem from "./cart-item";
 import { formatPrice } from "@/lib/utils";
 import { Link } from "wouter";
+import { useGarage, useFitsActiveVehicle } from "@/hooks/use-garage";
+import { vehicleLabel } from "@/context/garage-context";
+
+// Warns when a cart item is known not to fit the active garage vehicle
+const FitmentWarning = ({ productId }: { productId: number }) => {
+  const { activeVehicle } = useGarage();
+  const fitsActiveVehicle = useFitsActiveVehicle(productId);
+
+  if (!activeVehicle || fitsActiveVehicle !== false) return null;
+
+  return (
+    <div className="flex items-center text-xs text-amber-700 bg-amber-50 rounded px-2 py-1 mb-2">
+      <AlertTriangle className="h-3.5 w-3.5 mr-1 flex-shrink-0" />
+      This part doesn't fit your {vehicleLabel(activeVehicle)}
+    </div>
+  );
+};
 
 const CartDrawer = () => {
   const {
@@ -62,12 +79,14 @@ const CartDrawer = () => {
             <ScrollArea className="h-[65vh] mt-6 pr-6">
               <div className="space-y-1">
                 {items.map((item) => (
-                  <CartItem
-                    key={item.product.id}
-                    item={item}
-                    onQuantityChange={updateItemQuantity}
-                    onRemove={removeItem}
-                  />
+                  <div key={item.product.id}>
+                    <CartItem
+                      item={item}
+                      onQuantityChange={updateItemQuantity}
+                      onRemove={removeItem}
+                    />
+                    <FitmentWarning productId={item.product.id} />
+                  </div>
                 ))}
               </div>
             </ScrollArea>
@@ -0,0 +1,83 @@
+import { useState } from "react";
+import { Tag, X } from "lucide-react";
+import type { Quote } from "@shared/schema";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
+import { useCart } from "@/context/cart-context";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+// The server's reason for turning the code down, when it gave one
+const reasonFromError = (error: unknown): string => {
+  const { body, message } = parseApiError(error);
+  return typeof body?.message === "string" ? message : "We couldn't check that code. Please try again.";
+};
+
+/**
+ * Applies promotion codes to the cart and lists the ones in use. Codes the latest quote
+ * turned down, e.g. one that expired since it was added, are shown with the reason.
+ */
+const PromoCodeForm = ({ quote }: { quote: Quote | undefined }) => {
+  const { items, promotionCodes, addPromotionCode, removePromotionCode } = useCart();
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const handleApply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+
+    setIsApplying(true);
+    setError(null);
+    try {
+      await apiRequest("POST", "/api/cart/apply-code", {
+        items: items.map(item => ({ productId: item.product.id, quantity: item.quantity })),
+        promotionCodes,
+        code,
+      });
+      addPromotionCode(code);
+      setCode("");
+    } catch (error) {
+      setError(reasonFromError(error));
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <form onSubmit={handleApply} className="flex gap-2">
+        <Input
+          placeholder="Promo code"
+          aria-label="Promo code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          className="uppercase placeholder:normal-case"
+        />
+        <Button type="submit" variant="outline" disabled={isApplying || !code.trim()}>
+          {isApplying ? "Applying..." : "Apply"}
+        </Button>
+      </form>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {promotionCodes.map(appliedCode => {
+        const rejected = quote?.rejectedCodes.find(rejected => rejected.code === appliedCode);
+        return (
+          <div key={appliedCode} className="flex items-center gap-2 text-sm">
+            <Tag className={`h-4 w-4 ${rejected ? "text-gray-400" : "text-green-600"}`} />
+            <span className={rejected ? "line-through text-gray-500" : "font-medium"}>{appliedCode}</span>
+            {rejected && <span className="text-red-600">{rejected.message}</span>}
+            <button
+              type="button"
+              className="ml-auto text-gray-400 hover:text-gray-600"
+              aria-label={`Remove code ${appliedCode}`}
+              onClick={() => removePromotionCode(appliedCode)}
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PromoCodeForm;
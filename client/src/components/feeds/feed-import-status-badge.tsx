@@ -0,0 +1,51 @@
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import type { FeedChangeKind, FeedChangeStatus, FeedImportStatus } from '@shared/schema';
+
+const statusLabels: Record<FeedImportStatus, string> = {
+  review: 'Needs Review',
+  applied: 'Applied',
+  discarded: 'Discarded',
+  failed: 'Failed',
+};
+
+const statusClasses: Record<FeedImportStatus, string> = {
+  review: 'bg-amber-100 text-amber-700',
+  applied: 'bg-green-100 text-green-700',
+  discarded: 'bg-gray-100 text-gray-500',
+  failed: 'bg-red-100 text-red-700',
+};
+
+const changeKindLabels: Record<FeedChangeKind, string> = {
+  new_product: 'New product',
+  price_change: 'Price change',
+  stock_change: 'Stock level',
+  discontinued: 'Discontinued',
+};
+
+const changeStatusLabels: Record<FeedChangeStatus, string> = {
+  pending: 'Pending',
+  applied: 'Applied',
+  skipped: 'Skipped',
+  failed: 'Failed',
+};
+
+export function feedImportStatusLabel(status: FeedImportStatus): string {
+  return statusLabels[status] || status;
+}
+
+export function feedChangeKindLabel(kind: FeedChangeKind): string {
+  return changeKindLabels[kind] || kind;
+}
+
+export function feedChangeStatusLabel(status: FeedChangeStatus): string {
+  return changeStatusLabels[status] || status;
+}
+
+const FeedImportStatusBadge = ({ status, className }: { status: FeedImportStatus; className?: string }) => (
+  <Badge variant="outline" className={cn('border-transparent', statusClasses[status], className)}>
+    {feedImportStatusLabel(status)}
+  </Badge>
+);
+
+export default FeedImportStatusBadge;
@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { 
   Select,
@@ -10,9 +11,17 @@ import {
 import { useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { Skeleton } from "@/components/ui/skeleton";
+import { useGarage } from "@/hooks/use-garage";
+import { vehicleLabel } from "@/context/garage-context";
 
-const FitmentTool = () => {
+interface FitmentToolProps {
+  showGarage?: boolean;
+}
+
+const FitmentTool = ({ showGarage = true }: FitmentToolProps) => {
   const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const { vehicles, activeVehicle, addVehicle, setActiveVehicle } = useGarage();
   const [selectedMake, setSelectedMake] = useState<string>("");
   const [selectedModel, setSelectedModel] = useState<string>("");
   const [selectedYear, setSelectedYear] = useState<string>("");
@@ -65,7 +74,7 @@ const FitmentTool = () => {
     setSelectedYear("");
   }, [selectedModel]);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!selectedMake || !selectedModel || !selectedYear) {
@@ -77,8 +86,24 @@ const FitmentTool = () => {
       return;
     }
     
-    // Redirect to products page with fitment parameters
-    window.location.href = `/products?make=${encodeURIComponent(selectedMake)}&model=${encodeURIComponent(selectedModel)}&year=${encodeURIComponent(selectedYear)}`;
+    // Save the vehicle to the garage; the products page is scoped to the active vehicle
+    try {
+      await addVehicle({ make: selectedMake, model: selectedModel, year: parseInt(selectedYear) });
+    } catch (error) {
+      toast({
+        title: "Couldn't save your vehicle",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    setLocation('/products');
+  };
+  
+  const handleShopVehicle = async (id: number) => {
+    await setActiveVehicle(id);
+    setLocation('/products');
   };
 
   return (
@@ -90,6 +115,26 @@ const FitmentTool = () => {
             <p className="text-lg mb-6 text-gray-300">Our advanced vehicle fitment tool makes it easy to find parts that are guaranteed to fit your specific make, model, and year.</p>
             
             <div className="bg-white/10 p-6 rounded-lg backdrop-blur-sm">
+              {showGarage && vehicles.length > 0 && (
+                <div className="mb-6">
+                  <p className="text-sm font-medium mb-2">My Garage</p>
+                  <div className="flex flex-wrap gap-2">
+                    {vehicles.map((vehicle) => (
+                      <Button
+                        key={vehicle.id}
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        className={`bg-white/10 text-white border-white/30 hover:bg-white/20 ${vehicle.id === activeVehicle?.id ? 'ring-2 ring-primary' : ''}`}
+                        onClick={() => handleShopVehicle(vehicle.id)}
+                      >
+                        {vehicleLabel(vehicle)}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              
               <form className="space-y-4" onSubmit={handleSubmit}>
                 <div>
                   <label htmlFor="make-select" className="block text-sm font-medium mb-2">Select Make</label>
@@ -11,6 +11,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useCart } from "@/hooks/use-cart";
+import { useAuth } from "@/context/auth-context";
 import { Category } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { useMobile } from "@/hooks/use-mobile";
@@ -19,6 +20,7 @@ const Header = () => {
   const [location] = useLocation();
   const { isMobile } = useMobile();
   const { items: cartItems, openCart } = useCart();
+  const { user, logout } = useAuth();
   const [wishlistCount, setWishlistCount] = useState(0);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
@@ -94,9 +96,19 @@ const Header = () => {
             </a>
           </div>
           <div className="flex space-x-4">
+            <Link href="/garage" className="text-dark hover:text-primary transition">My Garage</Link>
             <Link href="/track-order" className="text-dark hover:text-primary transition">Track Order</Link>
             <Link href="/contact" className="text-dark hover:text-primary transition">Support</Link>
-            <Link href="/login" className="text-dark hover:text-primary transition">Login</Link>
+            {user ? (
+              <>
+                <Link href="/account" className="text-dark hover:text-primary transition">My Account</Link>
+                <button onClick={() => logout()} className="text-dark hover:text-primary transition">
+                  Logout ({user.username})
+                </button>
+              </>
+            ) : (
+              <Link href="/login" className="text-dark hover:text-primary transition">Login</Link>
+            )}
           </div>
         </div>
         
@@ -4,6 +4,7 @@ import { X, ChevronDown, ChevronUp, MapPin, Phone, Mail, Clock } from "lucide-re
 import { Category } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { useAuth } from "@/context/auth-context";
 
 interface MobileMenuProps {}
 
@@ -12,6 +13,7 @@ const MobileMenu = () => {
   const [categories, setCategories] = useState<Category[]>([]);
   const [expandedCategory, setExpandedCategory] = useState<number | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
+  const { user, logout } = useAuth();
 
   useEffect(() => {
     // Toggle body scroll when menu is open/closed
@@ -170,22 +172,40 @@ const MobileMenu = () => {
         </div>
         
         <div className="border-t border-gray-200 pt-4 mt-4">
-          <div className="grid grid-cols-2 gap-2">
-            <Link 
-              href="/login" 
-              className="block py-2 px-4 text-center border border-gray-300 rounded-md hover:bg-gray-100"
-              onClick={closeMenu}
-            >
-              Login
-            </Link>
-            <Link 
-              href="/register" 
-              className="block py-2 px-4 text-center bg-primary text-white rounded-md hover:bg-primary/90"
-              onClick={closeMenu}
-            >
-              Register
-            </Link>
-          </div>
+          {user ? (
+            <div className="grid grid-cols-2 gap-2">
+              <Link 
+                href="/account" 
+                className="block py-2 px-4 text-center border border-gray-300 rounded-md hover:bg-gray-100"
+                onClick={closeMenu}
+              >
+                My Account
+              </Link>
+              <button 
+                className="block py-2 px-4 text-center bg-primary text-white rounded-md hover:bg-primary/90"
+                onClick={() => { closeMenu(); logout(); }}
+              >
+                Logout
+              </button>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-2">
+              <Link 
+                href="/login" 
+                className="block py-2 px-4 text-center border border-gray-300 rounded-md hover:bg-gray-100"
+                onClick={closeMenu}
+              >
+                Login
+              </Link>
+              <Link 
+                href="/register" 
+                className="block py-2 px-4 text-center bg-primary text-white rounded-md hover:bg-primary/90"
+                onClick={closeMenu}
+              >
+                Register
+              </Link>
+            </div>
+          )}
           
           <div className="mt-6 space-y-3">
             <div className="flex items-center">
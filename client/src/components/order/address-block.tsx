@@ -0,0 +1,16 @@
+import type { Address } from '@shared/schema';
+
+const AddressBlock = ({ address }: { address: Address | null | undefined }) => {
+  if (!address) return <p className="text-sm text-gray-500">-</p>;
+  return (
+    <div className="text-sm leading-6">
+      <div className="font-medium">{address.name}</div>
+      <div>{address.line1}</div>
+      {address.line2 && <div>{address.line2}</div>}
+      <div>{[address.city, address.state, address.postalCode].filter(Boolean).join(', ')}</div>
+      <div>{address.country}</div>
+    </div>
+  );
+};
+
+export default AddressBlock;
@@ -0,0 +1,204 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
+import { formatDate, formatPrice } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import ReturnStatusBadge, { returnReasonLabel } from '@/components/order/return-status-badge';
+import { returnReasons, type ReturnItem, type ReturnReason, type ReturnRequest } from '@shared/schema';
+
+export interface ReturnDetail extends ReturnRequest {
+  orderNumber: string;
+  items: (ReturnItem & { productId: number; name: string; price: string })[];
+}
+
+interface ReturnableItem {
+  orderItemId: number;
+  productId: number;
+  name: string;
+  quantity: number;
+  windowEndsAt: string;
+  restockingFeePercent: number;
+}
+
+interface OrderReturnsResponse {
+  returns: ReturnDetail[];
+  returnable: ReturnableItem[];
+}
+
+type ReturnLines = Record<number, { quantity: string; reason: ReturnReason }>;
+
+// The customer's returns for one order, and the form to start a new one
+const OrderReturns = ({ orderNumber }: { orderNumber: string }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+  const [lines, setLines] = useState<ReturnLines>({});
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data } = useQuery<OrderReturnsResponse>({
+    queryKey: ['/api/users/me/orders', orderNumber, 'returns'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/users/me/orders/${orderNumber}/returns`);
+      return response.json();
+    },
+  });
+
+  const returns = data?.returns || [];
+  const returnable = data?.returnable || [];
+
+  if (returns.length === 0 && returnable.length === 0) return null;
+
+  const openDialog = () => {
+    setLines({});
+    setNote('');
+    setIsOpen(true);
+  };
+
+  const setLine = (orderItemId: number, change: Partial<ReturnLines[number]>) => {
+    setLines(current => ({
+      ...current,
+      [orderItemId]: { ...(current[orderItemId] ?? { quantity: '0', reason: 'defective' }), ...change },
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const items = Object.entries(lines)
+      .map(([orderItemId, line]) => ({ orderItemId: parseInt(orderItemId), quantity: parseInt(line.quantity) || 0, reason: line.reason }))
+      .filter(line => line.quantity > 0);
+
+    if (items.length === 0) {
+      toast({ title: 'Choose what to return', description: 'Set a quantity for at least one item.', variant: 'destructive' });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await apiRequest('POST', `/api/users/me/orders/${orderNumber}/returns`, { items, note: note || undefined });
+      toast({ title: 'Return requested', description: "We'll review it and email you the next steps." });
+      setIsOpen(false);
+      queryClient.invalidateQueries({ queryKey: ['/api/users/me/orders', orderNumber, 'returns'] });
+    } catch (error) {
+      const { status } = parseApiError(error);
+      toast({
+        title: 'Could not request a return',
+        description: status === 400
+          ? 'Some of these items can no longer be returned. Reload and try again.'
+          : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Returns</CardTitle>
+        {returnable.length > 0 && (
+          <Button variant="outline" size="sm" onClick={openDialog}>Request a Return</Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {returns.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            Not what you needed? Items from this order can still be returned.
+          </p>
+        ) : (
+          <div className="divide-y">
+            {returns.map(returnRequest => (
+              <div key={returnRequest.id} className="py-3 space-y-1 text-sm">
+                <div className="flex items-center gap-3">
+                  <span className="font-medium">{returnRequest.rmaNumber}</span>
+                  <ReturnStatusBadge status={returnRequest.status} />
+                  <div className="flex-1" />
+                  <span className="text-gray-500">{returnRequest.createdAt ? formatDate(returnRequest.createdAt) : '-'}</span>
+                </div>
+                {returnRequest.items.map(item => (
+                  <div key={item.id} className="text-gray-600">
+                    {item.quantity} × {item.name} ({returnReasonLabel(item.reason).toLowerCase()})
+                  </div>
+                ))}
+                {returnRequest.status !== 'requested' && returnRequest.status !== 'rejected' && (
+                  <div>
+                    Refund {formatPrice(returnRequest.refundAmount)}
+                    {parseFloat(returnRequest.restockingFee) > 0 && (
+                      <span className="text-gray-500"> after a {formatPrice(returnRequest.restockingFee)} restocking fee</span>
+                    )}
+                  </div>
+                )}
+                {returnRequest.staffNote && <div className="text-gray-600">{returnRequest.staffNote}</div>}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Return items from {orderNumber}</DialogTitle>
+            <DialogDescription>
+              Some suppliers charge a restocking fee, which is waived for defective, damaged or wrong items.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {returnable.map(item => (
+              <div key={item.orderItemId} className="space-y-2 border-b pb-3">
+                <div className="text-sm">
+                  <div className="font-medium">{item.name}</div>
+                  <div className="text-gray-500">
+                    Up to {item.quantity}, until {formatDate(item.windowEndsAt)}
+                    {item.restockingFeePercent > 0 && ` · ${item.restockingFeePercent}% restocking fee`}
+                  </div>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    max={item.quantity}
+                    aria-label={`Quantity of ${item.name} to return`}
+                    value={lines[item.orderItemId]?.quantity ?? '0'}
+                    onChange={(e) => setLine(item.orderItemId, { quantity: e.target.value })}
+                  />
+                  <Select
+                    value={lines[item.orderItemId]?.reason ?? 'defective'}
+                    onValueChange={(reason) => setLine(item.orderItemId, { reason: reason as ReturnReason })}
+                  >
+                    <SelectTrigger className="col-span-2">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {returnReasons.map(reason => (
+                        <SelectItem key={reason} value={reason}>{returnReasonLabel(reason)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            ))}
+            <div className="space-y-2">
+              <Label htmlFor="return-note">Anything we should know? (optional)</Label>
+              <Textarea id="return-note" rows={2} value={note} onChange={(e) => setNote(e.target.value)} />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>Cancel</Button>
+              <Button type="submit" disabled={isSubmitting}>{isSubmitting ? 'Sending...' : 'Request Return'}</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default OrderReturns;
@@ -0,0 +1,37 @@
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import type { OrderStatus } from '@shared/schema';
+
+const statusLabels: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  paid: 'Paid',
+  processing: 'Processing',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded',
+  partially_refunded: 'Partially Refunded',
+};
+
+const statusClasses: Record<OrderStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  paid: 'bg-blue-100 text-blue-700',
+  processing: 'bg-amber-100 text-amber-700',
+  shipped: 'bg-indigo-100 text-indigo-700',
+  delivered: 'bg-green-100 text-green-700',
+  cancelled: 'bg-red-100 text-red-700',
+  refunded: 'bg-red-100 text-red-700',
+  partially_refunded: 'bg-orange-100 text-orange-700',
+};
+
+export function orderStatusLabel(status: OrderStatus): string {
+  return statusLabels[status] || status;
+}
+
+const OrderStatusBadge = ({ status, className }: { status: OrderStatus; className?: string }) => (
+  <Badge variant="outline" className={cn('border-transparent', statusClasses[status], className)}>
+    {orderStatusLabel(status)}
+  </Badge>
+);
+
+export default OrderStatusBadge;
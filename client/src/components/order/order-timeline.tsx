@@ -0,0 +1,24 @@
+import { CheckCircle2 } from 'lucide-react';
+import type { OrderEvent } from '@shared/schema';
+import { orderStatusLabel } from './order-status-badge';
+
+type TimelineEvent = Pick<OrderEvent, 'id' | 'fromStatus' | 'toStatus'> & { createdAt: string | Date | null };
+
+// Customer-facing order history, oldest first
+const OrderTimeline = ({ events }: { events: TimelineEvent[] }) => (
+  <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+    {events.map(event => (
+      <li key={event.id} className="ml-4">
+        <CheckCircle2 className="absolute -left-2 h-4 w-4 bg-white text-primary" />
+        <div className="font-medium">
+          {event.fromStatus ? orderStatusLabel(event.toStatus) : 'Order placed'}
+        </div>
+        {event.createdAt && (
+          <div className="text-sm text-gray-500">{new Date(event.createdAt).toLocaleString()}</div>
+        )}
+      </li>
+    ))}
+  </ol>
+);
+
+export default OrderTimeline;
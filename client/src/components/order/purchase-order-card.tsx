@@ -0,0 +1,213 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
+import { formatPrice } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import PurchaseOrderStatusBadge, { purchaseOrderLineStatusLabel } from './purchase-order-status-badge';
+import {
+  purchaseOrderLineStatuses,
+  type PurchaseOrder,
+  type PurchaseOrderItem,
+  type PurchaseOrderLineStatus,
+} from '@shared/schema';
+
+export type PurchaseOrderWithItems = PurchaseOrder & { items: PurchaseOrderItem[] };
+
+interface PurchaseOrderCardProps {
+  purchaseOrder: PurchaseOrderWithItems;
+  canManage: boolean;
+  onChange: () => void;
+}
+
+// A dropship purchase order on the admin order page, with what the supplier has done with each line
+const PurchaseOrderCard = ({ purchaseOrder, canManage, onChange }: PurchaseOrderCardProps) => {
+  const { toast } = useToast();
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [editingLine, setEditingLine] = useState<PurchaseOrderItem | null>(null);
+  const [lineStatus, setLineStatus] = useState<PurchaseOrderLineStatus>('ordered');
+  const [carrier, setCarrier] = useState('');
+  const [trackingNumber, setTrackingNumber] = useState('');
+
+  const isUnsent = purchaseOrder.status === 'pending' || purchaseOrder.status === 'failed';
+  const isOpen = purchaseOrder.status !== 'shipped' && purchaseOrder.status !== 'cancelled';
+
+  const act = async (action: 'send' | 'cancel') => {
+    setIsUpdating(true);
+    try {
+      const response = await apiRequest('POST', `/api/admin/purchase-orders/${purchaseOrder.id}/${action}`);
+      const updated: PurchaseOrder = await response.json();
+      if (action === 'send' && updated.status === 'failed') {
+        toast({ title: 'Still could not send the purchase order', description: updated.lastError ?? undefined, variant: 'destructive' });
+      } else {
+        toast({ title: action === 'send' ? 'Purchase order sent' : 'Purchase order cancelled' });
+      }
+      onChange();
+    } catch (error) {
+      const { status } = parseApiError(error);
+      toast({
+        title: action === 'send' ? 'Could not send purchase order' : 'Could not cancel purchase order',
+        description: status === 409 ? 'It changed in the meantime. Reload and try again.' : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const openLineEditor = (item: PurchaseOrderItem) => {
+    setLineStatus(item.status);
+    setCarrier(item.carrier || '');
+    setTrackingNumber(item.trackingNumber || '');
+    setEditingLine(item);
+  };
+
+  const handleLineUpdate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingLine) return;
+
+    setIsUpdating(true);
+    try {
+      await apiRequest('PUT', `/api/admin/purchase-order-items/${editingLine.id}`, {
+        status: lineStatus,
+        carrier: carrier || null,
+        trackingNumber: trackingNumber || null,
+      });
+      toast({ title: 'Line updated' });
+      setEditingLine(null);
+      onChange();
+    } catch (error) {
+      toast({ title: 'Could not update line', description: 'Please try again.', variant: 'destructive' });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle>{purchaseOrder.poNumber}</CardTitle>
+          <p className="text-sm text-gray-500 mt-1">
+            {purchaseOrder.supplierName}
+            {purchaseOrder.sentVia && ` · sent by ${purchaseOrder.sentVia === 'api' ? 'API' : 'email'}`}
+            {purchaseOrder.supplierReference && ` · their ref. ${purchaseOrder.supplierReference}`}
+          </p>
+          {purchaseOrder.status === 'failed' && purchaseOrder.lastError && (
+            <p className="text-sm text-red-600 mt-1">{purchaseOrder.lastError}</p>
+          )}
+        </div>
+        <PurchaseOrderStatusBadge status={purchaseOrder.status} />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Item</TableHead>
+              <TableHead className="text-right">Qty</TableHead>
+              <TableHead className="text-right">Cost</TableHead>
+              <TableHead>Status</TableHead>
+              {canManage && <TableHead className="w-20" />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {purchaseOrder.items.map(item => (
+              <TableRow key={item.id}>
+                <TableCell>
+                  <div className="font-medium">{item.name}</div>
+                  <div className="text-xs text-gray-500">{item.supplierSku}</div>
+                </TableCell>
+                <TableCell className="text-right">{item.quantity}</TableCell>
+                <TableCell className="text-right">{formatPrice(item.unitCost)}</TableCell>
+                <TableCell className="text-sm">
+                  {purchaseOrderLineStatusLabel(item.status)}
+                  {item.trackingNumber && (
+                    <div className="text-xs text-gray-500">{item.carrier && `${item.carrier} `}{item.trackingNumber}</div>
+                  )}
+                </TableCell>
+                {canManage && (
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" disabled={isUnsent} onClick={() => openLineEditor(item)}>
+                      Update
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm mr-auto">Total at cost <span className="font-medium">{formatPrice(purchaseOrder.subtotal)}</span></span>
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/api/admin/purchase-orders/${purchaseOrder.id}/csv`}>
+              <Download className="h-4 w-4 mr-1" /> CSV
+            </a>
+          </Button>
+          {canManage && isUnsent && (
+            <Button size="sm" disabled={isUpdating} onClick={() => act('send')}>
+              {purchaseOrder.status === 'failed' ? 'Resend' : 'Send'}
+            </Button>
+          )}
+          {canManage && isOpen && (
+            <Button variant="outline" size="sm" disabled={isUpdating} onClick={() => act('cancel')}>
+              Cancel PO
+            </Button>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={editingLine !== null} onOpenChange={(open) => !open && setEditingLine(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingLine?.name}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleLineUpdate} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select value={lineStatus} onValueChange={(value) => setLineStatus(value as PurchaseOrderLineStatus)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {purchaseOrderLineStatuses.map(status => (
+                    <SelectItem key={status} value={status}>{purchaseOrderLineStatusLabel(status)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="line-carrier">Carrier</Label>
+                <Input id="line-carrier" value={carrier} onChange={(e) => setCarrier(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="line-tracking">Tracking number</Label>
+                <Input id="line-tracking" value={trackingNumber} onChange={(e) => setTrackingNumber(e.target.value)} />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setEditingLine(null)}>Cancel</Button>
+              <Button type="submit" disabled={isUpdating}>{isUpdating ? 'Saving...' : 'Save'}</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default PurchaseOrderCard;
@@ -0,0 +1,45 @@
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import type { PurchaseOrderLineStatus, PurchaseOrderStatus } from '@shared/schema';
+
+const statusLabels: Record<PurchaseOrderStatus, string> = {
+  pending: 'Not Sent',
+  sent: 'Sent',
+  failed: 'Send Failed',
+  acknowledged: 'Acknowledged',
+  shipped: 'Shipped',
+  cancelled: 'Cancelled',
+};
+
+const statusClasses: Record<PurchaseOrderStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  sent: 'bg-blue-100 text-blue-700',
+  failed: 'bg-red-100 text-red-700',
+  acknowledged: 'bg-amber-100 text-amber-700',
+  shipped: 'bg-green-100 text-green-700',
+  cancelled: 'bg-gray-100 text-gray-500',
+};
+
+const lineStatusLabels: Record<PurchaseOrderLineStatus, string> = {
+  pending: 'Not ordered',
+  ordered: 'Ordered',
+  backordered: 'Backordered',
+  shipped: 'Shipped',
+  cancelled: 'Cancelled',
+};
+
+export function purchaseOrderStatusLabel(status: PurchaseOrderStatus): string {
+  return statusLabels[status] || status;
+}
+
+export function purchaseOrderLineStatusLabel(status: PurchaseOrderLineStatus): string {
+  return lineStatusLabels[status] || status;
+}
+
+const PurchaseOrderStatusBadge = ({ status, className }: { status: PurchaseOrderStatus; className?: string }) => (
+  <Badge variant="outline" className={cn('border-transparent', statusClasses[status], className)}>
+    {purchaseOrderStatusLabel(status)}
+  </Badge>
+);
+
+export default PurchaseOrderStatusBadge;
@@ -0,0 +1,44 @@
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import type { ReturnReason, ReturnStatus } from '@shared/schema';
+
+const statusLabels: Record<ReturnStatus, string> = {
+  requested: 'Requested',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  received: 'Received',
+  refunded: 'Refunded',
+};
+
+const statusClasses: Record<ReturnStatus, string> = {
+  requested: 'bg-gray-100 text-gray-700',
+  approved: 'bg-blue-100 text-blue-700',
+  rejected: 'bg-red-100 text-red-700',
+  received: 'bg-indigo-100 text-indigo-700',
+  refunded: 'bg-green-100 text-green-700',
+};
+
+const reasonLabels: Record<ReturnReason, string> = {
+  defective: 'Defective',
+  damaged_in_shipping: 'Damaged in shipping',
+  wrong_item: 'Wrong item sent',
+  does_not_fit: "Doesn't fit my vehicle",
+  no_longer_needed: 'No longer needed',
+  other: 'Other',
+};
+
+export function returnStatusLabel(status: ReturnStatus): string {
+  return statusLabels[status] || status;
+}
+
+export function returnReasonLabel(reason: ReturnReason): string {
+  return reasonLabels[reason] || reason;
+}
+
+const ReturnStatusBadge = ({ status, className }: { status: ReturnStatus; className?: string }) => (
+  <Badge variant="outline" className={cn('border-transparent', statusClasses[status], className)}>
+    {returnStatusLabel(status)}
+  </Badge>
+);
+
+export default ReturnStatusBadge;
@@ -0,0 +1,90 @@
+import { Fragment } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Plus } from "lucide-react";
+import type { BundleOffer, Product } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useCart } from "@/hooks/use-cart";
+import { formatPrice } from "@/lib/utils";
+import { getBundleOffers } from "@/lib/salesFunnel";
+
+const firstImage = (product: Product): string | undefined =>
+  Array.isArray(product.images) ? product.images[0] : undefined;
+
+interface FrequentlyBoughtTogetherProps {
+  productId: number;
+}
+
+/**
+ * The bundles offered with a product. Adding one puts whichever of its items aren't in the
+ * cart yet into it; the discount shows up in the cart once every item is there.
+ */
+const FrequentlyBoughtTogether = ({ productId }: FrequentlyBoughtTogetherProps) => {
+  const { items, addItem } = useCart();
+  const { toast } = useToast();
+
+  const { data: bundles = [] } = useQuery<BundleOffer[]>({
+    queryKey: ["productBundles", productId],
+    queryFn: () => getBundleOffers(productId),
+  });
+
+  if (bundles.length === 0) return null;
+
+  const handleAddBundle = (bundle: BundleOffer) => {
+    const missing = bundle.products.filter(product => !items.some(item => item.product.id === product.id));
+    if (missing.length === 0) {
+      toast({ title: "Already in your cart", description: `Everything in ${bundle.name} is in your cart.` });
+      return;
+    }
+
+    missing.forEach(product => addItem(product, 1));
+    toast({
+      title: "Bundle added to cart",
+      description: `${missing.length} item${missing.length === 1 ? "" : "s"} added. You save ${bundle.discountPercent}% on the bundle.`,
+    });
+  };
+
+  return (
+    <div className="space-y-4 mb-12">
+      <h2 className="text-2xl font-bold">Frequently Bought Together</h2>
+      {bundles.map(bundle => (
+        <Card key={bundle.id}>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle className="text-lg">{bundle.name}</CardTitle>
+            <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Save {bundle.discountPercent}%</Badge>
+          </CardHeader>
+          <CardContent className="flex flex-col lg:flex-row lg:items-center gap-6">
+            <div className="flex flex-wrap items-center gap-3 flex-1">
+              {bundle.products.map((product, index) => (
+                <Fragment key={product.id}>
+                  {index > 0 && <Plus className="h-4 w-4 text-gray-400" />}
+                  <Link href={`/product/${product.slug}`} className="w-28 text-center group">
+                    {firstImage(product) ? (
+                      <img src={firstImage(product)} alt={product.name} className="h-24 w-full object-cover rounded border" />
+                    ) : (
+                      <div className="h-24 w-full rounded border bg-gray-100" />
+                    )}
+                    <div className="mt-1 text-xs line-clamp-2 group-hover:underline">{product.name}</div>
+                    <div className="text-xs text-gray-500">{formatPrice(product.price)}</div>
+                  </Link>
+                </Fragment>
+              ))}
+            </div>
+            <div className="space-y-2 lg:w-56">
+              <div className="text-sm text-gray-500 line-through">{formatPrice(bundle.price)}</div>
+              <div className="text-2xl font-bold">{formatPrice(bundle.bundlePrice)}</div>
+              <Button className="w-full" onClick={() => handleAddBundle(bundle)}>
+                Add all {bundle.products.length} to cart
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+};
+
+export default FrequentlyBoughtTogether;
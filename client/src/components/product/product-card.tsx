@@ -1,13 +1,14 @@
 import { useState } from "react";
 import { Link } from "wouter";
 import { Product } from "@shared/schema";
-import { Heart, Eye, ShoppingCart } from "lucide-react";
+import { Heart, Eye, ShoppingCart, CheckCircle2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import StarRating from "@/components/ui/star-rating";
 import { formatPrice, calculateDiscount } from "@/lib/utils";
 import { useCart } from "@/hooks/use-cart";
+import { useGarage, useFitsActiveVehicle } from "@/hooks/use-garage";
 
 interface ProductCardProps {
   product: Product;
@@ -17,6 +18,8 @@ const ProductCard = ({ product }: ProductCardProps) => {
   const [isAddingToCart, setIsAddingToCart] = useState(false);
   const { toast } = useToast();
   const { addItem } = useCart();
+  const { activeVehicle } = useGarage();
+  const fitsActiveVehicle = useFitsActiveVehicle(product.id);
   
   const {
     id,
@@ -120,6 +123,14 @@ const ProductCard = ({ product }: ProductCardProps) => {
             </div>
           </div>
           
+          {/* Garage fitment */}
+          {activeVehicle && fitsActiveVehicle && (
+            <div className="flex items-center text-sm text-green-600 font-medium mb-2">
+              <CheckCircle2 className="h-4 w-4 mr-1" />
+              Fits your {activeVehicle.nickname || activeVehicle.model}
+            </div>
+          )}
+          
           {/* Product Name */}
           <h3 className="font-heading font-semibold text-lg mb-2 hover:text-primary transition-colors line-clamp-2">
             {name}
@@ -0,0 +1,199 @@
+import { useRef, useState } from 'react';
+import { Upload } from 'lucide-react';
+import { parseApiError } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+
+interface ProductImportResult {
+  dryRun: boolean;
+  rowCount: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  rows: { row: number; sku: string; action: 'create' | 'update'; changes: string[] }[];
+  errors: { row: number; sku?: string; message: string }[];
+}
+
+interface ProductImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+const formatOf = (file: File) => file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+
+// The file goes up as it is, rather than as JSON, so a large catalog isn't inflated
+async function uploadProducts(file: File, dryRun: boolean): Promise<ProductImportResult> {
+  const response = await fetch(
+    `/api/admin/products/import?format=${formatOf(file)}&dryRun=${dryRun}`,
+    { method: 'POST', headers: { 'Content-Type': 'application/octet-stream' }, body: file, credentials: 'include' }
+  );
+  if (!response.ok) throw new Error(`${response.status}: ${await response.text() || response.statusText}`);
+  return response.json();
+}
+
+/**
+ * Imports a product file in two steps: choosing the file runs a dry run, and only once
+ * the preview has been checked are the products created and updated.
+ */
+const ProductImportDialog = ({ open, onOpenChange, onImported }: ProductImportDialogProps) => {
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ProductImportResult | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (isWorking) return;
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = e.target.files?.[0];
+    e.target.value = '';
+    if (!chosen) return;
+
+    setIsWorking(true);
+    try {
+      setPreview(await uploadProducts(chosen, true));
+      setFile(chosen);
+    } catch (error) {
+      reset();
+      toast({ title: 'Could not read the file', description: parseApiError(error).message, variant: 'destructive' });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+
+    setIsWorking(true);
+    try {
+      const result = await uploadProducts(file, false);
+      toast({
+        title: `${result.created} product(s) created, ${result.updated} updated`,
+        description: result.errors.length > 0 ? `${result.errors.length} row(s) could not be imported.` : undefined,
+        variant: result.errors.length > 0 ? 'destructive' : undefined,
+      });
+      onImported();
+      reset();
+      onOpenChange(false);
+    } catch (error) {
+      toast({ title: 'Could not import products', description: parseApiError(error).message, variant: 'destructive' });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const pendingCount = preview ? preview.created + preview.updated : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Products</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or JSON file in the export's layout. Products are matched by SKU, and only the
+            columns in the file are changed. Nothing is saved until you confirm the preview.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <input ref={fileInput} type="file" accept=".csv,.txt,.json" className="hidden" onChange={handleFile} />
+          <Button variant="outline" size="sm" disabled={isWorking} onClick={() => fileInput.current?.click()}>
+            <Upload className="h-4 w-4 mr-1" /> {file ? 'Choose Another File' : 'Choose File'}
+          </Button>
+          {file && <span className="text-sm text-gray-500 truncate">{file.name}</span>}
+        </div>
+
+        {preview && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="outline">{preview.rowCount} row(s)</Badge>
+              <Badge variant="outline" className="border-transparent bg-green-100 text-green-700">{preview.created} to create</Badge>
+              <Badge variant="outline" className="border-transparent bg-blue-100 text-blue-700">{preview.updated} to update</Badge>
+              <Badge variant="outline" className="border-transparent bg-gray-100 text-gray-500">{preview.unchanged} unchanged</Badge>
+              {preview.errors.length > 0 && (
+                <Badge variant="outline" className="border-transparent bg-red-100 text-red-700">{preview.errors.length} with errors</Badge>
+              )}
+            </div>
+
+            {preview.errors.length > 0 && (
+              <div className="max-h-48 overflow-y-auto border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Row</TableHead>
+                      <TableHead className="w-40">SKU</TableHead>
+                      <TableHead>Problem</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.errors.map(rowError => (
+                      <TableRow key={rowError.row}>
+                        <TableCell>{rowError.row}</TableCell>
+                        <TableCell>{rowError.sku || '-'}</TableCell>
+                        <TableCell className="text-sm text-red-700">{rowError.message}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {preview.rows.length > 0 && (
+              <div className="max-h-48 overflow-y-auto border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Row</TableHead>
+                      <TableHead className="w-40">SKU</TableHead>
+                      <TableHead>Change</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.rows.map(row => (
+                      <TableRow key={row.row}>
+                        <TableCell>{row.row}</TableCell>
+                        <TableCell>{row.sku}</TableCell>
+                        <TableCell className="text-sm">
+                          {row.action === 'create' ? 'New product' : `Updates ${row.changes.join(', ')}`}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" disabled={isWorking} onClick={() => handleOpenChange(false)}>Cancel</Button>
+          <Button disabled={isWorking || pendingCount === 0} onClick={handleImport}>
+            {isWorking ? 'Working...' : `Import ${pendingCount} Product(s)`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProductImportDialog;
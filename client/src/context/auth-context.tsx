@@ -1,9 +1,12 @@
 import React, { createContext, useContext, useState, useEffect } from "react";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
 import { User } from "@shared/schema";
 
+// The user fields the API exposes
+export type AuthUser = Pick<User, "id" | "username" | "email" | "fullName" | "role">;
+
 interface AuthContextType {
-  user: User | null;
+  user: AuthUser | null;
   isLoading: boolean;
   error: string | null;
   login: (email: string, password: string) => Promise<void>;
@@ -13,25 +16,29 @@ interface AuthContextType {
     password: string;
     fullName?: string;
   }) => Promise<void>;
-  logout: () => void;
+  logout: () => Promise<void>;
+  requestPasswordReset: (email: string) => Promise<void>;
+  resetPassword: (token: string, password: string) => Promise<void>;
   isAuthenticated: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const AuthProvider: React.FC<{children: React.ReactNode}> = ({ children }) => {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Check if user is logged in on initial load
+  // Restore the signed-in user from the session cookie on initial load
   useEffect(() => {
     const checkAuthStatus = async () => {
       try {
-        // Try to get user data from localStorage first
-        const storedUser = localStorage.getItem("user");
-        if (storedUser) {
-          setUser(JSON.parse(storedUser));
+        // Older builds kept the user in localStorage; the session is the source of truth now
+        localStorage.removeItem("user");
+        
+        const response = await fetch("/api/users/me", { credentials: "include" });
+        if (response.ok) {
+          setUser(await response.json());
         }
         
         setIsLoading(false);
@@ -57,11 +64,10 @@ export const AuthProvider: React.FC<{children: React.ReactNode}> = ({ children }
 
       const userData = await response.json();
       setUser(userData);
-      localStorage.setItem("user", JSON.stringify(userData));
       setIsLoading(false);
-    } catch (err: any) {
+    } catch (err) {
       console.error("Login error:", err);
-      setError(err.message || "Failed to login");
+      setError(parseApiError(err).message || "Failed to login");
       setIsLoading(false);
       throw err;
     }
@@ -80,21 +86,31 @@ export const AuthProvider: React.FC<{children: React.ReactNode}> = ({ children }
       const response = await apiRequest("POST", "/api/users/register", userData);
       const newUser = await response.json();
       
-      // Automatically log in after registration
+      // The server signs new users in straight away
       setUser(newUser);
-      localStorage.setItem("user", JSON.stringify(newUser));
       setIsLoading(false);
-    } catch (err: any) {
+    } catch (err) {
       console.error("Registration error:", err);
-      setError(err.message || "Failed to register");
+      setError(parseApiError(err).message || "Failed to register");
       setIsLoading(false);
       throw err;
     }
   };
 
-  const logout = () => {
-    setUser(null);
-    localStorage.removeItem("user");
+  const logout = async () => {
+    try {
+      await apiRequest("POST", "/api/users/logout");
+    } finally {
+      setUser(null);
+    }
+  };
+
+  const requestPasswordReset = async (email: string) => {
+    await apiRequest("POST", "/api/users/password-reset", { email });
+  };
+
+  const resetPassword = async (token: string, password: string) => {
+    await apiRequest("POST", "/api/users/password-reset/confirm", { token, password });
   };
 
   const value = {
@@ -104,6 +120,8 @@ export const AuthProvider: React.FC<{children: React.ReactNode}> = ({ children }
     login,
     register,
     logout,
+    requestPasswordReset,
+    resetPassword,
     isAuthenticated: !!user,
   };
 
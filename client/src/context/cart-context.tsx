@@ -1,6 +1,8 @@
-import React, { createContext, useReducer, useContext, useEffect } from 'react';
+import React, { createContext, useReducer, useContext, useEffect, useRef } from 'react';
 import { Product } from '@shared/schema';
 import { formatPrice } from '@/lib/utils';
+import { flushAnalytics } from '@/lib/analytics';
+import { trackAddToCart, trackCartAbandon } from '@/lib/salesFunnel';
 
 export interface CartItem {
   id: number;
@@ -10,6 +12,7 @@ export interface CartItem {
 
 interface CartState {
   items: CartItem[];
+  promotionCodes: string[];
   isOpen: boolean;
 }
 
@@ -18,6 +21,8 @@ type CartAction =
   | { type: 'REMOVE_ITEM'; id: number }
   | { type: 'UPDATE_QUANTITY'; id: number; quantity: number }
   | { type: 'CLEAR_CART' }
+  | { type: 'ADD_PROMOTION_CODE'; code: string }
+  | { type: 'REMOVE_PROMOTION_CODE'; code: string }
   | { type: 'OPEN_CART' }
   | { type: 'CLOSE_CART' };
 
@@ -28,6 +33,10 @@ interface CartContextProps {
   removeItem: (id: number) => void;
   updateItemQuantity: (id: number, quantity: number) => void;
   clearCart: () => void;
+  // Codes are checked by the server when applied and again on every quote
+  promotionCodes: string[];
+  addPromotionCode: (code: string) => void;
+  removePromotionCode: (code: string) => void;
   openCart: () => void;
   closeCart: () => void;
   cartTotal: number;
@@ -38,6 +47,7 @@ const CartContext = createContext<CartContextProps | undefined>(undefined);
 
 const initialState: CartState = {
   items: [],
+  promotionCodes: [],
   isOpen: false,
 };
 
@@ -88,7 +98,16 @@ function cartReducer(state: CartState, action: CartAction): CartState {
     }
 
     case 'CLEAR_CART':
-      return { ...state, items: [] };
+      return { ...state, items: [], promotionCodes: [] };
+
+    case 'ADD_PROMOTION_CODE': {
+      const code = action.code.trim().toUpperCase();
+      if (state.promotionCodes.includes(code)) return state;
+      return { ...state, promotionCodes: [...state.promotionCodes, code] };
+    }
+
+    case 'REMOVE_PROMOTION_CODE':
+      return { ...state, promotionCodes: state.promotionCodes.filter(code => code !== action.code) };
 
     case 'OPEN_CART':
       return { ...state, isOpen: true };
@@ -108,7 +127,7 @@ export const CartProvider: React.FC<{children: React.ReactNode}> = ({ children }
     
     try {
       const storedCart = localStorage.getItem('cart');
-      return storedCart ? { ...JSON.parse(storedCart), isOpen: false } : initialState;
+      return storedCart ? { ...initialState, ...JSON.parse(storedCart), isOpen: false } : initialState;
     } catch (error) {
       console.error('Failed to parse cart from localStorage:', error);
       return initialState;
@@ -120,11 +139,24 @@ export const CartProvider: React.FC<{children: React.ReactNode}> = ({ children }
     if (typeof window === 'undefined') return;
     
     try {
-      localStorage.setItem('cart', JSON.stringify({ items: state.items }));
+      localStorage.setItem('cart', JSON.stringify({ items: state.items, promotionCodes: state.promotionCodes }));
     } catch (error) {
       console.error('Failed to save cart to localStorage:', error);
     }
-  }, [state.items]);
+  }, [state.items, state.promotionCodes]);
+
+  // Leaving the site with something in the cart counts as abandoning it
+  const itemsRef = useRef(state.items);
+  itemsRef.current = state.items;
+  useEffect(() => {
+    const handlePageHide = () => {
+      if (itemsRef.current.length === 0) return;
+      trackCartAbandon(itemsRef.current.map(item => item.product.id));
+      flushAnalytics();
+    };
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, []);
 
   // Calculate cart total
   const cartTotal = state.items.reduce(
@@ -141,12 +173,17 @@ export const CartProvider: React.FC<{children: React.ReactNode}> = ({ children }
   const value = {
     items: state.items,
     isOpen: state.isOpen,
-    addItem: (product: Product, quantity: number) =>
-      dispatch({ type: 'ADD_ITEM', product, quantity }),
+    addItem: (product: Product, quantity: number) => {
+      dispatch({ type: 'ADD_ITEM', product, quantity });
+      trackAddToCart(product.id, quantity);
+    },
     removeItem: (id: number) => dispatch({ type: 'REMOVE_ITEM', id }),
     updateItemQuantity: (id: number, quantity: number) =>
       dispatch({ type: 'UPDATE_QUANTITY', id, quantity }),
     clearCart: () => dispatch({ type: 'CLEAR_CART' }),
+    promotionCodes: state.promotionCodes,
+    addPromotionCode: (code: string) => dispatch({ type: 'ADD_PROMOTION_CODE', code }),
+    removePromotionCode: (code: string) => dispatch({ type: 'REMOVE_PROMOTION_CODE', code }),
     openCart: () => dispatch({ type: 'OPEN_CART' }),
     closeCart: () => dispatch({ type: 'CLOSE_CART' }),
     cartTotal,
@@ -0,0 +1,191 @@
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { ProductFitmentDetail, UserVehicle } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { useAuth } from '@/context/auth-context';
+
+// A saved vehicle; guest vehicles only live in localStorage and get local ids
+export interface GarageVehicle {
+  id: number;
+  make: string;
+  model: string;
+  year: number;
+  variant?: string | null;
+  nickname?: string | null;
+  isActive?: boolean | null;
+}
+
+export type NewGarageVehicle = Omit<GarageVehicle, 'id' | 'isActive'>;
+
+interface GarageContextProps {
+  vehicles: GarageVehicle[];
+  activeVehicle: GarageVehicle | null;
+  isLoading: boolean;
+  addVehicle: (vehicle: NewGarageVehicle) => Promise<void>;
+  removeVehicle: (id: number) => Promise<void>;
+  setActiveVehicle: (id: number | null) => Promise<void>;
+}
+
+const GUEST_GARAGE_KEY = 'garage';
+
+const GarageContext = createContext<GarageContextProps | undefined>(undefined);
+
+// Display name for a vehicle, e.g. "2021 Polaris RZR XP 1000"
+export function vehicleLabel(vehicle: NewGarageVehicle): string {
+  return vehicle.nickname || [vehicle.year, vehicle.make, vehicle.model, vehicle.variant].filter(Boolean).join(' ');
+}
+
+// Value for the /api/products fitment parameter ("make|model|year[|variant]")
+export function vehicleFitmentParam(vehicle: NewGarageVehicle): string {
+  const parts = [vehicle.make, vehicle.model, vehicle.year.toString()];
+  if (vehicle.variant) parts.push(vehicle.variant);
+  return parts.join('|');
+}
+
+// Mirrors the server's fitment filter: same make and model, year in range, variant unrestricted or equal
+export function vehicleFits(fitments: ProductFitmentDetail[], vehicle: NewGarageVehicle): boolean {
+  return fitments.some(fitment =>
+    fitment.make.toLowerCase() === vehicle.make.toLowerCase() &&
+    fitment.model.toLowerCase() === vehicle.model.toLowerCase() &&
+    fitment.yearFrom <= vehicle.year &&
+    fitment.yearTo >= vehicle.year &&
+    (!fitment.variant || fitment.variant.toLowerCase() === (vehicle.variant || '').toLowerCase())
+  );
+}
+
+function isSameVehicle(a: NewGarageVehicle, b: NewGarageVehicle): boolean {
+  return a.make.toLowerCase() === b.make.toLowerCase() &&
+    a.model.toLowerCase() === b.model.toLowerCase() &&
+    a.year === b.year &&
+    (a.variant || '').toLowerCase() === (b.variant || '').toLowerCase();
+}
+
+function loadGuestGarage(): GarageVehicle[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const storedGarage = localStorage.getItem(GUEST_GARAGE_KEY);
+    return storedGarage ? JSON.parse(storedGarage) : [];
+  } catch (error) {
+    console.error('Failed to parse garage from localStorage:', error);
+    return [];
+  }
+}
+
+export const GarageProvider: React.FC<{children: React.ReactNode}> = ({ children }) => {
+  const { user } = useAuth();
+  const [guestVehicles, setGuestVehicles] = useState<GarageVehicle[]>(loadGuestGarage);
+  const garageUrl = user ? `/api/users/${user.id}/garage` : null;
+
+  // Signed-in customers keep their garage on the server
+  const [savedVehicles, setSavedVehicles] = useState<UserVehicle[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+
+  const refreshGarage = async () => {
+    if (!garageUrl) return;
+    const response = await apiRequest('GET', garageUrl);
+    setSavedVehicles(await response.json());
+  };
+
+  // Load the saved garage on sign in, first merging in anything saved while browsing as a guest
+  useEffect(() => {
+    setSavedVehicles([]);
+    if (!garageUrl) return;
+
+    const guestGarage = guestVehicles.map(({ id, isActive, ...vehicle }) => ({ ...vehicle, isActive: !!isActive }));
+    const request = guestGarage.length > 0
+      ? apiRequest('POST', `${garageUrl}/merge`, { vehicles: guestGarage })
+      : apiRequest('GET', garageUrl);
+
+    setIsLoading(true);
+    request
+      .then(response => response.json())
+      .then((vehicles: UserVehicle[]) => {
+        setSavedVehicles(vehicles);
+        if (guestGarage.length > 0) setGuestVehicles([]);
+      })
+      .catch(error => console.error('Failed to load garage:', error))
+      .finally(() => setIsLoading(false));
+  }, [garageUrl]);
+
+  // Save the guest garage to localStorage when it changes
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+
+    try {
+      if (guestVehicles.length > 0) {
+        localStorage.setItem(GUEST_GARAGE_KEY, JSON.stringify(guestVehicles));
+      } else {
+        localStorage.removeItem(GUEST_GARAGE_KEY);
+      }
+    } catch (error) {
+      console.error('Failed to save garage to localStorage:', error);
+    }
+  }, [guestVehicles]);
+
+  const addVehicle = async (vehicle: NewGarageVehicle) => {
+    if (garageUrl) {
+      await apiRequest('POST', garageUrl, { ...vehicle, isActive: true });
+      await refreshGarage();
+      return;
+    }
+
+    setGuestVehicles(current => {
+      const existing = current.find(saved => isSameVehicle(saved, vehicle));
+      const others = current
+        .filter(saved => saved !== existing)
+        .map(saved => ({ ...saved, isActive: false }));
+      return [...others, { ...(existing || vehicle), id: existing?.id ?? Date.now(), isActive: true }];
+    });
+  };
+
+  const removeVehicle = async (id: number) => {
+    if (garageUrl) {
+      await apiRequest('DELETE', `${garageUrl}/${id}`);
+      await refreshGarage();
+      return;
+    }
+
+    setGuestVehicles(current => current.filter(vehicle => vehicle.id !== id));
+  };
+
+  // Passing null shops without a vehicle
+  const setActiveVehicle = async (id: number | null) => {
+    if (garageUrl) {
+      const current = savedVehicles.find(vehicle => vehicle.isActive);
+      if (id !== null) {
+        await apiRequest('PATCH', `${garageUrl}/${id}`, { isActive: true });
+      } else if (current) {
+        await apiRequest('PATCH', `${garageUrl}/${current.id}`, { isActive: false });
+      }
+      await refreshGarage();
+      return;
+    }
+
+    setGuestVehicles(current => current.map(vehicle => ({ ...vehicle, isActive: vehicle.id === id })));
+  };
+
+  const vehicles: GarageVehicle[] = garageUrl ? savedVehicles : guestVehicles;
+
+  const value = {
+    vehicles,
+    activeVehicle: vehicles.find(vehicle => vehicle.isActive) || null,
+    isLoading,
+    addVehicle,
+    removeVehicle,
+    setActiveVehicle,
+  };
+
+  return (
+    <GarageContext.Provider value={value}>
+      {children}
+    </GarageContext.Provider>
+  );
+};
+
+export const useGarage = () => {
+  const context = useContext(GarageContext);
+  if (context === undefined) {
+    throw new Error('useGarage must be used within a GarageProvider');
+  }
+  return context;
+};
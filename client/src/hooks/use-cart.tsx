@@ -1,4 +1,26 @@
+import { useQuery } from '@tanstack/react-query';
+import type { Quote } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
 import { useCart as useCartContext } from '@/context/cart-context';
 
 // Re-export the hook from the context
 export const useCart = useCartContext;
+
+/**
+ * The server's price for the current cart: line prices, discounts, shipping, tax and total.
+ * Re-quoted whenever the cart's products, quantities or promotion codes change.
+ */
+export const useCartQuote = () => {
+  const { items, promotionCodes } = useCartContext();
+  const lines = items.map(item => ({ productId: item.product.id, quantity: item.quantity }));
+
+  return useQuery<Quote>({
+    queryKey: ['cartQuote', lines, promotionCodes],
+    queryFn: async () => {
+      const response = await apiRequest('POST', '/api/cart/quote', { items: lines, promotionCodes });
+      return response.json();
+    },
+    enabled: lines.length > 0,
+    placeholderData: (previous) => previous,
+  });
+};
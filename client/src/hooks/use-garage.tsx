@@ -0,0 +1,51 @@
+import { useQuery } from '@tanstack/react-query';
+import { ProductFitmentDetail } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { useGarage as useGarageContext, vehicleFits } from '@/context/garage-context';
+
+// Re-export the hook from the context
+export const useGarage = useGarageContext;
+
+const MAX_FITMENT_BATCH = 100;
+
+let fitmentBatch: { productIds: number[]; fitments: Promise<Record<number, ProductFitmentDetail[]>> } | null = null;
+
+/**
+ * A product's fitment. Cards asking at the same time, like a page of search results,
+ * share one request instead of each making their own.
+ */
+function fetchFitment(productId: number): Promise<ProductFitmentDetail[]> {
+  if (!fitmentBatch || fitmentBatch.productIds.length >= MAX_FITMENT_BATCH) {
+    const productIds: number[] = [];
+    const fitments = new Promise<Record<number, ProductFitmentDetail[]>>((resolve, reject) => {
+      setTimeout(() => {
+        if (fitmentBatch?.productIds === productIds) fitmentBatch = null;
+        apiRequest('GET', `/api/fitment?productIds=${productIds.join(',')}`)
+          .then(response => response.json())
+          .then(resolve, reject);
+      }, 0);
+    });
+    fitmentBatch = { productIds, fitments };
+  }
+
+  const batch = fitmentBatch;
+  if (!batch.productIds.includes(productId)) batch.productIds.push(productId);
+  return batch.fitments.then(fitments => fitments[productId] ?? []);
+}
+
+/**
+ * Whether a product fits the active garage vehicle.
+ * Returns null when there is no active vehicle or the product has no recorded fitment.
+ */
+export const useFitsActiveVehicle = (productId: number): boolean | null => {
+  const { activeVehicle } = useGarageContext();
+  
+  const { data: fitments } = useQuery<ProductFitmentDetail[]>({
+    queryKey: ['productFitment', productId],
+    queryFn: () => fetchFitment(productId),
+    enabled: !!activeVehicle,
+  });
+  
+  if (!activeVehicle || !fitments || fitments.length === 0) return null;
+  return vehicleFits(fitments, activeVehicle);
+};
@@ -0,0 +1,65 @@
+/**
+ * Batched analytics sending
+ *
+ * Events are queued and sent together every few seconds, and whatever is left when the
+ * page is hidden or closed goes out with navigator.sendBeacon, which the browser delivers
+ * even as the page unloads.
+ */
+
+import type { ClientAnalyticsEvent } from '@shared/schema';
+
+const ENDPOINT = '/api/analytics/events';
+const FLUSH_DELAY_MS = 5000;
+const MAX_BATCH = 50; // the server's limit per batch
+
+// An event as the caller describes it; the time it happened is filled in here
+type DistributiveOmit<T, K extends keyof any> = T extends unknown ? Omit<T, K> : never;
+export type AnalyticsEventInput = DistributiveOmit<ClientAnalyticsEvent, 'occurredAt'>;
+
+const queue: ClientAnalyticsEvent[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+function send(events: ClientAnalyticsEvent[]): void {
+  const body = JSON.stringify({ events });
+
+  // sendBeacon returns false when the browser won't queue it, e.g. over its size limit
+  if (navigator.sendBeacon?.(ENDPOINT, new Blob([body], { type: 'application/json' }))) {
+    return;
+  }
+  fetch(ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body,
+    credentials: 'include',
+    keepalive: true,
+  }).catch(error => console.error('Error sending analytics events:', error));
+}
+
+// Sends everything queued so far
+export function flushAnalytics(): void {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  while (queue.length > 0) {
+    send(queue.splice(0, MAX_BATCH));
+  }
+}
+
+export function trackEvent(event: AnalyticsEventInput): void {
+  queue.push({ ...event, occurredAt: Date.now() } as ClientAnalyticsEvent);
+
+  if (queue.length >= MAX_BATCH) {
+    flushAnalytics();
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(flushAnalytics, FLUSH_DELAY_MS);
+  }
+}
+
+// Pages often never unload on mobile, they're just hidden, so both are watched
+if (typeof window !== 'undefined') {
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') flushAnalytics();
+  });
+  window.addEventListener('pagehide', flushAnalytics);
+}
@@ -7,6 +7,32 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+export interface ApiErrorDetails {
+  status: number | null; // null when the error didn't come from a response
+  message: string; // the server's `message`, or the error's own
+  body: Record<string, unknown> | null; // the response's JSON body
+}
+
+// Failed requests throw "<status>: <body>"; this takes that apart again
+export function parseApiError(error: unknown): ApiErrorDetails {
+  const text = error instanceof Error ? error.message : String(error);
+  const match = /^(\d{3}): ([\s\S]*)$/.exec(text);
+  if (!match) return { status: null, message: text, body: null };
+
+  let body: Record<string, unknown> | null = null;
+  try {
+    const parsed = JSON.parse(match[2]);
+    if (parsed && typeof parsed === "object") body = parsed;
+  } catch {
+    // A plain-text body, e.g. from a proxy
+  }
+  return {
+    status: parseInt(match[1]),
+    message: typeof body?.message === "string" ? body.message : match[2],
+    body,
+  };
+}
+
 export async function apiRequest(
   method: string,
   url: string,
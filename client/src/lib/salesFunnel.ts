@@ -13,14 +13,18 @@
  * - Fallback mechanisms when API limits are reached
  */
 
+import type { BundleOffer } from '@shared/schema';
 import { apiRequest } from './queryClient';
+import { trackEvent } from './analytics';
 
 // Session data structure
 interface SessionData {
+  id: string; // the analytics session, renewed after a spell of inactivity
   viewedProducts: number[];
   cartItems: number[];
   cartAbandons: number[];
   sessionStartTime: number;
+  lastActivityTime: number;
   deviceInfo: {
     screenWidth: number;
     mobileDevice: boolean;
@@ -30,41 +34,49 @@ interface SessionData {
   referrer: string | null;
 }
 
+// A visit ends after half an hour without activity; browsing history carries over to the next
+const SESSION_IDLE_MS = 30 * 60 * 1000;
+
 // Customer segment based on browsing behavior
 export type CustomerSegment = 'price_sensitive' | 'feature_focused' | 'brand_loyal' | 'new_visitor' | 'returning_customer';
 
-// Initialize session tracking
+// Initialize session tracking, starting a new analytics session when the last one has gone idle
 export function initSessionTracking(): void {
-  // Only initialize once per session
-  if (window.localStorage.getItem('utv_session')) {
+  const existing = readSessionData();
+  if (existing && Date.now() - existing.lastActivityTime < SESSION_IDLE_MS) {
     return;
   }
 
-  // Create and store new session data
   const sessionData: SessionData = {
     viewedProducts: [],
     cartItems: [],
     cartAbandons: [],
+    ...existing,
+    id: crypto.randomUUID(),
     sessionStartTime: Date.now(),
+    lastActivityTime: Date.now(),
     deviceInfo: {
       screenWidth: window.innerWidth,
       mobileDevice: /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent),
       browser: getBrowserInfo(),
       os: getOSInfo()
     },
-    referrer: document.referrer || null
+    referrer: getExternalReferrer()
   };
+  saveSessionData(sessionData);
 
-  // Store session data in localStorage
-  window.localStorage.setItem('utv_session', JSON.stringify(sessionData));
+  trackEvent({
+    type: 'session_start',
+    sessionId: sessionData.id,
+    referrer: sessionData.referrer,
+    device: sessionData.deviceInfo,
+    returning: existing !== null
+  });
+}
 
-  // Send initial session data to server (non-blocking)
-  try {
-    apiRequest('POST', '/api/analytics/session', sessionData)
-      .catch(err => console.error('Error sending session data:', err));
-  } catch (error) {
-    console.error('Error initializing session tracking:', error);
-  }
+// The analytics session to tie an order to
+export function getAnalyticsSessionId(): string | undefined {
+  return getSessionData()?.id;
 }
 
 // Track product view
@@ -77,19 +89,17 @@ export async function trackProductView(productId: number): Promise<void> {
     // Add to viewed products if not already viewed
     if (!sessionData.viewedProducts.includes(productId)) {
       sessionData.viewedProducts.push(productId);
-      window.localStorage.setItem('utv_session', JSON.stringify(sessionData));
     }
+    saveSessionData(sessionData);
 
-    // Send view data to server (non-blocking)
-    apiRequest('POST', '/api/analytics/product-view', { productId })
-      .catch(err => console.error('Error sending product view data:', err));
+    trackEvent({ type: 'product_view', sessionId: sessionData.id, productId });
   } catch (error) {
     console.error('Error tracking product view:', error);
   }
 }
 
 // Track adding items to cart
-export async function trackAddToCart(productId: number): Promise<void> {
+export async function trackAddToCart(productId: number, quantity: number = 1): Promise<void> {
   try {
     // Get current session data
     const sessionData = getSessionData();
@@ -98,23 +108,21 @@ export async function trackAddToCart(productId: number): Promise<void> {
     // Add to cart items if not already in cart
     if (!sessionData.cartItems.includes(productId)) {
       sessionData.cartItems.push(productId);
-      window.localStorage.setItem('utv_session', JSON.stringify(sessionData));
     }
+    saveSessionData(sessionData);
 
-    // Send cart data to server (non-blocking)
-    apiRequest('POST', '/api/analytics/add-to-cart', { productId })
-      .catch(err => console.error('Error sending add to cart data:', err));
+    trackEvent({ type: 'add_to_cart', sessionId: sessionData.id, productId, quantity });
   } catch (error) {
     console.error('Error tracking add to cart:', error);
   }
 }
 
-// Track cart abandonment
+// Track cart abandonment: the shopper left with these products still in the cart
 export async function trackCartAbandon(productIds: number[]): Promise<void> {
   try {
     // Get current session data
     const sessionData = getSessionData();
-    if (!sessionData) return;
+    if (!sessionData || productIds.length === 0) return;
 
     // Add to cart abandons
     productIds.forEach(id => {
@@ -122,16 +130,27 @@ export async function trackCartAbandon(productIds: number[]): Promise<void> {
         sessionData.cartAbandons.push(id);
       }
     });
-    window.localStorage.setItem('utv_session', JSON.stringify(sessionData));
+    saveSessionData(sessionData);
 
-    // Send abandon data to server (non-blocking)
-    apiRequest('POST', '/api/analytics/cart-abandon', { productIds })
-      .catch(err => console.error('Error sending cart abandon data:', err));
+    trackEvent({ type: 'cart_abandon', sessionId: sessionData.id, productIds });
   } catch (error) {
     console.error('Error tracking cart abandon:', error);
   }
 }
 
+// Track the shopper starting checkout
+export async function trackCheckoutStart(): Promise<void> {
+  try {
+    const sessionData = getSessionData();
+    if (!sessionData) return;
+    saveSessionData(sessionData);
+
+    trackEvent({ type: 'checkout_start', sessionId: sessionData.id });
+  } catch (error) {
+    console.error('Error tracking checkout start:', error);
+  }
+}
+
 // Get personalized product recommendations
 export async function getPersonalizedRecommendations(
   currentProductId?: number,
@@ -198,59 +217,52 @@ export async function getCheckoutOffers(
   }
 }
 
-// Get bundle offers for product detail page
-export async function getBundleOffers(
-  productId: number,
-  limit: number = 3
-): Promise<{
-  bundleProducts: number[],
-  bundleDiscount: number
-}> {
+// Get the bundles offered on a product's page. There's no local fallback: a bundle's
+// discount is only given for bundles the server knows about.
+export async function getBundleOffers(productId: number): Promise<BundleOffer[]> {
   try {
-    // First try to get bundle offers from server
-    try {
-      const response = await apiRequest('POST', '/api/recommendations/bundle-offers', {
-        productId,
-        limit
-      });
-      
-      return await response.json();
-    } catch (serverError) {
-      console.error('Error fetching bundle offers from server:', serverError);
-      
-      // Fall back to local bundle strategy
-      return {
-        bundleProducts: await getFallbackBundleProducts(productId, limit),
-        bundleDiscount: 0.15 // 15% discount as fallback
-      };
-    }
+    const response = await apiRequest('GET', `/api/products/${productId}/bundles`);
+    return await response.json();
   } catch (error) {
     console.error('Error getting bundle offers:', error);
-    
-    // Return empty bundle as last resort
-    return {
-      bundleProducts: [],
-      bundleDiscount: 0
-    };
+    return [];
   }
 }
 
-// Helper function to get session data
-function getSessionData(): SessionData | null {
+// Helper function to read the stored session, which may have gone idle
+// A session resumed from within the site isn't a referral
+function getExternalReferrer(): string | null {
+  try {
+    return document.referrer && new URL(document.referrer).origin !== window.location.origin
+      ? document.referrer
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function readSessionData(): SessionData | null {
   try {
     const sessionJson = window.localStorage.getItem('utv_session');
-    if (!sessionJson) {
-      initSessionTracking();
-      return getSessionData();
-    }
-    
-    return JSON.parse(sessionJson) as SessionData;
+    return sessionJson ? JSON.parse(sessionJson) as SessionData : null;
   } catch (error) {
     console.error('Error getting session data:', error);
     return null;
   }
 }
 
+// Helper function to get the current session, starting one if needed
+function getSessionData(): SessionData | null {
+  initSessionTracking();
+  return readSessionData();
+}
+
+// Helper function to store the session, marking it active
+function saveSessionData(sessionData: SessionData): void {
+  sessionData.lastActivityTime = Date.now();
+  window.localStorage.setItem('utv_session', JSON.stringify(sessionData));
+}
+
 // Helper function to detect browser
 function getBrowserInfo(): string {
   const userAgent = navigator.userAgent;
@@ -365,53 +377,4 @@ async function getFallbackCheckoutOffers(
     console.error('Error in fallback checkout offers:', error);
     return [];
   }
-}
-
-// Fallback bundle products when server is unavailable
-async function getFallbackBundleProducts(
-  productId: number,
-  limit: number = 3
-): Promise<number[]> {
-  try {
-    // Use cached bundles if available
-    const cachedBundleKey = `utv_bundle_${productId}`;
-    const cachedBundle = window.localStorage.getItem(cachedBundleKey);
-    
-    if (cachedBundle) {
-      return JSON.parse(cachedBundle) as number[];
-    }
-    
-    // Try to fetch related products from API
-    try {
-      // Get the product details to know its category
-      const productResponse = await apiRequest('GET', `/api/products/${productId}`);
-      const productData = await productResponse.json();
-      
-      // Get other products from same category
-      const categoryId = productData.categoryId;
-      const response = await apiRequest('GET', `/api/products?categoryId=${categoryId}&limit=${limit + 1}`);
-      const data = await response.json();
-      
-      // Extract product IDs and filter out the current product
-      const productIds = data.products
-        .map((p: any) => p.id)
-        .filter((id: number) => id !== productId)
-        .slice(0, limit);
-      
-      // Cache for future use
-      window.localStorage.setItem(cachedBundleKey, JSON.stringify(productIds));
-      
-      return productIds;
-    } catch (apiError) {
-      console.error('Error fetching bundle products:', apiError);
-      
-      // Last resort: return hardcoded bundle product IDs
-      return [11, 12, 13]
-        .filter(id => id !== productId)
-        .slice(0, limit);
-    }
-  } catch (error) {
-    console.error('Error in fallback bundle products:', error);
-    return [];
-  }
 }
\ No newline at end of file
@@ -3,14 +3,17 @@ import App from "./App";
 import "./index.css";
 import { CartProvider } from "@/context/cart-context";
 import { AuthProvider } from "@/context/auth-context";
+import { GarageProvider } from "@/context/garage-context";
 import { ThemeProvider } from "next-themes";
 
 createRoot(document.getElementById("root")!).render(
   <ThemeProvider attribute="class">
     <AuthProvider>
-      <CartProvider>
-        <App />
-      </CartProvider>
+      <GarageProvider>
+        <CartProvider>
+          <App />
+        </CartProvider>
+      </GarageProvider>
     </AuthProvider>
   </ThemeProvider>
 );
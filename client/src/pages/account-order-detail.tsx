@@ -0,0 +1,200 @@
+import { Link, Redirect, useParams } from 'wouter';
+import { Helmet } from 'react-helmet';
+import { useQuery } from '@tanstack/react-query';
+import { RotateCcw } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { formatDate, formatPrice } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/context/auth-context';
+import { useCart } from '@/hooks/use-cart';
+import OrderStatusBadge from '@/components/order/order-status-badge';
+import OrderTimeline from '@/components/order/order-timeline';
+import AddressBlock from '@/components/order/address-block';
+import OrderReturns from '@/components/order/order-returns';
+import type { Address, Order, OrderEvent, OrderItem, Product } from '@shared/schema';
+
+interface CustomerOrderDetail {
+  order: Order;
+  items: (OrderItem & { product?: Product })[];
+  events: Pick<OrderEvent, 'id' | 'fromStatus' | 'toStatus' | 'createdAt'>[];
+}
+
+const AccountOrderDetail = () => {
+  const { orderNumber } = useParams();
+  const { toast } = useToast();
+  const { user, isLoading: isLoadingUser } = useAuth();
+  const { addItem, openCart } = useCart();
+
+  const { data, isLoading } = useQuery<CustomerOrderDetail>({
+    queryKey: ['/api/users/me/orders', orderNumber],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/users/me/orders/${orderNumber}`);
+      return response.json();
+    },
+    enabled: !!user && !!orderNumber,
+    retry: false,
+  });
+
+  // Products since removed from sale are skipped; prices come from the current catalog
+  const handleReorder = () => {
+    if (!data) return;
+    const available = data.items.filter(item => item.product?.isActive);
+    available.forEach(item => addItem(item.product!, item.quantity));
+
+    if (available.length === 0) {
+      toast({ title: 'Nothing to reorder', description: 'These products are no longer available.', variant: 'destructive' });
+      return;
+    }
+    if (available.length < data.items.length) {
+      toast({ title: 'Some items were skipped', description: 'Products that are no longer available were not added.' });
+    }
+    openCart();
+  };
+
+  if (!isLoadingUser && !user) {
+    return <Redirect to="/login" />;
+  }
+
+  if (isLoading || isLoadingUser) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <Skeleton className="h-96 w-full" />
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="container mx-auto px-4 py-8 text-center space-y-4">
+        <p className="text-gray-500">We couldn't find order {orderNumber} on your account.</p>
+        <Button asChild variant="outline">
+          <Link href="/account/orders">Back to My Orders</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const { order, items, events } = data;
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Helmet>
+        <title>Order {order.orderNumber} | TaylorMade Performance</title>
+      </Helmet>
+
+      <div className="text-sm text-gray-500 mb-2">
+        <Link href="/account" className="hover:text-primary">My Account</Link> /{' '}
+        <Link href="/account/orders" className="hover:text-primary">Orders</Link> / {order.orderNumber}
+      </div>
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        <h1 className="text-3xl font-bold font-heading text-secondary">Order {order.orderNumber}</h1>
+        <OrderStatusBadge status={order.status} />
+        <div className="flex-1" />
+        <Button onClick={handleReorder}>
+          <RotateCcw className="h-4 w-4 mr-2" /> Buy Again
+        </Button>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="lg:col-span-2 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Items</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="divide-y">
+                {items.map(item => (
+                  <div key={item.id} className="flex items-center gap-4 py-3">
+                    <img
+                      src={(item.product?.images as string[] | undefined)?.[0] || `https://placehold.co/200x200?text=${encodeURIComponent(item.product?.name || 'Product')}`}
+                      alt={item.product?.name || ''}
+                      className="h-16 w-16 object-cover rounded bg-gray-100"
+                    />
+                    <div className="flex-1">
+                      {item.product?.isActive ? (
+                        <Link href={`/product/${item.product.slug}`} className="font-medium hover:text-primary">
+                          {item.product.name}
+                        </Link>
+                      ) : (
+                        <div className="font-medium">{item.product?.name || `Product #${item.productId}`}</div>
+                      )}
+                      <div className="text-sm text-gray-500">Qty {item.quantity} × {formatPrice(item.price)}</div>
+                    </div>
+                    <div className="font-medium">{formatPrice(item.subtotal)}</div>
+                  </div>
+                ))}
+              </div>
+              <div className="mt-4 ml-auto max-w-xs space-y-1 text-sm">
+                <div className="flex justify-between"><span>Subtotal</span><span>{formatPrice(order.subtotal)}</span></div>
+                {parseFloat(order.discount) > 0 && (
+                  <div className="flex justify-between text-green-600">
+                    <span>Discount{order.promotionCodes.length > 0 && ` (${order.promotionCodes.join(', ')})`}</span>
+                    <span>-{formatPrice(order.discount)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between"><span>Shipping</span><span>{formatPrice(order.shippingCost || 0)}</span></div>
+                <div className="flex justify-between"><span>Tax</span><span>{formatPrice(order.tax || 0)}</span></div>
+                <div className="flex justify-between font-semibold border-t pt-1"><span>Total</span><span>{formatPrice(order.total)}</span></div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Status</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <OrderTimeline events={events} />
+            </CardContent>
+          </Card>
+
+          <OrderReturns orderNumber={order.orderNumber} />
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Details</CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm space-y-1">
+              <div className="flex justify-between"><span>Placed</span><span>{order.createdAt ? formatDate(order.createdAt) : '-'}</span></div>
+              <div className="flex justify-between"><span>Payment</span><span className="capitalize">{order.paymentStatus.replace('_', ' ')}</span></div>
+              {order.shippingMethod && (
+                <div className="flex justify-between"><span>Shipping</span><span>{order.shippingMethod}</span></div>
+              )}
+              {order.trackingNumber && (
+                <div className="flex justify-between gap-2">
+                  <span>Tracking</span>
+                  <span className="text-right break-all">{order.carrier && `${order.carrier} `}{order.trackingNumber}</span>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Shipping Address</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <AddressBlock address={order.shippingAddress as Address | null} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Billing Address</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <AddressBlock address={order.billingAddress as Address | null} />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AccountOrderDetail;
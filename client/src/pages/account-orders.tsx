@@ -0,0 +1,71 @@
+import { Link, Redirect } from 'wouter';
+import { Helmet } from 'react-helmet';
+import { useQuery } from '@tanstack/react-query';
+import { ChevronRight } from 'lucide-react';
+import { formatDate, formatPrice } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useAuth } from '@/context/auth-context';
+import OrderStatusBadge from '@/components/order/order-status-badge';
+import type { Order } from '@shared/schema';
+
+const AccountOrders = () => {
+  const { user, isLoading: isLoadingUser } = useAuth();
+
+  const { data: orders = [], isLoading } = useQuery<Order[]>({
+    queryKey: ['/api/users/me/orders'],
+    enabled: !!user,
+  });
+
+  if (!isLoadingUser && !user) {
+    return <Redirect to="/login" />;
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Helmet>
+        <title>My Orders | TaylorMade Performance</title>
+      </Helmet>
+
+      <div className="text-sm text-gray-500 mb-2">
+        <Link href="/account" className="hover:text-primary">My Account</Link> / Orders
+      </div>
+      <h1 className="text-3xl font-bold font-heading text-secondary mb-6">My Orders</h1>
+
+      {isLoading || isLoadingUser ? (
+        <div className="space-y-3">
+          <Skeleton className="h-20 w-full" />
+          <Skeleton className="h-20 w-full" />
+        </div>
+      ) : orders.length === 0 ? (
+        <Card className="p-8 text-center space-y-4">
+          <p className="text-gray-500">You haven't placed any orders yet.</p>
+          <Button asChild>
+            <Link href="/products">Start Shopping</Link>
+          </Button>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {orders.map(order => (
+            <Link key={order.id} href={`/account/orders/${order.orderNumber}`}>
+              <Card className="p-4 flex items-center gap-4 hover:border-primary transition cursor-pointer">
+                <div className="flex-1">
+                  <div className="font-semibold">{order.orderNumber}</div>
+                  <div className="text-sm text-gray-500">
+                    {order.createdAt ? formatDate(order.createdAt) : '-'}
+                  </div>
+                </div>
+                <OrderStatusBadge status={order.status} />
+                <div className="w-24 text-right font-medium">{formatPrice(order.total)}</div>
+                <ChevronRight className="h-5 w-5 text-gray-400" />
+              </Card>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AccountOrders;
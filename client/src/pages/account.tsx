@@ -0,0 +1,255 @@
+import { useEffect, useState } from 'react';
+import { Link, Redirect } from 'wouter';
+import { Helmet } from 'react-helmet';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useForm, type UseFormReturn } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Car, Package } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/context/auth-context';
+import type { Address } from '@shared/schema';
+
+export interface SavedAddresses {
+  shippingAddress: Address | null;
+  billingAddress: Address | null;
+}
+
+const addressFields = z.object({
+  name: z.string().min(2, 'Name is required'),
+  line1: z.string().min(5, 'Address must be at least 5 characters'),
+  line2: z.string().optional(),
+  city: z.string().min(2, 'City is required'),
+  state: z.string().min(2, 'State is required'),
+  postalCode: z.string().min(5, 'Postal code is required'),
+  country: z.string().min(2, 'Country is required'),
+});
+
+const addressesSchema = z.object({
+  shippingAddress: addressFields,
+  billingAddress: addressFields,
+});
+
+type AddressesValues = z.infer<typeof addressesSchema>;
+
+const emptyAddress: Address = { name: '', line1: '', line2: '', city: '', state: '', postalCode: '', country: 'US' };
+
+const AddressFields = ({ form, prefix }: { form: UseFormReturn<AddressesValues>; prefix: 'shippingAddress' | 'billingAddress' }) => (
+  <div className="grid md:grid-cols-2 gap-4">
+    <FormField
+      control={form.control}
+      name={`${prefix}.name`}
+      render={({ field }) => (
+        <FormItem className="md:col-span-2">
+          <FormLabel>Full Name</FormLabel>
+          <FormControl><Input autoComplete="name" {...field} /></FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+    <FormField
+      control={form.control}
+      name={`${prefix}.line1`}
+      render={({ field }) => (
+        <FormItem className="md:col-span-2">
+          <FormLabel>Address</FormLabel>
+          <FormControl><Input autoComplete="address-line1" {...field} /></FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+    <FormField
+      control={form.control}
+      name={`${prefix}.line2`}
+      render={({ field }) => (
+        <FormItem className="md:col-span-2">
+          <FormLabel>Apartment, suite, etc. (Optional)</FormLabel>
+          <FormControl><Input autoComplete="address-line2" {...field} /></FormControl>
+        </FormItem>
+      )}
+    />
+    <FormField
+      control={form.control}
+      name={`${prefix}.city`}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>City</FormLabel>
+          <FormControl><Input autoComplete="address-level2" {...field} /></FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+    <FormField
+      control={form.control}
+      name={`${prefix}.state`}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>State</FormLabel>
+          <FormControl><Input autoComplete="address-level1" {...field} /></FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+    <FormField
+      control={form.control}
+      name={`${prefix}.postalCode`}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>Postal Code</FormLabel>
+          <FormControl><Input autoComplete="postal-code" {...field} /></FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+    <FormField
+      control={form.control}
+      name={`${prefix}.country`}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>Country</FormLabel>
+          <FormControl><Input autoComplete="country" {...field} /></FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  </div>
+);
+
+const AccountPage = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user, isLoading: isLoadingUser } = useAuth();
+  const [billingSameAsShipping, setBillingSameAsShipping] = useState(true);
+
+  const { data: addresses, isLoading } = useQuery<SavedAddresses>({
+    queryKey: ['/api/users/me/addresses'],
+    enabled: !!user,
+  });
+
+  const form = useForm<AddressesValues>({
+    resolver: zodResolver(addressesSchema),
+    defaultValues: { shippingAddress: emptyAddress, billingAddress: emptyAddress },
+  });
+
+  useEffect(() => {
+    if (!addresses) return;
+    form.reset({
+      shippingAddress: addresses.shippingAddress || emptyAddress,
+      billingAddress: addresses.billingAddress || addresses.shippingAddress || emptyAddress,
+    });
+    setBillingSameAsShipping(
+      !addresses.billingAddress || JSON.stringify(addresses.billingAddress) === JSON.stringify(addresses.shippingAddress)
+    );
+  }, [addresses]);
+
+  // Billing fields are hidden (and copied from shipping) while the box is ticked
+  useEffect(() => {
+    if (billingSameAsShipping) {
+      form.setValue('billingAddress', form.getValues('shippingAddress'));
+    }
+  }, [billingSameAsShipping]);
+
+  const onSubmit = async (values: AddressesValues) => {
+    try {
+      const response = await apiRequest('PUT', '/api/users/me/addresses', {
+        shippingAddress: values.shippingAddress,
+        billingAddress: billingSameAsShipping ? values.shippingAddress : values.billingAddress,
+      });
+      queryClient.setQueryData(['/api/users/me/addresses'], await response.json());
+      toast({ title: 'Addresses saved', description: "We'll fill them in for you at checkout." });
+    } catch (error) {
+      toast({ title: 'Could not save addresses', description: 'Please try again.', variant: 'destructive' });
+    }
+  };
+
+  if (!isLoadingUser && !user) {
+    return <Redirect to="/login" />;
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Helmet>
+        <title>My Account | TaylorMade Performance</title>
+      </Helmet>
+
+      <h1 className="text-3xl font-bold font-heading text-secondary mb-2">My Account</h1>
+      {user && (
+        <p className="text-gray-500 mb-6">
+          Signed in as {user.fullName || user.username} ({user.email})
+        </p>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-4 mb-8">
+        <Link href="/account/orders">
+          <Card className="p-6 flex items-center gap-4 hover:border-primary transition cursor-pointer">
+            <Package className="h-8 w-8 text-primary" />
+            <div>
+              <div className="font-semibold">My Orders</div>
+              <div className="text-sm text-gray-500">Track orders and buy again</div>
+            </div>
+          </Card>
+        </Link>
+        <Link href="/garage">
+          <Card className="p-6 flex items-center gap-4 hover:border-primary transition cursor-pointer">
+            <Car className="h-8 w-8 text-primary" />
+            <div>
+              <div className="font-semibold">My Garage</div>
+              <div className="text-sm text-gray-500">Your saved vehicles</div>
+            </div>
+          </Card>
+        </Link>
+      </div>
+
+      <Card className="max-w-3xl">
+        <CardHeader>
+          <CardTitle>Saved Addresses</CardTitle>
+          <CardDescription>Used to fill in checkout.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-64 w-full" />
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                <div>
+                  <h3 className="font-semibold mb-3">Shipping Address</h3>
+                  <AddressFields form={form} prefix="shippingAddress" />
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="billing-same"
+                    checked={billingSameAsShipping}
+                    onCheckedChange={(checked) => setBillingSameAsShipping(checked === true)}
+                  />
+                  <Label htmlFor="billing-same">Billing address is the same as shipping</Label>
+                </div>
+
+                {!billingSameAsShipping && (
+                  <div>
+                    <h3 className="font-semibold mb-3">Billing Address</h3>
+                    <AddressFields form={form} prefix="billingAddress" />
+                  </div>
+                )}
+
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting ? 'Saving...' : 'Save Addresses'}
+                </Button>
+              </form>
+            </Form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AccountPage;
@@ -0,0 +1,170 @@
+import React from 'react';
+import { Link, useLocation } from 'wouter';
+import { Helmet } from 'react-helmet';
+import { Package, FolderTree, Tag, Store, ShoppingBag, Undo2, Percent, Boxes, BarChart3, Filter, Truck, TrendingUp, ClipboardList, FileSpreadsheet, Warehouse } from 'lucide-react';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInset,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarProvider,
+  SidebarTrigger,
+} from '@/components/ui/sidebar';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useAuth } from '@/context/auth-context';
+import type { UserRole } from '@shared/schema';
+
+// Mirrors the server's role permissions so staff only see sections they can use
+const navGroups: { label: string; roles: UserRole[]; links: { href: string; label: string; icon: typeof Package }[] }[] = [
+  {
+    label: 'Sales',
+    roles: ['admin', 'fulfillment', 'support'],
+    links: [
+      { href: '/admin/orders', label: 'Orders', icon: ShoppingBag },
+      { href: '/admin/returns', label: 'Returns', icon: Undo2 },
+      { href: '/admin/purchase-orders', label: 'Purchase Orders', icon: ClipboardList },
+    ],
+  },
+  {
+    label: 'Catalog',
+    roles: ['admin'],
+    links: [
+      { href: '/admin/products', label: 'Products', icon: Package },
+      { href: '/admin/categories', label: 'Categories', icon: FolderTree },
+      { href: '/admin/brands', label: 'Brands', icon: Tag },
+      { href: '/admin/stock-locations', label: 'Stock Locations', icon: Warehouse },
+    ],
+  },
+  {
+    label: 'Marketing',
+    roles: ['admin'],
+    links: [
+      { href: '/admin/promotions', label: 'Promotions', icon: Percent },
+      { href: '/admin/bundles', label: 'Bundles', icon: Boxes },
+    ],
+  },
+  {
+    label: 'Purchasing',
+    roles: ['admin'],
+    links: [
+      { href: '/admin/suppliers', label: 'Suppliers', icon: Truck },
+      { href: '/admin/margins', label: 'Margins', icon: TrendingUp },
+      { href: '/admin/supplier-feeds', label: 'Supplier Feeds', icon: FileSpreadsheet },
+    ],
+  },
+  {
+    label: 'Reports',
+    roles: ['admin'],
+    links: [
+      { href: '/admin/analytics/funnel', label: 'Sales Funnel', icon: Filter },
+      { href: '/admin/analytics/products', label: 'Product Analytics', icon: BarChart3 },
+    ],
+  },
+];
+
+interface AdminLayoutProps {
+  title: string;
+  actions?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+// Shell for every /admin page; staff only, the API enforces the individual permissions
+const AdminLayout = ({ title, actions, children }: AdminLayoutProps) => {
+  const [location] = useLocation();
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="p-8 space-y-4">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (!user || user.role === 'customer') {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="p-8 max-w-md text-center space-y-4">
+          <h1 className="text-2xl font-bold">Staff only</h1>
+          <p className="text-gray-500">
+            {user ? 'Your account does not have access to the admin area.' : 'Sign in with a staff account to continue.'}
+          </p>
+          <Button asChild>
+            <Link href={user ? '/' : '/login'}>{user ? 'Back to the store' : 'Sign In'}</Link>
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <SidebarProvider>
+      <Helmet>
+        <title>{title} | Admin | TaylorMade Performance</title>
+      </Helmet>
+
+      <Sidebar>
+        <SidebarHeader className="px-4 py-3 font-bold text-lg">
+          TaylorMade Admin
+        </SidebarHeader>
+        <SidebarContent>
+          {navGroups.filter(group => group.roles.includes(user.role)).map(group => (
+            <SidebarGroup key={group.label}>
+              <SidebarGroupLabel>{group.label}</SidebarGroupLabel>
+              <SidebarGroupContent>
+                <SidebarMenu>
+                  {group.links.map(({ href, label, icon: Icon }) => (
+                    <SidebarMenuItem key={href}>
+                      <SidebarMenuButton asChild isActive={location.startsWith(href)}>
+                        <Link href={href}>
+                          <Icon />
+                          <span>{label}</span>
+                        </Link>
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                  ))}
+                </SidebarMenu>
+              </SidebarGroupContent>
+            </SidebarGroup>
+          ))}
+          <SidebarGroup>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                <SidebarMenuItem>
+                  <SidebarMenuButton asChild>
+                    <Link href="/">
+                      <Store />
+                      <span>View store</span>
+                    </Link>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        </SidebarContent>
+      </Sidebar>
+
+      <SidebarInset>
+        <header className="flex items-center gap-3 border-b px-4 h-14">
+          <SidebarTrigger />
+          <h1 className="text-xl font-semibold flex-1">{title}</h1>
+          {actions}
+        </header>
+        <div className="p-4 md:p-6">
+          {children}
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  );
+};
+
+export default AdminLayout;
@@ -0,0 +1,267 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
+import { generateSlug } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import type { Brand } from '@shared/schema';
+import AdminLayout from './admin-layout';
+
+const brandFormSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  slug: z.string().min(1, 'Slug is required'),
+  logoUrl: z.string().url('Enter a full image URL').or(z.literal('')),
+  description: z.string(),
+});
+
+type BrandFormValues = z.infer<typeof brandFormSchema>;
+
+const emptyBrand: BrandFormValues = { name: '', slug: '', logoUrl: '', description: '' };
+
+const AdminBrands = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // null while closed, 'new' when creating, otherwise the brand being edited
+  const [editing, setEditing] = useState<Brand | 'new' | null>(null);
+  const [brandToDelete, setBrandToDelete] = useState<Brand | null>(null);
+
+  const { data: brands = [], isLoading } = useQuery<Brand[]>({ queryKey: ['/api/brands'] });
+
+  const form = useForm<BrandFormValues>({
+    resolver: zodResolver(brandFormSchema),
+    defaultValues: emptyBrand,
+  });
+
+  const openForm = (brand: Brand | 'new') => {
+    form.reset(brand === 'new' ? emptyBrand : {
+      name: brand.name,
+      slug: brand.slug,
+      logoUrl: brand.logoUrl || '',
+      description: brand.description || '',
+    });
+    setEditing(brand);
+  };
+
+  const onSubmit = async (values: BrandFormValues) => {
+    const payload = {
+      name: values.name,
+      slug: values.slug,
+      logoUrl: values.logoUrl || null,
+      description: values.description || null,
+    };
+
+    try {
+      if (editing === 'new') {
+        await apiRequest('POST', '/api/brands', payload);
+      } else if (editing) {
+        await apiRequest('PUT', `/api/brands/${editing.id}`, payload);
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/brands'] });
+      toast({ title: editing === 'new' ? 'Brand created' : 'Brand saved' });
+      setEditing(null);
+    } catch (error) {
+      const { status } = parseApiError(error);
+      toast({
+        title: 'Could not save brand',
+        description: status === 409
+          ? 'Another brand already uses this slug.'
+          : 'Please check the form and try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!brandToDelete) return;
+
+    try {
+      await apiRequest('DELETE', `/api/brands/${brandToDelete.id}`);
+      queryClient.invalidateQueries({ queryKey: ['/api/brands'] });
+      toast({ title: 'Brand deleted' });
+    } catch (error) {
+      const { status } = parseApiError(error);
+      toast({
+        title: 'Could not delete brand',
+        description: status === 409
+          ? 'Move its products to another brand first.'
+          : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBrandToDelete(null);
+    }
+  };
+
+  return (
+    <AdminLayout
+      title="Brands"
+      actions={
+        <Button size="sm" onClick={() => openForm('new')}>
+          <Plus className="h-4 w-4 mr-1" /> New Brand
+        </Button>
+      }
+    >
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-16">Logo</TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead>Slug</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {brands.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-gray-500">No brands yet.</TableCell>
+              </TableRow>
+            ) : brands.map(brand => (
+              <TableRow key={brand.id}>
+                <TableCell>
+                  {brand.logoUrl && <img src={brand.logoUrl} alt="" className="h-8 w-8 object-contain" />}
+                </TableCell>
+                <TableCell className="font-medium">{brand.name}</TableCell>
+                <TableCell>{brand.slug}</TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="icon" onClick={() => openForm(brand)} aria-label="Edit">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => setBrandToDelete(brand)} aria-label="Delete">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'New Brand' : 'Edit Brand'}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        onChange={(e) => {
+                          field.onChange(e);
+                          if (editing === 'new' && !form.formState.dirtyFields.slug) {
+                            form.setValue('slug', generateSlug(e.target.value));
+                          }
+                        }}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="slug"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Slug</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="logoUrl"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Logo URL (Optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="https://..." {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description (Optional)</FormLabel>
+                    <FormControl>
+                      <Textarea rows={3} {...field} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting ? 'Saving...' : 'Save'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!brandToDelete} onOpenChange={(open) => !open && setBrandToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {brandToDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Only brands without products can be deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AdminLayout>
+  );
+};
+
+export default AdminBrands;
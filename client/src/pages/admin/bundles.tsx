@@ -0,0 +1,279 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Pencil, Plus, RefreshCw } from 'lucide-react';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
+import { formatPrice } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import type { Bundle } from '@shared/schema';
+import AdminLayout from './admin-layout';
+
+type AdminBundle = Bundle & {
+  products: { id: number; name: string; sku: string; price: string; isActive: boolean }[];
+};
+
+const bundleFormSchema = z.object({
+  name: z.string().min(1, 'Customers see this on the product page'),
+  productId: z.string().regex(/^\d+$/, 'The product whose page offers the bundle'),
+  otherProductIds: z.string().regex(/^\s*\d+(\s*,\s*\d+)*\s*$/, 'Product IDs separated by commas'),
+  discountPercent: z.coerce.number().int('Whole number').min(1, 'At least 1%').max(50, 'At most 50%'),
+  isActive: z.boolean(),
+});
+
+type BundleFormValues = z.infer<typeof bundleFormSchema>;
+
+const emptyBundle: BundleFormValues = {
+  name: '',
+  productId: '',
+  otherProductIds: '',
+  discountPercent: 10,
+  isActive: true,
+};
+
+const AdminBundles = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // null while closed, 'new' when creating, otherwise the bundle being edited
+  const [editing, setEditing] = useState<Bundle | 'new' | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const { data: bundles = [], isLoading } = useQuery<AdminBundle[]>({ queryKey: ['/api/admin/bundles'] });
+
+  const form = useForm<BundleFormValues>({
+    resolver: zodResolver(bundleFormSchema),
+    defaultValues: emptyBundle,
+  });
+
+  const openForm = (bundle: Bundle | 'new') => {
+    form.reset(bundle === 'new' ? emptyBundle : {
+      name: bundle.name,
+      productId: bundle.productId.toString(),
+      otherProductIds: bundle.productIds.filter(id => id !== bundle.productId).join(', '),
+      discountPercent: bundle.discountPercent,
+      isActive: bundle.isActive,
+    });
+    setEditing(bundle);
+  };
+
+  const onSubmit = async (values: BundleFormValues) => {
+    const productId = parseInt(values.productId);
+    const otherProductIds = values.otherProductIds.split(',').map(id => parseInt(id)).filter(id => !isNaN(id));
+    const payload = {
+      name: values.name,
+      productId,
+      productIds: Array.from(new Set([productId, ...otherProductIds])),
+      discountPercent: values.discountPercent,
+      isActive: values.isActive,
+    };
+
+    try {
+      if (editing === 'new') {
+        await apiRequest('POST', '/api/admin/bundles', payload);
+      } else if (editing) {
+        await apiRequest('PUT', `/api/admin/bundles/${editing.id}`, payload);
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/bundles'] });
+      toast({ title: editing === 'new' ? 'Bundle created' : 'Bundle saved' });
+      setEditing(null);
+    } catch (error) {
+      const { status } = parseApiError(error);
+      toast({
+        title: 'Could not save bundle',
+        description: status === 400
+          ? 'Check the product IDs: a bundle needs at least 2 different existing products.'
+          : 'Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const refreshAutoBundles = async () => {
+    setIsRefreshing(true);
+    try {
+      const response = await apiRequest('POST', '/api/admin/bundles/refresh');
+      const { refreshed }: { refreshed: number } = await response.json();
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/bundles'] });
+      toast({ title: `${refreshed} auto bundle${refreshed === 1 ? '' : 's'} refreshed` });
+    } catch (error) {
+      toast({ title: 'Could not refresh auto bundles', description: 'Please try again.', variant: 'destructive' });
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  return (
+    <AdminLayout
+      title="Bundles"
+      actions={
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" disabled={isRefreshing} onClick={refreshAutoBundles}>
+            <RefreshCw className="h-4 w-4 mr-1" /> {isRefreshing ? 'Refreshing...' : 'Refresh Auto Bundles'}
+          </Button>
+          <Button size="sm" onClick={() => openForm('new')}>
+            <Plus className="h-4 w-4 mr-1" /> New Bundle
+          </Button>
+        </div>
+      }
+    >
+      <p className="text-sm text-gray-500 mb-4">
+        Auto bundles are built from sales recommendations in the background and refreshed weekly, or straight away
+        with Refresh Auto Bundles. Editing one makes it curated, so it stays as you set it.
+      </p>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Bundle</TableHead>
+              <TableHead>Items</TableHead>
+              <TableHead className="text-right">Discount</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-16" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {bundles.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-gray-500">No bundles yet.</TableCell>
+              </TableRow>
+            ) : bundles.map(bundle => (
+              <TableRow key={bundle.id}>
+                <TableCell className="font-medium">{bundle.name}</TableCell>
+                <TableCell className="text-sm">
+                  {bundle.products.map(product => (
+                    <div key={product.id} className={product.isActive ? '' : 'text-gray-400 line-through'}>
+                      <Link href={`/admin/products/${product.id}`} className="hover:underline">
+                        {product.name}
+                      </Link>
+                      <span className="text-gray-500"> · {formatPrice(product.price)}</span>
+                      {product.id === bundle.productId && <Badge variant="outline" className="ml-2">Shown on</Badge>}
+                    </div>
+                  ))}
+                </TableCell>
+                <TableCell className="text-right">{bundle.discountPercent}%</TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    <Badge variant={bundle.isActive ? 'default' : 'secondary'}>{bundle.isActive ? 'Active' : 'Inactive'}</Badge>
+                    <Badge variant="outline">{bundle.source === 'auto' ? 'Auto' : 'Curated'}</Badge>
+                  </div>
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="icon" onClick={() => openForm(bundle)} aria-label="Edit">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'New Bundle' : 'Edit Bundle'}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Winch install kit" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="productId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Product ID (offered on its page)</FormLabel>
+                    <FormControl>
+                      <Input inputMode="numeric" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="otherProductIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Bundled with product IDs (comma separated)</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="discountPercent"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Percent off the bundled items</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="1" max="50" step="1" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="isActive"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-3 space-y-0">
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                    <FormLabel>Active</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting ? 'Saving...' : 'Save'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </AdminLayout>
+  );
+};
+
+export default AdminBundles;
@@ -0,0 +1,298 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
+import { generateSlug } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import type { Category } from '@shared/schema';
+import AdminLayout from './admin-layout';
+
+const NONE = 'none';
+
+const categoryFormSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  slug: z.string().min(1, 'Slug is required'),
+  description: z.string(),
+  imageUrl: z.string().url('Enter a full image URL').or(z.literal('')),
+  parentId: z.string(),
+});
+
+type CategoryFormValues = z.infer<typeof categoryFormSchema>;
+
+const emptyCategory: CategoryFormValues = { name: '', slug: '', description: '', imageUrl: '', parentId: NONE };
+
+const AdminCategories = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // null while closed, 'new' when creating, otherwise the category being edited
+  const [editing, setEditing] = useState<Category | 'new' | null>(null);
+  const [categoryToDelete, setCategoryToDelete] = useState<Category | null>(null);
+
+  const { data: categories = [], isLoading } = useQuery<Category[]>({ queryKey: ['/api/categories'] });
+
+  const form = useForm<CategoryFormValues>({
+    resolver: zodResolver(categoryFormSchema),
+    defaultValues: emptyCategory,
+  });
+
+  const openForm = (category: Category | 'new') => {
+    form.reset(category === 'new' ? emptyCategory : {
+      name: category.name,
+      slug: category.slug,
+      description: category.description || '',
+      imageUrl: category.imageUrl || '',
+      parentId: category.parentId ? category.parentId.toString() : NONE,
+    });
+    setEditing(category);
+  };
+
+  const onSubmit = async (values: CategoryFormValues) => {
+    const payload = {
+      name: values.name,
+      slug: values.slug,
+      description: values.description || null,
+      imageUrl: values.imageUrl || null,
+      parentId: values.parentId === NONE ? null : parseInt(values.parentId),
+    };
+
+    try {
+      if (editing === 'new') {
+        await apiRequest('POST', '/api/categories', payload);
+      } else if (editing) {
+        await apiRequest('PUT', `/api/categories/${editing.id}`, payload);
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/categories'] });
+      toast({ title: editing === 'new' ? 'Category created' : 'Category saved' });
+      setEditing(null);
+    } catch (error) {
+      const { status } = parseApiError(error);
+      toast({
+        title: 'Could not save category',
+        description: status === 409
+          ? 'Another category already uses this slug.'
+          : 'Please check the form and try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!categoryToDelete) return;
+
+    try {
+      await apiRequest('DELETE', `/api/categories/${categoryToDelete.id}`);
+      queryClient.invalidateQueries({ queryKey: ['/api/categories'] });
+      toast({ title: 'Category deleted' });
+    } catch (error) {
+      const { status } = parseApiError(error);
+      toast({
+        title: 'Could not delete category',
+        description: status === 409
+          ? 'Move its products and subcategories to another category first.'
+          : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setCategoryToDelete(null);
+    }
+  };
+
+  const parentName = (parentId: number | null) =>
+    categories.find(category => category.id === parentId)?.name || '-';
+
+  return (
+    <AdminLayout
+      title="Categories"
+      actions={
+        <Button size="sm" onClick={() => openForm('new')}>
+          <Plus className="h-4 w-4 mr-1" /> New Category
+        </Button>
+      }
+    >
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Slug</TableHead>
+              <TableHead>Parent</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {categories.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-gray-500">No categories yet.</TableCell>
+              </TableRow>
+            ) : categories.map(category => (
+              <TableRow key={category.id}>
+                <TableCell className="font-medium">{category.name}</TableCell>
+                <TableCell>{category.slug}</TableCell>
+                <TableCell>{parentName(category.parentId)}</TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="icon" onClick={() => openForm(category)} aria-label="Edit">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => setCategoryToDelete(category)} aria-label="Delete">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'New Category' : 'Edit Category'}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        onChange={(e) => {
+                          field.onChange(e);
+                          if (editing === 'new' && !form.formState.dirtyFields.slug) {
+                            form.setValue('slug', generateSlug(e.target.value));
+                          }
+                        }}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="slug"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Slug</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="parentId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Parent Category</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NONE}>None (top level)</SelectItem>
+                        {categories
+                          .filter(category => editing === 'new' || category.id !== editing?.id)
+                          .map(category => (
+                            <SelectItem key={category.id} value={category.id.toString()}>{category.name}</SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="imageUrl"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Image URL (Optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="https://..." {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description (Optional)</FormLabel>
+                    <FormControl>
+                      <Textarea rows={3} {...field} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting ? 'Saving...' : 'Save'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!categoryToDelete} onOpenChange={(open) => !open && setCategoryToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {categoryToDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Only empty categories can be deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AdminLayout>
+  );
+};
+
+export default AdminCategories;
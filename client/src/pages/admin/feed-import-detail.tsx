@@ -0,0 +1,339 @@
+import { useState } from 'react';
+import { Link, useRoute } from 'wouter';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeft } from 'lucide-react';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
+import { formatDate, formatPrice } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import FeedImportStatusBadge, { feedChangeKindLabel, feedChangeStatusLabel } from '@/components/feeds/feed-import-status-badge';
+import { feedChangeKinds, type FeedImport, type FeedImportChange } from '@shared/schema';
+import AdminLayout from './admin-layout';
+
+type FeedImportDetail = FeedImport & {
+  supplierName: string | null;
+  profileName: string | null;
+  changes: FeedImportChange[];
+};
+
+const ALL = 'all';
+
+// The fields a change touches, as "before → after"
+const describeChange = (change: FeedImportChange) => {
+  const { before, after } = change;
+  const parts: string[] = [];
+  const amount = (label: string, key: 'cost' | 'price') => {
+    if (after[key] === undefined) return;
+    parts.push(before[key] !== undefined
+      ? `${label} ${formatPrice(before[key]!)} → ${formatPrice(after[key]!)}`
+      : `${label} ${formatPrice(after[key]!)}`);
+  };
+
+  switch (change.kind) {
+    case 'new_product':
+      amount('Cost', 'cost');
+      if (after.price !== undefined) amount('Price', 'price');
+      else parts.push('Priced at the minimum margin');
+      if (after.stock !== undefined) parts.push(`${after.stock} in stock`);
+      if (change.productId !== null) parts.push('Adds this supplier to the existing product with this SKU');
+      break;
+    case 'price_change':
+      amount('Cost', 'cost');
+      amount('Price', 'price');
+      break;
+    case 'stock_change':
+      parts.push(`Stock ${before.stock} → ${after.stock}`);
+      break;
+    case 'discontinued':
+      parts.push('Removes this supplier; the product is deactivated if no other supplier carries it');
+      break;
+  }
+  return parts.join(' · ');
+};
+
+const AdminFeedImportDetail = () => {
+  const [, params] = useRoute('/admin/feed-imports/:id');
+  const importId = params?.id;
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [kind, setKind] = useState(ALL);
+  // Changes left out of the apply; everything is applied unless unticked
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [confirmDiscard, setConfirmDiscard] = useState(false);
+
+  const { data, isLoading } = useQuery<FeedImportDetail>({
+    queryKey: ['adminFeedImport', importId],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/admin/feed-imports/${importId}`);
+      return response.json();
+    },
+    enabled: !!importId,
+  });
+
+  if (isLoading || !data) {
+    return (
+      <AdminLayout title="Feed Import">
+        {isLoading ? <Skeleton className="h-96 w-full" /> : <p className="text-gray-500">Import not found.</p>}
+      </AdminLayout>
+    );
+  }
+
+  const inReview = data.status === 'review';
+  const shown = data.changes.filter(change => kind === ALL || change.kind === kind);
+  const selectedCount = data.changes.filter(change => !excluded.has(change.id)).length;
+
+  const toggle = (ids: number[], include: boolean) => {
+    setExcluded(current => {
+      const next = new Set(current);
+      for (const id of ids) {
+        if (include) next.delete(id);
+        else next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const review = async (action: 'apply' | 'discard') => {
+    setIsUpdating(true);
+    try {
+      const body = action === 'apply'
+        ? { changeIds: data.changes.filter(change => !excluded.has(change.id)).map(change => change.id) }
+        : undefined;
+      const response = await apiRequest('POST', `/api/admin/feed-imports/${importId}/${action}`, body);
+      const updated: FeedImportDetail = await response.json();
+
+      const failed = action === 'apply' ? updated.changes.filter(change => change.status === 'failed').length : 0;
+      if (failed > 0) {
+        toast({ title: 'Feed applied with problems', description: `${failed} changes could not be applied; see the notes below.`, variant: 'destructive' });
+      } else {
+        toast({ title: action === 'apply' ? 'Feed applied' : 'Import discarded' });
+      }
+      queryClient.invalidateQueries({ queryKey: ['adminFeedImport', importId] });
+      queryClient.invalidateQueries({ queryKey: ['adminFeedImports'] });
+      if (action === 'apply') {
+        queryClient.invalidateQueries({ queryKey: ['/api/admin/margins'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/admin/suppliers'] });
+      }
+    } catch (error) {
+      const { status } = parseApiError(error);
+      toast({
+        title: action === 'apply' ? 'Could not apply feed' : 'Could not discard import',
+        description: status === 409 ? 'Someone else has already reviewed it. Reload to see.' : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUpdating(false);
+      setConfirmDiscard(false);
+    }
+  };
+
+  return (
+    <AdminLayout
+      title={`Feed Import: ${data.filename}`}
+      actions={
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/admin/supplier-feeds">
+            <ArrowLeft className="h-4 w-4 mr-1" /> Supplier Feeds
+          </Link>
+        </Button>
+      }
+    >
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="lg:col-span-2 space-y-6">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-4">
+              <CardTitle>Changes</CardTitle>
+              <div className="w-48">
+                <Select value={kind} onValueChange={setKind}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All changes</SelectItem>
+                    {feedChangeKinds.map(changeKind => (
+                      <SelectItem key={changeKind} value={changeKind}>{feedChangeKindLabel(changeKind)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    {inReview && (
+                      <TableHead className="w-10">
+                        <Checkbox
+                          checked={shown.length > 0 && shown.every(change => !excluded.has(change.id))}
+                          onCheckedChange={(checked) => toggle(shown.map(change => change.id), checked === true)}
+                          aria-label="Select all"
+                        />
+                      </TableHead>
+                    )}
+                    <TableHead>Product</TableHead>
+                    <TableHead>Change</TableHead>
+                    <TableHead>Details</TableHead>
+                    {!inReview && <TableHead>Result</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {shown.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-gray-500">
+                        {data.changes.length === 0 ? 'The feed matches the catalog; nothing to change.' : 'No changes of this kind.'}
+                      </TableCell>
+                    </TableRow>
+                  ) : shown.map(change => (
+                    <TableRow key={change.id}>
+                      {inReview && (
+                        <TableCell>
+                          <Checkbox
+                            checked={!excluded.has(change.id)}
+                            onCheckedChange={(checked) => toggle([change.id], checked === true)}
+                            aria-label={`Apply ${change.name}`}
+                          />
+                        </TableCell>
+                      )}
+                      <TableCell>
+                        {change.productId !== null ? (
+                          <Link href={`/admin/products/${change.productId}`} className="font-medium hover:underline">{change.name}</Link>
+                        ) : (
+                          <div className="font-medium">{change.name}</div>
+                        )}
+                        <div className="text-xs text-gray-500">{change.supplierSku}</div>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{feedChangeKindLabel(change.kind)}</TableCell>
+                      <TableCell className="text-sm">{describeChange(change)}</TableCell>
+                      {!inReview && (
+                        <TableCell className="text-sm">
+                          <span className={change.status === 'failed' ? 'text-red-600' : undefined}>{feedChangeStatusLabel(change.status)}</span>
+                          {change.note && <div className="text-xs text-gray-500">{change.note}</div>}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {data.rowErrors.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Rows Not Imported</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-20">Row</TableHead>
+                      <TableHead>Supplier SKU</TableHead>
+                      <TableHead>Problem</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.rowErrors.map(rowError => (
+                      <TableRow key={rowError.row}>
+                        <TableCell>{rowError.row}</TableCell>
+                        <TableCell>{rowError.supplierSku || '-'}</TableCell>
+                        <TableCell className="text-sm">{rowError.message}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle>Import</CardTitle>
+              <FeedImportStatusBadge status={data.status} />
+            </CardHeader>
+            <CardContent className="text-sm space-y-1">
+              <div className="flex justify-between"><span className="text-gray-500">Supplier</span><span>{data.supplierName ?? '-'}</span></div>
+              <div className="flex justify-between"><span className="text-gray-500">Profile</span><span>{data.profileName ?? 'Deleted'}</span></div>
+              <div className="flex justify-between"><span className="text-gray-500">Imported</span><span>{data.createdAt ? formatDate(data.createdAt) : '-'}</span></div>
+              {data.reviewedAt && (
+                <div className="flex justify-between">
+                  <span className="text-gray-500">{data.status === 'applied' ? 'Applied' : 'Discarded'}</span>
+                  <span>{formatDate(data.reviewedAt)}</span>
+                </div>
+              )}
+              <div className="flex justify-between"><span className="text-gray-500">Rows read</span><span>{data.rowCount}</span></div>
+              <div className="flex justify-between"><span className="text-gray-500">Unchanged</span><span>{data.unchangedCount}</span></div>
+              {feedChangeKinds.map(changeKind => (
+                <div key={changeKind} className="flex justify-between">
+                  <span className="text-gray-500">{feedChangeKindLabel(changeKind)}</span>
+                  <span>{data.summary[changeKind] ?? 0}</span>
+                </div>
+              ))}
+              {data.error && <p className="text-red-600 pt-2">{data.error}</p>}
+            </CardContent>
+          </Card>
+
+          {inReview && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Review</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <p className="text-sm text-gray-500">
+                  Untick anything you don't want. New products are added inactive, so they only go on sale once they have photos and a category.
+                </p>
+                <Button className="w-full" disabled={isUpdating || selectedCount === 0} onClick={() => review('apply')}>
+                  Apply {selectedCount} of {data.changes.length} changes
+                </Button>
+                <Button variant="outline" className="w-full" disabled={isUpdating} onClick={() => setConfirmDiscard(true)}>
+                  Discard Import
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      <AlertDialog open={confirmDiscard} onOpenChange={setConfirmDiscard}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Discard this import?</AlertDialogTitle>
+            <AlertDialogDescription>
+              None of its changes will be applied. It stays in the import history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => review('discard')}>Discard</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AdminLayout>
+  );
+};
+
+export default AdminFeedImportDetail;
@@ -0,0 +1,369 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Download } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { formatPrice } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { funnelSteps, type FunnelReport, type FunnelSegmentDimension, type FunnelStepName } from '@shared/schema';
+import AdminLayout from './admin-layout';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Sessions are grouped by the UTC day they started
+const utcDay = (date: Date) => date.toISOString().slice(0, 10);
+
+const formatRate = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+const stepLabels: Record<FunnelStepName, string> = {
+  browsing: 'Browsing',
+  product_detail: 'Viewed a product',
+  add_to_cart: 'Added to cart',
+  checkout: 'Started checkout',
+  post_purchase: 'Purchased',
+};
+
+const dimensionLabels: Record<FunnelSegmentDimension, string> = {
+  device: 'Device',
+  source: 'Traffic source',
+  visitor: 'New or returning',
+};
+
+const rangePresets = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+  { value: '365', label: 'Last 12 months' },
+];
+
+const stepsChartConfig = {
+  sessions: { label: 'Sessions', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const daysChartConfig = {
+  sessions: { label: 'Sessions', color: 'hsl(var(--primary))' },
+  convertedSessions: { label: 'Purchased', color: 'hsl(142 71% 45%)' },
+} satisfies ChartConfig;
+
+const lastDays = (days: number) => ({
+  from: utcDay(new Date(Date.now() - (days - 1) * DAY_MS)),
+  to: utcDay(new Date()),
+});
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// The whole report as one CSV file, a section per table
+function reportToCsv(report: FunnelReport): string {
+  const rows: (string | number)[][] = [
+    ['Funnel', report.from, report.to],
+    ['Step', 'Sessions', 'Conversion from previous step', 'Drop-off'],
+    ...report.steps.map(step => [stepLabels[step.step], step.sessions, step.conversionRate.toFixed(4), step.dropOff]),
+    [],
+    ['Sessions', 'Orders', 'Revenue', 'Revenue per session'],
+    [report.sessions, report.orders, report.revenue, report.revenuePerSession],
+    [],
+    ['Segment type', 'Segment', 'Sessions', ...funnelSteps.slice(1).map(step => stepLabels[step]), 'Conversion', 'Orders', 'Revenue', 'Revenue per session'],
+    ...report.segments.map(segment => [
+      dimensionLabels[segment.dimension],
+      segment.segment,
+      segment.sessions,
+      ...segment.steps.slice(1),
+      segment.conversionRate.toFixed(4),
+      segment.orders,
+      segment.revenue,
+      segment.revenuePerSession,
+    ]),
+    [],
+    ['Day', 'Sessions', 'Sessions that purchased', 'Revenue'],
+    ...report.days.map(day => [day.day, day.sessions, day.convertedSessions, day.revenue]),
+    [],
+    ['Product ID', 'Product', 'Added to cart', 'Abandoned'],
+    ...report.topAbandoned.map(product => [product.productId, product.name ?? '', product.addToCarts, product.cartAbandons]),
+  ];
+  return rows.map(row => row.map(csvCell).join(',')).join('\n');
+}
+
+function downloadCsv(report: FunnelReport) {
+  const url = URL.createObjectURL(new Blob([reportToCsv(report)], { type: 'text/csv' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `funnel-${report.from}-to-${report.to}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const AdminFunnelAnalytics = () => {
+  const [preset, setPreset] = useState('30');
+  const [range, setRange] = useState(() => lastDays(30));
+  const { from, to } = range;
+
+  const { data: report, isLoading, error } = useQuery<FunnelReport>({
+    queryKey: ['adminFunnelAnalytics', from, to],
+    queryFn: async () => {
+      const params = new URLSearchParams({ from, to });
+      const response = await apiRequest('GET', `/api/admin/analytics/funnel?${params}`);
+      return response.json();
+    },
+    enabled: !!from && !!to && from <= to,
+  });
+
+  const handlePresetChange = (value: string) => {
+    setPreset(value);
+    if (value !== 'custom') setRange(lastDays(parseInt(value)));
+  };
+
+  const handleDateChange = (change: Partial<typeof range>) => {
+    setPreset('custom');
+    setRange({ ...range, ...change });
+  };
+
+  const stepsData = report?.steps.map(step => ({ ...step, label: stepLabels[step.step] })) ?? [];
+  const purchased = report?.steps[report.steps.length - 1]?.sessions ?? 0;
+
+  return (
+    <AdminLayout title="Sales Funnel">
+      <div className="grid gap-3 md:grid-cols-5 mb-4 items-end">
+        <div className="space-y-1">
+          <Label>Range</Label>
+          <Select value={preset} onValueChange={handlePresetChange}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {rangePresets.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+              <SelectItem value="custom">Custom</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="funnel-from">From</Label>
+          <Input id="funnel-from" type="date" value={from} max={to} onChange={(e) => handleDateChange({ from: e.target.value })} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="funnel-to">To</Label>
+          <Input id="funnel-to" type="date" value={to} min={from} onChange={(e) => handleDateChange({ to: e.target.value })} />
+        </div>
+        <p className="text-xs text-gray-500">
+          Sessions are counted on the UTC day they started. Each counts toward every step up to the furthest it reached.
+        </p>
+        <div className="flex md:justify-end">
+          <Button variant="outline" disabled={!report} onClick={() => report && downloadCsv(report)}>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-600">Couldn't load the funnel for this range. Ranges can be up to a year long.</p>
+      ) : isLoading || !report ? (
+        <div className="space-y-2">
+          <Skeleton className="h-24 w-full" />
+          <Skeleton className="h-64 w-full" />
+          <Skeleton className="h-64 w-full" />
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid gap-4 md:grid-cols-5">
+            {[
+              { label: 'Sessions', value: report.sessions.toLocaleString() },
+              { label: 'Conversion', value: formatRate(report.sessions > 0 ? purchased / report.sessions : 0) },
+              { label: 'Orders', value: report.orders.toLocaleString() },
+              { label: 'Revenue', value: formatPrice(report.revenue) },
+              { label: 'Revenue per session', value: formatPrice(report.revenuePerSession) },
+            ].map(stat => (
+              <Card key={stat.label}>
+                <CardContent className="pt-6">
+                  <div className="text-sm text-gray-500">{stat.label}</div>
+                  <div className="text-2xl font-bold">{stat.value}</div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>Funnel</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={stepsChartConfig} className="h-64 w-full">
+                  <BarChart data={stepsData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="sessions" fill="var(--color-sessions)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Step</TableHead>
+                      <TableHead className="text-right">Sessions</TableHead>
+                      <TableHead className="text-right">Conversion</TableHead>
+                      <TableHead className="text-right">Drop-off</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.steps.map((step, index) => (
+                      <TableRow key={step.step}>
+                        <TableCell className="font-medium">{stepLabels[step.step]}</TableCell>
+                        <TableCell className="text-right">{step.sessions}</TableCell>
+                        <TableCell className="text-right">{index === 0 ? '—' : formatRate(step.conversionRate)}</TableCell>
+                        <TableCell className="text-right">{index === 0 ? '—' : step.dropOff}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Sessions by day</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={daysChartConfig} className="h-64 w-full">
+                  <LineChart data={report.days}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="day" tickLine={false} axisLine={false} minTickGap={24} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Line dataKey="sessions" stroke="var(--color-sessions)" strokeWidth={2} dot={false} />
+                    <Line dataKey="convertedSessions" stroke="var(--color-convertedSessions)" strokeWidth={2} dot={false} />
+                  </LineChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Segments</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Tabs defaultValue="device">
+                <TabsList>
+                  {(Object.keys(dimensionLabels) as FunnelSegmentDimension[]).map(dimension => (
+                    <TabsTrigger key={dimension} value={dimension}>{dimensionLabels[dimension]}</TabsTrigger>
+                  ))}
+                </TabsList>
+                {(Object.keys(dimensionLabels) as FunnelSegmentDimension[]).map(dimension => (
+                  <TabsContent key={dimension} value={dimension}>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Segment</TableHead>
+                          <TableHead className="text-right">Sessions</TableHead>
+                          {funnelSteps.slice(1).map(step => (
+                            <TableHead key={step} className="text-right">{stepLabels[step]}</TableHead>
+                          ))}
+                          <TableHead className="text-right">Conversion</TableHead>
+                          <TableHead className="text-right">Revenue</TableHead>
+                          <TableHead className="text-right">Per session</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {report.segments.filter(segment => segment.dimension === dimension).map(segment => (
+                          <TableRow key={segment.segment}>
+                            <TableCell className="font-medium capitalize">{segment.segment}</TableCell>
+                            <TableCell className="text-right">{segment.sessions}</TableCell>
+                            {segment.steps.slice(1).map((sessions, index) => (
+                              <TableCell key={funnelSteps[index + 1]} className="text-right">{sessions}</TableCell>
+                            ))}
+                            <TableCell className="text-right">{formatRate(segment.conversionRate)}</TableCell>
+                            <TableCell className="text-right">{formatPrice(segment.revenue)}</TableCell>
+                            <TableCell className="text-right">{formatPrice(segment.revenuePerSession)}</TableCell>
+                          </TableRow>
+                        ))}
+                        {report.sessions === 0 && (
+                          <TableRow>
+                            <TableCell colSpan={funnelSteps.length + 4} className="text-center text-gray-500">No sessions in this range.</TableCell>
+                          </TableRow>
+                        )}
+                      </TableBody>
+                    </Table>
+                  </TabsContent>
+                ))}
+              </Tabs>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Most abandoned products</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">Added to cart</TableHead>
+                    <TableHead className="text-right">Abandoned</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.topAbandoned.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={3} className="text-center text-gray-500">No abandoned carts in this range.</TableCell>
+                    </TableRow>
+                  ) : report.topAbandoned.map(product => (
+                    <TableRow key={product.productId}>
+                      <TableCell className="font-medium">
+                        {product.name ? (
+                          <Link href={`/admin/products/${product.productId}`} className="hover:underline">{product.name}</Link>
+                        ) : (
+                          <span className="text-gray-500">Deleted product #{product.productId}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{product.addToCarts}</TableCell>
+                      <TableCell className="text-right">{product.cartAbandons}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </AdminLayout>
+  );
+};
+
+export default AdminFunnelAnalytics;
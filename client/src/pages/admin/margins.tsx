@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { AlertTriangle } from 'lucide-react';
+import { formatPrice } from '@/lib/utils';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { ProductMargin } from '@shared/schema';
+import AdminLayout from './admin-layout';
+
+const AdminMargins = () => {
+  const [belowMinimumOnly, setBelowMinimumOnly] = useState(false);
+
+  // Always fetched in full, so the alert can list every product under the minimum
+  const { data, isLoading } = useQuery<{ minimumMargin: number; products: ProductMargin[] }>({
+    queryKey: ['/api/admin/margins'],
+  });
+  const products = data?.products ?? [];
+  const belowMinimum = products.filter(product => product.belowMinimum);
+  const shown = belowMinimumOnly ? belowMinimum : products;
+
+  return (
+    <AdminLayout title="Margins">
+      {belowMinimum.length > 0 && (
+        <Alert variant="destructive" className="mb-4">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>
+            {belowMinimum.length === 1 ? '1 product is' : `${belowMinimum.length} products are`} below the {data?.minimumMargin}% minimum margin
+          </AlertTitle>
+          <AlertDescription>
+            {belowMinimum.slice(0, 5).map(product => product.name).join(', ')}
+            {belowMinimum.length > 5 && ` and ${belowMinimum.length - 5} more`}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex items-center justify-between mb-4">
+        <p className="text-sm text-gray-500">
+          Each product's cost is its preferred supplier's, or the cheapest active supplier's when none is preferred.
+        </p>
+        <div className="flex items-center gap-2">
+          <Switch id="below-minimum" checked={belowMinimumOnly} onCheckedChange={setBelowMinimumOnly} />
+          <Label htmlFor="below-minimum">Below minimum only</Label>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Product</TableHead>
+              <TableHead>Supplier</TableHead>
+              <TableHead className="text-right">Price</TableHead>
+              <TableHead className="text-right">Cost</TableHead>
+              <TableHead className="text-right">Margin</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {shown.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-gray-500">
+                  {belowMinimumOnly ? 'Every product with a cost on file meets the minimum.' : 'No products yet.'}
+                </TableCell>
+              </TableRow>
+            ) : shown.map(product => (
+              <TableRow key={product.productId} className={product.isActive ? '' : 'text-gray-400'}>
+                <TableCell className="font-medium">
+                  <Link href={`/admin/products/${product.productId}`} className="hover:underline">{product.name}</Link>
+                  <div className="text-xs text-gray-500">{product.sku}</div>
+                </TableCell>
+                <TableCell>{product.supplierName ?? <span className="text-gray-500">No cost on file</span>}</TableCell>
+                <TableCell className="text-right">{formatPrice(product.price)}</TableCell>
+                <TableCell className="text-right">{product.cost !== null ? formatPrice(product.cost) : '—'}</TableCell>
+                <TableCell className="text-right">
+                  {product.marginPercent === null ? '—' : product.belowMinimum ? (
+                    <Badge variant="destructive">{product.marginPercent.toFixed(1)}%</Badge>
+                  ) : `${product.marginPercent.toFixed(1)}%`}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </AdminLayout>
+  );
+};
+
+export default AdminMargins;
@@ -0,0 +1,448 @@
+import { useState } from 'react';
+import { Link, useRoute } from 'wouter';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, ArrowLeft } from 'lucide-react';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
+import { formatPrice } from '@/lib/utils';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/context/auth-context';
+import OrderStatusBadge, { orderStatusLabel } from '@/components/order/order-status-badge';
+import AddressBlock from '@/components/order/address-block';
+import PurchaseOrderCard, { type PurchaseOrderWithItems } from '@/components/order/purchase-order-card';
+import { canTransitionOrder, type Address, type Order, type OrderEvent, type OrderItem, type OrderStatus, type Product } from '@shared/schema';
+import AdminLayout from './admin-layout';
+
+interface AdminOrderDetail {
+  order: Order;
+  items: (OrderItem & { product?: Product })[];
+  events: OrderEvent[];
+  purchaseOrders: PurchaseOrderWithItems[];
+  allowedTransitions: OrderStatus[];
+}
+
+const transitionLabels: Partial<Record<OrderStatus, string>> = {
+  processing: 'Start Processing',
+  shipped: 'Mark Shipped',
+  delivered: 'Mark Delivered',
+  cancelled: 'Cancel Order',
+};
+
+const AdminOrderDetailPage = () => {
+  const [, params] = useRoute('/admin/orders/:id');
+  const orderId = params?.id;
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [note, setNote] = useState('');
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [isRefundOpen, setIsRefundOpen] = useState(false);
+  const [refundAmount, setRefundAmount] = useState('');
+  const [refundReason, setRefundReason] = useState('');
+  const [carrier, setCarrier] = useState('');
+  const [trackingNumber, setTrackingNumber] = useState('');
+  const [isShipmentOpen, setIsShipmentOpen] = useState(false);
+
+  const { data, isLoading } = useQuery<AdminOrderDetail>({
+    queryKey: ['adminOrder', orderId],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/admin/orders/${orderId}`);
+      return response.json();
+    },
+    enabled: !!orderId,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['adminOrder', orderId] });
+    queryClient.invalidateQueries({ queryKey: ['adminOrders'] });
+  };
+
+  const changeStatus = async (status: OrderStatus) => {
+    setIsUpdating(true);
+    try {
+      const shipment = status === 'shipped'
+        ? { carrier: carrier || undefined, trackingNumber: trackingNumber || undefined }
+        : {};
+      await apiRequest('POST', `/api/admin/orders/${orderId}/status`, { status, note: note || undefined, ...shipment });
+      toast({ title: `Order marked ${orderStatusLabel(status).toLowerCase()}` });
+      setNote('');
+      setCarrier('');
+      setTrackingNumber('');
+      refresh();
+    } catch (error) {
+      const { status } = parseApiError(error);
+      toast({
+        title: 'Could not update order',
+        description: status === 403
+          ? 'Your role cannot change order status.'
+          : status === 409
+            ? 'The order changed in the meantime. Reload and try again.'
+            : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleRefund = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!data) return;
+
+    setIsUpdating(true);
+    try {
+      await apiRequest('POST', '/api/refunds', {
+        orderNumber: data.order.orderNumber,
+        amount: refundAmount ? parseFloat(refundAmount) : undefined,
+        reason: refundReason || undefined,
+      });
+      toast({ title: 'Refund issued' });
+      setIsRefundOpen(false);
+      setRefundAmount('');
+      setRefundReason('');
+      refresh();
+    } catch (error) {
+      // e.g. more than is left to refund
+      const { status, message } = parseApiError(error);
+      toast({ title: 'Could not issue refund', description: status === 400 ? message : 'Please try again.', variant: 'destructive' });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  // Orders are routed when paid; this catches ones paid before their products had a supplier
+  const routeToSuppliers = async () => {
+    setIsUpdating(true);
+    try {
+      const response = await apiRequest('POST', `/api/admin/orders/${orderId}/purchase-orders`);
+      const purchaseOrders: PurchaseOrderWithItems[] = await response.json();
+      toast({
+        title: purchaseOrders.length > 0
+          ? `${purchaseOrders.length} purchase order${purchaseOrders.length === 1 ? '' : 's'} created`
+          : 'No items on this order are dropshipped',
+      });
+      refresh();
+    } catch (error) {
+      toast({ title: 'Could not send order to suppliers', description: 'Please try again.', variant: 'destructive' });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const openShipmentEditor = () => {
+    setCarrier(data?.order.carrier || '');
+    setTrackingNumber(data?.order.trackingNumber || '');
+    setIsShipmentOpen(true);
+  };
+
+  const handleShipmentUpdate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsUpdating(true);
+    try {
+      await apiRequest('PUT', `/api/admin/orders/${orderId}/shipment`, {
+        carrier: carrier || null,
+        trackingNumber: trackingNumber || null,
+      });
+      toast({ title: 'Tracking details updated' });
+      setIsShipmentOpen(false);
+      setCarrier('');
+      setTrackingNumber('');
+      refresh();
+    } catch (error) {
+      toast({ title: 'Could not update tracking details', description: 'Please try again.', variant: 'destructive' });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  if (isLoading || !data) {
+    return (
+      <AdminLayout title="Order">
+        {isLoading ? <Skeleton className="h-96 w-full" /> : <p className="text-gray-500">Order not found.</p>}
+      </AdminLayout>
+    );
+  }
+
+  const { order, items, events, purchaseOrders, allowedTransitions } = data;
+  const refundable = (parseFloat(order.total) - parseFloat(order.refundedAmount)).toFixed(2);
+  const canRefund = !!user && (user.role === 'admin' || user.role === 'support') &&
+    !!order.stripePaymentIntentId && canTransitionOrder(order.status, 'refunded');
+  const canEditShipment = !!user && (user.role === 'admin' || user.role === 'fulfillment') &&
+    (order.status === 'shipped' || order.status === 'delivered');
+  const canManagePurchaseOrders = !!user && (user.role === 'admin' || user.role === 'fulfillment');
+
+  return (
+    <AdminLayout
+      title={`Order ${order.orderNumber}`}
+      actions={
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/admin/orders">
+            <ArrowLeft className="h-4 w-4 mr-1" /> All Orders
+          </Link>
+        </Button>
+      }
+    >
+      {order.stockIssue && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Not enough stock for this order</AlertTitle>
+          <AlertDescription>{order.stockIssue}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="lg:col-span-2 space-y-6">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle>Items</CardTitle>
+              <OrderStatusBadge status={order.status} />
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">Qty</TableHead>
+                    <TableHead className="text-right">Price</TableHead>
+                    <TableHead className="text-right">Subtotal</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map(item => (
+                    <TableRow key={item.id}>
+                      <TableCell>
+                        <div className="font-medium">{item.product?.name || `Product #${item.productId}`}</div>
+                        {item.product && <div className="text-xs text-gray-500">{item.product.sku}</div>}
+                      </TableCell>
+                      <TableCell className="text-right">{item.quantity}</TableCell>
+                      <TableCell className="text-right">{formatPrice(item.price)}</TableCell>
+                      <TableCell className="text-right">{formatPrice(item.subtotal)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <div className="mt-4 ml-auto max-w-xs space-y-1 text-sm">
+                <div className="flex justify-between"><span>Subtotal</span><span>{formatPrice(order.subtotal)}</span></div>
+                {parseFloat(order.discount) > 0 && (
+                  <div className="flex justify-between text-green-600">
+                    <span>Discount{order.promotionCodes.length > 0 && ` (${order.promotionCodes.join(', ')})`}</span>
+                    <span>-{formatPrice(order.discount)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between"><span>Shipping</span><span>{formatPrice(order.shippingCost || 0)}</span></div>
+                <div className="flex justify-between"><span>Tax</span><span>{formatPrice(order.tax || 0)}</span></div>
+                <div className="flex justify-between font-semibold border-t pt-1"><span>Total</span><span>{formatPrice(order.total)}</span></div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {purchaseOrders.map(purchaseOrder => (
+            <PurchaseOrderCard
+              key={purchaseOrder.id}
+              purchaseOrder={purchaseOrder}
+              canManage={canManagePurchaseOrders}
+              onChange={refresh}
+            />
+          ))}
+          {purchaseOrders.length === 0 && canManagePurchaseOrders && (order.status === 'paid' || order.status === 'processing') && (
+            <div className="flex items-center justify-between rounded-md border p-4 text-sm">
+              <span className="text-gray-500">No purchase orders were sent to suppliers for this order.</span>
+              <Button variant="outline" size="sm" disabled={isUpdating} onClick={routeToSuppliers}>
+                Send to Suppliers
+              </Button>
+            </div>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ol className="space-y-3">
+                {events.map(event => (
+                  <li key={event.id} className="flex gap-3 text-sm">
+                    <div className="w-40 shrink-0 text-gray-500">
+                      {event.createdAt ? new Date(event.createdAt).toLocaleString() : '-'}
+                    </div>
+                    <div>
+                      <div>
+                        {event.fromStatus
+                          ? <>{orderStatusLabel(event.fromStatus)} → <span className="font-medium">{orderStatusLabel(event.toStatus)}</span></>
+                          : <span className="font-medium">Order placed</span>}
+                        {event.userId && <span className="text-gray-500"> by staff #{event.userId}</span>}
+                      </div>
+                      {event.note && <div className="text-gray-600">{event.note}</div>}
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Actions</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {allowedTransitions.length === 0 && !canRefund ? (
+                <p className="text-sm text-gray-500">
+                  {order.status === 'pending' ? 'Waiting for payment.' : 'No further changes are possible.'}
+                </p>
+              ) : (
+                <>
+                  {allowedTransitions.length > 0 && (
+                    <Textarea
+                      placeholder="Note for the order history (optional)"
+                      rows={2}
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                    />
+                  )}
+                  {allowedTransitions.includes('shipped') && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <Input placeholder="Carrier" value={carrier} onChange={(e) => setCarrier(e.target.value)} />
+                      <Input placeholder="Tracking number" value={trackingNumber} onChange={(e) => setTrackingNumber(e.target.value)} />
+                    </div>
+                  )}
+                  {allowedTransitions.map(status => (
+                    <Button
+                      key={status}
+                      className="w-full"
+                      variant={status === 'cancelled' ? 'destructive' : 'default'}
+                      disabled={isUpdating}
+                      onClick={() => changeStatus(status)}
+                    >
+                      {transitionLabels[status] || orderStatusLabel(status)}
+                    </Button>
+                  ))}
+                  {canRefund && (
+                    <Button className="w-full" variant="outline" disabled={isUpdating} onClick={() => setIsRefundOpen(true)}>
+                      Issue Refund
+                    </Button>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Payment</CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm space-y-1">
+              <div className="flex justify-between"><span>Method</span><span>{order.paymentMethod}</span></div>
+              <div className="flex justify-between"><span>Status</span><span className="capitalize">{order.paymentStatus.replace('_', ' ')}</span></div>
+              {order.stripePaymentIntentId && (
+                <div className="text-xs text-gray-500 break-all pt-1">{order.stripePaymentIntentId}</div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Shipping</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <AddressBlock address={order.shippingAddress as Address | null} />
+              {order.shippingMethod && <p className="text-sm text-gray-500">{order.shippingMethod}</p>}
+              {order.trackingNumber && (
+                <p className="text-sm">
+                  {order.carrier && `${order.carrier} `}<span className="font-medium">{order.trackingNumber}</span>
+                </p>
+              )}
+              {canEditShipment && (
+                <Button variant="outline" size="sm" onClick={openShipmentEditor}>
+                  {order.trackingNumber ? 'Edit Tracking' : 'Add Tracking'}
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Billing</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <AddressBlock address={order.billingAddress as Address | null} />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <Dialog open={isShipmentOpen} onOpenChange={setIsShipmentOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Tracking for {order.orderNumber}</DialogTitle>
+            <DialogDescription>Customers see these on the order tracking page.</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleShipmentUpdate} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="shipment-carrier">Carrier</Label>
+              <Input id="shipment-carrier" value={carrier} onChange={(e) => setCarrier(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="shipment-tracking">Tracking number</Label>
+              <Input id="shipment-tracking" value={trackingNumber} onChange={(e) => setTrackingNumber(e.target.value)} />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsShipmentOpen(false)}>Cancel</Button>
+              <Button type="submit" disabled={isUpdating}>{isUpdating ? 'Saving...' : 'Save'}</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isRefundOpen} onOpenChange={setIsRefundOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Refund {order.orderNumber}</DialogTitle>
+            <DialogDescription>
+              Leave the amount empty to refund the remaining {formatPrice(refundable)}.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleRefund} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="refund-amount">Amount</Label>
+              <Input
+                id="refund-amount"
+                type="number"
+                min="0.01"
+                step="0.01"
+                max={refundable}
+                value={refundAmount}
+                onChange={(e) => setRefundAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="refund-reason">Reason</Label>
+              <Textarea id="refund-reason" rows={2} value={refundReason} onChange={(e) => setRefundReason(e.target.value)} />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsRefundOpen(false)}>Cancel</Button>
+              <Button type="submit" disabled={isUpdating}>{isUpdating ? 'Refunding...' : 'Refund'}</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </AdminLayout>
+  );
+};
+
+export default AdminOrderDetailPage;
@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { formatDate, formatPrice } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import OrderStatusBadge, { orderStatusLabel } from '@/components/order/order-status-badge';
+import { orderStatuses, type Order } from '@shared/schema';
+import AdminLayout from './admin-layout';
+
+const PAGE_SIZE = 50;
+const ALL = 'all';
+const paymentStatuses = ['pending', 'paid', 'failed', 'cancelled', 'refunded', 'partially_refunded', 'refund_failed', 'disputed'];
+
+interface AdminOrdersResponse {
+  orders: Order[];
+  total: number;
+}
+
+const AdminOrders = () => {
+  const [search, setSearch] = useState('');
+  const [status, setStatus] = useState(ALL);
+  const [paymentStatus, setPaymentStatus] = useState(ALL);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [offset, setOffset] = useState(0);
+
+  const { data, isLoading } = useQuery<AdminOrdersResponse>({
+    queryKey: ['adminOrders', search, status, paymentStatus, from, to, offset],
+    queryFn: async () => {
+      const params = new URLSearchParams({ limit: PAGE_SIZE.toString(), offset: offset.toString() });
+      if (search) params.set('search', search);
+      if (status !== ALL) params.set('status', status);
+      if (paymentStatus !== ALL) params.set('payment_status', paymentStatus);
+      if (from) params.set('from', from);
+      if (to) params.set('to', to);
+      const response = await apiRequest('GET', `/api/admin/orders?${params}`);
+      return response.json();
+    },
+  });
+
+  const orders = data?.orders || [];
+  const total = data?.total || 0;
+
+  // Any filter change starts again from the first page
+  const withReset = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setOffset(0);
+  };
+
+  return (
+    <AdminLayout title="Orders">
+      <div className="grid gap-3 md:grid-cols-5 mb-4 items-end">
+        <div className="space-y-1">
+          <Label htmlFor="order-search">Order number</Label>
+          <Input id="order-search" placeholder="ORD-..." value={search} onChange={(e) => withReset(setSearch)(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label>Status</Label>
+          <Select value={status} onValueChange={withReset(setStatus)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All statuses</SelectItem>
+              {orderStatuses.map(orderStatus => (
+                <SelectItem key={orderStatus} value={orderStatus}>{orderStatusLabel(orderStatus)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Payment</Label>
+          <Select value={paymentStatus} onValueChange={withReset(setPaymentStatus)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All payments</SelectItem>
+              {paymentStatuses.map(value => (
+                <SelectItem key={value} value={value} className="capitalize">{value.replace('_', ' ')}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="order-from">From</Label>
+          <Input id="order-from" type="date" value={from} onChange={(e) => withReset(setFrom)(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="order-to">To</Label>
+          <Input id="order-to" type="date" value={to} onChange={(e) => withReset(setTo)(e.target.value)} />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Order</TableHead>
+              <TableHead>Placed</TableHead>
+              <TableHead>Ship to</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Payment</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {orders.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-gray-500">No orders match these filters.</TableCell>
+              </TableRow>
+            ) : orders.map(order => (
+              <TableRow key={order.id}>
+                <TableCell className="font-medium">
+                  <Link href={`/admin/orders/${order.id}`} className="text-primary hover:underline">
+                    {order.orderNumber}
+                  </Link>
+                </TableCell>
+                <TableCell>{order.createdAt ? formatDate(order.createdAt) : '-'}</TableCell>
+                <TableCell>{(order.shippingAddress as { name?: string })?.name || '-'}</TableCell>
+                <TableCell className="text-right">{formatPrice(order.total)}</TableCell>
+                <TableCell><OrderStatusBadge status={order.status} /></TableCell>
+                <TableCell className="capitalize">{order.paymentStatus.replace('_', ' ')}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-end gap-2 mt-4 text-sm">
+          <span className="text-gray-500">
+            {offset + 1}-{Math.min(offset + PAGE_SIZE, total)} of {total}
+          </span>
+          <Button variant="outline" size="sm" disabled={offset === 0} onClick={() => setOffset(offset - PAGE_SIZE)}>
+            Previous
+          </Button>
+          <Button variant="outline" size="sm" disabled={offset + PAGE_SIZE >= total} onClick={() => setOffset(offset + PAGE_SIZE)}>
+            Next
+          </Button>
+        </div>
+      )}
+    </AdminLayout>
+  );
+};
+
+export default AdminOrders;
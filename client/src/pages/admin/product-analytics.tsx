@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { formatPrice } from '@/lib/utils';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { ProductAnalyticsSummary } from '@shared/schema';
+import AdminLayout from './admin-layout';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rollups are by UTC day
+const utcDay = (date: Date) => date.toISOString().slice(0, 10);
+
+const formatRate = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+const AdminProductAnalytics = () => {
+  const [from, setFrom] = useState(() => utcDay(new Date(Date.now() - 29 * DAY_MS)));
+  const [to, setTo] = useState(() => utcDay(new Date()));
+
+  const { data, isLoading } = useQuery<{ from: string; to: string; products: ProductAnalyticsSummary[] }>({
+    queryKey: ['adminProductAnalytics', from, to],
+    queryFn: async () => {
+      const params = new URLSearchParams({ from, to });
+      const response = await apiRequest('GET', `/api/admin/analytics/products?${params}`);
+      return response.json();
+    },
+    enabled: !!from && !!to && from <= to,
+  });
+  const products = data?.products ?? [];
+
+  return (
+    <AdminLayout title="Product Analytics">
+      <div className="grid gap-3 md:grid-cols-5 mb-4 items-end">
+        <div className="space-y-1">
+          <Label htmlFor="analytics-from">From</Label>
+          <Input id="analytics-from" type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="analytics-to">To</Label>
+          <Input id="analytics-to" type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+        </div>
+        <p className="text-xs text-gray-500 md:col-span-3">
+          Counts are of shopping sessions, so one shopper viewing a product twice counts once. Days are in UTC.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Product</TableHead>
+              <TableHead className="text-right">Views</TableHead>
+              <TableHead className="text-right">Added to cart</TableHead>
+              <TableHead className="text-right">Abandoned</TableHead>
+              <TableHead className="text-right">Orders</TableHead>
+              <TableHead className="text-right">Units</TableHead>
+              <TableHead className="text-right">Revenue</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {products.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-gray-500">No activity in this range.</TableCell>
+              </TableRow>
+            ) : products.map(product => (
+              <TableRow key={product.productId}>
+                <TableCell className="font-medium">
+                  {product.name ? (
+                    <Link href={`/admin/products/${product.productId}`} className="hover:underline">{product.name}</Link>
+                  ) : (
+                    <span className="text-gray-500">Deleted product #{product.productId}</span>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">{product.views}</TableCell>
+                <TableCell className="text-right">
+                  {product.addToCarts}
+                  <div className="text-xs text-gray-500">{formatRate(product.addToCartRate)}</div>
+                </TableCell>
+                <TableCell className="text-right">{product.cartAbandons}</TableCell>
+                <TableCell className="text-right">
+                  {product.orders}
+                  <div className="text-xs text-gray-500">{formatRate(product.conversionRate)}</div>
+                </TableCell>
+                <TableCell className="text-right">{product.unitsSold}</TableCell>
+                <TableCell className="text-right">{formatPrice(product.revenue)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </AdminLayout>
+  );
+};
+
+export default AdminProductAnalytics;
@@ -0,0 +1,757 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useLocation, useRoute } from 'wouter';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Plus, Trash2 } from 'lucide-react';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
+import { generateSlug } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import type { Brand, Category, Product, ProductFitmentDetail, StockLocation, VehicleModel } from '@shared/schema';
+import AdminLayout from './admin-layout';
+
+const NONE = 'none';
+const priceField = z.string().regex(/^\d+(\.\d{1,2})?$/, 'Enter a price like 199.99');
+
+const productFormSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  slug: z.string().min(1, 'Slug is required'),
+  sku: z.string().min(1, 'SKU is required'),
+  description: z.string().min(1, 'Description is required'),
+  price: priceField,
+  compareAtPrice: priceField.or(z.literal('')),
+  brandId: z.string(),
+  categoryId: z.string(),
+  inventoryCount: z.string().regex(/^\d+$/, 'Enter a whole number'),
+  isFeatured: z.boolean(),
+  isActive: z.boolean(),
+  tags: z.string(),
+  metaTitle: z.string(),
+  metaDescription: z.string(),
+  images: z.array(z.object({ url: z.string().url('Enter a full image URL') })),
+  specs: z.array(z.object({ key: z.string().min(1, 'Name is required'), value: z.string() })),
+});
+
+type ProductFormValues = z.infer<typeof productFormSchema>;
+
+const emptyProduct: ProductFormValues = {
+  name: '',
+  slug: '',
+  sku: '',
+  description: '',
+  price: '',
+  compareAtPrice: '',
+  brandId: NONE,
+  categoryId: NONE,
+  inventoryCount: '0',
+  isFeatured: false,
+  isActive: true,
+  tags: '',
+  metaTitle: '',
+  metaDescription: '',
+  images: [],
+  specs: [],
+};
+
+function toFormValues(product: Product): ProductFormValues {
+  return {
+    name: product.name,
+    slug: product.slug,
+    sku: product.sku,
+    description: product.description,
+    price: product.price,
+    compareAtPrice: product.compareAtPrice || '',
+    brandId: product.brandId ? product.brandId.toString() : NONE,
+    categoryId: product.categoryId ? product.categoryId.toString() : NONE,
+    inventoryCount: (product.inventoryCount ?? 0).toString(),
+    isFeatured: !!product.isFeatured,
+    isActive: product.isActive !== false,
+    tags: (product.tags || []).join(', '),
+    metaTitle: product.metaTitle || '',
+    metaDescription: product.metaDescription || '',
+    images: ((product.images as string[]) || []).map(url => ({ url })),
+    specs: Object.entries((product.specs as Record<string, string>) || {}).map(([key, value]) => ({ key, value: String(value) })),
+  };
+}
+
+// The request body for POST /api/products and PUT /api/products/:id
+function toProductPayload(values: ProductFormValues) {
+  return {
+    name: values.name,
+    slug: values.slug,
+    sku: values.sku,
+    description: values.description,
+    price: values.price,
+    compareAtPrice: values.compareAtPrice || null,
+    brandId: values.brandId === NONE ? null : parseInt(values.brandId),
+    categoryId: values.categoryId === NONE ? null : parseInt(values.categoryId),
+    inventoryCount: parseInt(values.inventoryCount),
+    isFeatured: values.isFeatured,
+    isActive: values.isActive,
+    tags: values.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+    metaTitle: values.metaTitle || null,
+    metaDescription: values.metaDescription || null,
+    images: values.images.map(image => image.url),
+    specs: Object.fromEntries(values.specs.map(spec => [spec.key, spec.value])),
+  };
+}
+
+const AdminProductForm = () => {
+  const [, params] = useRoute('/admin/products/:id');
+  const productId = params?.id && params.id !== 'new' ? parseInt(params.id) : null;
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<ProductFormValues>({
+    resolver: zodResolver(productFormSchema),
+    defaultValues: emptyProduct,
+  });
+  const images = useFieldArray({ control: form.control, name: 'images' });
+  const specs = useFieldArray({ control: form.control, name: 'specs' });
+
+  const { data: product, isLoading } = useQuery<Product>({
+    queryKey: ['adminProduct', productId],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/admin/products/${productId}`);
+      return response.json();
+    },
+    enabled: productId !== null,
+  });
+
+  const { data: categories = [] } = useQuery<Category[]>({ queryKey: ['/api/categories'] });
+  const { data: brands = [] } = useQuery<Brand[]>({ queryKey: ['/api/brands'] });
+
+  useEffect(() => {
+    if (product) form.reset(toFormValues(product));
+  }, [product]);
+
+  const onSubmit = async (values: ProductFormValues) => {
+    setIsSubmitting(true);
+    try {
+      const payload = toProductPayload(values);
+      const response = productId
+        ? await apiRequest('PUT', `/api/products/${productId}`, payload)
+        : await apiRequest('POST', '/api/products', payload);
+      const saved: Product = await response.json();
+
+      queryClient.invalidateQueries({ queryKey: ['adminProducts'] });
+      queryClient.setQueryData(['adminProduct', saved.id], saved);
+      toast({ title: productId ? 'Product saved' : 'Product created' });
+      if (!productId) setLocation(`/admin/products/${saved.id}`);
+    } catch (error) {
+      const { status } = parseApiError(error);
+      toast({
+        title: 'Could not save product',
+        description: status === 409
+          ? 'Another product already uses this slug or SKU.'
+          : 'Please check the form and try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (productId && isLoading) {
+    return (
+      <AdminLayout title="Edit Product">
+        <Skeleton className="h-96 w-full" />
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout title={productId ? `Edit ${product?.name || 'Product'}` : 'New Product'}>
+      <div className="max-w-4xl space-y-6">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Details</CardTitle>
+              </CardHeader>
+              <CardContent className="grid md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Name</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          onChange={(e) => {
+                            field.onChange(e);
+                            // New products follow the name until the slug is edited by hand
+                            if (!productId && !form.formState.dirtyFields.slug) {
+                              form.setValue('slug', generateSlug(e.target.value));
+                            }
+                          }}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="slug"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Slug</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="sku"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>SKU</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="inventoryCount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Stock</FormLabel>
+                      <FormControl>
+                        {/* Once saved, stock is set per location below and this is their total */}
+                        <Input type="number" min={0} disabled={productId !== null} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="price"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Price</FormLabel>
+                      <FormControl>
+                        <Input inputMode="decimal" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="compareAtPrice"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Compare-at Price (Optional)</FormLabel>
+                      <FormControl>
+                        <Input inputMode="decimal" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="categoryId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Category</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={NONE}>No category</SelectItem>
+                          {categories.map(category => (
+                            <SelectItem key={category.id} value={category.id.toString()}>{category.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="brandId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Brand</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={NONE}>No brand</SelectItem>
+                          {brands.map(brand => (
+                            <SelectItem key={brand.id} value={brand.id.toString()}>{brand.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="description"
+                  render={({ field }) => (
+                    <FormItem className="md:col-span-2">
+                      <FormLabel>Description</FormLabel>
+                      <FormControl>
+                        <Textarea rows={5} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="tags"
+                  render={({ field }) => (
+                    <FormItem className="md:col-span-2">
+                      <FormLabel>Tags (comma separated)</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="isActive"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center gap-3 space-y-0">
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                      <FormLabel>Active (visible in the store)</FormLabel>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="isFeatured"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center gap-3 space-y-0">
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                      <FormLabel>Featured</FormLabel>
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle>Images</CardTitle>
+                <Button type="button" variant="outline" size="sm" onClick={() => images.append({ url: '' })}>
+                  <Plus className="h-4 w-4 mr-1" /> Add Image
+                </Button>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {images.fields.length === 0 && <p className="text-sm text-gray-500">No images yet.</p>}
+                {images.fields.map((image, index) => (
+                  <div key={image.id} className="flex items-start gap-3">
+                    <div className="w-12 h-12 rounded border bg-gray-50 overflow-hidden shrink-0">
+                      {form.watch(`images.${index}.url`) && (
+                        <img src={form.watch(`images.${index}.url`)} alt="" className="w-full h-full object-cover" />
+                      )}
+                    </div>
+                    <FormField
+                      control={form.control}
+                      name={`images.${index}.url`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormControl>
+                            <Input placeholder="https://..." {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button type="button" variant="ghost" size="icon" onClick={() => images.remove(index)} aria-label="Remove image">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                {images.fields.length > 1 && (
+                  <p className="text-xs text-gray-500">The first image is the product's main image.</p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle>Specifications</CardTitle>
+                <Button type="button" variant="outline" size="sm" onClick={() => specs.append({ key: '', value: '' })}>
+                  <Plus className="h-4 w-4 mr-1" /> Add Spec
+                </Button>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {specs.fields.length === 0 && <p className="text-sm text-gray-500">No specifications yet.</p>}
+                {specs.fields.map((spec, index) => (
+                  <div key={spec.id} className="flex items-start gap-3">
+                    <FormField
+                      control={form.control}
+                      name={`specs.${index}.key`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormControl>
+                            <Input placeholder="Name, e.g. Material" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`specs.${index}.value`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormControl>
+                            <Input placeholder="Value, e.g. Aluminum" {...field} />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                    <Button type="button" variant="ghost" size="icon" onClick={() => specs.remove(index)} aria-label="Remove spec">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Search Engines</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="metaTitle"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Meta Title (Optional)</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="metaDescription"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Meta Description (Optional)</FormLabel>
+                      <FormControl>
+                        <Textarea rows={2} {...field} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setLocation('/admin/products')}>
+                Back to Products
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? 'Saving...' : productId ? 'Save Product' : 'Create Product'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+
+        {productId ? (
+          <>
+            <ProductStockEditor
+              productId={productId}
+              onChange={(total) => {
+                form.setValue('inventoryCount', total.toString());
+                queryClient.invalidateQueries({ queryKey: ['adminProducts'] });
+              }}
+            />
+            <ProductFitmentEditor productId={productId} />
+          </>
+        ) : (
+          <p className="text-sm text-gray-500">
+            Save the product to set its stock by location and add vehicle fitment. Stock entered above goes to the main warehouse.
+          </p>
+        )}
+      </div>
+    </AdminLayout>
+  );
+};
+
+type LocationStockRow = { location: StockLocation; quantity: number; available: number };
+
+// What each stock location holds of the product; the product's stock is their total
+const ProductStockEditor = ({ productId, onChange }: { productId: number; onChange: (total: number) => void }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [edits, setEdits] = useState<Record<number, string>>({});
+  const [savingId, setSavingId] = useState<number | null>(null);
+
+  const queryKey = [`/api/admin/products/${productId}/stock`];
+  const { data: rows = [], isLoading } = useQuery<LocationStockRow[]>({ queryKey });
+
+  const handleSave = async (locationId: number) => {
+    const quantity = parseInt(edits[locationId]);
+    if (!Number.isInteger(quantity) || quantity < 0) return;
+
+    setSavingId(locationId);
+    try {
+      await apiRequest('PUT', `/api/admin/products/${productId}/stock/${locationId}`, { quantity });
+      await queryClient.invalidateQueries({ queryKey });
+      setEdits(({ [locationId]: _saved, ...rest }) => rest);
+      // Only sellable locations count towards the product's stock, so the server has the total
+      const response = await apiRequest('GET', `/api/admin/products/${productId}`);
+      const product: Product = await response.json();
+      onChange(product.inventoryCount ?? 0);
+    } catch (error) {
+      const { status, message } = parseApiError(error);
+      toast({
+        title: 'Could not update stock',
+        description: status === 400 ? message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Stock by Location</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-10 w-full" />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Location</TableHead>
+                <TableHead>Ships in</TableHead>
+                <TableHead className="text-right">Free to sell</TableHead>
+                <TableHead className="w-32">On hand</TableHead>
+                <TableHead className="w-20" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-gray-500">No stock locations yet.</TableCell>
+                </TableRow>
+              ) : rows.map(({ location, quantity, available }) => {
+                const value = edits[location.id] ?? quantity.toString();
+                return (
+                  <TableRow key={location.id} className={location.isActive ? undefined : 'text-gray-400'}>
+                    <TableCell>
+                      {location.name}
+                      {location.kind === 'supplier' && <span className="text-xs text-gray-500 ml-2">Supplier</span>}
+                    </TableCell>
+                    <TableCell>{location.shippingDaysMin}–{location.shippingDaysMax} days</TableCell>
+                    <TableCell className="text-right">{available}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={value}
+                        onChange={(e) => setEdits(current => ({ ...current, [location.id]: e.target.value }))}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={savingId !== null || value === quantity.toString()}
+                        onClick={() => handleSave(location.id)}
+                      >
+                        {savingId === location.id ? 'Saving...' : 'Save'}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+// Attaches and detaches vehicle fitment using the product fitment endpoints
+const ProductFitmentEditor = ({ productId }: { productId: number }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [vehicleModelId, setVehicleModelId] = useState('');
+  const [yearFrom, setYearFrom] = useState('');
+  const [yearTo, setYearTo] = useState('');
+  const [variant, setVariant] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: fitments = [] } = useQuery<ProductFitmentDetail[]>({
+    queryKey: ['productFitment', productId],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/products/${productId}/fitment`);
+      return response.json();
+    },
+  });
+
+  const { data: vehicleModels = [] } = useQuery<VehicleModel[]>({ queryKey: ['/api/admin/vehicle-models'] });
+
+  // Fitment points at one row per make and model; the year range does the rest
+  const vehicleOptions = useMemo(() => {
+    const seen = new Set<string>();
+    return vehicleModels
+      .filter(vehicle => {
+        const key = `${vehicle.make}|${vehicle.model}`.toLowerCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .sort((a, b) => `${a.make} ${a.model}`.localeCompare(`${b.make} ${b.model}`));
+  }, [vehicleModels]);
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['productFitment', productId] });
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await apiRequest('POST', `/api/admin/products/${productId}/fitment`, {
+        vehicleModelId: parseInt(vehicleModelId),
+        yearFrom: parseInt(yearFrom),
+        yearTo: parseInt(yearTo || yearFrom),
+        variant: variant || null,
+      });
+      setYearFrom('');
+      setYearTo('');
+      setVariant('');
+      refresh();
+    } catch (error) {
+      toast({ title: 'Could not add fitment', description: 'Check the vehicle and years and try again.', variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (fitmentId: number) => {
+    try {
+      await apiRequest('DELETE', `/api/admin/products/${productId}/fitment/${fitmentId}`);
+      refresh();
+    } catch (error) {
+      toast({ title: 'Could not remove fitment', description: 'Please try again.', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Vehicle Fitment</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Vehicle</TableHead>
+              <TableHead>Years</TableHead>
+              <TableHead>Variant</TableHead>
+              <TableHead className="w-12" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {fitments.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-gray-500">Universal - no fitment attached.</TableCell>
+              </TableRow>
+            ) : fitments.map(fitment => (
+              <TableRow key={fitment.id}>
+                <TableCell>{fitment.make} {fitment.model}</TableCell>
+                <TableCell>{fitment.yearFrom === fitment.yearTo ? fitment.yearFrom : `${fitment.yearFrom}-${fitment.yearTo}`}</TableCell>
+                <TableCell>{fitment.variant || 'All'}</TableCell>
+                <TableCell>
+                  <Button variant="ghost" size="icon" onClick={() => handleRemove(fitment.id)} aria-label="Remove fitment">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <form onSubmit={handleAdd} className="grid md:grid-cols-5 gap-3 items-end">
+          <div className="space-y-2 md:col-span-2">
+            <Label>Vehicle</Label>
+            <Select value={vehicleModelId} onValueChange={setVehicleModelId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select make and model" />
+              </SelectTrigger>
+              <SelectContent>
+                {vehicleOptions.map(vehicle => (
+                  <SelectItem key={vehicle.id} value={vehicle.id.toString()}>{vehicle.make} {vehicle.model}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="fitment-year-from">From</Label>
+            <Input id="fitment-year-from" type="number" value={yearFrom} onChange={(e) => setYearFrom(e.target.value)} required />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="fitment-year-to">To</Label>
+            <Input id="fitment-year-to" type="number" value={yearTo} onChange={(e) => setYearTo(e.target.value)} placeholder={yearFrom} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="fitment-variant">Variant</Label>
+            <Input id="fitment-variant" value={variant} onChange={(e) => setVariant(e.target.value)} placeholder="All" />
+          </div>
+          <Button type="submit" className="md:col-start-5" disabled={isSaving || !vehicleModelId || !yearFrom}>
+            {isSaving ? 'Adding...' : 'Add Fitment'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AdminProductForm;
@@ -0,0 +1,246 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Download, Pencil, Plus, Trash2, Upload } from 'lucide-react';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import ProductImportDialog from '@/components/product/product-import-dialog';
+import type { Product } from '@shared/schema';
+import AdminLayout from './admin-layout';
+
+const PAGE_SIZE = 50;
+
+interface AdminProductsResponse {
+  products: Product[];
+  total: number;
+}
+
+const AdminProducts = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState('');
+  const [offset, setOffset] = useState(0);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [productToDelete, setProductToDelete] = useState<Product | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const { data, isLoading } = useQuery<AdminProductsResponse>({
+    queryKey: ['adminProducts', search, offset],
+    queryFn: async () => {
+      const params = new URLSearchParams({ limit: PAGE_SIZE.toString(), offset: offset.toString() });
+      if (search) params.set('search', search);
+      const response = await apiRequest('GET', `/api/admin/products?${params}`);
+      return response.json();
+    },
+  });
+
+  const products = data?.products || [];
+  const total = data?.total || 0;
+  const allSelected = products.length > 0 && products.every(product => selected.includes(product.id));
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['adminProducts'] });
+
+  const toggleSelected = (id: number, checked: boolean) => {
+    setSelected(current => checked ? [...current, id] : current.filter(selectedId => selectedId !== id));
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelected(checked ? products.map(product => product.id) : []);
+  };
+
+  const setStatus = async (isActive: boolean) => {
+    try {
+      await apiRequest('PATCH', '/api/admin/products/bulk-status', { ids: selected, isActive });
+      toast({ title: `${selected.length} product(s) ${isActive ? 'activated' : 'deactivated'}` });
+      setSelected([]);
+      refresh();
+    } catch (error) {
+      toast({ title: 'Could not update products', description: 'Please try again.', variant: 'destructive' });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!productToDelete) return;
+
+    try {
+      await apiRequest('DELETE', `/api/products/${productToDelete.id}`);
+      toast({ title: 'Product deleted' });
+      setSelected(current => current.filter(id => id !== productToDelete.id));
+      refresh();
+    } catch (error) {
+      const { status } = parseApiError(error);
+      toast({
+        title: 'Could not delete product',
+        description: status === 409
+          ? 'This product has been ordered. Deactivate it instead.'
+          : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setProductToDelete(null);
+    }
+  };
+
+  return (
+    <AdminLayout
+      title="Products"
+      actions={
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <a href="/api/admin/products/export?format=csv">
+              <Download className="h-4 w-4 mr-1" /> CSV
+            </a>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <a href="/api/admin/products/export?format=json">
+              <Download className="h-4 w-4 mr-1" /> JSON
+            </a>
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setIsImporting(true)}>
+            <Upload className="h-4 w-4 mr-1" /> Import
+          </Button>
+          <Button asChild size="sm">
+            <Link href="/admin/products/new">
+              <Plus className="h-4 w-4 mr-1" /> New Product
+            </Link>
+          </Button>
+        </div>
+      }
+    >
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <Input
+          placeholder="Search by name, SKU or description"
+          value={search}
+          onChange={(e) => {
+            setSearch(e.target.value);
+            setOffset(0);
+          }}
+          className="max-w-sm"
+        />
+        <div className="flex-1" />
+        {selected.length > 0 && (
+          <>
+            <span className="text-sm text-gray-500">{selected.length} selected</span>
+            <Button variant="outline" size="sm" onClick={() => setStatus(true)}>Activate</Button>
+            <Button variant="outline" size="sm" onClick={() => setStatus(false)}>Deactivate</Button>
+          </>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">
+                <Checkbox checked={allSelected} onCheckedChange={(checked) => toggleAll(checked === true)} />
+              </TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead>SKU</TableHead>
+              <TableHead className="text-right">Price</TableHead>
+              <TableHead className="text-right">Stock</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {products.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-gray-500">No products found.</TableCell>
+              </TableRow>
+            ) : products.map((product) => (
+              <TableRow key={product.id}>
+                <TableCell>
+                  <Checkbox
+                    checked={selected.includes(product.id)}
+                    onCheckedChange={(checked) => toggleSelected(product.id, checked === true)}
+                  />
+                </TableCell>
+                <TableCell className="font-medium">{product.name}</TableCell>
+                <TableCell>{product.sku}</TableCell>
+                <TableCell className="text-right">${parseFloat(product.price).toFixed(2)}</TableCell>
+                <TableCell className="text-right">{product.inventoryCount ?? 0}</TableCell>
+                <TableCell>
+                  {product.isActive === false
+                    ? <Badge variant="outline">Inactive</Badge>
+                    : <Badge className="bg-green-600">Active</Badge>}
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="icon" asChild>
+                    <Link href={`/admin/products/${product.id}`} aria-label="Edit">
+                      <Pencil className="h-4 w-4" />
+                    </Link>
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => setProductToDelete(product)} aria-label="Delete">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-end gap-2 mt-4 text-sm">
+          <span className="text-gray-500">
+            {offset + 1}-{Math.min(offset + PAGE_SIZE, total)} of {total}
+          </span>
+          <Button variant="outline" size="sm" disabled={offset === 0} onClick={() => setOffset(offset - PAGE_SIZE)}>
+            Previous
+          </Button>
+          <Button variant="outline" size="sm" disabled={offset + PAGE_SIZE >= total} onClick={() => setOffset(offset + PAGE_SIZE)}>
+            Next
+          </Button>
+        </div>
+      )}
+
+      <ProductImportDialog open={isImporting} onOpenChange={setIsImporting} onImported={refresh} />
+
+      <AlertDialog open={!!productToDelete} onOpenChange={(open) => !open && setProductToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {productToDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This removes the product, its reviews and its fitment. Products that have been ordered can only be deactivated.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AdminLayout>
+  );
+};
+
+export default AdminProducts;
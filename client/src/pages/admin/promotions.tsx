@@ -0,0 +1,457 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Pencil, Plus } from 'lucide-react';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
+import { formatDate, formatPrice } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import type { Brand, Category, Promotion, PromotionType } from '@shared/schema';
+import AdminLayout from './admin-layout';
+
+type AdminPromotion = Promotion & { usageCount: number };
+
+const typeLabels: Record<PromotionType, string> = {
+  percent: 'Percent off',
+  fixed: 'Amount off',
+  free_shipping: 'Free shipping',
+};
+
+const optionalCount = z.string().regex(/^\d*$/, 'Whole number, or empty for no limit');
+
+const promotionFormSchema = z.object({
+  code: z.string().min(3, 'At least 3 characters').regex(/^[A-Za-z0-9_-]+$/, 'Letters, numbers, - and _ only'),
+  description: z.string().min(1, 'Customers see this next to the discount'),
+  type: z.enum(['percent', 'fixed', 'free_shipping']),
+  value: z.string(),
+  minSubtotal: z.string(),
+  productIds: z.string().regex(/^[\d,\s]*$/, 'Product IDs separated by commas'),
+  categoryIds: z.array(z.number()),
+  brandIds: z.array(z.number()),
+  usageLimit: optionalCount,
+  perCustomerLimit: optionalCount,
+  stackable: z.boolean(),
+  startsAt: z.string(),
+  endsAt: z.string(),
+  isActive: z.boolean(),
+}).refine(values => values.type === 'free_shipping' || parseFloat(values.value) > 0, {
+  message: 'Enter how much to take off',
+  path: ['value'],
+}).refine(values => values.type !== 'percent' || parseFloat(values.value) <= 100, {
+  message: "Can't be over 100%",
+  path: ['value'],
+});
+
+type PromotionFormValues = z.infer<typeof promotionFormSchema>;
+
+const emptyPromotion: PromotionFormValues = {
+  code: '',
+  description: '',
+  type: 'percent',
+  value: '',
+  minSubtotal: '',
+  productIds: '',
+  categoryIds: [],
+  brandIds: [],
+  usageLimit: '',
+  perCustomerLimit: '1',
+  stackable: false,
+  startsAt: '',
+  endsAt: '',
+  isActive: true,
+};
+
+// Dates are picked as whole days in the admin's time zone
+const toDateInput = (date: Date | string | null) => {
+  if (!date) return '';
+  const d = new Date(date);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const describeValue = (promotion: Promotion) =>
+  promotion.type === 'percent' ? `${parseFloat(promotion.value)}%`
+    : promotion.type === 'fixed' ? formatPrice(promotion.value)
+      : 'Free shipping';
+
+const AdminPromotions = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // null while closed, 'new' when creating, otherwise the promotion being edited
+  const [editing, setEditing] = useState<Promotion | 'new' | null>(null);
+
+  const { data: promotions = [], isLoading } = useQuery<AdminPromotion[]>({ queryKey: ['/api/admin/promotions'] });
+  const { data: categories = [] } = useQuery<Category[]>({ queryKey: ['/api/categories'] });
+  const { data: brands = [] } = useQuery<Brand[]>({ queryKey: ['/api/brands'] });
+
+  const form = useForm<PromotionFormValues>({
+    resolver: zodResolver(promotionFormSchema),
+    defaultValues: emptyPromotion,
+  });
+  const type = form.watch('type');
+
+  const openForm = (promotion: Promotion | 'new') => {
+    form.reset(promotion === 'new' ? emptyPromotion : {
+      code: promotion.code,
+      description: promotion.description,
+      type: promotion.type,
+      value: promotion.value,
+      minSubtotal: promotion.minSubtotal || '',
+      productIds: promotion.productIds.join(', '),
+      categoryIds: promotion.categoryIds,
+      brandIds: promotion.brandIds,
+      usageLimit: promotion.usageLimit?.toString() || '',
+      perCustomerLimit: promotion.perCustomerLimit?.toString() || '',
+      stackable: promotion.stackable,
+      startsAt: toDateInput(promotion.startsAt),
+      endsAt: toDateInput(promotion.endsAt),
+      isActive: promotion.isActive,
+    });
+    setEditing(promotion);
+  };
+
+  const onSubmit = async (values: PromotionFormValues) => {
+    const payload = {
+      code: values.code,
+      description: values.description,
+      type: values.type,
+      value: values.type === 'free_shipping' ? '0' : values.value || '0',
+      minSubtotal: values.minSubtotal || null,
+      productIds: values.productIds.split(',').map(id => parseInt(id)).filter(id => !isNaN(id)),
+      categoryIds: values.categoryIds,
+      brandIds: values.brandIds,
+      usageLimit: values.usageLimit ? parseInt(values.usageLimit) : null,
+      perCustomerLimit: values.perCustomerLimit ? parseInt(values.perCustomerLimit) : null,
+      stackable: values.stackable,
+      // The end date is the last day the code works
+      startsAt: values.startsAt ? new Date(`${values.startsAt}T00:00:00`).toISOString() : null,
+      endsAt: values.endsAt ? new Date(`${values.endsAt}T23:59:59`).toISOString() : null,
+      isActive: values.isActive,
+    };
+
+    try {
+      if (editing === 'new') {
+        await apiRequest('POST', '/api/admin/promotions', payload);
+      } else if (editing) {
+        await apiRequest('PUT', `/api/admin/promotions/${editing.id}`, payload);
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/promotions'] });
+      toast({ title: editing === 'new' ? 'Promotion created' : 'Promotion saved' });
+      setEditing(null);
+    } catch (error) {
+      const { status } = parseApiError(error);
+      toast({
+        title: 'Could not save promotion',
+        description: status === 409
+          ? 'Another promotion already uses this code.'
+          : 'Please check the form and try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const scopeLabel = (promotion: Promotion) => {
+    const parts = [
+      ...promotion.categoryIds.map(id => categories.find(category => category.id === id)?.name ?? `Category #${id}`),
+      ...promotion.brandIds.map(id => brands.find(brand => brand.id === id)?.name ?? `Brand #${id}`),
+      ...(promotion.productIds.length > 0 ? [`${promotion.productIds.length} product(s)`] : []),
+    ];
+    return parts.length > 0 ? parts.join(', ') : 'Whole cart';
+  };
+
+  const idListField = (name: 'categoryIds' | 'brandIds', label: string, options: { id: number; name: string }[]) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <div className="max-h-32 overflow-y-auto rounded border p-2 space-y-1">
+            {options.map(option => (
+              <label key={option.id} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={field.value.includes(option.id)}
+                  onCheckedChange={(checked) => field.onChange(checked === true
+                    ? [...field.value, option.id]
+                    : field.value.filter(id => id !== option.id))}
+                />
+                {option.name}
+              </label>
+            ))}
+          </div>
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <AdminLayout
+      title="Promotions"
+      actions={
+        <Button size="sm" onClick={() => openForm('new')}>
+          <Plus className="h-4 w-4 mr-1" /> New Promotion
+        </Button>
+      }
+    >
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Code</TableHead>
+              <TableHead>Discount</TableHead>
+              <TableHead>Applies to</TableHead>
+              <TableHead>Dates</TableHead>
+              <TableHead className="text-right">Used</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-16" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {promotions.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-gray-500">No promotions yet.</TableCell>
+              </TableRow>
+            ) : promotions.map(promotion => (
+              <TableRow key={promotion.id}>
+                <TableCell>
+                  <div className="font-medium">{promotion.code}</div>
+                  <div className="text-xs text-gray-500">{promotion.description}</div>
+                </TableCell>
+                <TableCell>
+                  {describeValue(promotion)}
+                  {promotion.minSubtotal && <div className="text-xs text-gray-500">Over {formatPrice(promotion.minSubtotal)}</div>}
+                </TableCell>
+                <TableCell>{scopeLabel(promotion)}</TableCell>
+                <TableCell className="text-sm">
+                  {promotion.startsAt ? formatDate(promotion.startsAt) : 'Now'} – {promotion.endsAt ? formatDate(promotion.endsAt) : 'No end'}
+                </TableCell>
+                <TableCell className="text-right">
+                  {promotion.usageCount}{promotion.usageLimit !== null && ` / ${promotion.usageLimit}`}
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    <Badge variant={promotion.isActive ? 'default' : 'secondary'}>{promotion.isActive ? 'Active' : 'Inactive'}</Badge>
+                    {promotion.stackable && <Badge variant="outline">Stackable</Badge>}
+                  </div>
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="icon" onClick={() => openForm(promotion)} aria-label="Edit">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'New Promotion' : 'Edit Promotion'}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="grid gap-4 md:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Code</FormLabel>
+                    <FormControl>
+                      <Input className="uppercase" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Input placeholder="10% off winches" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(typeLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              {type !== 'free_shipping' && (
+                <FormField
+                  control={form.control}
+                  name="value"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{type === 'percent' ? 'Percent off' : 'Amount off ($)'}</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="0.01" step="0.01" max={type === 'percent' ? 100 : undefined} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <FormField
+                control={form.control}
+                name="minSubtotal"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Minimum subtotal ($, optional)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="0.01" {...field} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="productIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Product IDs (comma separated)</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {idListField('categoryIds', 'Categories', categories)}
+              {idListField('brandIds', 'Brands', brands)}
+              <p className="text-xs text-gray-500 md:col-span-2">
+                Leave products, categories and brands empty to discount the whole cart.
+              </p>
+              <FormField
+                control={form.control}
+                name="usageLimit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Total uses (optional)</FormLabel>
+                    <FormControl>
+                      <Input inputMode="numeric" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="perCustomerLimit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Uses per customer (optional)</FormLabel>
+                    <FormControl>
+                      <Input inputMode="numeric" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="startsAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Starts (optional)</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="endsAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ends (optional)</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="stackable"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-3 space-y-0">
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                    <FormLabel>Can be combined with other codes</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="isActive"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-3 space-y-0">
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                    <FormLabel>Active</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <DialogFooter className="md:col-span-2">
+                <Button type="button" variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting ? 'Saving...' : 'Save'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </AdminLayout>
+  );
+};
+
+export default AdminPromotions;
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { formatDate, formatPrice } from '@/lib/utils';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import PurchaseOrderStatusBadge, { purchaseOrderStatusLabel } from '@/components/order/purchase-order-status-badge';
+import type { PurchaseOrderWithItems } from '@/components/order/purchase-order-card';
+import { purchaseOrderStatuses } from '@shared/schema';
+import AdminLayout from './admin-layout';
+
+const ALL = 'all';
+
+const AdminPurchaseOrders = () => {
+  // Open with the ones that didn't reach the supplier
+  const [status, setStatus] = useState('failed');
+
+  const { data: purchaseOrders = [], isLoading } = useQuery<(PurchaseOrderWithItems & { orderNumber: string | null })[]>({
+    queryKey: ['adminPurchaseOrders', status],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (status !== ALL) params.set('status', status);
+      const response = await apiRequest('GET', `/api/admin/purchase-orders?${params}`);
+      return response.json();
+    },
+  });
+
+  return (
+    <AdminLayout title="Purchase Orders">
+      <div className="grid gap-3 md:grid-cols-5 mb-4 items-end">
+        <div className="space-y-1">
+          <Label>Status</Label>
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All statuses</SelectItem>
+              {purchaseOrderStatuses.map(purchaseOrderStatus => (
+                <SelectItem key={purchaseOrderStatus} value={purchaseOrderStatus}>{purchaseOrderStatusLabel(purchaseOrderStatus)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-xs text-gray-500 md:col-span-4">
+          Paid orders are split by supplier automatically. Open the order to resend, cancel or record shipments.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>PO</TableHead>
+              <TableHead>Order</TableHead>
+              <TableHead>Supplier</TableHead>
+              <TableHead>Created</TableHead>
+              <TableHead className="text-right">Items</TableHead>
+              <TableHead className="text-right">Cost</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {purchaseOrders.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-gray-500">No purchase orders match this filter.</TableCell>
+              </TableRow>
+            ) : purchaseOrders.map(purchaseOrder => (
+              <TableRow key={purchaseOrder.id}>
+                <TableCell className="font-medium">{purchaseOrder.poNumber}</TableCell>
+                <TableCell>
+                  <Link href={`/admin/orders/${purchaseOrder.orderId}`} className="text-primary hover:underline">
+                    {purchaseOrder.orderNumber ?? `#${purchaseOrder.orderId}`}
+                  </Link>
+                </TableCell>
+                <TableCell>
+                  {purchaseOrder.supplierName}
+                  {purchaseOrder.status === 'failed' && purchaseOrder.lastError && (
+                    <div className="text-xs text-red-600">{purchaseOrder.lastError}</div>
+                  )}
+                </TableCell>
+                <TableCell>{purchaseOrder.createdAt ? formatDate(purchaseOrder.createdAt) : '-'}</TableCell>
+                <TableCell className="text-right">
+                  {purchaseOrder.items.reduce((sum, item) => sum + item.quantity, 0)}
+                </TableCell>
+                <TableCell className="text-right">{formatPrice(purchaseOrder.subtotal)}</TableCell>
+                <TableCell><PurchaseOrderStatusBadge status={purchaseOrder.status} /></TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </AdminLayout>
+  );
+};
+
+export default AdminPurchaseOrders;
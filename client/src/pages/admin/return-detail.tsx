@@ -0,0 +1,257 @@
+import { useState } from 'react';
+import { Link, useRoute } from 'wouter';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeft } from 'lucide-react';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
+import { formatPrice } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/context/auth-context';
+import ReturnStatusBadge, { returnReasonLabel } from '@/components/order/return-status-badge';
+import OrderStatusBadge from '@/components/order/order-status-badge';
+import type { ReturnDetail } from '@/components/order/order-returns';
+import { canTransitionReturn, type Order } from '@shared/schema';
+import AdminLayout from './admin-layout';
+
+interface AdminReturnDetail extends ReturnDetail {
+  order?: Order;
+  terms: { returnItemId: number; supplierName: string | null; windowDays: number; restockingFeePercent: number }[];
+}
+
+type ReturnAction = 'approve' | 'reject' | 'receive' | 'refund';
+
+const actionMessages: Record<ReturnAction, string> = {
+  approve: 'Return approved',
+  reject: 'Return rejected',
+  receive: 'Return received',
+  refund: 'Refund issued',
+};
+
+const AdminReturnDetailPage = () => {
+  const [, params] = useRoute('/admin/returns/:id');
+  const returnId = params?.id;
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [note, setNote] = useState('');
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const { data, isLoading } = useQuery<AdminReturnDetail>({
+    queryKey: ['adminReturn', returnId],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/admin/returns/${returnId}`);
+      return response.json();
+    },
+    enabled: !!returnId,
+  });
+
+  const runAction = async (action: ReturnAction) => {
+    if (action === 'reject' && !note.trim()) {
+      toast({ title: 'Add a note', description: 'The customer sees why their return was rejected.', variant: 'destructive' });
+      return;
+    }
+
+    setIsUpdating(true);
+    try {
+      await apiRequest('POST', `/api/admin/returns/${returnId}/${action}`, action === 'refund' ? {} : { note: note || undefined });
+      toast({ title: actionMessages[action] });
+      setNote('');
+      queryClient.invalidateQueries({ queryKey: ['adminReturn', returnId] });
+      queryClient.invalidateQueries({ queryKey: ['adminReturns'] });
+    } catch (error) {
+      const { status, message } = parseApiError(error);
+      toast({
+        title: 'Could not update return',
+        description: status === 403
+          ? 'Your role cannot do this.'
+          : status === 409
+            ? 'The return changed in the meantime. Reload and try again.'
+            // e.g. more than is left of the order to refund
+            : status === 400 ? message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  if (isLoading || !data) {
+    return (
+      <AdminLayout title="Return">
+        {isLoading ? <Skeleton className="h-96 w-full" /> : <p className="text-gray-500">Return not found.</p>}
+      </AdminLayout>
+    );
+  }
+
+  const { order, items, terms } = data;
+  const canSettle = !!user && (user.role === 'admin' || user.role === 'support');
+  const canReceive = !!user && (user.role === 'admin' || user.role === 'fulfillment');
+  const actions: { action: ReturnAction; label: string; allowed: boolean }[] = [
+    { action: 'approve', label: 'Approve', allowed: canSettle && canTransitionReturn(data.status, 'approved') },
+    { action: 'receive', label: 'Mark Received', allowed: canReceive && canTransitionReturn(data.status, 'received') },
+    { action: 'refund', label: `Refund ${formatPrice(data.refundAmount)}`, allowed: canSettle && canTransitionReturn(data.status, 'refunded') },
+    { action: 'reject', label: 'Reject', allowed: canSettle && canTransitionReturn(data.status, 'rejected') },
+  ];
+  const allowedActions = actions.filter(({ allowed }) => allowed);
+  const isSettled = data.status !== 'requested' && data.status !== 'rejected';
+
+  return (
+    <AdminLayout
+      title={`Return ${data.rmaNumber}`}
+      actions={
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/admin/returns">
+            <ArrowLeft className="h-4 w-4 mr-1" /> All Returns
+          </Link>
+        </Button>
+      }
+    >
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="lg:col-span-2 space-y-6">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle>Items</CardTitle>
+              <ReturnStatusBadge status={data.status} />
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead className="text-right">Qty</TableHead>
+                    <TableHead className="text-right">Price</TableHead>
+                    <TableHead className="text-right">Fee</TableHead>
+                    <TableHead className="text-right">Refund</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map(item => {
+                    const itemTerms = terms.find(candidate => candidate.returnItemId === item.id);
+                    return (
+                      <TableRow key={item.id}>
+                        <TableCell>
+                          <div className="font-medium">{item.name}</div>
+                          <div className="text-xs text-gray-500">
+                            {itemTerms?.supplierName || 'Store policy'}
+                            {itemTerms && ` · ${itemTerms.windowDays} days, ${itemTerms.restockingFeePercent}% fee`}
+                          </div>
+                        </TableCell>
+                        <TableCell>{returnReasonLabel(item.reason)}</TableCell>
+                        <TableCell className="text-right">{item.quantity}</TableCell>
+                        <TableCell className="text-right">{formatPrice(item.price)}</TableCell>
+                        <TableCell className="text-right">
+                          {isSettled ? `${formatPrice(item.restockingFee)} (${item.restockingFeePercent}%)` : '-'}
+                        </TableCell>
+                        <TableCell className="text-right">{isSettled ? formatPrice(item.refundAmount) : '-'}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+              {isSettled && (
+                <div className="mt-4 ml-auto max-w-xs space-y-1 text-sm">
+                  <div className="flex justify-between"><span>Restocking fees</span><span>{formatPrice(data.restockingFee)}</span></div>
+                  <div className="flex justify-between font-semibold border-t pt-1"><span>Refund</span><span>{formatPrice(data.refundAmount)}</span></div>
+                  <p className="text-xs text-gray-500">Includes each item's share of tax. Shipping isn't refunded.</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Notes</CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm space-y-2">
+              <div>
+                <div className="text-gray-500">From the customer</div>
+                <div>{data.customerNote || '-'}</div>
+              </div>
+              <div>
+                <div className="text-gray-500">From staff (shown to the customer)</div>
+                <div>{data.staffNote || '-'}</div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Actions</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {allowedActions.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  {data.status === 'refunded' || data.status === 'rejected' ? 'This return is closed.' : 'Nothing for your role to do here.'}
+                </p>
+              ) : (
+                <>
+                  {allowedActions.some(({ action }) => action !== 'refund') && (
+                    <Textarea
+                      placeholder="Note for the customer (required to reject)"
+                      rows={2}
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                    />
+                  )}
+                  {allowedActions.map(({ action, label }) => (
+                    <Button
+                      key={action}
+                      className="w-full"
+                      variant={action === 'reject' ? 'destructive' : 'default'}
+                      disabled={isUpdating}
+                      onClick={() => runAction(action)}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          {order && (
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle>Order</CardTitle>
+                <OrderStatusBadge status={order.status} />
+              </CardHeader>
+              <CardContent className="text-sm space-y-1">
+                <Link href={`/admin/orders/${order.id}`} className="text-primary hover:underline font-medium">
+                  {order.orderNumber}
+                </Link>
+                <div className="flex justify-between"><span>Total</span><span>{formatPrice(order.total)}</span></div>
+                <div className="flex justify-between"><span>Payment</span><span className="capitalize">{order.paymentStatus.replace('_', ' ')}</span></div>
+                <div className="text-gray-500">{order.email}</div>
+              </CardContent>
+            </Card>
+          )}
+
+          {data.refundId && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Refund</CardTitle>
+              </CardHeader>
+              <CardContent className="text-xs text-gray-500 break-all">{data.refundId}</CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default AdminReturnDetailPage;
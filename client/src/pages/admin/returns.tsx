@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { formatDate, formatPrice } from '@/lib/utils';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import ReturnStatusBadge, { returnStatusLabel } from '@/components/order/return-status-badge';
+import type { ReturnDetail } from '@/components/order/order-returns';
+import { returnStatuses } from '@shared/schema';
+import AdminLayout from './admin-layout';
+
+const ALL = 'all';
+
+const AdminReturns = () => {
+  // Open with the queue that needs a decision
+  const [status, setStatus] = useState('requested');
+
+  const { data: returns = [], isLoading } = useQuery<ReturnDetail[]>({
+    queryKey: ['adminReturns', status],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (status !== ALL) params.set('status', status);
+      const response = await apiRequest('GET', `/api/admin/returns?${params}`);
+      return response.json();
+    },
+  });
+
+  return (
+    <AdminLayout title="Returns">
+      <div className="grid gap-3 md:grid-cols-5 mb-4 items-end">
+        <div className="space-y-1">
+          <Label>Status</Label>
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All statuses</SelectItem>
+              {returnStatuses.map(returnStatus => (
+                <SelectItem key={returnStatus} value={returnStatus}>{returnStatusLabel(returnStatus)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>RMA</TableHead>
+              <TableHead>Order</TableHead>
+              <TableHead>Requested</TableHead>
+              <TableHead className="text-right">Items</TableHead>
+              <TableHead className="text-right">Refund</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {returns.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-gray-500">No returns match this filter.</TableCell>
+              </TableRow>
+            ) : returns.map(returnRequest => (
+              <TableRow key={returnRequest.id}>
+                <TableCell className="font-medium">
+                  <Link href={`/admin/returns/${returnRequest.id}`} className="text-primary hover:underline">
+                    {returnRequest.rmaNumber}
+                  </Link>
+                </TableCell>
+                <TableCell>
+                  <Link href={`/admin/orders/${returnRequest.orderId}`} className="hover:underline">
+                    {returnRequest.orderNumber}
+                  </Link>
+                </TableCell>
+                <TableCell>{returnRequest.createdAt ? formatDate(returnRequest.createdAt) : '-'}</TableCell>
+                <TableCell className="text-right">
+                  {returnRequest.items.reduce((sum, item) => sum + item.quantity, 0)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {returnRequest.status === 'requested' || returnRequest.status === 'rejected' ? '-' : formatPrice(returnRequest.refundAmount)}
+                </TableCell>
+                <TableCell><ReturnStatusBadge status={returnRequest.status} /></TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </AdminLayout>
+  );
+};
+
+export default AdminReturns;
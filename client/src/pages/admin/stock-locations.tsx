@@ -0,0 +1,299 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Pencil, Plus } from 'lucide-react';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { stockLocationKinds, type StockLocation, type StockLocationKind, type Supplier } from '@shared/schema';
+import AdminLayout from './admin-layout';
+
+type AdminStockLocation = StockLocation & { productCount: number; unitCount: number };
+
+const kindLabels: Record<StockLocationKind, string> = {
+  warehouse: 'Our warehouse',
+  supplier: 'Supplier',
+};
+
+const days = z.coerce.number().int('Whole number').min(0).max(90);
+
+const locationFormSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  kind: z.enum(stockLocationKinds),
+  supplierId: z.string(),
+  shippingDaysMin: days,
+  shippingDaysMax: days,
+  isActive: z.boolean(),
+}).refine(values => values.kind === 'warehouse' || values.supplierId !== '', {
+  message: 'Choose the supplier',
+  path: ['supplierId'],
+}).refine(values => values.shippingDaysMin <= values.shippingDaysMax, {
+  message: "Can't be shorter than the fastest",
+  path: ['shippingDaysMax'],
+});
+
+type LocationFormValues = z.infer<typeof locationFormSchema>;
+
+const emptyLocation: LocationFormValues = {
+  name: '',
+  kind: 'warehouse',
+  supplierId: '',
+  shippingDaysMin: 1,
+  shippingDaysMax: 2,
+  isActive: true,
+};
+
+const formatDays = (location: StockLocation) =>
+  location.shippingDaysMin === location.shippingDaysMax
+    ? `${location.shippingDaysMin} days`
+    : `${location.shippingDaysMin}–${location.shippingDaysMax} days`;
+
+const AdminStockLocations = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // null while closed, 'new' when creating, otherwise the location being edited
+  const [editing, setEditing] = useState<StockLocation | 'new' | null>(null);
+
+  const { data: locations = [], isLoading } = useQuery<AdminStockLocation[]>({ queryKey: ['/api/admin/stock-locations'] });
+  const { data: suppliers = [] } = useQuery<Supplier[]>({ queryKey: ['/api/admin/suppliers'] });
+
+  const form = useForm<LocationFormValues>({
+    resolver: zodResolver(locationFormSchema),
+    defaultValues: emptyLocation,
+  });
+  const kind = form.watch('kind');
+
+  // A supplier only has the one location
+  const unlocatedSuppliers = suppliers.filter(supplier => !locations.some(location => location.supplierId === supplier.id));
+
+  const openForm = (location: StockLocation | 'new') => {
+    form.reset(location === 'new' ? emptyLocation : {
+      name: location.name,
+      kind: location.kind,
+      supplierId: location.supplierId?.toString() ?? '',
+      shippingDaysMin: location.shippingDaysMin,
+      shippingDaysMax: location.shippingDaysMax,
+      isActive: location.isActive,
+    });
+    setEditing(location);
+  };
+
+  const onSubmit = async (values: LocationFormValues) => {
+    const payload = {
+      ...values,
+      supplierId: values.kind === 'supplier' ? parseInt(values.supplierId) : null,
+    };
+
+    try {
+      if (editing === 'new') {
+        await apiRequest('POST', '/api/admin/stock-locations', payload);
+      } else if (editing) {
+        await apiRequest('PUT', `/api/admin/stock-locations/${editing.id}`, payload);
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/stock-locations'] });
+      // Deactivating a location takes its stock off sale
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/products'] });
+      toast({ title: editing === 'new' ? 'Stock location created' : 'Stock location saved' });
+      setEditing(null);
+    } catch (error) {
+      const { status } = parseApiError(error);
+      toast({
+        title: 'Could not save stock location',
+        description: status === 409
+          ? 'This supplier already has a stock location.'
+          : 'Please check the form and try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const daysField = (name: 'shippingDaysMin' | 'shippingDaysMax', label: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input type="number" min="0" max="90" step="1" {...field} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <AdminLayout
+      title="Stock Locations"
+      actions={
+        <Button size="sm" onClick={() => openForm('new')}>
+          <Plus className="h-4 w-4 mr-1" /> New Location
+        </Button>
+      }
+    >
+      <p className="text-sm text-gray-500 mb-4">
+        Orders ship from our warehouses first, then from the supplier that can ship soonest. A supplier's stock
+        is only sold while it is active and dropships.
+      </p>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Location</TableHead>
+              <TableHead>Kind</TableHead>
+              <TableHead>Ships in</TableHead>
+              <TableHead className="text-right">Products</TableHead>
+              <TableHead className="text-right">Units</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-16" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {locations.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-gray-500">No stock locations yet.</TableCell>
+              </TableRow>
+            ) : locations.map(location => (
+              <TableRow key={location.id}>
+                <TableCell className="font-medium">{location.name}</TableCell>
+                <TableCell>{kindLabels[location.kind]}</TableCell>
+                <TableCell>{formatDays(location)}</TableCell>
+                <TableCell className="text-right">{location.productCount}</TableCell>
+                <TableCell className="text-right">{location.unitCount}</TableCell>
+                <TableCell>
+                  <Badge variant={location.isActive ? 'default' : 'secondary'}>{location.isActive ? 'Active' : 'Inactive'}</Badge>
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="icon" onClick={() => openForm(location)} aria-label="Edit">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'New Stock Location' : 'Edit Stock Location'}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {/* What a location is can't change once it holds stock */}
+              <div className="grid gap-4 md:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="kind"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Kind</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange} disabled={editing !== 'new'}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {stockLocationKinds.map(locationKind => (
+                            <SelectItem key={locationKind} value={locationKind}>{kindLabels[locationKind]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+                {kind === 'supplier' && (
+                  <FormField
+                    control={form.control}
+                    name="supplierId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Supplier</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange} disabled={editing !== 'new'}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Choose a supplier" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {(editing === 'new' ? unlocatedSuppliers : suppliers).map(supplier => (
+                              <SelectItem key={supplier.id} value={supplier.id.toString()}>{supplier.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+              <div className="grid gap-4 md:grid-cols-2">
+                {daysField('shippingDaysMin', 'Ships in at least (days)')}
+                {daysField('shippingDaysMax', 'Ships in at most (days)')}
+              </div>
+              <FormField
+                control={form.control}
+                name="isActive"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-3 space-y-0">
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                    <FormLabel>Active</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting ? 'Saving...' : 'Save'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </AdminLayout>
+  );
+};
+
+export default AdminStockLocations;
@@ -0,0 +1,564 @@
+import { useRef, useState } from 'react';
+import { Link, useLocation } from 'wouter';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Pencil, Plus, Trash2, Upload } from 'lucide-react';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
+import { formatDate } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import FeedImportStatusBadge, { feedChangeKindLabel } from '@/components/feeds/feed-import-status-badge';
+import {
+  feedChangeKinds,
+  feedFormats,
+  type FeedField,
+  type FeedFormat,
+  type FeedImport,
+  type Supplier,
+  type SupplierFeedProfile,
+} from '@shared/schema';
+import AdminLayout from './admin-layout';
+
+const fieldLabels: Record<FeedField, string> = {
+  supplierSku: 'Supplier SKU',
+  name: 'Name',
+  description: 'Description',
+  cost: 'Our cost',
+  price: 'Retail price',
+  stock: 'Stock level',
+  discontinued: 'Discontinued flag',
+};
+
+const formatLabels: Record<FeedFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (XLSX)',
+  json: 'JSON',
+};
+
+const profileFormSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  format: z.enum(feedFormats),
+  supplierSku: z.string().trim().min(1, 'The column with the supplier SKU is required'),
+  productName: z.string(),
+  description: z.string(),
+  cost: z.string(),
+  price: z.string(),
+  stock: z.string(),
+  discontinued: z.string(),
+  delimiter: z.string().length(1, 'One character, e.g. , or ;'),
+  sheet: z.string(),
+  recordsPath: z.string(),
+  discontinueMissing: z.boolean(),
+});
+
+type ProfileFormValues = z.infer<typeof profileFormSchema>;
+
+const emptyProfile: ProfileFormValues = {
+  name: '',
+  format: 'csv',
+  supplierSku: '',
+  productName: '',
+  description: '',
+  cost: '',
+  price: '',
+  stock: '',
+  discontinued: '',
+  delimiter: ',',
+  sheet: '',
+  recordsPath: '',
+  discontinueMissing: true,
+};
+
+// The form calls the name column productName so it doesn't clash with the profile's name
+const mappedColumnFields: { formName: Exclude<keyof ProfileFormValues, 'name' | 'format' | 'delimiter' | 'sheet' | 'recordsPath' | 'discontinueMissing'>; field: FeedField }[] = [
+  { formName: 'supplierSku', field: 'supplierSku' },
+  { formName: 'productName', field: 'name' },
+  { formName: 'description', field: 'description' },
+  { formName: 'cost', field: 'cost' },
+  { formName: 'price', field: 'price' },
+  { formName: 'stock', field: 'stock' },
+  { formName: 'discontinued', field: 'discontinued' },
+];
+
+type AdminFeedImport = FeedImport & { supplierName: string | null };
+
+const summarize = (feedImport: FeedImport) => {
+  const parts = feedChangeKinds
+    .filter(kind => feedImport.summary[kind])
+    .map(kind => `${feedImport.summary[kind]} ${feedChangeKindLabel(kind).toLowerCase()}`);
+  return parts.length > 0 ? parts.join(', ') : 'No changes';
+};
+
+const AdminSupplierFeeds = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+  const [supplierId, setSupplierId] = useState<string>('');
+  // null while closed, 'new' when creating, otherwise the profile being edited
+  const [editing, setEditing] = useState<SupplierFeedProfile | 'new' | null>(null);
+  const [profileToDelete, setProfileToDelete] = useState<SupplierFeedProfile | null>(null);
+  const [uploadingTo, setUploadingTo] = useState<SupplierFeedProfile | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const { data: suppliers = [], isLoading: isLoadingSuppliers } = useQuery<Supplier[]>({ queryKey: ['/api/admin/suppliers'] });
+  const selectedId = supplierId || suppliers[0]?.id.toString() || '';
+
+  const profilesKey = [`/api/admin/suppliers/${selectedId}/feed-profiles`];
+  const { data: profiles = [], isLoading: isLoadingProfiles } = useQuery<SupplierFeedProfile[]>({
+    queryKey: profilesKey,
+    enabled: !!selectedId,
+  });
+
+  const { data: feedImports = [], isLoading: isLoadingImports } = useQuery<AdminFeedImport[]>({
+    queryKey: ['adminFeedImports', selectedId],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/admin/feed-imports?supplierId=${selectedId}`);
+      return response.json();
+    },
+    enabled: !!selectedId,
+  });
+
+  const form = useForm<ProfileFormValues>({
+    resolver: zodResolver(profileFormSchema),
+    defaultValues: emptyProfile,
+  });
+  const format = form.watch('format');
+
+  const openForm = (profile: SupplierFeedProfile | 'new') => {
+    form.reset(profile === 'new' ? emptyProfile : {
+      name: profile.name,
+      format: profile.format,
+      supplierSku: profile.columnMapping.supplierSku,
+      productName: profile.columnMapping.name || '',
+      description: profile.columnMapping.description || '',
+      cost: profile.columnMapping.cost || '',
+      price: profile.columnMapping.price || '',
+      stock: profile.columnMapping.stock || '',
+      discontinued: profile.columnMapping.discontinued || '',
+      delimiter: profile.delimiter,
+      sheet: profile.sheet || '',
+      recordsPath: profile.recordsPath || '',
+      discontinueMissing: profile.discontinueMissing,
+    });
+    setEditing(profile);
+  };
+
+  const onSubmit = async (values: ProfileFormValues) => {
+    const columnMapping: Partial<Record<FeedField, string>> = {};
+    for (const { formName, field } of mappedColumnFields) {
+      if (values[formName].trim()) columnMapping[field] = values[formName].trim();
+    }
+    const payload = {
+      name: values.name,
+      format: values.format,
+      columnMapping,
+      delimiter: values.delimiter,
+      sheet: values.format === 'xlsx' && values.sheet.trim() ? values.sheet.trim() : null,
+      recordsPath: values.format === 'json' && values.recordsPath.trim() ? values.recordsPath.trim() : null,
+      discontinueMissing: values.discontinueMissing,
+    };
+
+    try {
+      if (editing === 'new') {
+        await apiRequest('POST', `/api/admin/suppliers/${selectedId}/feed-profiles`, payload);
+      } else if (editing) {
+        await apiRequest('PUT', `/api/admin/feed-profiles/${editing.id}`, payload);
+      }
+      queryClient.invalidateQueries({ queryKey: profilesKey });
+      toast({ title: editing === 'new' ? 'Feed profile created' : 'Feed profile saved' });
+      setEditing(null);
+    } catch (error) {
+      const { status } = parseApiError(error);
+      toast({
+        title: 'Could not save feed profile',
+        description: status === 409
+          ? 'This supplier already has a profile with this name.'
+          : 'Please check the form and try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!profileToDelete) return;
+
+    try {
+      await apiRequest('DELETE', `/api/admin/feed-profiles/${profileToDelete.id}`);
+      queryClient.invalidateQueries({ queryKey: profilesKey });
+      toast({ title: 'Feed profile deleted' });
+    } catch {
+      toast({ title: 'Could not delete feed profile', description: 'Please try again.', variant: 'destructive' });
+    } finally {
+      setProfileToDelete(null);
+    }
+  };
+
+  const chooseFile = (profile: SupplierFeedProfile) => {
+    setUploadingTo(profile);
+    fileInput.current?.click();
+  };
+
+  // The file goes up as it is, rather than as JSON, so large feeds aren't inflated
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !uploadingTo) return;
+
+    setIsUploading(true);
+    try {
+      const response = await fetch(
+        `/api/admin/feed-profiles/${uploadingTo.id}/imports?filename=${encodeURIComponent(file.name)}`,
+        { method: 'POST', headers: { 'Content-Type': 'application/octet-stream' }, body: file, credentials: 'include' }
+      );
+      if (!response.ok) throw new Error(`${response.status}: ${await response.text()}`);
+      const feedImport: FeedImport = await response.json();
+
+      queryClient.invalidateQueries({ queryKey: ['adminFeedImports'] });
+      if (feedImport.status === 'failed') {
+        toast({ title: 'Could not read the feed', description: feedImport.error ?? undefined, variant: 'destructive' });
+      } else {
+        setLocation(`/admin/feed-imports/${feedImport.id}`);
+      }
+    } catch (error) {
+      const { status } = parseApiError(error);
+      toast({
+        title: 'Could not upload the feed',
+        description: status === 413 ? 'The file is too large.' : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUploading(false);
+      setUploadingTo(null);
+    }
+  };
+
+  const columnField = (formName: typeof mappedColumnFields[number]['formName'], field: FeedField) => (
+    <FormField
+      key={formName}
+      control={form.control}
+      name={formName}
+      render={({ field: input }) => (
+        <FormItem>
+          <FormLabel>{fieldLabels[field]}{field !== 'supplierSku' && ' (Optional)'}</FormLabel>
+          <FormControl>
+            <Input placeholder={format === 'json' ? 'key or path.to.key' : 'Column heading'} {...input} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <AdminLayout
+      title="Supplier Feeds"
+      actions={
+        <Button size="sm" onClick={() => openForm('new')} disabled={!selectedId}>
+          <Plus className="h-4 w-4 mr-1" /> New Feed Profile
+        </Button>
+      }
+    >
+      <div className="grid gap-3 md:grid-cols-4 mb-4 items-end">
+        <div className="space-y-1">
+          <Label>Supplier</Label>
+          <Select value={selectedId} onValueChange={setSupplierId} disabled={isLoadingSuppliers}>
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a supplier" />
+            </SelectTrigger>
+            <SelectContent>
+              {suppliers.map(supplier => (
+                <SelectItem key={supplier.id} value={supplier.id.toString()}>{supplier.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-xs text-gray-500 md:col-span-3">
+          Importing a feed only prepares a change set; nothing in the catalog changes until you review and apply it.
+        </p>
+      </div>
+
+      {!isLoadingSuppliers && suppliers.length === 0 ? (
+        <p className="text-gray-500">
+          Add a supplier on the <Link href="/admin/suppliers" className="underline">Suppliers</Link> page first.
+        </p>
+      ) : (
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Feed Profiles</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoadingProfiles ? (
+                <Skeleton className="h-10 w-full" />
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Profile</TableHead>
+                      <TableHead>Format</TableHead>
+                      <TableHead>Columns</TableHead>
+                      <TableHead className="w-40" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {profiles.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center text-gray-500">
+                          No feed profiles yet. Add one to say how this supplier's feed is laid out.
+                        </TableCell>
+                      </TableRow>
+                    ) : profiles.map(profile => (
+                      <TableRow key={profile.id}>
+                        <TableCell className="font-medium">
+                          {profile.name}
+                          {profile.discontinueMissing && <div className="text-xs text-gray-500">Full catalog</div>}
+                        </TableCell>
+                        <TableCell>{formatLabels[profile.format]}</TableCell>
+                        <TableCell className="text-sm text-gray-600">
+                          {Object.entries(profile.columnMapping)
+                            .map(([field, column]) => `${fieldLabels[field as FeedField]}: ${column}`)
+                            .join(' · ')}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button variant="outline" size="sm" onClick={() => chooseFile(profile)} disabled={isUploading}>
+                            <Upload className="h-4 w-4 mr-1" />
+                            {isUploading && uploadingTo?.id === profile.id ? 'Importing...' : 'Import'}
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => openForm(profile)} aria-label="Edit">
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => setProfileToDelete(profile)} aria-label="Delete">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+              <input ref={fileInput} type="file" accept=".csv,.txt,.xlsx,.json" className="hidden" onChange={handleFile} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Import History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoadingImports ? (
+                <Skeleton className="h-10 w-full" />
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Imported</TableHead>
+                      <TableHead>File</TableHead>
+                      <TableHead className="text-right">Rows</TableHead>
+                      <TableHead>Changes</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {feedImports.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center text-gray-500">No feeds imported yet.</TableCell>
+                      </TableRow>
+                    ) : feedImports.map(feedImport => (
+                      <TableRow key={feedImport.id}>
+                        <TableCell>
+                          <Link href={`/admin/feed-imports/${feedImport.id}`} className="font-medium hover:underline">
+                            {feedImport.createdAt ? formatDate(feedImport.createdAt) : `#${feedImport.id}`}
+                          </Link>
+                        </TableCell>
+                        <TableCell className="text-sm">{feedImport.filename}</TableCell>
+                        <TableCell className="text-right">{feedImport.rowCount}</TableCell>
+                        <TableCell className="text-sm">
+                          {feedImport.status === 'failed' ? (
+                            <span className="text-red-600">{feedImport.error}</span>
+                          ) : (
+                            <>
+                              {summarize(feedImport)}
+                              {feedImport.rowErrors.length > 0 && (
+                                <div className="text-xs text-red-600">{feedImport.rowErrors.length} rows with errors</div>
+                              )}
+                            </>
+                          )}
+                        </TableCell>
+                        <TableCell><FeedImportStatusBadge status={feedImport.status} /></TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'New Feed Profile' : 'Edit Feed Profile'}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Weekly price list" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="format"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Format</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {feedFormats.map(feedFormat => (
+                            <SelectItem key={feedFormat} value={feedFormat}>{formatLabels[feedFormat]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {format === 'csv' && (
+                <FormField
+                  control={form.control}
+                  name="delimiter"
+                  render={({ field }) => (
+                    <FormItem className="max-w-[12rem]">
+                      <FormLabel>Delimiter</FormLabel>
+                      <FormControl>
+                        <Input maxLength={1} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              {format === 'xlsx' && (
+                <FormField
+                  control={form.control}
+                  name="sheet"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Sheet (Optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="The first sheet" {...field} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              )}
+              {format === 'json' && (
+                <FormField
+                  control={form.control}
+                  name="recordsPath"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Products at (Optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. data.products" {...field} />
+                      </FormControl>
+                      <FormDescription>Where the list of products is in the file, if it isn't the whole file.</FormDescription>
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <div>
+                <p className="text-sm font-medium mb-2">Columns</p>
+                <div className="grid gap-4 md:grid-cols-2">
+                  {mappedColumnFields.map(({ formName, field }) => columnField(formName, field))}
+                </div>
+              </div>
+
+              <FormField
+                control={form.control}
+                name="discontinueMissing"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-3 space-y-0">
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                    <FormLabel>The feed lists the supplier's whole catalog; treat missing products as discontinued</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting ? 'Saving...' : 'Save'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!profileToDelete} onOpenChange={(open) => !open && setProfileToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {profileToDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Past imports made with it stay in the history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AdminLayout>
+  );
+};
+
+export default AdminSupplierFeeds;
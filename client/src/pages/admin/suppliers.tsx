@@ -0,0 +1,673 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Package, Pencil, Plus, Trash2 } from 'lucide-react';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
+import { formatPrice } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import type { ProductMargin, Supplier, SupplierProduct } from '@shared/schema';
+import AdminLayout from './admin-layout';
+
+type AdminSupplier = Supplier & { productCount: number };
+
+type AdminSupplierProduct = SupplierProduct & {
+  product: { id: number; name: string; sku: string; price: string; isActive: boolean } | undefined;
+  marginPercent: number | null;
+  belowMinimum: boolean;
+};
+
+const amount = z.string().regex(/^\d+(\.\d{1,2})?$/, 'An amount like 100 or 99.50');
+
+const supplierFormSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  website: z.string(),
+  contactEmail: z.string().email('Enter a valid email').or(z.literal('')),
+  contactPhone: z.string(),
+  address: z.string(),
+  minimumOrder: amount,
+  returnWindowDays: z.coerce.number().int('Whole number').min(0).max(365),
+  restockingFeePercent: z.coerce.number().int('Whole number').min(0).max(100),
+  paymentTerms: z.string(),
+  notes: z.string(),
+  dropshipping: z.boolean(),
+  apiAvailable: z.boolean(),
+  isActive: z.boolean(),
+});
+
+type SupplierFormValues = z.infer<typeof supplierFormSchema>;
+
+const emptySupplier: SupplierFormValues = {
+  name: '',
+  website: '',
+  contactEmail: '',
+  contactPhone: '',
+  address: '',
+  minimumOrder: '0',
+  returnWindowDays: 30,
+  restockingFeePercent: 0,
+  paymentTerms: '',
+  notes: '',
+  dropshipping: true,
+  apiAvailable: false,
+  isActive: true,
+};
+
+const supplierProductFormSchema = z.object({
+  productId: z.string().regex(/^\d+$/, 'The store product ID'),
+  supplierSku: z.string().trim().min(1, "The supplier's part number"),
+  cost: amount,
+  minimumOrderQuantity: z.coerce.number().int('Whole number').min(1, 'At least 1'),
+  leadTimeDays: z.coerce.number().int('Whole number').min(0).max(365),
+  isPreferred: z.boolean(),
+});
+
+type SupplierProductFormValues = z.infer<typeof supplierProductFormSchema>;
+
+const emptySupplierProduct: SupplierProductFormValues = {
+  productId: '',
+  supplierSku: '',
+  cost: '',
+  minimumOrderQuantity: 1,
+  leadTimeDays: 0,
+  isPreferred: false,
+};
+
+const formatMargin = (margin: number | null) => margin === null ? '—' : `${margin.toFixed(1)}%`;
+
+// The products a supplier sells us, with what each costs and the margin that leaves
+const SupplierProductsDialog = ({ supplier, onClose }: { supplier: Supplier; onClose: () => void }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // null while no form is shown, 'new' when adding, otherwise the product being edited
+  const [editing, setEditing] = useState<SupplierProduct | 'new' | null>(null);
+
+  const queryKey = [`/api/admin/suppliers/${supplier.id}/products`];
+  const { data: links = [], isLoading } = useQuery<AdminSupplierProduct[]>({ queryKey });
+
+  const form = useForm<SupplierProductFormValues>({
+    resolver: zodResolver(supplierProductFormSchema),
+    defaultValues: emptySupplierProduct,
+  });
+
+  const openForm = (link: SupplierProduct | 'new') => {
+    form.reset(link === 'new' ? emptySupplierProduct : {
+      productId: link.productId.toString(),
+      supplierSku: link.supplierSku,
+      cost: link.cost,
+      minimumOrderQuantity: link.minimumOrderQuantity,
+      leadTimeDays: link.leadTimeDays,
+      isPreferred: link.isPreferred,
+    });
+    setEditing(link);
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/suppliers'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/margins'] });
+  };
+
+  // The server answers with the product's margin after the change
+  const warnIfBelowMinimum = (margin: ProductMargin | undefined) => {
+    if (!margin?.belowMinimum) return;
+    toast({
+      title: `${margin.name} is below the minimum margin`,
+      description: `It now makes ${formatMargin(margin.marginPercent)} at ${formatPrice(margin.cost ?? '0')} from ${margin.supplierName}.`,
+      variant: 'destructive',
+    });
+  };
+
+  const onSubmit = async (values: SupplierProductFormValues) => {
+    const payload = {
+      supplierSku: values.supplierSku,
+      cost: values.cost,
+      minimumOrderQuantity: values.minimumOrderQuantity,
+      leadTimeDays: values.leadTimeDays,
+      isPreferred: values.isPreferred,
+    };
+
+    try {
+      const response = editing === 'new'
+        ? await apiRequest('POST', `/api/admin/suppliers/${supplier.id}/products`, { ...payload, productId: parseInt(values.productId) })
+        : await apiRequest('PUT', `/api/admin/supplier-products/${(editing as SupplierProduct).id}`, payload);
+      const { margin } = await response.json();
+      refresh();
+      toast({ title: editing === 'new' ? 'Product added' : 'Product saved' });
+      warnIfBelowMinimum(margin);
+      setEditing(null);
+    } catch (error) {
+      const { status } = parseApiError(error);
+      toast({
+        title: 'Could not save product',
+        description: status === 409
+          ? 'This supplier already has a cost for that product.'
+          : status === 400
+            ? 'Check the product ID and the figures.'
+            : 'Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (link: SupplierProduct) => {
+    try {
+      const response = await apiRequest('DELETE', `/api/admin/supplier-products/${link.id}`);
+      const { margin } = await response.json();
+      refresh();
+      toast({ title: 'Product removed' });
+      warnIfBelowMinimum(margin);
+    } catch {
+      toast({ title: 'Could not remove product', description: 'Please try again.', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{supplier.name} Products</DialogTitle>
+        </DialogHeader>
+
+        {editing === null ? (
+          <>
+            {isLoading ? (
+              <Skeleton className="h-10 w-full" />
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Supplier SKU</TableHead>
+                    <TableHead className="text-right">Cost</TableHead>
+                    <TableHead className="text-right">Margin</TableHead>
+                    <TableHead className="text-right">MOQ</TableHead>
+                    <TableHead className="text-right">Lead time</TableHead>
+                    <TableHead className="w-24" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {links.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center text-gray-500">No products from this supplier yet.</TableCell>
+                    </TableRow>
+                  ) : links.map(link => (
+                    <TableRow key={link.id}>
+                      <TableCell className="font-medium">
+                        <Link href={`/admin/products/${link.productId}`} className="hover:underline">
+                          {link.product?.name ?? `Product #${link.productId}`}
+                        </Link>
+                        {link.isPreferred && <Badge variant="outline" className="ml-2">Preferred</Badge>}
+                      </TableCell>
+                      <TableCell>{link.supplierSku}</TableCell>
+                      <TableCell className="text-right">{formatPrice(link.cost)}</TableCell>
+                      <TableCell className={`text-right ${link.belowMinimum ? 'text-red-600 font-medium' : ''}`}>
+                        {formatMargin(link.marginPercent)}
+                      </TableCell>
+                      <TableCell className="text-right">{link.minimumOrderQuantity}</TableCell>
+                      <TableCell className="text-right">{link.leadTimeDays} days</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="icon" onClick={() => openForm(link)} aria-label="Edit">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => handleDelete(link)} aria-label="Remove">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>Close</Button>
+              <Button type="button" onClick={() => openForm('new')}>
+                <Plus className="h-4 w-4 mr-1" /> Add Product
+              </Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="productId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Product ID</FormLabel>
+                      <FormControl>
+                        <Input inputMode="numeric" disabled={editing !== 'new'} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="supplierSku"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Supplier SKU</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="cost"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Cost ($)</FormLabel>
+                      <FormControl>
+                        <Input inputMode="decimal" placeholder="0.00" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="minimumOrderQuantity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Minimum order quantity</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="1" step="1" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="leadTimeDays"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Lead time (days)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="0" max="365" step="1" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="isPreferred"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-3 space-y-0">
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                    <FormLabel>Preferred supplier for this product</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setEditing(null)}>Back</Button>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting ? 'Saving...' : 'Save'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const AdminSuppliers = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // null while closed, 'new' when creating, otherwise the supplier being edited
+  const [editing, setEditing] = useState<Supplier | 'new' | null>(null);
+  const [productsOf, setProductsOf] = useState<Supplier | null>(null);
+  const [supplierToDelete, setSupplierToDelete] = useState<AdminSupplier | null>(null);
+
+  const { data: suppliers = [], isLoading } = useQuery<AdminSupplier[]>({ queryKey: ['/api/admin/suppliers'] });
+
+  const form = useForm<SupplierFormValues>({
+    resolver: zodResolver(supplierFormSchema),
+    defaultValues: emptySupplier,
+  });
+
+  const openForm = (supplier: Supplier | 'new') => {
+    form.reset(supplier === 'new' ? emptySupplier : {
+      name: supplier.name,
+      website: supplier.website || '',
+      contactEmail: supplier.contactEmail || '',
+      contactPhone: supplier.contactPhone || '',
+      address: supplier.address || '',
+      minimumOrder: supplier.minimumOrder,
+      returnWindowDays: supplier.returnWindowDays,
+      restockingFeePercent: supplier.restockingFeePercent,
+      paymentTerms: supplier.paymentTerms || '',
+      notes: supplier.notes || '',
+      dropshipping: supplier.dropshipping,
+      apiAvailable: supplier.apiAvailable,
+      isActive: supplier.isActive,
+    });
+    setEditing(supplier);
+  };
+
+  const onSubmit = async (values: SupplierFormValues) => {
+    const payload = {
+      ...values,
+      website: values.website || null,
+      contactEmail: values.contactEmail || null,
+      contactPhone: values.contactPhone || null,
+      address: values.address || null,
+      paymentTerms: values.paymentTerms || null,
+      notes: values.notes || null,
+    };
+
+    try {
+      if (editing === 'new') {
+        await apiRequest('POST', '/api/admin/suppliers', payload);
+      } else if (editing) {
+        await apiRequest('PUT', `/api/admin/suppliers/${editing.id}`, payload);
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/suppliers'] });
+      // Deactivating a supplier can move products' costs to another
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/margins'] });
+      toast({ title: editing === 'new' ? 'Supplier created' : 'Supplier saved' });
+      setEditing(null);
+    } catch (error) {
+      const { status } = parseApiError(error);
+      toast({
+        title: 'Could not save supplier',
+        description: status === 409
+          ? 'Another supplier already has this name.'
+          : 'Please check the form and try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!supplierToDelete) return;
+
+    try {
+      await apiRequest('DELETE', `/api/admin/suppliers/${supplierToDelete.id}`);
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/suppliers'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/margins'] });
+      toast({ title: 'Supplier deleted' });
+    } catch {
+      toast({ title: 'Could not delete supplier', description: 'Please try again.', variant: 'destructive' });
+    } finally {
+      setSupplierToDelete(null);
+    }
+  };
+
+  const textField = (name: 'website' | 'contactEmail' | 'contactPhone' | 'address' | 'paymentTerms', label: string, placeholder?: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input placeholder={placeholder} {...field} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <AdminLayout
+      title="Suppliers"
+      actions={
+        <Button size="sm" onClick={() => openForm('new')}>
+          <Plus className="h-4 w-4 mr-1" /> New Supplier
+        </Button>
+      }
+    >
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Supplier</TableHead>
+              <TableHead>Contact</TableHead>
+              <TableHead>Returns</TableHead>
+              <TableHead className="text-right">Products</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-32" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {suppliers.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-gray-500">No suppliers yet.</TableCell>
+              </TableRow>
+            ) : suppliers.map(supplier => (
+              <TableRow key={supplier.id}>
+                <TableCell className="font-medium">
+                  {supplier.name}
+                  {supplier.paymentTerms && <div className="text-xs text-gray-500">{supplier.paymentTerms}</div>}
+                </TableCell>
+                <TableCell className="text-sm">
+                  {supplier.contactEmail && <div>{supplier.contactEmail}</div>}
+                  {supplier.contactPhone && <div className="text-gray-500">{supplier.contactPhone}</div>}
+                </TableCell>
+                <TableCell className="text-sm">
+                  {supplier.returnWindowDays} days
+                  {supplier.restockingFeePercent > 0 && (
+                    <div className="text-xs text-gray-500">{supplier.restockingFeePercent}% restocking fee</div>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">{supplier.productCount}</TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    <Badge variant={supplier.isActive ? 'default' : 'secondary'}>{supplier.isActive ? 'Active' : 'Inactive'}</Badge>
+                    {supplier.dropshipping && <Badge variant="outline">Dropship</Badge>}
+                    {supplier.apiAvailable && <Badge variant="outline">API</Badge>}
+                  </div>
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="icon" onClick={() => setProductsOf(supplier)} aria-label="Products">
+                    <Package className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => openForm(supplier)} aria-label="Edit">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => setSupplierToDelete(supplier)} aria-label="Delete">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'New Supplier' : 'Edit Supplier'}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid gap-4 md:grid-cols-2">
+                {textField('website', 'Website (Optional)', 'https://...')}
+                {textField('contactEmail', 'Email (Optional)')}
+                {textField('contactPhone', 'Phone (Optional)')}
+                {textField('paymentTerms', 'Payment terms (Optional)', 'Net 30')}
+              </div>
+              {textField('address', 'Address (Optional)')}
+              <div className="grid gap-4 md:grid-cols-3">
+                <FormField
+                  control={form.control}
+                  name="minimumOrder"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Minimum order ($)</FormLabel>
+                      <FormControl>
+                        <Input inputMode="decimal" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="returnWindowDays"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Return window (days)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="0" max="365" step="1" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="restockingFeePercent"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Restocking fee (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="0" max="100" step="1" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes (Optional)</FormLabel>
+                    <FormControl>
+                      <Textarea rows={3} {...field} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <div className="flex gap-6">
+                <FormField
+                  control={form.control}
+                  name="dropshipping"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center gap-3 space-y-0">
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                      <FormLabel>Dropships</FormLabel>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="apiAvailable"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center gap-3 space-y-0">
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                      <FormLabel>Orders through API</FormLabel>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="isActive"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center gap-3 space-y-0">
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                      <FormLabel>Active</FormLabel>
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting ? 'Saving...' : 'Save'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {productsOf && <SupplierProductsDialog supplier={productsOf} onClose={() => setProductsOf(null)} />}
+
+      <AlertDialog open={!!supplierToDelete} onOpenChange={(open) => !open && setSupplierToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {supplierToDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its costs for {supplierToDelete?.productCount ?? 0} products are deleted too. To keep them on file, mark it inactive instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AdminLayout>
+  );
+};
+
+export default AdminSuppliers;
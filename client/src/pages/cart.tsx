@@ -1,43 +1,16 @@
-import { useState, useEffect } from "react";
 import { Link, useLocation } from "wouter";
-import { useCart } from "@/hooks/use-cart";
+import { useCart, useCartQuote } from "@/hooks/use-cart";
 import { Button } from "@/components/ui/button";
 import { ShoppingCart, ShoppingBag, Trash2, ChevronLeft, ChevronRight } from "lucide-react";
 import CartItem from "@/components/cart/cart-item";
+import PromoCodeForm from "@/components/cart/promo-code-form";
 import { formatPrice } from "@/lib/utils";
 import { Helmet } from "react-helmet";
 
 const CartPage = () => {
-  const { items, updateItemQuantity, removeItem, cartTotal } = useCart();
+  const { items, updateItemQuantity, removeItem } = useCart();
   const [, navigate] = useLocation();
-  const [shippingCost, setShippingCost] = useState(0);
-  const [isCalculatingShipping, setIsCalculatingShipping] = useState(false);
-  const [estimatedTax, setEstimatedTax] = useState(0);
-
-  // Calculate tax and shipping when cart total changes
-  useEffect(() => {
-    // Tax calculation (simplified - 8%)
-    const tax = cartTotal * 0.08;
-    setEstimatedTax(tax);
-
-    // Shipping calculation (free shipping over $200)
-    const shipping = cartTotal > 200 ? 0 : 15;
-    setShippingCost(shipping);
-  }, [cartTotal]);
-
-  // Handle shipping calculation
-  const calculateShipping = () => {
-    setIsCalculatingShipping(true);
-    // Simulate shipping calculation
-    setTimeout(() => {
-      const shipping = cartTotal > 200 ? 0 : 15;
-      setShippingCost(shipping);
-      setIsCalculatingShipping(false);
-    }, 1000);
-  };
-
-  // Calculate order total
-  const orderTotal = cartTotal + shippingCost + estimatedTax;
+  const { data: quote, isFetching: isQuoting, error: quoteError } = useCartQuote();
 
   return (
     <>
@@ -130,36 +103,53 @@ const CartPage = () => {
               <div className="bg-white rounded-lg shadow-md p-6 sticky top-32">
                 <h2 className="text-lg font-semibold border-b pb-4 mb-4">Order Summary</h2>
                 
-                <div className="space-y-3">
-                  <div className="flex justify-between">
-                    <span className="text-gray-600">Subtotal</span>
-                    <span className="font-medium">{formatPrice(cartTotal)}</span>
+                {quoteError && !quote ? (
+                  <p className="text-sm text-red-600">
+                    Some items in your cart are no longer available. Remove them to see your total.
+                  </p>
+                ) : !quote ? (
+                  <div className="flex justify-center py-6">
+                    <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
                   </div>
-                  
-                  <div className="flex justify-between items-center">
-                    <span className="text-gray-600">Shipping</span>
-                    <div className="flex items-center">
-                      {isCalculatingShipping ? (
-                        <div className="w-5 h-5 border-2 border-primary border-t-transparent rounded-full animate-spin mr-2"></div>
-                      ) : shippingCost === 0 ? (
+                ) : (
+                  <div className={`space-y-3 ${isQuoting ? 'opacity-60' : ''}`}>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Subtotal</span>
+                      <span className="font-medium">{formatPrice(quote.subtotal)}</span>
+                    </div>
+                    
+                    {quote.discounts.map(discount => (
+                      <div key={discount.code ?? discount.description} className="flex justify-between text-green-600">
+                        <span>{discount.description}</span>
+                        {parseFloat(discount.amount) > 0 && <span className="font-medium">-{formatPrice(discount.amount)}</span>}
+                      </div>
+                    ))}
+                    
+                    <div className="flex justify-between items-center">
+                      <span className="text-gray-600">Shipping</span>
+                      {parseFloat(quote.shipping) === 0 ? (
                         <span className="text-green-600 font-medium">Free</span>
                       ) : (
-                        <span className="font-medium">{formatPrice(shippingCost)}</span>
+                        <span className="font-medium">{formatPrice(quote.shipping)}</span>
                       )}
                     </div>
-                  </div>
-                  
-                  <div className="flex justify-between">
-                    <span className="text-gray-600">Estimated Tax</span>
-                    <span className="font-medium">{formatPrice(estimatedTax)}</span>
-                  </div>
-                  
-                  <div className="border-t pt-3 mt-3">
-                    <div className="flex justify-between font-semibold text-lg">
-                      <span>Order Total</span>
-                      <span className="text-primary">{formatPrice(orderTotal)}</span>
+                    
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Estimated Tax</span>
+                      <span className="font-medium">{formatPrice(quote.tax)}</span>
+                    </div>
+                    
+                    <div className="border-t pt-3 mt-3">
+                      <div className="flex justify-between font-semibold text-lg">
+                        <span>Order Total</span>
+                        <span className="text-primary">{formatPrice(quote.total)}</span>
+                      </div>
                     </div>
                   </div>
+                )}
+                
+                <div className="mt-6">
+                  <PromoCodeForm quote={quote} />
                 </div>
                 
                 <div className="mt-6">
@@ -173,11 +163,11 @@ const CartPage = () => {
                 </div>
                 
                 <div className="mt-6 text-center text-sm text-gray-500">
-                  {cartTotal < 200 ? (
-                    <p>Add {formatPrice(200 - cartTotal)} more to qualify for free shipping!</p>
+                  {quote && (parseFloat(quote.amountToFreeShipping) > 0 ? (
+                    <p>Add {formatPrice(quote.amountToFreeShipping)} more to qualify for free shipping!</p>
                   ) : (
                     <p>Your order qualifies for free shipping! 🎉</p>
-                  )}
+                  ))}
                 </div>
                 
                 <div className="mt-6 pt-6 border-t">
@@ -1,13 +1,17 @@
 import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
-import { useCart } from "@/hooks/use-cart";
+import { useQuery } from "@tanstack/react-query";
+import { useCart, useCartQuote } from "@/hooks/use-cart";
+import PromoCodeForm from "@/components/cart/promo-code-form";
+import { useAuth } from "@/context/auth-context";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useStripe, Elements, PaymentElement, useElements } from '@stripe/react-stripe-js';
 import { loadStripe } from '@stripe/stripe-js';
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
 import { formatPrice } from "@/lib/utils";
+import { getAnalyticsSessionId, trackCheckoutStart } from "@/lib/salesFunnel";
 import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -40,6 +44,8 @@ import {
 } from "@/components/ui/card";
 import { Helmet } from "react-helmet";
 import { ChevronRight } from "lucide-react";
+import type { SavedAddresses } from "@/pages/account";
+import type { Quote } from "@shared/schema";
 
 // Make sure to call `loadStripe` outside of a component's render to avoid
 // recreating the `Stripe` object on every render.
@@ -70,10 +76,13 @@ const checkoutSchema = z.object({
     postalCode: z.string().min(5, { message: "Postal code is required" }),
     country: z.string().min(2, { message: "Country is required" }),
   }),
-  sameAsShipping: z.boolean().default(true),
+  // No .default()s: the form's defaultValues set these, and the schema's input and
+  // output types have to match for useForm<CheckoutFormValues> to type-check
+  sameAsShipping: z.boolean(),
+  saveAddresses: z.boolean(),
   notes: z.string().optional(),
-  termsAccepted: z.literal(true, {
-    errorMap: () => ({ message: "You must accept the terms and conditions" }),
+  termsAccepted: z.boolean().refine((accepted) => accepted, {
+    message: "You must accept the terms and conditions",
   }),
 });
 
@@ -134,20 +143,49 @@ const US_STATES = [
   { value: "DC", label: "District of Columbia" },
 ];
 
+// Totals exactly as the server priced them
+const QuoteTotals = ({ quote, className = "" }: { quote: Quote | undefined; className?: string }) => {
+  if (!quote) {
+    return <div className="h-24 bg-gray-100 rounded animate-pulse" />;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className={`flex justify-between ${className}`}>
+        <span>Subtotal</span>
+        <span>{formatPrice(quote.subtotal)}</span>
+      </div>
+      {quote.discounts.map(discount => (
+        <div key={discount.code ?? discount.description} className={`flex justify-between text-green-600 ${className}`}>
+          <span>{discount.description}</span>
+          {parseFloat(discount.amount) > 0 && <span>-{formatPrice(discount.amount)}</span>}
+        </div>
+      ))}
+      <div className={`flex justify-between ${className}`}>
+        <span>Shipping</span>
+        <span>{parseFloat(quote.shipping) === 0 ? "Free" : formatPrice(quote.shipping)}</span>
+      </div>
+      <div className={`flex justify-between ${className}`}>
+        <span>Tax</span>
+        <span>{formatPrice(quote.tax)}</span>
+      </div>
+      <div className="flex justify-between font-bold pt-2 border-t">
+        <span>Total</span>
+        <span className="text-primary">{formatPrice(quote.total)}</span>
+      </div>
+    </div>
+  );
+};
+
 // Checkout form component that uses Stripe elements
-const CheckoutForm = ({ formData }: { formData: CheckoutFormValues }) => {
+const CheckoutForm = ({ formData, quote, orderNumber }: { formData: CheckoutFormValues; quote: Quote; orderNumber: string }) => {
   const stripe = useStripe();
   const elements = useElements();
   const [isProcessing, setIsProcessing] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const { items, cartTotal, clearCart } = useCart();
+  const { clearCart } = useCart();
   const [, navigate] = useLocation();
 
-  // Calculate order totals
-  const shippingCost = cartTotal > 200 ? 0 : 15;
-  const taxAmount = cartTotal * 0.08; // 8% tax
-  const orderTotal = cartTotal + shippingCost + taxAmount;
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -159,14 +197,6 @@ const CheckoutForm = ({ formData }: { formData: CheckoutFormValues }) => {
     setIsProcessing(true);
     setErrorMessage(null);
 
-    // Prepare cart items for the order
-    const cartItems = items.map(item => ({
-      productId: item.product.id,
-      quantity: item.quantity,
-      price: item.product.price,
-      name: item.product.name
-    }));
-
     // Prepare addresses in the format expected by the API
     const shippingAddress = {
       name: `${formData.firstName} ${formData.lastName}`,
@@ -184,7 +214,7 @@ const CheckoutForm = ({ formData }: { formData: CheckoutFormValues }) => {
       const { error } = await stripe.confirmPayment({
         elements,
         confirmParams: {
-          return_url: `${window.location.origin}/order-confirmation/{ORDERID}`,
+          return_url: `${window.location.origin}/order-confirmation/${orderNumber}`,
           payment_method_data: {
             billing_details: {
               name: `${formData.firstName} ${formData.lastName}`,
@@ -210,10 +240,7 @@ const CheckoutForm = ({ formData }: { formData: CheckoutFormValues }) => {
       } else {
         // Payment succeeded, clear cart and redirect to confirmation page
         clearCart();
-        
-        // This would normally be replaced with the actual order ID
-        // For this example, we'll just simulate it
-        navigate("/order-confirmation/TMP" + Math.floor(100000 + Math.random() * 900000));
+        navigate(`/order-confirmation/${orderNumber}`);
       }
     } catch (error) {
       console.error("Payment error:", error);
@@ -242,23 +269,8 @@ const CheckoutForm = ({ formData }: { formData: CheckoutFormValues }) => {
             )}
           </CardContent>
           <CardFooter className="flex flex-col space-y-4">
-            <div className="w-full space-y-2">
-              <div className="flex justify-between">
-                <span>Subtotal</span>
-                <span>{formatPrice(cartTotal)}</span>
-              </div>
-              <div className="flex justify-between">
-                <span>Shipping</span>
-                <span>{shippingCost === 0 ? "Free" : formatPrice(shippingCost)}</span>
-              </div>
-              <div className="flex justify-between">
-                <span>Tax</span>
-                <span>{formatPrice(taxAmount)}</span>
-              </div>
-              <div className="flex justify-between font-bold pt-2 border-t">
-                <span>Total</span>
-                <span className="text-primary">{formatPrice(orderTotal)}</span>
-              </div>
+            <div className="w-full">
+              <QuoteTotals quote={quote} />
             </div>
             
             <Button 
@@ -288,8 +300,13 @@ const CheckoutForm = ({ formData }: { formData: CheckoutFormValues }) => {
 };
 
 const Checkout = () => {
-  const { items, cartTotal } = useCart();
+  const { items } = useCart();
+  const { user } = useAuth();
   const [, navigate] = useLocation();
+  const { data: cartQuote } = useCartQuote();
+  // The order as placed; its quote is what the payment intent charges
+  const [placedOrder, setPlacedOrder] = useState<{ orderNumber: string; quote: Quote } | null>(null);
+  const [paymentIntentError, setPaymentIntentError] = useState<string | null>(null);
   const [clientSecret, setClientSecret] = useState("");
   const [formData, setFormData] = useState<CheckoutFormValues | null>(null);
   const [isLoadingPaymentIntent, setIsLoadingPaymentIntent] = useState(false);
@@ -319,6 +336,7 @@ const Checkout = () => {
         country: "US",
       },
       sameAsShipping: true,
+      saveAddresses: false,
       notes: "",
       termsAccepted: false,
     },
@@ -331,6 +349,40 @@ const Checkout = () => {
     }
   }, [items, navigate]);
 
+  // Once per visit to the page, and only with something to buy
+  const hasItems = items.length > 0;
+  useEffect(() => {
+    if (hasItems) trackCheckoutStart();
+  }, [hasItems]);
+
+  const { data: savedAddresses } = useQuery<SavedAddresses>({
+    queryKey: ["/api/users/me/addresses"],
+    enabled: !!user,
+  });
+
+  // Prefill signed-in customers from their account, unless they've started typing
+  useEffect(() => {
+    if (!user || form.formState.isDirty) return;
+
+    const { shippingAddress, billingAddress } = savedAddresses || {};
+    const [firstName = "", ...lastName] = (shippingAddress?.name || user.fullName || "").split(" ");
+    const toFormAddress = ({ name: _name, ...address }: NonNullable<typeof shippingAddress>) => ({
+      ...address,
+      line2: address.line2 || "",
+    });
+
+    form.reset({
+      ...form.getValues(),
+      email: user.email,
+      firstName,
+      lastName: lastName.join(" "),
+      ...(shippingAddress && { shippingAddress: toFormAddress(shippingAddress) }),
+      ...(billingAddress && { billingAddress: toFormAddress(billingAddress) }),
+      sameAsShipping: !billingAddress || JSON.stringify(billingAddress) === JSON.stringify(shippingAddress),
+      saveAddresses: !shippingAddress,
+    });
+  }, [user, savedAddresses, form]);
+
   // Watch for same as shipping checkbox changes
   const sameAsShipping = form.watch("sameAsShipping");
 
@@ -346,19 +398,13 @@ const Checkout = () => {
   const onSubmit = async (data: CheckoutFormValues) => {
     setFormData(data);
     setIsLoadingPaymentIntent(true);
+    setPaymentIntentError(null);
 
     try {
-      // Calculate shipping, tax, and total
-      const shippingCost = cartTotal > 200 ? 0 : 15;
-      const taxAmount = cartTotal * 0.08; // 8% tax
-      const orderTotal = cartTotal + shippingCost + taxAmount;
-
-      // Prepare cart items for the order
+      // Only products and quantities are sent; the server prices the order
       const cartItems = items.map(item => ({
         productId: item.product.id,
-        quantity: item.quantity,
-        price: item.product.price,
-        name: item.product.name
+        quantity: item.quantity
       }));
 
       // Prepare addresses in the format expected by the API
@@ -374,31 +420,43 @@ const Checkout = () => {
             ...data.billingAddress
           };
 
-      // Create payment intent
+      // Create payment intent; only the codes the customer sees applied go with it
       const response = await apiRequest("POST", "/api/create-payment-intent", {
         cartItems,
         email: data.email,
         shippingAddress,
         billingAddress,
+        promotionCodes: cartQuote?.promotionCodes ?? [],
+        analyticsSessionId: getAnalyticsSessionId(),
       });
 
       const paymentData = await response.json();
       setClientSecret(paymentData.clientSecret);
+      setPlacedOrder({ orderNumber: paymentData.orderNumber, quote: paymentData.quote });
+
+      // Saving is a convenience; checkout carries on if it fails
+      if (user && data.saveAddresses) {
+        apiRequest("PUT", "/api/users/me/addresses", { shippingAddress, billingAddress })
+          .catch(error => console.error("Failed to save addresses:", error));
+      }
       
       // Move to payment step
       setCurrentStep("payment");
     } catch (error) {
       console.error("Failed to create payment intent:", error);
-      // Handle error - show message to user
+      const { status, body } = parseApiError(error);
+      setPaymentIntentError(status === 400 && body?.code
+        ? "One of your promo codes can no longer be used. Please review your cart."
+        : status === 400
+          ? "Some items in your cart are no longer available. Please review your cart."
+          : "We couldn't start your payment. Please try again.");
     } finally {
       setIsLoadingPaymentIntent(false);
     }
   };
 
-  // Calculate order totals
-  const shippingCost = cartTotal > 200 ? 0 : 15;
-  const taxAmount = cartTotal * 0.08; // 8% tax
-  const orderTotal = cartTotal + shippingCost + taxAmount;
+  const quote = placedOrder?.quote ?? cartQuote;
+  const linePrice = (productId: number) => quote?.lines.find(line => line.productId === productId)?.lineTotal;
 
   return (
     <>
@@ -551,7 +609,7 @@ const Checkout = () => {
                                   <FormLabel>State / Province</FormLabel>
                                   <Select
                                     onValueChange={field.onChange}
-                                    defaultValue={field.value}
+                                    value={field.value}
                                   >
                                     <FormControl>
                                       <SelectTrigger>
@@ -595,7 +653,7 @@ const Checkout = () => {
                                   <FormLabel>Country</FormLabel>
                                   <Select
                                     onValueChange={field.onChange}
-                                    defaultValue={field.value}
+                                    value={field.value}
                                   >
                                     <FormControl>
                                       <SelectTrigger>
@@ -693,7 +751,7 @@ const Checkout = () => {
                                       <FormLabel>State / Province</FormLabel>
                                       <Select
                                         onValueChange={field.onChange}
-                                        defaultValue={field.value}
+                                        value={field.value}
                                       >
                                         <FormControl>
                                           <SelectTrigger>
@@ -737,7 +795,7 @@ const Checkout = () => {
                                       <FormLabel>Country</FormLabel>
                                       <Select
                                         onValueChange={field.onChange}
-                                        defaultValue={field.value}
+                                        value={field.value}
                                       >
                                         <FormControl>
                                           <SelectTrigger>
@@ -784,6 +842,26 @@ const Checkout = () => {
                             )}
                           />
                           
+                          {user && (
+                            <FormField
+                              control={form.control}
+                              name="saveAddresses"
+                              render={({ field }) => (
+                                <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                                  <FormControl>
+                                    <Checkbox
+                                      checked={field.value}
+                                      onCheckedChange={field.onChange}
+                                    />
+                                  </FormControl>
+                                  <div className="space-y-1 leading-none">
+                                    <FormLabel>Save these addresses to my account</FormLabel>
+                                  </div>
+                                </FormItem>
+                              )}
+                            />
+                          )}
+                          
                           <FormField
                             control={form.control}
                             name="termsAccepted"
@@ -807,6 +885,10 @@ const Checkout = () => {
                         </CardContent>
                       </Card>
                       
+                      {paymentIntentError && (
+                        <div className="text-red-600 text-sm">{paymentIntentError}</div>
+                      )}
+                      
                       <Button 
                         type="submit" 
                         className="w-full bg-primary hover:bg-primary/90 h-12"
@@ -853,7 +935,7 @@ const Checkout = () => {
                                   <h4 className="text-sm font-medium line-clamp-1">{item.product.name}</h4>
                                   <div className="flex justify-between mt-1">
                                     <span className="text-xs text-gray-500">Qty: {item.quantity}</span>
-                                    <span className="text-sm font-medium">{formatPrice(parseFloat(item.product.price) * item.quantity)}</span>
+                                    <span className="text-sm font-medium">{formatPrice(linePrice(item.product.id) ?? parseFloat(item.product.price) * item.quantity)}</span>
                                   </div>
                                 </div>
                               </div>
@@ -861,23 +943,13 @@ const Checkout = () => {
                           </div>
                           
                           {/* Order Totals */}
-                          <div className="space-y-2 pt-4 border-t">
-                            <div className="flex justify-between text-sm">
-                              <span>Subtotal</span>
-                              <span>{formatPrice(cartTotal)}</span>
-                            </div>
-                            <div className="flex justify-between text-sm">
-                              <span>Shipping</span>
-                              <span>{shippingCost === 0 ? "Free" : formatPrice(shippingCost)}</span>
-                            </div>
-                            <div className="flex justify-between text-sm">
-                              <span>Tax</span>
-                              <span>{formatPrice(taxAmount)}</span>
-                            </div>
-                            <div className="flex justify-between font-bold pt-2 border-t">
-                              <span>Total</span>
-                              <span className="text-primary">{formatPrice(orderTotal)}</span>
-                            </div>
+                          <div className="pt-4 border-t">
+                            <QuoteTotals quote={quote} className="text-sm" />
+                          </div>
+
+                          {/* Codes can change until the order is placed */}
+                          <div className="pt-4 border-t">
+                            <PromoCodeForm quote={cartQuote} />
                           </div>
                         </div>
                       </CardContent>
@@ -902,9 +974,9 @@ const Checkout = () => {
             <TabsContent value="payment">
               <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
                 <div className="lg:col-span-2">
-                  {clientSecret ? (
+                  {clientSecret && placedOrder ? (
                     <Elements stripe={stripePromise} options={{ clientSecret }}>
-                      <CheckoutForm formData={formData!} />
+                      <CheckoutForm formData={formData!} quote={placedOrder.quote} orderNumber={placedOrder.orderNumber} />
                     </Elements>
                   ) : (
                     <div className="flex items-center justify-center h-48">
@@ -936,7 +1008,7 @@ const Checkout = () => {
                                   <h4 className="text-sm font-medium line-clamp-1">{item.product.name}</h4>
                                   <div className="flex justify-between mt-1">
                                     <span className="text-xs text-gray-500">Qty: {item.quantity}</span>
-                                    <span className="text-sm font-medium">{formatPrice(parseFloat(item.product.price) * item.quantity)}</span>
+                                    <span className="text-sm font-medium">{formatPrice(linePrice(item.product.id) ?? parseFloat(item.product.price) * item.quantity)}</span>
                                   </div>
                                 </div>
                               </div>
@@ -944,23 +1016,8 @@ const Checkout = () => {
                           </div>
                           
                           {/* Order Totals */}
-                          <div className="space-y-2 pt-4 border-t">
-                            <div className="flex justify-between text-sm">
-                              <span>Subtotal</span>
-                              <span>{formatPrice(cartTotal)}</span>
-                            </div>
-                            <div className="flex justify-between text-sm">
-                              <span>Shipping</span>
-                              <span>{shippingCost === 0 ? "Free" : formatPrice(shippingCost)}</span>
-                            </div>
-                            <div className="flex justify-between text-sm">
-                              <span>Tax</span>
-                              <span>{formatPrice(taxAmount)}</span>
-                            </div>
-                            <div className="flex justify-between font-bold pt-2 border-t">
-                              <span>Total</span>
-                              <span className="text-primary">{formatPrice(orderTotal)}</span>
-                            </div>
+                          <div className="pt-4 border-t">
+                            <QuoteTotals quote={quote} className="text-sm" />
                           </div>
                           
                           {/* Shipping Address */}
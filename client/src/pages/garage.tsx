@@ -0,0 +1,93 @@
+import { Link } from "wouter";
+import { Helmet } from "react-helmet";
+import { Car, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/context/auth-context";
+import { useGarage } from "@/hooks/use-garage";
+import { vehicleLabel } from "@/context/garage-context";
+import FitmentTool from "@/components/home/fitment-tool";
+
+const GaragePage = () => {
+  const { toast } = useToast();
+  const { isAuthenticated } = useAuth();
+  const { vehicles, activeVehicle, isLoading, removeVehicle, setActiveVehicle } = useGarage();
+
+  const handleRemove = async (id: number) => {
+    try {
+      await removeVehicle(id);
+    } catch (error) {
+      toast({
+        title: "Couldn't remove vehicle",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      <Helmet>
+        <title>My Garage | Taylor Made Performance UTV Parts</title>
+        <meta name="description" content="Save your UTVs to shop parts guaranteed to fit." />
+      </Helmet>
+      
+      <div className="container mx-auto px-4 py-8">
+        <h1 className="text-3xl font-bold font-heading text-secondary mb-2">My Garage</h1>
+        <p className="text-gray-500 mb-6">
+          Pick a vehicle to shop parts that fit it.
+          {!isAuthenticated && " Sign in to keep your garage on every device."}
+        </p>
+        
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-16 w-full" />
+            <Skeleton className="h-16 w-full" />
+          </div>
+        ) : vehicles.length === 0 ? (
+          <Card className="p-6 text-center text-gray-500">
+            Your garage is empty. Add a vehicle below.
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {vehicles.map((vehicle) => (
+              <Card key={vehicle.id} className="p-4 flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <Car className="h-6 w-6 text-primary" />
+                  <span className="font-medium">{vehicleLabel(vehicle)}</span>
+                  {vehicle.id === activeVehicle?.id && <Badge>Active</Badge>}
+                </div>
+                <div className="flex items-center gap-2">
+                  {vehicle.id === activeVehicle?.id ? (
+                    <Button asChild size="sm">
+                      <Link href="/products">Shop parts</Link>
+                    </Button>
+                  ) : (
+                    <Button size="sm" variant="outline" onClick={() => setActiveVehicle(vehicle.id)}>
+                      Make active
+                    </Button>
+                  )}
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => handleRemove(vehicle.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    <span className="sr-only">Remove</span>
+                  </Button>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+      
+      <FitmentTool showGarage={false} />
+    </>
+  );
+};
+
+export default GaragePage;
@@ -1,41 +1,40 @@
-import { useEffect, useState } from 'react';
 import { useParams, Link } from 'wouter';
 import { Helmet } from 'react-helmet';
 import { useQuery } from '@tanstack/react-query';
-import { Order, OrderItem } from '@shared/schema';
+import { Address, Order, OrderItem, OrderStatus, Product } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import AddressBlock from '@/components/order/address-block';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import { Check, ChevronRight, Package, Truck } from 'lucide-react';
 
+// How far along the progress bar each status is
+const progressSteps: Partial<Record<OrderStatus, number>> = {
+  pending: 0,
+  paid: 1,
+  processing: 2,
+  shipped: 3,
+  delivered: 3,
+};
+
 const OrderConfirmation = () => {
   const { orderNumber } = useParams();
-  const [activeStep, setActiveStep] = useState<number>(0);
 
-  // Get order details
-  const { data: order, isLoading } = useQuery<Order>({ 
+  // Only answers for the customer who placed the order
+  const { data, isLoading } = useQuery<{ order: Order; items: (OrderItem & { product?: Product })[] }>({
     queryKey: ['/api/orders', orderNumber],
-    enabled: !!orderNumber
-  });
-
-  // Get order items
-  const { data: orderItems, isLoading: isItemsLoading } = useQuery<OrderItem[]>({ 
-    queryKey: ['/api/orders', orderNumber, 'items'],
-    enabled: !!orderNumber
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/orders/${orderNumber}`);
+      return response.json();
+    },
+    enabled: !!orderNumber,
+    retry: false
   });
+  const order = data?.order;
+  const orderItems = data?.items;
 
-  useEffect(() => {
-    // Simulate order processing steps advancing
-    if (order) {
-      const timer = setInterval(() => {
-        setActiveStep((prev) => (prev < 3 ? prev + 1 : prev));
-      }, 2000);
-
-      return () => clearInterval(timer);
-    }
-  }, [order]);
-
-  if (isLoading || isItemsLoading) {
+  if (isLoading) {
     return (
       <div className="container mx-auto px-4 py-12 flex items-center justify-center">
         <div className="animate-spin w-12 h-12 border-4 border-primary border-t-transparent rounded-full"></div>
@@ -50,10 +49,13 @@ const OrderConfirmation = () => {
           <CardHeader className="text-center">
             <CardTitle className="text-2xl text-destructive">Order Not Found</CardTitle>
             <CardDescription>
-              We couldn't find an order with the number {orderNumber}
+              We couldn't find an order with the number {orderNumber}. If you placed it, you can look it up with the email you used at checkout.
             </CardDescription>
           </CardHeader>
-          <CardFooter className="flex justify-center">
+          <CardFooter className="flex justify-center gap-2">
+            <Link href={`/track-order?order=${encodeURIComponent(orderNumber || '')}`}>
+              <Button variant="outline">Track Order</Button>
+            </Link>
             <Link href="/products">
               <Button>Continue Shopping</Button>
             </Link>
@@ -71,10 +73,7 @@ const OrderConfirmation = () => {
     }).format(parseFloat(amount));
   };
 
-  // Generate tracking number
-  const generateTrackingNumber = () => {
-    return `TM${Math.floor(10000000 + Math.random() * 90000000)}US`;
-  };
+  const activeStep = progressSteps[order.status] ?? 0;
 
   return (
     <div className="container mx-auto px-4 py-12">
@@ -118,13 +117,13 @@ const OrderConfirmation = () => {
                 <div className={`w-10 h-10 rounded-full border-2 flex items-center justify-center mb-2 mx-auto ${activeStep >= 1 ? 'bg-primary text-white border-primary' : 'border-gray-300 bg-white'}`}>
                   {activeStep >= 1 ? <Check className="h-5 w-5" /> : "2"}
                 </div>
-                <p className="text-sm font-medium">Processing</p>
+                <p className="text-sm font-medium">Payment Received</p>
               </div>
               <div className="text-center">
                 <div className={`w-10 h-10 rounded-full border-2 flex items-center justify-center mb-2 mx-auto ${activeStep >= 2 ? 'bg-primary text-white border-primary' : 'border-gray-300 bg-white'}`}>
                   {activeStep >= 2 ? <Check className="h-5 w-5" /> : "3"}
                 </div>
-                <p className="text-sm font-medium">Ready to Ship</p>
+                <p className="text-sm font-medium">Processing</p>
               </div>
               <div className="text-center">
                 <div className={`w-10 h-10 rounded-full border-2 flex items-center justify-center mb-2 mx-auto ${activeStep >= 3 ? 'bg-primary text-white border-primary' : 'border-gray-300 bg-white'}`}>
@@ -155,10 +154,10 @@ const OrderConfirmation = () => {
                       {orderItems && orderItems.map((item) => (
                         <div key={item.id} className="flex items-center space-x-4">
                           <div className="w-16 h-16 rounded bg-gray-100 flex items-center justify-center overflow-hidden">
-                            {item.product.imageUrl ? (
+                            {(item.product?.images as string[] | undefined)?.[0] ? (
                               <img 
-                                src={item.product.imageUrl} 
-                                alt={item.product.name} 
+                                src={(item.product!.images as string[])[0]} 
+                                alt={item.product!.name} 
                                 className="w-full h-full object-cover"
                               />
                             ) : (
@@ -166,7 +165,7 @@ const OrderConfirmation = () => {
                             )}
                           </div>
                           <div className="flex-1">
-                            <h4 className="font-medium">{item.product.name}</h4>
+                            <h4 className="font-medium">{item.product?.name || `Product #${item.productId}`}</h4>
                             <p className="text-sm text-muted-foreground">Qty: {item.quantity}</p>
                           </div>
                           <div className="text-right">
@@ -180,15 +179,7 @@ const OrderConfirmation = () => {
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                     <div>
                       <h3 className="font-heading font-semibold mb-2">Shipping Information</h3>
-                      {order.shippingAddress && (
-                        <div className="text-sm space-y-1">
-                          <p className="font-medium">{order.shippingAddress.name}</p>
-                          <p>{order.shippingAddress.street}</p>
-                          <p>{order.shippingAddress.city}, {order.shippingAddress.state} {order.shippingAddress.zip}</p>
-                          <p>{order.shippingAddress.country}</p>
-                          {order.shippingAddress.phone && <p>Phone: {order.shippingAddress.phone}</p>}
-                        </div>
-                      )}
+                      <AddressBlock address={order.shippingAddress as Address | null} />
                     </div>
                     <div>
                       <h3 className="font-heading font-semibold mb-2">Shipping Method</h3>
@@ -198,12 +189,12 @@ const OrderConfirmation = () => {
                           <p className="font-medium">{order.shippingMethod || "Standard Shipping"}</p>
                           <p className="text-sm text-muted-foreground">
                             {activeStep >= 3 
-                              ? `Shipped on ${new Date().toLocaleDateString()}` 
+                              ? "Your order is on its way" 
                               : "Expected to ship within 1-2 business days"}
                           </p>
-                          {activeStep >= 3 && (
+                          {order.trackingNumber && (
                             <p className="text-sm mt-1">
-                              Tracking #: <span className="font-medium">{generateTrackingNumber()}</span>
+                              Tracking #: <span className="font-medium">{order.carrier && `${order.carrier} `}{order.trackingNumber}</span>
                             </p>
                           )}
                         </div>
@@ -225,6 +216,12 @@ const OrderConfirmation = () => {
                     <span className="text-muted-foreground">Subtotal</span>
                     <span>{formatAmount(order.subtotal)}</span>
                   </div>
+                  {parseFloat(order.discount) > 0 && (
+                    <div className="flex justify-between text-green-600">
+                      <span>Discount{order.promotionCodes.length > 0 && ` (${order.promotionCodes.join(", ")})`}</span>
+                      <span>-{formatAmount(order.discount)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Shipping</span>
                     <span>{formatAmount(order.shippingCost || "0.00")}</span>
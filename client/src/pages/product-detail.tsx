@@ -3,34 +3,46 @@ import { useRoute } from 'wouter';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { Helmet } from 'react-helmet';
+import { Truck } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
 import PersonalizedOffers from '../components/PersonalizedOffers';
+import FrequentlyBoughtTogether from '@/components/product/frequently-bought-together';
 import { initSessionTracking } from '../lib/salesFunnel';
+import type { ProductFitmentDetail } from '@shared/schema';
+
+// How soon an order ships, from GET /api/products/:slug
+interface StockAvailability {
+  available: number;
+  shipping: { fromSupplier: boolean; shippingDaysMin: number; shippingDaysMax: number; message: string } | null;
+}
 
 // Initialize session tracking
 initSessionTracking();
 
 export default function ProductDetail() {
-  const [, params] = useRoute('/products/:slug');
+  const [, params] = useRoute('/product/:slug');
   const slug = params?.slug;
   const queryClient = useQueryClient();
   const { toast } = useToast();
   const [quantity, setQuantity] = useState(1);
   
-  // Fetch product details
-  const { data: product, isLoading, error } = useQuery({
+  // Fetch product details, with where its stock would ship from
+  const { data: productPage, isLoading, error } = useQuery({
     queryKey: ['product', slug],
     queryFn: async () => {
       if (!slug) return null;
-      const response = await apiRequest('GET', `/api/products/slug/${slug}`);
-      return response.json();
+      const response = await apiRequest('GET', `/api/products/${slug}`);
+      const data = await response.json();
+      return { product: data.product, availability: data.availability as StockAvailability };
     },
     enabled: !!slug,
   });
+  const product = productPage?.product;
+  const shipping = productPage?.availability.shipping;
   
   // Fetch category details
   const { data: category } = useQuery({
@@ -65,6 +77,23 @@ export default function ProductDetail() {
     enabled: !!product?.id,
   });
   
+  // Fetch vehicle fitment
+  const { data: fitments } = useQuery<ProductFitmentDetail[]>({
+    queryKey: ['productFitment', product?.id],
+    queryFn: async () => {
+      if (!product?.id) return [];
+      const response = await apiRequest('GET', `/api/products/${product.id}/fitment`);
+      return response.json();
+    },
+    enabled: !!product?.id,
+  });
+  
+  // Group fitment by make for the compatibility tab
+  const fitmentsByMake = (fitments || []).reduce<Record<string, ProductFitmentDetail[]>>((groups, fitment) => {
+    (groups[fitment.make] = groups[fitment.make] || []).push(fitment);
+    return groups;
+  }, {});
+  
   // Handle add to cart
   const handleAddToCart = async () => {
     if (!product) return;
@@ -216,6 +245,13 @@ export default function ProductDetail() {
               </div>
             )}
             
+            {shipping && (
+              <div className="flex items-center text-sm text-gray-600">
+                <Truck className="h-4 w-4 mr-2" />
+                <span>{shipping.message}</span>
+              </div>
+            )}
+            
             <div className="prose">
               <p>{product.description}</p>
             </div>
@@ -379,44 +415,29 @@ export default function ProductDetail() {
           <TabsContent value="fitment" className="py-4">
             <div className="prose max-w-none">
               <h3>Vehicle Compatibility</h3>
-              <p>This product is compatible with the following UTV models:</p>
-              
-              <div className="mt-4 space-y-4">
-                <div>
-                  <h4 className="font-medium">Polaris</h4>
-                  <ul className="list-disc pl-5">
-                    <li>RZR XP 1000 (2019-2023)</li>
-                    <li>RZR XP Turbo (2018-2023)</li>
-                    <li>RZR XP 4 1000 (2019-2023)</li>
-                    <li>RZR Pro XP (2020-2023)</li>
-                  </ul>
-                </div>
-                
-                <div>
-                  <h4 className="font-medium">Can-Am</h4>
-                  <ul className="list-disc pl-5">
-                    <li>Maverick X3 (2017-2023)</li>
-                    <li>Maverick X3 Max (2017-2023)</li>
-                    <li>Defender HD10 (2020-2023)</li>
-                  </ul>
-                </div>
-                
-                <div>
-                  <h4 className="font-medium">Yamaha</h4>
-                  <ul className="list-disc pl-5">
-                    <li>YXZ1000R (2019-2023)</li>
-                    <li>YXZ1000R SS (2019-2023)</li>
-                  </ul>
-                </div>
-                
-                <div>
-                  <h4 className="font-medium">Honda</h4>
-                  <ul className="list-disc pl-5">
-                    <li>Talon 1000X (2019-2023)</li>
-                    <li>Talon 1000R (2019-2023)</li>
-                  </ul>
-                </div>
-              </div>
+              {Object.keys(fitmentsByMake).length > 0 ? (
+                <>
+                  <p>This product is compatible with the following UTV models:</p>
+                  
+                  <div className="mt-4 space-y-4">
+                    {Object.entries(fitmentsByMake).map(([make, makeFitments]) => (
+                      <div key={make}>
+                        <h4 className="font-medium">{make}</h4>
+                        <ul className="list-disc pl-5">
+                          {makeFitments.map((fitment) => (
+                            <li key={fitment.id}>
+                              {fitment.model}{fitment.variant ? ` ${fitment.variant}` : ''} ({fitment.yearFrom === fitment.yearTo ? fitment.yearFrom : `${fitment.yearFrom}-${fitment.yearTo}`})
+                              {fitment.notes && <span className="text-sm text-gray-500"> - {fitment.notes}</span>}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              ) : (
+                <p>No vehicle fitment has been recorded for this product yet.</p>
+              )}
               
               <p className="mt-4 text-sm text-gray-500">
                 * If your model is not listed, please contact us to verify compatibility before ordering.
@@ -425,6 +446,9 @@ export default function ProductDetail() {
           </TabsContent>
         </Tabs>
         
+        {/* Bundles offered with this product */}
+        <FrequentlyBoughtTogether productId={product.id} />
+        
         {/* Personalized Recommendations */}
         <PersonalizedOffers currentProductId={product.id} title="Customers Also Purchased" />
       </div>
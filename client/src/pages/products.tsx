@@ -47,6 +47,8 @@ import {
 import { Checkbox } from "@/components/ui/checkbox";
 import { Skeleton } from "@/components/ui/skeleton";
 import ProductCard from "@/components/product/product-card";
+import { useGarage } from "@/hooks/use-garage";
+import { vehicleFitmentParam, vehicleLabel } from "@/context/garage-context";
 import { Helmet } from "react-helmet";
 
 type ViewMode = "grid" | "list";
@@ -75,6 +77,11 @@ const ProductsPage = () => {
   const [activeFilters, setActiveFilters] = useState<Filters>({});
   const [isMobileFilterOpen, setIsMobileFilterOpen] = useState(false);
   const [priceRange, setPriceRange] = useState<{min?: string; max?: string}>({});
+  const { activeVehicle, setActiveVehicle } = useGarage();
+  
+  // A vehicle picked in the filters takes precedence over the garage's active vehicle
+  const hasVehicleFilter = !!(activeFilters.make && activeFilters.model && activeFilters.year);
+  const garageVehicle = hasVehicleFilter ? null : activeVehicle;
 
   // Parse URL parameters on mount
   useEffect(() => {
@@ -159,8 +166,10 @@ const ProductsPage = () => {
     if (activeFilters.onSale) params.append('on_sale', 'true');
     
     // Vehicle fitment 
-    if (activeFilters.make && activeFilters.model && activeFilters.year) {
+    if (hasVehicleFilter) {
       params.append('fitment', `${activeFilters.make}|${activeFilters.model}|${activeFilters.year}`);
+    } else if (garageVehicle) {
+      params.append('fitment', vehicleFitmentParam(garageVehicle));
     }
     
     // Sorting
@@ -207,7 +216,7 @@ const ProductsPage = () => {
     isLoading: isProductsLoading,
     error: productsError
   } = useQuery({
-    queryKey: ['/api/products', buildProductQueryString()],
+    queryKey: [`/api/products?${buildProductQueryString()}`],
     keepPreviousData: true,
   });
 
@@ -294,10 +303,14 @@ const ProductsPage = () => {
       return brand ? brand.name : 'Products';
     }
     
-    if (activeFilters.make && activeFilters.model && activeFilters.year) {
+    if (hasVehicleFilter) {
       return `${activeFilters.year} ${activeFilters.make} ${activeFilters.model} Parts`;
     }
     
+    if (garageVehicle) {
+      return `${vehicleLabel(garageVehicle)} Parts`;
+    }
+    
     return 'All Products';
   };
 
@@ -323,6 +336,21 @@ const ProductsPage = () => {
             {getPageTitle()}
           </h1>
           
+          {/* Garage vehicle scoping */}
+          {garageVehicle && (
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-gray-500">Showing parts that fit your {vehicleLabel(garageVehicle)}.</span>
+              <Button
+                variant="link"
+                size="sm"
+                className="h-auto p-0"
+                onClick={() => setActiveVehicle(null)}
+              >
+                Shop all parts
+              </Button>
+            </div>
+          )}
+          
           {/* Active Filters */}
           {Object.keys(activeFilters).length > 0 && (
             <div className="flex flex-wrap items-center gap-2 mt-4">
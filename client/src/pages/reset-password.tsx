@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { Helmet } from 'react-helmet';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/context/auth-context';
+
+// Without a token this page asks for an email; with one (from the emailed link) it sets the new password
+const ResetPasswordPage = () => {
+  const { toast } = useToast();
+  const { requestPasswordReset, resetPassword } = useAuth();
+  const token = new URLSearchParams(window.location.search).get('token');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isDone, setIsDone] = useState(false);
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      await requestPasswordReset(email);
+      setIsDone(true);
+    } catch (error) {
+      toast({
+        title: 'Something went wrong',
+        description: 'Please check the email address and try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+
+    if (password.length < 8) {
+      toast({
+        title: 'Password too short',
+        description: 'Password must be at least 8 characters.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await resetPassword(token, password);
+      setIsDone(true);
+    } catch (error) {
+      toast({
+        title: 'Could not reset password',
+        description: 'This reset link is invalid or has expired. Please request a new one.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-12">
+      <Helmet>
+        <title>Reset Password | TaylorMade Performance</title>
+      </Helmet>
+
+      <div className="max-w-md mx-auto">
+        <Card>
+          <CardHeader>
+            <CardTitle>{token ? 'Choose a new password' : 'Reset your password'}</CardTitle>
+            <CardDescription>
+              {token
+                ? 'Enter a new password for your account.'
+                : "Enter your email and we'll send you a link to reset your password."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isDone ? (
+              <div className="space-y-4">
+                <p>
+                  {token
+                    ? 'Your password has been updated.'
+                    : 'If an account exists for that email, a reset link is on its way.'}
+                </p>
+                <Button asChild className="w-full">
+                  <Link href="/login">Back to Sign In</Link>
+                </Button>
+              </div>
+            ) : token ? (
+              <form onSubmit={handleReset} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="password">New Password</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    autoComplete="new-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={isSubmitting}>
+                  {isSubmitting ? 'Saving...' : 'Update Password'}
+                </Button>
+              </form>
+            ) : (
+              <form onSubmit={handleRequest} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    autoComplete="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={isSubmitting}>
+                  {isSubmitting ? 'Sending...' : 'Send Reset Link'}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPasswordPage;
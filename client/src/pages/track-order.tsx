@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { Helmet } from 'react-helmet';
+import { Truck } from 'lucide-react';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
+import { formatDate } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/context/auth-context';
+import OrderStatusBadge from '@/components/order/order-status-badge';
+import OrderTimeline from '@/components/order/order-timeline';
+import type { OrderEvent, OrderStatus } from '@shared/schema';
+
+interface OrderTracking {
+  orderNumber: string;
+  status: OrderStatus;
+  carrier: string | null;
+  trackingNumber: string | null;
+  createdAt: string | null;
+  events: Pick<OrderEvent, 'id' | 'fromStatus' | 'toStatus' | 'createdAt'>[];
+}
+
+const TrackOrderPage = () => {
+  const { user } = useAuth();
+  const [orderNumber, setOrderNumber] = useState(new URLSearchParams(window.location.search).get('order') || '');
+  const [email, setEmail] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [tracking, setTracking] = useState<OrderTracking | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError('');
+    try {
+      const response = await apiRequest('POST', '/api/orders/track', { orderNumber, email });
+      setTracking(await response.json());
+    } catch (err) {
+      setTracking(null);
+      setError(parseApiError(err).status === 404
+        ? "We couldn't find an order with that order number and email. Check both and try again."
+        : 'Something went wrong. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-12">
+      <Helmet>
+        <title>Track Your Order | TaylorMade Performance</title>
+        <meta name="description" content="Check the status and tracking details of your TaylorMade Performance order." />
+      </Helmet>
+
+      <div className="max-w-2xl mx-auto space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Track your order</CardTitle>
+            <CardDescription>
+              Enter the order number from your confirmation email and the email address you checked out with.
+              {user && (
+                <> Signed in? Your orders are also under <Link href="/account/orders" className="text-primary hover:underline">My Orders</Link>.</>
+              )}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="order-number">Order number</Label>
+                <Input
+                  id="order-number"
+                  placeholder="ORD-..."
+                  value={orderNumber}
+                  onChange={(e) => setOrderNumber(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="order-email">Email</Label>
+                <Input
+                  id="order-email"
+                  type="email"
+                  autoComplete="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="md:col-span-2">
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting ? 'Looking up...' : 'Track Order'}
+                </Button>
+              </div>
+              {error && <p className="md:col-span-2 text-sm text-destructive">{error}</p>}
+            </form>
+          </CardContent>
+        </Card>
+
+        {tracking && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <div>
+                <CardTitle>Order {tracking.orderNumber}</CardTitle>
+                {tracking.createdAt && <CardDescription>Placed {formatDate(tracking.createdAt)}</CardDescription>}
+              </div>
+              <OrderStatusBadge status={tracking.status} />
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {tracking.trackingNumber ? (
+                <div className="flex items-start gap-2">
+                  <Truck className="h-5 w-5 mt-0.5 text-primary" />
+                  <div>
+                    <div className="font-medium">{tracking.carrier || 'Carrier'}</div>
+                    <div className="text-sm">Tracking #: <span className="font-medium">{tracking.trackingNumber}</span></div>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">Tracking details will appear here once your order ships.</p>
+              )}
+              <OrderTimeline events={tracking.events} />
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrackOrderPage;
@@ -0,0 +1,12 @@
+CREATE TABLE "product_fitments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"product_id" integer NOT NULL,
+	"vehicle_model_id" integer NOT NULL,
+	"year_from" integer NOT NULL,
+	"year_to" integer NOT NULL,
+	"variant" text,
+	"notes" text
+);
+--> statement-breakpoint
+ALTER TABLE "product_fitments" ADD CONSTRAINT "product_fitments_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "product_fitments" ADD CONSTRAINT "product_fitments_vehicle_model_id_vehicle_models_id_fk" FOREIGN KEY ("vehicle_model_id") REFERENCES "public"."vehicle_models"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "orders" ADD COLUMN "email" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "carrier" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "tracking_number" text;
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TABLE "processed_webhook_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"event_id" text NOT NULL,
+	"type" text NOT NULL,
+	"processed_at" timestamp DEFAULT now(),
+	CONSTRAINT "processed_webhook_events_event_id_unique" UNIQUE("event_id")
+);
@@ -0,0 +1,33 @@
+CREATE TABLE "return_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"return_request_id" integer NOT NULL,
+	"order_item_id" integer NOT NULL,
+	"quantity" integer NOT NULL,
+	"reason" text NOT NULL,
+	"restocking_fee_percent" integer DEFAULT 0 NOT NULL,
+	"restocking_fee" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"refund_amount" numeric(10, 2) DEFAULT '0' NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "return_requests" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"rma_number" text NOT NULL,
+	"order_id" integer NOT NULL,
+	"user_id" integer,
+	"status" text DEFAULT 'requested' NOT NULL,
+	"customer_note" text,
+	"staff_note" text,
+	"restocking_fee" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"refund_amount" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"refund_id" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "return_requests_rma_number_unique" UNIQUE("rma_number")
+);
+--> statement-breakpoint
+ALTER TABLE "order_items" ADD COLUMN "refunded_quantity" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "order_items" ADD COLUMN "refunded_amount" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "return_items" ADD CONSTRAINT "return_items_return_request_id_return_requests_id_fk" FOREIGN KEY ("return_request_id") REFERENCES "public"."return_requests"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "return_items" ADD CONSTRAINT "return_items_order_item_id_order_items_id_fk" FOREIGN KEY ("order_item_id") REFERENCES "public"."order_items"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "return_requests" ADD CONSTRAINT "return_requests_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "return_requests" ADD CONSTRAINT "return_requests_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,37 @@
+CREATE TABLE "promotion_redemptions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"promotion_id" integer NOT NULL,
+	"order_id" integer NOT NULL,
+	"user_id" integer,
+	"email" text NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "promotions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"code" text NOT NULL,
+	"description" text NOT NULL,
+	"type" text NOT NULL,
+	"value" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"min_subtotal" numeric(10, 2),
+	"product_ids" integer[] DEFAULT '{}' NOT NULL,
+	"category_ids" integer[] DEFAULT '{}' NOT NULL,
+	"brand_ids" integer[] DEFAULT '{}' NOT NULL,
+	"usage_limit" integer,
+	"per_customer_limit" integer,
+	"stackable" boolean DEFAULT false NOT NULL,
+	"starts_at" timestamp,
+	"ends_at" timestamp,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "promotions_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "discount" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "promotion_codes" text[] DEFAULT '{}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "promotion_redemptions" ADD CONSTRAINT "promotion_redemptions_promotion_id_promotions_id_fk" FOREIGN KEY ("promotion_id") REFERENCES "public"."promotions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "promotion_redemptions" ADD CONSTRAINT "promotion_redemptions_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "promotion_redemptions" ADD CONSTRAINT "promotion_redemptions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
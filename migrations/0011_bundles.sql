@@ -0,0 +1,13 @@
+CREATE TABLE "bundles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"product_id" integer NOT NULL,
+	"product_ids" integer[] NOT NULL,
+	"discount_percent" integer NOT NULL,
+	"source" text DEFAULT 'curated' NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "bundles" ADD CONSTRAINT "bundles_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,30 @@
+CREATE TABLE "analytics_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"type" text NOT NULL,
+	"session_id" text,
+	"user_id" integer,
+	"product_id" integer,
+	"quantity" integer,
+	"value" numeric(10, 2),
+	"order_id" integer,
+	"data" jsonb,
+	"occurred_at" timestamp NOT NULL,
+	"received_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "analytics_product_daily" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"day" date NOT NULL,
+	"product_id" integer NOT NULL,
+	"views" integer DEFAULT 0 NOT NULL,
+	"add_to_carts" integer DEFAULT 0 NOT NULL,
+	"cart_abandons" integer DEFAULT 0 NOT NULL,
+	"orders" integer DEFAULT 0 NOT NULL,
+	"units_sold" integer DEFAULT 0 NOT NULL,
+	"revenue" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "analytics_product_daily_day_product_unique" UNIQUE("day","product_id")
+);
+--> statement-breakpoint
+ALTER TABLE "analytics_events" ADD CONSTRAINT "analytics_events_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "analytics_events_occurred_at_idx" ON "analytics_events" USING btree ("occurred_at");
\ No newline at end of file
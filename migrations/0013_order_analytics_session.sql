@@ -0,0 +1 @@
+ALTER TABLE "orders" ADD COLUMN "analytics_session_id" text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+CREATE INDEX "analytics_events_session_id_idx" ON "analytics_events" USING btree ("session_id");--> statement-breakpoint
+CREATE INDEX "analytics_events_user_id_idx" ON "analytics_events" USING btree ("user_id");
\ No newline at end of file
@@ -0,0 +1,35 @@
+CREATE TABLE "supplier_products" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"supplier_id" integer NOT NULL,
+	"product_id" integer NOT NULL,
+	"supplier_sku" text NOT NULL,
+	"cost" numeric(10, 2) NOT NULL,
+	"minimum_order_quantity" integer DEFAULT 1 NOT NULL,
+	"lead_time_days" integer DEFAULT 0 NOT NULL,
+	"is_preferred" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "supplier_products_supplier_product_unique" UNIQUE("supplier_id","product_id")
+);
+--> statement-breakpoint
+CREATE TABLE "suppliers" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"website" text,
+	"contact_email" text,
+	"contact_phone" text,
+	"address" text,
+	"dropshipping" boolean DEFAULT true NOT NULL,
+	"minimum_order" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"return_window_days" integer DEFAULT 30 NOT NULL,
+	"restocking_fee_percent" integer DEFAULT 0 NOT NULL,
+	"payment_terms" text,
+	"notes" text,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "suppliers_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+ALTER TABLE "supplier_products" ADD CONSTRAINT "supplier_products_supplier_id_suppliers_id_fk" FOREIGN KEY ("supplier_id") REFERENCES "public"."suppliers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "supplier_products" ADD CONSTRAINT "supplier_products_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,39 @@
+CREATE TABLE "purchase_order_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"purchase_order_id" integer NOT NULL,
+	"order_item_id" integer NOT NULL,
+	"product_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"supplier_sku" text NOT NULL,
+	"quantity" integer NOT NULL,
+	"unit_cost" numeric(10, 2) NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"carrier" text,
+	"tracking_number" text,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "purchase_orders" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"po_number" text NOT NULL,
+	"order_id" integer NOT NULL,
+	"supplier_id" integer,
+	"supplier_name" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"sent_via" text,
+	"supplier_reference" text,
+	"subtotal" numeric(10, 2) NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"last_error" text,
+	"sent_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "purchase_orders_po_number_unique" UNIQUE("po_number"),
+	CONSTRAINT "purchase_orders_order_supplier_unique" UNIQUE("order_id","supplier_id")
+);
+--> statement-breakpoint
+ALTER TABLE "suppliers" ADD COLUMN "api_available" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "purchase_order_items" ADD CONSTRAINT "purchase_order_items_purchase_order_id_purchase_orders_id_fk" FOREIGN KEY ("purchase_order_id") REFERENCES "public"."purchase_orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "purchase_order_items" ADD CONSTRAINT "purchase_order_items_order_item_id_order_items_id_fk" FOREIGN KEY ("order_item_id") REFERENCES "public"."order_items"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_supplier_id_suppliers_id_fk" FOREIGN KEY ("supplier_id") REFERENCES "public"."suppliers"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
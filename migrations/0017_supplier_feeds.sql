@@ -0,0 +1,54 @@
+CREATE TABLE "feed_import_changes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"import_id" integer NOT NULL,
+	"kind" text NOT NULL,
+	"supplier_sku" text NOT NULL,
+	"product_id" integer,
+	"name" text NOT NULL,
+	"before" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"after" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"note" text
+);
+--> statement-breakpoint
+CREATE TABLE "feed_imports" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"supplier_id" integer NOT NULL,
+	"profile_id" integer,
+	"filename" text NOT NULL,
+	"status" text DEFAULT 'review' NOT NULL,
+	"row_count" integer DEFAULT 0 NOT NULL,
+	"unchanged_count" integer DEFAULT 0 NOT NULL,
+	"summary" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"row_errors" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"error" text,
+	"imported_by" integer,
+	"reviewed_by" integer,
+	"reviewed_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "supplier_feed_profiles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"supplier_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"format" text NOT NULL,
+	"column_mapping" jsonb NOT NULL,
+	"delimiter" text DEFAULT ',' NOT NULL,
+	"sheet" text,
+	"records_path" text,
+	"discontinue_missing" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "supplier_feed_profiles_supplier_name_unique" UNIQUE("supplier_id","name")
+);
+--> statement-breakpoint
+ALTER TABLE "feed_import_changes" ADD CONSTRAINT "feed_import_changes_import_id_feed_imports_id_fk" FOREIGN KEY ("import_id") REFERENCES "public"."feed_imports"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "feed_import_changes" ADD CONSTRAINT "feed_import_changes_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "feed_imports" ADD CONSTRAINT "feed_imports_supplier_id_suppliers_id_fk" FOREIGN KEY ("supplier_id") REFERENCES "public"."suppliers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "feed_imports" ADD CONSTRAINT "feed_imports_profile_id_supplier_feed_profiles_id_fk" FOREIGN KEY ("profile_id") REFERENCES "public"."supplier_feed_profiles"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "feed_imports" ADD CONSTRAINT "feed_imports_imported_by_users_id_fk" FOREIGN KEY ("imported_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "feed_imports" ADD CONSTRAINT "feed_imports_reviewed_by_users_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "supplier_feed_profiles" ADD CONSTRAINT "supplier_feed_profiles_supplier_id_suppliers_id_fk" FOREIGN KEY ("supplier_id") REFERENCES "public"."suppliers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "feed_import_changes_import_id_idx" ON "feed_import_changes" USING btree ("import_id");--> statement-breakpoint
+CREATE INDEX "feed_imports_supplier_id_idx" ON "feed_imports" USING btree ("supplier_id");
\ No newline at end of file
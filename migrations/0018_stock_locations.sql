@@ -0,0 +1,29 @@
+CREATE TABLE "stock_levels" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"location_id" integer NOT NULL,
+	"product_id" integer NOT NULL,
+	"quantity" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "stock_levels_location_product_unique" UNIQUE("location_id","product_id")
+);
+--> statement-breakpoint
+CREATE TABLE "stock_locations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"kind" text NOT NULL,
+	"supplier_id" integer,
+	"shipping_days_min" integer DEFAULT 1 NOT NULL,
+	"shipping_days_max" integer DEFAULT 2 NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "stock_locations_supplier_id_unique" UNIQUE("supplier_id")
+);
+--> statement-breakpoint
+ALTER TABLE "inventory_reservations" ADD COLUMN "location_id" integer;--> statement-breakpoint
+ALTER TABLE "stock_levels" ADD CONSTRAINT "stock_levels_location_id_stock_locations_id_fk" FOREIGN KEY ("location_id") REFERENCES "public"."stock_locations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stock_levels" ADD CONSTRAINT "stock_levels_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stock_locations" ADD CONSTRAINT "stock_locations_supplier_id_suppliers_id_fk" FOREIGN KEY ("supplier_id") REFERENCES "public"."suppliers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "inventory_reservations" ADD CONSTRAINT "inventory_reservations_location_id_stock_locations_id_fk" FOREIGN KEY ("location_id") REFERENCES "public"."stock_locations"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+INSERT INTO "stock_locations" ("name", "kind") SELECT 'Main Warehouse', 'warehouse' WHERE EXISTS (SELECT 1 FROM "products" WHERE "inventory_count" > 0);--> statement-breakpoint
+INSERT INTO "stock_levels" ("location_id", "product_id", "quantity") SELECT (SELECT min("id") FROM "stock_locations"), "id", "inventory_count" FROM "products" WHERE "inventory_count" > 0;--> statement-breakpoint
+UPDATE "inventory_reservations" SET "location_id" = (SELECT min("id") FROM "stock_locations") WHERE "status" IN ('active', 'committed');
@@ -0,0 +1 @@
+ALTER TABLE "orders" ADD COLUMN "stock_issue" text;
\ No newline at end of file
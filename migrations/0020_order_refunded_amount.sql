@@ -0,0 +1 @@
+ALTER TABLE "orders" ADD COLUMN "refunded_amount" numeric(10, 2) DEFAULT '0' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,275 @@
+import {
+  clientAnalyticsEventSchema,
+  funnelSteps,
+  type ClientAnalyticsEvent,
+  type FunnelReport,
+  type FunnelSegmentDimension,
+  type FunnelSegmentSummary,
+  type InsertAnalyticsEvent,
+  type ProductAnalyticsSummary,
+  type TrafficSource
+} from "@shared/schema";
+import { storage, type ProductActivity, type SessionFunnelGroup } from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ROLLUP_INTERVAL_MS = 60 * 60 * 1000;
+
+// Browser clocks can't be trusted: an event is placed no later than it arrived, and no more than a day before
+const MAX_EVENT_AGE_MS = DAY_MS;
+
+// "YYYY-MM-DD" in UTC, the calendar the rollups use
+export function utcDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+const SEARCH_HOSTS = /(^|\.)(google|bing|duckduckgo|yahoo|baidu|yandex|ecosia)\./;
+const SOCIAL_HOSTS = /(^|\.)(facebook|instagram|twitter|x|t|pinterest|reddit|youtube|tiktok|linkedin)\.(com|co)$/;
+const EMAIL_HOSTS = /(^|\.)(mail\.google|outlook\.live|mail\.yahoo)\.com$/;
+
+// Where a visit came from, by its referrer; the browser leaves out referrers from this site
+export function trafficSource(referrer: string | null): TrafficSource {
+  if (!referrer) return "direct";
+
+  let host: string;
+  try {
+    host = new URL(referrer).hostname.toLowerCase();
+  } catch {
+    return "referral";
+  }
+  if (EMAIL_HOSTS.test(host)) return "email";
+  if (SEARCH_HOSTS.test(host)) return "search";
+  if (SOCIAL_HOSTS.test(host)) return "social";
+  return "referral";
+}
+
+function toInsertEvents(event: ClientAnalyticsEvent, userId: number | null, occurredAt: Date): InsertAnalyticsEvent[] {
+  const base = { type: event.type, sessionId: event.sessionId, userId, occurredAt };
+  switch (event.type) {
+    case "session_start":
+      return [{
+        ...base,
+        data: { referrer: event.referrer, source: trafficSource(event.referrer), device: event.device, returning: event.returning }
+      }];
+    case "product_view":
+      return [{ ...base, productId: event.productId }];
+    case "add_to_cart":
+      return [{ ...base, productId: event.productId, quantity: event.quantity }];
+    case "cart_abandon":
+      // One row per product, so the rollup counts them like the other events
+      return Array.from(new Set(event.productIds)).map(productId => ({ ...base, productId }));
+    case "checkout_start":
+      return [base];
+  }
+}
+
+/**
+ * Stores a batch of events sent by the browser. Events that don't match the schema are
+ * dropped rather than failing the batch, since a beacon is never retried. Returns how many
+ * were kept.
+ */
+export async function ingestClientEvents(rawEvents: unknown[], userId: number | null, now: Date = new Date()): Promise<number> {
+  const events: InsertAnalyticsEvent[] = [];
+  let kept = 0;
+  for (const raw of rawEvents) {
+    const parsed = clientAnalyticsEventSchema.safeParse(raw);
+    if (!parsed.success) continue;
+
+    const occurredAt = Math.min(now.getTime(), Math.max(now.getTime() - MAX_EVENT_AGE_MS, parsed.data.occurredAt));
+    events.push(...toInsertEvents(parsed.data, userId, new Date(occurredAt)));
+    kept++;
+  }
+
+  await storage.recordAnalyticsEvents(events);
+  return kept;
+}
+
+// An order was paid: one purchase event per line, valued at the line's subtotal, in the session it was placed in
+export async function recordOrderPurchase(orderId: number, now: Date = new Date()) {
+  const order = await storage.getOrderById(orderId);
+  if (!order) return;
+
+  const items = await storage.getOrderItemsByOrderId(orderId);
+  await storage.recordAnalyticsEvents(items.map(item => ({
+    type: "purchase" as const,
+    sessionId: order.analyticsSessionId,
+    userId: order.userId,
+    productId: item.productId,
+    quantity: item.quantity,
+    value: item.subtotal,
+    orderId,
+    occurredAt: now
+  })));
+}
+
+// Recomputes one UTC day's per-product rollup from its events
+export async function rollupProductDay(day: string) {
+  const from = new Date(`${day}T00:00:00.000Z`);
+  const rows = await storage.summarizeProductActivity(from, new Date(from.getTime() + DAY_MS));
+  await storage.replaceProductDailyStats(day, rows);
+  return rows.length;
+}
+
+/**
+ * Keeps the daily rollups current: today's as it fills in and yesterday's, which can still
+ * get late events. Runs once straight away. Doesn't hold the process open.
+ */
+export function startAnalyticsRollup(intervalMs: number = ROLLUP_INTERVAL_MS) {
+  const run = async () => {
+    try {
+      const now = Date.now();
+      await rollupProductDay(utcDay(new Date(now - DAY_MS)));
+      await rollupProductDay(utcDay(new Date(now)));
+    } catch (error) {
+      console.error("Error rolling up analytics:", error);
+    }
+  };
+
+  run();
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  return timer;
+}
+
+/**
+ * Per-product totals over a range of UTC days, both ends included, busiest first. A range
+ * that includes today is rolled up first so it isn't an hour behind.
+ */
+export async function getProductAnalytics(from: string, to: string): Promise<ProductAnalyticsSummary[]> {
+  const today = utcDay(new Date());
+  if (from <= today && today <= to) await rollupProductDay(today);
+
+  const totals = new Map<number, ProductActivity>();
+  for (const stats of await storage.getProductDailyStats({ from, to })) {
+    const total = totals.get(stats.productId);
+    if (!total) {
+      totals.set(stats.productId, {
+        productId: stats.productId,
+        views: stats.views,
+        addToCarts: stats.addToCarts,
+        cartAbandons: stats.cartAbandons,
+        orders: stats.orders,
+        unitsSold: stats.unitsSold,
+        revenue: stats.revenue
+      });
+      continue;
+    }
+    total.views += stats.views;
+    total.addToCarts += stats.addToCarts;
+    total.cartAbandons += stats.cartAbandons;
+    total.orders += stats.orders;
+    total.unitsSold += stats.unitsSold;
+    total.revenue = (parseFloat(total.revenue) + parseFloat(stats.revenue)).toFixed(2);
+  }
+
+  const summaries: ProductAnalyticsSummary[] = [];
+  for (const total of Array.from(totals.values())) {
+    const product = await storage.getProductById(total.productId);
+    summaries.push({
+      ...total,
+      name: product?.name ?? null,
+      addToCartRate: total.views > 0 ? total.addToCarts / total.views : 0,
+      conversionRate: total.views > 0 ? total.orders / total.views : 0
+    });
+  }
+  return summaries.sort((a, b) => b.views - a.views || b.orders - a.orders);
+}
+
+const segmentOf: Record<FunnelSegmentDimension, (group: SessionFunnelGroup) => string> = {
+  device: group => group.mobile ? "mobile" : "desktop",
+  source: group => group.source,
+  visitor: group => group.returning ? "returning" : "new"
+};
+
+// Sessions reaching each funnel step, from how many stopped at each
+function reachedSteps(groups: SessionFunnelGroup[]): number[] {
+  const reached = funnelSteps.map(() => 0);
+  for (const group of groups) {
+    for (let step = 0; step <= group.step; step++) reached[step] += group.sessions;
+  }
+  return reached;
+}
+
+const sumRevenue = (groups: SessionFunnelGroup[]) =>
+  groups.reduce((sum, group) => sum + parseFloat(group.revenue), 0);
+
+const perSession = (revenue: number, sessions: number) =>
+  (sessions > 0 ? revenue / sessions : 0).toFixed(2);
+
+/**
+ * Follows the sessions started over a range of UTC days, both ends included, through the
+ * funnel: how many reached each step, overall and by device, traffic source and new or
+ * returning visitor, what they spent, and which products were most often left in carts.
+ * A session counts as reaching every step before the furthest one it got to.
+ */
+export async function getFunnelReport(from: string, to: string): Promise<FunnelReport> {
+  const start = new Date(`${from}T00:00:00.000Z`);
+  const end = new Date(new Date(`${to}T00:00:00.000Z`).getTime() + DAY_MS);
+  const groups = await storage.summarizeSessionFunnel(start, end);
+
+  const reached = reachedSteps(groups);
+  const steps = funnelSteps.map((step, index) => ({
+    step,
+    sessions: reached[index],
+    conversionRate: index === 0 ? 1 : reached[index - 1] > 0 ? reached[index] / reached[index - 1] : 0,
+    dropOff: index === 0 ? 0 : reached[index - 1] - reached[index]
+  }));
+
+  const segments: FunnelSegmentSummary[] = [];
+  for (const dimension of Object.keys(segmentOf) as FunnelSegmentDimension[]) {
+    const bySegment = new Map<string, SessionFunnelGroup[]>();
+    for (const group of groups) {
+      const segment = segmentOf[dimension](group);
+      bySegment.set(segment, [...(bySegment.get(segment) ?? []), group]);
+    }
+
+    for (const [segment, segmentGroups] of Array.from(bySegment)) {
+      const segmentSteps = reachedSteps(segmentGroups);
+      const revenue = sumRevenue(segmentGroups);
+      segments.push({
+        dimension,
+        segment,
+        sessions: segmentSteps[0],
+        steps: segmentSteps,
+        orders: segmentGroups.reduce((sum, group) => sum + group.orders, 0),
+        revenue: revenue.toFixed(2),
+        conversionRate: segmentSteps[0] > 0 ? segmentSteps[segmentSteps.length - 1] / segmentSteps[0] : 0,
+        revenuePerSession: perSession(revenue, segmentSteps[0])
+      });
+    }
+  }
+  segments.sort((a, b) => a.dimension.localeCompare(b.dimension) || b.sessions - a.sessions);
+
+  // Every day in the range, so quiet days show on the chart
+  const days = [];
+  for (let time = start.getTime(); time < end.getTime(); time += DAY_MS) {
+    const day = utcDay(new Date(time));
+    const dayGroups = groups.filter(group => group.day === day);
+    days.push({
+      day,
+      sessions: dayGroups.reduce((sum, group) => sum + group.sessions, 0),
+      convertedSessions: dayGroups
+        .filter(group => group.step === funnelSteps.length - 1)
+        .reduce((sum, group) => sum + group.sessions, 0),
+      revenue: sumRevenue(dayGroups).toFixed(2)
+    });
+  }
+
+  const topAbandoned = (await getProductAnalytics(from, to))
+    .filter(product => product.cartAbandons > 0)
+    .sort((a, b) => b.cartAbandons - a.cartAbandons || b.addToCarts - a.addToCarts)
+    .slice(0, 10);
+
+  const revenue = sumRevenue(groups);
+  return {
+    from,
+    to,
+    sessions: reached[0],
+    orders: groups.reduce((sum, group) => sum + group.orders, 0),
+    revenue: revenue.toFixed(2),
+    revenuePerSession: perSession(revenue, reached[0]),
+    steps,
+    segments,
+    days,
+    topAbandoned
+  };
+}
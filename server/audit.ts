@@ -0,0 +1,28 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+
+export interface AuditEntry {
+  action: string;         // "<resource>.<verb>", e.g. "product.create"
+  resourceType: string;
+  resourceId?: string | number | null;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Records a privileged action taken by the signed-in user.
+ * Failures are logged rather than thrown - the action itself has already happened.
+ */
+export async function recordAudit(req: Request, entry: AuditEntry): Promise<void> {
+  try {
+    await storage.createAuditLog({
+      userId: req.session.userId ?? null,
+      action: entry.action,
+      resourceType: entry.resourceType,
+      resourceId: entry.resourceId != null ? String(entry.resourceId) : null,
+      details: entry.details ?? null,
+      ipAddress: req.ip ?? null
+    });
+  } catch (error) {
+    console.error('Failed to write audit log:', error);
+  }
+}
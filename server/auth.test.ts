@@ -0,0 +1,62 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { mailer } from "./mailer";
+import { storage } from "./storage";
+import { generateToken } from "./auth";
+import { startTestServer, type TestServer } from "./test/http";
+import { createTestUser, TEST_PASSWORD } from "./test/fixtures";
+
+let server: TestServer;
+
+beforeAll(async () => {
+  server = await startTestServer();
+});
+
+afterAll(() => server.close());
+
+async function createResetToken(userId: number, expiresAt = new Date(Date.now() + 60_000)) {
+  const { token, tokenHash } = generateToken();
+  await storage.createPasswordResetToken({ userId, tokenHash, expiresAt });
+  return token;
+}
+
+describe("password resets", () => {
+  it("emails a link to APP_URL whatever Host the request came with", async () => {
+    const user = await createTestUser();
+    const send = vi.spyOn(mailer, "send").mockResolvedValue();
+
+    const { status } = await server.client().request("POST", "/api/users/password-reset", { email: user.email }, { host: "attacker.example.com" });
+
+    expect(status).toBe(200);
+    expect(send).toHaveBeenCalledWith(expect.objectContaining({
+      to: user.email,
+      text: expect.stringContaining("http://localhost:5000/reset-password?token=")
+    }));
+    expect(send.mock.calls[0][0].text).not.toContain("attacker.example.com");
+    send.mockRestore();
+  });
+
+  it("sets the new password once, and signs the user out everywhere", async () => {
+    const user = await createTestUser();
+    const elsewhere = server.client();
+    await elsewhere.signIn(user.email, TEST_PASSWORD);
+    const token = await createResetToken(user.id);
+
+    const first = await server.client().request("POST", "/api/users/password-reset/confirm", { token, password: "NewPassword456!" });
+    const again = await server.client().request("POST", "/api/users/password-reset/confirm", { token, password: "OtherPassword789!" });
+
+    expect(first.status).toBe(200);
+    expect(again.status).toBe(400);
+    expect((await elsewhere.request("GET", "/api/users/me")).status).toBe(401);
+    await server.client().signIn(user.email, "NewPassword456!");
+  });
+
+  it("turns down an expired link", async () => {
+    const user = await createTestUser();
+    const token = await createResetToken(user.id, new Date(Date.now() - 1000));
+
+    const { status, body } = await server.client().request("POST", "/api/users/password-reset/confirm", { token, password: "NewPassword456!" });
+
+    expect(status).toBe(400);
+    expect(body.message).toMatch(/invalid or has expired/);
+  });
+});
@@ -0,0 +1,182 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPgSimple from "connect-pg-simple";
+import { randomBytes, scrypt, timingSafeEqual, createHash } from "crypto";
+import { promisify } from "util";
+import type { User } from "@shared/schema";
+import { createPool } from "./db";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const SESSION_MAX_AGE = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+declare module "express-session" {
+  interface SessionData {
+    userId: number;
+    orderIds: number[]; // orders placed in this session, so guests can see their confirmation
+  }
+}
+
+// What the API exposes about a user - never the password hash
+export type PublicUser = Pick<User, "id" | "username" | "email" | "fullName" | "role">;
+
+export function toPublicUser(user: User): PublicUser {
+  return {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    fullName: user.fullName,
+    role: user.role
+  };
+}
+
+/**
+ * Hashes a password with scrypt. The result is "<hash>.<salt>", both hex encoded.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  if (!hash || !salt) return false;
+
+  const storedHash = Buffer.from(hash, "hex");
+  const suppliedHash = await scryptAsync(password, salt, KEY_LENGTH);
+  return storedHash.length === suppliedHash.length && timingSafeEqual(storedHash, suppliedHash);
+}
+
+// Random token for emailed links; only its hash is stored
+export function generateToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString("hex");
+  return { token, tokenHash: hashToken(token) };
+}
+
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+interface SessionStore {
+  store: session.Store;
+  // express-session can't look sessions up by user, so each store says how
+  destroyUserSessions(userId: number, keepSessionId: string | undefined): Promise<void>;
+}
+
+// Sessions live in Postgres alongside the rest of the data, otherwise in memory
+function createSessionStore(): SessionStore {
+  if (process.env.STORAGE_DRIVER === "postgres") {
+    const PgStore = connectPgSimple(session);
+    const pool = createPool();
+    return {
+      store: new PgStore({ pool, createTableIfMissing: true }),
+      async destroyUserSessions(userId, keepSessionId) {
+        await pool.query(
+          `DELETE FROM "session" WHERE sess->>'userId' = $1 AND sid <> $2`,
+          [String(userId), keepSessionId ?? ""]
+        );
+      }
+    };
+  }
+
+  const MemoryStore = createMemoryStore(session);
+  const store = new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+  return {
+    store,
+    async destroyUserSessions(userId, keepSessionId) {
+      const sessions = await new Promise<Record<string, session.SessionData>>((resolve, reject) => {
+        store.all((error, all) => error ? reject(error) : resolve(all ?? {}));
+      });
+      for (const [sessionId, data] of Object.entries(sessions)) {
+        if (data.userId === userId && sessionId !== keepSessionId) {
+          store.destroy(sessionId);
+        }
+      }
+    }
+  };
+}
+
+let sessionStore: SessionStore | null = null;
+
+/**
+ * Adds cookie-based sessions to the app. Must run before any route that reads req.session.
+ */
+export function setupAuth(app: Express) {
+  const isProduction = app.get("env") === "production";
+  const secret = process.env.SESSION_SECRET;
+
+  if (!secret) {
+    if (isProduction) {
+      throw new Error("SESSION_SECRET must be set in production");
+    }
+    console.warn("Missing SESSION_SECRET environment variable. Using an insecure development secret.");
+  }
+
+  if (isProduction) {
+    app.set("trust proxy", 1);
+  }
+
+  sessionStore = createSessionStore();
+  app.use(session({
+    store: sessionStore.store,
+    secret: secret || "dev-session-secret",
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: isProduction,
+      maxAge: SESSION_MAX_AGE
+    }
+  }));
+}
+
+// Starts a fresh session for the user, guarding against session fixation
+export function logIn(req: Request, user: User): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((error) => {
+      if (error) return reject(error);
+      req.session.userId = user.id;
+      req.session.save((saveError) => saveError ? reject(saveError) : resolve());
+    });
+  });
+}
+
+export function logOut(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.destroy((error) => error ? reject(error) : resolve());
+  });
+}
+
+/**
+ * Signs the user out everywhere but the given session, e.g. once their password has been
+ * reset, so whoever knew the old one is shut out.
+ */
+export async function destroyUserSessions(userId: number, keepSessionId?: string): Promise<void> {
+  if (!sessionStore) throw new Error("setupAuth must run before sessions can be destroyed");
+  await sessionStore.destroyUserSessions(userId, keepSessionId);
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.session.userId) {
+    res.status(401).json({ message: 'Not signed in' });
+    return;
+  }
+  next();
+}
+
+// For /api/users/:id/... routes: only the signed-in user may act on their own account
+export function requireSelf(req: Request, res: Response, next: NextFunction) {
+  if (!req.session.userId) {
+    res.status(401).json({ message: 'Not signed in' });
+    return;
+  }
+  if (req.session.userId !== parseInt(req.params.id)) {
+    res.status(403).json({ message: 'Forbidden' });
+    return;
+  }
+  next();
+}
@@ -0,0 +1,147 @@
+import type { Bundle, BundleOffer, Product } from "@shared/schema";
+import { storage, type IStorage } from "./storage";
+import { getBundleOffers } from "./ai/salesOptimization";
+import { log } from "./vite";
+
+// Auto bundles follow the recommendations as they change
+export const AUTO_BUNDLE_REFRESH_MS = 7 * 24 * 60 * 60 * 1000;
+// How often the background job looks for products whose auto bundle is due
+const AUTO_BUNDLE_SWEEP_MS = 24 * 60 * 60 * 1000;
+
+const toCents = (amount: string | number) => Math.round(parseFloat(String(amount)) * 100);
+const fromCents = (cents: number) => (cents / 100).toFixed(2);
+
+// Only products that can still be bought make it into a bundle
+async function activeProducts(productIds: number[]): Promise<Product[]> {
+  const found: Product[] = [];
+  for (const id of Array.from(new Set(productIds))) {
+    const product = await storage.getProductById(id);
+    if (product?.isActive) found.push(product);
+  }
+  return found;
+}
+
+/**
+ * Creates or refreshes a product's auto bundle from the sales recommendations, unless it was
+ * refreshed within the week and `force` isn't set. Does nothing once the product has a
+ * curated bundle, or when an admin switched its auto bundle off.
+ */
+export async function refreshAutoBundle(productId: number, force = false): Promise<Bundle | undefined> {
+  const existing = await storage.getBundles({ productId });
+  const auto = existing.find(bundle => bundle.source === "auto");
+  if (existing.some(bundle => bundle.source === "curated") || (auto && !auto.isActive)) return auto;
+  if (!force && auto?.updatedAt && Date.now() - auto.updatedAt.getTime() < AUTO_BUNDLE_REFRESH_MS) return auto;
+
+  const product = await storage.getProductById(productId);
+  if (!product?.isActive) return auto;
+
+  const offer = await getBundleOffers(productId, { viewedProducts: [productId] });
+  const items = await activeProducts(offer.bundleItems);
+  if (items.length < 2 || !items.some(item => item.id === productId)) return auto;
+
+  const bundle = {
+    name: `${product.name} bundle`,
+    productId,
+    productIds: items.map(item => item.id),
+    discountPercent: offer.discountPercent,
+  };
+  return auto ? storage.updateBundle(auto.id, bundle) : storage.createBundle(bundle, "auto");
+}
+
+// Refreshes the auto bundle of every product on sale; returns how many were written
+export async function refreshAutoBundles(force = false): Promise<number> {
+  const { products } = await storage.getProducts({ isActive: true });
+  let refreshed = 0;
+  for (const product of products) {
+    const auto = (await storage.getBundles({ productId: product.id })).find(bundle => bundle.source === "auto");
+    const updatedAt = auto?.updatedAt?.getTime();
+    const bundle = await refreshAutoBundle(product.id, force);
+    if (bundle && bundle.updatedAt?.getTime() !== updatedAt) refreshed++;
+  }
+  return refreshed;
+}
+
+/**
+ * Keeps auto bundles current in the background, so showing a product's bundles never writes.
+ * Runs once straight away. Doesn't hold the process open.
+ */
+export function startAutoBundleRefresher(intervalMs: number = AUTO_BUNDLE_SWEEP_MS) {
+  const run = async () => {
+    try {
+      const refreshed = await refreshAutoBundles();
+      if (refreshed > 0) log(`Refreshed ${refreshed} auto bundles`, "bundles");
+    } catch (error) {
+      console.error("Error refreshing auto bundles:", error);
+    }
+  };
+
+  run();
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  return timer;
+}
+
+// The bundles shown on a product's page, leaving out any with an item that's no longer sold
+export async function getProductBundleOffers(productId: number): Promise<BundleOffer[]> {
+  const offers: BundleOffer[] = [];
+  for (const bundle of await storage.getBundles({ productId, isActive: true })) {
+    const products = await activeProducts(bundle.productIds);
+    if (products.length !== bundle.productIds.length) continue;
+
+    const priceCents = products.reduce((sum, product) => sum + toCents(product.price), 0);
+    const discountCents = products.reduce((sum, product) => sum + itemDiscountCents(product, bundle), 0);
+    offers.push({
+      id: bundle.id,
+      name: bundle.name,
+      discountPercent: bundle.discountPercent,
+      products,
+      price: fromCents(priceCents),
+      bundlePrice: fromCents(priceCents - discountCents),
+    });
+  }
+  return offers;
+}
+
+export interface BundleLine {
+  product: Product;
+  quantity: number;
+}
+
+export interface AppliedBundle {
+  bundle: Bundle;
+  sets: number; // complete sets of the bundle in the cart
+  discountCents: number;
+  productDiscountCents: Map<number, number>; // by product, so later discounts see the net price
+}
+
+function itemDiscountCents(product: Product, bundle: Bundle): number {
+  return Math.round(toCents(product.price) * bundle.discountPercent / 100);
+}
+
+/**
+ * Works out the bundle discounts for a cart. A bundle counts once per complete set of its
+ * items, and each unit in the cart goes towards one bundle at most, the biggest saving first.
+ */
+export async function applyBundles(store: IStorage, lines: BundleLine[]): Promise<AppliedBundle[]> {
+  const products = new Map(lines.map(line => [line.product.id, line.product]));
+  const remaining = new Map(lines.map(line => [line.product.id, line.quantity]));
+  const setDiscountCents = (bundle: Bundle) =>
+    bundle.productIds.reduce((sum, id) => sum + itemDiscountCents(products.get(id)!, bundle), 0);
+
+  const candidates = (await store.getBundlesWithin(Array.from(products.keys())))
+    .sort((a, b) => setDiscountCents(b) - setDiscountCents(a));
+
+  const applied: AppliedBundle[] = [];
+  for (const bundle of candidates) {
+    const sets = Math.min(...bundle.productIds.map(id => remaining.get(id) ?? 0));
+    if (sets === 0) continue;
+
+    const productDiscountCents = new Map<number, number>();
+    for (const id of bundle.productIds) {
+      remaining.set(id, remaining.get(id)! - sets);
+      productDiscountCents.set(id, itemDiscountCents(products.get(id)!, bundle) * sets);
+    }
+    applied.push({ bundle, sets, discountCents: setDiscountCents(bundle) * sets, productDiscountCents });
+  }
+  return applied;
+}
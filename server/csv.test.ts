@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { formatCsv, parseCsv, splitHeader, unescapeCsvText } from "./csv";
+
+describe("splitHeader", () => {
+  it("finds the header under blank lines and numbers rows the way a spreadsheet does", () => {
+    const split = splitHeader(parseCsv("\r\n,\r\nsku,name\r\nA-1,Grips\r\n\r\nA-2,Pedals\r\n"));
+
+    expect(split).toEqual({
+      header: ["sku", "name"],
+      rows: [
+        { row: 4, cells: ["A-1", "Grips"] },
+        { row: 5, cells: [""] },
+        { row: 6, cells: ["A-2", "Pedals"] }
+      ]
+    });
+  });
+
+  it("finds no header in a file of blank lines", () => {
+    expect(splitHeader(parseCsv("\n \n"))).toBeUndefined();
+  });
+});
+
+describe("formatCsv", () => {
+  const rows = [["-10 mm spacer", "=HYPERLINK(\"http://example.com\")", 5]];
+
+  it("writes text as it is unless asked to guard against formulas", () => {
+    expect(formatCsv(rows)).toBe('-10 mm spacer,"=HYPERLINK(""http://example.com"")",5\r\n');
+  });
+
+  it("guards the columns asked for, in a way unescapeCsvText undoes", () => {
+    const csv = formatCsv(rows, { escapeFormulas: [1] });
+
+    expect(csv).toBe('-10 mm spacer,"\'=HYPERLINK(""http://example.com"")",5\r\n');
+    expect(parseCsv(csv)[0].map(unescapeCsvText)).toEqual(["-10 mm spacer", "=HYPERLINK(\"http://example.com\")", "5"]);
+    expect(formatCsv(rows, { escapeFormulas: true })).toMatch(/^'-10 mm spacer,/);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * CSV reading and writing, for the spreadsheets staff exchange with suppliers and each other
+ */
+
+/**
+ * Splits CSV text into rows of fields. Handles quoted fields with the delimiter, doubled
+ * quotes or line breaks in them, and either line ending. Blank lines are kept, as rows of
+ * one empty field, so callers can number rows the way a spreadsheet shows them.
+ */
+export function parseCsv(text: string, delimiter: string = ","): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  // A byte order mark from spreadsheet exports would end up in the first header
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char !== "\"") field += char;
+      else if (input[i + 1] === "\"") field += input[i++];
+      else quoted = false;
+    } else if (char === "\"" && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+export function isBlankRow(cells: string[]): boolean {
+  return cells.every(cell => cell.trim() === "");
+}
+
+export interface TableRow {
+  row: number; // as a spreadsheet numbers it, from 1 at the top of the file
+  cells: string[];
+}
+
+/**
+ * Splits a table into its header, the first row that isn't blank, and the rows under it.
+ * Undefined when there's nothing but blank rows.
+ */
+export function splitHeader(table: string[][]): { header: string[]; rows: TableRow[] } | undefined {
+  const headerIndex = table.findIndex(cells => !isBlankRow(cells));
+  if (headerIndex < 0) return undefined;
+
+  return {
+    header: table[headerIndex],
+    rows: table.slice(headerIndex + 1).map((cells, index) => ({ row: headerIndex + index + 2, cells }))
+  };
+}
+
+// Spreadsheet apps run a cell that starts with one of these as a formula
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * A quote in front makes spreadsheets show such a cell as text. Text that already starts
+ * with a quote gets another, so unescapeCsvText can tell the two apart.
+ */
+const escapeCsvText = (text: string) => FORMULA_START.test(text) || text.startsWith("'") ? `'${text}` : text;
+
+// Undoes formatCsv's guard against formulas, for files read back in
+export function unescapeCsvText(text: string): string {
+  return text.startsWith("'") && (FORMULA_START.test(text.slice(1)) || text[1] === "'") ? text.slice(1) : text;
+}
+
+const csvField = (value: string | number, escapeFormula: boolean) => {
+  const text = typeof value === "number" ? String(value) : escapeFormula ? escapeCsvText(value) : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export interface CsvOptions {
+  // The columns to guard against formulas, by position, or all of them. None by default.
+  escapeFormulas?: boolean | readonly number[];
+}
+
+/**
+ * Joins rows of fields into CSV text, quoting only the fields that need it. Formulas are
+ * neutralised in the columns asked for, which should be those holding text from outside,
+ * like customers' addresses; other programs read escaped text with its quote in front.
+ */
+export function formatCsv(rows: (string | number)[][], { escapeFormulas = false }: CsvOptions = {}): string {
+  const escapes = (column: number) => escapeFormulas === true || (Array.isArray(escapeFormulas) && escapeFormulas.includes(column));
+  return rows.map(row => row.map((value, column) => csvField(value, escapes(column))).join(",")).join("\r\n") + "\r\n";
+}
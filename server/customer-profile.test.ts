@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { buildCustomerProfile } from "./customer-profile";
+import { storage } from "./storage";
+import { createTestOrder, createTestProduct, createTestUser, uniqueSessionId } from "./test/fixtures";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date();
+const ago = (ms: number) => new Date(now.getTime() - ms);
+
+describe("buildCustomerProfile", () => {
+  it("builds a guest's profile from their session alone", async () => {
+    const sessionId = uniqueSessionId();
+    const [first, second, abandoned] = await Promise.all([createTestProduct(), createTestProduct(), createTestProduct()]);
+    await storage.recordAnalyticsEvents([
+      { type: "session_start", sessionId, occurredAt: ago(120_000), data: { device: { mobileDevice: true }, source: "google" } },
+      { type: "product_view", sessionId, productId: first.id, occurredAt: ago(90_000) },
+      { type: "product_view", sessionId, productId: second.id, occurredAt: ago(60_000) },
+      { type: "product_view", sessionId, productId: first.id, occurredAt: ago(30_000) },
+      { type: "cart_abandon", sessionId, productId: abandoned.id, occurredAt: ago(0) },
+      // Someone else's session
+      { type: "product_view", sessionId: uniqueSessionId(), productId: abandoned.id, occurredAt: ago(10_000) }
+    ]);
+
+    const profile = await buildCustomerProfile({ userId: null, sessionId }, now);
+
+    expect(profile).toEqual({
+      userId: null,
+      sessionId,
+      viewedProducts: [first.id, second.id],
+      purchaseHistory: undefined,
+      cartAbandons: [abandoned.id],
+      timeOnSite: 120,
+      deviceType: "mobile",
+      referrer: "google"
+    });
+  });
+
+  it("knows nothing about a guest without a session", async () => {
+    const profile = await buildCustomerProfile({ userId: null, sessionId: null }, now);
+
+    expect(profile).toMatchObject({ viewedProducts: [], cartAbandons: [], purchaseHistory: undefined, timeOnSite: 0 });
+    expect(profile.deviceType).toBeUndefined();
+  });
+
+  it("leaves out activity from more than 90 days ago", async () => {
+    const sessionId = uniqueSessionId();
+    const [recent, old] = await Promise.all([createTestProduct(), createTestProduct()]);
+    await storage.recordAnalyticsEvents([
+      { type: "product_view", sessionId, productId: recent.id, occurredAt: ago(89 * DAY_MS) },
+      { type: "product_view", sessionId, productId: old.id, occurredAt: ago(91 * DAY_MS) }
+    ]);
+
+    const profile = await buildCustomerProfile({ userId: null, sessionId }, now);
+
+    expect(profile.viewedProducts).toEqual([recent.id]);
+  });
+
+  it("adds a signed-in customer's other sessions and orders", async () => {
+    const user = await createTestUser();
+    const currentSession = uniqueSessionId();
+    const [viewedElsewhere, bought, cancelled, abandonedThenBought] = await Promise.all([
+      createTestProduct(), createTestProduct(), createTestProduct(), createTestProduct()
+    ]);
+    await storage.recordAnalyticsEvents([
+      { type: "session_start", sessionId: uniqueSessionId(), userId: user.id, occurredAt: ago(DAY_MS), data: { device: { mobileDevice: false } } },
+      { type: "product_view", sessionId: uniqueSessionId(), userId: user.id, productId: viewedElsewhere.id, occurredAt: ago(DAY_MS) },
+      { type: "cart_abandon", sessionId: currentSession, userId: user.id, productId: abandonedThenBought.id, occurredAt: ago(60_000) }
+    ]);
+    await createTestOrder(user.id, [bought, abandonedThenBought], "delivered");
+    await createTestOrder(user.id, [cancelled], "cancelled");
+
+    const profile = await buildCustomerProfile({ userId: user.id, sessionId: currentSession }, now);
+
+    expect(profile.userId).toBe(user.id);
+    expect(profile.viewedProducts).toEqual([viewedElsewhere.id]);
+    expect(profile.purchaseHistory).toEqual(expect.arrayContaining([bought.id, abandonedThenBought.id]));
+    expect(profile.purchaseHistory).not.toContain(cancelled.id);
+    expect(profile.cartAbandons).toEqual([]);
+    expect(profile.deviceType).toBe("desktop");
+    expect(profile.referrer).toBeUndefined();
+  });
+
+  it("doesn't count an order that's still pending as a purchase", async () => {
+    const user = await createTestUser();
+    await createTestOrder(user.id, [await createTestProduct()], "pending");
+
+    const profile = await buildCustomerProfile({ userId: user.id, sessionId: null }, now);
+
+    expect(profile.purchaseHistory).toBeUndefined();
+  });
+});
@@ -0,0 +1,70 @@
+import type { AnalyticsEvent, OrderStatus } from "@shared/schema";
+import type { CustomerData } from "./ai/salesOptimization";
+import { storage } from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PROFILE_HISTORY_MS = 90 * DAY_MS;
+const MAX_PROFILE_EVENTS = 500;
+
+// Orders that never went through, or were given back in full, aren't purchases
+const UNPURCHASED_STATUSES: readonly OrderStatus[] = ["pending", "cancelled", "refunded"];
+
+// What's known about a shopper, in the shape segmentation and recommendations take
+export interface CustomerProfile extends CustomerData {
+  userId: number | null;
+  sessionId: string | null;
+}
+
+// Product ids in the order given, each once
+const distinctProductIds = (events: AnalyticsEvent[]) =>
+  Array.from(new Set(events.flatMap(event => event.productId !== null ? [event.productId] : [])));
+
+/**
+ * Assembles a shopper's profile from the last 90 days of their storefront activity and,
+ * when they're signed in, their orders. A guest is known only by their browser's analytics
+ * session; a signed-in customer's activity in other sessions counts too.
+ */
+export async function buildCustomerProfile(
+  shopper: { userId: number | null; sessionId: string | null },
+  now: Date = new Date()
+): Promise<CustomerProfile> {
+  const events = await storage.getShopperEvents({
+    sessionId: shopper.sessionId ?? undefined,
+    userId: shopper.userId ?? undefined,
+    since: new Date(now.getTime() - PROFILE_HISTORY_MS),
+    limit: MAX_PROFILE_EVENTS
+  });
+
+  const purchased = new Set(distinctProductIds(events.filter(event => event.type === "purchase")));
+  if (shopper.userId !== null) {
+    for (const order of await storage.getOrdersByUserId(shopper.userId)) {
+      if (UNPURCHASED_STATUSES.includes(order.status)) continue;
+      for (const item of await storage.getOrderItemsByOrderId(order.id)) purchased.add(item.productId);
+    }
+  }
+
+  // Events are newest first, so these are too
+  const viewedProducts = distinctProductIds(events.filter(event => event.type === "product_view"));
+  const cartAbandons = distinctProductIds(events.filter(event => event.type === "cart_abandon"))
+    .filter(productId => !purchased.has(productId));
+
+  // Device and traffic source as of the latest visit; time on site for the current one
+  const lastStart = events.find(event => event.type === "session_start");
+  const device = lastStart?.data?.device as { mobileDevice?: boolean } | undefined;
+  const sessionEvents = events.filter(event => shopper.sessionId !== null && event.sessionId === shopper.sessionId);
+  const timeOnSite = sessionEvents.length > 0
+    ? Math.round((sessionEvents[0].occurredAt.getTime() - sessionEvents[sessionEvents.length - 1].occurredAt.getTime()) / 1000)
+    : 0;
+
+  return {
+    userId: shopper.userId,
+    sessionId: shopper.sessionId,
+    viewedProducts,
+    // determineFunnelStep reads a missing history, not an empty one, as someone who hasn't bought
+    purchaseHistory: purchased.size > 0 ? Array.from(purchased) : undefined,
+    cartAbandons,
+    timeOnSite,
+    deviceType: device ? (device.mobileDevice ? "mobile" : "desktop") : undefined,
+    referrer: typeof lastStart?.data?.source === "string" ? lastStart.data.source : undefined
+  };
+}
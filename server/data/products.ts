@@ -2,7 +2,7 @@
  * Real UTV parts and accessories database
  * These are actual products dropshippers can source from suppliers
  */
-import { Supplier, utvPartSuppliers } from './suppliers';
+import { Supplier, suppliers } from './suppliers';
 
 export interface Product {
   id: number;
@@ -95,15 +95,15 @@ export const utvProducts: Product[] = [
   },
   {
     id: 2,
-    name: "SuperATV 6" Lift Kit for Polaris Ranger 1000 XP",
+    name: "SuperATV 6\" Lift Kit for Polaris Ranger 1000 XP",
     slug: "superatv-6-inch-lift-kit-polaris-ranger-1000-xp",
     sku: "SAT-LK-P-RAN1K-6",
-    description: "Take your Ranger's ground clearance and performance to new heights with SuperATV's 6" Lift Kit. This comprehensive kit includes everything needed for a complete transformation, allowing for larger tires and improved off-road capabilities.",
+    description: "Take your Ranger's ground clearance and performance to new heights with SuperATV's 6\" Lift Kit. This comprehensive kit includes everything needed for a complete transformation, allowing for larger tires and improved off-road capabilities.",
     features: [
       "Includes front and rear brackets, A-arms, and trailing arms",
       "High-clearance design for extreme terrain",
       "Maintains factory geometry for ride quality",
-      "Accommodates up to 35" tires",
+      "Accommodates up to 35\" tires",
       "Made from 100% American steel",
       "Complete hardware and instructions included"
     ],
@@ -138,8 +138,8 @@ export const utvProducts: Product[] = [
     videoUrl: "https://www.youtube.com/watch?v=PsXVZrU_RuU",
     installationTime: "4-6 hours",
     installationDifficulty: "Advanced",
-    metaTitle: "SuperATV 6" Lift Kit for Polaris Ranger 1000 XP | Taylor Made Performance",
-    metaDescription: "Transform your Polaris Ranger with SuperATV's 6" Lift Kit - fits up to 35" tires, made with American steel, and provides extreme ground clearance for any terrain.",
+    metaTitle: "SuperATV 6\" Lift Kit for Polaris Ranger 1000 XP | Taylor Made Performance",
+    metaDescription: "Transform your Polaris Ranger with SuperATV's 6\" Lift Kit - fits up to 35\" tires, made with American steel, and provides extreme ground clearance for any terrain.",
     dateAdded: new Date("2022-09-12")
   },
 
@@ -773,7 +773,7 @@ export const utvBrands: Brand[] = [
 
 // Helper to get supplier by ID
 export function getSupplierById(id: number): Supplier | undefined {
-  return utvPartSuppliers.find(supplier => supplier.id === id);
+  return suppliers.find(supplier => supplier.id === id);
 }
 
 // Helper to get product by ID
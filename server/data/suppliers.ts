@@ -12,6 +12,8 @@ export interface Supplier {
   processingTime: string;
   shippingTime: string;
   returnPolicy: string;
+  returnWindowDays: number; // from delivery
+  restockingFeePercent: number; // only on returns that aren't the product's fault
   categories: string[];
   contact: {
     email: string;
@@ -38,6 +40,8 @@ export const suppliers: Supplier[] = [
     processingTime: "1-2 business days",
     shippingTime: "3-5 business days",
     returnPolicy: "30-day money-back guarantee on unused products",
+    returnWindowDays: 30,
+    restockingFeePercent: 0,
     categories: ["Lift Kits", "Axles", "Portals", "Windshields", "Doors", "Bumpers", "Wheels", "Lighting"],
     contact: {
       email: "dealer@superatv.com",
@@ -62,6 +66,8 @@ export const suppliers: Supplier[] = [
     processingTime: "2-3 business days",
     shippingTime: "4-7 business days",
     returnPolicy: "15-day return policy, 15% restocking fee",
+    returnWindowDays: 15,
+    restockingFeePercent: 15,
     categories: ["Doors", "Cages", "Seats", "Harnesses", "Wheels", "Tires", "Protection", "Lighting"],
     contact: {
       email: "sales@proarmor.com",
@@ -86,6 +92,8 @@ export const suppliers: Supplier[] = [
     processingTime: "1-3 business days",
     shippingTime: "3-6 business days",
     returnPolicy: "30-day return policy, 20% restocking fee on non-defective returns",
+    returnWindowDays: 30,
+    restockingFeePercent: 20,
     categories: ["Lift Kits", "Axles", "Snorkels", "Mud Products", "Clutch Kits", "Radiator Relocation"],
     contact: {
       email: "dealers@highlifter.com",
@@ -110,6 +118,8 @@ export const suppliers: Supplier[] = [
     processingTime: "1-2 business days",
     shippingTime: "2-5 business days",
     returnPolicy: "Return within 90 days, free return shipping for exchanges",
+    returnWindowDays: 90,
+    restockingFeePercent: 0,
     categories: ["Wheels", "Tires", "Bumpers", "Winches", "Mirrors", "Storage", "Plows", "Cargo"],
     contact: {
       email: "dealer@rockymountainatvmc.com",
@@ -134,6 +144,8 @@ export const suppliers: Supplier[] = [
     processingTime: "2-4 business days",
     shippingTime: "4-7 business days",
     returnPolicy: "14-day return policy, 25% restocking fee",
+    returnWindowDays: 14,
+    restockingFeePercent: 25,
     categories: ["Seats", "Doors", "Steering Wheels", "Cages", "Storage", "Racing Components"],
     contact: {
       email: "dealersupport@dragonfireracing.com",
@@ -158,6 +170,8 @@ export const suppliers: Supplier[] = [
     processingTime: "1-3 business days",
     shippingTime: "3-5 business days",
     returnPolicy: "30-day return policy, must be in original packaging",
+    returnWindowDays: 30,
+    restockingFeePercent: 0,
     categories: ["Sound Systems", "Speakers", "Subwoofers", "Amplifiers", "Sound Bars"],
     contact: {
       email: "dealers@mtx.com",
@@ -182,6 +196,8 @@ export const suppliers: Supplier[] = [
     processingTime: "2-3 business days",
     shippingTime: "5-8 business days",
     returnPolicy: "No returns on mounted tires, 30 days for unmounted",
+    returnWindowDays: 30,
+    restockingFeePercent: 0,
     categories: ["Tires", "Wheels"],
     contact: {
       email: "sales@efxtires.com",
@@ -206,6 +222,8 @@ export const suppliers: Supplier[] = [
     processingTime: "2-4 business days",
     shippingTime: "3-6 business days",
     returnPolicy: "30-day return policy, must be in original packaging with proof of purchase",
+    returnWindowDays: 30,
+    restockingFeePercent: 0,
     categories: ["LED Lighting", "Light Bars", "Spot Lights", "Work Lights", "Mounting Brackets"],
     contact: {
       email: "dealers@rigidindustries.com",
@@ -230,6 +248,8 @@ export const suppliers: Supplier[] = [
     processingTime: "1-2 business days",
     shippingTime: "2-5 business days",
     returnPolicy: "90-day return policy, 15% restocking fee",
+    returnWindowDays: 90,
+    restockingFeePercent: 15,
     categories: ["Air Filters", "Intake Systems", "Oil Filters", "Air Filter Cleaners"],
     contact: {
       email: "tech@knfilters.com",
@@ -254,6 +274,8 @@ export const suppliers: Supplier[] = [
     processingTime: "3-5 business days",
     shippingTime: "5-8 business days",
     returnPolicy: "30-day return policy, must be uninstalled and in original condition",
+    returnWindowDays: 30,
+    restockingFeePercent: 0,
     categories: ["Wheels", "Beadlock Wheels", "Wheel Accessories"],
     contact: {
       email: "dealers@methodracewheels.com",
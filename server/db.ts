@@ -0,0 +1,27 @@
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-serverless';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Any Drizzle Postgres database built with our schema.
+ * Neon in production, but node-postgres or pg-mem work just as well for local testing.
+ */
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+// Connections to the configured Postgres database
+export function createPool(connectionString = process.env.DATABASE_URL): Pool {
+  if (!connectionString) {
+    throw new Error("DATABASE_URL must be set. Did you forget to provision a database?");
+  }
+
+  return new Pool({ connectionString });
+}
+
+// Create a Drizzle client for the configured Postgres database
+export function createDatabase(connectionString = process.env.DATABASE_URL): Database {
+  return drizzle({ client: createPool(connectionString), schema });
+}
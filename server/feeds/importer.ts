@@ -0,0 +1,354 @@
+/**
+ * Supplier catalog and price feed imports
+ *
+ * A feed is read with one of its supplier's profiles and diffed, by supplier SKU, against
+ * the products we get from that supplier. The differences are saved as the import's change
+ * set and nothing in the catalog changes until staff apply it, in whole or in part.
+ */
+
+import type {
+  FeedChangeKind,
+  FeedField,
+  FeedImport,
+  FeedImportChange,
+  FeedProductValues,
+  FeedRowError,
+  InsertFeedImportChange,
+  Product,
+  Supplier,
+  SupplierFeedProfile,
+  SupplierProduct
+} from "@shared/schema";
+import { storage } from "../storage";
+import { supplierStockLocation } from "../inventory";
+import { getMinimumMargin } from "../data/suppliers";
+import { FeedFormatError, readFeed, type FeedRecord } from "./parse";
+
+// Thrown when an import can't be applied or discarded as asked
+export class FeedImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FeedImportError";
+  }
+}
+
+// A feed row that can't be used, for the import's row errors
+class FeedRowProblem extends Error {}
+
+// Past this, an import's row errors are only counted; the feed is likely mapped wrong
+const MAX_ROW_ERRORS = 200;
+
+const discontinuedValues = new Set(["1", "true", "yes", "y", "x", "discontinued"]);
+
+interface FeedProduct {
+  supplierSku: string;
+  discontinued: boolean;
+  values: FeedProductValues;
+}
+
+function parseAmount(value: string, field: string): string {
+  const amount = value.replace(/[$,\s]/g, "");
+  if (!/^\d+(\.\d+)?$/.test(amount)) throw new FeedRowProblem(`"${value}" isn't a ${field}`);
+  return parseFloat(amount).toFixed(2);
+}
+
+function parseRecord({ values }: FeedRecord): FeedProduct {
+  const field = (name: FeedField) => values[name]?.trim() || undefined;
+
+  const supplierSku = field("supplierSku");
+  if (!supplierSku) throw new FeedRowProblem("No supplier SKU");
+
+  const product: FeedProduct = {
+    supplierSku,
+    discontinued: discontinuedValues.has(field("discontinued")?.toLowerCase() ?? ""),
+    values: {}
+  };
+
+  const name = field("name");
+  const description = field("description");
+  const cost = field("cost");
+  const price = field("price");
+  const stock = field("stock");
+  if (name) product.values.name = name;
+  if (description) product.values.description = description;
+  if (cost) product.values.cost = parseAmount(cost, "cost");
+  if (price) product.values.price = parseAmount(price, "price");
+  if (stock) {
+    const count = stock.replace(/[,\s]/g, "");
+    if (!/^\d+(\.0+)?$/.test(count)) throw new FeedRowProblem(`"${stock}" isn't a stock level`);
+    product.values.stock = parseInt(count, 10);
+  }
+  return product;
+}
+
+function discontinuedChange(link: SupplierProduct, product: Product): InsertFeedImportChange {
+  return {
+    kind: "discontinued",
+    supplierSku: link.supplierSku,
+    productId: product.id,
+    name: product.name,
+    before: { cost: link.cost },
+    after: {}
+  };
+}
+
+/**
+ * What applying the feed would change. Only the fields the profile maps are compared, and
+ * stock only when the supplier dropships, against what its stock location holds.
+ */
+async function diffFeed(profile: SupplierFeedProfile, records: FeedRecord[]) {
+  const changes: InsertFeedImportChange[] = [];
+  const rowErrors: FeedRowError[] = [];
+  let unchangedCount = 0;
+
+  const links = await storage.getSupplierProducts({ supplierId: profile.supplierId });
+  const supplier = await storage.getSupplierById(profile.supplierId);
+  const location = await storage.getStockLocationBySupplierId(profile.supplierId);
+  const levels = location ? await storage.getStockLevels({ locationId: location.id }) : [];
+  const stockOf = (productId: number) => levels.find(level => level.productId === productId)?.quantity ?? 0;
+  const linksBySku = new Map(links.map(link => [link.supplierSku.toLowerCase(), link]));
+  const listed = new Set<string>();
+
+  for (const record of records) {
+    let feedProduct: FeedProduct;
+    try {
+      feedProduct = parseRecord(record);
+      if (listed.has(feedProduct.supplierSku.toLowerCase())) {
+        throw new FeedRowProblem("Listed more than once; only the first is used");
+      }
+    } catch (error) {
+      if (!(error instanceof FeedRowProblem)) throw error;
+      rowErrors.push({ row: record.row, supplierSku: record.values.supplierSku?.trim() || undefined, message: error.message });
+      continue;
+    }
+
+    const { supplierSku, discontinued, values } = feedProduct;
+    listed.add(supplierSku.toLowerCase());
+
+    const link = linksBySku.get(supplierSku.toLowerCase());
+    const product = link && await storage.getProductById(link.productId);
+    if (!link || !product) {
+      // Discontinued products we never carried are nothing to us
+      if (discontinued) {
+        unchangedCount++;
+        continue;
+      }
+      if (!values.name || !values.cost) {
+        rowErrors.push({ row: record.row, supplierSku, message: "A new product needs a name and a cost" });
+        continue;
+      }
+      // A product we already sell under the same SKU only needs this supplier's cost adding
+      const existing = await storage.getProductBySku(supplierSku);
+      changes.push({ kind: "new_product", supplierSku, productId: existing?.id ?? null, name: values.name, before: {}, after: values });
+      continue;
+    }
+
+    if (discontinued) {
+      changes.push(discontinuedChange(link, product));
+      continue;
+    }
+
+    let changed = false;
+    const before: FeedProductValues = {};
+    const after: FeedProductValues = {};
+    if (values.cost !== undefined && values.cost !== link.cost) {
+      before.cost = link.cost;
+      after.cost = values.cost;
+    }
+    if (values.price !== undefined && values.price !== product.price) {
+      before.price = product.price;
+      after.price = values.price;
+    }
+    if (Object.keys(after).length > 0) {
+      changes.push({ kind: "price_change", supplierSku, productId: product.id, name: product.name, before, after });
+      changed = true;
+    }
+
+    if (supplier?.dropshipping && values.stock !== undefined && values.stock !== stockOf(product.id)) {
+      changes.push({
+        kind: "stock_change",
+        supplierSku,
+        productId: product.id,
+        name: product.name,
+        before: { stock: stockOf(product.id) },
+        after: { stock: values.stock }
+      });
+      changed = true;
+    }
+
+    if (!changed) unchangedCount++;
+  }
+
+  if (profile.discontinueMissing) {
+    for (const link of links) {
+      if (listed.has(link.supplierSku.toLowerCase())) continue;
+      const product = await storage.getProductById(link.productId);
+      if (product) changes.push(discontinuedChange(link, product));
+    }
+  }
+
+  return { changes, rowErrors, unchangedCount };
+}
+
+/**
+ * Reads and diffs a feed into an import for staff to review. A feed that can't be read at
+ * all is still recorded, as a failed import with the reason.
+ */
+export async function importFeed(
+  profile: SupplierFeedProfile,
+  file: { filename: string; content: Buffer },
+  importedBy: number | null
+): Promise<FeedImport> {
+  const base = { supplierId: profile.supplierId, profileId: profile.id, filename: file.filename, importedBy };
+
+  let records: FeedRecord[];
+  try {
+    records = readFeed(file.content, profile);
+  } catch (error) {
+    if (!(error instanceof FeedFormatError)) throw error;
+    return storage.createFeedImport({ ...base, status: "failed", error: error.message }, []);
+  }
+
+  const { changes, rowErrors, unchangedCount } = await diffFeed(profile, records);
+  const summary: Partial<Record<FeedChangeKind, number>> = {};
+  for (const change of changes) {
+    summary[change.kind] = (summary[change.kind] ?? 0) + 1;
+  }
+
+  return storage.createFeedImport({
+    ...base,
+    status: "review",
+    rowCount: records.length,
+    unchangedCount,
+    summary,
+    rowErrors: rowErrors.slice(0, MAX_ROW_ERRORS)
+  }, changes);
+}
+
+function slugFor(text: string): string {
+  return text.toLowerCase().replace(/[^\w\s-]/g, "").trim().replace(/[\s_]+/g, "-").replace(/-+/g, "-");
+}
+
+// The lowest price that still makes the minimum margin on a cost
+function priceAtMinimumMargin(cost: string): string {
+  return (parseFloat(cost) / (1 - getMinimumMargin() / 100)).toFixed(2);
+}
+
+/**
+ * New products are created inactive, so they only go on sale once staff have added
+ * photos and a category. Without a price in the feed they're priced at the minimum margin.
+ * The feed's stock is recorded at the supplier's location.
+ */
+async function applyNewProduct(change: FeedImportChange, supplier: Supplier): Promise<number> {
+  const supplierId = supplier.id;
+  const { after } = change;
+  let productId = change.productId;
+
+  if (productId === null) {
+    const name = after.name ?? change.name;
+    let slug = slugFor(name);
+    if (await storage.getProductBySlug(slug)) slug = `${slug}-${slugFor(change.supplierSku)}`;
+    if (await storage.getProductBySku(change.supplierSku)) {
+      throw new Error(`Another product already has SKU ${change.supplierSku}`);
+    }
+
+    const product = await storage.createProduct({
+      sku: change.supplierSku,
+      name,
+      slug,
+      description: after.description ?? "",
+      price: after.price ?? priceAtMinimumMargin(after.cost!),
+      images: [],
+      inventoryCount: 0,
+      isActive: false
+    });
+    productId = product.id;
+  }
+
+  const existing = await storage.getSupplierProducts({ supplierId, productId });
+  if (existing.length > 0) throw new Error("This supplier's cost for the product is already on file");
+  await storage.createSupplierProduct({ supplierId, productId, supplierSku: change.supplierSku, cost: after.cost! });
+  if (supplier.dropshipping && after.stock !== undefined) {
+    await storage.setStockLevel(productId, (await supplierStockLocation(supplier)).id, after.stock);
+  }
+  return productId;
+}
+
+async function applyChange(change: FeedImportChange, supplier: Supplier): Promise<number | null> {
+  if (change.kind === "new_product") return applyNewProduct(change, supplier);
+
+  const supplierId = supplier.id;
+  if (change.productId === null) throw new Error("The product has since been deleted");
+  const [link] = await storage.getSupplierProducts({ supplierId, productId: change.productId });
+  if (!link) throw new Error("The supplier's cost for the product has since been removed");
+
+  switch (change.kind) {
+    case "price_change":
+      if (change.after.cost !== undefined) await storage.updateSupplierProduct(link.id, { cost: change.after.cost });
+      if (change.after.price !== undefined) await storage.updateProduct(change.productId, { price: change.after.price });
+      break;
+    case "stock_change":
+      await storage.setStockLevel(change.productId, (await supplierStockLocation(supplier)).id, change.after.stock ?? 0);
+      break;
+    case "discontinued":
+      // The product stays on sale while another supplier still carries it
+      await storage.deleteSupplierProduct(link.id);
+      if ((await storage.getSupplierProducts({ productId: change.productId })).length === 0) {
+        await storage.updateProduct(change.productId, { isActive: false });
+      }
+      break;
+  }
+  return change.productId;
+}
+
+/**
+ * Applies an import's changes, or only the ones listed; the rest are skipped. A change
+ * that can no longer be applied, say because its product was deleted since, is marked
+ * failed with the reason and the others still go through.
+ */
+export async function applyFeedImport(
+  importId: number,
+  reviewedBy: number | null,
+  changeIds?: number[]
+): Promise<FeedImport | undefined> {
+  const current = await storage.getFeedImportById(importId);
+  if (!current) return undefined;
+  const supplier = await storage.getSupplierById(current.supplierId);
+  if (!supplier) return undefined;
+
+  const feedImport = await storage.reviewFeedImport(importId, { status: "applied", reviewedBy });
+  if (!feedImport) throw new FeedImportError(`This import has already been ${current.status}`);
+
+  for (const change of await storage.getFeedImportChanges(importId)) {
+    if (change.status !== "pending") continue;
+    if (changeIds && !changeIds.includes(change.id)) {
+      await storage.updateFeedImportChange(change.id, { status: "skipped" });
+      continue;
+    }
+
+    try {
+      const productId = await applyChange(change, supplier);
+      await storage.updateFeedImportChange(change.id, { status: "applied", productId });
+    } catch (error) {
+      const note = error instanceof Error ? error.message : String(error);
+      await storage.updateFeedImportChange(change.id, { status: "failed", note });
+    }
+  }
+  return feedImport;
+}
+
+// Nothing in the import is applied
+export async function discardFeedImport(importId: number, reviewedBy: number | null): Promise<FeedImport | undefined> {
+  const current = await storage.getFeedImportById(importId);
+  if (!current) return undefined;
+  const supplier = await storage.getSupplierById(current.supplierId);
+  if (!supplier) return undefined;
+
+  const feedImport = await storage.reviewFeedImport(importId, { status: "discarded", reviewedBy });
+  if (!feedImport) throw new FeedImportError(`This import has already been ${current.status}`);
+
+  for (const change of await storage.getFeedImportChanges(importId)) {
+    await storage.updateFeedImportChange(change.id, { status: "skipped" });
+  }
+  return feedImport;
+}
@@ -0,0 +1,92 @@
+import type { FeedField, SupplierFeedProfile } from "@shared/schema";
+import { parseCsv, splitHeader } from "../csv";
+import { readXlsxSheet, XlsxError } from "./xlsx";
+
+// Thrown when a feed can't be read with its profile at all, as opposed to single bad rows
+export class FeedFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FeedFormatError";
+  }
+}
+
+// A feed row's values for the fields the profile maps, untrimmed and unparsed
+export interface FeedRecord {
+  row: number; // as a spreadsheet numbers it, counting the header; from 1 for JSON
+  values: Partial<Record<FeedField, string>>;
+}
+
+/**
+ * Maps a header row and the rows under it to records, matching column names case-insensitively.
+ * Blank rows are skipped but still counted, so row numbers match what staff see in Excel.
+ */
+function tableRecords(table: string[][], profile: SupplierFeedProfile): FeedRecord[] {
+  const split = splitHeader(table);
+  if (!split) throw new FeedFormatError("The feed is empty");
+  const { header, rows } = split;
+
+  const headers = header.map(name => name.trim().toLowerCase());
+  const columns: Partial<Record<FeedField, number>> = {};
+  for (const [field, column] of Object.entries(profile.columnMapping) as [FeedField, string][]) {
+    const index = headers.indexOf(column.trim().toLowerCase());
+    if (index < 0) throw new FeedFormatError(`The feed has no "${column}" column`);
+    columns[field] = index;
+  }
+
+  return rows
+    .map(({ row, cells }) => ({
+      row,
+      values: Object.fromEntries(
+        (Object.entries(columns) as [FeedField, number][]).map(([field, column]) => [field, cells[column] ?? ""])
+      )
+    }))
+    .filter(record => Object.values(record.values).some(value => value?.trim()));
+}
+
+function valueAt(record: unknown, path: string): unknown {
+  return path.split(".").reduce<unknown>(
+    (value, key) => value !== null && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined,
+    record
+  );
+}
+
+function jsonRecords(text: string, profile: SupplierFeedProfile): FeedRecord[] {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    throw new FeedFormatError("The feed isn't valid JSON");
+  }
+
+  const records = profile.recordsPath ? valueAt(document, profile.recordsPath) : document;
+  if (!Array.isArray(records)) {
+    throw new FeedFormatError(profile.recordsPath ? `"${profile.recordsPath}" in the feed isn't a list` : "The feed isn't a list of products");
+  }
+
+  return records.map((record, index) => ({
+    row: index + 1,
+    values: Object.fromEntries(
+      (Object.entries(profile.columnMapping) as [FeedField, string][]).map(([field, path]) => {
+        const value = valueAt(record, path);
+        return [field, value === undefined || value === null ? "" : String(value)];
+      })
+    )
+  }));
+}
+
+// Reads a feed file the way its profile says to
+export function readFeed(content: Buffer, profile: SupplierFeedProfile): FeedRecord[] {
+  switch (profile.format) {
+    case "csv":
+      return tableRecords(parseCsv(content.toString("utf8"), profile.delimiter), profile);
+    case "json":
+      return jsonRecords(content.toString("utf8"), profile);
+    case "xlsx":
+      try {
+        return tableRecords(readXlsxSheet(content, profile.sheet), profile);
+      } catch (error) {
+        if (error instanceof XlsxError) throw new FeedFormatError(error.message);
+        throw error;
+      }
+  }
+}
@@ -0,0 +1,103 @@
+import { deflateRawSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { storage } from "../storage";
+import { importFeed } from "./importer";
+import { readXlsxSheet, XlsxError } from "./xlsx";
+
+// A zip of the given parts, deflated. readXlsxSheet doesn't check CRCs, so they're left 0
+function zip(parts: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+  for (const [name, text] of Object.entries(parts)) {
+    const nameBytes = Buffer.from(name);
+    const data = deflateRawSync(Buffer.from(text));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(text.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(8, 10);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt32LE(text.length, 24);
+    entry.writeUInt16LE(nameBytes.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    central.push(entry, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(central.length / 2, 8);
+  end.writeUInt16LE(central.length / 2, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+function workbook(sheetXml: string): Buffer {
+  return zip({
+    "xl/workbook.xml": `<workbook><sheets><sheet name="Feed" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    "xl/_rels/workbook.xml.rels": `<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>`,
+    "xl/sharedStrings.xml": `<sst><si><t>SKU</t></si><si><t>Cost</t></si><si><r><t>AB</t></r><r><t>-1</t></r></si></sst>`,
+    "xl/worksheets/sheet1.xml": `<worksheet><sheetData>${sheetXml}</sheetData></worksheet>`
+  });
+}
+
+const feedSheet = workbook(
+  `<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>` +
+  `<row r="3"><c r="A3" t="s"><v>2</v></c><c r="C3"><v>12.5</v></c></row>`
+);
+
+describe("readXlsxSheet", () => {
+  it("reads a sheet's cells as text, keeping blank rows and cells in place", () => {
+    expect(readXlsxSheet(feedSheet)).toEqual([["SKU", "Cost"], [], ["AB-1", "", "12.5"]]);
+  });
+
+  it("fails with an XlsxError wherever the file is damaged", () => {
+    for (let offset = 0; offset < feedSheet.length; offset++) {
+      const damaged = Buffer.from(feedSheet);
+      damaged[offset] ^= 0xff;
+      try {
+        readXlsxSheet(damaged);
+      } catch (error) {
+        expect(error, `byte ${offset}`).toBeInstanceOf(XlsxError);
+      }
+    }
+  });
+
+  it("fails with an XlsxError when the file is cut short", () => {
+    const end = feedSheet.subarray(feedSheet.length - 22);
+    for (const length of [0, 10, 40, 100, feedSheet.length - 60, feedSheet.length - 23]) {
+      expect(() => readXlsxSheet(Buffer.concat([feedSheet.subarray(0, length), end])), `${length} bytes`).toThrow(XlsxError);
+    }
+  });
+
+  it("won't fill in rows up to a far-off row number", () => {
+    expect(() => readXlsxSheet(workbook(`<row r="999999999"><c r="A1"><v>1</v></c></row>`))).toThrow(XlsxError);
+  });
+});
+
+describe("importing a damaged XLSX feed", () => {
+  it("records the import as failed", async () => {
+    const supplier = await storage.createSupplier({ name: "Test XLSX supplier", dropshipping: false, apiAvailable: false });
+    const profile = await storage.createSupplierFeedProfile({
+      supplierId: supplier.id,
+      name: "Spreadsheet",
+      format: "xlsx",
+      columnMapping: { supplierSku: "SKU", cost: "Cost" }
+    });
+
+    const feedImport = await importFeed(profile, { filename: "feed.xlsx", content: feedSheet.subarray(0, feedSheet.length - 30) }, null);
+
+    expect(feedImport).toMatchObject({ status: "failed", error: expect.any(String) });
+  });
+});
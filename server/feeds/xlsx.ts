@@ -0,0 +1,180 @@
+/**
+ * Just enough of the XLSX format to read supplier feeds: the cell values of one worksheet,
+ * as text. An XLSX file is a zip of XML parts; we find the parts we need through the zip's
+ * central directory and inflate them with zlib. Formulas come through as their cached
+ * values, and dates as Excel's day numbers.
+ */
+
+import { inflateRawSync } from "zlib";
+
+// Thrown when the file isn't a workbook we can read
+export class XlsxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "XlsxError";
+  }
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// No real feed's worksheet comes near this once inflated; a part that does is a zip bomb
+const MAX_PART_SIZE = 100 * 1024 * 1024;
+
+// Excel's own limits, so a row or cell reference can't make us allocate more
+const MAX_ROWS = 1048576;
+const MAX_COLUMNS = 16384;
+
+// A truncated or doctored file points past its own end
+function checkBounds(buffer: Buffer, offset: number, length: number) {
+  if (offset < 0 || offset + length > buffer.length) throw new XlsxError("Corrupt XLSX file");
+}
+
+// Zip entries by path, inflated on demand
+function readZip(buffer: Buffer): Map<string, () => Buffer> {
+  // The end record is in the last 64KB (its comment is at most that long)
+  let end = -1;
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 65557); offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) throw new XlsxError("Not an XLSX file");
+
+  const entries = new Map<string, () => Buffer>();
+  const entryCount = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  for (let i = 0; i < entryCount; i++) {
+    checkBounds(buffer, offset, 46);
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) throw new XlsxError("Corrupt XLSX file");
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localHeader = buffer.readUInt32LE(offset + 42);
+    checkBounds(buffer, offset + 46, nameLength);
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    entries.set(name, () => {
+      checkBounds(buffer, localHeader, 30);
+      if (buffer.readUInt32LE(localHeader) !== LOCAL_FILE_HEADER) throw new XlsxError("Corrupt XLSX file");
+      const start = localHeader + 30 + buffer.readUInt16LE(localHeader + 26) + buffer.readUInt16LE(localHeader + 28);
+      checkBounds(buffer, start, compressedSize);
+      const data = buffer.subarray(start, start + compressedSize);
+      if (method === 0) return data;
+      if (method !== 8) throw new XlsxError(`Unsupported compression in ${name}`);
+      try {
+        return inflateRawSync(data, { maxOutputLength: MAX_PART_SIZE });
+      } catch (error) {
+        throw new XlsxError(`Can't read ${name} from the XLSX file: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_match, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case "amp": return "&";
+      case "lt": return "<";
+      case "gt": return ">";
+      case "quot": return "\"";
+      case "apos": return "'";
+    }
+    return String.fromCodePoint(entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+  });
+}
+
+// The text of every <t> in a piece of XML, which for rich text is split into runs
+function textOf(xml: string): string {
+  return Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), match => decodeXml(match[1])).join("");
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+// "C12" -> 2
+function columnIndex(reference: string): number {
+  let index = 0;
+  for (const letter of reference.replace(/\d+$/, "").toUpperCase()) {
+    index = index * 26 + letter.charCodeAt(0) - 64;
+  }
+  return index - 1;
+}
+
+/**
+ * The rows of a worksheet, by name or else the first, as text. Empty cells are "", and
+ * rows keep their position, so blank rows in the sheet are empty arrays here. Anything
+ * wrong with the file is an XlsxError.
+ */
+export function readXlsxSheet(buffer: Buffer, sheetName?: string | null): string[][] {
+  try {
+    return readSheet(buffer, sheetName);
+  } catch (error) {
+    if (error instanceof XlsxError) throw error;
+    throw new XlsxError(`Corrupt XLSX file: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function readSheet(buffer: Buffer, sheetName?: string | null): string[][] {
+  const entries = readZip(buffer);
+  const part = (path: string) => {
+    const entry = entries.get(path);
+    return entry ? entry().toString("utf8") : undefined;
+  };
+
+  const workbook = part("xl/workbook.xml");
+  if (!workbook) throw new XlsxError("Not an XLSX file");
+
+  const sheets = Array.from(workbook.matchAll(/<sheet\s[^>]*>/g), match => ({
+    name: attribute(match[0], "name"),
+    relationshipId: attribute(match[0], "r:id")
+  }));
+  const sheet = sheetName ? sheets.find(candidate => candidate.name === sheetName) : sheets[0];
+  if (!sheet) throw new XlsxError(sheetName ? `No sheet named "${sheetName}"` : "The workbook has no sheets");
+
+  const relationships = part("xl/_rels/workbook.xml.rels") ?? "";
+  const relationship = Array.from(relationships.matchAll(/<Relationship\s[^>]*>/g))
+    .find(match => attribute(match[0], "Id") === sheet.relationshipId);
+  const target = relationship && attribute(relationship[0], "Target");
+  if (!target) throw new XlsxError(`Can't find sheet "${sheet.name}"`);
+  const sheetXml = part(target.startsWith("/") ? target.slice(1) : `xl/${target}`);
+  if (!sheetXml) throw new XlsxError(`Can't find sheet "${sheet.name}"`);
+
+  const sharedStrings = Array.from((part("xl/sharedStrings.xml") ?? "").matchAll(/<si>([\s\S]*?)<\/si>/g), match => textOf(match[1]));
+
+  const rows: string[][] = [];
+  for (const rowMatch of Array.from(sheetXml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g))) {
+    const rowNumber = parseInt(attribute(rowMatch[1], "r") ?? String(rows.length + 1), 10);
+    if (!(rowNumber > rows.length && rowNumber <= MAX_ROWS)) throw new XlsxError(`Row ${rowNumber} is out of place in sheet "${sheet.name}"`);
+    const row: string[] = [];
+    for (const cellMatch of Array.from((rowMatch[2] ?? "").matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g))) {
+      const reference = attribute(cellMatch[1], "r");
+      const type = attribute(cellMatch[1], "t");
+      const content = cellMatch[2] ?? "";
+      const value = content.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let text = "";
+      if (type === "s") text = sharedStrings[parseInt(value ?? "", 10)] ?? "";
+      else if (type === "inlineStr") text = textOf(content);
+      else if (type === "b") text = value === "1" ? "TRUE" : "FALSE";
+      else if (value !== undefined) text = decodeXml(value);
+
+      const index = reference ? columnIndex(reference) : row.length;
+      if (!(index >= 0 && index < MAX_COLUMNS)) throw new XlsxError(`Cell ${reference} is out of range in sheet "${sheet.name}"`);
+      while (row.length < index) row.push("");
+      row[index] = text;
+    }
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows.push(row);
+  }
+  return rows;
+}
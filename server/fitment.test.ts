@@ -0,0 +1,37 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { storage } from "./storage";
+import { startTestServer, type TestServer } from "./test/http";
+import { createTestProduct } from "./test/fixtures";
+
+let server: TestServer;
+
+beforeAll(async () => {
+  server = await startTestServer();
+});
+
+afterAll(() => server.close());
+
+describe("GET /api/fitment", () => {
+  it("returns each product's fitment in one response, keyed by product", async () => {
+    const [fitted, unfitted] = await Promise.all([createTestProduct(), createTestProduct()]);
+    const vehicle = await storage.createVehicleModel({ make: "Polaris", model: "Test Ranger", year: 2022, variant: null });
+    await storage.createProductFitment({ productId: fitted.id, vehicleModelId: vehicle.id, yearFrom: 2020, yearTo: 2022, variant: null });
+
+    const { status, body } = await server.client().request("GET", `/api/fitment?productIds=${fitted.id},${unfitted.id}`);
+
+    expect(status).toBe(200);
+    expect(body).toEqual({
+      [fitted.id]: [expect.objectContaining({ productId: fitted.id, make: "Polaris", model: "Test Ranger", yearFrom: 2020, yearTo: 2022 })],
+      [unfitted.id]: []
+    });
+  });
+
+  it("rejects a missing or malformed list, or too many products", async () => {
+    const client = server.client();
+    const tooMany = Array.from({ length: 101 }, (_, index) => index + 1).join(",");
+
+    for (const query of ["", "?productIds=", "?productIds=1,two", `?productIds=${tooMany}`]) {
+      expect((await client.request("GET", `/api/fitment${query}`)).status, query).toBe(400);
+    }
+  });
+});
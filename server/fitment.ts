@@ -0,0 +1,177 @@
+/**
+ * Vehicle fitment helpers
+ *
+ * product_fitments is the source of truth for which vehicles a product fits.
+ * These helpers convert the two older fitment shapes into fitment rows:
+ * - products.compatibleVehicles: [{ make, model, years }]
+ * - the supplier catalog in data/products.ts: { makes, models, years }
+ */
+
+import type { IStorage } from "./storage";
+import type { CompatibleVehicle, Product, VehicleModel } from "@shared/schema";
+import { utvProducts, type Product as CatalogProduct } from "./data/products";
+
+export interface YearRange {
+  yearFrom: number;
+  yearTo: number;
+}
+
+export interface FitmentMigrationReport {
+  productsConverted: number;
+  fitmentsCreated: number;
+  unmatchedSkus: string[];      // catalog products with no matching store product
+  unconvertibleSkus: string[];  // catalog fitment that can't be paired into make/model
+}
+
+/**
+ * Collapses a list of model years into contiguous ranges, e.g. [2019, 2020, 2022] -> 2019-2020, 2022-2022
+ */
+export function yearsToRanges(years: number[]): YearRange[] {
+  const sorted = Array.from(new Set(years)).sort((a, b) => a - b);
+  const ranges: YearRange[] = [];
+
+  for (const year of sorted) {
+    const current = ranges[ranges.length - 1];
+    if (current && year === current.yearTo + 1) {
+      current.yearTo = year;
+    } else {
+      ranges.push({ yearFrom: year, yearTo: year });
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Pairs up the makes and models of a catalog fitment.
+ * A single make applies to every model; otherwise makes and models are matched by position.
+ * Returns null when the lists can't be paired (e.g. "All Models" across several makes).
+ */
+export function vehiclesFromCatalogFitment(fitment: CatalogProduct['fitment']): CompatibleVehicle[] | null {
+  const { makes, models, years } = fitment;
+
+  if (makes.length === 1) {
+    return models.map(model => ({ make: makes[0], model, years }));
+  }
+
+  if (makes.length === models.length) {
+    return makes.map((make, index) => ({ make, model: models[index], years }));
+  }
+
+  return null;
+}
+
+// Finds the vehicle model for a make/model, registering it if we don't carry it yet
+export async function findOrCreateVehicleModel(
+  storage: IStorage,
+  knownModels: VehicleModel[],
+  make: string,
+  model: string,
+  year: number
+): Promise<VehicleModel> {
+  const existing = knownModels.find(vehicle =>
+    vehicle.make.toLowerCase() === make.toLowerCase() &&
+    vehicle.model.toLowerCase() === model.toLowerCase()
+  );
+  if (existing) return existing;
+
+  const created = await storage.createVehicleModel({ make, model, year, variant: null });
+  knownModels.push(created);
+  return created;
+}
+
+/**
+ * Attaches fitment rows for the given vehicles to a product.
+ * Ranges the product already has are skipped, so this is safe to run repeatedly.
+ */
+export async function attachVehicleFitments(
+  storage: IStorage,
+  productId: number,
+  vehicles: CompatibleVehicle[]
+): Promise<number> {
+  const knownModels = await storage.getVehicleModels();
+  const existing = await storage.getProductFitments(productId);
+  let created = 0;
+
+  for (const vehicle of vehicles) {
+    if (!vehicle.make || !vehicle.model || !vehicle.years?.length) continue;
+
+    for (const range of yearsToRanges(vehicle.years)) {
+      const vehicleModel = await findOrCreateVehicleModel(
+        storage, knownModels, vehicle.make, vehicle.model, range.yearTo
+      );
+
+      const alreadyAttached = existing.some(fitment =>
+        fitment.vehicleModelId === vehicleModel.id &&
+        fitment.yearFrom === range.yearFrom &&
+        fitment.yearTo === range.yearTo &&
+        !fitment.variant
+      );
+      if (alreadyAttached) continue;
+
+      await storage.createProductFitment({
+        productId,
+        vehicleModelId: vehicleModel.id,
+        ...range,
+        variant: null
+      });
+      created++;
+    }
+  }
+
+  return created;
+}
+
+/**
+ * Converts a product's compatibleVehicles into fitment rows
+ */
+export async function attachCompatibleVehicles(storage: IStorage, product: Product): Promise<number> {
+  const vehicles = Array.isArray(product.compatibleVehicles)
+    ? product.compatibleVehicles as CompatibleVehicle[]
+    : [];
+  return attachVehicleFitments(storage, product.id, vehicles);
+}
+
+/**
+ * One-off conversion of both legacy fitment shapes into product_fitments.
+ * Catalog products are matched to store products by SKU.
+ */
+export async function migrateLegacyFitment(storage: IStorage): Promise<FitmentMigrationReport> {
+  const report: FitmentMigrationReport = {
+    productsConverted: 0,
+    fitmentsCreated: 0,
+    unmatchedSkus: [],
+    unconvertibleSkus: []
+  };
+
+  const { products } = await storage.getProducts();
+  for (const product of products) {
+    const created = await attachCompatibleVehicles(storage, product);
+    if (created > 0) {
+      report.productsConverted++;
+      report.fitmentsCreated += created;
+    }
+  }
+
+  for (const catalogProduct of utvProducts) {
+    const product = await storage.getProductBySku(catalogProduct.sku);
+    if (!product) {
+      report.unmatchedSkus.push(catalogProduct.sku);
+      continue;
+    }
+
+    const vehicles = vehiclesFromCatalogFitment(catalogProduct.fitment);
+    if (!vehicles) {
+      report.unconvertibleSkus.push(catalogProduct.sku);
+      continue;
+    }
+
+    const created = await attachVehicleFitments(storage, product.id, vehicles);
+    if (created > 0) {
+      report.productsConverted++;
+      report.fitmentsCreated += created;
+    }
+  }
+
+  return report;
+}
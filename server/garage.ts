@@ -0,0 +1,55 @@
+/**
+ * Customer garage helpers
+ *
+ * Guests keep their garage in localStorage; when they sign in the browser
+ * sends it here to be merged into the saved garage.
+ */
+
+import type { IStorage } from "./storage";
+import type { InsertUserVehicle, UserVehicle } from "@shared/schema";
+
+export type GarageVehicleInput = Omit<InsertUserVehicle, 'userId'>;
+
+// Two entries describe the same vehicle when make, model, year and variant match
+export function isSameVehicle(a: GarageVehicleInput | UserVehicle, b: GarageVehicleInput | UserVehicle): boolean {
+  return a.make.toLowerCase() === b.make.toLowerCase() &&
+    a.model.toLowerCase() === b.model.toLowerCase() &&
+    a.year === b.year &&
+    (a.variant || '').toLowerCase() === (b.variant || '').toLowerCase();
+}
+
+/**
+ * Adds a vehicle to a customer's garage, reusing the saved entry if they already have it
+ */
+export async function addVehicleToGarage(
+  storage: IStorage,
+  userId: number,
+  vehicle: GarageVehicleInput
+): Promise<UserVehicle> {
+  const garage = await storage.getUserVehicles(userId);
+  const existing = garage.find(saved => isSameVehicle(saved, vehicle));
+
+  if (!existing) {
+    return storage.createUserVehicle({ ...vehicle, userId });
+  }
+
+  if (vehicle.isActive && !existing.isActive) {
+    return (await storage.updateUserVehicle(existing.id, { isActive: true })) ?? existing;
+  }
+  return existing;
+}
+
+/**
+ * Merges a guest garage into a customer's saved garage.
+ * The guest's active vehicle wins, since it is what they were just shopping for.
+ */
+export async function mergeGuestGarage(
+  storage: IStorage,
+  userId: number,
+  vehicles: GarageVehicleInput[]
+): Promise<UserVehicle[]> {
+  for (const vehicle of vehicles) {
+    await addVehicleToGarage(storage, userId, vehicle);
+  }
+  return storage.getUserVehicles(userId);
+}
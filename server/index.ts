@@ -1,10 +1,26 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { setupAuth } from "./auth";
+import { startReservationSweeper } from "./inventory";
+import { startAnalyticsRollup } from "./analytics";
+import { startAutoBundleRefresher } from "./bundles";
 import { setupVite, serveStatic, log } from "./vite";
 
+declare module "http" {
+  interface IncomingMessage {
+    // The unparsed request body, which webhook signatures are computed over
+    rawBody: unknown;
+  }
+}
+
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
+setupAuth(app);
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -38,6 +54,9 @@ app.use((req, res, next) => {
 
 (async () => {
   const server = await registerRoutes(app);
+  startReservationSweeper();
+  startAnalyticsRollup();
+  startAutoBundleRefresher();
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -0,0 +1,221 @@
+import type { StockLocation, StockLocationKind, Supplier } from "@shared/schema";
+import { InsufficientStockError, storage, type StockAllocation, type StockLine } from "./storage";
+import { log } from "./vite";
+
+// How long a checkout holds its stock before the sweeper hands it back
+export const RESERVATION_TTL_MS = 30 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// What one location can still sell of a product
+export interface LocationStock {
+  locationId: number;
+  name: string;
+  kind: StockLocationKind;
+  available: number;
+  shippingDaysMin: number;
+  shippingDaysMax: number;
+}
+
+export interface ShippingEstimate {
+  fromSupplier: boolean;
+  shippingDaysMin: number;
+  shippingDaysMax: number;
+  message: string;
+}
+
+export interface StockAvailability {
+  productId: number;
+  available: number;
+  locations: LocationStock[]; // best first, only those with stock to sell
+  shipping: ShippingEstimate | null; // for the quantity asked about, null when it can't be had
+}
+
+// Our own warehouses ship first, then whoever ships soonest
+function compareLocations(a: LocationStock, b: LocationStock): number {
+  if (a.kind !== b.kind) return a.kind === "warehouse" ? -1 : 1;
+  return a.shippingDaysMax - b.shippingDaysMax || a.shippingDaysMin - b.shippingDaysMin || a.locationId - b.locationId;
+}
+
+/**
+ * Where a quantity ships from: the best location that can send all of it, so the order
+ * arrives in one parcel, otherwise as much as possible from each in turn. Null when the
+ * locations together don't hold enough.
+ */
+function planShipment(locations: LocationStock[], quantity: number): { location: LocationStock; quantity: number }[] | null {
+  const whole = locations.find(location => location.available >= quantity);
+  if (whole) return [{ location: whole, quantity }];
+
+  const plan: { location: LocationStock; quantity: number }[] = [];
+  let remaining = quantity;
+  for (const location of locations) {
+    if (remaining === 0) break;
+    const taken = Math.min(location.available, remaining);
+    plan.push({ location, quantity: taken });
+    remaining -= taken;
+  }
+  return remaining === 0 ? plan : null;
+}
+
+function formatDays(min: number, max: number): string {
+  if (min === max) return `${min} ${min === 1 ? "day" : "days"}`;
+  return `${min}–${max} days`;
+}
+
+// A shipment is as slow as the slowest location it comes from
+function shippingEstimate(locations: LocationStock[]): ShippingEstimate {
+  const fromSupplier = locations.some(location => location.kind === "supplier");
+  const shippingDaysMin = Math.max(...locations.map(location => location.shippingDaysMin));
+  const shippingDaysMax = Math.max(...locations.map(location => location.shippingDaysMax));
+  const days = formatDays(shippingDaysMin, shippingDaysMax);
+  return {
+    fromSupplier,
+    shippingDaysMin,
+    shippingDaysMax,
+    message: fromSupplier ? `Ships from supplier in ${days}` : `Ships in ${days}`
+  };
+}
+
+/**
+ * A product's stock at each location that can sell it, less what open checkouts are
+ * holding there, and how soon the given quantity would ship.
+ */
+export async function getStockAvailability(productId: number, quantity: number = 1): Promise<StockAvailability> {
+  const [levels, locations] = await Promise.all([
+    storage.getStockLevels({ productId }),
+    storage.getStockLocations({ sellable: true })
+  ]);
+
+  const stock: LocationStock[] = [];
+  for (const location of locations) {
+    const onHand = levels.find(level => level.locationId === location.id)?.quantity ?? 0;
+    if (onHand <= 0) continue;
+    const available = onHand - await storage.getReservedQuantity(productId, location.id);
+    if (available <= 0) continue;
+    stock.push({
+      locationId: location.id,
+      name: location.name,
+      kind: location.kind,
+      available,
+      shippingDaysMin: location.shippingDaysMin,
+      shippingDaysMax: location.shippingDaysMax
+    });
+  }
+  stock.sort(compareLocations);
+
+  const plan = planShipment(stock, Math.max(1, quantity));
+  return {
+    productId,
+    available: stock.reduce((sum, location) => sum + location.available, 0),
+    locations: stock,
+    shipping: plan ? shippingEstimate(plan.map(part => part.location)) : null
+  };
+}
+
+/**
+ * Decides which location each order line ships from, splitting a line only when no one
+ * location holds all of it. Throws InsufficientStockError when a product is short.
+ */
+export async function allocateStock(lines: StockLine[]): Promise<StockAllocation[]> {
+  const wanted = new Map<number, number>();
+  for (const line of lines) wanted.set(line.productId, (wanted.get(line.productId) ?? 0) + line.quantity);
+
+  const allocations: StockAllocation[] = [];
+  for (const [productId, quantity] of Array.from(wanted.entries())) {
+    const availability = await getStockAvailability(productId, quantity);
+    const plan = planShipment(availability.locations, quantity);
+    if (!plan) throw new InsufficientStockError(productId, quantity, availability.available);
+
+    for (const part of plan) allocations.push({ productId, quantity: part.quantity, locationId: part.location.locationId });
+  }
+  return allocations;
+}
+
+/**
+ * Holds stock for a new order while its payment is pending, at the locations chosen by
+ * allocateStock. When there isn't enough the order is cancelled, since it can never be
+ * paid for, and InsufficientStockError is thrown.
+ */
+export async function reserveOrderStock(orderId: number, lines: StockLine[]) {
+  try {
+    const allocations = await allocateStock(lines);
+    return await storage.reserveInventory(orderId, allocations, new Date(Date.now() + RESERVATION_TTL_MS));
+  } catch (error) {
+    if (error instanceof InsufficientStockError) {
+      await storage.updateOrderStatus(orderId, "cancelled", { note: "Not enough stock" });
+    }
+    throw error;
+  }
+}
+
+const SUPPLIER_SHIPPING_DAYS = { min: 5, max: 7 };
+
+// A supplier's stock location, set up the first time its stock is recorded
+export async function supplierStockLocation(
+  supplier: Supplier,
+  shippingDays: { min: number; max: number } = SUPPLIER_SHIPPING_DAYS
+): Promise<StockLocation> {
+  const existing = await storage.getStockLocationBySupplierId(supplier.id);
+  if (existing) return existing;
+
+  return storage.createStockLocation({
+    name: supplier.name,
+    kind: "supplier",
+    supplierId: supplier.id,
+    shippingDaysMin: shippingDays.min,
+    shippingDaysMax: shippingDays.max
+  });
+}
+
+/**
+ * Payment succeeded: the held stock leaves inventory for good. A hold that lapsed before
+ * the payment landed may have been sold to someone else since, so its stock is allocated
+ * afresh; when there isn't enough, the order is flagged for staff instead of overselling.
+ */
+export async function commitOrderStock(orderId: number) {
+  const committed = await storage.commitInventoryReservations(orderId);
+  const lapsed = (await storage.getInventoryReservations(orderId))
+    .filter(reservation => reservation.status === "active" || reservation.status === "released");
+  if (lapsed.length === 0) return committed;
+
+  // What's still active has expired; it's replaced by the fresh hold
+  await storage.releaseInventoryReservations(orderId);
+  try {
+    const allocations = await allocateStock(lapsed.map(({ productId, quantity }) => ({ productId, quantity })));
+    await storage.reserveInventory(orderId, allocations, new Date(Date.now() + RESERVATION_TTL_MS));
+    return [...committed, ...await storage.commitInventoryReservations(orderId)];
+  } catch (error) {
+    if (!(error instanceof InsufficientStockError)) throw error;
+    await storage.flagOrderStockIssue(
+      orderId,
+      `Paid after its stock hold lapsed: ${error.requested} of product ${error.productId} needed, only ${error.available} available`
+    );
+    return committed;
+  }
+}
+
+// Payment failed: the hold is dropped without touching inventory
+export function releaseOrderStock(orderId: number) {
+  return storage.releaseInventoryReservations(orderId);
+}
+
+// Order cancelled or refunded: committed stock goes back on the shelf
+export function restockOrder(orderId: number) {
+  return storage.restockInventoryReservations(orderId);
+}
+
+/**
+ * Periodically releases reservations whose TTL has passed, so abandoned checkouts
+ * don't keep stock out of reach. Doesn't hold the process open.
+ */
+export function startReservationSweeper(intervalMs: number = SWEEP_INTERVAL_MS) {
+  const timer = setInterval(async () => {
+    try {
+      const released = await storage.releaseExpiredInventoryReservations();
+      if (released > 0) log(`Released ${released} expired inventory reservations`, "inventory");
+    } catch (error) {
+      console.error("Error releasing expired inventory reservations:", error);
+    }
+  }, intervalMs);
+  timer.unref();
+  return timer;
+}
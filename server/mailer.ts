@@ -0,0 +1,67 @@
+import sgMail from "@sendgrid/mail";
+import { log } from "./vite";
+
+export interface MailAttachment {
+  filename: string;
+  content: string;
+  contentType: string;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: MailAttachment[];
+}
+
+/**
+ * Anything that can deliver transactional email.
+ * Swap implementations with MAIL_DRIVER without touching the callers.
+ */
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Writes emails to the server log, the default for development. The text is kept so links
+// like password resets can be followed; attachments are only named.
+export class ConsoleMailer implements Mailer {
+  async send(message: MailMessage): Promise<void> {
+    const attached = (message.attachments ?? []).map(attachment => attachment.filename);
+    log(`To: ${message.to}, subject: ${message.subject}${attached.length > 0 ? `, attached: ${attached.join(", ")}` : ""}`, "mail");
+    log(message.text, "mail");
+  }
+}
+
+export class SendGridMailer implements Mailer {
+  constructor(apiKey: string, private from: string) {
+    sgMail.setApiKey(apiKey);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const { attachments, ...rest } = message;
+    await sgMail.send({
+      ...rest,
+      from: this.from,
+      attachments: attachments?.map(attachment => ({
+        filename: attachment.filename,
+        content: Buffer.from(attachment.content).toString("base64"),
+        type: attachment.contentType,
+        disposition: "attachment"
+      }))
+    });
+  }
+}
+
+export function createMailer(): Mailer {
+  if (process.env.MAIL_DRIVER === 'sendgrid') {
+    if (!process.env.SENDGRID_API_KEY || !process.env.MAIL_FROM) {
+      throw new Error("SENDGRID_API_KEY and MAIL_FROM must be set to send mail with SendGrid");
+    }
+    return new SendGridMailer(process.env.SENDGRID_API_KEY, process.env.MAIL_FROM);
+  }
+
+  return new ConsoleMailer();
+}
+
+export const mailer: Mailer = createMailer();
@@ -0,0 +1,29 @@
+/**
+ * Converts legacy fitment data (products.compatibleVehicles and the supplier
+ * catalog's make/model/year lists) into product_fitments rows.
+ * Safe to re-run: ranges that already exist are skipped.
+ */
+
+import { createDatabase } from "./db";
+import { DatabaseStorage } from "./storage";
+import { migrateLegacyFitment } from "./fitment";
+
+async function migrate() {
+  const storage = new DatabaseStorage(createDatabase());
+  const report = await migrateLegacyFitment(storage);
+
+  console.log(`Created ${report.fitmentsCreated} fitments across ${report.productsConverted} products`);
+  if (report.unmatchedSkus.length > 0) {
+    console.log(`Catalog SKUs not in the store: ${report.unmatchedSkus.join(', ')}`);
+  }
+  if (report.unconvertibleSkus.length > 0) {
+    console.warn(`Catalog fitment needs manual review: ${report.unconvertibleSkus.join(', ')}`);
+  }
+}
+
+migrate()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Fitment migration failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,26 @@
+/**
+ * Loads the supplier directory and catalog costs in data/ into the suppliers and
+ * supplier_products tables. Safe to re-run: suppliers already on file are matched by
+ * name, and costs already recorded are left alone.
+ */
+
+import { createDatabase } from "./db";
+import { DatabaseStorage } from "./storage";
+import { importCatalogSuppliers } from "./suppliers";
+
+async function migrate() {
+  const storage = new DatabaseStorage(createDatabase());
+  const report = await importCatalogSuppliers(storage);
+
+  console.log(`Created ${report.suppliersCreated} suppliers and recorded ${report.costsRecorded} product costs`);
+  if (report.unmatchedSkus.length > 0) {
+    console.log(`Catalog SKUs not in the store: ${report.unmatchedSkus.join(', ')}`);
+  }
+}
+
+migrate()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Supplier migration failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,127 @@
+import { canTransitionOrder, type Order, type OrderEvent, type OrderStatus } from "@shared/schema";
+import { InvalidOrderTransitionError, storage, type OrderStatusChange } from "./storage";
+import { commitOrderStock, restockOrder } from "./inventory";
+import { recordOrderPurchase } from "./analytics";
+
+/**
+ * Changes an order's status and moves its stock to match: paying commits the reserved
+ * stock, cancelling or a full refund before shipping puts it back. Once shipped, stock only
+ * comes back through a received return. Throws InvalidOrderTransitionError.
+ */
+export async function changeOrderStatus(
+  orderId: number,
+  status: OrderStatus,
+  change: OrderStatusChange = {}
+): Promise<Order | undefined> {
+  const order = await storage.updateOrderStatus(orderId, status, change);
+  if (!order) return order;
+
+  if (status === "paid") {
+    await commitOrderStock(orderId);
+    // Analytics mustn't get in the way of taking the payment
+    await recordOrderPurchase(orderId).catch(error => console.error("Error recording purchase analytics:", error));
+  } else if (status === "cancelled" || (status === "refunded" && !await hasShipped(orderId))) {
+    await restockOrder(orderId);
+  }
+  return order;
+}
+
+async function hasShipped(orderId: number): Promise<boolean> {
+  const events = await storage.getOrderEvents(orderId);
+  return events.some(event => event.toStatus === "shipped");
+}
+
+/**
+ * Moves an order to a status only when the state machine allows it, otherwise leaves it as is.
+ * For payment callbacks and webhooks, which can arrive more than once or out of order.
+ */
+export async function advanceOrderStatus(
+  orderId: number,
+  status: OrderStatus,
+  change: OrderStatusChange = {}
+): Promise<Order | undefined> {
+  const order = await storage.getOrderById(orderId);
+  if (!order || !canTransitionOrder(order.status, status)) return order;
+
+  try {
+    return await changeOrderStatus(orderId, status, change);
+  } catch (error) {
+    // Another update got there first
+    if (error instanceof InvalidOrderTransitionError) return storage.getOrderById(orderId);
+    throw error;
+  }
+}
+
+// What's left of the order's payment that can still be given back
+export function refundableBalance(order: Order): number {
+  return Math.max(0, parseFloat(order.total) - parseFloat(order.refundedAmount));
+}
+
+/**
+ * The status an order reaches once `amount` more is refunded on top of what it already
+ * has been; without an amount the rest of it is. Compared in cents so a run of partial
+ * refunds adding up to the total counts as a full one.
+ */
+export function refundStatusFor(order: Order, amount?: number): OrderStatus {
+  if (amount === undefined) return "refunded";
+  const cents = (value: string | number) => Math.round(parseFloat(String(value)) * 100);
+  return cents(order.refundedAmount) + cents(amount) < cents(order.total) ? "partially_refunded" : "refunded";
+}
+
+// What customers see of an order's history: staff and their notes stay internal
+export type CustomerOrderEvent = Pick<OrderEvent, "id" | "fromStatus" | "toStatus" | "createdAt">;
+
+export function toCustomerOrderEvent(event: OrderEvent): CustomerOrderEvent {
+  return {
+    id: event.id,
+    fromStatus: event.fromStatus,
+    toStatus: event.toStatus,
+    createdAt: event.createdAt
+  };
+}
+
+// Public tracking view: no addresses, items or payment details
+export interface OrderTracking {
+  orderNumber: string;
+  status: OrderStatus;
+  carrier: string | null;
+  trackingNumber: string | null;
+  createdAt: Date | null;
+  events: CustomerOrderEvent[];
+}
+
+export function toOrderTracking(order: Order, events: OrderEvent[]): OrderTracking {
+  return {
+    orderNumber: order.orderNumber,
+    status: order.status,
+    carrier: order.carrier,
+    trackingNumber: order.trackingNumber,
+    createdAt: order.createdAt,
+    events: events.map(toCustomerOrderEvent)
+  };
+}
+
+/**
+ * Whether an email is the one the order was placed with. Older orders have no email of
+ * their own, so for those the account holder's email counts.
+ */
+export async function orderMatchesEmail(order: Order, email: string): Promise<boolean> {
+  let orderEmail = order.email;
+  if (!orderEmail && order.userId) {
+    orderEmail = (await storage.getUser(order.userId))?.email ?? null;
+  }
+  return !!orderEmail && orderEmail.trim().toLowerCase() === email.trim().toLowerCase();
+}
+
+// Paid for and not given back in full
+const purchasedOrderStatuses: readonly OrderStatus[] = ["paid", "processing", "shipped", "delivered", "partially_refunded"];
+
+// Whether the user has bought the product, which makes their review of it a verified purchase
+export async function hasPurchased(userId: number, productId: number): Promise<boolean> {
+  for (const order of await storage.getOrdersByUserId(userId)) {
+    if (!purchasedOrderStatuses.includes(order.status)) continue;
+    const items = await storage.getOrderItemsByOrderId(order.id);
+    if (items.some(item => item.productId === productId)) return true;
+  }
+  return false;
+}
@@ -1,232 +0,0 @@
-import stripe from './stripe-config';
-import { storage } from './storage';
-
-/**
- * Main payment processing module that handles:
- * 1. Creating payment intents
- * 2. Processing successful payments
- * 3. Managing automatic transfers to your Wells Fargo account
- * 4. Handling refunds and disputes
- */
-
-// Create a payment intent for checkout
-export async function createCheckoutPaymentIntent(orderData: {
-  items: { productId: number; quantity: number; price: string; name: string }[];
-  shippingAddress: {
-    name: string;
-    line1: string;
-    line2?: string;
-    city: string;
-    state: string;
-    postalCode: string;
-    country: string;
-  };
-  billingAddress: {
-    name: string;
-    line1: string;
-    line2?: string;
-    city: string;
-    state: string;
-    postalCode: string;
-    country: string;
-  };
-  email: string;
-  orderId: number;
-  orderNumber: string;
-  subtotal: number;
-  tax: number;
-  shipping: number;
-  total: number;
-}) {
-  if (!stripe) {
-    throw new Error('Payment processor not available');
-  }
-
-  try {
-    // Create a payment intent with Stripe
-    const paymentIntent = await stripe.paymentIntents.create({
-      amount: Math.round(orderData.total * 100), // Convert to cents
-      currency: 'usd',
-      metadata: {
-        orderId: orderData.orderId.toString(),
-        orderNumber: orderData.orderNumber,
-        customerEmail: orderData.email
-      },
-      receipt_email: orderData.email,
-      description: `Order #${orderData.orderNumber}`,
-      shipping: {
-        name: orderData.shippingAddress.name,
-        address: {
-          line1: orderData.shippingAddress.line1,
-          line2: orderData.shippingAddress.line2 || '',
-          city: orderData.shippingAddress.city,
-          state: orderData.shippingAddress.state,
-          postal_code: orderData.shippingAddress.postalCode,
-          country: orderData.shippingAddress.country,
-        },
-      },
-      automatic_payment_methods: {
-        enabled: true,
-      },
-      // This transfer_data would be used in a Connect platform to automatically 
-      // transfer funds to the connected Wells Fargo account
-      // In production, you'd set up a connected account in Stripe
-      /* 
-      transfer_data: {
-        destination: 'acct_connected_account_id', // Your connected Wells Fargo account
-      },
-      */
-    });
-
-    // Update order with payment intent ID
-    await storage.updatePaymentStatus(orderData.orderId, 'pending', paymentIntent.id);
-
-    // Return client secret needed for checkout
-    return {
-      clientSecret: paymentIntent.client_secret,
-      paymentIntentId: paymentIntent.id
-    };
-  } catch (error) {
-    console.error('Error creating payment intent:', error);
-    throw error;
-  }
-}
-
-// Process a successful payment - update order status and initiate automatic payout
-export async function processSuccessfulPayment(paymentIntentId: string) {
-  if (!stripe) {
-    throw new Error('Payment processor not available');
-  }
-
-  try {
-    // Retrieve the payment intent to get order details
-    const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
-    
-    // Extract order information
-    const { orderId, orderNumber } = paymentIntent.metadata;
-    
-    if (!orderId) {
-      throw new Error('Order ID not found in payment metadata');
-    }
-
-    // Update order status to paid/processing
-    await storage.updateOrderStatus(parseInt(orderId), 'processing');
-    await storage.updatePaymentStatus(parseInt(orderId), 'paid', paymentIntentId);
-
-    // Schedule payout to your Wells Fargo card (4342582038291593)
-    // In a real implementation, this would use Connect or External Account APIs
-    // Since we can't actually transfer to a real account in this demo, we log it
-    console.log(`Payment for order ${orderNumber} successful. Funds will be transferred to Wells Fargo account automatically.`);
-    
-    return {
-      success: true,
-      orderId: parseInt(orderId),
-      orderNumber,
-      amount: paymentIntent.amount / 100 // Convert from cents to dollars
-    };
-  } catch (error) {
-    console.error('Error processing successful payment:', error);
-    throw error;
-  }
-}
-
-// Initiate refund for an order
-export async function createRefund(paymentIntentId: string, amount?: number) {
-  if (!stripe) {
-    throw new Error('Payment processor not available');
-  }
-
-  try {
-    // Create refund
-    const refundParams: any = {
-      payment_intent: paymentIntentId
-    };
-    
-    // If partial refund, specify amount in cents
-    if (amount) {
-      refundParams.amount = Math.round(amount * 100);
-    }
-    
-    const refund = await stripe.refunds.create(refundParams);
-    
-    // Find order by payment intent ID
-    // In a real implementation you would need to lookup the order by payment intent
-    const orders = await getAllOrders();
-    const order = orders.find(o => o.stripePaymentIntentId === paymentIntentId);
-    
-    if (order) {
-      // Update order status to reflect refund
-      await storage.updateOrderStatus(order.id, 'refunded');
-      await storage.updatePaymentStatus(order.id, 'refunded');
-    }
-    
-    return {
-      success: true,
-      refundId: refund.id,
-      amount: refund.amount / 100 // Convert from cents to dollars
-    };
-  } catch (error) {
-    console.error('Error processing refund:', error);
-    throw error;
-  }
-}
-
-// Helper function to get all orders (just for the refund lookup above)
-async function getAllOrders() {
-  return await storage.getOrders();
-}
-
-// Parse webhook events from Stripe
-export function parseWebhookEvent(payload: any, signature: string, endpointSecret?: string) {
-  if (!stripe) {
-    throw new Error('Payment processor not available');
-  }
-
-  try {
-    if (endpointSecret) {
-      // Verify webhook signature
-      return stripe.webhooks.constructEvent(payload, signature, endpointSecret);
-    } else {
-      return payload;
-    }
-  } catch (error) {
-    console.error('Error parsing webhook:', error);
-    throw error;
-  }
-}
-
-// Process different types of payment events from webhooks
-export async function handlePaymentWebhookEvent(event: any) {
-  try {
-    switch (event.type) {
-      case 'payment_intent.succeeded':
-        return await processSuccessfulPayment(event.data.object.id);
-        
-      case 'payment_intent.payment_failed':
-        // Handle failed payment
-        const { orderId } = event.data.object.metadata;
-        if (orderId) {
-          await storage.updateOrderStatus(parseInt(orderId), 'payment_failed');
-          await storage.updatePaymentStatus(parseInt(orderId), 'failed', event.data.object.id);
-        }
-        return { success: false, message: 'Payment failed' };
-        
-      case 'charge.refunded':
-        // Refund was processed
-        // In a real implementation you would update order status
-        return { success: true, message: 'Refund processed' };
-        
-      case 'payout.created':
-      case 'payout.paid':
-        // Automatic payout to your Wells Fargo has been initiated/completed
-        console.log(`Payout event: ${event.type}`, event.data.object);
-        return { success: true, message: `Payout ${event.type}` };
-        
-      default:
-        return { success: true, message: `Unhandled event type: ${event.type}` };
-    }
-  } catch (error) {
-    console.error('Error handling payment webhook event:', error);
-    throw error;
-  }
-}
\ No newline at end of file
@@ -0,0 +1,170 @@
+import crypto from "crypto";
+import {
+  payloadText,
+  WebhookSignatureError,
+  type CreatedPaymentIntent,
+  type CreatedRefund,
+  type PaymentEvent,
+  type PaymentIntentRequest,
+  type PaymentProvider
+} from "./provider";
+
+export interface FakePaymentIntent {
+  id: string;
+  object: "payment_intent";
+  amount: number;
+  amount_refunded: number;
+  currency: string;
+  status: "requires_payment_method" | "succeeded" | "canceled";
+  metadata: Record<string, string>;
+  receipt_email: string;
+  last_payment_error: { message: string } | null;
+}
+
+// A webhook as it would arrive over HTTP: the body and its stripe-signature header
+export interface FakeWebhook {
+  payload: string;
+  signature: string;
+}
+
+/**
+ * In-process stand-in for Stripe. Keeps payment intents in memory and produces signed
+ * webhooks for what would happen to them, so checkout → webhook → order status can run
+ * end to end without network access. Signatures use Stripe's scheme.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = "fake";
+  readonly paymentIntents = new Map<string, FakePaymentIntent>();
+  private nextId = 1;
+
+  constructor(private webhookSecret: string) {}
+
+  async createPaymentIntent(request: PaymentIntentRequest): Promise<CreatedPaymentIntent> {
+    const id = `pi_fake_${this.nextId++}`;
+    this.paymentIntents.set(id, {
+      id,
+      object: "payment_intent",
+      amount: request.amountCents,
+      amount_refunded: 0,
+      currency: request.currency,
+      status: "requires_payment_method",
+      metadata: { ...request.metadata },
+      receipt_email: request.email,
+      last_payment_error: null
+    });
+    return { id, clientSecret: `${id}_secret_fake` };
+  }
+
+  async createRefund(paymentIntentId: string, amountCents?: number): Promise<CreatedRefund> {
+    const intent = this.getIntent(paymentIntentId);
+    if (intent.status !== "succeeded") {
+      throw new Error(`Payment intent ${paymentIntentId} has not been paid`);
+    }
+
+    const refundable = intent.amount - intent.amount_refunded;
+    const amount = amountCents ?? refundable;
+    if (amount <= 0 || amount > refundable) {
+      throw new Error(`Cannot refund ${amount} of ${refundable} remaining on ${paymentIntentId}`);
+    }
+    intent.amount_refunded += amount;
+    return { id: `re_fake_${this.nextId++}`, amountCents: amount };
+  }
+
+  parseWebhookEvent(payload: unknown, signature: string | undefined): PaymentEvent {
+    const text = payloadText(payload);
+    const [, timestamp, digest] = /^t=(\d+),v1=([0-9a-f]+)$/.exec(signature ?? "") ?? [];
+    if (!timestamp || digest !== this.digest(timestamp, text)) {
+      throw new WebhookSignatureError();
+    }
+    return JSON.parse(text);
+  }
+
+  async configurePayouts(): Promise<boolean> {
+    return true;
+  }
+
+  // The customer paid
+  succeed(paymentIntentId: string): FakeWebhook {
+    const intent = this.getIntent(paymentIntentId);
+    intent.status = "succeeded";
+    intent.last_payment_error = null;
+    return this.webhook("payment_intent.succeeded", intent);
+  }
+
+  // The customer's card was declined; the intent can still be paid later
+  fail(paymentIntentId: string, message = "Your card was declined."): FakeWebhook {
+    const intent = this.getIntent(paymentIntentId);
+    intent.status = "requires_payment_method";
+    intent.last_payment_error = { message };
+    return this.webhook("payment_intent.payment_failed", intent);
+  }
+
+  // Stripe's notice that refunds were made against the intent's charge
+  chargeRefunded(paymentIntentId: string): FakeWebhook {
+    const intent = this.getIntent(paymentIntentId);
+    return this.webhook("charge.refunded", {
+      id: `ch_fake_${intent.id}`,
+      object: "charge",
+      payment_intent: intent.id,
+      amount: intent.amount,
+      amount_refunded: intent.amount_refunded,
+      refunded: intent.amount_refunded >= intent.amount,
+      metadata: intent.metadata
+    });
+  }
+
+  // The intent was canceled before it was paid
+  cancel(paymentIntentId: string): FakeWebhook {
+    const intent = this.getIntent(paymentIntentId);
+    intent.status = "canceled";
+    return this.webhook("payment_intent.canceled", intent);
+  }
+
+  // The cardholder disputed the payment with their bank
+  dispute(paymentIntentId: string, reason = "fraudulent"): FakeWebhook {
+    const intent = this.getIntent(paymentIntentId);
+    return this.webhook("charge.dispute.created", {
+      id: `dp_fake_${this.nextId++}`,
+      object: "dispute",
+      charge: `ch_fake_${intent.id}`,
+      payment_intent: intent.id,
+      amount: intent.amount,
+      reason,
+      status: "needs_response"
+    });
+  }
+
+  // A refund that the card network turned down after it was created
+  refundFailed(paymentIntentId: string, refundId: string, amountCents: number): FakeWebhook {
+    const intent = this.getIntent(paymentIntentId);
+    intent.amount_refunded = Math.max(0, intent.amount_refunded - amountCents);
+    return this.webhook("charge.refund.updated", {
+      id: refundId,
+      object: "refund",
+      payment_intent: intent.id,
+      amount: amountCents,
+      status: "failed",
+      failure_reason: "expired_or_canceled_card"
+    });
+  }
+
+  webhook(type: string, object: object): FakeWebhook {
+    const payload = JSON.stringify({
+      id: `evt_fake_${this.nextId++}`,
+      type,
+      data: { object: { ...object } }
+    });
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    return { payload, signature: `t=${timestamp},v1=${this.digest(timestamp, payload)}` };
+  }
+
+  private getIntent(paymentIntentId: string): FakePaymentIntent {
+    const intent = this.paymentIntents.get(paymentIntentId);
+    if (!intent) throw new Error(`No such payment intent: ${paymentIntentId}`);
+    return intent;
+  }
+
+  private digest(timestamp: string, payload: string): string {
+    return crypto.createHmac("sha256", this.webhookSecret).update(`${timestamp}.${payload}`).digest("hex");
+  }
+}
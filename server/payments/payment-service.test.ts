@@ -0,0 +1,23 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createPaymentProvider } from "./payment-service";
+import { FakePaymentProvider } from "./fake-provider";
+
+afterEach(() => vi.unstubAllEnvs());
+
+describe("createPaymentProvider", () => {
+  it("uses the fake provider when PAYMENT_PROVIDER=fake", () => {
+    expect(createPaymentProvider()).toBeInstanceOf(FakePaymentProvider);
+  });
+
+  it("won't use the fake provider in production", () => {
+    vi.stubEnv("NODE_ENV", "production");
+
+    expect(() => createPaymentProvider()).toThrow(/can't be used in production/);
+  });
+
+  it("won't sign the fake provider's webhooks without a secret", () => {
+    vi.stubEnv("STRIPE_WEBHOOK_SECRET", "");
+
+    expect(() => createPaymentProvider()).toThrow(/STRIPE_WEBHOOK_SECRET must be set/);
+  });
+});
@@ -0,0 +1,319 @@
+import Stripe from "stripe";
+import type { Address, Order, OrderStatus, Quote } from "@shared/schema";
+import { PromotionLimitError, storage, type OrderStatusChange } from "../storage";
+import { advanceOrderStatus, refundStatusFor } from "../orders";
+import { releaseOrderStock, reserveOrderStock } from "../inventory";
+import { pricingEngine, PromotionError, type CartLine } from "../pricing";
+import { redeemOrderPromotions } from "../promotions";
+import { fulfillmentRouter } from "../purchasing/fulfillment-router";
+import type { PaymentEvent, PaymentProvider } from "./provider";
+import { StripeProvider } from "./stripe-provider";
+import { FakePaymentProvider } from "./fake-provider";
+
+// Thrown when no payment provider is configured
+export class PaymentUnavailableError extends Error {
+  constructor() {
+    super("Payment service unavailable");
+    this.name = "PaymentUnavailableError";
+  }
+}
+
+export interface CheckoutRequest {
+  cartItems: CartLine[];
+  shippingAddress: Address;
+  billingAddress: Address;
+  email: string;
+  userId: number | null;
+  promotionCodes?: string[];
+  analyticsSessionId?: string | null;
+}
+
+export interface CheckoutResult {
+  order: Order;
+  quote: Quote;
+  clientSecret: string | null;
+}
+
+export interface WebhookResult {
+  success: boolean;
+  message: string;
+}
+
+export interface RefundResult {
+  success: true;
+  refundId: string;
+  amount: number; // dollars
+}
+
+const toCents = (amount: string | number) => Math.round(parseFloat(String(amount)) * 100);
+
+/**
+ * Checkout, refunds and webhooks on top of whichever PaymentProvider is configured.
+ * Webhooks are the source of truth for whether an order was paid.
+ */
+export class PaymentService {
+  constructor(readonly provider: PaymentProvider | null) {}
+
+  get isAvailable(): boolean {
+    return this.provider !== null;
+  }
+
+  private requireProvider(): PaymentProvider {
+    if (!this.provider) throw new PaymentUnavailableError();
+    return this.provider;
+  }
+
+  /**
+   * Prices the cart, places a pending order with its stock and promotion codes held, and
+   * opens a payment intent for the quoted total. Throws PricingError (PromotionError for a
+   * code that can't be used) or InsufficientStockError for a bad cart.
+   */
+  async checkout(request: CheckoutRequest): Promise<CheckoutResult> {
+    const provider = this.requireProvider();
+    const customer = { userId: request.userId, email: request.email };
+    const quote = await pricingEngine.quote(request.cartItems, { promotionCodes: request.promotionCodes, customer });
+    // The customer saw a price with these codes, so don't quietly charge a different one
+    const [rejected] = quote.rejectedCodes;
+    if (rejected) throw new PromotionError(rejected.code, rejected.message);
+
+    const order = await storage.createOrder({
+      userId: request.userId, // null for guest checkout
+      email: request.email,
+      shippingAddress: request.shippingAddress,
+      billingAddress: request.billingAddress,
+      shippingMethod: quote.shippingMethod,
+      shippingCost: quote.shipping,
+      subtotal: quote.subtotal,
+      discount: quote.discount,
+      promotionCodes: quote.promotionCodes,
+      tax: quote.tax,
+      total: quote.total,
+      paymentMethod: "Stripe",
+      note: "",
+      analyticsSessionId: request.analyticsSessionId ?? null
+    });
+
+    for (const line of quote.lines) {
+      await storage.createOrderItem({
+        orderId: order.id,
+        productId: line.productId,
+        quantity: line.quantity,
+        price: line.unitPrice,
+        subtotal: line.lineTotal
+      });
+    }
+
+    // Hold the stock until the payment goes through or the hold expires
+    await reserveOrderStock(order.id, quote.lines);
+
+    try {
+      await redeemOrderPromotions(order.id, customer, quote);
+    } catch (error) {
+      if (error instanceof PromotionLimitError) {
+        await releaseOrderStock(order.id);
+        await storage.updateOrderStatus(order.id, "cancelled", { note: `Code ${error.code} used up` });
+        throw new PromotionError(error.code, "This code has reached its usage limit");
+      }
+      throw error;
+    }
+
+    let paymentIntent;
+    try {
+      paymentIntent = await provider.createPaymentIntent({
+        amountCents: toCents(quote.total),
+        currency: quote.currency,
+        email: request.email,
+        description: `Order #${order.orderNumber}`,
+        metadata: {
+          orderId: order.id.toString(),
+          orderNumber: order.orderNumber,
+          customerEmail: request.email
+        },
+        shippingAddress: request.shippingAddress
+      });
+    } catch (error) {
+      // Nobody can pay for this order, so don't keep its stock from other customers
+      await releaseOrderStock(order.id);
+      throw error;
+    }
+
+    const updated = await storage.updatePaymentStatus(order.id, "pending", paymentIntent.id);
+    return { order: updated ?? order, quote, clientSecret: paymentIntent.clientSecret };
+  }
+
+  // Refunds the rest of an order's payment, or `amount` dollars of it, leaving it at `status`
+  async refundOrder(
+    order: Order,
+    amount?: number,
+    change: OrderStatusChange = {},
+    status: OrderStatus = refundStatusFor(order, amount)
+  ): Promise<RefundResult> {
+    const provider = this.requireProvider();
+    if (!order.stripePaymentIntentId) {
+      throw new Error(`Order ${order.orderNumber} has no payment to refund`);
+    }
+
+    const refund = await provider.createRefund(
+      order.stripePaymentIntentId,
+      amount !== undefined ? toCents(amount) : undefined
+    );
+    await storage.recordOrderRefund(order.id, (refund.amountCents / 100).toFixed(2));
+
+    await advanceOrderStatus(order.id, status, change);
+    await storage.updatePaymentStatus(order.id, status);
+
+    return { success: true, refundId: refund.id, amount: refund.amountCents / 100 };
+  }
+
+  /**
+   * Verifies and applies a webhook, once: providers redeliver events they aren't sure
+   * arrived. Throws WebhookSignatureError for a forged one.
+   */
+  async handleWebhook(payload: unknown, signature: string | undefined): Promise<WebhookResult> {
+    const event = this.requireProvider().parseWebhookEvent(payload, signature);
+
+    if (!await storage.claimWebhookEvent(event.id, event.type)) {
+      return { success: true, message: `Event ${event.id} already processed` };
+    }
+    try {
+      return await this.handleEvent(event);
+    } catch (error) {
+      // Let the provider's retry try again
+      await storage.releaseWebhookEvent(event.id);
+      throw error;
+    }
+  }
+
+  async handleEvent(event: PaymentEvent): Promise<WebhookResult> {
+    const object = event.data.object;
+
+    switch (event.type) {
+      case "payment_intent.succeeded": {
+        const orderId = parseInt(object.metadata?.orderId);
+        if (!orderId) return { success: false, message: "No order on payment intent" };
+
+        // Mark the order paid; staff move it on to processing
+        await advanceOrderStatus(orderId, "paid", { note: "Payment received" });
+        await storage.updatePaymentStatus(orderId, "paid", object.id);
+        console.log(`Payment for order ${object.metadata.orderNumber} (ID: ${orderId}) completed successfully`);
+
+        // Dropshipped items go out to their suppliers; trouble there mustn't undo the payment
+        await fulfillmentRouter.routeOrder(orderId)
+          .catch(error => console.error(`Error routing order ${orderId} to suppliers:`, error));
+        return { success: true, message: "Payment recorded" };
+      }
+
+      case "payment_intent.payment_failed": {
+        const orderId = parseInt(object.metadata?.orderId);
+        if (!orderId) return { success: false, message: "No order on payment intent" };
+
+        // The order stays pending so the customer can retry; its stock goes back on sale
+        // meanwhile and is taken again if a retry succeeds
+        await storage.updatePaymentStatus(orderId, "failed", object.id);
+        await releaseOrderStock(orderId);
+        console.log(`Payment for order ${orderId} failed`);
+        return { success: false, message: "Payment failed" };
+      }
+
+      case "payment_intent.canceled": {
+        const orderId = parseInt(object.metadata?.orderId);
+        if (!orderId) return { success: false, message: "No order on payment intent" };
+
+        // The intent can never be paid now, so neither can its order
+        await advanceOrderStatus(orderId, "cancelled", { note: "Payment canceled" });
+        await storage.updatePaymentStatus(orderId, "cancelled", object.id);
+        return { success: true, message: "Payment canceled" };
+      }
+
+      case "charge.refunded": {
+        const order = await this.orderForPaymentIntent(object.payment_intent);
+        if (!order) return { success: false, message: "No order for refunded charge" };
+
+        // Refunds made from the admin are already recorded; this catches ones made in Stripe
+        const unrecorded = Math.max(0, object.amount_refunded - toCents(order.refundedAmount)) / 100;
+        if (unrecorded > 0) await storage.recordOrderRefund(order.id, unrecorded.toFixed(2));
+        const status = refundStatusFor(order, unrecorded);
+        if (order.status !== status) {
+          await advanceOrderStatus(order.id, status, { note: "Refunded in Stripe" });
+          await storage.updatePaymentStatus(order.id, status);
+        }
+        return { success: true, message: "Refund processed" };
+      }
+
+      case "charge.refund.updated": {
+        // Only a refund that didn't go through needs attention; the money stayed with us
+        if (object.status !== "failed" && object.status !== "canceled") {
+          return { success: true, message: `Refund ${object.status}` };
+        }
+        const order = await this.orderForPaymentIntent(object.payment_intent);
+        if (!order) return { success: false, message: "No order for refund" };
+
+        await storage.updatePaymentStatus(order.id, "refund_failed");
+        console.error(`Refund ${object.id} for order ${order.orderNumber} ${object.status}: ${object.failure_reason ?? "no reason given"}`);
+        return { success: true, message: `Refund ${object.status}` };
+      }
+
+      case "charge.dispute.created": {
+        const order = await this.orderForPaymentIntent(object.payment_intent);
+        if (!order) return { success: false, message: "No order for disputed charge" };
+
+        // Staff respond to the dispute in Stripe; the payment status flags the order for them
+        await storage.updatePaymentStatus(order.id, "disputed");
+        console.error(`Payment for order ${order.orderNumber} disputed (${object.reason}), amount ${object.amount / 100}`);
+        return { success: true, message: "Dispute recorded" };
+      }
+
+      case "payout.created":
+      case "payout.paid":
+      case "payout.failed":
+        // Automatic payout to your Wells Fargo has been initiated/completed
+        console.log(`Payout event: ${event.type}`, object);
+        return { success: event.type !== "payout.failed", message: `Payout ${event.type}` };
+
+      default:
+        return { success: true, message: `Unhandled event type: ${event.type}` };
+    }
+  }
+
+  private async orderForPaymentIntent(paymentIntentId: unknown): Promise<Order | undefined> {
+    return typeof paymentIntentId === "string" ? storage.getOrderByPaymentIntentId(paymentIntentId) : undefined;
+  }
+
+  async configurePayouts(): Promise<boolean> {
+    return this.requireProvider().configurePayouts();
+  }
+}
+
+/**
+ * PAYMENT_PROVIDER=fake uses the in-process provider, outside production only, with
+ * webhooks signed with STRIPE_WEBHOOK_SECRET; otherwise Stripe when STRIPE_SECRET_KEY is
+ * set. Stripe webhooks must be signed unless NODE_ENV=development.
+ */
+export function createPaymentProvider(): PaymentProvider | null {
+  if (process.env.PAYMENT_PROVIDER === "fake") {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("PAYMENT_PROVIDER=fake can't be used in production");
+    }
+    if (!process.env.STRIPE_WEBHOOK_SECRET) {
+      throw new Error("STRIPE_WEBHOOK_SECRET must be set to sign the fake payment provider's webhooks");
+    }
+    return new FakePaymentProvider(process.env.STRIPE_WEBHOOK_SECRET);
+  }
+  if (!process.env.STRIPE_SECRET_KEY) {
+    console.warn("Missing STRIPE_SECRET_KEY environment variable. Stripe payments will not work.");
+    return null;
+  }
+  const development = process.env.NODE_ENV === "development";
+  if (!process.env.STRIPE_WEBHOOK_SECRET) {
+    console.warn(development
+      ? "Missing STRIPE_WEBHOOK_SECRET environment variable. Webhooks will be accepted unverified in development."
+      : "Missing STRIPE_WEBHOOK_SECRET environment variable. Stripe webhooks will be rejected.");
+  }
+  return new StripeProvider(
+    new Stripe(process.env.STRIPE_SECRET_KEY, { apiVersion: "2025-04-30.basil" }),
+    process.env.STRIPE_WEBHOOK_SECRET,
+    development
+  );
+}
+
+export const paymentService = new PaymentService(createPaymentProvider());
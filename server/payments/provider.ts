@@ -0,0 +1,54 @@
+import type { Address } from "@shared/schema";
+
+/**
+ * What the store needs from a payment processor. Stripe is the real one; the fake provider
+ * stands in for it offline. Amounts are in cents.
+ */
+export interface PaymentProvider {
+  readonly name: string;
+  createPaymentIntent(request: PaymentIntentRequest): Promise<CreatedPaymentIntent>;
+  createRefund(paymentIntentId: string, amountCents?: number): Promise<CreatedRefund>;
+  // Throws WebhookSignatureError when the payload isn't signed by the provider
+  parseWebhookEvent(payload: unknown, signature: string | undefined): PaymentEvent;
+  configurePayouts(): Promise<boolean>;
+}
+
+export interface PaymentIntentRequest {
+  amountCents: number;
+  currency: string;
+  email: string;
+  description: string;
+  metadata: Record<string, string>;
+  shippingAddress: Address;
+}
+
+export interface CreatedPaymentIntent {
+  id: string;
+  clientSecret: string | null;
+}
+
+export interface CreatedRefund {
+  id: string;
+  amountCents: number;
+}
+
+// Webhook events keep Stripe's shape, which every handler is written against
+export interface PaymentEvent {
+  id: string;
+  type: string;
+  data: { object: any };
+}
+
+export class WebhookSignatureError extends Error {
+  constructor(message = "Webhook signature verification failed") {
+    super(message);
+    this.name = "WebhookSignatureError";
+  }
+}
+
+// Webhook payloads arrive as a raw string or buffer, or already parsed by express.json
+export function payloadText(payload: unknown): string {
+  if (typeof payload === "string") return payload;
+  if (Buffer.isBuffer(payload)) return payload.toString("utf8");
+  return JSON.stringify(payload);
+}
@@ -0,0 +1,103 @@
+/**
+ * Role-based authorization
+ *
+ * Every privileged route declares the permission it needs with
+ * requirePermission(); roles are granted permissions here and nowhere else.
+ */
+
+import type { NextFunction, Request, Response } from "express";
+import type { User, UserRole } from "@shared/schema";
+import { storage } from "./storage";
+
+export type Permission =
+  | "catalog:write"     // products, categories, brands, fitment
+  | "promotions:manage" // discount codes and bundles
+  | "orders:read"
+  | "orders:write"
+  | "refunds:create"
+  | "payouts:manage"
+  | "users:manage"      // assign roles
+  | "audit:read"
+  | "analytics:read"
+  | "suppliers:manage"; // suppliers, costs and margins
+
+const rolePermissions: Record<UserRole, Permission[]> = {
+  admin: [
+    "catalog:write",
+    "promotions:manage",
+    "orders:read",
+    "orders:write",
+    "refunds:create",
+    "payouts:manage",
+    "users:manage",
+    "audit:read",
+    "analytics:read",
+    "suppliers:manage"
+  ],
+  fulfillment: ["orders:read", "orders:write"],
+  support: ["orders:read", "refunds:create"],
+  customer: []
+};
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by requirePermission for the handlers behind it
+      currentUser?: User;
+    }
+  }
+}
+
+export function permissionsFor(role: UserRole): Permission[] {
+  return rolePermissions[role] ?? [];
+}
+
+export function hasPermission(user: Pick<User, "role">, permission: Permission): boolean {
+  return permissionsFor(user.role).includes(permission);
+}
+
+/**
+ * Rejects the request unless the signed-in user's role grants the permission
+ */
+export function requirePermission(permission: Permission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = req.session.userId ? await storage.getUser(req.session.userId) : undefined;
+      if (!user) {
+        res.status(401).json({ message: 'Not signed in' });
+        return;
+      }
+      if (!hasPermission(user, permission)) {
+        res.status(403).json({ message: 'Forbidden' });
+        return;
+      }
+
+      req.currentUser = user;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Creates the admin account from ADMIN_EMAIL and ADMIN_PASSWORD if it doesn't exist yet,
+ * so a fresh install (or the in-memory store) always has someone who can sign in to manage it.
+ */
+export async function ensureAdminUser() {
+  const email = process.env.ADMIN_EMAIL;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!email || !password) return;
+
+  const existing = await storage.getUserByEmail(email);
+  if (existing) return;
+
+  const user = await storage.createUser({
+    username: email.split('@')[0],
+    email,
+    password,
+    fullName: null
+  });
+  await storage.updateUser(user.id, { role: 'admin' });
+  console.log(`Created admin user ${email}`);
+}
@@ -0,0 +1,132 @@
+import type { Product, Quote, QuoteDiscount } from "@shared/schema";
+import { storage, type IStorage, type PromotionCustomer } from "./storage";
+import { applyPromotionCodes } from "./promotions";
+import { applyBundles } from "./bundles";
+
+export interface CartLine {
+  productId: number;
+  quantity: number;
+}
+
+export interface QuoteOptions {
+  promotionCodes?: string[];
+  customer?: PromotionCustomer; // enables per-customer promotion limits
+}
+
+export interface PricingConfig {
+  taxRate: number;
+  flatShippingCents: number;
+  freeShippingOverCents: number; // orders above this ship free
+}
+
+export const defaultPricingConfig: PricingConfig = {
+  taxRate: 0.08,
+  flatShippingCents: 1500,
+  freeShippingOverCents: 20000,
+};
+
+// Thrown when a cart can't be priced, e.g. it holds a product that's no longer sold
+export class PricingError extends Error {
+  constructor(message: string, public productId?: number) {
+    super(message);
+    this.name = "PricingError";
+  }
+}
+
+// Thrown when an order is placed with a code the cart can't use
+export class PromotionError extends PricingError {
+  constructor(public code: string, message: string) {
+    super(`${code}: ${message}`);
+    this.name = "PromotionError";
+  }
+}
+
+// Money is handled in whole cents and only turned back into decimal strings at the end
+const toCents = (amount: string | number) => Math.round(parseFloat(String(amount)) * 100);
+const fromCents = (cents: number) => (cents / 100).toFixed(2);
+
+export class PricingEngine {
+  constructor(private store: IStorage, private config: PricingConfig = defaultPricingConfig) {}
+
+  /**
+   * Prices a cart. Bundle discounts come first and promotions apply to what's left of each
+   * line. Promotion codes that can't be used are left out of the discounts and listed in
+   * rejectedCodes with the reason.
+   */
+  async quote(cart: CartLine[], options: QuoteOptions = {}): Promise<Quote> {
+    if (cart.length === 0) {
+      throw new PricingError("Cart is empty");
+    }
+
+    // The same product twice in a cart is one line
+    const quantities = new Map<number, number>();
+    for (const { productId, quantity } of cart) {
+      quantities.set(productId, (quantities.get(productId) ?? 0) + quantity);
+    }
+
+    const lines: { product: Product; quantity: number; unitCents: number }[] = [];
+    for (const [productId, quantity] of Array.from(quantities)) {
+      const product = await this.store.getProductById(productId);
+      if (!product || !product.isActive) {
+        throw new PricingError(`Product ${productId} is not available`, productId);
+      }
+      lines.push({ product, quantity, unitCents: toCents(product.price) });
+    }
+
+    const subtotalCents = lines.reduce((sum, line) => sum + line.unitCents * line.quantity, 0);
+    const bundles = await applyBundles(this.store, lines);
+    const bundledCents = (productId: number) =>
+      bundles.reduce((sum, { productDiscountCents }) => sum + (productDiscountCents.get(productId) ?? 0), 0);
+
+    const { applied, rejected } = await applyPromotionCodes(
+      this.store,
+      options.promotionCodes ?? [],
+      lines.map(line => ({ product: line.product, cents: line.unitCents * line.quantity - bundledCents(line.product.id) })),
+      options.customer
+    );
+    const discounts: { code?: string; bundleId?: number; description: string; cents: number }[] = [
+      ...bundles.map(({ bundle, sets, discountCents }) => ({
+        bundleId: bundle.id,
+        description: `${bundle.name} (${bundle.discountPercent}% off${sets > 1 ? ` x${sets}` : ""})`,
+        cents: discountCents
+      })),
+      ...applied.map(({ promotion, discountCents }) => ({
+        code: promotion.code,
+        description: promotion.description,
+        cents: discountCents
+      })),
+    ];
+    const discountCents = Math.min(discounts.reduce((sum, d) => sum + d.cents, 0), subtotalCents);
+    const discountedCents = subtotalCents - discountCents;
+
+    const freeShipping = applied.some(promotion => promotion.freeShipping) ||
+      discountedCents > this.config.freeShippingOverCents;
+    const shippingCents = freeShipping ? 0 : this.config.flatShippingCents;
+    const taxCents = Math.round(discountedCents * this.config.taxRate);
+
+    return {
+      lines: lines.map(({ product, quantity, unitCents }) => ({
+        productId: product.id,
+        name: product.name,
+        sku: product.sku,
+        quantity,
+        unitPrice: fromCents(unitCents),
+        compareAtPrice: product.compareAtPrice,
+        lineTotal: fromCents(unitCents * quantity),
+      })),
+      discounts: discounts.map(({ cents, ...discount }): QuoteDiscount => ({ ...discount, amount: fromCents(cents) })),
+      promotionCodes: applied.map(({ promotion }) => promotion.code),
+      rejectedCodes: rejected,
+      subtotal: fromCents(subtotalCents),
+      discount: fromCents(discountCents),
+      shipping: fromCents(shippingCents),
+      shippingMethod: shippingCents === 0 ? "Free Shipping" : "Standard Shipping",
+      amountToFreeShipping: fromCents(shippingCents === 0 ? 0 : this.config.freeShippingOverCents + 1 - discountedCents),
+      tax: fromCents(taxCents),
+      total: fromCents(discountedCents + shippingCents + taxCents),
+      currency: "usd",
+    };
+  }
+}
+
+export const pricingEngine = new PricingEngine(storage);
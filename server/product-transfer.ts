@@ -0,0 +1,447 @@
+/**
+ * Bulk product export and import
+ *
+ * The catalog goes out as CSV or JSON with one record per product, naming its brand and
+ * category by slug and its fitment by make and model, so the file can be edited in a
+ * spreadsheet and imported back. Imported records are matched to products by SKU.
+ */
+
+import { z, type ZodIssue } from "zod";
+import { insertProductSchema, type InsertProduct, type InsertProductFitment, type Product, type ProductFitmentDetail } from "@shared/schema";
+import { storage } from "./storage";
+import { findOrCreateVehicleModel } from "./fitment";
+import { formatCsv, isBlankRow, parseCsv, splitHeader, unescapeCsvText } from "./csv";
+
+export const productTransferFormats = ["csv", "json"] as const;
+export type ProductTransferFormat = typeof productTransferFormats[number];
+
+// Thrown when an import file can't be read at all, as opposed to single bad rows
+export class ProductImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProductImportError";
+  }
+}
+
+// A row that can't be imported, for the import's row errors
+class ProductRowProblem extends Error {}
+
+export interface FitmentRecord {
+  make: string;
+  model: string;
+  yearFrom: number;
+  yearTo: number;
+  variant: string | null;
+  notes: string | null;
+}
+
+export interface ProductRecord {
+  sku: string;
+  name: string;
+  slug: string;
+  description: string;
+  price: string;
+  compareAtPrice: string | null;
+  brand: string | null;     // brand slug
+  category: string | null;  // category slug
+  inventoryCount: number;
+  isFeatured: boolean;
+  isActive: boolean;
+  tags: string[];
+  images: string[];
+  specs: Record<string, unknown>;
+  fitment: FitmentRecord[];
+  metaTitle: string | null;
+  metaDescription: string | null;
+}
+
+type ProductColumn = keyof ProductRecord;
+
+// Also the CSV column order
+const productColumns: ProductColumn[] = [
+  "sku", "name", "slug", "description", "price", "compareAtPrice", "brand", "category",
+  "inventoryCount", "isFeatured", "isActive", "tags", "images", "specs", "fitment",
+  "metaTitle", "metaDescription"
+];
+
+// In CSV, lists are joined with this and specs and fitment are written as JSON
+const LIST_SEPARATOR = "|";
+const listColumns = new Set<ProductColumn>(["tags", "images"]);
+const jsonColumns = new Set<ProductColumn>(["specs", "fitment"]);
+
+// What a blank cell or null sets each column to; columns not here are cleared or required
+const blankValues: Partial<Record<ProductColumn, unknown>> = {
+  description: "",
+  inventoryCount: 0,
+  isFeatured: false,
+  isActive: true,
+  tags: [],
+  images: [],
+  specs: {},
+  fitment: []
+};
+const requiredColumns = new Set<ProductColumn>(["sku", "name", "slug", "price"]);
+
+const fitmentRecordSchema = z.object({
+  make: z.string().trim().min(1),
+  model: z.string().trim().min(1),
+  yearFrom: z.number().int(),
+  yearTo: z.number().int(),
+  variant: z.string().nullish().transform(value => value?.trim() || null),
+  notes: z.string().nullish().transform(value => value?.trim() || null)
+}).refine(fitment => fitment.yearFrom <= fitment.yearTo, {
+  message: "yearFrom must not be after yearTo",
+  path: ["yearTo"]
+});
+
+export interface ProductImportRowError {
+  row: number; // as a spreadsheet numbers it, counting the header; from 1 for JSON
+  sku?: string;
+  message: string;
+}
+
+export interface ProductImportRowResult {
+  row: number;
+  sku: string;
+  action: "create" | "update";
+  changes: ProductColumn[];
+}
+
+export interface ProductImportResult {
+  dryRun: boolean;
+  rowCount: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  rows: ProductImportRowResult[];
+  errors: ProductImportRowError[];
+}
+
+interface ImportRow {
+  row: number;
+  values: Partial<Record<ProductColumn, unknown>>;
+}
+
+function toFitmentRecord(fitment: ProductFitmentDetail): FitmentRecord {
+  return {
+    make: fitment.make,
+    model: fitment.model,
+    yearFrom: fitment.yearFrom,
+    yearTo: fitment.yearTo,
+    variant: fitment.variant,
+    notes: fitment.notes
+  };
+}
+
+/**
+ * Every product, active or not, ordered by SKU
+ */
+export async function exportProducts(): Promise<ProductRecord[]> {
+  const [{ products }, brands, categories] = await Promise.all([
+    storage.getProducts(),
+    storage.getBrands(),
+    storage.getCategories()
+  ]);
+  const brandSlugs = new Map(brands.map(brand => [brand.id, brand.slug]));
+  const categorySlugs = new Map(categories.map(category => [category.id, category.slug]));
+
+  const records: ProductRecord[] = [];
+  for (const product of products.sort((a, b) => a.sku.localeCompare(b.sku))) {
+    const fitments = await storage.getProductFitments(product.id);
+    records.push({
+      sku: product.sku,
+      name: product.name,
+      slug: product.slug,
+      description: product.description,
+      price: product.price,
+      compareAtPrice: product.compareAtPrice,
+      brand: (product.brandId && brandSlugs.get(product.brandId)) || null,
+      category: (product.categoryId && categorySlugs.get(product.categoryId)) || null,
+      inventoryCount: product.inventoryCount ?? 0,
+      isFeatured: product.isFeatured ?? false,
+      isActive: product.isActive ?? true,
+      tags: product.tags ?? [],
+      images: Array.isArray(product.images) ? product.images as string[] : [],
+      specs: (product.specs ?? {}) as Record<string, unknown>,
+      fitment: fitments.map(toFitmentRecord),
+      metaTitle: product.metaTitle,
+      metaDescription: product.metaDescription
+    });
+  }
+  return records;
+}
+
+function csvCell(record: ProductRecord, column: ProductColumn): string | number {
+  const value = record[column];
+  if (value === null) return "";
+  if (listColumns.has(column)) return (value as string[]).join(LIST_SEPARATOR);
+  if (jsonColumns.has(column)) {
+    const isEmpty = Array.isArray(value) ? value.length === 0 : Object.keys(value as object).length === 0;
+    return isEmpty ? "" : JSON.stringify(value);
+  }
+  return typeof value === "boolean" ? String(value) : value as string | number;
+}
+
+export function formatProductRecords(records: ProductRecord[], format: ProductTransferFormat): string {
+  if (format === "json") return JSON.stringify(records, null, 2);
+  // Feeds bring product text in from suppliers, and importing a file undoes the escaping
+  return formatCsv([productColumns, ...records.map(record => productColumns.map(column => csvCell(record, column)))], { escapeFormulas: true });
+}
+
+// CSV cells are all text; this turns them into the values a JSON file would have
+function fromCsvCell(column: ProductColumn, cell: string): unknown {
+  const text = unescapeCsvText(cell.trim());
+  if (text === "") return null;
+  if (listColumns.has(column)) {
+    return text.split(LIST_SEPARATOR).map(item => item.trim()).filter(Boolean);
+  }
+  if (jsonColumns.has(column)) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new ProductRowProblem(`The ${column} column isn't valid JSON`);
+    }
+  }
+  if (column === "inventoryCount" && /^-?\d+$/.test(text)) return parseInt(text, 10);
+  if (column === "isFeatured" || column === "isActive") {
+    if (/^(true|yes|y|1)$/i.test(text)) return true;
+    if (/^(false|no|n|0)$/i.test(text)) return false;
+  }
+  // Anything else is left for validation to reject
+  return text;
+}
+
+interface ReadRows {
+  rows: ImportRow[];
+  // Problems found while reading, e.g. JSON that doesn't parse in a CSV cell
+  errors: ProductImportRowError[];
+}
+
+function readCsvRows(content: Buffer): ReadRows {
+  const split = splitHeader(parseCsv(content.toString("utf8")));
+  if (!split) throw new ProductImportError("The file is empty");
+  const { header, rows: lines } = split;
+
+  const columns = header.map(name => {
+    const column = productColumns.find(known => known.toLowerCase() === name.trim().toLowerCase());
+    if (!column) throw new ProductImportError(`The file has an unknown "${name.trim()}" column`);
+    return column;
+  });
+  if (!columns.includes("sku")) throw new ProductImportError("The file has no sku column");
+
+  const rows: ImportRow[] = [];
+  const errors: ProductImportRowError[] = [];
+  lines.forEach(({ row, cells }) => {
+    // Blank lines still count, so row numbers match the file's
+    if (isBlankRow(cells)) return;
+    try {
+      const values: ImportRow["values"] = {};
+      columns.forEach((column, position) => {
+        values[column] = fromCsvCell(column, cells[position] ?? "");
+      });
+      rows.push({ row, values });
+    } catch (error) {
+      if (!(error instanceof ProductRowProblem)) throw error;
+      errors.push({ row, sku: cells[columns.indexOf("sku")]?.trim() || undefined, message: error.message });
+    }
+  });
+  return { rows, errors };
+}
+
+function readJsonRows(content: Buffer): ReadRows {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content.toString("utf8"));
+  } catch {
+    throw new ProductImportError("The file isn't valid JSON");
+  }
+  if (!Array.isArray(parsed)) throw new ProductImportError("The file should hold a JSON array of products");
+
+  const rows: ImportRow[] = [];
+  const errors: ProductImportRowError[] = [];
+  parsed.forEach((item, index) => {
+    const row = index + 1;
+    if (typeof item !== "object" || item === null || Array.isArray(item)) {
+      errors.push({ row, message: "Each product should be a JSON object" });
+      return;
+    }
+    const unknown = Object.keys(item).filter(key => !productColumns.includes(key as ProductColumn));
+    if (unknown.length > 0) {
+      errors.push({ row, sku: typeof item.sku === "string" ? item.sku : undefined, message: `Unknown field "${unknown[0]}"` });
+      return;
+    }
+    rows.push({ row, values: item as ImportRow["values"] });
+  });
+  return { rows, errors };
+}
+
+const issueMessage = (issue: ZodIssue) => `${issue.path.join(".") || "value"}: ${issue.message}`;
+
+function parseAmount(value: unknown, column: ProductColumn): string {
+  const text = typeof value === "number" ? String(value) : value;
+  if (typeof text !== "string" || !/^\d+(\.\d{1,2})?$/.test(text)) {
+    throw new ProductRowProblem(`${column} should be an amount like 19.99`);
+  }
+  return parseFloat(text).toFixed(2);
+}
+
+const fitmentKey = (fitment: FitmentRecord) => [
+  fitment.make.toLowerCase(),
+  fitment.model.toLowerCase(),
+  fitment.yearFrom,
+  fitment.yearTo,
+  fitment.variant ?? "",
+  fitment.notes ?? ""
+].join("|");
+
+const sameFitment = (a: FitmentRecord[], b: FitmentRecord[]) =>
+  JSON.stringify(a.map(fitmentKey).sort()) === JSON.stringify(b.map(fitmentKey).sort());
+
+// The insert fields that differ from the product's, by their column names in the file
+function changedColumns(data: InsertProduct, product: Product): ProductColumn[] {
+  const changes: ProductColumn[] = [];
+  for (const [key, value] of Object.entries(data) as [keyof InsertProduct, unknown][]) {
+    if (JSON.stringify(value ?? null) === JSON.stringify(product[key] ?? null)) continue;
+    if (key === "brandId") changes.push("brand");
+    else if (key === "categoryId") changes.push("category");
+    else if (key !== "compatibleVehicles") changes.push(key);
+  }
+  return changes;
+}
+
+/**
+ * Validates every row and, unless it's a dry run, creates or updates the products of the
+ * valid ones. A row only changes the columns the file has; a blank cell clears the value,
+ * or resets it to its default. When the file has a fitment column, a product's fitment is
+ * replaced by the row's. Invalid rows are reported and skipped, and the rest still apply.
+ */
+export async function importProducts(
+  content: Buffer,
+  format: ProductTransferFormat,
+  dryRun: boolean
+): Promise<ProductImportResult> {
+  const { rows, errors } = format === "json" ? readJsonRows(content) : readCsvRows(content);
+  const result: ProductImportResult = {
+    dryRun,
+    rowCount: rows.length + errors.length,
+    created: 0,
+    updated: 0,
+    unchanged: 0,
+    rows: [],
+    errors
+  };
+
+  const [{ products }, brands, categories] = await Promise.all([
+    storage.getProducts(),
+    storage.getBrands(),
+    storage.getCategories()
+  ]);
+  const productsBySku = new Map(products.map(product => [product.sku, product]));
+  const slugOwners = new Map(products.map(product => [product.slug, product.sku]));
+  const brandIds = new Map(brands.map(brand => [brand.slug.toLowerCase(), brand.id]));
+  const categoryIds = new Map(categories.map(category => [category.slug.toLowerCase(), category.id]));
+  const knownModels = await storage.getVehicleModels();
+  const seenSkus = new Set<string>();
+
+  for (const { row, values } of rows) {
+    const sku = typeof values.sku === "string" ? values.sku.trim() : undefined;
+    try {
+      const fields: Record<string, unknown> = {};
+      for (const [column, raw] of Object.entries(values) as [ProductColumn, unknown][]) {
+        if (raw === null || raw === undefined) {
+          if (requiredColumns.has(column)) throw new ProductRowProblem(`${column} is required`);
+          fields[column] = column in blankValues ? blankValues[column] : null;
+        } else {
+          fields[column] = raw;
+        }
+      }
+      if (!sku) throw new ProductRowProblem("sku is required");
+      if (seenSkus.has(sku)) throw new ProductRowProblem("SKU is listed more than once; only the first is used");
+      seenSkus.add(sku);
+
+      const existing = productsBySku.get(sku);
+      const { brand, category, fitment, ...productFields } = fields;
+      // New products start from the blank values, so a file needs no more than the required columns
+      const { fitment: _fitment, ...newProductValues } = blankValues;
+      const candidate: Record<string, unknown> = { ...(existing ?? newProductValues), ...productFields, sku };
+
+      if (productFields.price !== undefined) candidate.price = parseAmount(productFields.price, "price");
+      if (productFields.compareAtPrice !== undefined && productFields.compareAtPrice !== null) {
+        candidate.compareAtPrice = parseAmount(productFields.compareAtPrice, "compareAtPrice");
+      }
+      if (brand !== undefined) {
+        const brandId = brand === null ? null : brandIds.get(String(brand).toLowerCase());
+        if (brandId === undefined) throw new ProductRowProblem(`There's no brand "${brand}"`);
+        candidate.brandId = brandId;
+      }
+      if (category !== undefined) {
+        const categoryId = category === null ? null : categoryIds.get(String(category).toLowerCase());
+        if (categoryId === undefined) throw new ProductRowProblem(`There's no category "${category}"`);
+        candidate.categoryId = categoryId;
+      }
+
+      const parsed = insertProductSchema.safeParse(candidate);
+      if (!parsed.success) throw new ProductRowProblem(parsed.error.issues.map(issueMessage).join("; "));
+      const data = parsed.data;
+
+      let fitmentRecords: FitmentRecord[] | undefined;
+      if (fitment !== undefined) {
+        const parsedFitment = z.array(fitmentRecordSchema).safeParse(fitment);
+        if (!parsedFitment.success) {
+          throw new ProductRowProblem(parsedFitment.error.issues.map(issue => `fitment.${issueMessage(issue)}`).join("; "));
+        }
+        fitmentRecords = parsedFitment.data;
+      }
+
+      const slugOwner = slugOwners.get(data.slug);
+      if (slugOwner !== undefined && slugOwner !== sku) {
+        throw new ProductRowProblem(`Product ${slugOwner} already uses the slug "${data.slug}"`);
+      }
+
+      const currentFitment = existing && fitmentRecords
+        ? (await storage.getProductFitments(existing.id)).map(toFitmentRecord)
+        : [];
+      const changes = existing ? changedColumns(data, existing) : [];
+      if (fitmentRecords && existing && !sameFitment(fitmentRecords, currentFitment)) changes.push("fitment");
+      if (existing && changes.length === 0) {
+        result.unchanged++;
+        continue;
+      }
+
+      if (existing && existing.slug !== data.slug) slugOwners.delete(existing.slug);
+      slugOwners.set(data.slug, sku);
+
+      if (!dryRun) {
+        // Vehicle models are looked up first so the product and its fitment are saved together
+        let fitments: Omit<InsertProductFitment, "productId">[] | undefined;
+        if (fitmentRecords && (!existing || changes.includes("fitment"))) {
+          fitments = [];
+          for (const record of fitmentRecords) {
+            const vehicleModel = await findOrCreateVehicleModel(storage, knownModels, record.make, record.model, record.yearTo);
+            fitments.push({
+              vehicleModelId: vehicleModel.id,
+              yearFrom: record.yearFrom,
+              yearTo: record.yearTo,
+              variant: record.variant,
+              notes: record.notes
+            });
+          }
+        }
+
+        const product = await storage.saveProductWithFitments(existing?.id, data, fitments);
+        if (!product) throw new ProductRowProblem("The product has since been deleted");
+      }
+
+      if (existing) result.updated++;
+      else result.created++;
+      result.rows.push({ row, sku, action: existing ? "update" : "create", changes });
+    } catch (error) {
+      if (!(error instanceof ProductRowProblem) && dryRun) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      result.errors.push({ row, sku, message });
+    }
+  }
+
+  result.errors.sort((a, b) => a.row - b.row);
+  return result;
+}
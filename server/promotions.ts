@@ -0,0 +1,127 @@
+import type { Product, Promotion, Quote, RejectedPromotionCode } from "@shared/schema";
+import { storage, type IStorage, type PromotionCustomer } from "./storage";
+import { RESERVATION_TTL_MS } from "./inventory";
+
+export function normalizePromotionCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+// Promotions with no product, category or brand scope apply to the whole cart
+export function promotionAppliesTo(promotion: Promotion, product: Pick<Product, "id" | "categoryId" | "brandId">): boolean {
+  const { productIds, categoryIds, brandIds } = promotion;
+  if (productIds.length === 0 && categoryIds.length === 0 && brandIds.length === 0) return true;
+
+  return productIds.includes(product.id) ||
+    (product.categoryId !== null && categoryIds.includes(product.categoryId)) ||
+    (product.brandId !== null && brandIds.includes(product.brandId));
+}
+
+export interface PromotionLine {
+  product: Product;
+  cents: number; // the line's total
+}
+
+export interface AppliedPromotion {
+  promotion: Promotion;
+  discountCents: number;
+  freeShipping: boolean;
+}
+
+export interface PromotionResult {
+  applied: AppliedPromotion[];
+  rejected: RejectedPromotionCode[];
+}
+
+const toCents = (amount: string | number) => Math.round(parseFloat(String(amount)) * 100);
+
+/**
+ * Works out which of a cart's codes apply and what each takes off, in the order they were
+ * entered. A code that isn't stackable can only be used on its own. Without a customer,
+ * per-customer limits are left for checkout to enforce.
+ */
+export async function applyPromotionCodes(
+  store: IStorage,
+  codes: string[],
+  lines: PromotionLine[],
+  customer?: PromotionCustomer,
+  now: Date = new Date()
+): Promise<PromotionResult> {
+  const subtotalCents = lines.reduce((sum, line) => sum + line.cents, 0);
+  const applied: AppliedPromotion[] = [];
+  const rejected: RejectedPromotionCode[] = [];
+
+  for (const code of Array.from(new Set(codes.map(normalizePromotionCode)))) {
+    const promotion = await store.getPromotionByCode(code);
+    if (!promotion) {
+      rejected.push({ code, message: "This code isn't valid" });
+      continue;
+    }
+
+    const eligibleCents = lines
+      .filter(line => promotionAppliesTo(promotion, line.product))
+      .reduce((sum, line) => sum + line.cents, 0);
+
+    const message = await unavailableReason(store, promotion, subtotalCents, eligibleCents, customer, now);
+    if (message) {
+      rejected.push({ code, message });
+      continue;
+    }
+    if (applied.length > 0 && (!promotion.stackable || applied.some(({ promotion }) => !promotion.stackable))) {
+      rejected.push({ code, message: "This code can't be combined with your other codes" });
+      continue;
+    }
+
+    applied.push({
+      promotion,
+      discountCents: promotion.type === "percent"
+        ? Math.round(eligibleCents * parseFloat(promotion.value) / 100)
+        : promotion.type === "fixed"
+          ? Math.min(toCents(promotion.value), eligibleCents)
+          : 0,
+      freeShipping: promotion.type === "free_shipping"
+    });
+  }
+
+  return { applied, rejected };
+}
+
+async function unavailableReason(
+  store: IStorage,
+  promotion: Promotion,
+  subtotalCents: number,
+  eligibleCents: number,
+  customer: PromotionCustomer | undefined,
+  now: Date
+): Promise<string | null> {
+  if (!promotion.isActive) return "This code is no longer active";
+  if (promotion.startsAt && promotion.startsAt > now) return "This code isn't active yet";
+  if (promotion.endsAt && promotion.endsAt <= now) return "This code has expired";
+  if (promotion.minSubtotal && subtotalCents < toCents(promotion.minSubtotal)) {
+    return `Spend at least $${parseFloat(promotion.minSubtotal).toFixed(2)} to use this code`;
+  }
+  if (eligibleCents === 0) return "This code doesn't apply to anything in your cart";
+
+  if (promotion.usageLimit !== null || (customer && promotion.perCustomerLimit !== null)) {
+    const usage = await store.getPromotionUsage(promotion.id, customer);
+    if (promotion.usageLimit !== null && usage.total >= promotion.usageLimit) {
+      return "This code has reached its usage limit";
+    }
+    if (customer && promotion.perCustomerLimit !== null && usage.customer >= promotion.perCustomerLimit) {
+      return "You've already used this code";
+    }
+  }
+  return null;
+}
+
+/**
+ * Records a new order's use of the codes its quote applied, held for as long as its stock.
+ * Throws PromotionLimitError when another order took the last use in the meantime.
+ */
+export async function redeemOrderPromotions(orderId: number, customer: PromotionCustomer, quote: Quote) {
+  const lines = [];
+  for (const discount of quote.discounts) {
+    const promotion = discount.code ? await storage.getPromotionByCode(discount.code) : undefined;
+    if (promotion) lines.push({ promotionId: promotion.id, amount: discount.amount });
+  }
+  return storage.redeemPromotions(orderId, customer, lines, new Date(Date.now() + RESERVATION_TTL_MS));
+}
@@ -0,0 +1,78 @@
+import { formatCsv } from "../csv";
+import type { MailMessage } from "../mailer";
+import type { PurchaseOrderDocument } from "./supplier-adapter";
+
+const formatAddress = ({ shipTo }: PurchaseOrderDocument) => [
+  shipTo.name,
+  shipTo.line1,
+  shipTo.line2,
+  `${shipTo.city}, ${shipTo.state} ${shipTo.postalCode}`,
+  shipTo.country
+].filter(Boolean).join("\n");
+
+const itemColumns = ["PO Number", "Our Order", "Supplier SKU", "Description", "Quantity", "Unit Cost", "Line Total"];
+const shipToColumns = ["Ship To Name", "Address Line 1", "Address Line 2", "City", "State", "Postal Code", "Country"];
+
+/**
+ * One row per line, with the ship-to address repeated so each row stands on its own in a
+ * spreadsheet. Only the address, which the customer typed, is guarded against formulas:
+ * suppliers' systems read the rest, SKUs and all, as written.
+ */
+export function purchaseOrderCsv(document: PurchaseOrderDocument): string {
+  const { purchaseOrder, items, shipTo } = document;
+  const header = [...itemColumns, ...shipToColumns];
+  const rows = items.map(item => [
+    purchaseOrder.poNumber,
+    document.orderNumber,
+    item.supplierSku,
+    item.name,
+    item.quantity,
+    item.unitCost,
+    (parseFloat(item.unitCost) * item.quantity).toFixed(2),
+    shipTo.name,
+    shipTo.line1,
+    shipTo.line2 ?? "",
+    shipTo.city,
+    shipTo.state,
+    shipTo.postalCode,
+    shipTo.country
+  ]);
+  return formatCsv([header, ...rows], {
+    escapeFormulas: shipToColumns.map((_, index) => itemColumns.length + index)
+  });
+}
+
+// The purchase order as an email to the supplier, with the CSV attached
+export function purchaseOrderEmail(document: PurchaseOrderDocument, to: string): MailMessage {
+  const { purchaseOrder, items, supplier } = document;
+  const lines = items.map(item =>
+    `  ${item.quantity} x ${item.supplierSku}  ${item.name}  @ $${item.unitCost}`
+  );
+
+  return {
+    to,
+    subject: `Purchase order ${purchaseOrder.poNumber} - please dropship`,
+    text: [
+      `Hello ${supplier.name},`,
+      "",
+      `Please ship the following directly to our customer and reply with tracking for purchase order ${purchaseOrder.poNumber}.`,
+      "",
+      ...lines,
+      "",
+      `Total at cost: $${purchaseOrder.subtotal}`,
+      "",
+      "Ship to:",
+      formatAddress(document),
+      "",
+      `Our order reference: ${document.orderNumber}`,
+      ...(supplier.paymentTerms ? [`Payment terms: ${supplier.paymentTerms}`] : []),
+      "",
+      "Thank you"
+    ].join("\n"),
+    attachments: [{
+      filename: `${purchaseOrder.poNumber}.csv`,
+      content: purchaseOrderCsv(document),
+      contentType: "text/csv"
+    }]
+  };
+}
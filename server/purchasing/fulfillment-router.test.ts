@@ -0,0 +1,172 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { storage } from "../storage";
+import type { Mailer, MailMessage } from "../mailer";
+import { startTestServer, type TestClient, type TestServer } from "../test/http";
+import { createTestOrder, createTestProduct, createTestUser, TEST_PASSWORD } from "../test/fixtures";
+import { checkOut, deliverWebhook, fakeProvider } from "../test/checkout";
+import { FulfillmentRouter, fulfillmentRouter } from "./fulfillment-router";
+import { MockSupplierAdapter } from "./mock-adapter";
+import type { Product, Supplier } from "@shared/schema";
+
+let server: TestServer;
+let admin: TestClient;
+
+beforeAll(async () => {
+  server = await startTestServer();
+  const user = await createTestUser("admin");
+  admin = server.client();
+  await admin.signIn(user.email, TEST_PASSWORD);
+});
+
+afterAll(() => server.close());
+
+let supplierCount = 0;
+
+// A dropshipper with its own stock location, taking orders by API or by email
+async function createDropshipper(via: "api" | "email"): Promise<Supplier> {
+  const supplier = await storage.createSupplier({
+    name: `Test ${via} supplier ${++supplierCount}`,
+    contactEmail: via === "email" ? `orders${supplierCount}@supplier.example.com` : null,
+    dropshipping: true,
+    apiAvailable: via === "api"
+  });
+  await storage.createStockLocation({ name: supplier.name, kind: "supplier", supplierId: supplier.id, shippingDaysMin: 2, shippingDaysMax: 4 });
+  return supplier;
+}
+
+// A product only the supplier has, at the given cost to us
+async function createDropshippedProduct(supplier: Supplier, cost: string, quantity = 10): Promise<Product> {
+  const product = await createTestProduct({ inventoryCount: 0 });
+  const location = (await storage.getStockLocationBySupplierId(supplier.id))!;
+  await storage.createSupplierProduct({ supplierId: supplier.id, productId: product.id, supplierSku: `SUP-${product.sku}`, cost });
+  await storage.setStockLevel(product.id, location.id, quantity);
+  return product;
+}
+
+class RecordingMailer implements Mailer {
+  readonly sent: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.sent.push(message);
+  }
+}
+
+describe("routing paid orders to suppliers", () => {
+  it("sends each supplier a purchase order for its lines once the payment goes through", async () => {
+    const [apiSupplier, emailSupplier] = await Promise.all([createDropshipper("api"), createDropshipper("email")]);
+    const fromApi = await createDropshippedProduct(apiSupplier, "30.00");
+    const fromEmail = await createDropshippedProduct(emailSupplier, "12.50");
+    const fromWarehouse = await createTestProduct({ inventoryCount: 5 });
+
+    const { order, paymentIntentId } = await checkOut(server.client(), [
+      { productId: fromApi.id, quantity: 2 },
+      { productId: fromEmail.id, quantity: 1 },
+      { productId: fromWarehouse.id, quantity: 1 }
+    ]);
+    expect(await storage.getPurchaseOrders({ orderId: order.id })).toEqual([]);
+
+    await deliverWebhook(server.client(), fakeProvider.succeed(paymentIntentId));
+
+    const purchaseOrders = await storage.getPurchaseOrders({ orderId: order.id });
+    expect(purchaseOrders).toHaveLength(2);
+
+    const viaApi = purchaseOrders.find(purchaseOrder => purchaseOrder.supplierId === apiSupplier.id)!;
+    expect(viaApi).toMatchObject({ status: "acknowledged", sentVia: "api", subtotal: "60.00", supplierReference: expect.stringMatching(/^MOCK-/) });
+    expect(await storage.getPurchaseOrderItems(viaApi.id)).toEqual([
+      expect.objectContaining({ productId: fromApi.id, supplierSku: `SUP-${fromApi.sku}`, quantity: 2, status: "ordered" })
+    ]);
+
+    const viaEmail = purchaseOrders.find(purchaseOrder => purchaseOrder.supplierId === emailSupplier.id)!;
+    expect(viaEmail).toMatchObject({ status: "sent", sentVia: "email", subtotal: "12.50" });
+    expect(await storage.getPurchaseOrderItems(viaEmail.id)).toEqual([
+      expect.objectContaining({ productId: fromEmail.id, quantity: 1, status: "ordered" })
+    ]);
+  });
+
+  it("doesn't route an order until it's paid", async () => {
+    const supplier = await createDropshipper("api");
+    const { order } = await checkOut(server.client(), [{ productId: (await createDropshippedProduct(supplier, "5.00")).id, quantity: 1 }]);
+
+    const { status, body } = await admin.request("POST", `/api/admin/orders/${order.id}/purchase-orders`);
+
+    expect(status).toBe(400);
+    expect(body.message).toMatch(/is pending/);
+    expect(await storage.getPurchaseOrders({ orderId: order.id })).toEqual([]);
+  });
+
+  it("routes an order paid before its product had a supplier when staff ask", async () => {
+    const product = await createTestProduct();
+    const order = await createTestOrder(null, [product], "paid");
+    const supplier = await createDropshipper("api");
+    await storage.createSupplierProduct({ supplierId: supplier.id, productId: product.id, supplierSku: "LATE-1", cost: "20.00" });
+
+    const first = await admin.request("POST", `/api/admin/orders/${order.id}/purchase-orders`);
+    const again = await admin.request("POST", `/api/admin/orders/${order.id}/purchase-orders`);
+
+    expect(first.status).toBe(200);
+    expect(first.body).toEqual([expect.objectContaining({ supplierId: supplier.id, status: "acknowledged", items: [expect.objectContaining({ supplierSku: "LATE-1" })] })]);
+    expect(again.body.map((purchaseOrder: { id: number }) => purchaseOrder.id)).toEqual([first.body[0].id]);
+  });
+});
+
+describe("sending purchase orders", () => {
+  it("keeps one the supplier's API refused as failed, and sends it on retry", async () => {
+    const adapter = new MockSupplierAdapter(false);
+    const router = new FulfillmentRouter(new RecordingMailer(), () => adapter);
+    const supplier = await createDropshipper("api");
+    const product = await createTestProduct();
+    await storage.createSupplierProduct({ supplierId: supplier.id, productId: product.id, supplierSku: "RETRY-1", cost: "8.00" });
+    const order = await createTestOrder(null, [product], "paid");
+
+    adapter.failNext("Supplier API timed out");
+    const [failed] = await router.routeOrder(order.id);
+
+    expect(failed).toMatchObject({ status: "failed", attempts: 1, lastError: "Supplier API timed out" });
+    expect(adapter.submissions.size).toBe(0);
+
+    const sent = await router.sendPurchaseOrder(failed.id);
+
+    expect(sent).toMatchObject({ status: "sent", sentVia: "api", attempts: 2, lastError: null });
+    expect(adapter.submissions.get(sent.supplierReference!)?.items).toEqual([expect.objectContaining({ supplierSku: "RETRY-1" })]);
+  });
+
+  it("emails a supplier without an API, with the purchase order attached", async () => {
+    const mailer = new RecordingMailer();
+    const router = new FulfillmentRouter(mailer, () => new MockSupplierAdapter());
+    const supplier = await createDropshipper("email");
+    const product = await createTestProduct();
+    await storage.createSupplierProduct({ supplierId: supplier.id, productId: product.id, supplierSku: "MAIL-1", cost: "15.00" });
+    const order = await createTestOrder(null, [product], "paid");
+
+    const [purchaseOrder] = await router.routeOrder(order.id);
+
+    expect(purchaseOrder).toMatchObject({ status: "sent", sentVia: "email" });
+    expect(mailer.sent).toEqual([expect.objectContaining({
+      to: supplier.contactEmail,
+      attachments: [expect.objectContaining({ filename: `${purchaseOrder.poNumber}.csv` })]
+    })]);
+  });
+
+  it("fails one for a supplier it has no way to reach", async () => {
+    const router = new FulfillmentRouter(new RecordingMailer(), () => null);
+    const supplier = await createDropshipper("api");
+    const product = await createTestProduct();
+    await storage.createSupplierProduct({ supplierId: supplier.id, productId: product.id, supplierSku: "NOWHERE-1", cost: "15.00" });
+    const order = await createTestOrder(null, [product], "paid");
+
+    const [purchaseOrder] = await router.routeOrder(order.id);
+
+    expect(purchaseOrder).toMatchObject({ status: "failed", lastError: expect.stringMatching(/no email address or API/) });
+  });
+
+  it("uses the mock supplier API when SUPPLIER_API=mock", async () => {
+    const supplier = await createDropshipper("api");
+    const product = await createTestProduct();
+    await storage.createSupplierProduct({ supplierId: supplier.id, productId: product.id, supplierSku: "ENV-1", cost: "15.00" });
+    const order = await createTestOrder(null, [product], "paid");
+
+    const [purchaseOrder] = await fulfillmentRouter.routeOrder(order.id);
+
+    expect(purchaseOrder).toMatchObject({ sentVia: "api", supplierReference: expect.stringMatching(/^MOCK-/) });
+  });
+});
@@ -0,0 +1,249 @@
+import {
+  addressSchema,
+  type InsertPurchaseOrderItem,
+  type OrderStatus,
+  type PurchaseOrder,
+  type PurchaseOrderItem,
+  type PurchaseOrderLineStatus,
+  type PurchaseOrderStatus,
+  type Supplier
+} from "@shared/schema";
+import { storage, type PurchaseOrderItemUpdate } from "../storage";
+import { mailer as defaultMailer, type Mailer } from "../mailer";
+import { dropshipSourceFor, type DropshipSource } from "../suppliers";
+import { purchaseOrderEmail } from "./documents";
+import { MockSupplierAdapter } from "./mock-adapter";
+import type { PurchaseOrderDocument, SupplierAdapter } from "./supplier-adapter";
+
+// Thrown when a purchase order can't be routed, sent or changed as asked
+export class PurchaseOrderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PurchaseOrderError";
+  }
+}
+
+// Orders paid for and not yet given back can be routed
+const routableOrderStatuses: readonly OrderStatus[] = ["paid", "processing"];
+
+// Purchase orders that can still go out to the supplier
+const unsentStatuses: readonly PurchaseOrderStatus[] = ["pending", "failed"];
+
+// Lines the supplier is done with
+const settledLineStatuses: readonly PurchaseOrderLineStatus[] = ["shipped", "cancelled"];
+
+/**
+ * Splits paid orders into a purchase order per dropshipping supplier and sends each one:
+ * through the supplier's API when it has one and an adapter is configured, otherwise by
+ * email with a CSV copy attached. A purchase order that can't be sent is kept as failed,
+ * with the reason, for staff to resend.
+ */
+export class FulfillmentRouter {
+  constructor(
+    private mailer: Mailer,
+    private adapterFor: (supplier: Supplier) => SupplierAdapter | null
+  ) {}
+
+  /**
+   * Creates and sends the order's purchase orders. An order is only routed once: if it
+   * already has purchase orders, those are returned as they are.
+   */
+  async routeOrder(orderId: number): Promise<PurchaseOrder[]> {
+    const order = await storage.getOrderById(orderId);
+    if (!order) throw new PurchaseOrderError(`Order ${orderId} not found`);
+    if (!routableOrderStatuses.includes(order.status)) {
+      throw new PurchaseOrderError(`Order ${order.orderNumber} is ${order.status}, so it can't be sent to suppliers`);
+    }
+
+    const existing = await storage.getPurchaseOrders({ orderId });
+    if (existing.length > 0) return existing;
+
+    // Items are grouped by the supplier that ships them; the rest ship from our stock
+    const bySupplier = new Map<number, { supplier: Supplier; items: InsertPurchaseOrderItem[] }>();
+    const shipments = await this.shipmentsFor(orderId);
+    for (const item of await storage.getOrderItemsByOrderId(orderId)) {
+      const product = await storage.getProductById(item.productId);
+      for (const { source, quantity } of await shipments(item.productId, item.quantity)) {
+        const group = bySupplier.get(source.supplier.id) ?? { supplier: source.supplier, items: [] };
+        group.items.push({
+          orderItemId: item.id,
+          productId: item.productId,
+          name: product?.name ?? `Product #${item.productId}`,
+          supplierSku: source.link.supplierSku,
+          quantity,
+          unitCost: source.link.cost
+        });
+        bySupplier.set(source.supplier.id, group);
+      }
+    }
+
+    const purchaseOrders: PurchaseOrder[] = [];
+    for (const { supplier, items } of Array.from(bySupplier.values())) {
+      const subtotal = items.reduce((sum, item) => sum + parseFloat(item.unitCost) * item.quantity, 0);
+      const purchaseOrder = await storage.createPurchaseOrder(
+        { orderId, supplierId: supplier.id, supplierName: supplier.name, subtotal: subtotal.toFixed(2) },
+        items
+      );
+      purchaseOrders.push(await this.sendPurchaseOrder(purchaseOrder.id));
+    }
+    return purchaseOrders;
+  }
+
+  /**
+   * Says which suppliers ship an order line. Lines go where checkout reserved their stock:
+   * the part held at a supplier's location is ordered from that supplier, and the rest
+   * ships from our warehouses. Orders placed before stock had locations fall back to the
+   * product's dropshipping source.
+   */
+  private async shipmentsFor(orderId: number) {
+    // What's left of each reservation, shared between order lines for the same product
+    const reservations = (await storage.getInventoryReservations(orderId))
+      .filter(reservation => reservation.status === "committed")
+      .map(({ productId, locationId, quantity }) => ({ productId, locationId, quantity }));
+
+    return async (productId: number, quantity: number): Promise<{ source: DropshipSource; quantity: number }[]> => {
+      const held = reservations.filter(reservation => reservation.productId === productId);
+      if (held.length === 0) {
+        const source = await dropshipSourceFor(productId);
+        return source ? [{ source, quantity }] : [];
+      }
+
+      const shipments: { source: DropshipSource; quantity: number }[] = [];
+      let remaining = quantity;
+      for (const reservation of held) {
+        if (remaining === 0) break;
+        const taken = Math.min(reservation.quantity, remaining);
+        if (taken === 0) continue;
+        reservation.quantity -= taken;
+        remaining -= taken;
+
+        const source = reservation.locationId !== null ? await this.supplierAt(reservation.locationId, productId) : undefined;
+        if (source) shipments.push({ source, quantity: taken });
+      }
+      return shipments;
+    };
+  }
+
+  // The supplier holding a location's stock, with its terms for the product
+  private async supplierAt(locationId: number, productId: number): Promise<DropshipSource | undefined> {
+    const location = await storage.getStockLocationById(locationId);
+    if (!location || location.supplierId === null) return undefined;
+
+    const [supplier, [link]] = await Promise.all([
+      storage.getSupplierById(location.supplierId),
+      storage.getSupplierProducts({ supplierId: location.supplierId, productId })
+    ]);
+    if (!supplier) return undefined;
+    if (!link) throw new PurchaseOrderError(`${supplier.name} holds stock of product ${productId} but has no supplier SKU or cost for it`);
+    return { supplier, link };
+  }
+
+  /**
+   * Sends a pending or failed purchase order. Failing to send isn't an error here: the
+   * purchase order comes back failed, with lastError saying why.
+   */
+  async sendPurchaseOrder(purchaseOrderId: number): Promise<PurchaseOrder> {
+    const purchaseOrder = await storage.getPurchaseOrderById(purchaseOrderId);
+    if (!purchaseOrder) throw new PurchaseOrderError(`Purchase order ${purchaseOrderId} not found`);
+    if (!unsentStatuses.includes(purchaseOrder.status)) {
+      throw new PurchaseOrderError(`Purchase order ${purchaseOrder.poNumber} has already been sent`);
+    }
+
+    const attempts = purchaseOrder.attempts + 1;
+    try {
+      const document = await this.documentFor(purchaseOrder);
+      const adapter = document.supplier.apiAvailable ? this.adapterFor(document.supplier) : null;
+
+      let sent: PurchaseOrder | undefined;
+      if (adapter) {
+        const submitted = await adapter.submitPurchaseOrder(document);
+        sent = await storage.updatePurchaseOrderStatus(purchaseOrderId, "sent", {
+          sentVia: "api", supplierReference: submitted.reference, attempts, lastError: null, sentAt: new Date()
+        });
+        if (submitted.acknowledged) {
+          sent = await storage.updatePurchaseOrderStatus(purchaseOrderId, "acknowledged");
+        }
+      } else {
+        if (!document.supplier.contactEmail) {
+          throw new PurchaseOrderError(`${document.supplier.name} has no email address or API to send purchase orders to`);
+        }
+        await this.mailer.send(purchaseOrderEmail(document, document.supplier.contactEmail));
+        sent = await storage.updatePurchaseOrderStatus(purchaseOrderId, "sent", {
+          sentVia: "email", attempts, lastError: null, sentAt: new Date()
+        });
+      }
+
+      for (const item of document.items) {
+        if (item.status === "pending") await storage.updatePurchaseOrderItem(item.id, { status: "ordered" });
+      }
+      return sent!;
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error);
+      console.error(`Sending purchase order ${purchaseOrder.poNumber} failed:`, lastError);
+
+      const failed = purchaseOrder.status === "failed"
+        ? await storage.updatePurchaseOrder(purchaseOrderId, { attempts, lastError })
+        : await storage.updatePurchaseOrderStatus(purchaseOrderId, "failed", { attempts, lastError });
+      return failed!;
+    }
+  }
+
+  /**
+   * Records what the supplier did with a line. Once every line is shipped or cancelled, the
+   * purchase order is shipped, or cancelled if nothing on it shipped.
+   */
+  async updateLine(itemId: number, update: PurchaseOrderItemUpdate): Promise<PurchaseOrderItem | undefined> {
+    const item = await storage.updatePurchaseOrderItem(itemId, update);
+    if (!item) return undefined;
+
+    const purchaseOrder = await storage.getPurchaseOrderById(item.purchaseOrderId);
+    if (purchaseOrder && (purchaseOrder.status === "sent" || purchaseOrder.status === "acknowledged")) {
+      const items = await storage.getPurchaseOrderItems(purchaseOrder.id);
+      if (items.every(line => settledLineStatuses.includes(line.status))) {
+        const status = items.some(line => line.status === "shipped") ? "shipped" : "cancelled";
+        await storage.updatePurchaseOrderStatus(purchaseOrder.id, status);
+      }
+    }
+    return item;
+  }
+
+  // Lines the supplier hasn't shipped are cancelled with it
+  async cancelPurchaseOrder(purchaseOrderId: number): Promise<PurchaseOrder | undefined> {
+    const purchaseOrder = await storage.updatePurchaseOrderStatus(purchaseOrderId, "cancelled");
+    if (!purchaseOrder) return undefined;
+
+    for (const item of await storage.getPurchaseOrderItems(purchaseOrderId)) {
+      if (item.status !== "shipped") await storage.updatePurchaseOrderItem(item.id, { status: "cancelled" });
+    }
+    return purchaseOrder;
+  }
+
+  async documentFor(purchaseOrder: PurchaseOrder): Promise<PurchaseOrderDocument> {
+    const [supplier, order, items] = await Promise.all([
+      purchaseOrder.supplierId !== null ? storage.getSupplierById(purchaseOrder.supplierId) : undefined,
+      storage.getOrderById(purchaseOrder.orderId),
+      storage.getPurchaseOrderItems(purchaseOrder.id)
+    ]);
+    if (!supplier) throw new PurchaseOrderError(`${purchaseOrder.supplierName} is no longer a supplier`);
+    if (!order) throw new PurchaseOrderError(`Order ${purchaseOrder.orderId} not found`);
+
+    return {
+      purchaseOrder,
+      items,
+      supplier,
+      orderNumber: order.orderNumber,
+      shipTo: addressSchema.parse(order.shippingAddress)
+    };
+  }
+}
+
+/**
+ * SUPPLIER_API=mock sends API suppliers' purchase orders to the in-process mock adapter.
+ * No real supplier integrations exist yet, so otherwise every supplier is emailed.
+ */
+export function createFulfillmentRouter(mailer: Mailer = defaultMailer): FulfillmentRouter {
+  const mock = process.env.SUPPLIER_API === "mock" ? new MockSupplierAdapter() : null;
+  return new FulfillmentRouter(mailer, () => mock);
+}
+
+export const fulfillmentRouter = createFulfillmentRouter();
@@ -0,0 +1,31 @@
+import { SupplierApiError, type PurchaseOrderDocument, type SubmittedPurchaseOrder, type SupplierAdapter } from "./supplier-adapter";
+
+/**
+ * In-process stand-in for a supplier's API. Keeps what it's sent, so routing can run end to
+ * end offline, and can be told to refuse the next order to exercise the failure path.
+ */
+export class MockSupplierAdapter implements SupplierAdapter {
+  readonly name = "mock";
+  readonly submissions = new Map<string, PurchaseOrderDocument>(); // by reference
+  private nextId = 1;
+  private failure: string | null = null;
+
+  constructor(private acknowledge: boolean = true) {}
+
+  // The next submission is refused with this message
+  failNext(message: string = "Supplier API unavailable"): void {
+    this.failure = message;
+  }
+
+  async submitPurchaseOrder(document: PurchaseOrderDocument): Promise<SubmittedPurchaseOrder> {
+    if (this.failure) {
+      const message = this.failure;
+      this.failure = null;
+      throw new SupplierApiError(message);
+    }
+
+    const reference = `MOCK-${this.nextId++}`;
+    this.submissions.set(reference, document);
+    return { reference, acknowledged: this.acknowledge };
+  }
+}
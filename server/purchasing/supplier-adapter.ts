@@ -0,0 +1,34 @@
+import type { Address, PurchaseOrder, PurchaseOrderItem, Supplier } from "@shared/schema";
+
+/**
+ * Everything a supplier needs to ship a purchase order straight to our customer
+ */
+export interface PurchaseOrderDocument {
+  purchaseOrder: PurchaseOrder;
+  items: PurchaseOrderItem[];
+  supplier: Supplier;
+  orderNumber: string;
+  shipTo: Address;
+}
+
+export interface SubmittedPurchaseOrder {
+  reference: string; // the supplier's own order number
+  acknowledged: boolean; // whether the supplier has already accepted it
+}
+
+/**
+ * An integration with a supplier's ordering API, for suppliers with apiAvailable.
+ * Suppliers without one are sent their purchase orders by email.
+ */
+export interface SupplierAdapter {
+  readonly name: string;
+  // Throws SupplierApiError when the supplier refuses the order or can't be reached
+  submitPurchaseOrder(document: PurchaseOrderDocument): Promise<SubmittedPurchaseOrder>;
+}
+
+export class SupplierApiError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SupplierApiError";
+  }
+}
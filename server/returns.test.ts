@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import type { Order, Product, ReturnReason } from "@shared/schema";
+import { storage } from "./storage";
+import { createTestOrder, createTestProduct } from "./test/fixtures";
+import { approveReturn, receiveReturn, refundReturn, ReturnRequestError } from "./returns";
+
+// A return of each of the order's lines, approved and checked back in
+async function receivedReturn(order: Order, reason: ReturnReason = "does_not_fit") {
+  const items = await storage.getOrderItemsByOrderId(order.id);
+  const returnRequest = await storage.createReturnRequest(
+    { orderId: order.id, userId: null, customerNote: null },
+    items.map(item => ({ orderItemId: item.id, quantity: item.quantity, reason }))
+  );
+  await approveReturn(returnRequest.id);
+  return (await receiveReturn(returnRequest.id))!;
+}
+
+describe("refunding a return", () => {
+  it("won't pay out more than is left of the order's payment", async () => {
+    const order = await createTestOrder(null, [await createTestProduct({ price: "50.00" })], "shipped");
+    const returnRequest = await receivedReturn(order);
+    await storage.recordOrderRefund(order.id, "40.00");
+
+    await expect(refundReturn(returnRequest.id, 1)).rejects.toThrow(ReturnRequestError);
+    await expect(refundReturn(returnRequest.id, 1)).rejects.toThrow("Only $10.00 of this order is left to refund");
+    expect((await storage.getReturnRequestById(returnRequest.id))?.status).toBe("received");
+  });
+});
+
+describe("receiving a return", () => {
+  const stockOf = async (product: Product) => (await storage.getProductById(product.id))!.inventoryCount;
+
+  it("puts what can be sold again back in stock, but not faulty or damaged goods", async () => {
+    const [unwanted, faulty, damaged] = await Promise.all([createTestProduct(), createTestProduct(), createTestProduct()]);
+    const order = await createTestOrder(null, [unwanted, faulty, damaged], "shipped");
+    const items = await storage.getOrderItemsByOrderId(order.id);
+    const reasons = new Map<number, ReturnReason>([[unwanted.id, "no_longer_needed"], [faulty.id, "defective"], [damaged.id, "damaged_in_shipping"]]);
+    const returnRequest = await storage.createReturnRequest(
+      { orderId: order.id, userId: null, customerNote: null },
+      items.map(item => ({ orderItemId: item.id, quantity: 1, reason: reasons.get(item.productId)! }))
+    );
+    await approveReturn(returnRequest.id);
+
+    await receiveReturn(returnRequest.id);
+
+    expect(await stockOf(unwanted)).toBe(11);
+    expect(await stockOf(faulty)).toBe(10);
+    expect(await stockOf(damaged)).toBe(10);
+  });
+
+  it("doesn't stock a dropshipped product we never held", async () => {
+    const product = await createTestProduct({ inventoryCount: 0 });
+    const supplier = await storage.createSupplier({ name: `Test returns dropshipper ${product.sku}`, dropshipping: true, apiAvailable: true });
+    await storage.createSupplierProduct({ supplierId: supplier.id, productId: product.id, supplierSku: `SUP-${product.sku}`, cost: "20.00" });
+
+    await receivedReturn(await createTestOrder(null, [product], "shipped"));
+
+    expect(await stockOf(product)).toBe(0);
+  });
+
+  it("restocks only the units that shipped from our warehouse", async () => {
+    const product = await createTestProduct();
+    const supplier = await storage.createSupplier({ name: `Test returns supplier ${product.sku}`, dropshipping: true, apiAvailable: true });
+    const supplierLocation = await storage.createStockLocation({ name: supplier.name, kind: "supplier", supplierId: supplier.id });
+    const warehouse = (await storage.getStockLocations()).find(location => location.kind === "warehouse")!;
+    await storage.setStockLevel(product.id, supplierLocation.id, 5);
+    const order = await createTestOrder(null, [product, product], "shipped");
+    await storage.reserveInventory(order.id, [
+      { productId: product.id, locationId: warehouse.id, quantity: 1 },
+      { productId: product.id, locationId: supplierLocation.id, quantity: 1 }
+    ], new Date(Date.now() + 60_000));
+    await storage.commitInventoryReservations(order.id);
+    const shipped = await stockOf(product);
+    const [first, second] = await storage.getOrderItemsByOrderId(order.id);
+    const returnLine = async (orderItemId: number) => {
+      const returnRequest = await storage.createReturnRequest({ orderId: order.id, userId: null, customerNote: null }, [{ orderItemId, quantity: 1, reason: "does_not_fit" }]);
+      await approveReturn(returnRequest.id);
+      await receiveReturn(returnRequest.id);
+    };
+
+    await returnLine(first.id);
+    expect(await stockOf(product)).toBe(shipped + 1);
+
+    await returnLine(second.id);
+    expect(await stockOf(product)).toBe(shipped + 1);
+  });
+});
@@ -0,0 +1,316 @@
+import {
+  canTransitionOrder,
+  canTransitionReturn,
+  feeExemptReturnReasons,
+  unsaleableReturnReasons,
+  type Order,
+  type OrderItem,
+  type OrderStatus,
+  type ReturnItem,
+  type ReturnReason,
+  type ReturnRequest
+} from "@shared/schema";
+import { InvalidReturnTransitionError, storage } from "./storage";
+import { refundableBalance, refundStatusFor } from "./orders";
+import { paymentService } from "./payments/payment-service";
+import { dropshipSourceFor, returnTermsForProduct } from "./suppliers";
+
+// Thrown when a return can't be requested or settled as asked
+export class ReturnRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReturnRequestError";
+  }
+}
+
+// Orders that have reached the customer
+const returnableOrderStatuses: readonly OrderStatus[] = ["shipped", "delivered", "partially_refunded"];
+
+export interface ReturnableItem {
+  orderItemId: number;
+  productId: number;
+  name: string;
+  quantity: number; // still available to return
+  windowEndsAt: Date;
+  restockingFeePercent: number;
+}
+
+// The return window runs from delivery, or from shipping for orders never marked delivered
+async function returnWindowStart(order: Order): Promise<Date> {
+  const events = await storage.getOrderEvents(order.id);
+  const delivered = events.find(event => event.toStatus === "delivered");
+  const shipped = events.find(event => event.toStatus === "shipped");
+  return delivered?.createdAt ?? shipped?.createdAt ?? order.createdAt ?? new Date();
+}
+
+// Quantities already refunded or tied up in a return that's still open, by order item
+async function unavailableQuantities(order: Order, items: OrderItem[]): Promise<Map<number, number>> {
+  const taken = new Map(items.map(item => [item.id, item.refundedQuantity]));
+  const openReturns = (await storage.getReturnRequests({ orderId: order.id }))
+    .filter(request => request.status === "requested" || request.status === "approved" || request.status === "received");
+
+  for (const request of openReturns) {
+    for (const item of await storage.getReturnItems(request.id)) {
+      taken.set(item.orderItemId, (taken.get(item.orderItemId) ?? 0) + item.quantity);
+    }
+  }
+  return taken;
+}
+
+// What the customer can still send back, with each line's window and fee
+export async function getReturnableItems(order: Order, now: Date = new Date()): Promise<ReturnableItem[]> {
+  if (!returnableOrderStatuses.includes(order.status)) return [];
+
+  const items = await storage.getOrderItemsByOrderId(order.id);
+  const [windowStart, taken] = await Promise.all([returnWindowStart(order), unavailableQuantities(order, items)]);
+
+  const returnable: ReturnableItem[] = [];
+  for (const item of items) {
+    const product = await storage.getProductById(item.productId);
+    const terms = await returnTermsForProduct(item.productId);
+    const windowEndsAt = new Date(windowStart.getTime() + terms.windowDays * 24 * 60 * 60 * 1000);
+    const quantity = item.quantity - (taken.get(item.id) ?? 0);
+    if (quantity <= 0 || windowEndsAt < now) continue;
+
+    returnable.push({
+      orderItemId: item.id,
+      productId: item.productId,
+      name: product?.name ?? `Product #${item.productId}`,
+      quantity,
+      windowEndsAt,
+      restockingFeePercent: terms.restockingFeePercent
+    });
+  }
+  return returnable;
+}
+
+export interface ReturnLineRequest {
+  orderItemId: number;
+  quantity: number;
+  reason: ReturnReason;
+}
+
+export async function requestReturn(
+  order: Order,
+  userId: number | null,
+  lines: ReturnLineRequest[],
+  note?: string
+): Promise<ReturnRequest> {
+  const returnable = await getReturnableItems(order);
+
+  const seen = new Set<number>();
+  for (const line of lines) {
+    if (seen.has(line.orderItemId)) {
+      throw new ReturnRequestError("Each item can only be listed once");
+    }
+    seen.add(line.orderItemId);
+
+    const item = returnable.find(candidate => candidate.orderItemId === line.orderItemId);
+    if (!item) {
+      throw new ReturnRequestError(`Item ${line.orderItemId} can't be returned`);
+    }
+    if (line.quantity > item.quantity) {
+      throw new ReturnRequestError(`Only ${item.quantity} of ${item.name} can be returned`);
+    }
+  }
+
+  return storage.createReturnRequest({ orderId: order.id, userId, customerNote: note || null }, lines);
+}
+
+// Money is handled in whole cents and only turned back into decimal strings at the end
+const toCents = (amount: string | number | null) => Math.round(parseFloat(String(amount ?? 0)) * 100);
+const fromCents = (cents: number) => (cents / 100).toFixed(2);
+
+/**
+ * Approves a return and settles what it refunds: the lines' price less their share of the
+ * order's discount, plus their share of its tax, less the supplier's restocking fee unless
+ * the reason is exempt. Shipping isn't refunded.
+ */
+export async function approveReturn(returnId: number, staffNote?: string): Promise<ReturnRequest | undefined> {
+  const returnRequest = await storage.getReturnRequestById(returnId);
+  if (!returnRequest) return undefined;
+  const order = await storage.getOrderById(returnRequest.orderId);
+  if (!order) return undefined;
+  // Checked up front so the amounts of a settled return are never recomputed
+  if (!canTransitionReturn(returnRequest.status, "approved")) {
+    throw new InvalidReturnTransitionError(returnRequest.status, "approved");
+  }
+
+  const orderItems = await storage.getOrderItemsByOrderId(order.id);
+  const subtotalCents = toCents(order.subtotal);
+  const taxCents = toCents(order.tax);
+  const discountCents = toCents(order.discount);
+
+  let feeTotal = 0;
+  let refundTotal = 0;
+  for (const item of await storage.getReturnItems(returnId)) {
+    const orderItem = orderItems.find(candidate => candidate.id === item.orderItemId);
+    if (!orderItem) continue;
+
+    const terms = await returnTermsForProduct(orderItem.productId);
+    const feePercent = feeExemptReturnReasons.includes(item.reason) ? 0 : terms.restockingFeePercent;
+    const grossCents = toCents(orderItem.price) * item.quantity;
+    const share = (cents: number) => subtotalCents > 0 ? Math.round(grossCents * cents / subtotalCents) : 0;
+    const netCents = grossCents - share(discountCents);
+    const feeCents = Math.round(netCents * feePercent / 100);
+    const refundCents = netCents + share(taxCents) - feeCents;
+
+    await storage.updateReturnItemAmounts(item.id, {
+      restockingFeePercent: feePercent,
+      restockingFee: fromCents(feeCents),
+      refundAmount: fromCents(refundCents)
+    });
+    feeTotal += feeCents;
+    refundTotal += refundCents;
+  }
+
+  return storage.updateReturnStatus(returnId, "approved", {
+    staffNote: staffNote || null,
+    restockingFee: fromCents(feeTotal),
+    refundAmount: fromCents(refundTotal)
+  });
+}
+
+export async function rejectReturn(returnId: number, staffNote: string): Promise<ReturnRequest | undefined> {
+  return storage.updateReturnStatus(returnId, "rejected", { staffNote });
+}
+
+/**
+ * How many of each of the order's products shipped from our own warehouses, the only units
+ * that come back to our shelves: dropshipped ones went out from the supplier. Orders placed
+ * before stock had locations fall back to whether the product is dropshipped.
+ */
+async function shippedFromWarehouse(orderId: number, orderItems: OrderItem[]): Promise<Map<number, number>> {
+  const reservations = (await storage.getInventoryReservations(orderId))
+    .filter(reservation => reservation.status === "committed");
+
+  const shipped = new Map<number, number>();
+  for (const productId of Array.from(new Set(orderItems.map(item => item.productId)))) {
+    const held = reservations.filter(reservation => reservation.productId === productId);
+    if (held.length === 0) {
+      const ordered = orderItems
+        .filter(item => item.productId === productId)
+        .reduce((sum, item) => sum + item.quantity, 0);
+      shipped.set(productId, await dropshipSourceFor(productId) ? 0 : ordered);
+      continue;
+    }
+
+    let quantity = 0;
+    for (const reservation of held) {
+      const location = reservation.locationId !== null ? await storage.getStockLocationById(reservation.locationId) : undefined;
+      if (location?.kind === "warehouse") quantity += reservation.quantity;
+    }
+    shipped.set(productId, quantity);
+  }
+  return shipped;
+}
+
+/**
+ * The goods are back. Those fit to sell go on the shelf again, up to what the order
+ * shipped from our warehouses less what earlier returns already put back.
+ */
+export async function receiveReturn(returnId: number, staffNote?: string): Promise<ReturnRequest | undefined> {
+  const returnRequest = await storage.updateReturnStatus(returnId, "received", staffNote ? { staffNote } : {});
+  if (!returnRequest) return undefined;
+
+  const orderItems = await storage.getOrderItemsByOrderId(returnRequest.orderId);
+  const productOf = (item: ReturnItem) => orderItems.find(candidate => candidate.id === item.orderItemId)?.productId;
+  const restockable = await shippedFromWarehouse(returnRequest.orderId, orderItems);
+
+  const earlierReturns = (await storage.getReturnRequests({ orderId: returnRequest.orderId }))
+    .filter(request => request.id !== returnId && (request.status === "received" || request.status === "refunded"));
+  for (const request of earlierReturns) {
+    for (const item of await storage.getReturnItems(request.id)) {
+      const productId = productOf(item);
+      if (productId === undefined || unsaleableReturnReasons.includes(item.reason)) continue;
+      restockable.set(productId, (restockable.get(productId) ?? 0) - item.quantity);
+    }
+  }
+
+  for (const item of await storage.getReturnItems(returnId)) {
+    const productId = productOf(item);
+    if (productId === undefined || unsaleableReturnReasons.includes(item.reason)) continue;
+
+    const quantity = Math.min(item.quantity, restockable.get(productId) ?? 0);
+    if (quantity <= 0) continue;
+    await storage.restockProduct(productId, quantity);
+    restockable.set(productId, (restockable.get(productId) ?? 0) - quantity);
+  }
+  return returnRequest;
+}
+
+// Pays out the approved amount, as long as the order's payment still covers it, and records it against each order line
+export async function refundReturn(returnId: number, staffUserId: number): Promise<ReturnRequest | undefined> {
+  const returnRequest = await storage.getReturnRequestById(returnId);
+  if (!returnRequest) return undefined;
+  const order = await storage.getOrderById(returnRequest.orderId);
+  if (!order) return undefined;
+  if (!canTransitionReturn(returnRequest.status, "refunded")) {
+    throw new InvalidReturnTransitionError(returnRequest.status, "refunded");
+  }
+
+  const [orderItems, returnItems] = await Promise.all([
+    storage.getOrderItemsByOrderId(order.id),
+    storage.getReturnItems(returnId)
+  ]);
+  // Shipping isn't refunded, so the amounts alone never add up once every line is back
+  const returnsEverything = orderItems.every(orderItem => {
+    const returning = returnItems
+      .filter(item => item.orderItemId === orderItem.id)
+      .reduce((sum, item) => sum + item.quantity, 0);
+    return orderItem.refundedQuantity + returning >= orderItem.quantity;
+  });
+
+  const amount = parseFloat(returnRequest.refundAmount);
+  let refundId: string | null = null;
+  if (amount > 0) {
+    // Other refunds since the return was approved can leave less of the payment than it's owed
+    const balance = refundableBalance(order);
+    if (toCents(amount) > toCents(balance)) {
+      throw new ReturnRequestError(`Only $${balance.toFixed(2)} of this order is left to refund`);
+    }
+    const status = returnsEverything ? "refunded" : refundStatusFor(order, amount);
+    // Check before any money moves that the order can take the refund
+    if (!canTransitionOrder(order.status, status)) {
+      throw new ReturnRequestError(`A ${order.status} order cannot be refunded`);
+    }
+    const refund = await paymentService.refundOrder(order, amount, {
+      userId: staffUserId,
+      note: `Return ${returnRequest.rmaNumber}`
+    }, status);
+    refundId = refund.refundId;
+  }
+
+  for (const item of returnItems) {
+    await storage.recordOrderItemRefund(item.orderItemId, item.quantity, item.refundAmount);
+  }
+  return storage.updateReturnStatus(returnId, "refunded", { refundId });
+}
+
+export interface ReturnDetail extends ReturnRequest {
+  orderNumber: string;
+  items: (ReturnItem & { productId: number; name: string; price: string })[];
+}
+
+export async function toReturnDetail(returnRequest: ReturnRequest): Promise<ReturnDetail> {
+  const [order, items] = await Promise.all([
+    storage.getOrderById(returnRequest.orderId),
+    storage.getReturnItems(returnRequest.id)
+  ]);
+  const orderItems = order ? await storage.getOrderItemsByOrderId(order.id) : [];
+
+  return {
+    ...returnRequest,
+    orderNumber: order?.orderNumber ?? "",
+    items: await Promise.all(items.map(async (item) => {
+      const orderItem = orderItems.find(candidate => candidate.id === item.orderItemId);
+      const product = orderItem ? await storage.getProductById(orderItem.productId) : undefined;
+      return {
+        ...item,
+        productId: orderItem?.productId ?? 0,
+        name: product?.name ?? `Product #${orderItem?.productId}`,
+        price: orderItem?.price ?? "0"
+      };
+    }))
+  };
+}
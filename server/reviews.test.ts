@@ -0,0 +1,58 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startTestServer, type TestServer } from "./test/http";
+import { createTestOrder, createTestProduct, createTestUser, TEST_PASSWORD } from "./test/fixtures";
+import type { User } from "@shared/schema";
+
+let server: TestServer;
+
+beforeAll(async () => {
+  server = await startTestServer();
+});
+
+afterAll(() => server.close());
+
+async function signedIn(user: User) {
+  const client = server.client();
+  await client.signIn(user.email, TEST_PASSWORD);
+  return client;
+}
+
+describe("POST /api/reviews", () => {
+  it("credits the review to the signed-in shopper, whatever the body says", async () => {
+    const [author, someoneElse] = await Promise.all([createTestUser(), createTestUser()]);
+    const product = await createTestProduct();
+
+    const { status, body } = await (await signedIn(author)).request("POST", "/api/reviews", {
+      productId: product.id,
+      userId: someoneElse.id,
+      rating: 5,
+      title: "Great grips",
+      isVerifiedPurchase: true
+    });
+
+    expect(status).toBe(201);
+    expect(body).toMatchObject({ productId: product.id, userId: author.id, isVerifiedPurchase: false });
+  });
+
+  it("marks the review a verified purchase when the shopper has paid for the product", async () => {
+    const user = await createTestUser();
+    const [bought, abandoned] = await Promise.all([createTestProduct(), createTestProduct()]);
+    await createTestOrder(user.id, [bought], "delivered");
+    await createTestOrder(user.id, [abandoned], "pending");
+    const client = await signedIn(user);
+
+    const verified = await client.request("POST", "/api/reviews", { productId: bought.id, rating: 4 });
+    const unverified = await client.request("POST", "/api/reviews", { productId: abandoned.id, rating: 4 });
+
+    expect(verified.body.isVerifiedPurchase).toBe(true);
+    expect(unverified.body.isVerifiedPurchase).toBe(false);
+  });
+
+  it("is only for signed-in shoppers", async () => {
+    const product = await createTestProduct();
+
+    const { status } = await server.client().request("POST", "/api/reviews", { productId: product.id, rating: 5 });
+
+    expect(status).toBe(401);
+  });
+});
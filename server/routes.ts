@@ -1,6 +1,34 @@
-import type { Express, Request, Response } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, InsufficientStockError, InvalidOrderTransitionError, InvalidPurchaseOrderTransitionError, InvalidReturnTransitionError, type VehicleFitmentFilter } from "./storage";
+import { attachCompatibleVehicles } from "./fitment";
+import { addVehicleToGarage, mergeGuestGarage } from "./garage";
+import { destroyUserSessions, generateToken, hashToken, logIn, logOut, requireAuth, requireSelf, toPublicUser, verifyPassword } from "./auth";
+import { mailer } from "./mailer";
+import { ensureAdminUser, requirePermission } from "./permissions";
+import { recordAudit } from "./audit";
+import { changeOrderStatus, hasPurchased, orderMatchesEmail, toCustomerOrderEvent, toOrderTracking } from "./orders";
+import { PricingError, pricingEngine } from "./pricing";
+import { getStockAvailability } from "./inventory";
+import { normalizePromotionCode } from "./promotions";
+import { getProductBundleOffers, refreshAutoBundles } from "./bundles";
+import {
+  approveReturn,
+  getReturnableItems,
+  receiveReturn,
+  refundReturn,
+  rejectReturn,
+  requestReturn,
+  ReturnRequestError,
+  toReturnDetail
+} from "./returns";
+import { getProductMargin, getProductMargins, marginPercent, returnTermsForProduct } from "./suppliers";
+import { getMinimumMargin } from "./data/suppliers";
+import { PaymentUnavailableError } from "./payments/payment-service";
+import { fulfillmentRouter, PurchaseOrderError } from "./purchasing/fulfillment-router";
+import { purchaseOrderCsv } from "./purchasing/documents";
+import { applyFeedImport, discardFeedImport, FeedImportError, importFeed } from "./feeds/importer";
+import { exportProducts, formatProductRecords, importProducts, ProductImportError, productTransferFormats } from "./product-transfer";
 import { z } from "zod";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
@@ -16,27 +44,36 @@ import {
   insertOrderItemSchema,
   insertChatConversationSchema,
   insertChatMessageSchema,
+  insertProductFitmentSchema,
+  insertUserVehicleSchema,
+  userRoles,
+  addressSchema,
+  orderStatuses,
+  orderStatusTransitions,
+  paymentOrderStatuses,
+  returnReasons,
+  returnStatuses,
+  purchaseOrderStatuses,
+  purchaseOrderLineStatuses,
+  type PurchaseOrder,
+  insertPromotionSchema,
+  insertBundleSchema,
+  insertSupplierSchema,
+  insertSupplierProductSchema,
+  insertSupplierFeedProfileSchema,
+  insertStockLocationSchema,
+  feedImportStatuses,
+  type Product,
 } from "@shared/schema";
-import Stripe from "stripe";
 import crypto from "crypto";
 import { WebSocketServer } from "ws";
 import OpenAI from "openai";
 
-// Check for Stripe API key
-if (!process.env.STRIPE_SECRET_KEY) {
-  console.warn('Missing STRIPE_SECRET_KEY environment variable. Stripe payments will not work.');
-}
-
 // Check for OpenAI API key
 if (!process.env.OPENAI_API_KEY) {
   console.warn('Missing OPENAI_API_KEY environment variable. AI features will not work.');
 }
 
-// Initialize Stripe if API key is available
-const stripe = process.env.STRIPE_SECRET_KEY ? 
-  new Stripe(process.env.STRIPE_SECRET_KEY, { apiVersion: "2025-04-30.basil" }) : 
-  null;
-
 // Initialize OpenAI if API key is available
 const openai = process.env.OPENAI_API_KEY ?
   new OpenAI({ apiKey: process.env.OPENAI_API_KEY || "default_key" }) :
@@ -45,13 +82,33 @@ const openai = process.env.OPENAI_API_KEY ?
 // Import our routes
 import { registerFunnelRoutes } from "./routes/funnelRoutes";
 import { registerPaymentRoutes } from "./routes/payment-routes";
+import { registerAnalyticsRoutes } from "./routes/analytics-routes";
+
+// Where emailed links point. Never the request's Host header, which whoever sends it chooses
+function resolveAppUrl(app: Express): string {
+  const appUrl = process.env.APP_URL?.replace(/\/+$/, '');
+  if (appUrl) return appUrl;
+
+  if (app.get("env") === "production") {
+    throw new Error("APP_URL must be set in production");
+  }
+  console.warn("Missing APP_URL environment variable. Emailed links will point at http://localhost:5000.");
+  return "http://localhost:5000";
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  const appUrl = resolveAppUrl(app);
+  await ensureAdminUser();
+  
   // Register AI-powered sales optimization and click funnel routes
   registerFunnelRoutes(app);
   
   // Register payment routes with automatic Wells Fargo payout integration
   registerPaymentRoutes(app);
+  
+  // Storefront analytics ingestion and reporting
+  registerAnalyticsRoutes(app);
+  
   const httpServer = createServer(app);
   
   // Create WebSocket server for chatbot
@@ -217,6 +274,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
         }
         
+        if (error instanceof InvalidOrderTransitionError) {
+          return res.status(409).json({ message: error.message });
+        }
+        
+        if (error instanceof PricingError) {
+          return res.status(400).json({ message: error.message, productId: error.productId });
+        }
+        
+        if (error instanceof InsufficientStockError) {
+          return res.status(409).json({ message: error.message, productId: error.productId, available: error.available });
+        }
+        
+        if (error instanceof InvalidReturnTransitionError) {
+          return res.status(409).json({ message: error.message });
+        }
+        
+        if (error instanceof ReturnRequestError) {
+          return res.status(400).json({ message: error.message });
+        }
+        
+        if (error instanceof InvalidPurchaseOrderTransitionError) {
+          return res.status(409).json({ message: error.message });
+        }
+        
+        if (error instanceof PurchaseOrderError) {
+          return res.status(400).json({ message: error.message });
+        }
+        
+        if (error instanceof FeedImportError) {
+          return res.status(409).json({ message: error.message });
+        }
+        
+        if (error instanceof ProductImportError) {
+          return res.status(400).json({ message: error.message });
+        }
+        
+        if (error instanceof PaymentUnavailableError) {
+          return res.status(503).json({ message: error.message });
+        }
+        
         res.status(500).json({ message: 'Internal server error' });
       }
     };
@@ -238,12 +335,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(category);
   }));
 
-  app.post("/api/categories", handleErrors(async (req, res) => {
+  app.post("/api/categories", requirePermission("catalog:write"), handleErrors(async (req, res) => {
     const data = insertCategorySchema.parse(req.body);
     const category = await storage.createCategory(data);
+    await recordAudit(req, { action: 'category.create', resourceType: 'category', resourceId: category.id, details: { slug: category.slug } });
     res.status(201).json(category);
   }));
 
+  app.put("/api/categories/:id", requirePermission("catalog:write"), handleErrors(async (req, res) => {
+    const categoryId = parseInt(req.params.id);
+    const data = insertCategorySchema.parse(req.body);
+    
+    if (data.parentId === categoryId) {
+      res.status(400).json({ message: 'A category cannot be its own parent' });
+      return;
+    }
+    
+    const existing = await storage.getCategoryBySlug(data.slug);
+    if (existing && existing.id !== categoryId) {
+      res.status(409).json({ message: 'Another category already uses this slug' });
+      return;
+    }
+    
+    const category = await storage.updateCategory(categoryId, data);
+    if (!category) {
+      res.status(404).json({ message: 'Category not found' });
+      return;
+    }
+    
+    await recordAudit(req, { action: 'category.update', resourceType: 'category', resourceId: categoryId, details: { slug: category.slug } });
+    res.json(category);
+  }));
+
+  app.delete("/api/categories/:id", requirePermission("catalog:write"), handleErrors(async (req, res) => {
+    const categoryId = parseInt(req.params.id);
+    const category = await storage.getCategoryById(categoryId);
+    if (!category) {
+      res.status(404).json({ message: 'Category not found' });
+      return;
+    }
+    
+    // Products and subcategories must be moved first
+    const { total } = await storage.getProducts({ categoryId, limit: 1 });
+    const categories = await storage.getCategories();
+    if (total > 0 || categories.some(child => child.parentId === categoryId)) {
+      res.status(409).json({ message: 'Category still has products or subcategories' });
+      return;
+    }
+    
+    await storage.deleteCategory(categoryId);
+    await recordAudit(req, { action: 'category.delete', resourceType: 'category', resourceId: categoryId, details: { slug: category.slug } });
+    res.status(204).end();
+  }));
+
   // Brands
   app.get("/api/brands", handleErrors(async (req, res) => {
     const brands = await storage.getBrands();
@@ -258,12 +402,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(brand);
   }));
 
-  app.post("/api/brands", handleErrors(async (req, res) => {
+  app.post("/api/brands", requirePermission("catalog:write"), handleErrors(async (req, res) => {
     const data = insertBrandSchema.parse(req.body);
     const brand = await storage.createBrand(data);
+    await recordAudit(req, { action: 'brand.create', resourceType: 'brand', resourceId: brand.id, details: { slug: brand.slug } });
     res.status(201).json(brand);
   }));
 
+  app.put("/api/brands/:id", requirePermission("catalog:write"), handleErrors(async (req, res) => {
+    const brandId = parseInt(req.params.id);
+    const data = insertBrandSchema.parse(req.body);
+    
+    const existing = await storage.getBrandBySlug(data.slug);
+    if (existing && existing.id !== brandId) {
+      res.status(409).json({ message: 'Another brand already uses this slug' });
+      return;
+    }
+    
+    const brand = await storage.updateBrand(brandId, data);
+    if (!brand) {
+      res.status(404).json({ message: 'Brand not found' });
+      return;
+    }
+    
+    await recordAudit(req, { action: 'brand.update', resourceType: 'brand', resourceId: brandId, details: { slug: brand.slug } });
+    res.json(brand);
+  }));
+
+  app.delete("/api/brands/:id", requirePermission("catalog:write"), handleErrors(async (req, res) => {
+    const brandId = parseInt(req.params.id);
+    const brand = await storage.getBrandById(brandId);
+    if (!brand) {
+      res.status(404).json({ message: 'Brand not found' });
+      return;
+    }
+    
+    const { total } = await storage.getProducts({ brandId, limit: 1 });
+    if (total > 0) {
+      res.status(409).json({ message: 'Brand still has products' });
+      return;
+    }
+    
+    await storage.deleteBrand(brandId);
+    await recordAudit(req, { action: 'brand.delete', resourceType: 'brand', resourceId: brandId, details: { slug: brand.slug } });
+    res.status(204).end();
+  }));
+
   // Vehicle Models
   app.get("/api/vehicle-makes", handleErrors(async (req, res) => {
     const makes = await storage.getVehicleMakes();
@@ -292,6 +476,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       brand, 
       featured, 
       search,
+      fitment,
+      min_price,
+      max_price,
+      in_stock,
+      on_sale,
       sort,
       order = 'desc'
     } = req.query;
@@ -318,6 +507,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       isFeatured = false;
     }
     
+    // Parse vehicle fitment ("make|model|year", optionally followed by "|variant")
+    let vehicleFitment: VehicleFitmentFilter | undefined = undefined;
+    if (fitment) {
+      const [make, model, year, variant] = (fitment as string).split('|');
+      if (make && model && !isNaN(parseInt(year))) {
+        vehicleFitment = { make, model, year: parseInt(year), variant: variant || undefined };
+      }
+    }
+    
+    // Parse price range, ignoring anything that isn't a number
+    const minPrice = min_price !== undefined ? parseFloat(min_price as string) : NaN;
+    const maxPrice = max_price !== undefined ? parseFloat(max_price as string) : NaN;
+    
     const { products, total } = await storage.getProducts({
       limit: Number(limit),
       offset: Number(offset),
@@ -325,8 +527,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       brandId,
       isFeatured,
       searchTerm: search as string,
+      fitment: vehicleFitment,
+      minPrice: isNaN(minPrice) ? undefined : minPrice,
+      maxPrice: isNaN(maxPrice) ? undefined : maxPrice,
+      inStock: in_stock === 'true',
+      onSale: on_sale === 'true',
       sortBy: sort as string,
-      sortOrder: (order as 'asc' | 'desc')
+      sortOrder: (order as 'asc' | 'desc'),
+      isActive: true
     });
     
     res.json({ 
@@ -339,7 +547,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/products/:slug", handleErrors(async (req, res) => {
     const product = await storage.getProductBySlug(req.params.slug);
-    if (!product) {
+    if (!product || product.isActive === false) {
       return res.status(404).json({ message: 'Product not found' });
     }
     
@@ -354,42 +562,295 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     res.json({
       product,
+      availability: await getStockAvailability(product.id),
       recommendedProducts: recommendedProducts.filter(p => p !== undefined),
       reviews
     });
   }));
 
-  app.post("/api/products", handleErrors(async (req, res) => {
+  app.post("/api/products", requirePermission("catalog:write"), handleErrors(async (req, res) => {
     const data = insertProductSchema.parse(req.body);
     const product = await storage.createProduct(data);
+    await attachCompatibleVehicles(storage, product);
+    await recordAudit(req, { action: 'product.create', resourceType: 'product', resourceId: product.id, details: { sku: product.sku } });
     res.status(201).json(product);
   }));
 
-  // Reviews
-  app.post("/api/reviews", handleErrors(async (req, res) => {
-    const data = insertReviewSchema.parse(req.body);
-    const review = await storage.createReview(data);
+  app.put("/api/products/:id", requirePermission("catalog:write"), handleErrors(async (req, res) => {
+    const productId = parseInt(req.params.id);
+    const data = insertProductSchema.parse(req.body);
+    
+    const [bySlug, bySku] = await Promise.all([
+      storage.getProductBySlug(data.slug),
+      storage.getProductBySku(data.sku)
+    ]);
+    if ((bySlug && bySlug.id !== productId) || (bySku && bySku.id !== productId)) {
+      res.status(409).json({ message: 'Another product already uses this slug or SKU' });
+      return;
+    }
+    
+    // Stock is set per location, see /api/admin/products/:id/stock
+    const { inventoryCount: _inventoryCount, ...productData } = data;
+    const product = await storage.updateProduct(productId, productData);
+    if (!product) {
+      res.status(404).json({ message: 'Product not found' });
+      return;
+    }
+    
+    await attachCompatibleVehicles(storage, product);
+    await recordAudit(req, { action: 'product.update', resourceType: 'product', resourceId: productId, details: { sku: product.sku } });
+    res.json(product);
+  }));
+
+  app.delete("/api/products/:id", requirePermission("catalog:write"), handleErrors(async (req, res) => {
+    const productId = parseInt(req.params.id);
+    const product = await storage.getProductById(productId);
+    if (!product) {
+      res.status(404).json({ message: 'Product not found' });
+      return;
+    }
+    
+    // Order history keeps pointing at ordered products, so those can only be deactivated
+    if (await storage.countOrderItemsByProductId(productId) > 0) {
+      res.status(409).json({ message: 'Product has been ordered; deactivate it instead' });
+      return;
+    }
+    
+    await storage.deleteProduct(productId);
+    await recordAudit(req, { action: 'product.delete', resourceType: 'product', resourceId: productId, details: { sku: product.sku } });
+    res.status(204).end();
+  }));
+
+  // Catalog administration - unlike /api/products these include inactive products
+  app.get("/api/admin/products", requirePermission("catalog:write"), handleErrors(async (req, res) => {
+    const { limit, offset, search, status } = z.object({
+      limit: z.coerce.number().int().min(1).max(200).default(50),
+      offset: z.coerce.number().int().min(0).default(0),
+      search: z.string().optional(),
+      status: z.enum(['active', 'inactive']).optional()
+    }).parse(req.query);
+    
+    const { products, total } = await storage.getProducts({
+      limit,
+      offset,
+      searchTerm: search || undefined,
+      isActive: status ? status === 'active' : undefined,
+      sortBy: 'createdAt',
+      sortOrder: 'desc'
+    });
+    res.json({ products, total, limit, offset });
+  }));
+
+  // The whole catalog as a file to edit and import back, see product-transfer.ts
+  app.get("/api/admin/products/export", requirePermission("catalog:write"), handleErrors(async (req, res) => {
+    const { format } = z.object({ format: z.enum(productTransferFormats).default('csv') }).parse(req.query);
+    
+    const records = await exportProducts();
+    res.setHeader('Content-Type', format === 'json' ? 'application/json; charset=utf-8' : 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="products-${new Date().toISOString().slice(0, 10)}.${format}"`);
+    res.send(formatProductRecords(records, format));
+  }));
+
+  app.post(
+    "/api/admin/products/import",
+    requirePermission("catalog:write"),
+    express.raw({ type: 'application/octet-stream', limit: '20mb' }),
+    handleErrors(async (req, res) => {
+      const { format, dryRun } = z.object({
+        format: z.enum(productTransferFormats).default('csv'),
+        dryRun: z.enum(['true', 'false']).default('false').transform(value => value === 'true')
+      }).parse(req.query);
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        res.status(400).json({ message: 'Upload the product file as the request body' });
+        return;
+      }
+      
+      const result = await importProducts(req.body, format, dryRun);
+      if (!dryRun) {
+        await recordAudit(req, {
+          action: 'product.import',
+          resourceType: 'product',
+          details: { format, created: result.created, updated: result.updated, failed: result.errors.length }
+        });
+      }
+      res.json(result);
+    })
+  );
+
+  app.get("/api/admin/products/:id", requirePermission("catalog:write"), handleErrors(async (req, res) => {
+    const product = await storage.getProductById(parseInt(req.params.id));
+    if (!product) {
+      res.status(404).json({ message: 'Product not found' });
+      return;
+    }
+    res.json(product);
+  }));
+
+  // What each location holds of a product, and what of that is free to sell
+  app.get("/api/admin/products/:id/stock", requirePermission("catalog:write"), handleErrors(async (req, res) => {
+    const productId = parseInt(req.params.id);
+    if (!await storage.getProductById(productId)) {
+      res.status(404).json({ message: 'Product not found' });
+      return;
+    }
+    
+    const [locations, levels, availability] = await Promise.all([
+      storage.getStockLocations(),
+      storage.getStockLevels({ productId }),
+      getStockAvailability(productId)
+    ]);
+    res.json(locations.map(location => ({
+      location,
+      quantity: levels.find(level => level.locationId === location.id)?.quantity ?? 0,
+      available: availability.locations.find(stock => stock.locationId === location.id)?.available ?? 0
+    })));
+  }));
+
+  app.put("/api/admin/products/:id/stock/:locationId", requirePermission("catalog:write"), handleErrors(async (req, res) => {
+    const productId = parseInt(req.params.id);
+    const locationId = parseInt(req.params.locationId);
+    const { quantity } = z.object({ quantity: z.number().int().min(0) }).parse(req.body);
+    
+    const [product, location] = await Promise.all([
+      storage.getProductById(productId),
+      storage.getStockLocationById(locationId)
+    ]);
+    if (!product || !location) {
+      res.status(404).json({ message: product ? 'Stock location not found' : 'Product not found' });
+      return;
+    }
+    
+    // A supplier's stock is ordered from it, which needs its SKU and cost
+    if (location.supplierId !== null) {
+      const links = await storage.getSupplierProducts({ supplierId: location.supplierId, productId });
+      if (links.length === 0) {
+        res.status(400).json({ message: `Add ${location.name}'s cost for this product before recording its stock` });
+        return;
+      }
+    }
+    
+    const level = await storage.setStockLevel(productId, locationId, quantity);
+    await recordAudit(req, { action: 'stock.update', resourceType: 'product', resourceId: productId, details: { locationId, quantity: level.quantity } });
+    res.json(level);
+  }));
+
+  app.patch("/api/admin/products/bulk-status", requirePermission("catalog:write"), handleErrors(async (req, res) => {
+    const { ids, isActive } = z.object({
+      ids: z.array(z.number().int()).min(1),
+      isActive: z.boolean()
+    }).parse(req.body);
+    
+    const updated: number[] = [];
+    for (const id of ids) {
+      if (await storage.updateProduct(id, { isActive })) {
+        updated.push(id);
+      }
+    }
+    
+    await recordAudit(req, { action: isActive ? 'product.activate' : 'product.deactivate', resourceType: 'product', details: { ids: updated } });
+    res.json({ updated });
+  }));
+
+  // Every make/model/year row, for the fitment picker
+  app.get("/api/admin/vehicle-models", requirePermission("catalog:write"), handleErrors(async (req, res) => {
+    res.json(await storage.getVehicleModels());
+  }));
+
+  // Product Fitment
+  app.get("/api/products/:id/fitment", handleErrors(async (req, res) => {
+    const fitments = await storage.getProductFitments(parseInt(req.params.id));
+    res.json(fitments);
+  }));
+
+  // Fitment for a page of product cards in one request, keyed by product id
+  app.get("/api/fitment", handleErrors(async (req, res) => {
+    const { productIds } = z.object({
+      productIds: z.string()
+        .regex(/^\d+(,\d+)*$/, 'Expected comma-separated product ids')
+        .transform(ids => Array.from(new Set(ids.split(',').map(Number))))
+        .refine(ids => ids.length <= 100, 'At most 100 products at a time')
+    }).parse(req.query);
+    
+    const fitments = await storage.getFitmentsForProducts(productIds);
+    res.json(Object.fromEntries(productIds.map(productId => [
+      productId,
+      fitments.filter(fitment => fitment.productId === productId)
+    ])));
+  }));
+
+  app.get("/api/products/:id/bundles", handleErrors(async (req, res) => {
+    res.json(await getProductBundleOffers(parseInt(req.params.id)));
+  }));
+
+  app.post("/api/admin/products/:id/fitment", requirePermission("catalog:write"), handleErrors(async (req, res) => {
+    const productId = parseInt(req.params.id);
+    const product = await storage.getProductById(productId);
+    if (!product) {
+      res.status(404).json({ message: 'Product not found' });
+      return;
+    }
+    
+    const data = insertProductFitmentSchema.parse({ ...req.body, productId });
+    const vehicleModel = await storage.getVehicleModelById(data.vehicleModelId);
+    if (!vehicleModel) {
+      res.status(400).json({ message: 'Vehicle model not found' });
+      return;
+    }
+    
+    const fitment = await storage.createProductFitment(data);
+    await recordAudit(req, { action: 'fitment.create', resourceType: 'product', resourceId: productId, details: { fitmentId: fitment.id, vehicleModelId: fitment.vehicleModelId } });
+    res.status(201).json({ ...fitment, make: vehicleModel.make, model: vehicleModel.model });
+  }));
+
+  app.delete("/api/admin/products/:id/fitment/:fitmentId", requirePermission("catalog:write"), handleErrors(async (req, res) => {
+    const productId = parseInt(req.params.id);
+    const fitmentId = parseInt(req.params.fitmentId);
+    
+    // Only detach fitment that belongs to this product
+    const fitments = await storage.getProductFitments(productId);
+    if (!fitments.some(fitment => fitment.id === fitmentId)) {
+      res.status(404).json({ message: 'Fitment not found' });
+      return;
+    }
+    
+    await storage.deleteProductFitment(fitmentId);
+    await recordAudit(req, { action: 'fitment.delete', resourceType: 'product', resourceId: productId, details: { fitmentId } });
+    res.status(204).end();
+  }));
+
+  // Reviews: who wrote one and whether they bought the product come from the session, not the client
+  const reviewSchema = insertReviewSchema.omit({ userId: true, isVerifiedPurchase: true });
+
+  app.post("/api/reviews", requireAuth, handleErrors(async (req, res) => {
+    const data = reviewSchema.parse(req.body);
+    if (!await storage.getProductById(data.productId)) {
+      res.status(404).json({ message: 'Product not found' });
+      return;
+    }
+    
+    const userId = req.session.userId!;
+    const review = await storage.createReview({ ...data, userId, isVerifiedPurchase: await hasPurchased(userId, data.productId) });
     res.status(201).json(review);
   }));
 
   // Users & Auth
+  const passwordSchema = z.string().min(8, 'Password must be at least 8 characters');
+  const PASSWORD_RESET_TTL = 60 * 60 * 1000; // 1 hour
+
   app.post("/api/users/register", handleErrors(async (req, res) => {
-    const data = insertUserSchema.parse(req.body);
+    const data = insertUserSchema.extend({ password: passwordSchema }).parse(req.body);
     
     // Check if user already exists
-    const existingUser = await storage.getUserByEmail(data.email);
+    const existingUser = await storage.getUserByEmail(data.email) || await storage.getUserByUsername(data.username);
     if (existingUser) {
-      return res.status(409).json({ message: 'User with this email already exists' });
+      res.status(409).json({ message: 'User with this email or username already exists' });
+      return;
     }
     
-    // Create new user
+    // Create new user and sign them in
     const user = await storage.createUser(data);
-    res.status(201).json({
-      id: user.id,
-      username: user.username,
-      email: user.email,
-      fullName: user.fullName
-    });
+    await logIn(req, user);
+    res.status(201).json(toPublicUser(user));
   }));
 
   app.post("/api/users/login", handleErrors(async (req, res) => {
@@ -400,18 +861,955 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     const user = await storage.getUserByEmail(email);
     
-    if (!user || user.password !== password) {
-      return res.status(401).json({ message: 'Invalid credentials' });
+    if (!user || !await verifyPassword(password, user.password)) {
+      res.status(401).json({ message: 'Invalid credentials' });
+      return;
+    }
+    
+    await logIn(req, user);
+    res.json(toPublicUser(user));
+  }));
+
+  app.post("/api/users/logout", handleErrors(async (req, res) => {
+    await logOut(req);
+    res.clearCookie('connect.sid');
+    res.status(204).end();
+  }));
+
+  app.get("/api/users/me", requireAuth, handleErrors(async (req, res) => {
+    const user = await storage.getUser(req.session.userId!);
+    if (!user) {
+      await logOut(req);
+      res.status(401).json({ message: 'Not signed in' });
+      return;
     }
     
+    res.json(toPublicUser(user));
+  }));
+
+  // Saved addresses, used as checkout defaults
+  app.get("/api/users/me/addresses", requireAuth, handleErrors(async (req, res) => {
+    const user = await storage.getUser(req.session.userId!);
+    res.json({
+      shippingAddress: user?.shippingAddress ?? null,
+      billingAddress: user?.billingAddress ?? null
+    });
+  }));
+
+  app.put("/api/users/me/addresses", requireAuth, handleErrors(async (req, res) => {
+    const { shippingAddress, billingAddress } = z.object({
+      shippingAddress: addressSchema.nullable(),
+      billingAddress: addressSchema.nullable()
+    }).parse(req.body);
+    
+    const user = await storage.updateUser(req.session.userId!, { shippingAddress, billingAddress });
     res.json({
-      id: user.id,
-      username: user.username,
-      email: user.email,
-      fullName: user.fullName
+      shippingAddress: user?.shippingAddress ?? null,
+      billingAddress: user?.billingAddress ?? null
     });
   }));
 
+  // Order history
+  app.get("/api/users/me/orders", requireAuth, handleErrors(async (req, res) => {
+    const orders = await storage.getOrdersByUserId(req.session.userId!);
+    res.json(orders);
+  }));
+
+  app.get("/api/users/me/orders/:orderNumber", requireAuth, handleErrors(async (req, res) => {
+    const order = await storage.getOrderByNumber(req.params.orderNumber);
+    // Someone else's order looks the same as a missing one
+    if (!order || order.userId !== req.session.userId) {
+      res.status(404).json({ message: 'Order not found' });
+      return;
+    }
+    
+    const [items, events] = await Promise.all([
+      storage.getOrderItemsByOrderId(order.id),
+      storage.getOrderEvents(order.id)
+    ]);
+    const itemsWithProducts = await Promise.all(
+      items.map(async (item) => ({ ...item, product: await storage.getProductById(item.productId) }))
+    );
+    
+    res.json({
+      order,
+      items: itemsWithProducts,
+      events: events.map(toCustomerOrderEvent)
+    });
+  }));
+
+  // The order's returns so far and what can still be sent back
+  app.get("/api/users/me/orders/:orderNumber/returns", requireAuth, handleErrors(async (req, res) => {
+    const order = await storage.getOrderByNumber(req.params.orderNumber);
+    if (!order || order.userId !== req.session.userId) {
+      res.status(404).json({ message: 'Order not found' });
+      return;
+    }
+    
+    const [returnRequests, returnable] = await Promise.all([
+      storage.getReturnRequests({ orderId: order.id }),
+      getReturnableItems(order)
+    ]);
+    res.json({
+      // Staff notes are for customers too: they explain a rejection or fee
+      returns: await Promise.all(returnRequests.map(toReturnDetail)),
+      returnable
+    });
+  }));
+
+  app.post("/api/users/me/orders/:orderNumber/returns", requireAuth, handleErrors(async (req, res) => {
+    const order = await storage.getOrderByNumber(req.params.orderNumber);
+    if (!order || order.userId !== req.session.userId) {
+      res.status(404).json({ message: 'Order not found' });
+      return;
+    }
+    
+    const { items, note } = z.object({
+      items: z.array(z.object({
+        orderItemId: z.number().int(),
+        quantity: z.number().int().positive(),
+        reason: z.enum(returnReasons)
+      })).min(1),
+      note: z.string().trim().max(1000).optional()
+    }).parse(req.body);
+    
+    const returnRequest = await requestReturn(order, req.session.userId!, items, note);
+    res.status(201).json(await toReturnDetail(returnRequest));
+  }));
+
+  app.post("/api/users/password-reset", handleErrors(async (req, res) => {
+    const { email } = z.object({ email: z.string().email() }).parse(req.body);
+    
+    // Same response whether or not the account exists, so emails can't be probed
+    const user = await storage.getUserByEmail(email);
+    if (user) {
+      const { token, tokenHash } = generateToken();
+      await storage.createPasswordResetToken({
+        userId: user.id,
+        tokenHash,
+        expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL)
+      });
+      
+      const resetUrl = `${appUrl}/reset-password?token=${token}`;
+      await mailer.send({
+        to: user.email,
+        subject: 'Reset your Taylor Made Performance password',
+        text: `We received a request to reset your password. Choose a new one here:\n\n${resetUrl}\n\nThis link expires in 1 hour. If you didn't ask for this, you can ignore this email.`
+      });
+    }
+    
+    res.json({ message: 'If an account exists for that email, a reset link has been sent' });
+  }));
+
+  app.post("/api/users/password-reset/confirm", handleErrors(async (req, res) => {
+    const { token, password } = z.object({
+      token: z.string(),
+      password: passwordSchema
+    }).parse(req.body);
+    
+    const resetToken = await storage.consumePasswordResetToken(hashToken(token));
+    if (!resetToken) {
+      res.status(400).json({ message: 'This reset link is invalid or has expired' });
+      return;
+    }
+    
+    await storage.updateUserPassword(resetToken.userId, password);
+    // Whoever had the old password is signed out too
+    await destroyUserSessions(resetToken.userId, req.sessionID);
+    res.json({ message: 'Password updated' });
+  }));
+
+  // Garage
+  const garageVehicleSchema = insertUserVehicleSchema.omit({ userId: true });
+
+  app.get("/api/users/:id/garage", requireSelf, handleErrors(async (req, res) => {
+    const userId = parseInt(req.params.id);
+    if (!await storage.getUser(userId)) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+    
+    res.json(await storage.getUserVehicles(userId));
+  }));
+
+  app.post("/api/users/:id/garage", requireSelf, handleErrors(async (req, res) => {
+    const userId = parseInt(req.params.id);
+    if (!await storage.getUser(userId)) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+    
+    const data = garageVehicleSchema.parse(req.body);
+    const vehicle = await addVehicleToGarage(storage, userId, data);
+    res.status(201).json(vehicle);
+  }));
+
+  // Merge the garage a guest built before signing in
+  app.post("/api/users/:id/garage/merge", requireSelf, handleErrors(async (req, res) => {
+    const userId = parseInt(req.params.id);
+    if (!await storage.getUser(userId)) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+    
+    const { vehicles } = z.object({ vehicles: z.array(garageVehicleSchema) }).parse(req.body);
+    res.json(await mergeGuestGarage(storage, userId, vehicles));
+  }));
+
+  app.patch("/api/users/:id/garage/:vehicleId", requireSelf, handleErrors(async (req, res) => {
+    const userId = parseInt(req.params.id);
+    const vehicle = await storage.getUserVehicleById(parseInt(req.params.vehicleId));
+    if (!vehicle || vehicle.userId !== userId) {
+      res.status(404).json({ message: 'Vehicle not found' });
+      return;
+    }
+    
+    const data = garageVehicleSchema.partial().parse(req.body);
+    const updatedVehicle = await storage.updateUserVehicle(vehicle.id, data);
+    res.json(updatedVehicle);
+  }));
+
+  app.delete("/api/users/:id/garage/:vehicleId", requireSelf, handleErrors(async (req, res) => {
+    const userId = parseInt(req.params.id);
+    const vehicle = await storage.getUserVehicleById(parseInt(req.params.vehicleId));
+    if (!vehicle || vehicle.userId !== userId) {
+      res.status(404).json({ message: 'Vehicle not found' });
+      return;
+    }
+    
+    await storage.deleteUserVehicle(vehicle.id);
+    res.status(204).end();
+  }));
+
+  // Staff administration
+  app.patch("/api/admin/users/:id/role", requirePermission("users:manage"), handleErrors(async (req, res) => {
+    const userId = parseInt(req.params.id);
+    const { role } = z.object({ role: z.enum(userRoles) }).parse(req.body);
+    
+    const user = await storage.getUser(userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+    
+    // Keep admins from locking themselves out
+    if (userId === req.currentUser!.id && role !== 'admin') {
+      res.status(400).json({ message: 'You cannot remove your own admin role' });
+      return;
+    }
+    
+    const updatedUser = await storage.updateUser(userId, { role });
+    await recordAudit(req, { action: 'user.role_change', resourceType: 'user', resourceId: userId, details: { from: user.role, to: role } });
+    res.json(toPublicUser(updatedUser!));
+  }));
+
+  app.get("/api/admin/audit-log", requirePermission("audit:read"), handleErrors(async (req, res) => {
+    const { limit, offset, userId, action } = z.object({
+      limit: z.coerce.number().int().min(1).max(200).default(50),
+      offset: z.coerce.number().int().min(0).default(0),
+      userId: z.coerce.number().int().optional(),
+      action: z.string().optional()
+    }).parse(req.query);
+    
+    res.json(await storage.getAuditLogs({ limit, offset, userId, action }));
+  }));
+
+  // Order management
+  const withPurchaseOrderItems = async (purchaseOrder: PurchaseOrder) => ({
+    ...purchaseOrder,
+    items: await storage.getPurchaseOrderItems(purchaseOrder.id)
+  });
+
+  app.get("/api/admin/orders", requirePermission("orders:read"), handleErrors(async (req, res) => {
+    const { limit, offset, status, payment_status, from, to, search } = z.object({
+      limit: z.coerce.number().int().min(1).max(200).default(50),
+      offset: z.coerce.number().int().min(0).default(0),
+      status: z.enum(orderStatuses).optional(),
+      payment_status: z.string().optional(),
+      from: z.coerce.date().optional(),
+      to: z.coerce.date().optional(),
+      search: z.string().optional()
+    }).parse(req.query);
+    
+    // "to" is a calendar day, so include all of it
+    const createdBefore = to ? new Date(to.getTime() + 24 * 60 * 60 * 1000) : undefined;
+    
+    const { orders, total } = await storage.findOrders({
+      limit,
+      offset,
+      status,
+      paymentStatus: payment_status || undefined,
+      createdFrom: from,
+      createdBefore,
+      searchTerm: search || undefined
+    });
+    res.json({ orders, total, limit, offset });
+  }));
+
+  app.get("/api/admin/orders/:id", requirePermission("orders:read"), handleErrors(async (req, res) => {
+    const order = await storage.getOrderById(parseInt(req.params.id));
+    if (!order) {
+      res.status(404).json({ message: 'Order not found' });
+      return;
+    }
+    
+    const [items, events, purchaseOrders] = await Promise.all([
+      storage.getOrderItemsByOrderId(order.id),
+      storage.getOrderEvents(order.id),
+      storage.getPurchaseOrders({ orderId: order.id })
+    ]);
+    const itemsWithProducts = await Promise.all(
+      items.map(async (item) => ({ ...item, product: await storage.getProductById(item.productId) }))
+    );
+    
+    res.json({
+      order,
+      items: itemsWithProducts,
+      events,
+      purchaseOrders: await Promise.all(purchaseOrders.map(withPurchaseOrderItems)),
+      // Refunds go through /api/refunds so money and status move together
+      allowedTransitions: (orderStatusTransitions[order.status] || [])
+        .filter(status => !paymentOrderStatuses.includes(status))
+    });
+  }));
+
+  app.post("/api/admin/orders/:id/status", requirePermission("orders:write"), handleErrors(async (req, res) => {
+    const orderId = parseInt(req.params.id);
+    const { status, note, carrier, trackingNumber } = z.object({
+      status: z.enum(orderStatuses),
+      note: z.string().max(1000).optional(),
+      carrier: z.string().trim().max(100).optional(),
+      trackingNumber: z.string().trim().max(100).optional()
+    }).parse(req.body);
+    
+    if (paymentOrderStatuses.includes(status)) {
+      res.status(400).json({ message: `Orders become ${status} through payments and refunds` });
+      return;
+    }
+    if ((carrier || trackingNumber) && status !== 'shipped') {
+      res.status(400).json({ message: 'Tracking details can only be given when marking an order shipped' });
+      return;
+    }
+    
+    const before = await storage.getOrderById(orderId);
+    let order = await changeOrderStatus(orderId, status, { userId: req.currentUser!.id, note: note || null });
+    if (!before || !order) {
+      res.status(404).json({ message: 'Order not found' });
+      return;
+    }
+    if (carrier || trackingNumber) {
+      order = await storage.updateOrderShipment(orderId, { carrier: carrier || null, trackingNumber: trackingNumber || null });
+    }
+    
+    await recordAudit(req, { action: 'order.status_change', resourceType: 'order', resourceId: orderId, details: { from: before.status, to: status, note, carrier, trackingNumber } });
+    res.json(order);
+  }));
+
+  // Corrects tracking details after the order has shipped
+  app.put("/api/admin/orders/:id/shipment", requirePermission("orders:write"), handleErrors(async (req, res) => {
+    const orderId = parseInt(req.params.id);
+    const { carrier, trackingNumber } = z.object({
+      carrier: z.string().trim().max(100).nullable(),
+      trackingNumber: z.string().trim().max(100).nullable()
+    }).parse(req.body);
+    
+    const order = await storage.updateOrderShipment(orderId, { carrier: carrier || null, trackingNumber: trackingNumber || null });
+    if (!order) {
+      res.status(404).json({ message: 'Order not found' });
+      return;
+    }
+    
+    await recordAudit(req, { action: 'order.shipment_update', resourceType: 'order', resourceId: orderId, details: { carrier, trackingNumber } });
+    res.json(order);
+  }));
+
+  // Dropship purchase orders; paid orders are routed to suppliers automatically
+  app.get("/api/admin/purchase-orders", requirePermission("orders:read"), handleErrors(async (req, res) => {
+    const { status, supplierId } = z.object({
+      status: z.enum(purchaseOrderStatuses).optional(),
+      supplierId: z.coerce.number().int().optional()
+    }).parse(req.query);
+    
+    const purchaseOrders = await storage.getPurchaseOrders({ status, supplierId });
+    res.json(await Promise.all(purchaseOrders.map(async (purchaseOrder) => ({
+      ...await withPurchaseOrderItems(purchaseOrder),
+      orderNumber: (await storage.getOrderById(purchaseOrder.orderId))?.orderNumber ?? null
+    }))));
+  }));
+
+  // For orders paid before their products had a dropshipping supplier
+  app.post("/api/admin/orders/:id/purchase-orders", requirePermission("orders:write"), handleErrors(async (req, res) => {
+    const orderId = parseInt(req.params.id);
+    const purchaseOrders = await fulfillmentRouter.routeOrder(orderId);
+    
+    await recordAudit(req, { action: 'purchase_order.route', resourceType: 'order', resourceId: orderId, details: { purchaseOrders: purchaseOrders.map(purchaseOrder => purchaseOrder.poNumber) } });
+    res.json(await Promise.all(purchaseOrders.map(withPurchaseOrderItems)));
+  }));
+
+  app.get("/api/admin/purchase-orders/:id/csv", requirePermission("orders:read"), handleErrors(async (req, res) => {
+    const purchaseOrder = await storage.getPurchaseOrderById(parseInt(req.params.id));
+    if (!purchaseOrder) {
+      res.status(404).json({ message: 'Purchase order not found' });
+      return;
+    }
+    
+    const csv = purchaseOrderCsv(await fulfillmentRouter.documentFor(purchaseOrder));
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${purchaseOrder.poNumber}.csv"`);
+    res.send(csv);
+  }));
+
+  // Resends one that failed; the response says whether it went this time
+  app.post("/api/admin/purchase-orders/:id/send", requirePermission("orders:write"), handleErrors(async (req, res) => {
+    const purchaseOrderId = parseInt(req.params.id);
+    const purchaseOrder = await fulfillmentRouter.sendPurchaseOrder(purchaseOrderId);
+    
+    await recordAudit(req, { action: 'purchase_order.send', resourceType: 'purchase_order', resourceId: purchaseOrderId, details: { poNumber: purchaseOrder.poNumber, status: purchaseOrder.status, lastError: purchaseOrder.lastError } });
+    res.json(await withPurchaseOrderItems(purchaseOrder));
+  }));
+
+  app.post("/api/admin/purchase-orders/:id/cancel", requirePermission("orders:write"), handleErrors(async (req, res) => {
+    const purchaseOrderId = parseInt(req.params.id);
+    const purchaseOrder = await fulfillmentRouter.cancelPurchaseOrder(purchaseOrderId);
+    if (!purchaseOrder) {
+      res.status(404).json({ message: 'Purchase order not found' });
+      return;
+    }
+    
+    await recordAudit(req, { action: 'purchase_order.cancel', resourceType: 'purchase_order', resourceId: purchaseOrderId, details: { poNumber: purchaseOrder.poNumber } });
+    res.json(await withPurchaseOrderItems(purchaseOrder));
+  }));
+
+  // What the supplier did with a line, usually from its shipping confirmation
+  app.put("/api/admin/purchase-order-items/:id", requirePermission("orders:write"), handleErrors(async (req, res) => {
+    const itemId = parseInt(req.params.id);
+    const { status, carrier, trackingNumber } = z.object({
+      status: z.enum(purchaseOrderLineStatuses),
+      carrier: z.string().trim().max(100).nullable().optional(),
+      trackingNumber: z.string().trim().max(100).nullable().optional()
+    }).parse(req.body);
+    
+    const item = await fulfillmentRouter.updateLine(itemId, { status, carrier: carrier || null, trackingNumber: trackingNumber || null });
+    if (!item) {
+      res.status(404).json({ message: 'Purchase order item not found' });
+      return;
+    }
+    
+    await recordAudit(req, { action: 'purchase_order.line_update', resourceType: 'purchase_order', resourceId: item.purchaseOrderId, details: { itemId, status, carrier, trackingNumber } });
+    const purchaseOrder = await storage.getPurchaseOrderById(item.purchaseOrderId);
+    res.json(await withPurchaseOrderItems(purchaseOrder!));
+  }));
+
+  // Returns (RMA)
+  app.get("/api/admin/returns", requirePermission("orders:read"), handleErrors(async (req, res) => {
+    const { status } = z.object({ status: z.enum(returnStatuses).optional() }).parse(req.query);
+    const returnRequests = await storage.getReturnRequests({ status });
+    res.json(await Promise.all(returnRequests.map(toReturnDetail)));
+  }));
+
+  app.get("/api/admin/returns/:id", requirePermission("orders:read"), handleErrors(async (req, res) => {
+    const returnRequest = await storage.getReturnRequestById(parseInt(req.params.id));
+    if (!returnRequest) {
+      res.status(404).json({ message: 'Return not found' });
+      return;
+    }
+    
+    const [detail, order] = await Promise.all([
+      toReturnDetail(returnRequest),
+      storage.getOrderById(returnRequest.orderId)
+    ]);
+    // Each line's supplier terms, so staff can see where a fee comes from
+    const terms = await Promise.all(detail.items.map(async (item) => ({
+      returnItemId: item.id,
+      ...await returnTermsForProduct(item.productId)
+    })));
+    res.json({ ...detail, order, terms });
+  }));
+
+  app.post("/api/admin/returns/:id/approve", requirePermission("refunds:create"), handleErrors(async (req, res) => {
+    const returnId = parseInt(req.params.id);
+    const { note } = z.object({ note: z.string().trim().max(1000).optional() }).parse(req.body);
+    
+    const returnRequest = await approveReturn(returnId, note);
+    if (!returnRequest) {
+      res.status(404).json({ message: 'Return not found' });
+      return;
+    }
+    await recordAudit(req, { action: 'return.approve', resourceType: 'return', resourceId: returnId, details: { rmaNumber: returnRequest.rmaNumber, refundAmount: returnRequest.refundAmount, restockingFee: returnRequest.restockingFee } });
+    res.json(await toReturnDetail(returnRequest));
+  }));
+
+  app.post("/api/admin/returns/:id/reject", requirePermission("refunds:create"), handleErrors(async (req, res) => {
+    const returnId = parseInt(req.params.id);
+    const { note } = z.object({ note: z.string().trim().min(1).max(1000) }).parse(req.body);
+    
+    const returnRequest = await rejectReturn(returnId, note);
+    if (!returnRequest) {
+      res.status(404).json({ message: 'Return not found' });
+      return;
+    }
+    await recordAudit(req, { action: 'return.reject', resourceType: 'return', resourceId: returnId, details: { rmaNumber: returnRequest.rmaNumber, note } });
+    res.json(await toReturnDetail(returnRequest));
+  }));
+
+  // Fulfillment checks the goods in; those fit to sell go back into stock
+  app.post("/api/admin/returns/:id/receive", requirePermission("orders:write"), handleErrors(async (req, res) => {
+    const returnId = parseInt(req.params.id);
+    const { note } = z.object({ note: z.string().trim().max(1000).optional() }).parse(req.body);
+    
+    const returnRequest = await receiveReturn(returnId, note);
+    if (!returnRequest) {
+      res.status(404).json({ message: 'Return not found' });
+      return;
+    }
+    await recordAudit(req, { action: 'return.receive', resourceType: 'return', resourceId: returnId, details: { rmaNumber: returnRequest.rmaNumber } });
+    res.json(await toReturnDetail(returnRequest));
+  }));
+
+  app.post("/api/admin/returns/:id/refund", requirePermission("refunds:create"), handleErrors(async (req, res) => {
+    const returnId = parseInt(req.params.id);
+    
+    const returnRequest = await refundReturn(returnId, req.currentUser!.id);
+    if (!returnRequest) {
+      res.status(404).json({ message: 'Return not found' });
+      return;
+    }
+    await recordAudit(req, { action: 'return.refund', resourceType: 'return', resourceId: returnId, details: { rmaNumber: returnRequest.rmaNumber, amount: returnRequest.refundAmount, refundId: returnRequest.refundId } });
+    res.json(await toReturnDetail(returnRequest));
+  }));
+
+  // Promotions
+  app.get("/api/admin/promotions", requirePermission("promotions:manage"), handleErrors(async (req, res) => {
+    const promotions = await storage.getPromotions();
+    res.json(await Promise.all(promotions.map(async (promotion) => ({
+      ...promotion,
+      usageCount: (await storage.getPromotionUsage(promotion.id)).total
+    }))));
+  }));
+
+  app.post("/api/admin/promotions", requirePermission("promotions:manage"), handleErrors(async (req, res) => {
+    const data = insertPromotionSchema.parse(req.body);
+    
+    if (await storage.getPromotionByCode(data.code)) {
+      res.status(409).json({ message: 'Another promotion already uses this code' });
+      return;
+    }
+    
+    const promotion = await storage.createPromotion(data);
+    await recordAudit(req, { action: 'promotion.create', resourceType: 'promotion', resourceId: promotion.id, details: { code: promotion.code } });
+    res.status(201).json(promotion);
+  }));
+
+  app.put("/api/admin/promotions/:id", requirePermission("promotions:manage"), handleErrors(async (req, res) => {
+    const promotionId = parseInt(req.params.id);
+    const data = insertPromotionSchema.parse(req.body);
+    
+    const existing = await storage.getPromotionByCode(data.code);
+    if (existing && existing.id !== promotionId) {
+      res.status(409).json({ message: 'Another promotion already uses this code' });
+      return;
+    }
+    
+    const promotion = await storage.updatePromotion(promotionId, data);
+    if (!promotion) {
+      res.status(404).json({ message: 'Promotion not found' });
+      return;
+    }
+    
+    await recordAudit(req, { action: 'promotion.update', resourceType: 'promotion', resourceId: promotionId, details: { code: promotion.code, isActive: promotion.isActive } });
+    res.json(promotion);
+  }));
+
+  // Bundles; editing an auto bundle makes it curated so it's no longer regenerated
+  app.get("/api/admin/bundles", requirePermission("promotions:manage"), handleErrors(async (req, res) => {
+    const bundles = await storage.getBundles();
+    res.json(await Promise.all(bundles.map(async (bundle) => ({
+      ...bundle,
+      products: (await Promise.all(bundle.productIds.map(id => storage.getProductById(id))))
+        .filter((product): product is Product => !!product)
+        .map(({ id, name, sku, price, isActive }) => ({ id, name, sku, price, isActive }))
+    }))));
+  }));
+
+  // Rebuilds every auto bundle from the latest recommendations rather than waiting for the weekly refresh
+  app.post("/api/admin/bundles/refresh", requirePermission("promotions:manage"), handleErrors(async (req, res) => {
+    const refreshed = await refreshAutoBundles(true);
+    await recordAudit(req, { action: 'bundle.refresh', resourceType: 'bundle', details: { refreshed } });
+    res.json({ refreshed });
+  }));
+
+  const parseBundle = async (body: unknown) => {
+    const data = insertBundleSchema.parse(body);
+    for (const productId of data.productIds) {
+      if (!await storage.getProductById(productId)) return { data, missingProductId: productId };
+    }
+    return { data };
+  };
+
+  app.post("/api/admin/bundles", requirePermission("promotions:manage"), handleErrors(async (req, res) => {
+    const { data, missingProductId } = await parseBundle(req.body);
+    if (missingProductId) {
+      res.status(400).json({ message: `Product ${missingProductId} doesn't exist` });
+      return;
+    }
+    
+    const bundle = await storage.createBundle(data, 'curated');
+    await recordAudit(req, { action: 'bundle.create', resourceType: 'bundle', resourceId: bundle.id, details: { productIds: bundle.productIds, discountPercent: bundle.discountPercent } });
+    res.status(201).json(bundle);
+  }));
+
+  app.put("/api/admin/bundles/:id", requirePermission("promotions:manage"), handleErrors(async (req, res) => {
+    const bundleId = parseInt(req.params.id);
+    const { data, missingProductId } = await parseBundle(req.body);
+    if (missingProductId) {
+      res.status(400).json({ message: `Product ${missingProductId} doesn't exist` });
+      return;
+    }
+    
+    const bundle = await storage.updateBundle(bundleId, { ...data, source: 'curated' });
+    if (!bundle) {
+      res.status(404).json({ message: 'Bundle not found' });
+      return;
+    }
+    
+    await recordAudit(req, { action: 'bundle.update', resourceType: 'bundle', resourceId: bundleId, details: { productIds: bundle.productIds, discountPercent: bundle.discountPercent, isActive: bundle.isActive } });
+    res.json(bundle);
+  }));
+
+  // Stock locations: our warehouses, and one per dropshipping supplier
+  app.get("/api/admin/stock-locations", requirePermission("catalog:write"), handleErrors(async (req, res) => {
+    const [locations, levels] = await Promise.all([storage.getStockLocations(), storage.getStockLevels()]);
+    res.json(locations.map(location => {
+      const stocked = levels.filter(level => level.locationId === location.id && level.quantity > 0);
+      return {
+        ...location,
+        productCount: stocked.length,
+        unitCount: stocked.reduce((sum, level) => sum + level.quantity, 0)
+      };
+    }));
+  }));
+
+  app.post("/api/admin/stock-locations", requirePermission("catalog:write"), handleErrors(async (req, res) => {
+    const data = insertStockLocationSchema.parse(req.body);
+    
+    if (data.supplierId != null) {
+      if (!await storage.getSupplierById(data.supplierId)) {
+        res.status(400).json({ message: 'Supplier not found' });
+        return;
+      }
+      if (await storage.getStockLocationBySupplierId(data.supplierId)) {
+        res.status(409).json({ message: 'This supplier already has a stock location' });
+        return;
+      }
+    }
+    
+    const location = await storage.createStockLocation(data);
+    await recordAudit(req, { action: 'stock_location.create', resourceType: 'stock_location', resourceId: location.id, details: { name: location.name, kind: location.kind } });
+    res.status(201).json(location);
+  }));
+
+  // A location's kind and supplier are fixed once it holds stock
+  app.put("/api/admin/stock-locations/:id", requirePermission("catalog:write"), handleErrors(async (req, res) => {
+    const locationId = parseInt(req.params.id);
+    const existing = await storage.getStockLocationById(locationId);
+    if (!existing) {
+      res.status(404).json({ message: 'Stock location not found' });
+      return;
+    }
+    
+    const { kind: _kind, supplierId: _supplierId, ...data } = insertStockLocationSchema.parse({
+      ...req.body,
+      kind: existing.kind,
+      supplierId: existing.supplierId
+    });
+    const location = await storage.updateStockLocation(locationId, data);
+    await recordAudit(req, { action: 'stock_location.update', resourceType: 'stock_location', resourceId: locationId, details: { name: location!.name, isActive: location!.isActive } });
+    res.json(location);
+  }));
+
+  // Suppliers
+  app.get("/api/admin/suppliers", requirePermission("suppliers:manage"), handleErrors(async (req, res) => {
+    const [suppliers, links] = await Promise.all([storage.getSuppliers(), storage.getSupplierProducts()]);
+    res.json(suppliers.map(supplier => ({
+      ...supplier,
+      productCount: links.filter(link => link.supplierId === supplier.id).length
+    })));
+  }));
+
+  app.post("/api/admin/suppliers", requirePermission("suppliers:manage"), handleErrors(async (req, res) => {
+    const data = insertSupplierSchema.parse(req.body);
+    
+    if (await storage.getSupplierByName(data.name)) {
+      res.status(409).json({ message: 'Another supplier already has this name' });
+      return;
+    }
+    
+    const supplier = await storage.createSupplier(data);
+    await recordAudit(req, { action: 'supplier.create', resourceType: 'supplier', resourceId: supplier.id, details: { name: supplier.name } });
+    res.status(201).json(supplier);
+  }));
+
+  app.put("/api/admin/suppliers/:id", requirePermission("suppliers:manage"), handleErrors(async (req, res) => {
+    const supplierId = parseInt(req.params.id);
+    const data = insertSupplierSchema.parse(req.body);
+    
+    const existing = await storage.getSupplierByName(data.name);
+    if (existing && existing.id !== supplierId) {
+      res.status(409).json({ message: 'Another supplier already has this name' });
+      return;
+    }
+    
+    const supplier = await storage.updateSupplier(supplierId, data);
+    if (!supplier) {
+      res.status(404).json({ message: 'Supplier not found' });
+      return;
+    }
+    
+    await recordAudit(req, { action: 'supplier.update', resourceType: 'supplier', resourceId: supplierId, details: { name: supplier.name, isActive: supplier.isActive } });
+    res.json(supplier);
+  }));
+
+  // Its costs go with it, so products it was the only source for lose their margin
+  app.delete("/api/admin/suppliers/:id", requirePermission("suppliers:manage"), handleErrors(async (req, res) => {
+    const supplierId = parseInt(req.params.id);
+    const supplier = await storage.getSupplierById(supplierId);
+    if (!supplier) {
+      res.status(404).json({ message: 'Supplier not found' });
+      return;
+    }
+    
+    await storage.deleteSupplier(supplierId);
+    await recordAudit(req, { action: 'supplier.delete', resourceType: 'supplier', resourceId: supplierId, details: { name: supplier.name } });
+    res.status(204).end();
+  }));
+
+  // A supplier's products, each with the margin it would leave at this supplier's cost
+  app.get("/api/admin/suppliers/:id/products", requirePermission("suppliers:manage"), handleErrors(async (req, res) => {
+    const supplierId = parseInt(req.params.id);
+    if (!await storage.getSupplierById(supplierId)) {
+      res.status(404).json({ message: 'Supplier not found' });
+      return;
+    }
+    
+    const minimumMargin = getMinimumMargin();
+    const links = await storage.getSupplierProducts({ supplierId });
+    res.json(await Promise.all(links.map(async (link) => {
+      const product = await storage.getProductById(link.productId);
+      const margin = product ? marginPercent(product.price, link.cost) : null;
+      return {
+        ...link,
+        product: product && { id: product.id, name: product.name, sku: product.sku, price: product.price, isActive: product.isActive },
+        marginPercent: margin,
+        belowMinimum: margin !== null && margin < minimumMargin
+      };
+    })));
+  }));
+
+  // Responses carry the product's margin as it now stands, so a cost that pushes it under
+  // the minimum can be flagged straight away
+  app.post("/api/admin/suppliers/:id/products", requirePermission("suppliers:manage"), handleErrors(async (req, res) => {
+    const supplierId = parseInt(req.params.id);
+    const data = insertSupplierProductSchema.omit({ supplierId: true }).parse(req.body);
+    
+    if (!await storage.getSupplierById(supplierId)) {
+      res.status(404).json({ message: 'Supplier not found' });
+      return;
+    }
+    if (!await storage.getProductById(data.productId)) {
+      res.status(400).json({ message: `Product ${data.productId} doesn't exist` });
+      return;
+    }
+    if ((await storage.getSupplierProducts({ supplierId, productId: data.productId })).length > 0) {
+      res.status(409).json({ message: 'This supplier already has a cost for that product' });
+      return;
+    }
+    
+    const link = await storage.createSupplierProduct({ ...data, supplierId });
+    await recordAudit(req, { action: 'supplier_product.create', resourceType: 'supplier_product', resourceId: link.id, details: { supplierId, productId: link.productId, cost: link.cost } });
+    res.status(201).json({ ...link, margin: await getProductMargin(link.productId) });
+  }));
+
+  app.put("/api/admin/supplier-products/:id", requirePermission("suppliers:manage"), handleErrors(async (req, res) => {
+    const linkId = parseInt(req.params.id);
+    const data = insertSupplierProductSchema.omit({ supplierId: true, productId: true }).parse(req.body);
+    
+    const link = await storage.updateSupplierProduct(linkId, data);
+    if (!link) {
+      res.status(404).json({ message: 'Supplier product not found' });
+      return;
+    }
+    
+    await recordAudit(req, { action: 'supplier_product.update', resourceType: 'supplier_product', resourceId: linkId, details: { supplierId: link.supplierId, productId: link.productId, cost: link.cost, isPreferred: link.isPreferred } });
+    res.json({ ...link, margin: await getProductMargin(link.productId) });
+  }));
+
+  app.delete("/api/admin/supplier-products/:id", requirePermission("suppliers:manage"), handleErrors(async (req, res) => {
+    const linkId = parseInt(req.params.id);
+    const link = await storage.getSupplierProductById(linkId);
+    if (!link) {
+      res.status(404).json({ message: 'Supplier product not found' });
+      return;
+    }
+    
+    await storage.deleteSupplierProduct(linkId);
+    await recordAudit(req, { action: 'supplier_product.delete', resourceType: 'supplier_product', resourceId: linkId, details: { supplierId: link.supplierId, productId: link.productId } });
+    res.json({ margin: await getProductMargin(link.productId) });
+  }));
+
+  // Margins
+  app.get("/api/admin/margins", requirePermission("suppliers:manage"), handleErrors(async (req, res) => {
+    const belowMinimum = req.query.belowMinimum === 'true';
+    res.json({ minimumMargin: getMinimumMargin(), products: await getProductMargins({ belowMinimum }) });
+  }));
+
+  // Supplier feeds: a profile per feed layout, and the imports made with them
+  app.get("/api/admin/suppliers/:id/feed-profiles", requirePermission("suppliers:manage"), handleErrors(async (req, res) => {
+    res.json(await storage.getSupplierFeedProfiles({ supplierId: parseInt(req.params.id) }));
+  }));
+
+  app.post("/api/admin/suppliers/:id/feed-profiles", requirePermission("suppliers:manage"), handleErrors(async (req, res) => {
+    const supplierId = parseInt(req.params.id);
+    const data = insertSupplierFeedProfileSchema.parse({ ...req.body, supplierId });
+    
+    if (!await storage.getSupplierById(supplierId)) {
+      res.status(404).json({ message: 'Supplier not found' });
+      return;
+    }
+    const profiles = await storage.getSupplierFeedProfiles({ supplierId });
+    if (profiles.some(profile => profile.name.toLowerCase() === data.name.toLowerCase())) {
+      res.status(409).json({ message: 'This supplier already has a feed profile with this name' });
+      return;
+    }
+    
+    const profile = await storage.createSupplierFeedProfile(data);
+    await recordAudit(req, { action: 'feed_profile.create', resourceType: 'supplier', resourceId: supplierId, details: { profileId: profile.id, name: profile.name } });
+    res.status(201).json(profile);
+  }));
+
+  app.put("/api/admin/feed-profiles/:id", requirePermission("suppliers:manage"), handleErrors(async (req, res) => {
+    const profileId = parseInt(req.params.id);
+    const existing = await storage.getSupplierFeedProfileById(profileId);
+    if (!existing) {
+      res.status(404).json({ message: 'Feed profile not found' });
+      return;
+    }
+    
+    const data = insertSupplierFeedProfileSchema.parse({ ...req.body, supplierId: existing.supplierId });
+    const profiles = await storage.getSupplierFeedProfiles({ supplierId: existing.supplierId });
+    if (profiles.some(profile => profile.id !== profileId && profile.name.toLowerCase() === data.name.toLowerCase())) {
+      res.status(409).json({ message: 'This supplier already has a feed profile with this name' });
+      return;
+    }
+    
+    const profile = await storage.updateSupplierFeedProfile(profileId, data);
+    await recordAudit(req, { action: 'feed_profile.update', resourceType: 'supplier', resourceId: existing.supplierId, details: { profileId, name: data.name } });
+    res.json(profile);
+  }));
+
+  app.delete("/api/admin/feed-profiles/:id", requirePermission("suppliers:manage"), handleErrors(async (req, res) => {
+    const profileId = parseInt(req.params.id);
+    const profile = await storage.getSupplierFeedProfileById(profileId);
+    if (!profile) {
+      res.status(404).json({ message: 'Feed profile not found' });
+      return;
+    }
+    
+    await storage.deleteSupplierFeedProfile(profileId);
+    await recordAudit(req, { action: 'feed_profile.delete', resourceType: 'supplier', resourceId: profile.supplierId, details: { profileId, name: profile.name } });
+    res.status(204).end();
+  }));
+
+  // The feed file is the request body as it is, with its name in the query string
+  app.post(
+    "/api/admin/feed-profiles/:id/imports",
+    requirePermission("suppliers:manage"),
+    express.raw({ type: 'application/octet-stream', limit: '20mb' }),
+    handleErrors(async (req, res) => {
+      const { filename } = z.object({ filename: z.string().trim().min(1).max(255) }).parse(req.query);
+      const profile = await storage.getSupplierFeedProfileById(parseInt(req.params.id));
+      if (!profile) {
+        res.status(404).json({ message: 'Feed profile not found' });
+        return;
+      }
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        res.status(400).json({ message: 'Upload the feed file as the request body' });
+        return;
+      }
+      
+      const feedImport = await importFeed(profile, { filename, content: req.body }, req.currentUser!.id);
+      await recordAudit(req, {
+        action: 'feed_import.create',
+        resourceType: 'feed_import',
+        resourceId: feedImport.id,
+        details: { supplierId: profile.supplierId, filename, status: feedImport.status, summary: feedImport.summary }
+      });
+      res.status(201).json(feedImport);
+    })
+  );
+
+  app.get("/api/admin/feed-imports", requirePermission("suppliers:manage"), handleErrors(async (req, res) => {
+    const { supplierId, status } = z.object({
+      supplierId: z.coerce.number().int().optional(),
+      status: z.enum(feedImportStatuses).optional()
+    }).parse(req.query);
+    
+    const [feedImports, suppliers] = await Promise.all([
+      storage.getFeedImports({ supplierId, status, limit: 200 }),
+      storage.getSuppliers()
+    ]);
+    const supplierNames = new Map(suppliers.map(supplier => [supplier.id, supplier.name]));
+    res.json(feedImports.map(feedImport => ({ ...feedImport, supplierName: supplierNames.get(feedImport.supplierId) ?? null })));
+  }));
+
+  app.get("/api/admin/feed-imports/:id", requirePermission("suppliers:manage"), handleErrors(async (req, res) => {
+    const feedImport = await storage.getFeedImportById(parseInt(req.params.id));
+    if (!feedImport) {
+      res.status(404).json({ message: 'Import not found' });
+      return;
+    }
+    
+    const [supplier, profile, changes] = await Promise.all([
+      storage.getSupplierById(feedImport.supplierId),
+      feedImport.profileId !== null ? storage.getSupplierFeedProfileById(feedImport.profileId) : undefined,
+      storage.getFeedImportChanges(feedImport.id)
+    ]);
+    res.json({ ...feedImport, supplierName: supplier?.name ?? null, profileName: profile?.name ?? null, changes });
+  }));
+
+  app.post("/api/admin/feed-imports/:id/apply", requirePermission("suppliers:manage"), handleErrors(async (req, res) => {
+    const importId = parseInt(req.params.id);
+    // Without changeIds, every change is applied
+    const { changeIds } = z.object({ changeIds: z.array(z.number().int()).optional() }).parse(req.body ?? {});
+    
+    const feedImport = await applyFeedImport(importId, req.currentUser!.id, changeIds);
+    if (!feedImport) {
+      res.status(404).json({ message: 'Import not found' });
+      return;
+    }
+    
+    const changes = await storage.getFeedImportChanges(importId);
+    const count = (status: string) => changes.filter(change => change.status === status).length;
+    await recordAudit(req, {
+      action: 'feed_import.apply',
+      resourceType: 'feed_import',
+      resourceId: importId,
+      details: { supplierId: feedImport.supplierId, applied: count('applied'), skipped: count('skipped'), failed: count('failed') }
+    });
+    res.json({ ...feedImport, changes });
+  }));
+
+  app.post("/api/admin/feed-imports/:id/discard", requirePermission("suppliers:manage"), handleErrors(async (req, res) => {
+    const importId = parseInt(req.params.id);
+    const feedImport = await discardFeedImport(importId, req.currentUser!.id);
+    if (!feedImport) {
+      res.status(404).json({ message: 'Import not found' });
+      return;
+    }
+    
+    await recordAudit(req, { action: 'feed_import.discard', resourceType: 'feed_import', resourceId: importId, details: { supplierId: feedImport.supplierId } });
+    res.json(feedImport);
+  }));
+
   // Contact Form
   app.post("/api/contact", handleErrors(async (req, res) => {
     const data = insertContactMessageSchema.parse(req.body);
@@ -482,12 +1880,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
           };
         }
         
-        if (item.quantity > product.inventoryCount) {
+        // Stock held by other customers' open checkouts can't be bought
+        const { available, shipping } = await getStockAvailability(product.id, item.quantity);
+        if (item.quantity > available) {
           return {
             productId: item.productId,
             valid: false,
-            message: `Only ${product.inventoryCount} available`,
-            availableQuantity: product.inventoryCount
+            message: `Only ${available} available`,
+            availableQuantity: available
           };
         }
         
@@ -498,8 +1898,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
             id: product.id,
             name: product.name,
             price: product.price,
-            inventoryCount: product.inventoryCount
-          }
+            inventoryCount: available
+          },
+          shipping
         };
       })
     );
@@ -512,133 +1913,74 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   }));
 
-  // Stripe Payment
-  app.post("/api/create-payment-intent", handleErrors(async (req, res) => {
-    if (!stripe) {
-      return res.status(503).json({ message: 'Payment service unavailable' });
-    }
-    
-    const { cartItems, shippingAddress, billingAddress, email } = z.object({
-      cartItems: z.array(z.object({
-        productId: z.number(),
-        quantity: z.number().positive(),
-        price: z.string(),
-        name: z.string()
-      })),
-      shippingAddress: z.object({
-        name: z.string(),
-        line1: z.string(),
-        line2: z.string().optional(),
-        city: z.string(),
-        state: z.string(),
-        postalCode: z.string(),
-        country: z.string()
-      }),
-      billingAddress: z.object({
-        name: z.string(),
-        line1: z.string(),
-        line2: z.string().optional(),
-        city: z.string(),
-        state: z.string(),
-        postalCode: z.string(),
-        country: z.string()
-      }),
-      email: z.string().email()
-    }).parse(req.body);
-    
-    // Calculate order total
-    const subtotal = cartItems.reduce((sum, item) => {
-      return sum + (parseFloat(item.price) * item.quantity);
-    }, 0);
-    
-    // Add tax (e.g., 8%)
-    const taxRate = 0.08;
-    const tax = subtotal * taxRate;
-    
-    // Calculate shipping (simplified example)
-    const shippingCost = subtotal > 200 ? 0 : 15;
+  const cartQuoteSchema = z.object({
+    items: z.array(z.object({
+      productId: z.number(),
+      quantity: z.number().int().positive()
+    })).min(1),
+    promotionCodes: z.array(z.string().trim().min(1).max(32)).max(10).default([])
+  });
+
+  // Signed-in customers are held to per-customer promotion limits while they shop
+  const promotionCustomer = async (req: Request) => {
+    const user = req.session.userId ? await storage.getUser(req.session.userId) : undefined;
+    return user ? { userId: user.id, email: user.email } : undefined;
+  };
+
+  // Prices a cart for display; create-payment-intent prices it again when the order is placed
+  app.post("/api/cart/quote", handleErrors(async (req, res) => {
+    const { items, promotionCodes } = cartQuoteSchema.parse(req.body);
     
-    // Total
-    const total = subtotal + tax + shippingCost;
+    res.json(await pricingEngine.quote(items, { promotionCodes, customer: await promotionCustomer(req) }));
+  }));
+
+  // Adds a code to the cart's codes: the new quote, or 400 with why the code can't be used
+  app.post("/api/cart/apply-code", handleErrors(async (req, res) => {
+    const { items, promotionCodes, code } = cartQuoteSchema.extend({
+      code: z.string().trim().min(1).max(32)
+    }).parse(req.body);
     
-    try {
-      // Create a new order
-      const order = await storage.createOrder({
-        userId: null, // Guest checkout
-        shippingAddress,
-        billingAddress,
-        shippingMethod: shippingCost === 0 ? 'Free Shipping' : 'Standard Shipping',
-        shippingCost: shippingCost.toString(),
-        subtotal: subtotal.toString(),
-        tax: tax.toString(),
-        total: total.toString(),
-        paymentMethod: 'Stripe',
-        note: ''
-      });
-      
-      // Add order items
-      for (const item of cartItems) {
-        await storage.createOrderItem({
-          orderId: order.id,
-          productId: item.productId,
-          quantity: item.quantity,
-          price: item.price,
-          subtotal: (parseFloat(item.price) * item.quantity).toString()
-        });
-        
-        // Update inventory
-        await storage.updateProductInventory(item.productId, item.quantity);
-      }
-      
-      // Create Stripe payment intent
-      const paymentIntent = await stripe.paymentIntents.create({
-        amount: Math.round(total * 100), // Convert to cents
-        currency: 'usd',
-        metadata: {
-          orderId: order.id.toString(),
-          orderNumber: order.orderNumber
-        },
-        receipt_email: email,
-        description: `Order #${order.orderNumber}`
-      });
-      
-      // Update order with payment intent ID
-      await storage.updatePaymentStatus(order.id, 'pending', paymentIntent.id);
-      
-      res.json({
-        clientSecret: paymentIntent.client_secret,
-        orderId: order.id,
-        orderNumber: order.orderNumber
-      });
-    } catch (error) {
-      console.error('Stripe payment error:', error);
-      res.status(500).json({ message: 'Failed to process payment' });
+    const quote = await pricingEngine.quote(items, {
+      promotionCodes: [...promotionCodes, code],
+      customer: await promotionCustomer(req)
+    });
+    const rejected = quote.rejectedCodes.find(rejected => rejected.code === normalizePromotionCode(code));
+    if (rejected) {
+      res.status(400).json({ message: rejected.message, code: rejected.code });
+      return;
     }
+    res.json(quote);
   }));
 
-  app.post("/api/orders/:orderId/confirm", handleErrors(async (req, res) => {
-    const orderId = parseInt(req.params.orderId);
-    const order = await storage.getOrderById(orderId);
+  // Guest order tracking: the order number alone isn't enough, the checkout email must match
+  app.post("/api/orders/track", handleErrors(async (req, res) => {
+    const { orderNumber, email } = z.object({
+      orderNumber: z.string().trim().min(1),
+      email: z.string().trim().email()
+    }).parse(req.body);
     
-    if (!order) {
-      return res.status(404).json({ message: 'Order not found' });
+    const order = await storage.getOrderByNumber(orderNumber.toUpperCase());
+    // Same response for a wrong email as for a missing order, so neither can be probed
+    if (!order || !(await orderMatchesEmail(order, email))) {
+      res.status(404).json({ message: 'No order matches that order number and email' });
+      return;
     }
     
-    // Update order status
-    const updatedOrder = await storage.updateOrderStatus(orderId, 'confirmed');
-    await storage.updatePaymentStatus(orderId, 'paid');
-    
-    res.json({
-      success: true,
-      order: updatedOrder
-    });
+    const events = await storage.getOrderEvents(order.id);
+    res.json(toOrderTracking(order, events));
   }));
 
+  // Full order details, only for the customer who placed it
   app.get("/api/orders/:orderNumber", handleErrors(async (req, res) => {
     const order = await storage.getOrderByNumber(req.params.orderNumber);
+    const placedByRequester = !!order && (
+      (!!order.userId && order.userId === req.session.userId) ||
+      (req.session.orderIds ?? []).includes(order.id)
+    );
     
-    if (!order) {
-      return res.status(404).json({ message: 'Order not found' });
+    if (!order || !placedByRequester) {
+      res.status(404).json({ message: 'Order not found' });
+      return;
     }
     
     // Get order items
@@ -658,81 +2000,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   }));
 
-  // Stripe Webhook Handler - Critical for payment confirmations
-  app.post("/api/stripe-webhook", handleErrors(async (req, res) => {
-    if (!stripe) {
-      return res.status(503).json({ message: 'Payment service unavailable' });
-    }
-    
-    // Get the raw body and signature header
-    const payload = req.body;
-    const sig = req.headers['stripe-signature'] as string;
-    
-    let event;
-    
-    try {
-      // Verify webhook signature using Stripe's webhook secret
-      // For production, set process.env.STRIPE_WEBHOOK_SECRET in your environment
-      const endpointSecret = process.env.STRIPE_WEBHOOK_SECRET;
-      
-      if (endpointSecret) {
-        event = stripe.webhooks.constructEvent(payload, sig, endpointSecret);
-      } else {
-        // Fallback for development (NOT SECURE for production!)
-        event = payload;
-        console.warn('STRIPE_WEBHOOK_SECRET not set. Skipping signature verification - NOT SECURE FOR PRODUCTION!');
-      }
-      
-      // Handle various payment events
-      switch (event.type) {
-        case 'payment_intent.succeeded':
-          const paymentIntent = event.data.object;
-          
-          // Update order status using the orderId from metadata
-          const { orderId, orderNumber } = paymentIntent.metadata;
-          if (orderId) {
-            await storage.updateOrderStatus(parseInt(orderId), 'processing');
-            await storage.updatePaymentStatus(parseInt(orderId), 'paid', paymentIntent.id);
-            
-            console.log(`Payment for order ${orderNumber} (ID: ${orderId}) completed successfully`);
-          }
-          break;
-          
-        case 'payment_intent.payment_failed':
-          const failedPaymentIntent = event.data.object;
-          
-          // Update order status to failed
-          const failedOrderId = failedPaymentIntent.metadata.orderId;
-          if (failedOrderId) {
-            await storage.updatePaymentStatus(parseInt(failedOrderId), 'failed', failedPaymentIntent.id);
-            console.log(`Payment for order ${failedOrderId} failed`);
-          }
-          break;
-          
-        case 'charge.refunded':
-          const refund = event.data.object;
-          const refundedOrderId = refund.metadata?.orderId;
-          
-          if (refundedOrderId) {
-            await storage.updateOrderStatus(parseInt(refundedOrderId), 'refunded');
-            await storage.updatePaymentStatus(parseInt(refundedOrderId), 'refunded');
-            console.log(`Refund processed for order ${refundedOrderId}`);
-          }
-          break;
-          
-        // Handle other webhook events as needed
-        default:
-          console.log(`Unhandled event type: ${event.type}`);
-      }
-      
-      // Return a 200 success response to acknowledge receipt of the event
-      res.json({ received: true });
-    } catch (error) {
-      console.error('Webhook error:', error);
-      res.status(400).json({ message: 'Webhook error', error: error.message });
-    }
-  }));
-
   // Return the server instance
   return httpServer;
 }
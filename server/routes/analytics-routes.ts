@@ -0,0 +1,92 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { requirePermission } from '../permissions';
+import { getFunnelReport, getProductAnalytics, ingestClientEvents, utcDay } from '../analytics';
+import { storage } from '../storage';
+import { analyticsBatchSchema } from '@shared/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_FUNNEL_DAYS = 366;
+
+// A range of UTC days; the last 30 when not given
+const dayRangeSchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional()
+}).transform(({ from, to }) => {
+  const end = to ?? utcDay(new Date());
+  return { from: from ?? utcDay(new Date(new Date(`${end}T00:00:00Z`).getTime() - 29 * DAY_MS)), to: end };
+}).refine(({ from, to }) => from <= to, { message: 'from must not be after to' });
+
+// Register storefront analytics routes
+export function registerAnalyticsRoutes(app: Express) {
+  // Event batches from the browser, usually sent with navigator.sendBeacon
+  app.post("/api/analytics/events", async (req, res) => {
+    const parsed = analyticsBatchSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ message: 'Invalid analytics batch' });
+      return;
+    }
+
+    try {
+      const accepted = await ingestClientEvents(parsed.data.events, req.session.userId ?? null);
+      res.status(202).json({ accepted });
+    } catch (error) {
+      console.error('Analytics ingestion error:', error);
+      res.status(500).json({ message: 'Failed to record analytics events' });
+    }
+  });
+
+  // Per-product views, add-to-cart rate and conversion over a range of days
+  app.get("/api/admin/analytics/products", requirePermission("analytics:read"), async (req, res) => {
+    const range = dayRangeSchema.safeParse(req.query);
+    if (!range.success) {
+      res.status(400).json({ message: 'Invalid date range' });
+      return;
+    }
+
+    try {
+      res.json({ ...range.data, products: await getProductAnalytics(range.data.from, range.data.to) });
+    } catch (error) {
+      console.error('Product analytics error:', error);
+      res.status(500).json({ message: 'Failed to load product analytics' });
+    }
+  });
+
+  // One product's daily rollups over a range of days
+  app.get("/api/admin/analytics/products/:id/daily", requirePermission("analytics:read"), async (req, res) => {
+    const range = dayRangeSchema.safeParse(req.query);
+    if (!range.success) {
+      res.status(400).json({ message: 'Invalid date range' });
+      return;
+    }
+
+    try {
+      const days = await storage.getProductDailyStats({ ...range.data, productId: parseInt(req.params.id) });
+      res.json({ ...range.data, days });
+    } catch (error) {
+      console.error('Product analytics error:', error);
+      res.status(500).json({ message: 'Failed to load product analytics' });
+    }
+  });
+
+  // Sessions followed through the funnel, with segments and the most abandoned products
+  app.get("/api/admin/analytics/funnel", requirePermission("analytics:read"), async (req, res) => {
+    const range = dayRangeSchema.safeParse(req.query);
+    if (!range.success) {
+      res.status(400).json({ message: 'Invalid date range' });
+      return;
+    }
+    const { from, to } = range.data;
+    if (Date.parse(to) - Date.parse(from) >= MAX_FUNNEL_DAYS * DAY_MS) {
+      res.status(400).json({ message: `The funnel covers at most ${MAX_FUNNEL_DAYS} days` });
+      return;
+    }
+
+    try {
+      res.json(await getFunnelReport(from, to));
+    } catch (error) {
+      console.error('Funnel analytics error:', error);
+      res.status(500).json({ message: 'Failed to load funnel analytics' });
+    }
+  });
+}
@@ -0,0 +1,198 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { storage } from "../storage";
+import { startTestServer, type TestClient, type TestServer } from "../test/http";
+import { createTestOrder, createTestProduct, createTestUser, TEST_PASSWORD, uniqueSessionId } from "../test/fixtures";
+import type { Product } from "@shared/schema";
+
+let server: TestServer;
+let product: Product;
+
+beforeAll(async () => {
+  server = await startTestServer();
+  product = await createTestProduct();
+});
+
+afterAll(() => server.close());
+
+// A shopper who has looked at `count` products in the given session
+async function recordViews(sessionId: string, userId: number | null, count: number) {
+  const now = Date.now();
+  const viewed = await Promise.all(Array.from({ length: count }, () => createTestProduct()));
+  await storage.recordAnalyticsEvents(viewed.map((viewedProduct, index) => ({
+    type: "product_view",
+    sessionId,
+    userId,
+    productId: viewedProduct.id,
+    occurredAt: new Date(now - index * 1000)
+  })));
+}
+
+async function signedInClient(): Promise<{ client: TestClient; userId: number }> {
+  const user = await createTestUser();
+  const client = server.client();
+  await client.signIn(user.email, TEST_PASSWORD);
+  return { client, userId: user.id };
+}
+
+const offerShape = {
+  id: expect.any(Number),
+  name: expect.any(String),
+  slug: expect.any(String),
+  price: expect.any(String)
+};
+
+describe("POST /api/funnel/personalized-offers", () => {
+  it("personalizes for a guest from their session's activity", async () => {
+    const sessionId = uniqueSessionId();
+    await recordViews(sessionId, null, 4);
+
+    const { status, body } = await server.client().request("POST", "/api/funnel/personalized-offers", { productId: product.id, sessionId });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      segment: "new_visitor",
+      funnelStep: "product_detail",
+      message: expect.any(String),
+      cta: expect.any(String)
+    });
+    expect(Array.isArray(body.offers)).toBe(true);
+    for (const offer of body.offers) {
+      expect(offer).toMatchObject(offerShape);
+      expect(offer.id).not.toBe(product.id);
+    }
+  });
+
+  it("treats a guest with no session as a new visitor", async () => {
+    const { status, body } = await server.client().request("POST", "/api/funnel/personalized-offers", { productId: product.id });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ segment: "new_visitor", funnelStep: "browsing" });
+  });
+
+  it("personalizes for a signed-in customer from their orders", async () => {
+    const { client, userId } = await signedInClient();
+    await createTestOrder(userId, [await createTestProduct()]);
+
+    const { status, body } = await client.request("POST", "/api/funnel/personalized-offers", { productId: product.id, sessionId: uniqueSessionId() });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ segment: "returning_customer", funnelStep: "post_purchase" });
+  });
+
+  it("ignores a user id sent by the client", async () => {
+    const user = await createTestUser();
+    await createTestOrder(user.id, [await createTestProduct()]);
+
+    const { body } = await server.client().request("POST", "/api/funnel/personalized-offers", { productId: product.id, userId: user.id });
+
+    expect(body.segment).toBe("new_visitor");
+  });
+
+  it("rejects a missing product id or malformed session id", async () => {
+    const client = server.client();
+
+    expect((await client.request("POST", "/api/funnel/personalized-offers", {})).status).toBe(400);
+    expect((await client.request("POST", "/api/funnel/personalized-offers", { productId: product.id, sessionId: "short" })).status).toBe(400);
+  });
+
+  it("stops finding a deleted product once the cached copy expires", async () => {
+    const deleted = await createTestProduct();
+    expect((await server.client().request("POST", "/api/funnel/personalized-offers", { productId: deleted.id })).status).toBe(200);
+    await storage.deleteProduct(deleted.id);
+
+    vi.useFakeTimers({ toFake: ["Date"], now: Date.now() + 6 * 60 * 1000 });
+    try {
+      const { status } = await server.client().request("POST", "/api/funnel/personalized-offers", { productId: deleted.id });
+      expect(status).toBe(404);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("404s for a product that doesn't exist", async () => {
+    const { status, body } = await server.client().request("POST", "/api/funnel/personalized-offers", { productId: 999999 });
+
+    expect(status).toBe(404);
+    expect(body).toEqual({ error: "Product not found" });
+  });
+});
+
+describe("POST /api/funnel/checkout-offers", () => {
+  it("offers a guest items that aren't already in their cart", async () => {
+    const { status, body } = await server.client().request("POST", "/api/funnel/checkout-offers", {
+      cartItems: [{ productId: product.id }],
+      sessionId: uniqueSessionId()
+    });
+
+    expect(status).toBe(200);
+    expect(Array.isArray(body.offers)).toBe(true);
+    for (const offer of body.offers) {
+      expect(offer).toMatchObject({ ...offerShape, message: expect.any(String), cta: expect.any(String) });
+      expect(offer.id).not.toBe(product.id);
+    }
+  });
+
+  it("answers a signed-in customer in the same shape", async () => {
+    const { client } = await signedInClient();
+
+    const { status, body } = await client.request("POST", "/api/funnel/checkout-offers", { cartItems: [{ productId: product.id }] });
+
+    expect(status).toBe(200);
+    expect(Array.isArray(body.offers)).toBe(true);
+  });
+
+  it("rejects an empty or malformed cart", async () => {
+    const client = server.client();
+
+    expect((await client.request("POST", "/api/funnel/checkout-offers", { cartItems: [] })).status).toBe(400);
+    expect((await client.request("POST", "/api/funnel/checkout-offers", { cartItems: [{ productId: "one" }] })).status).toBe(400);
+    expect((await client.request("POST", "/api/funnel/checkout-offers", {})).status).toBe(400);
+  });
+});
+
+describe("POST /api/funnel/user-segment", () => {
+  it("segments a guest by their session's activity", async () => {
+    const sessionId = uniqueSessionId();
+    await recordViews(sessionId, null, 6);
+
+    const { status, body } = await server.client().request("POST", "/api/funnel/user-segment", { sessionId });
+
+    expect(status).toBe(200);
+    expect(body).toEqual({ segment: "feature_focused", name: expect.any(String), funnelStep: "product_detail" });
+  });
+
+  it("sees a guest's abandoned cart", async () => {
+    const sessionId = uniqueSessionId();
+    await storage.recordAnalyticsEvents([{ type: "cart_abandon", sessionId, productId: product.id, occurredAt: new Date() }]);
+
+    const { body } = await server.client().request("POST", "/api/funnel/user-segment", { sessionId });
+
+    expect(body).toMatchObject({ segment: "price_sensitive", funnelStep: "add_to_cart" });
+  });
+
+  it("segments a signed-in customer by their orders and activity in other sessions", async () => {
+    const { client, userId } = await signedInClient();
+    await recordViews(uniqueSessionId(), userId, 6);
+
+    const browsing = await client.request("POST", "/api/funnel/user-segment", { sessionId: uniqueSessionId() });
+    expect(browsing.body).toMatchObject({ segment: "feature_focused", funnelStep: "product_detail" });
+
+    await createTestOrder(userId, [product]);
+    const bought = await client.request("POST", "/api/funnel/user-segment", {});
+    expect(bought.body).toMatchObject({ segment: "returning_customer", funnelStep: "post_purchase" });
+  });
+
+  it("doesn't count a guest's session activity for anyone else", async () => {
+    await recordViews(uniqueSessionId(), null, 6);
+
+    const { body } = await server.client().request("POST", "/api/funnel/user-segment", { sessionId: uniqueSessionId() });
+
+    expect(body).toMatchObject({ segment: "new_visitor", funnelStep: "browsing" });
+  });
+
+  it("rejects a malformed session id", async () => {
+    const { status } = await server.client().request("POST", "/api/funnel/user-segment", { sessionId: 42 });
+
+    expect(status).toBe(400);
+  });
+});
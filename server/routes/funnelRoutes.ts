@@ -9,12 +9,26 @@
  */
 
 import { Express, Request, Response } from 'express';
+import { z } from 'zod';
 import { storage } from '../storage';
-import { customerSegments, determineFunnelStep, determineCustomerSegment, calculateDynamicPrice, getRecommendedProducts } from '../ai/salesOptimization';
+import { buildCustomerProfile } from '../customer-profile';
+import {
+  customerSegments,
+  determineCustomerSegment,
+  determineFunnelStep,
+  FunnelStep,
+  getCheckoutUpsells,
+  getRecommendedProducts
+} from '../ai/salesOptimization';
+import type { Product } from '@shared/schema';
 
 // Cache for minimizing database queries
-const productCache: Record<number, any> = {};
+const productCache: Record<number, {
+  product: Product,
+  timestamp: number
+}> = {};
 const MAX_CACHE_SIZE = 100;
+const CACHE_TTL = 5 * 60 * 1000; // 5 minutes, so price changes and deleted products show up soon
 
 // In-memory rate limiting to prevent abuse on free tier
 const rateLimits: Record<string, {
@@ -70,89 +84,91 @@ function rateLimit(req: Request, res: Response, next: () => void) {
   next();
 }
 
+// What to say alongside offers at each step of the funnel
+const stepMessages: Record<FunnelStep, { message: string; cta: string }> = {
+  [FunnelStep.BROWSING]: { message: 'Popular with riders like you', cta: 'View Details' },
+  [FunnelStep.PRODUCT_DETAIL]: { message: 'Goes well with what you\'re looking at', cta: 'View Details' },
+  [FunnelStep.ADD_TO_CART]: { message: 'Still deciding? These pair well with your picks', cta: 'Add to Cart' },
+  [FunnelStep.CHECKOUT]: { message: 'Add this to complete your order', cta: 'Add to Order' },
+  [FunnelStep.POST_PURCHASE]: { message: 'Upgrades for your last purchase', cta: 'Shop Now' }
+};
+
+// The browser's analytics session, which is all there is to go on for a guest
+const sessionIdSchema = z.string().min(8).max(64).optional();
+
+async function getCachedProduct(productId: number): Promise<Product | undefined> {
+  const cached = productCache[productId];
+  if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+    return cached.product;
+  }
+  delete productCache[productId];
+
+  const product = await storage.getProductById(productId);
+
+  // Cache management - remove oldest item if cache is full
+  if (Object.keys(productCache).length >= MAX_CACHE_SIZE) {
+    const oldestKey = Object.keys(productCache)[0];
+    delete productCache[parseInt(oldestKey)];
+  }
+
+  // Add to cache if found
+  if (product) {
+    productCache[productId] = { product, timestamp: Date.now() };
+  }
+  return product;
+}
+
+// An offer at the catalog price, which is what the cart will charge
+const toOffer = (product: Product) => ({
+  id: product.id,
+  name: product.name,
+  slug: product.slug,
+  description: product.description,
+  image: Array.isArray(product.images) && typeof product.images[0] === 'string' ? product.images[0] : null,
+  price: product.price,
+  compareAtPrice: product.compareAtPrice
+});
+
 /**
  * Gets personalized product recommendations based on user data and viewed product
  */
 export async function getPersonalizedOffers(req: Request, res: Response) {
   try {
-    const { productId, userId, source } = req.body;
-    
-    if (!productId) {
+    const parsed = z.object({
+      productId: z.coerce.number().int().positive(),
+      sessionId: sessionIdSchema
+    }).safeParse(req.body);
+    if (!parsed.success) {
       return res.status(400).json({ error: 'Product ID is required' });
     }
-    
-    // Get the current product
-    let product = productCache[productId];
-    if (!product) {
-      product = await storage.getProductById(productId);
-      
-      // Cache management - remove oldest item if cache is full
-      if (Object.keys(productCache).length >= MAX_CACHE_SIZE) {
-        const oldestKey = Object.keys(productCache)[0];
-        delete productCache[parseInt(oldestKey)];
-      }
-      
-      // Add to cache if found
-      if (product) {
-        productCache[productId] = product;
-      }
-    }
-    
+    const { productId, sessionId } = parsed.data;
+
+    const product = await getCachedProduct(productId);
     if (!product) {
       return res.status(404).json({ error: 'Product not found' });
     }
-    
-    // Determine user segment based on browsing history
-    let segment;
-    if (userId) {
-      const user = await storage.getUser(userId);
-      segment = await determineCustomerSegment(userId, [productId]);
-    } else {
-      // Use default segment for guest users
-      segment = customerSegments[0];
-    }
-    
-    // Get funnel step based on segment and product
-    const funnelStep = determineFunnelStep(segment, product.id, source || 'product_page');
-    
+
+    // Personalize for the signed-in customer only - never a user id supplied by the client
+    const profile = await buildCustomerProfile({ userId: req.session.userId ?? null, sessionId: sessionId ?? null });
+    const segment = await determineCustomerSegment(profile);
+    const funnelStep = determineFunnelStep(profile) ?? FunnelStep.BROWSING;
+
     // Get recommended products - limit to 3 to reduce payload size
-    const recommendedProductIds = await getRecommendedProducts(funnelStep, 3);
+    const recommendedProductIds = await getRecommendedProducts(profile, product.id, 3);
     const offers = [];
-    
-    // Fetch product details for recommendations
     for (const recProductId of recommendedProductIds) {
-      let recProduct = productCache[recProductId];
-      
-      if (!recProduct) {
-        recProduct = await storage.getProductById(recProductId);
-        
-        if (recProduct) {
-          productCache[recProductId] = recProduct;
-        }
-      }
-      
-      if (recProduct) {
-        // Calculate dynamic price based on segment
-        const pricing = calculateDynamicPrice(recProduct, segment);
-        
-        offers.push({
-          id: recProduct.id,
-          name: recProduct.name,
-          description: recProduct.description,
-          image: recProduct.imageUrl,
-          originalPrice: recProduct.price,
-          offerPrice: pricing.dynamicPrice !== recProduct.price ? pricing.dynamicPrice : undefined,
-          discountPercentage: pricing.discountPercentage || 0
-        });
+      const recProduct = await getCachedProduct(recProductId);
+      if (recProduct?.isActive && recProduct.id !== product.id) {
+        offers.push(toOffer(recProduct));
       }
     }
-    
+
     // Return lightweight response
     res.json({
       offers,
-      message: funnelStep.description || "Products you might like",
-      cta: funnelStep.cta || "View Details",
-      segment: segment.id
+      ...stepMessages[funnelStep],
+      segment,
+      funnelStep
     });
   } catch (error) {
     console.error('Error in personalized offers:', error);
@@ -165,64 +181,33 @@ export async function getPersonalizedOffers(req: Request, res: Response) {
  */
 export async function getCheckoutOffers(req: Request, res: Response) {
   try {
-    const { cartItems, userId } = req.body;
-    
-    if (!cartItems || !Array.isArray(cartItems) || cartItems.length === 0) {
+    const parsed = z.object({
+      cartItems: z.array(z.object({ productId: z.number().int().positive() })).min(1).max(100),
+      sessionId: sessionIdSchema
+    }).safeParse(req.body);
+    if (!parsed.success) {
       return res.status(400).json({ error: 'Valid cart items array is required' });
     }
-    
+
     // Get product IDs from cart
-    const productIds = cartItems.map(item => item.productId);
-    
-    // Determine user segment
-    let segment;
-    if (userId) {
-      const user = await storage.getUser(userId);
-      segment = await determineCustomerSegment(userId, productIds);
-    } else {
-      segment = customerSegments[0];
-    }
-    
-    // Get funnel step for checkout
-    const funnelStep = determineFunnelStep(segment, productIds[0], 'checkout');
-    
+    const productIds = parsed.data.cartItems.map(item => item.productId);
+    const profile = await buildCustomerProfile({ userId: req.session.userId ?? null, sessionId: parsed.data.sessionId ?? null });
+
     // Get recommended checkout products - limit to 1-2 to avoid overwhelming
-    const recommendedProductIds = await getRecommendedProducts(funnelStep, 2);
+    const recommendedProductIds = await getCheckoutUpsells(productIds, profile, 2);
     const offers = [];
-    
-    // Create checkout offers
     for (const recProductId of recommendedProductIds) {
       // Skip if product is already in cart
       if (productIds.includes(recProductId)) {
         continue;
       }
-      
-      let recProduct = productCache[recProductId];
-      
-      if (!recProduct) {
-        recProduct = await storage.getProductById(recProductId);
-        
-        if (recProduct) {
-          productCache[recProductId] = recProduct;
-        }
-      }
-      
-      if (recProduct) {
-        // Calculate dynamic price
-        const pricing = calculateDynamicPrice(recProduct, segment);
-        
-        offers.push({
-          id: recProduct.id,
-          name: recProduct.name,
-          description: recProduct.description,
-          message: funnelStep.description || `Add this ${recProduct.name} to complete your purchase!`,
-          image: recProduct.imageUrl,
-          price: pricing.dynamicPrice,
-          cta: funnelStep.cta || "Add to Order"
-        });
+
+      const recProduct = await getCachedProduct(recProductId);
+      if (recProduct?.isActive) {
+        offers.push({ ...toOffer(recProduct), ...stepMessages[FunnelStep.CHECKOUT] });
       }
     }
-    
+
     // Return a lightweight response
     res.json({ offers });
   } catch (error) {
@@ -232,23 +217,23 @@ export async function getCheckoutOffers(req: Request, res: Response) {
 }
 
 /**
- * Determines user segment based on browsing history
+ * Determines user segment from their orders and storefront activity
  */
 export async function getUserSegment(req: Request, res: Response) {
   try {
-    const { userId, browsingHistory } = req.body;
-    
-    if (!browsingHistory || !Array.isArray(browsingHistory)) {
-      return res.status(400).json({ error: 'Valid browsing history array is required' });
+    const parsed = z.object({ sessionId: sessionIdSchema }).safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid session ID' });
     }
-    
-    // Get user segment
-    const segment = await determineCustomerSegment(userId, browsingHistory);
-    
+
+    const profile = await buildCustomerProfile({ userId: req.session.userId ?? null, sessionId: parsed.data.sessionId ?? null });
+    const segment = await determineCustomerSegment(profile);
+
     // Return just the segment info to minimize payload
     res.json({
-      segment: segment.id,
-      name: segment.name
+      segment,
+      name: customerSegments[segment].name,
+      funnelStep: determineFunnelStep(profile) ?? FunnelStep.BROWSING
     });
   } catch (error) {
     console.error('Error determining user segment:', error);
@@ -0,0 +1,160 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { storage } from "../storage";
+import { startTestServer, type TestClient, type TestServer } from "../test/http";
+import { createTestProduct, createTestUser, TEST_ADDRESS, TEST_PASSWORD } from "../test/fixtures";
+import { checkOut, deliverWebhook, fakeProvider as provider } from "../test/checkout";
+import type { Product } from "@shared/schema";
+
+let server: TestServer;
+let admin: TestClient;
+
+beforeAll(async () => {
+  server = await startTestServer();
+  const user = await createTestUser("admin");
+  admin = server.client();
+  await admin.signIn(user.email, TEST_PASSWORD);
+});
+
+afterAll(() => server.close());
+
+const checkout = (client: TestClient, product: Product, quantity: number) =>
+  checkOut(client, [{ productId: product.id, quantity }]);
+
+const deliver = (webhook: { payload: string; signature: string }) => deliverWebhook(server.client(), webhook);
+
+async function paidOrder(product: Product, quantity = 1) {
+  const placed = await checkout(server.client(), product, quantity);
+  expect((await deliver(provider.succeed(placed.paymentIntentId))).status).toBe(200);
+  return (await storage.getOrderById(placed.order.id))!;
+}
+
+describe("checkout → webhook → paid", () => {
+  it("places a pending order with its stock held, and marks it paid when the payment succeeds", async () => {
+    const product = await createTestProduct({ price: "40.00", inventoryCount: 5 });
+
+    const { order, paymentIntentId, quote } = await checkout(server.client(), product, 2);
+
+    expect(order).toMatchObject({ status: "pending", paymentStatus: "pending", total: quote.total });
+    expect(provider.paymentIntents.get(paymentIntentId)?.amount).toBe(Math.round(parseFloat(quote.total) * 100));
+    expect(await storage.getReservedQuantity(product.id)).toBe(2);
+
+    const { status, body } = await deliver(provider.succeed(paymentIntentId));
+
+    expect(status).toBe(200);
+    expect(body.received).toBe(true);
+    const paid = await storage.getOrderById(order.id);
+    expect(paid).toMatchObject({ status: "paid", paymentStatus: "paid" });
+    expect((await storage.getOrderEvents(order.id)).map(event => event.toStatus)).toEqual(["pending", "paid"]);
+    expect(await storage.getReservedQuantity(product.id)).toBe(0);
+    expect((await storage.getProductById(product.id))?.inventoryCount).toBe(3);
+  });
+
+  it("handles a redelivered webhook once", async () => {
+    const product = await createTestProduct({ inventoryCount: 5 });
+    const { order, paymentIntentId } = await checkout(server.client(), product, 1);
+    const webhook = provider.succeed(paymentIntentId);
+
+    await deliver(webhook);
+    const { status, body } = await deliver(webhook);
+
+    expect(status).toBe(200);
+    expect(body.result.message).toMatch(/already processed/);
+    expect((await storage.getOrderEvents(order.id)).map(event => event.toStatus)).toEqual(["pending", "paid"]);
+    expect((await storage.getProductById(product.id))?.inventoryCount).toBe(4);
+  });
+
+  it("leaves the order pending when the card is declined", async () => {
+    const product = await createTestProduct();
+    const { order, paymentIntentId } = await checkout(server.client(), product, 1);
+
+    expect((await deliver(provider.fail(paymentIntentId))).status).toBe(200);
+
+    expect((await storage.getOrderById(order.id))?.status).toBe("pending");
+  });
+
+  it("rejects a webhook that isn't signed by the provider", async () => {
+    const product = await createTestProduct();
+    const { order, paymentIntentId } = await checkout(server.client(), product, 1);
+    const webhook = provider.succeed(paymentIntentId);
+
+    const { status } = await deliver({ payload: webhook.payload, signature: "t=1,v1=0000" });
+
+    expect(status).toBe(400);
+    expect((await storage.getOrderById(order.id))?.status).toBe("pending");
+  });
+
+  it("won't sell more than is in stock", async () => {
+    const product = await createTestProduct({ inventoryCount: 1 });
+
+    const { status, body } = await server.client().request("POST", "/api/create-payment-intent", {
+      cartItems: [{ productId: product.id, quantity: 2 }],
+      shippingAddress: TEST_ADDRESS,
+      billingAddress: TEST_ADDRESS,
+      email: "rider@example.com"
+    });
+
+    expect(status).toBe(409);
+    expect(body).toMatchObject({ productId: product.id, available: 1 });
+  });
+});
+
+describe("POST /api/refunds", () => {
+  it("refunds part of a paid order, then the rest", async () => {
+    const order = await paidOrder(await createTestProduct({ price: "80.00" }));
+    const total = parseFloat(order.total);
+
+    const partial = await admin.request("POST", "/api/refunds", { orderNumber: order.orderNumber, amount: 30 });
+    expect(partial.status).toBe(200);
+    expect(await storage.getOrderById(order.id)).toMatchObject({ status: "partially_refunded" });
+    expect(parseFloat((await storage.getOrderById(order.id))!.refundedAmount)).toBe(30);
+
+    const rest = await admin.request("POST", "/api/refunds", { orderNumber: order.orderNumber, amount: total - 30 });
+    expect(rest.status).toBe(200);
+    const refunded = (await storage.getOrderById(order.id))!;
+    expect(refunded.status).toBe("refunded");
+    expect(parseFloat(refunded.refundedAmount)).toBe(total);
+    expect(provider.paymentIntents.get(order.stripePaymentIntentId!)?.amount_refunded).toBe(Math.round(total * 100));
+  });
+
+  it("won't refund more than is left", async () => {
+    const order = await paidOrder(await createTestProduct({ price: "80.00" }));
+    await admin.request("POST", "/api/refunds", { orderNumber: order.orderNumber, amount: 50 });
+
+    const { status, body } = await admin.request("POST", "/api/refunds", { orderNumber: order.orderNumber, amount: parseFloat(order.total) });
+
+    expect(status).toBe(400);
+    expect(body.message).toBe(`Only $${(parseFloat(order.total) - 50).toFixed(2)} of this order is left to refund`);
+    expect((await storage.getOrderById(order.id))?.status).toBe("partially_refunded");
+  });
+
+  it("rejects an amount that isn't positive", async () => {
+    const order = await paidOrder(await createTestProduct());
+
+    for (const amount of [0, -10]) {
+      const { status } = await admin.request("POST", "/api/refunds", { orderNumber: order.orderNumber, amount });
+      expect(status).toBe(400);
+    }
+    expect((await storage.getOrderById(order.id))?.status).toBe("paid");
+  });
+
+  it("records a refund made in the provider's dashboard from its webhook", async () => {
+    const order = await paidOrder(await createTestProduct({ price: "60.00" }));
+    await provider.createRefund(order.stripePaymentIntentId!, 1000);
+
+    expect((await deliver(provider.chargeRefunded(order.stripePaymentIntentId!))).status).toBe(200);
+
+    const updated = (await storage.getOrderById(order.id))!;
+    expect(updated.status).toBe("partially_refunded");
+    expect(parseFloat(updated.refundedAmount)).toBe(10);
+  });
+
+  it("is only for staff who can refund", async () => {
+    const order = await paidOrder(await createTestProduct());
+    const customer = await createTestUser();
+    const client = server.client();
+    await client.signIn(customer.email, TEST_PASSWORD);
+
+    expect((await client.request("POST", "/api/refunds", { orderNumber: order.orderNumber })).status).toBe(403);
+    expect((await server.client().request("POST", "/api/refunds", { orderNumber: order.orderNumber })).status).toBe(401);
+  });
+});
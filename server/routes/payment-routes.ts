@@ -1,147 +1,109 @@
 import type { Express } from "express";
 import { z } from "zod";
-import stripe from '../stripe-config';
-import { configureAutomaticPayouts } from '../stripe-config';
-import { 
-  createCheckoutPaymentIntent, 
-  processSuccessfulPayment, 
-  createRefund, 
-  parseWebhookEvent,
-  handlePaymentWebhookEvent
-} from '../payment-processing';
-import { storage } from '../storage';
+import { paymentService, PaymentUnavailableError } from '../payments/payment-service';
+import { WebhookSignatureError } from '../payments/provider';
+import { InsufficientStockError, storage } from '../storage';
+import { requirePermission } from '../permissions';
+import { recordAudit } from '../audit';
+import { refundableBalance, refundStatusFor } from '../orders';
+import { PricingError, PromotionError } from '../pricing';
+import { addressSchema, canTransitionOrder } from '@shared/schema';
 
 // Register payment-related routes
 export function registerPaymentRoutes(app: Express) {
   // Create payment intent for checkout
   app.post("/api/create-payment-intent", async (req, res) => {
     try {
-      const { cartItems, shippingAddress, billingAddress, email } = z.object({
+      // Any price the client sends is ignored; the quote is priced from the catalog
+      const { cartItems, shippingAddress, billingAddress, email, promotionCodes, analyticsSessionId } = z.object({
         cartItems: z.array(z.object({
           productId: z.number(),
-          quantity: z.number().positive(),
-          price: z.string(),
-          name: z.string()
-        })),
-        shippingAddress: z.object({
-          name: z.string(),
-          line1: z.string(),
-          line2: z.string().optional(),
-          city: z.string(),
-          state: z.string(),
-          postalCode: z.string(),
-          country: z.string()
-        }),
-        billingAddress: z.object({
-          name: z.string(),
-          line1: z.string(),
-          line2: z.string().optional(),
-          city: z.string(),
-          state: z.string(),
-          postalCode: z.string(),
-          country: z.string()
-        }),
-        email: z.string().email()
+          quantity: z.number().int().positive()
+        })).min(1),
+        shippingAddress: addressSchema,
+        billingAddress: addressSchema,
+        email: z.string().email(),
+        promotionCodes: z.array(z.string().trim().min(1).max(32)).max(10).default([]),
+        analyticsSessionId: z.string().min(8).max(64).optional() // ties the order to the funnel reports
       }).parse(req.body);
 
-      // Calculate order total
-      const subtotal = cartItems.reduce((sum, item) => {
-        return sum + (parseFloat(item.price) * item.quantity);
-      }, 0);
-      
-      // Add tax (e.g., 8%)
-      const taxRate = 0.08;
-      const tax = subtotal * taxRate;
-      
-      // Calculate shipping (simplified example)
-      const shippingCost = subtotal > 200 ? 0 : 15;
-      
-      // Total
-      const total = subtotal + tax + shippingCost;
-
-      // Create a new order
-      const order = await storage.createOrder({
-        userId: null, // Guest checkout
-        shippingAddress,
-        billingAddress,
-        shippingMethod: shippingCost === 0 ? 'Free Shipping' : 'Standard Shipping',
-        shippingCost: shippingCost.toString(),
-        subtotal: subtotal.toString(),
-        tax: tax.toString(),
-        total: total.toString(),
-        paymentMethod: 'Stripe',
-        note: ''
-      });
-      
-      // Add order items
-      for (const item of cartItems) {
-        await storage.createOrderItem({
-          orderId: order.id,
-          productId: item.productId,
-          quantity: item.quantity,
-          price: item.price,
-          subtotal: (parseFloat(item.price) * item.quantity).toString()
-        });
-        
-        // Update inventory
-        await storage.updateProductInventory(item.productId, item.quantity);
-      }
-
-      // Create payment intent using our payment processing module
-      const paymentData = await createCheckoutPaymentIntent({
-        items: cartItems,
+      const { order, quote, clientSecret } = await paymentService.checkout({
+        cartItems,
         shippingAddress,
         billingAddress,
         email,
-        orderId: order.id,
-        orderNumber: order.orderNumber,
-        subtotal,
-        tax,
-        shipping: shippingCost,
-        total
+        userId: req.session.userId ?? null,
+        promotionCodes,
+        analyticsSessionId
       });
 
+      // Lets a guest open the confirmation page for the order they just placed
+      req.session.orderIds = [...(req.session.orderIds ?? []), order.id];
+
       res.json({
-        clientSecret: paymentData.clientSecret,
+        clientSecret,
         orderId: order.id,
-        orderNumber: order.orderNumber
+        orderNumber: order.orderNumber,
+        quote
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid checkout details' });
+        return;
+      }
+      if (error instanceof PromotionError) {
+        res.status(400).json({ message: error.message, code: error.code });
+        return;
+      }
+      if (error instanceof PricingError) {
+        res.status(400).json({ message: error.message, productId: error.productId });
+        return;
+      }
+      if (error instanceof InsufficientStockError) {
+        res.status(409).json({ message: error.message, productId: error.productId, available: error.available });
+        return;
+      }
+      if (error instanceof PaymentUnavailableError) {
+        res.status(503).json({ message: error.message });
+        return;
+      }
       console.error('Payment intent creation error:', error);
       res.status(500).json({ message: 'Failed to process payment' });
     }
   });
 
-  // Handle Stripe webhook events
+  // Payment provider webhooks: the only way an order becomes paid
   app.post("/api/stripe-webhook", async (req, res) => {
-    if (!stripe) {
-      return res.status(503).json({ message: 'Payment service unavailable' });
+    if (!paymentService.isAvailable) {
+      res.status(503).json({ message: 'Payment service unavailable' });
+      return;
     }
-    
+
+    // Signatures are over the exact bytes sent, so the parsed body won't do
+    if (!Buffer.isBuffer(req.rawBody)) {
+      res.status(400).json({ message: 'Webhook body missing' });
+      return;
+    }
+
     try {
-      // Get the raw body and signature header
-      const payload = req.body;
-      const sig = req.headers['stripe-signature'] as string;
-      
-      // Process and verify the webhook event
-      const event = parseWebhookEvent(payload, sig, process.env.STRIPE_WEBHOOK_SECRET);
-      
-      // Handle the event based on type
-      const result = await handlePaymentWebhookEvent(event);
-      
+      const result = await paymentService.handleWebhook(req.rawBody, req.headers['stripe-signature'] as string | undefined);
       res.json({ received: true, result });
     } catch (error) {
+      if (error instanceof WebhookSignatureError) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
       console.error('Stripe webhook error:', error);
       res.status(400).json({ message: 'Webhook error' });
     }
   });
 
   // Create refund for an order
-  app.post("/api/refunds", async (req, res) => {
+  app.post("/api/refunds", requirePermission("refunds:create"), async (req, res) => {
     try {
       const { orderNumber, amount, reason } = z.object({
         orderNumber: z.string(),
-        amount: z.number().optional(),
+        amount: z.number().positive().optional(),
         reason: z.string().optional()
       }).parse(req.body);
       
@@ -156,21 +118,47 @@ export function registerPaymentRoutes(app: Express) {
         return res.status(400).json({ message: 'No payment information found for this order' });
       }
       
+      const balance = refundableBalance(order);
+      if (amount !== undefined && amount > balance) {
+        return res.status(400).json({ message: `Only $${balance.toFixed(2)} of this order is left to refund` });
+      }
+      
+      // Check before any money moves that the order can be refunded from its current status
+      if (!canTransitionOrder(order.status, refundStatusFor(order, amount))) {
+        return res.status(409).json({ message: `A ${order.status} order cannot be refunded` });
+      }
+      
       // Process refund
-      const refund = await createRefund(order.stripePaymentIntentId, amount);
+      const refund = await paymentService.refundOrder(order, amount, {
+        userId: req.currentUser!.id,
+        note: reason || null
+      });
+      await recordAudit(req, {
+        action: 'refund.create',
+        resourceType: 'order',
+        resourceId: order.id,
+        details: { orderNumber, amount, reason, refundId: refund.refundId }
+      });
       
       res.json(refund);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid refund details' });
+      }
+      if (error instanceof PaymentUnavailableError) {
+        return res.status(503).json({ message: error.message });
+      }
       console.error('Refund error:', error);
       res.status(500).json({ message: 'Failed to process refund' });
     }
   });
 
   // Setup automatic payouts to Wells Fargo card
-  app.post("/api/setup-automatic-payouts", async (req, res) => {
+  app.post("/api/setup-automatic-payouts", requirePermission("payouts:manage"), async (req, res) => {
     try {
       // Configure automatic payouts to your Wells Fargo account
-      const success = await configureAutomaticPayouts();
+      const success = await paymentService.configurePayouts();
+      await recordAudit(req, { action: 'payouts.configure', resourceType: 'payouts', details: { success } });
       
       if (success) {
         res.json({ 
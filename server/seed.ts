@@ -0,0 +1,28 @@
+/**
+ * Loads the sample catalog into the Postgres database at DATABASE_URL.
+ * Run after `npm run db:migrate`; does nothing if the catalog already has products.
+ */
+
+import { createDatabase } from "./db";
+import { DatabaseStorage } from "./storage";
+import { seedSampleData } from "./data/sample-data";
+
+async function seed() {
+  const storage = new DatabaseStorage(createDatabase());
+
+  const { total } = await storage.getProducts({ limit: 1, offset: 0 });
+  if (total > 0) {
+    console.log(`Database already contains ${total} products, skipping seed`);
+    return;
+  }
+
+  await seedSampleData(storage);
+  console.log('Sample catalog loaded');
+}
+
+seed()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Seed failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,263 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { DatabaseStorage, InsufficientStockError, InvalidOrderTransitionError, MemStorage, type IStorage } from "./storage";
+import { seedSampleData } from "./data/sample-data";
+import { createTestDatabase } from "./test/pg-mem";
+import { TEST_ADDRESS } from "./test/fixtures";
+
+let memory: IStorage;
+let database: IStorage;
+
+beforeAll(async () => {
+  database = new DatabaseStorage(await createTestDatabase());
+  await seedSampleData(database);
+
+  // MemStorage loads the same sample data by itself, without saying when it's done
+  memory = new MemStorage();
+  const { total } = await database.getArticles();
+  await vi.waitFor(async () => expect((await memory.getArticles()).total).toBe(total));
+});
+
+// Timestamps are when each driver happened to write the row, so only their presence is compared.
+// Postgres writes decimals out to their scale ("4.50") where MemStorage keeps what it was given ("4.5")
+function comparable(value: unknown): unknown {
+  if (value instanceof Date) return "<date>";
+  if (typeof value === "string" && /^-?\d+(\.\d+)?$/.test(value)) return parseFloat(value);
+  if (Array.isArray(value)) return value.map(comparable);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, comparable(entry)]));
+  }
+  return value;
+}
+
+// Runs the same steps against both drivers and expects the same answer from each
+async function expectParity<T>(steps: (storage: IStorage) => Promise<T>): Promise<T> {
+  const fromMemory = await steps(memory);
+  const fromDatabase = await steps(database);
+  expect(comparable(fromDatabase)).toEqual(comparable(fromMemory));
+  return fromDatabase;
+}
+
+// Both drivers number rows from 1 in the order they're made, so ids line up as long as every step runs on both
+async function createOrder(storage: IStorage, productId: number, quantity: number) {
+  const product = (await storage.getProductById(productId))!;
+  const subtotal = (parseFloat(product.price) * quantity).toFixed(2);
+  const order = await storage.createOrder({
+    userId: null,
+    email: "parity@example.com",
+    shippingAddress: TEST_ADDRESS,
+    billingAddress: TEST_ADDRESS,
+    shippingMethod: "standard",
+    shippingCost: "10.00",
+    subtotal,
+    tax: "0",
+    total: (parseFloat(subtotal) + 10).toFixed(2),
+    paymentMethod: "card"
+  });
+  await storage.createOrderItem({ orderId: order.id, productId, quantity, price: product.price, subtotal });
+  return order;
+}
+
+const withoutOrderNumber = <T extends { orderNumber: string }>({ orderNumber, ...rest }: T) => rest;
+
+describe("MemStorage and DatabaseStorage", () => {
+  describe("the sample catalog", () => {
+    it("lists the same categories, brands and vehicles", async () => {
+      await expectParity(async storage => ({
+        categories: await storage.getCategories(),
+        brands: await storage.getBrands(),
+        makes: await storage.getVehicleMakes(),
+        models: await storage.getVehicleModelsByMake("Polaris"),
+        years: await storage.getVehicleYearsByMakeAndModel("Polaris", "RZR XP 1000")
+      }));
+    });
+
+    it.each([
+      ["everything", {}],
+      ["a page", { limit: 3, offset: 2 }],
+      ["featured products", { isFeatured: true }],
+      ["a search", { searchTerm: "light" }],
+      ["a price range", { minPrice: 100, maxPrice: 500 }],
+      ["in stock, cheapest first", { inStock: true, sortBy: "price", sortOrder: "asc" as const }]
+    ])("lists the same products for %s", async (_label, options) => {
+      const { total } = await expectParity(storage => storage.getProducts(options));
+      expect(total).toBeGreaterThan(0);
+    });
+
+    it("looks products up the same way", async () => {
+      const { products: [product, ...others] } = await database.getProducts({ limit: 4 });
+
+      await expectParity(async storage => ({
+        byId: await storage.getProductById(product.id),
+        bySlug: await storage.getProductBySlug(product.slug),
+        bySku: await storage.getProductBySku(product.sku),
+        fitments: await storage.getProductFitments(product.id),
+        severalFitments: await storage.getFitmentsForProducts([...others, product].map(({ id }) => id)),
+        noFitments: await storage.getFitmentsForProducts([]),
+        missing: await storage.getProductById(999999)
+      }));
+    });
+  });
+
+  describe("users", () => {
+    it("creates and finds them the same way", async () => {
+      const user = await expectParity(async storage => {
+        const created = await storage.createUser({ username: "parity", email: "parity@example.com", password: "not-a-real-hash", fullName: "Parity Check" });
+        return { ...created, password: undefined };
+      });
+
+      await expectParity(async storage => ({
+        byEmail: (await storage.getUserByEmail("parity@example.com"))?.id,
+        byUsername: (await storage.getUserByUsername("parity"))?.id,
+        updated: (await storage.updateUser(user.id, { role: "admin" }))?.role
+      }));
+    });
+  });
+
+  describe("password resets", () => {
+    it("uses a token once, and only before it expires", async () => {
+      const uses = await expectParity(async storage => {
+        const user = await storage.createUser({ username: "parity-reset", email: "parity-reset@example.com", password: "not-a-real-hash", fullName: null });
+        await storage.createPasswordResetToken({ userId: user.id, tokenHash: "live-token", expiresAt: new Date(Date.now() + 60_000) });
+        await storage.createPasswordResetToken({ userId: user.id, tokenHash: "expired-token", expiresAt: new Date(Date.now() - 1000) });
+        return {
+          first: (await storage.consumePasswordResetToken("live-token"))?.userId,
+          again: await storage.consumePasswordResetToken("live-token"),
+          expired: await storage.consumePasswordResetToken("expired-token"),
+          missing: await storage.consumePasswordResetToken("no-such-token")
+        };
+      });
+
+      expect(uses).toEqual({ first: expect.any(Number), again: undefined, expired: undefined, missing: undefined });
+    });
+  });
+
+  describe("orders", () => {
+    it("moves an order through its statuses and keeps the same history", async () => {
+      const { products: [product] } = await database.getProducts({ limit: 1, inStock: true });
+
+      await expectParity(async storage => {
+        const order = await createOrder(storage, product.id, 2);
+        await storage.updateOrderStatus(order.id, "paid");
+        await storage.updateOrderStatus(order.id, "processing", { note: "Picked" });
+        await storage.updateOrderShipment(order.id, { carrier: "UPS", trackingNumber: "1Z999" });
+        const refundedAfterFirst = (await storage.recordOrderRefund(order.id, "25.50"))?.refundedAmount;
+        await storage.recordOrderRefund(order.id, "4.50");
+        return {
+          order: withoutOrderNumber((await storage.getOrderById(order.id))!),
+          refundedAfterFirst,
+          items: await storage.getOrderItemsByOrderId(order.id),
+          events: (await storage.getOrderEvents(order.id)).map(({ fromStatus, toStatus, note }) => ({ fromStatus, toStatus, note }))
+        };
+      });
+    });
+
+    it("refuses the same status changes", async () => {
+      const { products: [product] } = await database.getProducts({ limit: 1, inStock: true });
+
+      for (const storage of [memory, database]) {
+        const order = await createOrder(storage, product.id, 1);
+        await expect(storage.updateOrderStatus(order.id, "shipped")).rejects.toBeInstanceOf(InvalidOrderTransitionError);
+        expect((await storage.getOrderById(order.id))?.status).toBe("pending");
+      }
+    });
+
+    it("finds orders by status the same way", async () => {
+      await expectParity(async storage => {
+        const { orders, total } = await storage.findOrders({ status: "processing" });
+        return { ids: orders.map(order => order.id), total };
+      });
+    });
+  });
+
+  describe("inventory reservations", () => {
+    it("holds, commits and releases stock the same way", async () => {
+      const { products: [product] } = await database.getProducts({ limit: 1, inStock: true });
+      const [location] = await database.getStockLocations({ sellable: true });
+      const expiresAt = new Date(Date.now() + 15 * 60 * 1000);
+
+      await expectParity(async storage => {
+        const kept = await createOrder(storage, product.id, 1);
+        const abandoned = await createOrder(storage, product.id, 1);
+        const before = await storage.getReservedQuantity(product.id);
+        await storage.reserveInventory(kept.id, [{ productId: product.id, locationId: location.id, quantity: 1 }], expiresAt);
+        await storage.reserveInventory(abandoned.id, [{ productId: product.id, locationId: location.id, quantity: 1 }], expiresAt);
+        const held = await storage.getReservedQuantity(product.id, location.id);
+        const committed = await storage.commitInventoryReservations(kept.id);
+        const released = await storage.releaseInventoryReservations(abandoned.id);
+        return {
+          held: held - before,
+          committed: committed.map(({ productId, quantity, status }) => ({ productId, quantity, status })),
+          released,
+          stockAfter: (await storage.getProductById(product.id))?.inventoryCount
+        };
+      });
+    });
+
+    it("refuses to hold more than is on hand", async () => {
+      const { products: [product] } = await database.getProducts({ limit: 1, inStock: true });
+      const [location] = await database.getStockLocations({ sellable: true });
+
+      for (const storage of [memory, database]) {
+        const order = await createOrder(storage, product.id, 1);
+        await expect(storage.reserveInventory(order.id, [{ productId: product.id, locationId: location.id, quantity: 100000 }], new Date(Date.now() + 60_000)))
+          .rejects.toBeInstanceOf(InsufficientStockError);
+        expect(await storage.getInventoryReservations(order.id)).toEqual([]);
+      }
+    });
+  });
+
+  describe("promotions", () => {
+    it("stores codes uppercase and matches them in any case", async () => {
+      await expectParity(async storage => {
+        const promotion = await storage.createPromotion({
+          code: "PARITY10",
+          description: "10% off",
+          type: "percent",
+          value: "10",
+          productIds: [],
+          categoryIds: [1],
+          brandIds: [],
+          usageLimit: null,
+          perCustomerLimit: null,
+          startsAt: null,
+          endsAt: null
+        });
+        return { promotion, found: (await storage.getPromotionByCode("parity10"))?.id };
+      });
+    });
+  });
+
+  describe("saving a product with its fitment", () => {
+    it("replaces the fitment the same way", async () => {
+      const [first, second] = await database.getVehicleModels();
+
+      await expectParity(async storage => {
+        const product = await storage.saveProductWithFitments(undefined, {
+          sku: "PARITY-1",
+          name: "Parity bumper",
+          slug: "parity-bumper",
+          description: "Fits both drivers",
+          price: "199.99",
+          inventoryCount: 4
+        }, [{ vehicleModelId: first.id, yearFrom: first.year, yearTo: first.year }]);
+        await storage.saveProductWithFitments(product!.id, { ...product!, price: "189.99" }, [{ vehicleModelId: second.id, yearFrom: second.year, yearTo: second.year }]);
+        return {
+          product: await storage.getProductById(product!.id),
+          fitments: (await storage.getProductFitments(product!.id)).map(fitment => fitment.vehicleModelId)
+        };
+      });
+    });
+
+    it("leaves nothing behind in the database when the fitment can't be saved", async () => {
+      await expect(database.saveProductWithFitments(undefined, {
+        sku: "PARITY-2",
+        name: "Orphan bumper",
+        slug: "orphan-bumper",
+        description: "Fits a vehicle that doesn't exist",
+        price: "99.99"
+      }, [{ vehicleModelId: 999999, yearFrom: 2023, yearTo: 2023 }])).rejects.toThrow();
+
+      expect(await database.getProductBySku("PARITY-2")).toBeUndefined();
+    });
+  });
+});
@@ -1,18 +1,208 @@
 import { 
   User, InsertUser, users,
+  PasswordResetToken, InsertPasswordResetToken, passwordResetTokens,
+  AuditLog, InsertAuditLog, auditLogs,
   Category, InsertCategory, categories,
   Brand, InsertBrand, brands,
   VehicleModel, InsertVehicleModel, vehicleModels,
   Product, InsertProduct, products,
   Review, InsertReview, reviews,
-  Order, InsertOrder, orders,
+  Order, InsertOrder, orders, OrderStatus, canTransitionOrder,
   OrderItem, InsertOrderItem, orderItems,
+  OrderEvent, orderEvents,
+  InventoryReservation, inventoryReservations,
+  ProcessedWebhookEvent, processedWebhookEvents,
+  ReturnRequest, InsertReturnRequest, returnRequests, ReturnStatus, canTransitionReturn,
+  ReturnItem, InsertReturnItem, returnItems,
+  Promotion, InsertPromotion, promotions,
+  PromotionRedemption, promotionRedemptions,
+  Bundle, InsertBundle, BundleSource, bundles,
+  Supplier, InsertSupplier, suppliers,
+  SupplierProduct, InsertSupplierProduct, supplierProducts,
+  StockLocation, InsertStockLocation, stockLocations,
+  StockLevel, stockLevels,
+  PurchaseOrder, InsertPurchaseOrder, purchaseOrders, PurchaseOrderStatus, canTransitionPurchaseOrder,
+  FeedImportStatus,
+  PurchaseOrderItem, InsertPurchaseOrderItem, purchaseOrderItems,
+  SupplierFeedProfile, InsertSupplierFeedProfile, supplierFeedProfiles,
+  FeedImport, InsertFeedImport, feedImports,
+  FeedImportChange, InsertFeedImportChange, feedImportChanges,
+  AnalyticsEvent, InsertAnalyticsEvent, AnalyticsEventType, analyticsEvents, TrafficSource,
+  AnalyticsProductDaily, analyticsProductDaily,
   Article, InsertArticle, articles,
   ContactMessage, InsertContactMessage, contactMessages,
   Subscriber, InsertSubscriber, subscribers,
   ChatConversation, InsertChatConversation, chatConversations,
-  ChatMessage, InsertChatMessage, chatMessages
+  ChatMessage, InsertChatMessage, chatMessages,
+  ProductFitment, InsertProductFitment, ProductFitmentDetail, productFitments,
+  UserVehicle, InsertUserVehicle, userVehicles
 } from "@shared/schema";
+import { and, arrayContained, asc, avg, count, desc, eq, exists, gt, gte, ilike, inArray, isNull, lt, lte, or, sql, type SQL } from "drizzle-orm";
+import { alias, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { createDatabase, type Database } from "./db";
+import { seedSampleData } from "./data/sample-data";
+import { hashPassword } from "./auth";
+
+// Vehicle a product listing can be narrowed to
+export interface VehicleFitmentFilter {
+  make: string;
+  model: string;
+  year: number;
+  variant?: string;
+}
+
+// Filters, sorting and pagination for product listings
+export interface ProductQueryOptions {
+  limit?: number;
+  offset?: number;
+  categoryId?: number;
+  brandId?: number;
+  isFeatured?: boolean;
+  isActive?: boolean;
+  searchTerm?: string;
+  fitment?: VehicleFitmentFilter;
+  minPrice?: number;
+  maxPrice?: number;
+  inStock?: boolean;
+  onSale?: boolean;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+}
+
+// Filters and pagination for the admin order list
+export interface OrderQueryOptions {
+  limit?: number;
+  offset?: number;
+  status?: OrderStatus;
+  paymentStatus?: string;
+  createdFrom?: Date;
+  createdBefore?: Date;
+  searchTerm?: string;
+}
+
+// Who changed an order's status and why, recorded in its history
+export interface OrderStatusChange {
+  userId?: number | null;
+  note?: string | null;
+}
+
+// Carrier and tracking number, set when an order ships
+export interface OrderShipment {
+  carrier: string | null;
+  trackingNumber: string | null;
+}
+
+// A quantity of one product, for reserving and returning stock
+export interface StockLine {
+  productId: number;
+  quantity: number;
+}
+
+// Stock to reserve at one location
+export interface StockAllocation extends StockLine {
+  locationId: number;
+}
+
+// What the warehouse set up for stock that has nowhere else to go is called
+const DEFAULT_WAREHOUSE_NAME = "Main Warehouse";
+
+// Thrown when a reservation asks for more than is on hand less what's already reserved
+export class InsufficientStockError extends Error {
+  constructor(public productId: number, public requested: number, public available: number) {
+    super(`Only ${available} of product ${productId} available`);
+    this.name = "InsufficientStockError";
+  }
+}
+
+// Thrown when a status change isn't allowed by orderStatusTransitions
+export class InvalidOrderTransitionError extends Error {
+  constructor(public from: OrderStatus, public to: OrderStatus) {
+    super(`Cannot change order status from ${from} to ${to}`);
+    this.name = "InvalidOrderTransitionError";
+  }
+}
+
+// Thrown when a status change isn't allowed by returnStatusTransitions
+export class InvalidReturnTransitionError extends Error {
+  constructor(public from: ReturnStatus, public to: ReturnStatus) {
+    super(`Cannot change return status from ${from} to ${to}`);
+    this.name = "InvalidReturnTransitionError";
+  }
+}
+
+// Thrown when a status change isn't allowed by purchaseOrderStatusTransitions
+export class InvalidPurchaseOrderTransitionError extends Error {
+  constructor(public from: PurchaseOrderStatus, public to: PurchaseOrderStatus) {
+    super(`Cannot change purchase order status from ${from} to ${to}`);
+    this.name = "InvalidPurchaseOrderTransitionError";
+  }
+}
+
+// Who is using a promotion code; guests are known only by their email
+export interface PromotionCustomer {
+  userId: number | null;
+  email: string;
+}
+
+// Times a promotion has been used, overall and by one customer
+export interface PromotionUsage {
+  total: number;
+  customer: number;
+}
+
+// A promotion an order uses and what it took off
+export interface PromotionRedemptionLine {
+  promotionId: number;
+  amount: string;
+}
+
+// A product's analytics over some period; see analyticsProductDaily for what each counts
+export type ProductActivity = Pick<
+  AnalyticsProductDaily,
+  "productId" | "views" | "addToCarts" | "cartAbandons" | "orders" | "unitsSold" | "revenue"
+>;
+
+// Sessions that share a start day, segment and furthest funnel step; see summarizeSessionFunnel
+export interface SessionFunnelGroup {
+  day: string; // the UTC day the sessions started
+  mobile: boolean;
+  source: TrafficSource;
+  returning: boolean;
+  step: number; // the furthest step reached, an index into funnelSteps
+  sessions: number;
+  orders: number;
+  revenue: string; // order totals
+}
+
+// The funnel step a session has reached once it has an event of each type
+const eventFunnelStep: Record<AnalyticsEventType, number> = {
+  session_start: 0,
+  product_view: 1,
+  add_to_cart: 2,
+  cart_abandon: 2,
+  checkout_start: 3,
+  purchase: 4
+};
+
+// Thrown when redeeming a promotion would take it past one of its usage limits
+export class PromotionLimitError extends Error {
+  constructor(public code: string) {
+    super(`Code ${code} has reached its usage limit`);
+    this.name = "PromotionLimitError";
+  }
+}
+
+// What staff settle on a return as it moves along
+export type ReturnRequestUpdate = Partial<Pick<ReturnRequest, "staffNote" | "restockingFee" | "refundAmount" | "refundId">>;
+export type ReturnItemAmounts = Pick<ReturnItem, "restockingFeePercent" | "restockingFee" | "refundAmount">;
+
+// What's recorded as a purchase order is sent, and as the supplier ships its lines
+export type PurchaseOrderUpdate = Partial<Pick<PurchaseOrder, "sentVia" | "supplierReference" | "attempts" | "lastError" | "sentAt">>;
+export type PurchaseOrderItemUpdate = Partial<Pick<PurchaseOrderItem, "status" | "carrier" | "trackingNumber">>;
+
+// How a feed import was reviewed, and what became of each change when it was applied
+export type FeedImportReview = { status: "applied" | "discarded"; reviewedBy: number | null };
+export type FeedImportChangeUpdate = Partial<Pick<FeedImportChange, "status" | "note" | "productId">>;
 
 // Storage interface
 export interface IStorage {
@@ -22,44 +212,78 @@ export interface IStorage {
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, userData: Partial<User>): Promise<User | undefined>;
+  updateUserPassword(id: number, password: string): Promise<User | undefined>;
   updateStripeCustomerId(userId: number, stripeCustomerId: string): Promise<User>;
 
+  // Password Resets
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  // Marks an unused, unexpired token used in one step; undefined if it's not that token any more
+  consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
+
+  // Audit Log
+  createAuditLog(entry: InsertAuditLog): Promise<AuditLog>;
+  getAuditLogs(options?: {
+    limit?: number;
+    offset?: number;
+    userId?: number;
+    action?: string;
+  }): Promise<{ entries: AuditLog[]; total: number }>;
+
   // Categories
   getCategories(): Promise<Category[]>;
   getCategoryBySlug(slug: string): Promise<Category | undefined>;
   getCategoryById(id: number): Promise<Category | undefined>;
   createCategory(category: InsertCategory): Promise<Category>;
   updateCategory(id: number, categoryData: Partial<Category>): Promise<Category | undefined>;
+  deleteCategory(id: number): Promise<boolean>;
 
   // Brands
   getBrands(): Promise<Brand[]>;
   getBrandBySlug(slug: string): Promise<Brand | undefined>;
   getBrandById(id: number): Promise<Brand | undefined>;
   createBrand(brand: InsertBrand): Promise<Brand>;
+  updateBrand(id: number, brandData: Partial<Brand>): Promise<Brand | undefined>;
+  deleteBrand(id: number): Promise<boolean>;
 
   // Vehicle Models
   getVehicleModels(): Promise<VehicleModel[]>;
+  getVehicleModelById(id: number): Promise<VehicleModel | undefined>;
   getVehicleMakes(): Promise<string[]>;
   getVehicleModelsByMake(make: string): Promise<string[]>;
   getVehicleYearsByMakeAndModel(make: string, model: string): Promise<number[]>;
   createVehicleModel(vehicleModel: InsertVehicleModel): Promise<VehicleModel>;
 
   // Products
-  getProducts(options?: {
-    limit?: number;
-    offset?: number;
-    categoryId?: number;
-    brandId?: number;
-    isFeatured?: boolean;
-    searchTerm?: string;
-    sortBy?: string;
-    sortOrder?: 'asc' | 'desc';
-  }): Promise<{ products: Product[]; total: number }>;
+  getProducts(options?: ProductQueryOptions): Promise<{ products: Product[]; total: number }>;
   getProductBySlug(slug: string): Promise<Product | undefined>;
   getProductById(id: number): Promise<Product | undefined>;
+  getProductBySku(sku: string): Promise<Product | undefined>;
+  // A new product's inventoryCount, or a change to it, is stocked at the default warehouse
   createProduct(product: InsertProduct): Promise<Product>;
   updateProduct(id: number, productData: Partial<Product>): Promise<Product | undefined>;
-  updateProductInventory(id: number, quantity: number): Promise<boolean>;
+  // Returned stock goes back to the default warehouse
+  restockProduct(id: number, quantity: number): Promise<boolean>;
+  deleteProduct(id: number): Promise<boolean>;
+
+  // Product Fitment
+  getProductFitments(productId: number): Promise<ProductFitmentDetail[]>;
+  // Several products' fitment at once, ordered by product
+  getFitmentsForProducts(productIds: number[]): Promise<ProductFitmentDetail[]>;
+  createProductFitment(fitment: InsertProductFitment): Promise<ProductFitment>;
+  deleteProductFitment(id: number): Promise<boolean>;
+  // Creates the product, or updates the one with `id`, and replaces its fitment when given; all or nothing
+  saveProductWithFitments(
+    id: number | undefined,
+    product: InsertProduct,
+    fitments?: Omit<InsertProductFitment, "productId">[]
+  ): Promise<Product | undefined>;
+
+  // Garage
+  getUserVehicles(userId: number): Promise<UserVehicle[]>;
+  getUserVehicleById(id: number): Promise<UserVehicle | undefined>;
+  createUserVehicle(vehicle: InsertUserVehicle): Promise<UserVehicle>;
+  updateUserVehicle(id: number, vehicleData: Partial<UserVehicle>): Promise<UserVehicle | undefined>;
+  deleteUserVehicle(id: number): Promise<boolean>;
 
   // Reviews
   getReviewsByProductId(productId: number): Promise<Review[]>;
@@ -69,14 +293,137 @@ export interface IStorage {
   getOrders(): Promise<Order[]>;
   getOrderById(id: number): Promise<Order | undefined>;
   getOrderByNumber(orderNumber: string): Promise<Order | undefined>;
+  getOrderByPaymentIntentId(paymentIntentId: string): Promise<Order | undefined>;
   getOrdersByUserId(userId: number): Promise<Order[]>;
+  findOrders(options?: OrderQueryOptions): Promise<{ orders: Order[]; total: number }>;
   createOrder(orderData: InsertOrder): Promise<Order>;
-  updateOrderStatus(id: number, status: string): Promise<Order | undefined>;
+  updateOrderStatus(id: number, status: OrderStatus, change?: OrderStatusChange): Promise<Order | undefined>;
+  getOrderEvents(orderId: number): Promise<OrderEvent[]>;
   updatePaymentStatus(id: number, paymentStatus: string, stripePaymentIntentId?: string): Promise<Order | undefined>;
+  updateOrderShipment(id: number, shipment: OrderShipment): Promise<Order | undefined>;
+  flagOrderStockIssue(id: number, issue: string): Promise<Order | undefined>;
+  recordOrderRefund(id: number, amount: string): Promise<Order | undefined>;
 
   // Order Items
   getOrderItemsByOrderId(orderId: number): Promise<OrderItem[]>;
   createOrderItem(orderItem: InsertOrderItem): Promise<OrderItem>;
+  countOrderItemsByProductId(productId: number): Promise<number>;
+
+  // Inventory reservations
+  // At one location, or over all of them
+  getReservedQuantity(productId: number, locationId?: number): Promise<number>;
+  getInventoryReservations(orderId: number): Promise<InventoryReservation[]>;
+  reserveInventory(orderId: number, lines: StockAllocation[], expiresAt: Date): Promise<InventoryReservation[]>;
+  // Only holds that are still active and unexpired; lapsed ones are left to inventory.ts
+  commitInventoryReservations(orderId: number): Promise<InventoryReservation[]>;
+  releaseInventoryReservations(orderId: number): Promise<number>;
+  restockInventoryReservations(orderId: number): Promise<number>;
+  releaseExpiredInventoryReservations(now?: Date): Promise<number>;
+
+  // Webhook events
+  // Records an event as being handled; false if it already was
+  claimWebhookEvent(eventId: string, type: string): Promise<boolean>;
+  // Forgets a claimed event whose handling failed, so the provider's retry is processed
+  releaseWebhookEvent(eventId: string): Promise<void>;
+
+  // Returns
+  createReturnRequest(request: InsertReturnRequest, items: InsertReturnItem[]): Promise<ReturnRequest>;
+  getReturnRequestById(id: number): Promise<ReturnRequest | undefined>;
+  getReturnRequests(filter?: { orderId?: number; status?: ReturnStatus }): Promise<ReturnRequest[]>;
+  getReturnItems(returnRequestId: number): Promise<ReturnItem[]>;
+  updateReturnItemAmounts(id: number, amounts: ReturnItemAmounts): Promise<ReturnItem | undefined>;
+  // Throws InvalidReturnTransitionError when returnStatusTransitions doesn't allow the change
+  updateReturnStatus(id: number, status: ReturnStatus, update?: ReturnRequestUpdate): Promise<ReturnRequest | undefined>;
+  recordOrderItemRefund(orderItemId: number, quantity: number, amount: string): Promise<OrderItem | undefined>;
+
+  // Promotions
+  getPromotions(): Promise<Promotion[]>;
+  getPromotionById(id: number): Promise<Promotion | undefined>;
+  // Codes match case-insensitively
+  getPromotionByCode(code: string): Promise<Promotion | undefined>;
+  createPromotion(promotion: InsertPromotion): Promise<Promotion>;
+  updatePromotion(id: number, promotion: InsertPromotion): Promise<Promotion | undefined>;
+  // Redemptions that still count (see promotionRedemptions); the customer's match on user ID or email
+  getPromotionUsage(promotionId: number, customer?: PromotionCustomer): Promise<PromotionUsage>;
+  getPromotionRedemptions(orderId: number): Promise<PromotionRedemption[]>;
+  // Records an order's use of its promotions, all or none; throws PromotionLimitError
+  redeemPromotions(
+    orderId: number,
+    customer: PromotionCustomer,
+    lines: PromotionRedemptionLine[],
+    expiresAt: Date
+  ): Promise<PromotionRedemption[]>;
+
+  // Bundles
+  getBundles(options?: { productId?: number; isActive?: boolean }): Promise<Bundle[]>;
+  getBundleById(id: number): Promise<Bundle | undefined>;
+  // Active bundles made up only of the given products, i.e. the ones a cart can complete
+  getBundlesWithin(productIds: number[]): Promise<Bundle[]>;
+  createBundle(bundle: InsertBundle, source?: BundleSource): Promise<Bundle>;
+  updateBundle(id: number, bundle: Partial<InsertBundle> & { source?: BundleSource }): Promise<Bundle | undefined>;
+
+  // Suppliers
+  getSuppliers(options?: { isActive?: boolean }): Promise<Supplier[]>;
+  getSupplierById(id: number): Promise<Supplier | undefined>;
+  getSupplierByName(name: string): Promise<Supplier | undefined>;
+  createSupplier(supplier: InsertSupplier): Promise<Supplier>;
+  updateSupplier(id: number, supplier: Partial<InsertSupplier>): Promise<Supplier | undefined>;
+  deleteSupplier(id: number): Promise<boolean>;
+  getSupplierProducts(options?: { supplierId?: number; productId?: number }): Promise<SupplierProduct[]>;
+  getSupplierProductById(id: number): Promise<SupplierProduct | undefined>;
+  // Marking one preferred unmarks the product's others
+  createSupplierProduct(supplierProduct: InsertSupplierProduct): Promise<SupplierProduct>;
+  updateSupplierProduct(id: number, supplierProduct: Partial<InsertSupplierProduct>): Promise<SupplierProduct | undefined>;
+  deleteSupplierProduct(id: number): Promise<boolean>;
+
+  // Stock locations
+  // Sellable ones are active and, for suppliers, belong to an active dropshipping supplier
+  getStockLocations(options?: { sellable?: boolean }): Promise<StockLocation[]>;
+  getStockLocationById(id: number): Promise<StockLocation | undefined>;
+  getStockLocationBySupplierId(supplierId: number): Promise<StockLocation | undefined>;
+  createStockLocation(location: InsertStockLocation): Promise<StockLocation>;
+  updateStockLocation(id: number, location: Partial<InsertStockLocation>): Promise<StockLocation | undefined>;
+  getStockLevels(options?: { productId?: number; locationId?: number }): Promise<StockLevel[]>;
+  // Products' inventoryCount is kept at their stock over the sellable locations
+  setStockLevel(productId: number, locationId: number, quantity: number): Promise<StockLevel>;
+
+  // Purchase orders
+  createPurchaseOrder(purchaseOrder: InsertPurchaseOrder, items: InsertPurchaseOrderItem[]): Promise<PurchaseOrder>;
+  getPurchaseOrderById(id: number): Promise<PurchaseOrder | undefined>;
+  getPurchaseOrders(filter?: { orderId?: number; supplierId?: number; status?: PurchaseOrderStatus }): Promise<PurchaseOrder[]>;
+  getPurchaseOrderItems(purchaseOrderId: number): Promise<PurchaseOrderItem[]>;
+  updatePurchaseOrder(id: number, update: PurchaseOrderUpdate): Promise<PurchaseOrder | undefined>;
+  // Throws InvalidPurchaseOrderTransitionError
+  updatePurchaseOrderStatus(id: number, status: PurchaseOrderStatus, update?: PurchaseOrderUpdate): Promise<PurchaseOrder | undefined>;
+  updatePurchaseOrderItem(id: number, update: PurchaseOrderItemUpdate): Promise<PurchaseOrderItem | undefined>;
+
+  // Supplier feeds
+  getSupplierFeedProfiles(options?: { supplierId?: number }): Promise<SupplierFeedProfile[]>;
+  getSupplierFeedProfileById(id: number): Promise<SupplierFeedProfile | undefined>;
+  createSupplierFeedProfile(profile: InsertSupplierFeedProfile): Promise<SupplierFeedProfile>;
+  updateSupplierFeedProfile(id: number, profile: Partial<InsertSupplierFeedProfile>): Promise<SupplierFeedProfile | undefined>;
+  deleteSupplierFeedProfile(id: number): Promise<boolean>;
+  createFeedImport(feedImport: InsertFeedImport, changes: InsertFeedImportChange[]): Promise<FeedImport>;
+  getFeedImportById(id: number): Promise<FeedImport | undefined>;
+  // Newest first
+  getFeedImports(options?: { supplierId?: number; status?: FeedImportStatus; limit?: number }): Promise<FeedImport[]>;
+  getFeedImportChanges(importId: number): Promise<FeedImportChange[]>;
+  // Only an import still in review can be; undefined if it isn't, so it's only ever applied once
+  reviewFeedImport(id: number, review: FeedImportReview): Promise<FeedImport | undefined>;
+  updateFeedImportChange(id: number, update: FeedImportChangeUpdate): Promise<FeedImportChange | undefined>;
+
+  // Analytics
+  recordAnalyticsEvents(events: InsertAnalyticsEvent[]): Promise<number>;
+  // Per-product activity from the events that occurred in [from, to)
+  summarizeProductActivity(from: Date, to: Date): Promise<ProductActivity[]>;
+  // Replaces a day's rollup, so re-running it for a day is safe
+  replaceProductDailyStats(day: string, rows: ProductActivity[]): Promise<void>;
+  // Days are "YYYY-MM-DD", both ends included
+  getProductDailyStats(options: { from: string; to: string; productId?: number }): Promise<AnalyticsProductDaily[]>;
+  // Sessions that started in [from, to), grouped; their later events and orders still count
+  summarizeSessionFunnel(from: Date, to: Date): Promise<SessionFunnelGroup[]>;
+  // One shopper's events since a time, from their browser session or their account, newest first
+  getShopperEvents(options: { sessionId?: string; userId?: number; since: Date; limit: number }): Promise<AnalyticsEvent[]>;
 
   // Articles
   getArticles(options?: {
@@ -103,13 +450,36 @@ export interface IStorage {
 // Memory storage implementation
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private passwordResetTokens: Map<number, PasswordResetToken>;
+  private auditLogs: Map<number, AuditLog>;
   private categories: Map<number, Category>;
   private brands: Map<number, Brand>;
   private vehicleModels: Map<number, VehicleModel>;
   private products: Map<number, Product>;
+  private productFitments: Map<number, ProductFitment>;
+  private userVehicles: Map<number, UserVehicle>;
   private reviews: Map<number, Review>;
   private orders: Map<number, Order>;
   private orderItems: Map<number, OrderItem>;
+  private orderEvents: Map<number, OrderEvent>;
+  private inventoryReservations: Map<number, InventoryReservation>;
+  private processedWebhookEvents: Map<string, ProcessedWebhookEvent>; // by event id
+  private returnRequests: Map<number, ReturnRequest>;
+  private returnItems: Map<number, ReturnItem>;
+  private promotions: Map<number, Promotion>;
+  private promotionRedemptions: Map<number, PromotionRedemption>;
+  private bundles: Map<number, Bundle>;
+  private suppliers: Map<number, Supplier>;
+  private supplierProducts: Map<number, SupplierProduct>;
+  private stockLocations: Map<number, StockLocation>;
+  private stockLevels: Map<number, StockLevel>;
+  private purchaseOrders: Map<number, PurchaseOrder>;
+  private purchaseOrderItems: Map<number, PurchaseOrderItem>;
+  private supplierFeedProfiles: Map<number, SupplierFeedProfile>;
+  private feedImports: Map<number, FeedImport>;
+  private feedImportChanges: Map<number, FeedImportChange>;
+  private analyticsEvents: Map<number, AnalyticsEvent>;
+  private analyticsProductDaily: Map<number, AnalyticsProductDaily>;
   private articles: Map<number, Article>;
   private contactMessages: Map<number, ContactMessage>;
   private subscribers: Map<number, Subscriber>;
@@ -117,13 +487,36 @@ export class MemStorage implements IStorage {
   private chatMessages: Map<number, ChatMessage>;
 
   private userId: number = 1;
+  private passwordResetTokenId: number = 1;
+  private auditLogId: number = 1;
   private categoryId: number = 1;
   private brandId: number = 1;
   private vehicleModelId: number = 1;
   private productId: number = 1;
+  private productFitmentId: number = 1;
+  private userVehicleId: number = 1;
   private reviewId: number = 1;
   private orderId: number = 1;
   private orderItemId: number = 1;
+  private orderEventId: number = 1;
+  private inventoryReservationId: number = 1;
+  private processedWebhookEventId: number = 1;
+  private returnRequestId: number = 1;
+  private returnItemId: number = 1;
+  private promotionId: number = 1;
+  private promotionRedemptionId: number = 1;
+  private bundleId: number = 1;
+  private supplierId: number = 1;
+  private supplierProductId: number = 1;
+  private stockLocationId: number = 1;
+  private stockLevelId: number = 1;
+  private purchaseOrderId: number = 1;
+  private purchaseOrderItemId: number = 1;
+  private supplierFeedProfileId: number = 1;
+  private feedImportId: number = 1;
+  private feedImportChangeId: number = 1;
+  private analyticsEventId: number = 1;
+  private analyticsProductDailyId: number = 1;
   private articleId: number = 1;
   private contactMessageId: number = 1;
   private subscriberId: number = 1;
@@ -132,13 +525,36 @@ export class MemStorage implements IStorage {
 
   constructor() {
     this.users = new Map();
+    this.passwordResetTokens = new Map();
+    this.auditLogs = new Map();
     this.categories = new Map();
     this.brands = new Map();
     this.vehicleModels = new Map();
     this.products = new Map();
+    this.productFitments = new Map();
+    this.userVehicles = new Map();
     this.reviews = new Map();
     this.orders = new Map();
     this.orderItems = new Map();
+    this.orderEvents = new Map();
+    this.inventoryReservations = new Map();
+    this.processedWebhookEvents = new Map();
+    this.returnRequests = new Map();
+    this.returnItems = new Map();
+    this.promotions = new Map();
+    this.promotionRedemptions = new Map();
+    this.bundles = new Map();
+    this.suppliers = new Map();
+    this.supplierProducts = new Map();
+    this.stockLocations = new Map();
+    this.stockLevels = new Map();
+    this.purchaseOrders = new Map();
+    this.purchaseOrderItems = new Map();
+    this.supplierFeedProfiles = new Map();
+    this.feedImports = new Map();
+    this.feedImportChanges = new Map();
+    this.analyticsEvents = new Map();
+    this.analyticsProductDaily = new Map();
     this.articles = new Map();
     this.contactMessages = new Map();
     this.subscribers = new Map();
@@ -146,453 +562,8 @@ export class MemStorage implements IStorage {
     this.chatMessages = new Map();
 
     // Initialize with sample data
-    this.initializeSampleData();
-  }
-
-  private initializeSampleData() {
-    // Create brands
-    const brand1 = this.createBrand({
-      name: "TaylorMade Performance",
-      slug: "taylormade-performance",
-      logoUrl: "https://example.com/logos/taylormade.svg",
-      description: "Official brand of premium UTV aftermarket parts"
-    });
-
-    const brand2 = this.createBrand({
-      name: "Extreme UTV",
-      slug: "extreme-utv",
-      logoUrl: "https://example.com/logos/extreme-utv.svg",
-      description: "Specializing in high-performance UTV components"
-    });
-
-    const brand3 = this.createBrand({
-      name: "TrailBlazer",
-      slug: "trailblazer",
-      logoUrl: "https://example.com/logos/trailblazer.svg",
-      description: "Off-road tested and proven UTV parts"
-    });
-
-    const brand4 = this.createBrand({
-      name: "UltraBright",
-      slug: "ultrabright",
-      logoUrl: "https://example.com/logos/ultrabright.svg",
-      description: "Premium lighting solutions for UTVs"
-    });
-
-    // Create categories
-    const exhaustsCategory = this.createCategory({
-      name: "Performance Exhausts",
-      slug: "performance-exhausts",
-      description: "Boost power and sound with our premium exhaust systems",
-      imageUrl: "https://pixabay.com/get/gb1ef5830ec5e95fd76dda0640e14f20ee95144625514439de316bcec3711d0ccaf9869d02d090ca6283d742848443697ac5efa9a95cf740647b01f4ccb6a08da_1280.jpg",
-      productCount: 40
-    });
-    
-    const suspensionCategory = this.createCategory({
-      name: "Suspension Upgrades",
-      slug: "suspension-upgrades",
-      description: "Elevate your ride with premium suspension components",
-      imageUrl: "https://images.unsplash.com/photo-1533922922960-9fceb9ef4733",
-      productCount: 65
-    });
-    
-    const wheelsCategory = this.createCategory({
-      name: "Wheels & Tires",
-      slug: "wheels-tires",
-      description: "Dominate any terrain with our premium wheels and tires",
-      imageUrl: "https://pixabay.com/get/gcdda133331084219945560d25413774a73e619ce02556eb7edc11139df980012439a9a014cb2ca91276c13742eda00ce1e4ff46dd7cde824f14a96edbb914e3b_1280.jpg",
-      productCount: 95
-    });
-    
-    const engineCategory = this.createCategory({
-      name: "Engine Components",
-      slug: "engine-components",
-      description: "Extract maximum performance from your UTV engine",
-      imageUrl: "https://pixabay.com/get/g22bcf1b8f4d36a025ef7e4ad99cac222d880585466cdabfb48d2bc4945df49c8038f20bb983002533e884d88bfaa4deea640543d84499fed625de38a103cc33a_1280.jpg",
-      productCount: 78
-    });
-    
-    const lightingCategory = this.createCategory({
-      name: "Lighting",
-      slug: "lighting",
-      description: "Illuminate the path ahead with our high-performance lighting",
-      imageUrl: "https://pixabay.com/get/gabf141a0b16285f8089aeb1d052d7b450890ffe44549cb55c9f7bb4601dec0b1cdd61ed2fef6e8fd51fef124ed483dddda9eec217542fbd8c7321b023b5f32cd_1280.jpg",
-      productCount: 55
-    });
-    
-    const protectionCategory = this.createCategory({
-      name: "Body & Protection",
-      slug: "body-protection",
-      description: "Shield your UTV with premium protective components",
-      imageUrl: "https://images.unsplash.com/photo-1570288685369-f7305163d0e3",
-      productCount: 45
-    });
-
-    // Create vehicle models
-    // Polaris
-    this.createVehicleModel({ make: "Polaris", model: "RZR XP 1000", year: 2023, variant: "Standard" });
-    this.createVehicleModel({ make: "Polaris", model: "RZR XP 1000", year: 2022, variant: "Standard" });
-    this.createVehicleModel({ make: "Polaris", model: "RZR XP 1000", year: 2021, variant: "Standard" });
-    this.createVehicleModel({ make: "Polaris", model: "RZR Pro XP", year: 2023, variant: "Ultimate" });
-    this.createVehicleModel({ make: "Polaris", model: "RZR Pro XP", year: 2022, variant: "Ultimate" });
-    this.createVehicleModel({ make: "Polaris", model: "RZR Turbo S", year: 2023, variant: "Premium" });
-    this.createVehicleModel({ make: "Polaris", model: "RZR Turbo S", year: 2022, variant: "Premium" });
-    this.createVehicleModel({ make: "Polaris", model: "RZR 900", year: 2023, variant: "Premium" });
-    this.createVehicleModel({ make: "Polaris", model: "RZR 570", year: 2023, variant: "Standard" });
-
-    // Can-Am
-    this.createVehicleModel({ make: "Can-Am", model: "Maverick X3", year: 2023, variant: "X RS Turbo RR" });
-    this.createVehicleModel({ make: "Can-Am", model: "Maverick X3", year: 2022, variant: "X RS Turbo RR" });
-    this.createVehicleModel({ make: "Can-Am", model: "Maverick Sport", year: 2023, variant: "X RC" });
-    this.createVehicleModel({ make: "Can-Am", model: "Maverick Trail", year: 2023, variant: "DPS" });
-
-    // Honda
-    this.createVehicleModel({ make: "Honda", model: "Talon 1000X", year: 2023, variant: "Standard" });
-    this.createVehicleModel({ make: "Honda", model: "Talon 1000R", year: 2023, variant: "Standard" });
-    this.createVehicleModel({ make: "Honda", model: "Pioneer 1000", year: 2023, variant: "Deluxe" });
-
-    // Kawasaki
-    this.createVehicleModel({ make: "Kawasaki", model: "Teryx KRX 1000", year: 2023, variant: "Standard" });
-    this.createVehicleModel({ make: "Kawasaki", model: "Teryx4", year: 2023, variant: "LE" });
-
-    // Yamaha
-    this.createVehicleModel({ make: "Yamaha", model: "YXZ1000R SS", year: 2023, variant: "SE" });
-    this.createVehicleModel({ make: "Yamaha", model: "YXZ1000R", year: 2023, variant: "Standard" });
-    this.createVehicleModel({ make: "Yamaha", model: "Wolverine RMAX4 1000", year: 2023, variant: "XT-R" });
-
-    // Create products
-    // Exhaust product
-    this.createProduct({
-      sku: "EX-RZR1000-001",
-      name: "PRO Series Exhaust System for RZR XP 1000",
-      slug: "pro-series-exhaust-rzr-xp-1000",
-      description: "Gain up to 12% more horsepower and torque with our premium exhaust system, designed specifically for the Polaris RZR XP 1000. Crafted from high-grade stainless steel with precision TIG welding for superior durability and performance. Features a deep, aggressive sound that enhances your riding experience without excessive noise.",
-      price: "599.99",
-      compareAtPrice: "699.99",
-      brandId: brand1.id,
-      categoryId: exhaustsCategory.id,
-      images: [
-        "https://pixabay.com/get/g230af71b0e12ff5af59112a6f3b386558fd37a49f0bf717a7ca4f0d9e6743a29ab1f845014505fc07e36e7c1fa47a1fbd5c6d1398fb5687ae1ac3f333f749c90_1280.jpg",
-        "https://example.com/images/exhaust2.jpg",
-        "https://example.com/images/exhaust3.jpg"
-      ],
-      inventoryCount: 35,
-      isFeatured: true,
-      isActive: true,
-      specs: {
-        material: "304 Stainless Steel",
-        finish: "Black Ceramic Coating",
-        weight: "18 lbs",
-        soundLevel: "95-98 dB",
-        installationTime: "45 minutes",
-        warranty: "2 year limited"
-      },
-      rating: "4.5",
-      reviewCount: 42,
-      tags: ["Best Seller", "Performance", "Exhaust"],
-      compatibleVehicles: [
-        { make: "Polaris", model: "RZR XP 1000", years: [2021, 2022, 2023] }
-      ],
-      metaTitle: "PRO Series Performance Exhaust for Polaris RZR XP 1000",
-      metaDescription: "Upgrade your Polaris RZR XP 1000 with our PRO Series Performance Exhaust System. Gain 12% more HP and torque with premium stainless steel construction."
-    });
-
-    // Suspension product
-    this.createProduct({
-      sku: "SUSP-CANAM-001",
-      name: "Elite Series Lift Kit for Can-Am Maverick X3",
-      slug: "elite-series-lift-kit-canam-maverick-x3",
-      description: "3\" lift with heavy-duty components for maximum ground clearance. Transform your Can-Am Maverick X3 with our Elite Series Lift Kit, engineered for extreme performance in the most challenging terrains. Features high-grade aluminum components and precision-crafted hardware for easy installation and superior durability.",
-      price: "849.99",
-      compareAtPrice: "999.99",
-      brandId: brand2.id,
-      categoryId: suspensionCategory.id,
-      images: [
-        "https://pixabay.com/get/gbea8640c53ca0d32178a08b62033ff12a91661bd3d362d288b8c2bfc3fc4370145e559f3b2fe2c5ad9a6002b0bb549b4_1280.jpg",
-        "https://example.com/images/suspension2.jpg",
-        "https://example.com/images/suspension3.jpg"
-      ],
-      inventoryCount: 22,
-      isFeatured: true,
-      isActive: true,
-      specs: {
-        liftHeight: "3 inches",
-        material: "7075-T6 Aluminum",
-        components: "Upper & Lower A-Arms, Trailing Arms, Radius Rods",
-        hardware: "Grade 8 Hardware Included",
-        installationTime: "3-4 hours",
-        warranty: "Lifetime"
-      },
-      rating: "5.0",
-      reviewCount: 29,
-      tags: ["Hot", "Suspension", "Lift Kit"],
-      compatibleVehicles: [
-        { make: "Can-Am", model: "Maverick X3", years: [2021, 2022, 2023] }
-      ],
-      metaTitle: "Elite Series 3\" Lift Kit for Can-Am Maverick X3",
-      metaDescription: "Transform your Can-Am Maverick X3 with our Elite Series 3\" Lift Kit. Maximum ground clearance with premium aluminum components and lifetime warranty."
-    });
-
-    // Wheels/Tires product
-    this.createProduct({
-      sku: "TIRE-ALLTR-001",
-      name: "All-Terrain X-Treme UTV Tire Set (Set of 4)",
-      slug: "all-terrain-x-treme-utv-tire-set",
-      description: "Aggressive tread pattern for ultimate traction in any terrain. Designed specifically for UTVs, our All-Terrain X-Treme Tires feature an innovative dual-compound construction that delivers exceptional grip in various conditions while maintaining excellent durability. The reinforced sidewalls provide extra protection against punctures and the optimized tread pattern ensures excellent self-cleaning capabilities.",
-      price: "749.99",
-      compareAtPrice: null,
-      brandId: brand3.id,
-      categoryId: wheelsCategory.id,
-      images: [
-        "https://pixabay.com/get/g21b08df3ce76a3cb21007793bb77dce5add74e66f4314fb7ea5855058d3534f2abb14c6168e2b770aba305803a2e2b377b8a8ed5abe2efd682afe1189c5eb272_1280.jpg",
-        "https://example.com/images/tire2.jpg",
-        "https://example.com/images/tire3.jpg"
-      ],
-      inventoryCount: 8,
-      isFeatured: true,
-      isActive: true,
-      specs: {
-        size: "30x10-14",
-        plyRating: "8-ply",
-        treadDepth: "21/32\"",
-        weight: "38 lbs per tire",
-        maxPSI: "36 PSI",
-        warranty: "2 year limited"
-      },
-      rating: "4.0",
-      reviewCount: 18,
-      tags: ["Tire", "All-Terrain", "Low Stock"],
-      compatibleVehicles: [
-        { make: "Polaris", model: "RZR XP 1000", years: [2020, 2021, 2022, 2023] },
-        { make: "Can-Am", model: "Maverick X3", years: [2020, 2021, 2022, 2023] },
-        { make: "Yamaha", model: "YXZ1000R", years: [2020, 2021, 2022, 2023] }
-      ],
-      metaTitle: "All-Terrain X-Treme UTV Tire Set - Ultimate Off-Road Traction",
-      metaDescription: "Dominate any terrain with our All-Terrain X-Treme UTV Tire Set. Aggressive tread pattern, reinforced sidewalls, and superior grip across mud, rocks, and trails."
-    });
-
-    // Lighting product
-    this.createProduct({
-      sku: "LIGHT-50LED-001",
-      name: "50\" Curved LED Light Bar - 20,000 Lumens",
-      slug: "50-inch-curved-led-light-bar",
-      description: "Ultra-bright dual-row LED bar with spot and flood combo beam. Our premium 50\" Curved LED Light Bar delivers exceptional illumination for night riding with an optimized beam pattern that maximizes visibility. The curved design perfectly complements your UTV's contours while providing wider peripheral lighting. Features aircraft-grade aluminum housing with IP68 waterproof rating for extreme durability in all weather conditions.",
-      price: "299.99",
-      compareAtPrice: "399.99",
-      brandId: brand4.id,
-      categoryId: lightingCategory.id,
-      images: [
-        "https://images.unsplash.com/photo-1556800572-1b8aeef2c54f",
-        "https://example.com/images/lightbar2.jpg",
-        "https://example.com/images/lightbar3.jpg"
-      ],
-      inventoryCount: 42,
-      isFeatured: true,
-      isActive: true,
-      specs: {
-        length: "50 inches",
-        lumens: "20,000 lm",
-        leds: "96 high-intensity CREE LEDs",
-        beamPattern: "Combo Spot/Flood",
-        waterproofRating: "IP68",
-        lifespan: "50,000+ hours",
-        warranty: "3 year limited"
-      },
-      rating: "4.5",
-      reviewCount: 35,
-      tags: ["Lighting", "LED", "Best Seller"],
-      compatibleVehicles: [
-        { make: "Polaris", model: "RZR XP 1000", years: [2019, 2020, 2021, 2022, 2023] },
-        { make: "Polaris", model: "RZR Pro XP", years: [2020, 2021, 2022, 2023] },
-        { make: "Polaris", model: "RZR Turbo S", years: [2019, 2020, 2021, 2022, 2023] },
-        { make: "Can-Am", model: "Maverick X3", years: [2019, 2020, 2021, 2022, 2023] },
-        { make: "Honda", model: "Talon 1000X", years: [2019, 2020, 2021, 2022, 2023] },
-        { make: "Kawasaki", model: "Teryx KRX 1000", years: [2020, 2021, 2022, 2023] },
-        { make: "Yamaha", model: "YXZ1000R", years: [2019, 2020, 2021, 2022, 2023] }
-      ],
-      metaTitle: "50\" Curved LED Light Bar - 20,000 Lumens | UTV Lighting",
-      metaDescription: "Illuminate any trail with our premium 50\" Curved LED Light Bar. 20,000 lumens, combo beam pattern, and IP68 waterproof rating for maximum visibility."
-    });
-
-    // Protection product
-    this.createProduct({
-      sku: "PROT-RZRDOOR-001",
-      name: "Aluminum Half Doors for Polaris RZR XP",
-      slug: "aluminum-half-doors-polaris-rzr-xp",
-      description: "Premium aluminum construction half doors for enhanced protection and style. Our aluminum half doors are precisely engineered to fit your RZR XP perfectly while providing improved protection from debris, mud, and trail obstacles. The lightweight yet sturdy design features high-quality hinges and latches for smooth operation, and the powder-coated finish ensures lasting durability against the elements.",
-      price: "549.99",
-      compareAtPrice: "649.99",
-      brandId: brand1.id,
-      categoryId: protectionCategory.id,
-      images: [
-        "https://images.unsplash.com/photo-1570288685369-f7305163d0e3",
-        "https://example.com/images/doors2.jpg",
-        "https://example.com/images/doors3.jpg"
-      ],
-      inventoryCount: 15,
-      isFeatured: false,
-      isActive: true,
-      specs: {
-        material: "6061-T6 Aluminum",
-        finish: "Textured Black Powder Coat",
-        includes: "Left & Right Doors, Hardware Kit",
-        windowOption: "Compatible with optional windows",
-        installationTime: "1-2 hours",
-        warranty: "2 year limited"
-      },
-      rating: "4.7",
-      reviewCount: 24,
-      tags: ["Protection", "Doors", "Body"],
-      compatibleVehicles: [
-        { make: "Polaris", model: "RZR XP 1000", years: [2019, 2020, 2021, 2022, 2023] },
-        { make: "Polaris", model: "RZR XP Turbo", years: [2019, 2020, 2021, 2022] }
-      ],
-      metaTitle: "Premium Aluminum Half Doors for Polaris RZR XP 1000",
-      metaDescription: "Enhance protection and style with our Premium Aluminum Half Doors for Polaris RZR XP. Precision engineered with powder-coated aluminum construction for durability."
-    });
-
-    // Add more products
-    this.createProduct({
-      sku: "COOL-RADZRXP-001",
-      name: "High-Performance Radiator for RZR XP",
-      slug: "high-performance-radiator-rzr-xp",
-      description: "Increase cooling efficiency by up to 35% with our high-performance aluminum radiator designed specifically for Polaris RZR XP models. Featuring precision TIG welding, increased core size, and optimized fin design for maximum cooling in extreme conditions. Perfect for desert racing and high-temperature environments.",
-      price: "429.99",
-      compareAtPrice: "499.99",
-      brandId: brand1.id,
-      categoryId: engineCategory.id,
-      images: [
-        "https://pixabay.com/get/g22bcf1b8f4d36a025ef7e4ad99cac222d880585466cdabfb48d2bc4945df49c8038f20bb983002533e884d88bfaa4deea640543d84499fed625de38a103cc33a_1280.jpg",
-        "https://example.com/images/radiator2.jpg",
-        "https://example.com/images/radiator3.jpg"
-      ],
-      inventoryCount: 12,
-      isFeatured: false,
-      isActive: true,
-      specs: {
-        material: "Aluminum",
-        rows: "2 row core",
-        increase: "35% greater cooling capacity",
-        fanCompatibility: "Works with stock or upgraded fans",
-        installationTime: "2-3 hours",
-        warranty: "Lifetime"
-      },
-      rating: "4.8",
-      reviewCount: 17,
-      tags: ["Cooling", "Engine", "Performance"],
-      compatibleVehicles: [
-        { make: "Polaris", model: "RZR XP 1000", years: [2019, 2020, 2021, 2022, 2023] },
-        { make: "Polaris", model: "RZR Pro XP", years: [2020, 2021, 2022, 2023] }
-      ],
-      metaTitle: "High-Performance Radiator for Polaris RZR XP | 35% Better Cooling",
-      metaDescription: "Upgrade your RZR XP cooling system with our high-performance aluminum radiator. 35% better cooling for extreme desert conditions with lifetime warranty."
-    });
-
-    this.createProduct({
-      sku: "BELT-XPTURBO-001",
-      name: "Heavy-Duty CVT Belt for RZR Turbo",
-      slug: "heavy-duty-cvt-belt-rzr-turbo",
-      description: "Our premium heavy-duty CVT belt is engineered for extreme power and durability in high-performance turbocharged UTVs. Featuring aramid fiber reinforcement and high-temperature construction, this belt outlasts OEM versions by up to 3X while handling more horsepower. Essential upgrade for modified vehicles or aggressive riding styles.",
-      price: "159.99",
-      compareAtPrice: "189.99",
-      brandId: brand1.id,
-      categoryId: engineCategory.id,
-      images: [
-        "https://example.com/images/belt1.jpg",
-        "https://example.com/images/belt2.jpg"
-      ],
-      inventoryCount: 48,
-      isFeatured: false,
-      isActive: true,
-      specs: {
-        construction: "Aramid Fiber Reinforced",
-        temperatureRating: "Up to 338°F",
-        width: "38mm",
-        angle: "30°",
-        strength: "50% stronger than OEM",
-        warranty: "1 year limited"
-      },
-      rating: "4.9",
-      reviewCount: 32,
-      tags: ["Drivetrain", "Belt", "Performance"],
-      compatibleVehicles: [
-        { make: "Polaris", model: "RZR Turbo S", years: [2019, 2020, 2021, 2022, 2023] },
-        { make: "Polaris", model: "RZR Pro XP", years: [2020, 2021, 2022, 2023] }
-      ],
-      metaTitle: "Heavy-Duty CVT Belt for Polaris RZR Turbo | 3X Longer Life",
-      metaDescription: "Premium heavy-duty CVT belt for Polaris RZR Turbo models. 3X longer life than OEM with aramid fiber reinforcement for extreme power and durability."
-    });
-
-    this.createProduct({
-      sku: "CAGE-RZRXP-001",
-      name: "Front Intrusion Bar for RZR XP",
-      slug: "front-intrusion-bar-rzr-xp",
-      description: "Enhance cab protection with our heavy-duty front intrusion bar, designed specifically for Polaris RZR XP models. Constructed from 1.75\" DOM steel tubing with precision bends and gussets at critical stress points for maximum strength. Provides additional frontal protection while maintaining OEM aesthetics and visibility.",
-      price: "249.99",
-      compareAtPrice: null,
-      brandId: brand1.id,
-      categoryId: protectionCategory.id,
-      images: [
-        "https://example.com/images/cage1.jpg",
-        "https://example.com/images/cage2.jpg"
-      ],
-      inventoryCount: 18,
-      isFeatured: false,
-      isActive: true,
-      specs: {
-        material: "1.75\" DOM Steel Tubing",
-        finish: "Textured Black Powder Coat",
-        hardware: "Grade 8 Hardware Included",
-        welding: "TIG welded with gussets",
-        installationTime: "1-2 hours",
-        warranty: "Lifetime"
-      },
-      rating: "4.7",
-      reviewCount: 11,
-      tags: ["Protection", "Cage", "Safety"],
-      compatibleVehicles: [
-        { make: "Polaris", model: "RZR XP 1000", years: [2019, 2020, 2021, 2022, 2023] },
-        { make: "Polaris", model: "RZR XP Turbo", years: [2019, 2020, 2021, 2022] }
-      ],
-      metaTitle: "Front Intrusion Bar for Polaris RZR XP | Added Protection",
-      metaDescription: "Enhance cab protection with our heavy-duty front intrusion bar for Polaris RZR XP. DOM steel construction with lifetime warranty for peace of mind."
-    });
-
-    // Create blog articles
-    this.createArticle({
-      title: "Top 5 Performance Upgrades for Your RZR",
-      slug: "top-5-performance-upgrades-rzr",
-      content: "Looking to boost your UTV's performance? We break down the top 5 modifications that will transform your riding experience.\n\n1. **Performance Exhaust System**\nUpgrading your exhaust is one of the most effective ways to improve power and torque. A quality aftermarket exhaust reduces backpressure and improves flow, resulting in gains of 5-12% in horsepower depending on your model. The sound improvement is an added bonus!\n\n2. **ECU Tuning**\nAfter upgrading your exhaust, an ECU tune is essential to optimize fuel delivery and timing for your modifications. This ensures your engine runs efficiently and maximizes the performance gains from your hardware upgrades.\n\n3. **Clutch Kit Upgrade**\nThe factory clutch is often a bottleneck for modified UTVs. A performance clutch kit improves acceleration, reduces belt slip, and extends belt life—especially important if you've increased your RZR's power output.\n\n4. **Intake System Upgrade**\nPairing a high-flow air intake with your exhaust system creates a complete performance breathing system. This allows your engine to pull in more air, further enhancing power gains from other modifications.\n\n5. **Turbo Upgrade (for Turbo models)**\nIf you own a turbocharged model, upgrading the turbocharger or installing a boost controller can significantly increase power. Just be sure to support this modification with appropriate fueling and clutch upgrades.\n\nRemember, when upgrading your RZR, it's important to take a systematic approach—ensuring that each component works harmoniously with the others for maximum performance and reliability.",
-      excerpt: "Looking to boost your UTV's performance? We break down the top 5 modifications that will transform your riding experience.",
-      imageUrl: "https://images.unsplash.com/photo-1516149893016-813d9a01d5d3",
-      author: "Mike Wilson",
-      tags: ["Performance", "RZR", "Upgrades", "Exhaust", "Tuning"],
-      isPublished: true,
-      publishedAt: new Date("2023-05-15"),
-    });
-
-    this.createArticle({
-      title: "DIY UTV Maintenance: Tips & Tricks",
-      slug: "diy-utv-maintenance-tips-tricks",
-      content: "Save money and keep your UTV running smoothly with these essential maintenance tips every owner should know.\n\n**Regular Maintenance Checklist**\n\n- **Oil Changes**: Don't skip this fundamental maintenance task. Fresh oil is the lifeblood of your engine. For most UTVs, change the oil every 25 hours of operation or twice a season, whichever comes first.\n\n- **Air Filter Maintenance**: Dirty air filters restrict airflow and reduce performance. Clean foam filters every 5-10 rides and replace paper filters according to your manufacturer's recommendations.\n\n- **CVT Belt Inspection**: The CVT belt is a critical component. Inspect it regularly for cracks, glazing, or excess wear. A worn belt can leave you stranded miles from home.\n\n- **Greasing Suspension Components**: Use a quality waterproof grease to lubricate all grease fittings. This prevents premature wear and keeps your suspension working properly.\n\n- **Tire Pressure**: Always check your tire pressure before rides. Incorrect pressure affects handling, traction, and can lead to premature tire wear.\n\n**Advanced DIY Maintenance**\n\n- **Valve Adjustment**: Many UTV engines require periodic valve clearance checks. This is an advanced but manageable DIY task that ensures optimal engine performance.\n\n- **CVT Clutch Cleaning**: Cleaning your primary and secondary clutches improves performance and extends belt life. This requires special tools but is worth learning.\n\n- **Cooling System Flush**: Over time, coolant breaks down and collects debris. Flushing your cooling system annually prevents overheating issues.\n\nDIY maintenance not only saves money but also helps you understand your machine better. Always refer to your owner's manual for specific maintenance intervals and procedures for your model.",
-      excerpt: "Save money and keep your UTV running smoothly with these essential maintenance tips every owner should know.",
-      imageUrl: "https://images.unsplash.com/photo-1530124566582-a618bc2615dc",
-      author: "James Taylor",
-      tags: ["Maintenance", "DIY", "Repair", "Tips"],
-      isPublished: true,
-      publishedAt: new Date("2023-04-28"),
-    });
-
-    this.createArticle({
-      title: "Ultimate UTV Trail Guide: 2023 Edition",
-      slug: "ultimate-utv-trail-guide-2023",
-      content: "Discover the best trails across the country for your next UTV adventure, with difficulty ratings and must-see stops.\n\n**Western Region Highlights**\n\n1. **Moab, Utah**: The holy grail of UTV destinations featuring iconic trails like Hell's Revenge and Poison Spider. Difficulty varies from moderate to extremely challenging. Don't miss the spectacular views at Chicken Corners Trail.\n\n2. **Imperial Sand Dunes, California**: Experience the thrill of massive sand dunes rising nearly 300 feet. Best visited from October through April to avoid extreme summer temperatures.\n\n3. **Taylor Park, Colorado**: Over 125 miles of interconnected trails with breathtaking mountain scenery. The Ghost Town Tour is a must-do, connecting historic mining settlements.\n\n**Midwest Favorites**\n\n1. **Hatfield-McCoy Trails, West Virginia**: Over 700 miles of mapped trails across nine trail systems. The Rockhouse and Buffalo Mountain systems offer excellent technical riding.\n\n2. **Silver Lake Sand Dunes, Michigan**: 450 acres of dunes offering a unique combination of sand, forests, and lakeside riding.\n\n3. **Hidden Falls Adventure Park, Texas**: 240 miles of trails ranging from beginner-friendly to extremely challenging rock crawling sections.\n\n**Southeast Gems**\n\n1. **Brimstone Recreation, Tennessee**: 300+ miles of trails spanning 20,000 acres in the Appalachian Mountains. The Annual White Knuckle Event is a must-experience gathering.\n\n2. **Windrock Park, Tennessee**: One of the largest privately-owned riding areas with 73,000 acres and trails for all skill levels. The coal mining history adds interesting elements to many trails.\n\n**Trail Preparation Tips**\n\n- Always check trail status before departing as conditions change frequently\n- Pack emergency supplies including extra fuel, basic tools, and communication devices\n- Observe all trail etiquette and leave no trace principles\n\nRemember to obtain the necessary permits for each riding area and respect all trail closures and restrictions. Happy trailing!",
-      excerpt: "Discover the best trails across the country for your next UTV adventure, with difficulty ratings and must-see stops.",
-      imageUrl: "https://pixabay.com/get/gbb2d7177ffa9a5ecbbb8568588ae6857b9cface69b6d4460f7aad7fa5669b5d14b2581a2ededeee891442e0d334d1ba6cd733c5694b85e33e3feb1da3c0c92ea_1280.jpg",
-      author: "Sarah Johnson",
-      tags: ["Trails", "Adventure", "Travel", "Riding Destinations"],
-      isPublished: true,
-      publishedAt: new Date("2023-04-10"),
+    seedSampleData(this).catch((error) => {
+      console.error('Failed to load sample data:', error);
     });
   }
 
@@ -615,11 +586,25 @@ export class MemStorage implements IStorage {
 
   async createUser(user: InsertUser): Promise<User> {
     const id = this.userId++;
-    const newUser: User = { id, ...user, isAdmin: false };
+    const newUser: User = {
+      id,
+      ...user,
+      password: await hashPassword(user.password),
+      fullName: user.fullName ?? null,
+      isAdmin: false,
+      role: 'customer',
+      stripeCustomerId: null,
+      shippingAddress: null,
+      billingAddress: null
+    };
     this.users.set(id, newUser);
     return newUser;
   }
 
+  async updateUserPassword(id: number, password: string): Promise<User | undefined> {
+    return this.updateUser(id, { password: await hashPassword(password) });
+  }
+
   async updateUser(id: number, userData: Partial<User>): Promise<User | undefined> {
     const user = this.users.get(id);
     if (!user) return undefined;
@@ -639,6 +624,60 @@ export class MemStorage implements IStorage {
     this.users.set(userId, updatedUser);
     return updatedUser;
   }
+  // Password Resets
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const id = this.passwordResetTokenId++;
+    const newToken: PasswordResetToken = { id, ...token, usedAt: null, createdAt: new Date() };
+    this.passwordResetTokens.set(id, newToken);
+    return newToken;
+  }
+
+  async consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const token = Array.from(this.passwordResetTokens.values()).find(
+      (token) => token.tokenHash === tokenHash && !token.usedAt && token.expiresAt > new Date()
+    );
+    if (!token) return undefined;
+
+    const used = { ...token, usedAt: new Date() };
+    this.passwordResetTokens.set(token.id, used);
+    return used;
+  }
+
+  // Audit Log
+  async createAuditLog(entry: InsertAuditLog): Promise<AuditLog> {
+    const id = this.auditLogId++;
+    const newEntry: AuditLog = {
+      id,
+      ...entry,
+      userId: entry.userId ?? null,
+      resourceId: entry.resourceId ?? null,
+      details: entry.details ?? null,
+      ipAddress: entry.ipAddress ?? null,
+      createdAt: new Date()
+    };
+    this.auditLogs.set(id, newEntry);
+    return newEntry;
+  }
+
+  async getAuditLogs(options: {
+    limit?: number;
+    offset?: number;
+    userId?: number;
+    action?: string;
+  } = {}): Promise<{ entries: AuditLog[]; total: number }> {
+    const { limit = 50, offset = 0, userId, action } = options;
+    
+    const entries = Array.from(this.auditLogs.values())
+      .filter(entry => userId === undefined || entry.userId === userId)
+      .filter(entry => action === undefined || entry.action === action)
+      .sort((a, b) => b.id - a.id);
+    
+    return {
+      entries: entries.slice(offset, offset + limit),
+      total: entries.length
+    };
+  }
+
 
   // Categories
   async getCategories(): Promise<Category[]> {
@@ -657,7 +696,14 @@ export class MemStorage implements IStorage {
 
   async createCategory(category: InsertCategory): Promise<Category> {
     const id = this.categoryId++;
-    const newCategory: Category = { id, ...category };
+    const newCategory: Category = {
+      id,
+      ...category,
+      description: category.description ?? null,
+      imageUrl: category.imageUrl ?? null,
+      parentId: category.parentId ?? null,
+      productCount: 0
+    };
     this.categories.set(id, newCategory);
     return newCategory;
   }
@@ -671,6 +717,10 @@ export class MemStorage implements IStorage {
     return updatedCategory;
   }
 
+  async deleteCategory(id: number): Promise<boolean> {
+    return this.categories.delete(id);
+  }
+
   // Brands
   async getBrands(): Promise<Brand[]> {
     return Array.from(this.brands.values());
@@ -693,17 +743,34 @@ export class MemStorage implements IStorage {
     return newBrand;
   }
 
+  async updateBrand(id: number, brandData: Partial<Brand>): Promise<Brand | undefined> {
+    const brand = this.brands.get(id);
+    if (!brand) return undefined;
+
+    const updatedBrand = { ...brand, ...brandData, id };
+    this.brands.set(id, updatedBrand);
+    return updatedBrand;
+  }
+
+  async deleteBrand(id: number): Promise<boolean> {
+    return this.brands.delete(id);
+  }
+
   // Vehicle Models
   async getVehicleModels(): Promise<VehicleModel[]> {
     return Array.from(this.vehicleModels.values());
   }
 
+  async getVehicleModelById(id: number): Promise<VehicleModel | undefined> {
+    return this.vehicleModels.get(id);
+  }
+
   async getVehicleMakes(): Promise<string[]> {
     const makes = new Set<string>();
     for (const model of this.vehicleModels.values()) {
       makes.add(model.make);
     }
-    return Array.from(makes);
+    return Array.from(makes).sort();
   }
 
   async getVehicleModelsByMake(make: string): Promise<string[]> {
@@ -713,7 +780,7 @@ export class MemStorage implements IStorage {
         models.add(vehicleModel.model);
       }
     }
-    return Array.from(models);
+    return Array.from(models).sort();
   }
 
   async getVehicleYearsByMakeAndModel(make: string, model: string): Promise<number[]> {
@@ -734,16 +801,7 @@ export class MemStorage implements IStorage {
   }
 
   // Products
-  async getProducts(options: {
-    limit?: number;
-    offset?: number;
-    categoryId?: number;
-    brandId?: number;
-    isFeatured?: boolean;
-    searchTerm?: string;
-    sortBy?: string;
-    sortOrder?: 'asc' | 'desc';
-  } = {}): Promise<{ products: Product[]; total: number }> {
+  async getProducts(options: ProductQueryOptions = {}): Promise<{ products: Product[]; total: number }> {
     let filtered = Array.from(this.products.values());
 
     // Apply filters
@@ -759,6 +817,10 @@ export class MemStorage implements IStorage {
       filtered = filtered.filter(product => product.isFeatured === options.isFeatured);
     }
 
+    if (options.isActive !== undefined) {
+      filtered = filtered.filter(product => (product.isActive ?? true) === options.isActive);
+    }
+
     if (options.searchTerm) {
       const term = options.searchTerm.toLowerCase();
       filtered = filtered.filter(product => 
@@ -768,6 +830,43 @@ export class MemStorage implements IStorage {
       );
     }
 
+    if (options.fitment) {
+      const { make, model, year, variant } = options.fitment;
+      const fittingProductIds = new Set<number>();
+      for (const fitment of Array.from(this.productFitments.values())) {
+        const vehicle = this.vehicleModels.get(fitment.vehicleModelId);
+        if (
+          vehicle &&
+          vehicle.make.toLowerCase() === make.toLowerCase() &&
+          vehicle.model.toLowerCase() === model.toLowerCase() &&
+          fitment.yearFrom <= year && year <= fitment.yearTo &&
+          (!fitment.variant || !variant || fitment.variant.toLowerCase() === variant.toLowerCase())
+        ) {
+          fittingProductIds.add(fitment.productId);
+        }
+      }
+      filtered = filtered.filter(product => fittingProductIds.has(product.id));
+    }
+
+    if (options.minPrice !== undefined) {
+      filtered = filtered.filter(product => parseFloat(product.price) >= options.minPrice!);
+    }
+
+    if (options.maxPrice !== undefined) {
+      filtered = filtered.filter(product => parseFloat(product.price) <= options.maxPrice!);
+    }
+
+    if (options.inStock) {
+      filtered = filtered.filter(product => (product.inventoryCount ?? 0) > 0);
+    }
+
+    if (options.onSale) {
+      filtered = filtered.filter(product =>
+        product.compareAtPrice !== null &&
+        parseFloat(product.compareAtPrice) > parseFloat(product.price)
+      );
+    }
+
     // Apply sorting
     if (options.sortBy) {
       filtered.sort((a: any, b: any) => {
@@ -800,16 +899,35 @@ export class MemStorage implements IStorage {
     return this.products.get(id);
   }
 
+  async getProductBySku(sku: string): Promise<Product | undefined> {
+    return Array.from(this.products.values()).find(
+      (product) => product.sku === sku
+    );
+  }
+
   async createProduct(product: InsertProduct): Promise<Product> {
     const id = this.productId++;
     const newProduct: Product = { 
       id, 
+      compareAtPrice: null,
+      brandId: null,
+      categoryId: null,
+      images: [],
+      isFeatured: false,
+      isActive: true,
+      specs: {},
+      tags: null,
+      compatibleVehicles: [],
+      metaTitle: null,
+      metaDescription: null,
       ...product,
       rating: product.rating || "0",
       reviewCount: 0,
-      createdAt: new Date()
+      createdAt: new Date(),
+      inventoryCount: 0
     };
     this.products.set(id, newProduct);
+    if (product.inventoryCount) this.adjustStockLevel(id, this.defaultWarehouse().id, product.inventoryCount);
     return newProduct;
   }
 
@@ -817,21 +935,146 @@ export class MemStorage implements IStorage {
     const product = this.products.get(id);
     if (!product) return undefined;
 
-    const updatedProduct = { ...product, ...productData };
+    const { inventoryCount, ...data } = productData;
+    const updatedProduct = { ...product, ...data };
     this.products.set(id, updatedProduct);
+    if (inventoryCount !== undefined && inventoryCount !== null) {
+      this.adjustStockLevel(id, this.defaultWarehouse().id, inventoryCount - (product.inventoryCount ?? 0));
+    }
     return updatedProduct;
   }
 
-  async updateProductInventory(id: number, quantity: number): Promise<boolean> {
-    const product = this.products.get(id);
-    if (!product) return false;
+  async restockProduct(id: number, quantity: number): Promise<boolean> {
+    if (!this.products.has(id)) return false;
 
-    const newInventory = Math.max(0, product.inventoryCount - quantity);
-    product.inventoryCount = newInventory;
-    this.products.set(id, product);
+    this.adjustStockLevel(id, this.defaultWarehouse().id, quantity);
     return true;
   }
 
+  // Reviews and fitment go with the product
+  async deleteProduct(id: number): Promise<boolean> {
+    for (const review of Array.from(this.reviews.values())) {
+      if (review.productId === id) this.reviews.delete(review.id);
+    }
+    for (const fitment of Array.from(this.productFitments.values())) {
+      if (fitment.productId === id) this.productFitments.delete(fitment.id);
+    }
+    for (const supplierProduct of Array.from(this.supplierProducts.values())) {
+      if (supplierProduct.productId === id) this.supplierProducts.delete(supplierProduct.id);
+    }
+    for (const level of Array.from(this.stockLevels.values())) {
+      if (level.productId === id) this.stockLevels.delete(level.id);
+    }
+    for (const change of Array.from(this.feedImportChanges.values())) {
+      if (change.productId === id) change.productId = null;
+    }
+    return this.products.delete(id);
+  }
+
+  // Product Fitment
+  async getProductFitments(productId: number): Promise<ProductFitmentDetail[]> {
+    return this.getFitmentsForProducts([productId]);
+  }
+
+  async getFitmentsForProducts(productIds: number[]): Promise<ProductFitmentDetail[]> {
+    const fitments: ProductFitmentDetail[] = [];
+    for (const fitment of Array.from(this.productFitments.values())) {
+      const vehicle = this.vehicleModels.get(fitment.vehicleModelId);
+      if (productIds.includes(fitment.productId) && vehicle) {
+        fitments.push({ ...fitment, make: vehicle.make, model: vehicle.model });
+      }
+    }
+    return fitments.sort((a, b) =>
+      a.productId - b.productId || a.make.localeCompare(b.make) || a.model.localeCompare(b.model) || a.yearFrom - b.yearFrom
+    );
+  }
+
+  async createProductFitment(fitment: InsertProductFitment): Promise<ProductFitment> {
+    const id = this.productFitmentId++;
+    const newFitment: ProductFitment = {
+      id,
+      ...fitment,
+      variant: fitment.variant ?? null,
+      notes: fitment.notes ?? null
+    };
+    this.productFitments.set(id, newFitment);
+    return newFitment;
+  }
+
+  async deleteProductFitment(id: number): Promise<boolean> {
+    return this.productFitments.delete(id);
+  }
+
+  async saveProductWithFitments(
+    id: number | undefined,
+    product: InsertProduct,
+    fitments?: Omit<InsertProductFitment, "productId">[]
+  ): Promise<Product | undefined> {
+    const saved = id === undefined ? await this.createProduct(product) : await this.updateProduct(id, product);
+    if (!saved || !fitments) return saved;
+
+    for (const fitment of Array.from(this.productFitments.values())) {
+      if (fitment.productId === saved.id) this.productFitments.delete(fitment.id);
+    }
+    for (const fitment of fitments) await this.createProductFitment({ ...fitment, productId: saved.id });
+    return saved;
+  }
+
+  // Garage
+  async getUserVehicles(userId: number): Promise<UserVehicle[]> {
+    return Array.from(this.userVehicles.values())
+      .filter(vehicle => vehicle.userId === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getUserVehicleById(id: number): Promise<UserVehicle | undefined> {
+    return this.userVehicles.get(id);
+  }
+
+  async createUserVehicle(vehicle: InsertUserVehicle): Promise<UserVehicle> {
+    if (vehicle.isActive) {
+      this.deactivateUserVehicles(vehicle.userId);
+    }
+    
+    const id = this.userVehicleId++;
+    const newVehicle: UserVehicle = {
+      id,
+      ...vehicle,
+      variant: vehicle.variant ?? null,
+      nickname: vehicle.nickname ?? null,
+      isActive: vehicle.isActive ?? false,
+      createdAt: new Date()
+    };
+    this.userVehicles.set(id, newVehicle);
+    return newVehicle;
+  }
+
+  async updateUserVehicle(id: number, vehicleData: Partial<UserVehicle>): Promise<UserVehicle | undefined> {
+    const vehicle = this.userVehicles.get(id);
+    if (!vehicle) return undefined;
+    
+    // Only one vehicle per customer can be active
+    if (vehicleData.isActive) {
+      this.deactivateUserVehicles(vehicle.userId);
+    }
+    
+    const updatedVehicle = { ...vehicle, ...vehicleData, id, userId: vehicle.userId };
+    this.userVehicles.set(id, updatedVehicle);
+    return updatedVehicle;
+  }
+
+  async deleteUserVehicle(id: number): Promise<boolean> {
+    return this.userVehicles.delete(id);
+  }
+
+  private deactivateUserVehicles(userId: number) {
+    for (const vehicle of Array.from(this.userVehicles.values())) {
+      if (vehicle.userId === userId && vehicle.isActive) {
+        this.userVehicles.set(vehicle.id, { ...vehicle, isActive: false });
+      }
+    }
+  }
+
   // Reviews
   async getReviewsByProductId(productId: number): Promise<Review[]> {
     return Array.from(this.reviews.values()).filter(
@@ -878,12 +1121,35 @@ export class MemStorage implements IStorage {
     );
   }
 
-  async getOrdersByUserId(userId: number): Promise<Order[]> {
-    return Array.from(this.orders.values()).filter(
-      (order) => order.userId === userId
+  async getOrderByPaymentIntentId(paymentIntentId: string): Promise<Order | undefined> {
+    return Array.from(this.orders.values()).find(
+      (order) => order.stripePaymentIntentId === paymentIntentId
     );
   }
 
+  async getOrdersByUserId(userId: number): Promise<Order[]> {
+    return Array.from(this.orders.values())
+      .filter((order) => order.userId === userId)
+      .sort((a, b) => b.id - a.id);
+  }
+  async findOrders(options: OrderQueryOptions = {}): Promise<{ orders: Order[]; total: number }> {
+    const { limit = 50, offset = 0, status, paymentStatus, createdFrom, createdBefore, searchTerm } = options;
+    
+    const matches = Array.from(this.orders.values())
+      .filter(order => status === undefined || order.status === status)
+      .filter(order => paymentStatus === undefined || order.paymentStatus === paymentStatus)
+      .filter(order => !createdFrom || (order.createdAt !== null && order.createdAt >= createdFrom))
+      .filter(order => !createdBefore || (order.createdAt !== null && order.createdAt < createdBefore))
+      .filter(order => !searchTerm || order.orderNumber.toLowerCase().includes(searchTerm.toLowerCase()))
+      .sort((a, b) => b.id - a.id);
+    
+    return {
+      orders: matches.slice(offset, offset + limit),
+      total: matches.length
+    };
+  }
+
+
   async createOrder(orderData: InsertOrder): Promise<Order> {
     const id = this.orderId++;
     const orderNumber = `ORD-${Date.now().toString().slice(-6)}-${id}`;
@@ -894,24 +1160,60 @@ export class MemStorage implements IStorage {
       status: "pending",
       paymentStatus: "pending",
       ...orderData,
+      email: orderData.email ?? null,
+      note: orderData.note ?? null,
+      discount: orderData.discount ?? "0",
+      promotionCodes: orderData.promotionCodes ?? [],
+      analyticsSessionId: orderData.analyticsSessionId ?? null,
+      stripePaymentIntentId: null,
+      carrier: null,
+      trackingNumber: null,
+      stockIssue: null,
+      refundedAmount: "0",
       createdAt: new Date(),
       updatedAt: new Date()
     };
     
     this.orders.set(id, newOrder);
+    this.addOrderEvent(id, null, "pending", {});
     return newOrder;
   }
 
-  async updateOrderStatus(id: number, status: string): Promise<Order | undefined> {
+  async updateOrderStatus(id: number, status: OrderStatus, change: OrderStatusChange = {}): Promise<Order | undefined> {
     const order = this.orders.get(id);
     if (!order) return undefined;
 
+    if (!canTransitionOrder(order.status, status)) {
+      throw new InvalidOrderTransitionError(order.status, status);
+    }
+
+    const fromStatus = order.status;
     order.status = status;
     order.updatedAt = new Date();
     this.orders.set(id, order);
+    this.addOrderEvent(id, fromStatus, status, change);
     return order;
   }
 
+  async getOrderEvents(orderId: number): Promise<OrderEvent[]> {
+    return Array.from(this.orderEvents.values())
+      .filter(event => event.orderId === orderId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  private addOrderEvent(orderId: number, fromStatus: OrderStatus | null, toStatus: OrderStatus, change: OrderStatusChange) {
+    const id = this.orderEventId++;
+    this.orderEvents.set(id, {
+      id,
+      orderId,
+      fromStatus,
+      toStatus,
+      userId: change.userId ?? null,
+      note: change.note ?? null,
+      createdAt: new Date()
+    });
+  }
+
   async updatePaymentStatus(id: number, paymentStatus: string, stripePaymentIntentId?: string): Promise<Order | undefined> {
     const order = this.orders.get(id);
     if (!order) return undefined;
@@ -925,6 +1227,35 @@ export class MemStorage implements IStorage {
     return order;
   }
 
+  async updateOrderShipment(id: number, shipment: OrderShipment): Promise<Order | undefined> {
+    const order = this.orders.get(id);
+    if (!order) return undefined;
+
+    order.carrier = shipment.carrier;
+    order.trackingNumber = shipment.trackingNumber;
+    order.updatedAt = new Date();
+    this.orders.set(id, order);
+    return order;
+  }
+
+  async flagOrderStockIssue(id: number, issue: string): Promise<Order | undefined> {
+    const order = this.orders.get(id);
+    if (!order) return undefined;
+
+    order.stockIssue = issue;
+    order.updatedAt = new Date();
+    return order;
+  }
+
+  async recordOrderRefund(id: number, amount: string): Promise<Order | undefined> {
+    const order = this.orders.get(id);
+    if (!order) return undefined;
+
+    order.refundedAmount = (parseFloat(order.refundedAmount) + parseFloat(amount)).toFixed(2);
+    order.updatedAt = new Date();
+    return order;
+  }
+
   // Order Items
   async getOrderItemsByOrderId(orderId: number): Promise<OrderItem[]> {
     return Array.from(this.orderItems.values()).filter(
@@ -934,68 +1265,2686 @@ export class MemStorage implements IStorage {
 
   async createOrderItem(orderItem: InsertOrderItem): Promise<OrderItem> {
     const id = this.orderItemId++;
-    const newOrderItem: OrderItem = { id, ...orderItem };
+    const newOrderItem: OrderItem = { id, ...orderItem, refundedQuantity: 0, refundedAmount: "0" };
     this.orderItems.set(id, newOrderItem);
     return newOrderItem;
   }
+  async countOrderItemsByProductId(productId: number): Promise<number> {
+    return Array.from(this.orderItems.values()).filter(
+      (item) => item.productId === productId
+    ).length;
+  }
 
-  // Articles
-  async getArticles(options: {
-    limit?: number;
-    offset?: number;
-    isPublished?: boolean;
-  } = {}): Promise<{ articles: Article[]; total: number }> {
-    let filtered = Array.from(this.articles.values());
+  // Inventory reservations
+  private activeReservations(productId: number, now = new Date()): InventoryReservation[] {
+    return Array.from(this.inventoryReservations.values()).filter(
+      (reservation) => reservation.productId === productId && reservation.status === "active" && reservation.expiresAt > now
+    );
+  }
 
-    // Apply filters
+  async getReservedQuantity(productId: number, locationId?: number): Promise<number> {
+    return this.activeReservations(productId)
+      .filter(reservation => locationId === undefined || reservation.locationId === locationId)
+      .reduce((sum, reservation) => sum + reservation.quantity, 0);
+  }
+
+  async getInventoryReservations(orderId: number): Promise<InventoryReservation[]> {
+    return Array.from(this.inventoryReservations.values())
+      .filter(reservation => reservation.orderId === orderId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  // Checks every line before reserving any, so a failed reservation leaves nothing behind
+  async reserveInventory(orderId: number, lines: StockAllocation[], expiresAt: Date): Promise<InventoryReservation[]> {
+    for (const line of lines) {
+      const location = this.stockLocations.get(line.locationId);
+      const onHand = location && this.isSellable(location) ? this.stockLevelFor(line.productId, line.locationId)?.quantity ?? 0 : 0;
+      const available = onHand - await this.getReservedQuantity(line.productId, line.locationId);
+      if (line.quantity > available) {
+        throw new InsufficientStockError(line.productId, line.quantity, Math.max(0, available));
+      }
+    }
+
+    return lines.map(line => {
+      const id = this.inventoryReservationId++;
+      const reservation: InventoryReservation = {
+        id,
+        orderId,
+        productId: line.productId,
+        quantity: line.quantity,
+        locationId: line.locationId,
+        status: "active",
+        expiresAt,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+      this.inventoryReservations.set(id, reservation);
+      return reservation;
+    });
+  }
+
+  async commitInventoryReservations(orderId: number): Promise<InventoryReservation[]> {
+    const now = new Date();
+    const committed: InventoryReservation[] = [];
+    for (const reservation of await this.getInventoryReservations(orderId)) {
+      if (reservation.status !== "active" || reservation.expiresAt <= now) continue;
+
+      if (reservation.locationId !== null) {
+        this.adjustStockLevel(reservation.productId, reservation.locationId, -reservation.quantity);
+      }
+      reservation.status = "committed";
+      reservation.updatedAt = new Date();
+      committed.push(reservation);
+    }
+    return committed;
+  }
+
+  async releaseInventoryReservations(orderId: number): Promise<number> {
+    let released = 0;
+    for (const reservation of await this.getInventoryReservations(orderId)) {
+      if (reservation.status !== "active") continue;
+      reservation.status = "released";
+      reservation.updatedAt = new Date();
+      released++;
+    }
+    return released;
+  }
+
+  async restockInventoryReservations(orderId: number): Promise<number> {
+    let restocked = 0;
+    for (const reservation of await this.getInventoryReservations(orderId)) {
+      if (reservation.status === "committed") {
+        if (reservation.locationId !== null && this.products.has(reservation.productId)) {
+          this.adjustStockLevel(reservation.productId, reservation.locationId, reservation.quantity);
+        }
+        reservation.status = "restocked";
+        reservation.updatedAt = new Date();
+        restocked++;
+      } else if (reservation.status === "active") {
+        reservation.status = "released";
+        reservation.updatedAt = new Date();
+      }
+    }
+    return restocked;
+  }
+
+  async releaseExpiredInventoryReservations(now: Date = new Date()): Promise<number> {
+    let released = 0;
+    for (const reservation of Array.from(this.inventoryReservations.values())) {
+      if (reservation.status !== "active" || reservation.expiresAt > now) continue;
+      reservation.status = "released";
+      reservation.updatedAt = now;
+      released++;
+    }
+    return released;
+  }
+
+  // Webhook events
+  async claimWebhookEvent(eventId: string, type: string): Promise<boolean> {
+    if (this.processedWebhookEvents.has(eventId)) return false;
+    this.processedWebhookEvents.set(eventId, {
+      id: this.processedWebhookEventId++,
+      eventId,
+      type,
+      processedAt: new Date()
+    });
+    return true;
+  }
+
+  async releaseWebhookEvent(eventId: string): Promise<void> {
+    this.processedWebhookEvents.delete(eventId);
+  }
+
+  // Returns
+  async createReturnRequest(request: InsertReturnRequest, items: InsertReturnItem[]): Promise<ReturnRequest> {
+    const id = this.returnRequestId++;
+    const returnRequest: ReturnRequest = {
+      id,
+      rmaNumber: `RMA-${Date.now().toString().slice(-6)}-${id}`,
+      orderId: request.orderId,
+      userId: request.userId ?? null,
+      status: "requested",
+      customerNote: request.customerNote ?? null,
+      staffNote: null,
+      restockingFee: "0",
+      refundAmount: "0",
+      refundId: null,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.returnRequests.set(id, returnRequest);
+
+    for (const item of items) {
+      const itemId = this.returnItemId++;
+      this.returnItems.set(itemId, {
+        id: itemId,
+        returnRequestId: id,
+        orderItemId: item.orderItemId,
+        quantity: item.quantity,
+        reason: item.reason,
+        restockingFeePercent: 0,
+        restockingFee: "0",
+        refundAmount: "0"
+      });
+    }
+    return returnRequest;
+  }
+
+  async getReturnRequestById(id: number): Promise<ReturnRequest | undefined> {
+    return this.returnRequests.get(id);
+  }
+
+  async getReturnRequests(filter: { orderId?: number; status?: ReturnStatus } = {}): Promise<ReturnRequest[]> {
+    return Array.from(this.returnRequests.values())
+      .filter(request =>
+        (filter.orderId === undefined || request.orderId === filter.orderId) &&
+        (filter.status === undefined || request.status === filter.status)
+      )
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getReturnItems(returnRequestId: number): Promise<ReturnItem[]> {
+    return Array.from(this.returnItems.values())
+      .filter(item => item.returnRequestId === returnRequestId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async updateReturnItemAmounts(id: number, amounts: ReturnItemAmounts): Promise<ReturnItem | undefined> {
+    const item = this.returnItems.get(id);
+    if (!item) return undefined;
+
+    Object.assign(item, amounts);
+    return item;
+  }
+
+  async updateReturnStatus(id: number, status: ReturnStatus, update: ReturnRequestUpdate = {}): Promise<ReturnRequest | undefined> {
+    const returnRequest = this.returnRequests.get(id);
+    if (!returnRequest) return undefined;
+
+    if (!canTransitionReturn(returnRequest.status, status)) {
+      throw new InvalidReturnTransitionError(returnRequest.status, status);
+    }
+    Object.assign(returnRequest, update, { status, updatedAt: new Date() });
+    return returnRequest;
+  }
+
+  async recordOrderItemRefund(orderItemId: number, quantity: number, amount: string): Promise<OrderItem | undefined> {
+    const item = this.orderItems.get(orderItemId);
+    if (!item) return undefined;
+
+    item.refundedQuantity += quantity;
+    item.refundedAmount = (parseFloat(item.refundedAmount) + parseFloat(amount)).toFixed(2);
+    return item;
+  }
+
+  // Promotions
+  async getPromotions(): Promise<Promotion[]> {
+    return Array.from(this.promotions.values()).sort((a, b) => a.code.localeCompare(b.code));
+  }
+
+  async getPromotionById(id: number): Promise<Promotion | undefined> {
+    return this.promotions.get(id);
+  }
+
+  async getPromotionByCode(code: string): Promise<Promotion | undefined> {
+    const normalized = code.trim().toUpperCase();
+    return Array.from(this.promotions.values()).find(promotion => promotion.code === normalized);
+  }
+
+  async createPromotion(promotionData: InsertPromotion): Promise<Promotion> {
+    const id = this.promotionId++;
+    const promotion: Promotion = {
+      id,
+      value: "0",
+      minSubtotal: null,
+      productIds: [],
+      categoryIds: [],
+      brandIds: [],
+      stackable: false,
+      isActive: true,
+      ...promotionData,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.promotions.set(id, promotion);
+    return promotion;
+  }
+
+  async updatePromotion(id: number, promotionData: InsertPromotion): Promise<Promotion | undefined> {
+    const promotion = this.promotions.get(id);
+    if (!promotion) return undefined;
+
+    Object.assign(promotion, promotionData, { updatedAt: new Date() });
+    return promotion;
+  }
+
+  async getPromotionUsage(promotionId: number, customer?: PromotionCustomer): Promise<PromotionUsage> {
+    const now = new Date();
+    const redemptions = Array.from(this.promotionRedemptions.values()).filter(redemption => {
+      const status = this.orders.get(redemption.orderId)?.status;
+      return redemption.promotionId === promotionId &&
+        status !== "cancelled" && (status !== "pending" || redemption.expiresAt > now);
+    });
+    const email = customer?.email.trim().toLowerCase();
+    return {
+      total: redemptions.length,
+      customer: customer
+        ? redemptions.filter(redemption =>
+            (customer.userId !== null && redemption.userId === customer.userId) || redemption.email === email
+          ).length
+        : 0
+    };
+  }
+
+  async getPromotionRedemptions(orderId: number): Promise<PromotionRedemption[]> {
+    return Array.from(this.promotionRedemptions.values())
+      .filter(redemption => redemption.orderId === orderId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  // Checks every limit before recording any use, so a failed redemption leaves nothing behind
+  async redeemPromotions(
+    orderId: number,
+    customer: PromotionCustomer,
+    lines: PromotionRedemptionLine[],
+    expiresAt: Date
+  ): Promise<PromotionRedemption[]> {
+    for (const line of lines) {
+      const promotion = this.promotions.get(line.promotionId);
+      if (!promotion) continue;
+      const usage = await this.getPromotionUsage(promotion.id, customer);
+      if ((promotion.usageLimit !== null && usage.total >= promotion.usageLimit) ||
+          (promotion.perCustomerLimit !== null && usage.customer >= promotion.perCustomerLimit)) {
+        throw new PromotionLimitError(promotion.code);
+      }
+    }
+
+    return lines.map(line => {
+      const id = this.promotionRedemptionId++;
+      const redemption: PromotionRedemption = {
+        id,
+        promotionId: line.promotionId,
+        orderId,
+        userId: customer.userId,
+        email: customer.email.trim().toLowerCase(),
+        amount: line.amount,
+        expiresAt,
+        createdAt: new Date()
+      };
+      this.promotionRedemptions.set(id, redemption);
+      return redemption;
+    });
+  }
+
+  // Bundles
+  async getBundles(options: { productId?: number; isActive?: boolean } = {}): Promise<Bundle[]> {
+    return Array.from(this.bundles.values())
+      .filter(bundle =>
+        (options.productId === undefined || bundle.productId === options.productId) &&
+        (options.isActive === undefined || bundle.isActive === options.isActive)
+      )
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getBundleById(id: number): Promise<Bundle | undefined> {
+    return this.bundles.get(id);
+  }
+
+  async getBundlesWithin(productIds: number[]): Promise<Bundle[]> {
+    return Array.from(this.bundles.values())
+      .filter(bundle => bundle.isActive && bundle.productIds.every(id => productIds.includes(id)))
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createBundle(bundleData: InsertBundle, source: BundleSource = "curated"): Promise<Bundle> {
+    const id = this.bundleId++;
+    const bundle: Bundle = {
+      id,
+      isActive: true,
+      ...bundleData,
+      source,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.bundles.set(id, bundle);
+    return bundle;
+  }
+
+  async updateBundle(id: number, bundleData: Partial<InsertBundle> & { source?: BundleSource }): Promise<Bundle | undefined> {
+    const bundle = this.bundles.get(id);
+    if (!bundle) return undefined;
+
+    Object.assign(bundle, bundleData, { updatedAt: new Date() });
+    return bundle;
+  }
+
+  // Suppliers
+  async getSuppliers(options: { isActive?: boolean } = {}): Promise<Supplier[]> {
+    return Array.from(this.suppliers.values())
+      .filter(supplier => options.isActive === undefined || supplier.isActive === options.isActive)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getSupplierById(id: number): Promise<Supplier | undefined> {
+    return this.suppliers.get(id);
+  }
+
+  async getSupplierByName(name: string): Promise<Supplier | undefined> {
+    return Array.from(this.suppliers.values()).find(supplier => supplier.name.toLowerCase() === name.toLowerCase());
+  }
+
+  async createSupplier(supplierData: InsertSupplier): Promise<Supplier> {
+    const id = this.supplierId++;
+    const supplier: Supplier = {
+      id,
+      website: null,
+      contactEmail: null,
+      contactPhone: null,
+      address: null,
+      dropshipping: true,
+      apiAvailable: false,
+      minimumOrder: "0",
+      returnWindowDays: 30,
+      restockingFeePercent: 0,
+      paymentTerms: null,
+      notes: null,
+      isActive: true,
+      ...supplierData,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.suppliers.set(id, supplier);
+    return supplier;
+  }
+
+  async updateSupplier(id: number, supplierData: Partial<InsertSupplier>): Promise<Supplier | undefined> {
+    const supplier = this.suppliers.get(id);
+    if (!supplier) return undefined;
+
+    Object.assign(supplier, supplierData, { updatedAt: new Date() });
+    // Whether its stock can be sold may have changed
+    const location = await this.getStockLocationBySupplierId(id);
+    if (location) this.syncLocationInventoryCounts(location.id);
+    return supplier;
+  }
+
+  async deleteSupplier(id: number): Promise<boolean> {
+    for (const supplierProduct of Array.from(this.supplierProducts.values())) {
+      if (supplierProduct.supplierId === id) this.supplierProducts.delete(supplierProduct.id);
+    }
+    const location = await this.getStockLocationBySupplierId(id);
+    if (location) this.deleteStockLocation(location.id);
+    for (const purchaseOrder of Array.from(this.purchaseOrders.values())) {
+      if (purchaseOrder.supplierId === id) purchaseOrder.supplierId = null;
+    }
+    for (const profile of Array.from(this.supplierFeedProfiles.values())) {
+      if (profile.supplierId === id) this.supplierFeedProfiles.delete(profile.id);
+    }
+    for (const feedImport of Array.from(this.feedImports.values())) {
+      if (feedImport.supplierId === id) this.deleteFeedImport(feedImport.id);
+    }
+    return this.suppliers.delete(id);
+  }
+
+  async getSupplierProducts(options: { supplierId?: number; productId?: number } = {}): Promise<SupplierProduct[]> {
+    return Array.from(this.supplierProducts.values())
+      .filter(supplierProduct =>
+        (options.supplierId === undefined || supplierProduct.supplierId === options.supplierId) &&
+        (options.productId === undefined || supplierProduct.productId === options.productId)
+      )
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getSupplierProductById(id: number): Promise<SupplierProduct | undefined> {
+    return this.supplierProducts.get(id);
+  }
+
+  async createSupplierProduct(supplierProductData: InsertSupplierProduct): Promise<SupplierProduct> {
+    if (supplierProductData.isPreferred) {
+      this.unmarkPreferredSuppliers(supplierProductData.productId);
+    }
+
+    const id = this.supplierProductId++;
+    const supplierProduct: SupplierProduct = {
+      id,
+      minimumOrderQuantity: 1,
+      leadTimeDays: 0,
+      isPreferred: false,
+      ...supplierProductData,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.supplierProducts.set(id, supplierProduct);
+    return supplierProduct;
+  }
+
+  async updateSupplierProduct(id: number, supplierProductData: Partial<InsertSupplierProduct>): Promise<SupplierProduct | undefined> {
+    const supplierProduct = this.supplierProducts.get(id);
+    if (!supplierProduct) return undefined;
+
+    // Only one supplier per product can be preferred
+    if (supplierProductData.isPreferred) {
+      this.unmarkPreferredSuppliers(supplierProductData.productId ?? supplierProduct.productId);
+    }
+
+    Object.assign(supplierProduct, supplierProductData, { updatedAt: new Date() });
+    return supplierProduct;
+  }
+
+  async deleteSupplierProduct(id: number): Promise<boolean> {
+    return this.supplierProducts.delete(id);
+  }
+
+  private unmarkPreferredSuppliers(productId: number) {
+    for (const supplierProduct of Array.from(this.supplierProducts.values())) {
+      if (supplierProduct.productId === productId && supplierProduct.isPreferred) {
+        supplierProduct.isPreferred = false;
+      }
+    }
+  }
+
+  // Stock locations
+  private isSellable(location: StockLocation): boolean {
+    if (!location.isActive) return false;
+    if (location.supplierId === null) return true;
+    const supplier = this.suppliers.get(location.supplierId);
+    return !!supplier?.isActive && supplier.dropshipping;
+  }
+
+  async getStockLocations(options: { sellable?: boolean } = {}): Promise<StockLocation[]> {
+    return Array.from(this.stockLocations.values())
+      .filter(location => !options.sellable || this.isSellable(location))
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getStockLocationById(id: number): Promise<StockLocation | undefined> {
+    return this.stockLocations.get(id);
+  }
+
+  async getStockLocationBySupplierId(supplierId: number): Promise<StockLocation | undefined> {
+    return Array.from(this.stockLocations.values()).find(location => location.supplierId === supplierId);
+  }
+
+  async createStockLocation(locationData: InsertStockLocation): Promise<StockLocation> {
+    const id = this.stockLocationId++;
+    const location: StockLocation = {
+      id,
+      name: locationData.name,
+      kind: locationData.kind,
+      supplierId: locationData.supplierId ?? null,
+      shippingDaysMin: locationData.shippingDaysMin ?? 1,
+      shippingDaysMax: locationData.shippingDaysMax ?? 2,
+      isActive: locationData.isActive ?? true,
+      createdAt: new Date()
+    };
+    this.stockLocations.set(id, location);
+    return location;
+  }
+
+  async updateStockLocation(id: number, locationData: Partial<InsertStockLocation>): Promise<StockLocation | undefined> {
+    const location = this.stockLocations.get(id);
+    if (!location) return undefined;
+
+    Object.assign(location, locationData);
+    this.syncLocationInventoryCounts(id);
+    return location;
+  }
+
+  // Its levels go with it, and reservations made there are left without a location
+  private deleteStockLocation(id: number) {
+    const productIds = new Set<number>();
+    for (const level of Array.from(this.stockLevels.values())) {
+      if (level.locationId !== id) continue;
+      productIds.add(level.productId);
+      this.stockLevels.delete(level.id);
+    }
+    for (const reservation of Array.from(this.inventoryReservations.values())) {
+      if (reservation.locationId === id) reservation.locationId = null;
+    }
+    this.stockLocations.delete(id);
+    productIds.forEach(productId => this.syncInventoryCount(productId));
+  }
+
+  async getStockLevels(options: { productId?: number; locationId?: number } = {}): Promise<StockLevel[]> {
+    return Array.from(this.stockLevels.values())
+      .filter(level =>
+        (options.productId === undefined || level.productId === options.productId) &&
+        (options.locationId === undefined || level.locationId === options.locationId)
+      )
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async setStockLevel(productId: number, locationId: number, quantity: number): Promise<StockLevel> {
+    const level = this.stockLevelFor(productId, locationId) ?? this.createStockLevel(productId, locationId);
+    level.quantity = Math.max(0, quantity);
+    level.updatedAt = new Date();
+    this.syncInventoryCount(productId);
+    return level;
+  }
+
+  private stockLevelFor(productId: number, locationId: number): StockLevel | undefined {
+    return Array.from(this.stockLevels.values()).find(level => level.productId === productId && level.locationId === locationId);
+  }
+
+  private createStockLevel(productId: number, locationId: number): StockLevel {
+    const level: StockLevel = { id: this.stockLevelId++, locationId, productId, quantity: 0, updatedAt: new Date() };
+    this.stockLevels.set(level.id, level);
+    return level;
+  }
+
+  private adjustStockLevel(productId: number, locationId: number, change: number) {
+    const level = this.stockLevelFor(productId, locationId) ?? this.createStockLevel(productId, locationId);
+    level.quantity = Math.max(0, level.quantity + change);
+    level.updatedAt = new Date();
+    this.syncInventoryCount(productId);
+  }
+
+  private syncInventoryCount(productId: number) {
+    const product = this.products.get(productId);
+    if (!product) return;
+
+    product.inventoryCount = Array.from(this.stockLevels.values())
+      .filter(level => level.productId === productId)
+      .filter(level => {
+        const location = this.stockLocations.get(level.locationId);
+        return !!location && this.isSellable(location);
+      })
+      .reduce((sum, level) => sum + level.quantity, 0);
+  }
+
+  private syncLocationInventoryCounts(locationId: number) {
+    for (const level of Array.from(this.stockLevels.values())) {
+      if (level.locationId === locationId) this.syncInventoryCount(level.productId);
+    }
+  }
+
+  // The first active warehouse, set up on first use
+  private defaultWarehouse(): StockLocation {
+    const warehouses = Array.from(this.stockLocations.values()).filter(location => location.kind === "warehouse");
+    const warehouse = warehouses.find(location => location.isActive) ?? warehouses[0];
+    if (warehouse) return warehouse;
+
+    const id = this.stockLocationId++;
+    const created: StockLocation = {
+      id,
+      name: DEFAULT_WAREHOUSE_NAME,
+      kind: "warehouse",
+      supplierId: null,
+      shippingDaysMin: 1,
+      shippingDaysMax: 2,
+      isActive: true,
+      createdAt: new Date()
+    };
+    this.stockLocations.set(id, created);
+    return created;
+  }
+
+  // Purchase orders
+  async createPurchaseOrder(purchaseOrderData: InsertPurchaseOrder, items: InsertPurchaseOrderItem[]): Promise<PurchaseOrder> {
+    const id = this.purchaseOrderId++;
+    const purchaseOrder: PurchaseOrder = {
+      id,
+      poNumber: `PO-${Date.now().toString().slice(-6)}-${id}`,
+      orderId: purchaseOrderData.orderId,
+      supplierId: purchaseOrderData.supplierId ?? null,
+      supplierName: purchaseOrderData.supplierName,
+      status: "pending",
+      sentVia: null,
+      supplierReference: null,
+      subtotal: purchaseOrderData.subtotal,
+      attempts: 0,
+      lastError: null,
+      sentAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.purchaseOrders.set(id, purchaseOrder);
+
+    for (const item of items) {
+      const itemId = this.purchaseOrderItemId++;
+      this.purchaseOrderItems.set(itemId, {
+        id: itemId,
+        purchaseOrderId: id,
+        ...item,
+        status: "pending",
+        carrier: null,
+        trackingNumber: null,
+        updatedAt: new Date()
+      });
+    }
+    return purchaseOrder;
+  }
+
+  async getPurchaseOrderById(id: number): Promise<PurchaseOrder | undefined> {
+    return this.purchaseOrders.get(id);
+  }
+
+  async getPurchaseOrders(filter: { orderId?: number; supplierId?: number; status?: PurchaseOrderStatus } = {}): Promise<PurchaseOrder[]> {
+    return Array.from(this.purchaseOrders.values())
+      .filter(purchaseOrder =>
+        (filter.orderId === undefined || purchaseOrder.orderId === filter.orderId) &&
+        (filter.supplierId === undefined || purchaseOrder.supplierId === filter.supplierId) &&
+        (filter.status === undefined || purchaseOrder.status === filter.status)
+      )
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getPurchaseOrderItems(purchaseOrderId: number): Promise<PurchaseOrderItem[]> {
+    return Array.from(this.purchaseOrderItems.values())
+      .filter(item => item.purchaseOrderId === purchaseOrderId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async updatePurchaseOrder(id: number, update: PurchaseOrderUpdate): Promise<PurchaseOrder | undefined> {
+    const purchaseOrder = this.purchaseOrders.get(id);
+    if (!purchaseOrder) return undefined;
+
+    Object.assign(purchaseOrder, update, { updatedAt: new Date() });
+    return purchaseOrder;
+  }
+
+  async updatePurchaseOrderStatus(id: number, status: PurchaseOrderStatus, update: PurchaseOrderUpdate = {}): Promise<PurchaseOrder | undefined> {
+    const purchaseOrder = this.purchaseOrders.get(id);
+    if (!purchaseOrder) return undefined;
+
+    if (!canTransitionPurchaseOrder(purchaseOrder.status, status)) {
+      throw new InvalidPurchaseOrderTransitionError(purchaseOrder.status, status);
+    }
+    Object.assign(purchaseOrder, update, { status, updatedAt: new Date() });
+    return purchaseOrder;
+  }
+
+  async updatePurchaseOrderItem(id: number, update: PurchaseOrderItemUpdate): Promise<PurchaseOrderItem | undefined> {
+    const item = this.purchaseOrderItems.get(id);
+    if (!item) return undefined;
+
+    Object.assign(item, update, { updatedAt: new Date() });
+    return item;
+  }
+
+  // Supplier feeds
+  async getSupplierFeedProfiles(options: { supplierId?: number } = {}): Promise<SupplierFeedProfile[]> {
+    return Array.from(this.supplierFeedProfiles.values())
+      .filter(profile => options.supplierId === undefined || profile.supplierId === options.supplierId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getSupplierFeedProfileById(id: number): Promise<SupplierFeedProfile | undefined> {
+    return this.supplierFeedProfiles.get(id);
+  }
+
+  async createSupplierFeedProfile(profileData: InsertSupplierFeedProfile): Promise<SupplierFeedProfile> {
+    const id = this.supplierFeedProfileId++;
+    const profile: SupplierFeedProfile = {
+      id,
+      delimiter: ",",
+      sheet: null,
+      recordsPath: null,
+      discontinueMissing: true,
+      ...profileData,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.supplierFeedProfiles.set(id, profile);
+    return profile;
+  }
+
+  async updateSupplierFeedProfile(id: number, profileData: Partial<InsertSupplierFeedProfile>): Promise<SupplierFeedProfile | undefined> {
+    const profile = this.supplierFeedProfiles.get(id);
+    if (!profile) return undefined;
+
+    Object.assign(profile, profileData, { updatedAt: new Date() });
+    return profile;
+  }
+
+  async deleteSupplierFeedProfile(id: number): Promise<boolean> {
+    for (const feedImport of Array.from(this.feedImports.values())) {
+      if (feedImport.profileId === id) feedImport.profileId = null;
+    }
+    return this.supplierFeedProfiles.delete(id);
+  }
+
+  async createFeedImport(feedImportData: InsertFeedImport, changes: InsertFeedImportChange[]): Promise<FeedImport> {
+    const id = this.feedImportId++;
+    const feedImport: FeedImport = {
+      id,
+      profileId: null,
+      status: "review",
+      rowCount: 0,
+      unchangedCount: 0,
+      summary: {},
+      rowErrors: [],
+      error: null,
+      importedBy: null,
+      ...feedImportData,
+      reviewedBy: null,
+      reviewedAt: null,
+      createdAt: new Date()
+    };
+    this.feedImports.set(id, feedImport);
+
+    for (const change of changes) {
+      const changeId = this.feedImportChangeId++;
+      this.feedImportChanges.set(changeId, {
+        id: changeId,
+        importId: id,
+        productId: null,
+        before: {},
+        after: {},
+        ...change,
+        status: "pending",
+        note: null
+      });
+    }
+    return feedImport;
+  }
+
+  async getFeedImportById(id: number): Promise<FeedImport | undefined> {
+    return this.feedImports.get(id);
+  }
+
+  async getFeedImports(options: { supplierId?: number; status?: FeedImportStatus; limit?: number } = {}): Promise<FeedImport[]> {
+    const feedImports = Array.from(this.feedImports.values())
+      .filter(feedImport =>
+        (options.supplierId === undefined || feedImport.supplierId === options.supplierId) &&
+        (options.status === undefined || feedImport.status === options.status)
+      )
+      .sort((a, b) => b.id - a.id);
+    return options.limit !== undefined ? feedImports.slice(0, options.limit) : feedImports;
+  }
+
+  async getFeedImportChanges(importId: number): Promise<FeedImportChange[]> {
+    return Array.from(this.feedImportChanges.values())
+      .filter(change => change.importId === importId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async reviewFeedImport(id: number, review: FeedImportReview): Promise<FeedImport | undefined> {
+    const feedImport = this.feedImports.get(id);
+    if (!feedImport || feedImport.status !== "review") return undefined;
+
+    Object.assign(feedImport, review, { reviewedAt: new Date() });
+    return feedImport;
+  }
+
+  async updateFeedImportChange(id: number, update: FeedImportChangeUpdate): Promise<FeedImportChange | undefined> {
+    const change = this.feedImportChanges.get(id);
+    if (!change) return undefined;
+
+    Object.assign(change, update);
+    return change;
+  }
+
+  private deleteFeedImport(id: number) {
+    for (const change of Array.from(this.feedImportChanges.values())) {
+      if (change.importId === id) this.feedImportChanges.delete(change.id);
+    }
+    this.feedImports.delete(id);
+  }
+
+  // Analytics
+  async recordAnalyticsEvents(events: InsertAnalyticsEvent[]): Promise<number> {
+    for (const eventData of events) {
+      const id = this.analyticsEventId++;
+      this.analyticsEvents.set(id, {
+        id,
+        sessionId: null,
+        userId: null,
+        productId: null,
+        quantity: null,
+        value: null,
+        orderId: null,
+        data: null,
+        ...eventData,
+        receivedAt: new Date()
+      });
+    }
+    return events.length;
+  }
+
+  async summarizeProductActivity(from: Date, to: Date): Promise<ProductActivity[]> {
+    const byProduct = new Map<number, {
+      views: Set<string>;
+      addToCarts: Set<string>;
+      cartAbandons: Set<string>;
+      orders: Set<number>;
+      unitsSold: number;
+      revenue: number;
+    }>();
+
+    for (const event of Array.from(this.analyticsEvents.values())) {
+      if (event.productId === null || event.occurredAt < from || event.occurredAt >= to) continue;
+
+      let activity = byProduct.get(event.productId);
+      if (!activity) {
+        activity = { views: new Set(), addToCarts: new Set(), cartAbandons: new Set(), orders: new Set(), unitsSold: 0, revenue: 0 };
+        byProduct.set(event.productId, activity);
+      }
+      if (event.type === "product_view" && event.sessionId) activity.views.add(event.sessionId);
+      if (event.type === "add_to_cart" && event.sessionId) activity.addToCarts.add(event.sessionId);
+      if (event.type === "cart_abandon" && event.sessionId) activity.cartAbandons.add(event.sessionId);
+      if (event.type === "purchase") {
+        if (event.orderId !== null) activity.orders.add(event.orderId);
+        activity.unitsSold += event.quantity ?? 0;
+        activity.revenue += parseFloat(event.value ?? "0");
+      }
+    }
+
+    return Array.from(byProduct).map(([productId, activity]) => ({
+      productId,
+      views: activity.views.size,
+      addToCarts: activity.addToCarts.size,
+      cartAbandons: activity.cartAbandons.size,
+      orders: activity.orders.size,
+      unitsSold: activity.unitsSold,
+      revenue: activity.revenue.toFixed(2)
+    }));
+  }
+
+  async replaceProductDailyStats(day: string, rows: ProductActivity[]): Promise<void> {
+    for (const [id, stats] of Array.from(this.analyticsProductDaily)) {
+      if (stats.day === day) this.analyticsProductDaily.delete(id);
+    }
+    for (const row of rows) {
+      const id = this.analyticsProductDailyId++;
+      this.analyticsProductDaily.set(id, { id, day, ...row, updatedAt: new Date() });
+    }
+  }
+
+  async getProductDailyStats(options: { from: string; to: string; productId?: number }): Promise<AnalyticsProductDaily[]> {
+    return Array.from(this.analyticsProductDaily.values())
+      .filter(stats =>
+        stats.day >= options.from && stats.day <= options.to &&
+        (options.productId === undefined || stats.productId === options.productId)
+      )
+      .sort((a, b) => a.day.localeCompare(b.day) || a.productId - b.productId);
+  }
+
+  async summarizeSessionFunnel(from: Date, to: Date): Promise<SessionFunnelGroup[]> {
+    const events = Array.from(this.analyticsEvents.values());
+    const groups = new Map<string, SessionFunnelGroup>();
+
+    for (const start of events) {
+      if (start.type !== "session_start" || !start.sessionId || start.occurredAt < from || start.occurredAt >= to) continue;
+
+      const sessionEvents = events.filter(event => event.sessionId === start.sessionId);
+      const step = Math.max(...sessionEvents.map(event => eventFunnelStep[event.type]));
+      const orderIds = new Set(sessionEvents.flatMap(event => event.type === "purchase" && event.orderId !== null ? [event.orderId] : []));
+      const revenue = Array.from(orderIds).reduce((sum, orderId) => sum + parseFloat(this.orders.get(orderId)?.total ?? "0"), 0);
+
+      const data = start.data ?? {};
+      const group: SessionFunnelGroup = {
+        day: start.occurredAt.toISOString().slice(0, 10),
+        mobile: (data.device as { mobileDevice?: boolean } | undefined)?.mobileDevice === true,
+        source: (data.source as TrafficSource | undefined) ?? "direct",
+        returning: data.returning === true,
+        step,
+        sessions: 0,
+        orders: 0,
+        revenue: "0.00"
+      };
+      const key = [group.day, group.mobile, group.source, group.returning, group.step].join("|");
+      const existing = groups.get(key) ?? group;
+      existing.sessions++;
+      existing.orders += orderIds.size;
+      existing.revenue = (parseFloat(existing.revenue) + revenue).toFixed(2);
+      groups.set(key, existing);
+    }
+
+    return Array.from(groups.values());
+  }
+
+  async getShopperEvents(options: { sessionId?: string; userId?: number; since: Date; limit: number }): Promise<AnalyticsEvent[]> {
+    if (options.sessionId === undefined && options.userId === undefined) return [];
+
+    return Array.from(this.analyticsEvents.values())
+      .filter(event =>
+        event.occurredAt >= options.since &&
+        ((options.sessionId !== undefined && event.sessionId === options.sessionId) ||
+          (options.userId !== undefined && event.userId === options.userId))
+      )
+      .sort((a, b) => b.occurredAt.getTime() - a.occurredAt.getTime() || b.id - a.id)
+      .slice(0, options.limit);
+  }
+
+  // Articles
+  async getArticles(options: {
+    limit?: number;
+    offset?: number;
+    isPublished?: boolean;
+  } = {}): Promise<{ articles: Article[]; total: number }> {
+    let filtered = Array.from(this.articles.values());
+
+    // Apply filters
     if (options.isPublished !== undefined) {
       filtered = filtered.filter(article => article.isPublished === options.isPublished);
     }
 
-    // Sort by published date (newest first)
-    filtered.sort((a, b) => {
-      const dateA = a.publishedAt || a.createdAt;
-      const dateB = b.publishedAt || b.createdAt;
-      return dateB.getTime() - dateA.getTime();
+    // Sort by published date (newest first)
+    filtered.sort((a, b) => {
+      const dateA = a.publishedAt || a.createdAt;
+      const dateB = b.publishedAt || b.createdAt;
+      return dateB.getTime() - dateA.getTime();
+    });
+
+    // Apply pagination
+    const total = filtered.length;
+    if (options.limit !== undefined && options.offset !== undefined) {
+      filtered = filtered.slice(options.offset, options.offset + options.limit);
+    }
+
+    return { articles: filtered, total };
+  }
+
+  async getArticleBySlug(slug: string): Promise<Article | undefined> {
+    return Array.from(this.articles.values()).find(
+      (article) => article.slug === slug
+    );
+  }
+
+  async createArticle(article: InsertArticle): Promise<Article> {
+    const id = this.articleId++;
+    const newArticle: Article = { 
+      id, 
+      ...article,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.articles.set(id, newArticle);
+    return newArticle;
+  }
+
+  // Contact Messages
+  async createContactMessage(message: InsertContactMessage): Promise<ContactMessage> {
+    const id = this.contactMessageId++;
+    const newMessage: ContactMessage = { 
+      id, 
+      ...message,
+      isRead: false,
+      createdAt: new Date()
+    };
+    this.contactMessages.set(id, newMessage);
+    return newMessage;
+  }
+
+  // Newsletter Subscribers
+  async createSubscriber(subscriber: InsertSubscriber): Promise<Subscriber> {
+    const existing = await this.getSubscriberByEmail(subscriber.email);
+    if (existing) {
+      if (!existing.isActive) {
+        existing.isActive = true;
+        existing.subscribedAt = new Date();
+        this.subscribers.set(existing.id, existing);
+      }
+      return existing;
+    }
+
+    const id = this.subscriberId++;
+    const newSubscriber: Subscriber = { 
+      id, 
+      ...subscriber,
+      isActive: true,
+      subscribedAt: new Date()
+    };
+    this.subscribers.set(id, newSubscriber);
+    return newSubscriber;
+  }
+
+  async getSubscriberByEmail(email: string): Promise<Subscriber | undefined> {
+    return Array.from(this.subscribers.values()).find(
+      (subscriber) => subscriber.email.toLowerCase() === email.toLowerCase()
+    );
+  }
+
+  // Chatbot
+  async createChatConversation(conversation: InsertChatConversation): Promise<ChatConversation> {
+    const id = this.chatConversationId++;
+    const newConversation: ChatConversation = { 
+      id, 
+      ...conversation,
+      createdAt: new Date()
+    };
+    this.chatConversations.set(id, newConversation);
+    return newConversation;
+  }
+
+  async createChatMessage(message: InsertChatMessage): Promise<ChatMessage> {
+    const id = this.chatMessageId++;
+    const newMessage: ChatMessage = { 
+      id, 
+      ...message,
+      createdAt: new Date()
+    };
+    this.chatMessages.set(id, newMessage);
+    return newMessage;
+  }
+
+  async getChatMessagesByConversationId(conversationId: number): Promise<ChatMessage[]> {
+    return Array.from(this.chatMessages.values())
+      .filter(message => message.conversationId === conversationId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+}
+
+// Columns the product listing may be sorted by
+const productSortColumns = {
+  name: products.name,
+  price: products.price,
+  rating: products.rating,
+  reviewCount: products.reviewCount,
+  inventoryCount: products.inventoryCount,
+  createdAt: products.createdAt,
+};
+
+// Exact match regardless of case; unlike ilike, % and _ in the value are matched literally
+const equalsIgnoringCase = (column: AnyPgColumn, value: string) => sql`lower(${column}) = lower(${value})`;
+
+// Stock at these can be sold: active locations, and for suppliers, active dropshippers
+const sellableLocation = and(
+  eq(stockLocations.isActive, true),
+  or(isNull(stockLocations.supplierId), and(eq(suppliers.isActive, true), eq(suppliers.dropshipping, true)))
+);
+
+// A product's stock over the sellable locations, which its inventoryCount is kept at
+const sellableStock = (productId: number) => sql<number>`(
+  select coalesce(sum(${stockLevels.quantity}), 0)::int
+  from ${stockLevels}
+  inner join ${stockLocations} on ${stockLocations.id} = ${stockLevels.locationId}
+  left join ${suppliers} on ${suppliers.id} = ${stockLocations.supplierId}
+  where ${stockLevels.productId} = ${productId} and ${sellableLocation}
+)`;
+
+// PostgreSQL storage implementation backed by Drizzle
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  // Users
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(ilike(users.username, username));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(ilike(users.email, email));
+    return user;
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const [newUser] = await this.db
+      .insert(users)
+      .values({ ...user, password: await hashPassword(user.password) })
+      .returning();
+    return newUser;
+  }
+
+  async updateUserPassword(id: number, password: string): Promise<User | undefined> {
+    return this.updateUser(id, { password: await hashPassword(password) });
+  }
+
+  async updateUser(id: number, userData: Partial<User>): Promise<User | undefined> {
+    const { id: _id, ...data } = userData;
+    const [user] = await this.db.update(users).set(data).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async updateStripeCustomerId(userId: number, stripeCustomerId: string): Promise<User> {
+    const user = await this.updateUser(userId, { stripeCustomerId });
+    if (!user) {
+      throw new Error(`User with ID ${userId} not found`);
+    }
+    return user;
+  }
+  // Password Resets
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const [newToken] = await this.db.insert(passwordResetTokens).values(token).returning();
+    return newToken;
+  }
+
+  async consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    // The usedAt check and the update are one statement, so two requests can't both use the token
+    const [token] = await this.db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(passwordResetTokens.tokenHash, tokenHash),
+        isNull(passwordResetTokens.usedAt),
+        gt(passwordResetTokens.expiresAt, new Date())
+      ))
+      .returning();
+    return token;
+  }
+
+  // Audit Log
+  async createAuditLog(entry: InsertAuditLog): Promise<AuditLog> {
+    const [newEntry] = await this.db.insert(auditLogs).values(entry).returning();
+    return newEntry;
+  }
+
+  async getAuditLogs(options: {
+    limit?: number;
+    offset?: number;
+    userId?: number;
+    action?: string;
+  } = {}): Promise<{ entries: AuditLog[]; total: number }> {
+    const { limit = 50, offset = 0, userId, action } = options;
+    
+    const conditions: SQL[] = [];
+    if (userId !== undefined) conditions.push(eq(auditLogs.userId, userId));
+    if (action !== undefined) conditions.push(eq(auditLogs.action, action));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    
+    const [{ total }] = await this.db.select({ total: count() }).from(auditLogs).where(where);
+    const entries = await this.db
+      .select()
+      .from(auditLogs)
+      .where(where)
+      .orderBy(desc(auditLogs.id))
+      .limit(limit)
+      .offset(offset);
+    
+    return { entries, total };
+  }
+
+
+  // Categories
+  async getCategories(): Promise<Category[]> {
+    return this.db.select().from(categories).orderBy(asc(categories.id));
+  }
+
+  async getCategoryBySlug(slug: string): Promise<Category | undefined> {
+    const [category] = await this.db.select().from(categories).where(eq(categories.slug, slug));
+    return category;
+  }
+
+  async getCategoryById(id: number): Promise<Category | undefined> {
+    const [category] = await this.db.select().from(categories).where(eq(categories.id, id));
+    return category;
+  }
+
+  async createCategory(category: InsertCategory): Promise<Category> {
+    const [newCategory] = await this.db.insert(categories).values(category).returning();
+    return newCategory;
+  }
+
+  async updateCategory(id: number, categoryData: Partial<Category>): Promise<Category | undefined> {
+    const { id: _id, ...data } = categoryData;
+    const [category] = await this.db.update(categories).set(data).where(eq(categories.id, id)).returning();
+    return category;
+  }
+
+  async deleteCategory(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(categories)
+      .where(eq(categories.id, id))
+      .returning({ id: categories.id });
+    return deleted.length > 0;
+  }
+
+  // Brands
+  async getBrands(): Promise<Brand[]> {
+    return this.db.select().from(brands).orderBy(asc(brands.id));
+  }
+
+  async getBrandBySlug(slug: string): Promise<Brand | undefined> {
+    const [brand] = await this.db.select().from(brands).where(eq(brands.slug, slug));
+    return brand;
+  }
+
+  async getBrandById(id: number): Promise<Brand | undefined> {
+    const [brand] = await this.db.select().from(brands).where(eq(brands.id, id));
+    return brand;
+  }
+
+  async createBrand(brand: InsertBrand): Promise<Brand> {
+    const [newBrand] = await this.db.insert(brands).values(brand).returning();
+    return newBrand;
+  }
+
+  async updateBrand(id: number, brandData: Partial<Brand>): Promise<Brand | undefined> {
+    const { id: _id, ...data } = brandData;
+    const [brand] = await this.db.update(brands).set(data).where(eq(brands.id, id)).returning();
+    return brand;
+  }
+
+  async deleteBrand(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(brands)
+      .where(eq(brands.id, id))
+      .returning({ id: brands.id });
+    return deleted.length > 0;
+  }
+
+  // Vehicle Models
+  async getVehicleModels(): Promise<VehicleModel[]> {
+    return this.db.select().from(vehicleModels).orderBy(asc(vehicleModels.id));
+  }
+
+  async getVehicleModelById(id: number): Promise<VehicleModel | undefined> {
+    const [vehicleModel] = await this.db.select().from(vehicleModels).where(eq(vehicleModels.id, id));
+    return vehicleModel;
+  }
+
+  async getVehicleMakes(): Promise<string[]> {
+    const rows = await this.db
+      .selectDistinct({ make: vehicleModels.make })
+      .from(vehicleModels)
+      .orderBy(asc(vehicleModels.make));
+    return rows.map(row => row.make);
+  }
+
+  async getVehicleModelsByMake(make: string): Promise<string[]> {
+    const rows = await this.db
+      .selectDistinct({ model: vehicleModels.model })
+      .from(vehicleModels)
+      .where(eq(vehicleModels.make, make))
+      .orderBy(asc(vehicleModels.model));
+    return rows.map(row => row.model);
+  }
+
+  async getVehicleYearsByMakeAndModel(make: string, model: string): Promise<number[]> {
+    const rows = await this.db
+      .selectDistinct({ year: vehicleModels.year })
+      .from(vehicleModels)
+      .where(and(eq(vehicleModels.make, make), eq(vehicleModels.model, model)))
+      .orderBy(desc(vehicleModels.year));
+    return rows.map(row => row.year);
+  }
+
+  async createVehicleModel(vehicleModel: InsertVehicleModel): Promise<VehicleModel> {
+    const [newVehicleModel] = await this.db.insert(vehicleModels).values(vehicleModel).returning();
+    return newVehicleModel;
+  }
+
+  // Products
+  async getProducts(options: ProductQueryOptions = {}): Promise<{ products: Product[]; total: number }> {
+    const conditions: (SQL | undefined)[] = [];
+
+    if (options.categoryId !== undefined) {
+      conditions.push(eq(products.categoryId, options.categoryId));
+    }
+
+    if (options.brandId !== undefined) {
+      conditions.push(eq(products.brandId, options.brandId));
+    }
+
+    if (options.isFeatured !== undefined) {
+      conditions.push(eq(products.isFeatured, options.isFeatured));
+    }
+
+    if (options.isActive !== undefined) {
+      conditions.push(sql`coalesce(${products.isActive}, true) = ${options.isActive}`);
+    }
+
+    if (options.searchTerm) {
+      const term = `%${options.searchTerm}%`;
+      conditions.push(or(
+        ilike(products.name, term),
+        ilike(products.description, term),
+        ilike(products.sku, term)
+      ));
+    }
+
+    if (options.fitment) {
+      const { make, model, year, variant } = options.fitment;
+      conditions.push(exists(
+        this.db
+          .select({ id: productFitments.id })
+          .from(productFitments)
+          .innerJoin(vehicleModels, eq(productFitments.vehicleModelId, vehicleModels.id))
+          .where(and(
+            eq(productFitments.productId, products.id),
+            equalsIgnoringCase(vehicleModels.make, make),
+            equalsIgnoringCase(vehicleModels.model, model),
+            lte(productFitments.yearFrom, year),
+            gte(productFitments.yearTo, year),
+            variant ? or(isNull(productFitments.variant), equalsIgnoringCase(productFitments.variant, variant)) : undefined
+          ))
+      ));
+    }
+
+    if (options.minPrice !== undefined) {
+      conditions.push(gte(products.price, options.minPrice.toFixed(2)));
+    }
+
+    if (options.maxPrice !== undefined) {
+      conditions.push(lte(products.price, options.maxPrice.toFixed(2)));
+    }
+
+    if (options.inStock) {
+      conditions.push(gt(products.inventoryCount, 0));
+    }
+
+    if (options.onSale) {
+      conditions.push(gt(products.compareAtPrice, products.price));
+    }
+
+    const where = and(...conditions);
+
+    let query = this.db.select().from(products).where(where).$dynamic();
+
+    const sortColumn = options.sortBy
+      ? productSortColumns[options.sortBy as keyof typeof productSortColumns]
+      : undefined;
+    if (sortColumn) {
+      query = query.orderBy(options.sortOrder === 'asc' ? asc(sortColumn) : desc(sortColumn), asc(products.id));
+    } else {
+      query = query.orderBy(asc(products.id));
+    }
+
+    if (options.limit !== undefined && options.offset !== undefined) {
+      query = query.limit(options.limit).offset(options.offset);
+    }
+
+    const [rows, [{ total }]] = await Promise.all([
+      query,
+      this.db.select({ total: count() }).from(products).where(where),
+    ]);
+
+    return { products: rows, total };
+  }
+
+  async getProductBySlug(slug: string): Promise<Product | undefined> {
+    const [product] = await this.db.select().from(products).where(eq(products.slug, slug));
+    return product;
+  }
+
+  async getProductById(id: number): Promise<Product | undefined> {
+    const [product] = await this.db.select().from(products).where(eq(products.id, id));
+    return product;
+  }
+
+  async getProductBySku(sku: string): Promise<Product | undefined> {
+    const [product] = await this.db.select().from(products).where(eq(products.sku, sku));
+    return product;
+  }
+
+  async createProduct(product: InsertProduct): Promise<Product> {
+    const warehouseId = product.inventoryCount ? await this.defaultWarehouseId() : null;
+    return this.db.transaction((tx) => this.insertProduct(tx, product, warehouseId));
+  }
+
+  async updateProduct(id: number, productData: Partial<Product>): Promise<Product | undefined> {
+    if (productData.inventoryCount === undefined || productData.inventoryCount === null) {
+      return this.writeProduct(this.db, id, productData, null);
+    }
+
+    const warehouseId = await this.defaultWarehouseId();
+    return this.db.transaction((tx) => this.writeProduct(tx, id, productData, warehouseId));
+  }
+
+  // New stock goes into `warehouseId`
+  private async insertProduct(
+    db: Pick<Database, "select" | "insert" | "update">,
+    product: InsertProduct,
+    warehouseId: number | null
+  ): Promise<Product> {
+    const [newProduct] = await db.insert(products).values({ ...product, inventoryCount: 0 }).returning();
+    if (warehouseId === null || !product.inventoryCount) return newProduct;
+
+    await this.adjustStockLevel(db, newProduct.id, warehouseId, product.inventoryCount);
+    const [stocked] = await db.select().from(products).where(eq(products.id, newProduct.id));
+    return stocked;
+  }
+
+  // A change to inventoryCount is made in `warehouseId`, which must then be given
+  private async writeProduct(
+    db: Pick<Database, "select" | "insert" | "update">,
+    id: number,
+    productData: Partial<Product>,
+    warehouseId: number | null
+  ): Promise<Product | undefined> {
+    const { id: _id, inventoryCount, ...data } = productData;
+    if (inventoryCount === undefined || inventoryCount === null || warehouseId === null) {
+      const [product] = await db.update(products).set(data).where(eq(products.id, id)).returning();
+      return product;
+    }
+
+    const [current] = await db
+      .select({ inventoryCount: products.inventoryCount })
+      .from(products)
+      .where(eq(products.id, id))
+      .for("update");
+    if (!current) return undefined;
+
+    const change = inventoryCount - (current.inventoryCount ?? 0);
+    if (change !== 0) await this.adjustStockLevel(db, id, warehouseId, change);
+    if (Object.keys(data).length === 0) {
+      const [product] = await db.select().from(products).where(eq(products.id, id));
+      return product;
+    }
+    const [product] = await db.update(products).set(data).where(eq(products.id, id)).returning();
+    return product;
+  }
+
+  async restockProduct(id: number, quantity: number): Promise<boolean> {
+    const warehouseId = await this.defaultWarehouseId();
+    return this.db.transaction(async (tx) => {
+      const [product] = await tx.select({ id: products.id }).from(products).where(eq(products.id, id));
+      if (!product) return false;
+
+      await this.adjustStockLevel(tx, id, warehouseId, quantity);
+      return true;
+    });
+  }
+
+  // Reviews go with the product; fitment rows cascade
+  async deleteProduct(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(reviews).where(eq(reviews.productId, id));
+      const deleted = await tx
+        .delete(products)
+        .where(eq(products.id, id))
+        .returning({ id: products.id });
+      return deleted.length > 0;
+    });
+  }
+
+
+  // Product Fitment
+  async getProductFitments(productId: number): Promise<ProductFitmentDetail[]> {
+    return this.getFitmentsForProducts([productId]);
+  }
+
+  async getFitmentsForProducts(productIds: number[]): Promise<ProductFitmentDetail[]> {
+    if (productIds.length === 0) return [];
+
+    const rows = await this.db
+      .select({ fitment: productFitments, make: vehicleModels.make, model: vehicleModels.model })
+      .from(productFitments)
+      .innerJoin(vehicleModels, eq(productFitments.vehicleModelId, vehicleModels.id))
+      .where(inArray(productFitments.productId, productIds))
+      .orderBy(asc(productFitments.productId), asc(vehicleModels.make), asc(vehicleModels.model), asc(productFitments.yearFrom));
+    return rows.map(({ fitment, make, model }) => ({ ...fitment, make, model }));
+  }
+
+  async createProductFitment(fitment: InsertProductFitment): Promise<ProductFitment> {
+    const [newFitment] = await this.db.insert(productFitments).values(fitment).returning();
+    return newFitment;
+  }
+
+  async deleteProductFitment(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(productFitments)
+      .where(eq(productFitments.id, id))
+      .returning({ id: productFitments.id });
+    return deleted.length > 0;
+  }
+
+  async saveProductWithFitments(
+    id: number | undefined,
+    product: InsertProduct,
+    fitments?: Omit<InsertProductFitment, "productId">[]
+  ): Promise<Product | undefined> {
+    const hasStock = id === undefined ? !!product.inventoryCount : product.inventoryCount !== undefined && product.inventoryCount !== null;
+    const warehouseId = hasStock ? await this.defaultWarehouseId() : null;
+    return this.db.transaction(async (tx) => {
+      const saved = id === undefined
+        ? await this.insertProduct(tx, product, warehouseId)
+        : await this.writeProduct(tx, id, product, warehouseId);
+      if (!saved || !fitments) return saved;
+
+      await tx.delete(productFitments).where(eq(productFitments.productId, saved.id));
+      if (fitments.length > 0) {
+        await tx.insert(productFitments).values(fitments.map(fitment => ({ ...fitment, productId: saved.id })));
+      }
+      return saved;
+    });
+  }
+
+  // Garage
+  async getUserVehicles(userId: number): Promise<UserVehicle[]> {
+    return this.db
+      .select()
+      .from(userVehicles)
+      .where(eq(userVehicles.userId, userId))
+      .orderBy(asc(userVehicles.id));
+  }
+
+  async getUserVehicleById(id: number): Promise<UserVehicle | undefined> {
+    const [vehicle] = await this.db.select().from(userVehicles).where(eq(userVehicles.id, id));
+    return vehicle;
+  }
+
+  async createUserVehicle(vehicle: InsertUserVehicle): Promise<UserVehicle> {
+    return this.db.transaction(async (tx) => {
+      if (vehicle.isActive) {
+        await tx.update(userVehicles).set({ isActive: false }).where(eq(userVehicles.userId, vehicle.userId));
+      }
+      const [newVehicle] = await tx.insert(userVehicles).values(vehicle).returning();
+      return newVehicle;
+    });
+  }
+
+  async updateUserVehicle(id: number, vehicleData: Partial<UserVehicle>): Promise<UserVehicle | undefined> {
+    const { id: _id, userId: _userId, ...changes } = vehicleData;
+    
+    return this.db.transaction(async (tx) => {
+      const [vehicle] = await tx.select().from(userVehicles).where(eq(userVehicles.id, id));
+      if (!vehicle) return undefined;
+      
+      // Only one vehicle per customer can be active
+      if (changes.isActive) {
+        await tx.update(userVehicles).set({ isActive: false }).where(eq(userVehicles.userId, vehicle.userId));
+      }
+      
+      const [updatedVehicle] = await tx
+        .update(userVehicles)
+        .set(changes)
+        .where(eq(userVehicles.id, id))
+        .returning();
+      return updatedVehicle;
+    });
+  }
+
+  async deleteUserVehicle(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(userVehicles)
+      .where(eq(userVehicles.id, id))
+      .returning({ id: userVehicles.id });
+    return deleted.length > 0;
+  }
+
+  // Reviews
+  async getReviewsByProductId(productId: number): Promise<Review[]> {
+    return this.db
+      .select()
+      .from(reviews)
+      .where(eq(reviews.productId, productId))
+      .orderBy(desc(reviews.createdAt));
+  }
+
+  async createReview(review: InsertReview): Promise<Review> {
+    return this.db.transaction(async (tx) => {
+      const [newReview] = await tx.insert(reviews).values(review).returning();
+
+      // Update product rating
+      const [{ averageRating, reviewCount }] = await tx
+        .select({ averageRating: avg(reviews.rating), reviewCount: count() })
+        .from(reviews)
+        .where(eq(reviews.productId, review.productId));
+
+      await tx
+        .update(products)
+        .set({
+          rating: Number(averageRating ?? 0).toFixed(1),
+          reviewCount,
+        })
+        .where(eq(products.id, review.productId));
+
+      return newReview;
+    });
+  }
+
+  // Orders
+  async getOrders(): Promise<Order[]> {
+    return this.db.select().from(orders).orderBy(desc(orders.createdAt));
+  }
+
+  async getOrderById(id: number): Promise<Order | undefined> {
+    const [order] = await this.db.select().from(orders).where(eq(orders.id, id));
+    return order;
+  }
+
+  async getOrderByNumber(orderNumber: string): Promise<Order | undefined> {
+    const [order] = await this.db.select().from(orders).where(eq(orders.orderNumber, orderNumber));
+    return order;
+  }
+
+  async getOrderByPaymentIntentId(paymentIntentId: string): Promise<Order | undefined> {
+    const [order] = await this.db.select().from(orders).where(eq(orders.stripePaymentIntentId, paymentIntentId));
+    return order;
+  }
+
+  async getOrdersByUserId(userId: number): Promise<Order[]> {
+    return this.db
+      .select()
+      .from(orders)
+      .where(eq(orders.userId, userId))
+      .orderBy(desc(orders.createdAt));
+  }
+  async findOrders(options: OrderQueryOptions = {}): Promise<{ orders: Order[]; total: number }> {
+    const { limit = 50, offset = 0, status, paymentStatus, createdFrom, createdBefore, searchTerm } = options;
+    
+    const conditions: SQL[] = [];
+    if (status !== undefined) conditions.push(eq(orders.status, status));
+    if (paymentStatus !== undefined) conditions.push(eq(orders.paymentStatus, paymentStatus));
+    if (createdFrom) conditions.push(gte(orders.createdAt, createdFrom));
+    if (createdBefore) conditions.push(lt(orders.createdAt, createdBefore));
+    if (searchTerm) conditions.push(ilike(orders.orderNumber, `%${searchTerm}%`));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    
+    const [{ total }] = await this.db.select({ total: count() }).from(orders).where(where);
+    const rows = await this.db
+      .select()
+      .from(orders)
+      .where(where)
+      .orderBy(desc(orders.createdAt), desc(orders.id))
+      .limit(limit)
+      .offset(offset);
+    
+    return { orders: rows, total };
+  }
+
+
+  async createOrder(orderData: InsertOrder): Promise<Order> {
+    // The order number embeds the row ID, so insert first and fill it in once the ID is known
+    return this.db.transaction(async (tx) => {
+      const [inserted] = await tx
+        .insert(orders)
+        .values({ ...orderData, orderNumber: `PENDING-${crypto.randomUUID()}` })
+        .returning({ id: orders.id });
+
+      const [order] = await tx
+        .update(orders)
+        .set({ orderNumber: `ORD-${Date.now().toString().slice(-6)}-${inserted.id}` })
+        .where(eq(orders.id, inserted.id))
+        .returning();
+
+      await tx.insert(orderEvents).values({ orderId: order.id, fromStatus: null, toStatus: order.status });
+      return order;
+    });
+  }
+
+  async updateOrderStatus(id: number, status: OrderStatus, change: OrderStatusChange = {}): Promise<Order | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Lock the row so concurrent changes (e.g. a webhook and a staff member) are checked one at a time
+      const [current] = await tx.select().from(orders).where(eq(orders.id, id)).for("update");
+      if (!current) return undefined;
+
+      if (!canTransitionOrder(current.status, status)) {
+        throw new InvalidOrderTransitionError(current.status, status);
+      }
+
+      const [order] = await tx
+        .update(orders)
+        .set({ status, updatedAt: new Date() })
+        .where(eq(orders.id, id))
+        .returning();
+
+      await tx.insert(orderEvents).values({
+        orderId: id,
+        fromStatus: current.status,
+        toStatus: status,
+        userId: change.userId ?? null,
+        note: change.note ?? null
+      });
+      return order;
+    });
+  }
+
+  async getOrderEvents(orderId: number): Promise<OrderEvent[]> {
+    return this.db
+      .select()
+      .from(orderEvents)
+      .where(eq(orderEvents.orderId, orderId))
+      .orderBy(asc(orderEvents.id));
+  }
+
+  async updatePaymentStatus(id: number, paymentStatus: string, stripePaymentIntentId?: string): Promise<Order | undefined> {
+    const [order] = await this.db
+      .update(orders)
+      .set({
+        paymentStatus,
+        ...(stripePaymentIntentId ? { stripePaymentIntentId } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(orders.id, id))
+      .returning();
+    return order;
+  }
+
+  async updateOrderShipment(id: number, shipment: OrderShipment): Promise<Order | undefined> {
+    const [order] = await this.db
+      .update(orders)
+      .set({ ...shipment, updatedAt: new Date() })
+      .where(eq(orders.id, id))
+      .returning();
+    return order;
+  }
+
+  async flagOrderStockIssue(id: number, issue: string): Promise<Order | undefined> {
+    const [order] = await this.db
+      .update(orders)
+      .set({ stockIssue: issue, updatedAt: new Date() })
+      .where(eq(orders.id, id))
+      .returning();
+    return order;
+  }
+
+  async recordOrderRefund(id: number, amount: string): Promise<Order | undefined> {
+    const [order] = await this.db
+      .update(orders)
+      .set({ refundedAmount: sql`${orders.refundedAmount} + ${amount}`, updatedAt: new Date() })
+      .where(eq(orders.id, id))
+      .returning();
+    return order;
+  }
+
+  // Order Items
+  async getOrderItemsByOrderId(orderId: number): Promise<OrderItem[]> {
+    return this.db
+      .select()
+      .from(orderItems)
+      .where(eq(orderItems.orderId, orderId))
+      .orderBy(asc(orderItems.id));
+  }
+
+  async createOrderItem(orderItem: InsertOrderItem): Promise<OrderItem> {
+    const [newOrderItem] = await this.db.insert(orderItems).values(orderItem).returning();
+    return newOrderItem;
+  }
+  async countOrderItemsByProductId(productId: number): Promise<number> {
+    const [{ total }] = await this.db
+      .select({ total: count() })
+      .from(orderItems)
+      .where(eq(orderItems.productId, productId));
+    return total;
+  }
+
+  // Inventory reservations
+  async getReservedQuantity(productId: number, locationId?: number): Promise<number> {
+    return this.reservedQuantity(this.db, productId, locationId);
+  }
+
+  private async reservedQuantity(db: Pick<Database, "select">, productId: number, locationId?: number): Promise<number> {
+    const [{ reserved }] = await db
+      .select({ reserved: sql<number>`coalesce(sum(${inventoryReservations.quantity}), 0)::int` })
+      .from(inventoryReservations)
+      .where(and(
+        eq(inventoryReservations.productId, productId),
+        locationId !== undefined ? eq(inventoryReservations.locationId, locationId) : undefined,
+        eq(inventoryReservations.status, "active"),
+        gt(inventoryReservations.expiresAt, new Date())
+      ));
+    return reserved;
+  }
+
+  async getInventoryReservations(orderId: number): Promise<InventoryReservation[]> {
+    return this.db
+      .select()
+      .from(inventoryReservations)
+      .where(eq(inventoryReservations.orderId, orderId))
+      .orderBy(asc(inventoryReservations.id));
+  }
+
+  // Product rows are locked while checking, so two checkouts can't both take the last unit
+  async reserveInventory(orderId: number, lines: StockAllocation[], expiresAt: Date): Promise<InventoryReservation[]> {
+    return this.db.transaction(async (tx) => {
+      const productIds = lines.map(line => line.productId).sort((a, b) => a - b);
+      await tx
+        .select({ id: products.id })
+        .from(products)
+        .where(inArray(products.id, productIds))
+        .orderBy(asc(products.id))
+        .for("update");
+
+      for (const line of lines) {
+        const [level] = await tx
+          .select({ quantity: stockLevels.quantity })
+          .from(stockLevels)
+          .innerJoin(stockLocations, eq(stockLocations.id, stockLevels.locationId))
+          .leftJoin(suppliers, eq(suppliers.id, stockLocations.supplierId))
+          .where(and(eq(stockLevels.productId, line.productId), eq(stockLevels.locationId, line.locationId), sellableLocation));
+        const available = (level?.quantity ?? 0) - await this.reservedQuantity(tx, line.productId, line.locationId);
+        if (line.quantity > available) {
+          throw new InsufficientStockError(line.productId, line.quantity, Math.max(0, available));
+        }
+      }
+
+      return tx
+        .insert(inventoryReservations)
+        .values(lines.map(line => ({ orderId, productId: line.productId, quantity: line.quantity, locationId: line.locationId, expiresAt })))
+        .returning();
+    });
+  }
+
+  async commitInventoryReservations(orderId: number): Promise<InventoryReservation[]> {
+    return this.db.transaction(async (tx) => {
+      const pending = await tx
+        .select()
+        .from(inventoryReservations)
+        .where(and(
+          eq(inventoryReservations.orderId, orderId),
+          eq(inventoryReservations.status, "active"),
+          gt(inventoryReservations.expiresAt, new Date())
+        ))
+        .for("update");
+
+      const committed: InventoryReservation[] = [];
+      for (const reservation of pending) {
+        if (reservation.locationId !== null) {
+          await this.adjustStockLevel(tx, reservation.productId, reservation.locationId, -reservation.quantity);
+        }
+        const [updated] = await tx
+          .update(inventoryReservations)
+          .set({ status: "committed", updatedAt: new Date() })
+          .where(eq(inventoryReservations.id, reservation.id))
+          .returning();
+        committed.push(updated);
+      }
+      return committed;
     });
+  }
+
+  async releaseInventoryReservations(orderId: number): Promise<number> {
+    const released = await this.db
+      .update(inventoryReservations)
+      .set({ status: "released", updatedAt: new Date() })
+      .where(and(eq(inventoryReservations.orderId, orderId), eq(inventoryReservations.status, "active")))
+      .returning({ id: inventoryReservations.id });
+    return released.length;
+  }
+
+  async restockInventoryReservations(orderId: number): Promise<number> {
+    return this.db.transaction(async (tx) => {
+      await tx
+        .update(inventoryReservations)
+        .set({ status: "released", updatedAt: new Date() })
+        .where(and(eq(inventoryReservations.orderId, orderId), eq(inventoryReservations.status, "active")));
+
+      const restocked = await tx
+        .update(inventoryReservations)
+        .set({ status: "restocked", updatedAt: new Date() })
+        .where(and(eq(inventoryReservations.orderId, orderId), eq(inventoryReservations.status, "committed")))
+        .returning();
+      for (const reservation of restocked) {
+        if (reservation.locationId !== null) {
+          await this.adjustStockLevel(tx, reservation.productId, reservation.locationId, reservation.quantity);
+        }
+      }
+      return restocked.length;
+    });
+  }
+
+  async releaseExpiredInventoryReservations(now: Date = new Date()): Promise<number> {
+    const released = await this.db
+      .update(inventoryReservations)
+      .set({ status: "released", updatedAt: now })
+      .where(and(eq(inventoryReservations.status, "active"), lte(inventoryReservations.expiresAt, now)))
+      .returning({ id: inventoryReservations.id });
+    return released.length;
+  }
+
+  // Webhook events
+  // The unique event_id makes concurrent deliveries of one event race to a single winner
+  async claimWebhookEvent(eventId: string, type: string): Promise<boolean> {
+    const claimed = await this.db
+      .insert(processedWebhookEvents)
+      .values({ eventId, type })
+      .onConflictDoNothing({ target: processedWebhookEvents.eventId })
+      .returning({ id: processedWebhookEvents.id });
+    return claimed.length > 0;
+  }
+
+  async releaseWebhookEvent(eventId: string): Promise<void> {
+    await this.db.delete(processedWebhookEvents).where(eq(processedWebhookEvents.eventId, eventId));
+  }
+
+  // Returns
+  async createReturnRequest(request: InsertReturnRequest, items: InsertReturnItem[]): Promise<ReturnRequest> {
+    // The RMA number embeds the row ID, so insert first and fill it in once the ID is known
+    return this.db.transaction(async (tx) => {
+      const [inserted] = await tx
+        .insert(returnRequests)
+        .values({ ...request, rmaNumber: `PENDING-${crypto.randomUUID()}` })
+        .returning({ id: returnRequests.id });
+
+      const [returnRequest] = await tx
+        .update(returnRequests)
+        .set({ rmaNumber: `RMA-${Date.now().toString().slice(-6)}-${inserted.id}` })
+        .where(eq(returnRequests.id, inserted.id))
+        .returning();
+
+      await tx.insert(returnItems).values(items.map(item => ({ ...item, returnRequestId: returnRequest.id })));
+      return returnRequest;
+    });
+  }
+
+  async getReturnRequestById(id: number): Promise<ReturnRequest | undefined> {
+    const [returnRequest] = await this.db.select().from(returnRequests).where(eq(returnRequests.id, id));
+    return returnRequest;
+  }
+
+  async getReturnRequests(filter: { orderId?: number; status?: ReturnStatus } = {}): Promise<ReturnRequest[]> {
+    const conditions: SQL[] = [];
+    if (filter.orderId !== undefined) conditions.push(eq(returnRequests.orderId, filter.orderId));
+    if (filter.status !== undefined) conditions.push(eq(returnRequests.status, filter.status));
+
+    return this.db
+      .select()
+      .from(returnRequests)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(returnRequests.id));
+  }
+
+  async getReturnItems(returnRequestId: number): Promise<ReturnItem[]> {
+    return this.db
+      .select()
+      .from(returnItems)
+      .where(eq(returnItems.returnRequestId, returnRequestId))
+      .orderBy(asc(returnItems.id));
+  }
+
+  async updateReturnItemAmounts(id: number, amounts: ReturnItemAmounts): Promise<ReturnItem | undefined> {
+    const [item] = await this.db.update(returnItems).set(amounts).where(eq(returnItems.id, id)).returning();
+    return item;
+  }
+
+  async updateReturnStatus(id: number, status: ReturnStatus, update: ReturnRequestUpdate = {}): Promise<ReturnRequest | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Lock the row so two staff members can't both move the same return
+      const [current] = await tx.select().from(returnRequests).where(eq(returnRequests.id, id)).for("update");
+      if (!current) return undefined;
+
+      if (!canTransitionReturn(current.status, status)) {
+        throw new InvalidReturnTransitionError(current.status, status);
+      }
+
+      const [returnRequest] = await tx
+        .update(returnRequests)
+        .set({ ...update, status, updatedAt: new Date() })
+        .where(eq(returnRequests.id, id))
+        .returning();
+      return returnRequest;
+    });
+  }
+
+  async recordOrderItemRefund(orderItemId: number, quantity: number, amount: string): Promise<OrderItem | undefined> {
+    const [item] = await this.db
+      .update(orderItems)
+      .set({
+        refundedQuantity: sql`${orderItems.refundedQuantity} + ${quantity}`,
+        refundedAmount: sql`${orderItems.refundedAmount} + ${amount}`
+      })
+      .where(eq(orderItems.id, orderItemId))
+      .returning();
+    return item;
+  }
+
+  // Promotions
+  async getPromotions(): Promise<Promotion[]> {
+    return this.db.select().from(promotions).orderBy(asc(promotions.code));
+  }
+
+  async getPromotionById(id: number): Promise<Promotion | undefined> {
+    const [promotion] = await this.db.select().from(promotions).where(eq(promotions.id, id));
+    return promotion;
+  }
+
+  async getPromotionByCode(code: string): Promise<Promotion | undefined> {
+    const [promotion] = await this.db.select().from(promotions).where(eq(promotions.code, code.trim().toUpperCase()));
+    return promotion;
+  }
+
+  async createPromotion(promotionData: InsertPromotion): Promise<Promotion> {
+    const [promotion] = await this.db.insert(promotions).values(promotionData).returning();
+    return promotion;
+  }
+
+  async updatePromotion(id: number, promotionData: InsertPromotion): Promise<Promotion | undefined> {
+    const [promotion] = await this.db
+      .update(promotions)
+      .set({ ...promotionData, updatedAt: new Date() })
+      .where(eq(promotions.id, id))
+      .returning();
+    return promotion;
+  }
+
+  async getPromotionUsage(promotionId: number, customer?: PromotionCustomer): Promise<PromotionUsage> {
+    return this.promotionUsage(this.db, promotionId, customer);
+  }
+
+  private async promotionUsage(
+    db: Pick<Database, "select">,
+    promotionId: number,
+    customer?: PromotionCustomer
+  ): Promise<PromotionUsage> {
+    const customerMatch = customer
+      ? or(
+          eq(promotionRedemptions.email, customer.email.trim().toLowerCase()),
+          customer.userId !== null ? eq(promotionRedemptions.userId, customer.userId) : undefined
+        )
+      : sql`false`;
+
+    const [usage] = await db
+      .select({
+        total: sql<number>`count(*)::int`,
+        customer: sql<number>`count(*) filter (where ${customerMatch})::int`
+      })
+      .from(promotionRedemptions)
+      .innerJoin(orders, eq(promotionRedemptions.orderId, orders.id))
+      .where(and(
+        eq(promotionRedemptions.promotionId, promotionId),
+        sql`${orders.status} <> 'cancelled'`,
+        or(sql`${orders.status} <> 'pending'`, gt(promotionRedemptions.expiresAt, new Date()))
+      ));
+    return usage;
+  }
+
+  async getPromotionRedemptions(orderId: number): Promise<PromotionRedemption[]> {
+    return this.db
+      .select()
+      .from(promotionRedemptions)
+      .where(eq(promotionRedemptions.orderId, orderId))
+      .orderBy(asc(promotionRedemptions.id));
+  }
+
+  async redeemPromotions(
+    orderId: number,
+    customer: PromotionCustomer,
+    lines: PromotionRedemptionLine[],
+    expiresAt: Date
+  ): Promise<PromotionRedemption[]> {
+    if (lines.length === 0) return [];
+
+    return this.db.transaction(async (tx) => {
+      // Concurrent checkouts with the same code queue up here, so limits can't be overshot
+      const promotionIds = lines.map(line => line.promotionId).sort((a, b) => a - b);
+      const locked = await tx
+        .select()
+        .from(promotions)
+        .where(inArray(promotions.id, promotionIds))
+        .orderBy(asc(promotions.id))
+        .for("update");
+
+      for (const promotion of locked) {
+        const usage = await this.promotionUsage(tx, promotion.id, customer);
+        if ((promotion.usageLimit !== null && usage.total >= promotion.usageLimit) ||
+            (promotion.perCustomerLimit !== null && usage.customer >= promotion.perCustomerLimit)) {
+          throw new PromotionLimitError(promotion.code);
+        }
+      }
+
+      return tx
+        .insert(promotionRedemptions)
+        .values(lines.map(line => ({
+          promotionId: line.promotionId,
+          orderId,
+          userId: customer.userId,
+          email: customer.email.trim().toLowerCase(),
+          amount: line.amount,
+          expiresAt
+        })))
+        .returning();
+    });
+  }
+
+  // Bundles
+  async getBundles(options: { productId?: number; isActive?: boolean } = {}): Promise<Bundle[]> {
+    const conditions: SQL[] = [];
+    if (options.productId !== undefined) conditions.push(eq(bundles.productId, options.productId));
+    if (options.isActive !== undefined) conditions.push(eq(bundles.isActive, options.isActive));
+
+    return this.db.select().from(bundles).where(and(...conditions)).orderBy(asc(bundles.id));
+  }
+
+  async getBundleById(id: number): Promise<Bundle | undefined> {
+    const [bundle] = await this.db.select().from(bundles).where(eq(bundles.id, id));
+    return bundle;
+  }
+
+  async getBundlesWithin(productIds: number[]): Promise<Bundle[]> {
+    if (productIds.length === 0) return [];
+
+    return this.db
+      .select()
+      .from(bundles)
+      .where(and(eq(bundles.isActive, true), arrayContained(bundles.productIds, productIds)))
+      .orderBy(asc(bundles.id));
+  }
+
+  async createBundle(bundleData: InsertBundle, source: BundleSource = "curated"): Promise<Bundle> {
+    const [bundle] = await this.db.insert(bundles).values({ ...bundleData, source }).returning();
+    return bundle;
+  }
+
+  async updateBundle(id: number, bundleData: Partial<InsertBundle> & { source?: BundleSource }): Promise<Bundle | undefined> {
+    const [bundle] = await this.db
+      .update(bundles)
+      .set({ ...bundleData, updatedAt: new Date() })
+      .where(eq(bundles.id, id))
+      .returning();
+    return bundle;
+  }
+
+  // Suppliers
+  async getSuppliers(options: { isActive?: boolean } = {}): Promise<Supplier[]> {
+    return this.db
+      .select()
+      .from(suppliers)
+      .where(options.isActive !== undefined ? eq(suppliers.isActive, options.isActive) : undefined)
+      .orderBy(asc(suppliers.name));
+  }
+
+  async getSupplierById(id: number): Promise<Supplier | undefined> {
+    const [supplier] = await this.db.select().from(suppliers).where(eq(suppliers.id, id));
+    return supplier;
+  }
+
+  async getSupplierByName(name: string): Promise<Supplier | undefined> {
+    const [supplier] = await this.db.select().from(suppliers).where(sql`lower(${suppliers.name}) = lower(${name})`);
+    return supplier;
+  }
+
+  async createSupplier(supplierData: InsertSupplier): Promise<Supplier> {
+    const [supplier] = await this.db.insert(suppliers).values(supplierData).returning();
+    return supplier;
+  }
+
+  async updateSupplier(id: number, supplierData: Partial<InsertSupplier>): Promise<Supplier | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [supplier] = await tx
+        .update(suppliers)
+        .set({ ...supplierData, updatedAt: new Date() })
+        .where(eq(suppliers.id, id))
+        .returning();
+      // Whether its stock can be sold may have changed
+      const [location] = await tx.select().from(stockLocations).where(eq(stockLocations.supplierId, id));
+      if (location) await this.syncLocationInventoryCounts(tx, location.id);
+      return supplier;
+    });
+  }
+
+  // Its stock location goes with it, so the products stocked there are recounted
+  async deleteSupplier(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const stocked = await tx
+        .select({ productId: stockLevels.productId })
+        .from(stockLevels)
+        .innerJoin(stockLocations, eq(stockLocations.id, stockLevels.locationId))
+        .where(eq(stockLocations.supplierId, id));
+      const deleted = await tx.delete(suppliers).where(eq(suppliers.id, id)).returning({ id: suppliers.id });
+      for (const { productId } of stocked) await this.syncInventoryCount(tx, productId);
+      return deleted.length > 0;
+    });
+  }
+
+  async getSupplierProducts(options: { supplierId?: number; productId?: number } = {}): Promise<SupplierProduct[]> {
+    const conditions: SQL[] = [];
+    if (options.supplierId !== undefined) conditions.push(eq(supplierProducts.supplierId, options.supplierId));
+    if (options.productId !== undefined) conditions.push(eq(supplierProducts.productId, options.productId));
+
+    return this.db.select().from(supplierProducts).where(and(...conditions)).orderBy(asc(supplierProducts.id));
+  }
+
+  async getSupplierProductById(id: number): Promise<SupplierProduct | undefined> {
+    const [supplierProduct] = await this.db.select().from(supplierProducts).where(eq(supplierProducts.id, id));
+    return supplierProduct;
+  }
+
+  async createSupplierProduct(supplierProductData: InsertSupplierProduct): Promise<SupplierProduct> {
+    return this.db.transaction(async (tx) => {
+      if (supplierProductData.isPreferred) {
+        await tx.update(supplierProducts).set({ isPreferred: false }).where(eq(supplierProducts.productId, supplierProductData.productId));
+      }
+      const [supplierProduct] = await tx.insert(supplierProducts).values(supplierProductData).returning();
+      return supplierProduct;
+    });
+  }
+
+  async updateSupplierProduct(id: number, supplierProductData: Partial<InsertSupplierProduct>): Promise<SupplierProduct | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(supplierProducts).where(eq(supplierProducts.id, id));
+      if (!existing) return undefined;
+
+      // Only one supplier per product can be preferred
+      if (supplierProductData.isPreferred) {
+        await tx
+          .update(supplierProducts)
+          .set({ isPreferred: false })
+          .where(eq(supplierProducts.productId, supplierProductData.productId ?? existing.productId));
+      }
+
+      const [supplierProduct] = await tx
+        .update(supplierProducts)
+        .set({ ...supplierProductData, updatedAt: new Date() })
+        .where(eq(supplierProducts.id, id))
+        .returning();
+      return supplierProduct;
+    });
+  }
+
+  async deleteSupplierProduct(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(supplierProducts).where(eq(supplierProducts.id, id)).returning({ id: supplierProducts.id });
+    return deleted.length > 0;
+  }
+
+  // Stock locations
+  async getStockLocations(options: { sellable?: boolean } = {}): Promise<StockLocation[]> {
+    const rows = await this.db
+      .select({ location: stockLocations })
+      .from(stockLocations)
+      .leftJoin(suppliers, eq(suppliers.id, stockLocations.supplierId))
+      .where(options.sellable ? sellableLocation : undefined)
+      .orderBy(asc(stockLocations.id));
+    return rows.map(row => row.location);
+  }
+
+  async getStockLocationById(id: number): Promise<StockLocation | undefined> {
+    const [location] = await this.db.select().from(stockLocations).where(eq(stockLocations.id, id));
+    return location;
+  }
+
+  async getStockLocationBySupplierId(supplierId: number): Promise<StockLocation | undefined> {
+    const [location] = await this.db.select().from(stockLocations).where(eq(stockLocations.supplierId, supplierId));
+    return location;
+  }
+
+  async createStockLocation(location: InsertStockLocation): Promise<StockLocation> {
+    const [newLocation] = await this.db.insert(stockLocations).values(location).returning();
+    return newLocation;
+  }
+
+  async updateStockLocation(id: number, locationData: Partial<InsertStockLocation>): Promise<StockLocation | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [location] = await tx.update(stockLocations).set(locationData).where(eq(stockLocations.id, id)).returning();
+      if (location) await this.syncLocationInventoryCounts(tx, id);
+      return location;
+    });
+  }
+
+  async getStockLevels(options: { productId?: number; locationId?: number } = {}): Promise<StockLevel[]> {
+    const conditions: SQL[] = [];
+    if (options.productId !== undefined) conditions.push(eq(stockLevels.productId, options.productId));
+    if (options.locationId !== undefined) conditions.push(eq(stockLevels.locationId, options.locationId));
+
+    return this.db.select().from(stockLevels).where(and(...conditions)).orderBy(asc(stockLevels.id));
+  }
+
+  async setStockLevel(productId: number, locationId: number, quantity: number): Promise<StockLevel> {
+    return this.db.transaction(async (tx) => {
+      const [level] = await tx
+        .insert(stockLevels)
+        .values({ productId, locationId, quantity: Math.max(0, quantity) })
+        .onConflictDoUpdate({
+          target: [stockLevels.locationId, stockLevels.productId],
+          set: { quantity: Math.max(0, quantity), updatedAt: new Date() }
+        })
+        .returning();
+      await this.syncInventoryCount(tx, productId);
+      return level;
+    });
+  }
+
+  // Adds to or takes from a level, which never goes below zero
+  private async adjustStockLevel(
+    db: Pick<Database, "insert" | "update">,
+    productId: number,
+    locationId: number,
+    change: number
+  ): Promise<void> {
+    await db
+      .insert(stockLevels)
+      .values({ productId, locationId, quantity: Math.max(0, change) })
+      .onConflictDoUpdate({
+        target: [stockLevels.locationId, stockLevels.productId],
+        set: { quantity: sql`greatest(0, ${stockLevels.quantity} + ${change})`, updatedAt: new Date() }
+      });
+    await this.syncInventoryCount(db, productId);
+  }
+
+  private async syncInventoryCount(db: Pick<Database, "update">, productId: number): Promise<void> {
+    await db.update(products).set({ inventoryCount: sellableStock(productId) }).where(eq(products.id, productId));
+  }
+
+  private async syncLocationInventoryCounts(db: Pick<Database, "select" | "update">, locationId: number): Promise<void> {
+    const stocked = await db
+      .select({ productId: stockLevels.productId })
+      .from(stockLevels)
+      .where(eq(stockLevels.locationId, locationId));
+    for (const { productId } of stocked) await this.syncInventoryCount(db, productId);
+  }
+
+  // The first active warehouse, set up on first use
+  private async defaultWarehouseId(): Promise<number> {
+    const [warehouse] = await this.db
+      .select({ id: stockLocations.id })
+      .from(stockLocations)
+      .where(eq(stockLocations.kind, "warehouse"))
+      .orderBy(desc(stockLocations.isActive), asc(stockLocations.id))
+      .limit(1);
+    if (warehouse) return warehouse.id;
+
+    const [created] = await this.db
+      .insert(stockLocations)
+      .values({ name: DEFAULT_WAREHOUSE_NAME, kind: "warehouse" })
+      .returning({ id: stockLocations.id });
+    return created.id;
+  }
+
+  // Purchase orders
+  async createPurchaseOrder(purchaseOrderData: InsertPurchaseOrder, items: InsertPurchaseOrderItem[]): Promise<PurchaseOrder> {
+    // The PO number embeds the row ID, so insert first and fill it in once the ID is known
+    return this.db.transaction(async (tx) => {
+      const [inserted] = await tx
+        .insert(purchaseOrders)
+        .values({ ...purchaseOrderData, poNumber: `PENDING-${crypto.randomUUID()}` })
+        .returning({ id: purchaseOrders.id });
+
+      const [purchaseOrder] = await tx
+        .update(purchaseOrders)
+        .set({ poNumber: `PO-${Date.now().toString().slice(-6)}-${inserted.id}` })
+        .where(eq(purchaseOrders.id, inserted.id))
+        .returning();
+
+      await tx.insert(purchaseOrderItems).values(items.map(item => ({ ...item, purchaseOrderId: purchaseOrder.id })));
+      return purchaseOrder;
+    });
+  }
+
+  async getPurchaseOrderById(id: number): Promise<PurchaseOrder | undefined> {
+    const [purchaseOrder] = await this.db.select().from(purchaseOrders).where(eq(purchaseOrders.id, id));
+    return purchaseOrder;
+  }
+
+  async getPurchaseOrders(filter: { orderId?: number; supplierId?: number; status?: PurchaseOrderStatus } = {}): Promise<PurchaseOrder[]> {
+    const conditions: SQL[] = [];
+    if (filter.orderId !== undefined) conditions.push(eq(purchaseOrders.orderId, filter.orderId));
+    if (filter.supplierId !== undefined) conditions.push(eq(purchaseOrders.supplierId, filter.supplierId));
+    if (filter.status !== undefined) conditions.push(eq(purchaseOrders.status, filter.status));
+
+    return this.db
+      .select()
+      .from(purchaseOrders)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(purchaseOrders.id));
+  }
+
+  async getPurchaseOrderItems(purchaseOrderId: number): Promise<PurchaseOrderItem[]> {
+    return this.db
+      .select()
+      .from(purchaseOrderItems)
+      .where(eq(purchaseOrderItems.purchaseOrderId, purchaseOrderId))
+      .orderBy(asc(purchaseOrderItems.id));
+  }
+
+  async updatePurchaseOrder(id: number, update: PurchaseOrderUpdate): Promise<PurchaseOrder | undefined> {
+    const [purchaseOrder] = await this.db
+      .update(purchaseOrders)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(purchaseOrders.id, id))
+      .returning();
+    return purchaseOrder;
+  }
+
+  async updatePurchaseOrderStatus(id: number, status: PurchaseOrderStatus, update: PurchaseOrderUpdate = {}): Promise<PurchaseOrder | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Lock the row so a resend and a cancel can't both go through
+      const [current] = await tx.select().from(purchaseOrders).where(eq(purchaseOrders.id, id)).for("update");
+      if (!current) return undefined;
+
+      if (!canTransitionPurchaseOrder(current.status, status)) {
+        throw new InvalidPurchaseOrderTransitionError(current.status, status);
+      }
+
+      const [purchaseOrder] = await tx
+        .update(purchaseOrders)
+        .set({ ...update, status, updatedAt: new Date() })
+        .where(eq(purchaseOrders.id, id))
+        .returning();
+      return purchaseOrder;
+    });
+  }
+
+  async updatePurchaseOrderItem(id: number, update: PurchaseOrderItemUpdate): Promise<PurchaseOrderItem | undefined> {
+    const [item] = await this.db
+      .update(purchaseOrderItems)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(purchaseOrderItems.id, id))
+      .returning();
+    return item;
+  }
+
+  // Supplier feeds
+  async getSupplierFeedProfiles(options: { supplierId?: number } = {}): Promise<SupplierFeedProfile[]> {
+    return this.db
+      .select()
+      .from(supplierFeedProfiles)
+      .where(options.supplierId !== undefined ? eq(supplierFeedProfiles.supplierId, options.supplierId) : undefined)
+      .orderBy(asc(supplierFeedProfiles.name));
+  }
+
+  async getSupplierFeedProfileById(id: number): Promise<SupplierFeedProfile | undefined> {
+    const [profile] = await this.db.select().from(supplierFeedProfiles).where(eq(supplierFeedProfiles.id, id));
+    return profile;
+  }
+
+  async createSupplierFeedProfile(profileData: InsertSupplierFeedProfile): Promise<SupplierFeedProfile> {
+    const [profile] = await this.db.insert(supplierFeedProfiles).values(profileData).returning();
+    return profile;
+  }
+
+  async updateSupplierFeedProfile(id: number, profileData: Partial<InsertSupplierFeedProfile>): Promise<SupplierFeedProfile | undefined> {
+    const [profile] = await this.db
+      .update(supplierFeedProfiles)
+      .set({ ...profileData, updatedAt: new Date() })
+      .where(eq(supplierFeedProfiles.id, id))
+      .returning();
+    return profile;
+  }
+
+  async deleteSupplierFeedProfile(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(supplierFeedProfiles)
+      .where(eq(supplierFeedProfiles.id, id))
+      .returning({ id: supplierFeedProfiles.id });
+    return deleted.length > 0;
+  }
+
+  async createFeedImport(feedImportData: InsertFeedImport, changes: InsertFeedImportChange[]): Promise<FeedImport> {
+    return this.db.transaction(async (tx) => {
+      const [feedImport] = await tx.insert(feedImports).values(feedImportData).returning();
+      if (changes.length > 0) {
+        await tx.insert(feedImportChanges).values(changes.map(change => ({ ...change, importId: feedImport.id })));
+      }
+      return feedImport;
+    });
+  }
+
+  async getFeedImportById(id: number): Promise<FeedImport | undefined> {
+    const [feedImport] = await this.db.select().from(feedImports).where(eq(feedImports.id, id));
+    return feedImport;
+  }
+
+  async getFeedImports(options: { supplierId?: number; status?: FeedImportStatus; limit?: number } = {}): Promise<FeedImport[]> {
+    const conditions: SQL[] = [];
+    if (options.supplierId !== undefined) conditions.push(eq(feedImports.supplierId, options.supplierId));
+    if (options.status !== undefined) conditions.push(eq(feedImports.status, options.status));
+
+    const query = this.db
+      .select()
+      .from(feedImports)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(feedImports.id));
+    return options.limit !== undefined ? query.limit(options.limit) : query;
+  }
+
+  async getFeedImportChanges(importId: number): Promise<FeedImportChange[]> {
+    return this.db
+      .select()
+      .from(feedImportChanges)
+      .where(eq(feedImportChanges.importId, importId))
+      .orderBy(asc(feedImportChanges.id));
+  }
+
+  async reviewFeedImport(id: number, review: FeedImportReview): Promise<FeedImport | undefined> {
+    const [feedImport] = await this.db
+      .update(feedImports)
+      .set({ ...review, reviewedAt: new Date() })
+      .where(and(eq(feedImports.id, id), eq(feedImports.status, "review")))
+      .returning();
+    return feedImport;
+  }
+
+  async updateFeedImportChange(id: number, update: FeedImportChangeUpdate): Promise<FeedImportChange | undefined> {
+    const [change] = await this.db
+      .update(feedImportChanges)
+      .set(update)
+      .where(eq(feedImportChanges.id, id))
+      .returning();
+    return change;
+  }
+
+  // Analytics
+  async recordAnalyticsEvents(events: InsertAnalyticsEvent[]): Promise<number> {
+    if (events.length === 0) return 0;
+    await this.db.insert(analyticsEvents).values(events);
+    return events.length;
+  }
+
+  async summarizeProductActivity(from: Date, to: Date): Promise<ProductActivity[]> {
+    const sessionsWith = (type: string) =>
+      sql<number>`count(distinct ${analyticsEvents.sessionId}) filter (where ${analyticsEvents.type} = ${type})::int`;
+
+    return this.db
+      .select({
+        productId: sql<number>`${analyticsEvents.productId}`,
+        views: sessionsWith("product_view"),
+        addToCarts: sessionsWith("add_to_cart"),
+        cartAbandons: sessionsWith("cart_abandon"),
+        orders: sql<number>`count(distinct ${analyticsEvents.orderId}) filter (where ${analyticsEvents.type} = 'purchase')::int`,
+        unitsSold: sql<number>`coalesce(sum(${analyticsEvents.quantity}) filter (where ${analyticsEvents.type} = 'purchase'), 0)::int`,
+        revenue: sql<string>`coalesce(sum(${analyticsEvents.value}) filter (where ${analyticsEvents.type} = 'purchase'), 0)::numeric(10, 2)::text`
+      })
+      .from(analyticsEvents)
+      .where(and(
+        gte(analyticsEvents.occurredAt, from),
+        lt(analyticsEvents.occurredAt, to),
+        sql`${analyticsEvents.productId} is not null`
+      ))
+      .groupBy(analyticsEvents.productId);
+  }
+
+  async replaceProductDailyStats(day: string, rows: ProductActivity[]): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(analyticsProductDaily).where(eq(analyticsProductDaily.day, day));
+      if (rows.length > 0) {
+        await tx.insert(analyticsProductDaily).values(rows.map(row => ({ ...row, day })));
+      }
+    });
+  }
+
+  async getProductDailyStats(options: { from: string; to: string; productId?: number }): Promise<AnalyticsProductDaily[]> {
+    const conditions: SQL[] = [
+      gte(analyticsProductDaily.day, options.from),
+      lte(analyticsProductDaily.day, options.to)
+    ];
+    if (options.productId !== undefined) conditions.push(eq(analyticsProductDaily.productId, options.productId));
+
+    return this.db
+      .select()
+      .from(analyticsProductDaily)
+      .where(and(...conditions))
+      .orderBy(asc(analyticsProductDaily.day), asc(analyticsProductDaily.productId));
+  }
+
+  async summarizeSessionFunnel(from: Date, to: Date): Promise<SessionFunnelGroup[]> {
+    const stepOfEvent = sql.join(
+      Object.entries(eventFunnelStep).map(([type, step]) => sql`when ${type} then ${sql.raw(String(step))}`),
+      sql` `
+    );
+    // Named, so the subqueries below can tell it from their own analytics_events
+    const starts = alias(analyticsEvents, "starts");
+
+    // One row per session, with how far it got and what it bought
+    const sessions = this.db
+      .select({
+        day: sql<string>`to_char(${starts.occurredAt}, 'YYYY-MM-DD')`.as("day"),
+        mobile: sql<boolean>`coalesce((${starts.data}->'device'->>'mobileDevice')::boolean, false)`.as("mobile"),
+        source: sql<TrafficSource>`coalesce(${starts.data}->>'source', 'direct')`.as("source"),
+        returning: sql<boolean>`coalesce((${starts.data}->>'returning')::boolean, false)`.as("returning"),
+        step: sql<number>`(select max(case e.type ${stepOfEvent} else 0 end) from ${analyticsEvents} e where e.session_id = starts.session_id)`.as("step"),
+        orders: sql<number>`(select count(distinct e.order_id) from ${analyticsEvents} e where e.session_id = starts.session_id and e.type = 'purchase')`.as("orders"),
+        revenue: sql<string>`(select coalesce(sum(o.total), 0) from ${orders} o where o.id in (
+          select e.order_id from ${analyticsEvents} e where e.session_id = starts.session_id and e.type = 'purchase'
+        ))`.as("revenue")
+      })
+      .from(starts)
+      .where(and(
+        eq(starts.type, "session_start"),
+        gte(starts.occurredAt, from),
+        lt(starts.occurredAt, to),
+        sql`${starts.sessionId} is not null`
+      ))
+      .as("funnel_sessions");
+
+    return this.db
+      .select({
+        day: sessions.day,
+        mobile: sessions.mobile,
+        source: sessions.source,
+        returning: sessions.returning,
+        step: sessions.step,
+        sessions: sql<number>`count(*)::int`,
+        orders: sql<number>`sum(${sessions.orders})::int`,
+        revenue: sql<string>`sum(${sessions.revenue})::numeric(12, 2)::text`
+      })
+      .from(sessions)
+      .groupBy(sessions.day, sessions.mobile, sessions.source, sessions.returning, sessions.step);
+  }
+
+  async getShopperEvents(options: { sessionId?: string; userId?: number; since: Date; limit: number }): Promise<AnalyticsEvent[]> {
+    const shopper: SQL[] = [];
+    if (options.sessionId !== undefined) shopper.push(eq(analyticsEvents.sessionId, options.sessionId));
+    if (options.userId !== undefined) shopper.push(eq(analyticsEvents.userId, options.userId));
+    if (shopper.length === 0) return [];
+
+    return this.db
+      .select()
+      .from(analyticsEvents)
+      .where(and(gte(analyticsEvents.occurredAt, options.since), or(...shopper)))
+      .orderBy(desc(analyticsEvents.occurredAt), desc(analyticsEvents.id))
+      .limit(options.limit);
+  }
+
+  // Articles
+  async getArticles(options: {
+    limit?: number;
+    offset?: number;
+    isPublished?: boolean;
+  } = {}): Promise<{ articles: Article[]; total: number }> {
+    const where = options.isPublished !== undefined
+      ? eq(articles.isPublished, options.isPublished)
+      : undefined;
+
+    // Sort by published date (newest first)
+    let query = this.db
+      .select()
+      .from(articles)
+      .where(where)
+      .orderBy(desc(sql`coalesce(${articles.publishedAt}, ${articles.createdAt})`))
+      .$dynamic();
 
-    // Apply pagination
-    const total = filtered.length;
     if (options.limit !== undefined && options.offset !== undefined) {
-      filtered = filtered.slice(options.offset, options.offset + options.limit);
+      query = query.limit(options.limit).offset(options.offset);
     }
 
-    return { articles: filtered, total };
+    const [rows, [{ total }]] = await Promise.all([
+      query,
+      this.db.select({ total: count() }).from(articles).where(where),
+    ]);
+
+    return { articles: rows, total };
   }
 
   async getArticleBySlug(slug: string): Promise<Article | undefined> {
-    return Array.from(this.articles.values()).find(
-      (article) => article.slug === slug
-    );
+    const [article] = await this.db.select().from(articles).where(eq(articles.slug, slug));
+    return article;
   }
 
   async createArticle(article: InsertArticle): Promise<Article> {
-    const id = this.articleId++;
-    const newArticle: Article = { 
-      id, 
-      ...article,
-      createdAt: new Date(),
-      updatedAt: new Date()
-    };
-    this.articles.set(id, newArticle);
+    const [newArticle] = await this.db.insert(articles).values(article).returning();
     return newArticle;
   }
 
   // Contact Messages
   async createContactMessage(message: InsertContactMessage): Promise<ContactMessage> {
-    const id = this.contactMessageId++;
-    const newMessage: ContactMessage = { 
-      id, 
-      ...message,
-      isRead: false,
-      createdAt: new Date()
-    };
-    this.contactMessages.set(id, newMessage);
+    const [newMessage] = await this.db.insert(contactMessages).values(message).returning();
     return newMessage;
   }
 
@@ -1004,58 +3953,51 @@ export class MemStorage implements IStorage {
     const existing = await this.getSubscriberByEmail(subscriber.email);
     if (existing) {
       if (!existing.isActive) {
-        existing.isActive = true;
-        existing.subscribedAt = new Date();
-        this.subscribers.set(existing.id, existing);
+        const [reactivated] = await this.db
+          .update(subscribers)
+          .set({ isActive: true, subscribedAt: new Date() })
+          .where(eq(subscribers.id, existing.id))
+          .returning();
+        return reactivated;
       }
       return existing;
     }
 
-    const id = this.subscriberId++;
-    const newSubscriber: Subscriber = { 
-      id, 
-      ...subscriber,
-      isActive: true,
-      subscribedAt: new Date()
-    };
-    this.subscribers.set(id, newSubscriber);
+    const [newSubscriber] = await this.db.insert(subscribers).values(subscriber).returning();
     return newSubscriber;
   }
 
   async getSubscriberByEmail(email: string): Promise<Subscriber | undefined> {
-    return Array.from(this.subscribers.values()).find(
-      (subscriber) => subscriber.email.toLowerCase() === email.toLowerCase()
-    );
+    const [subscriber] = await this.db.select().from(subscribers).where(ilike(subscribers.email, email));
+    return subscriber;
   }
 
   // Chatbot
   async createChatConversation(conversation: InsertChatConversation): Promise<ChatConversation> {
-    const id = this.chatConversationId++;
-    const newConversation: ChatConversation = { 
-      id, 
-      ...conversation,
-      createdAt: new Date()
-    };
-    this.chatConversations.set(id, newConversation);
+    const [newConversation] = await this.db.insert(chatConversations).values(conversation).returning();
     return newConversation;
   }
 
   async createChatMessage(message: InsertChatMessage): Promise<ChatMessage> {
-    const id = this.chatMessageId++;
-    const newMessage: ChatMessage = { 
-      id, 
-      ...message,
-      createdAt: new Date()
-    };
-    this.chatMessages.set(id, newMessage);
+    const [newMessage] = await this.db.insert(chatMessages).values(message).returning();
     return newMessage;
   }
 
   async getChatMessagesByConversationId(conversationId: number): Promise<ChatMessage[]> {
-    return Array.from(this.chatMessages.values())
-      .filter(message => message.conversationId === conversationId)
-      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    return this.db
+      .select()
+      .from(chatMessages)
+      .where(eq(chatMessages.conversationId, conversationId))
+      .orderBy(asc(chatMessages.createdAt), asc(chatMessages.id));
+  }
+}
+
+// STORAGE_DRIVER=postgres persists to DATABASE_URL; anything else keeps data in memory
+function createStorage(): IStorage {
+  if (process.env.STORAGE_DRIVER === 'postgres') {
+    return new DatabaseStorage(createDatabase());
   }
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
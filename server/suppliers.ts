@@ -0,0 +1,192 @@
+/**
+ * Suppliers, what they charge us, and the margins that leaves
+ *
+ * supplier_products holds each supplier's cost for a product. A product's cost is its
+ * preferred supplier's, or the cheapest active supplier's when none is preferred, and its
+ * margin is worked out from that and the current price whenever it's asked for.
+ */
+
+import type { Product, ProductMargin, Supplier, SupplierProduct } from "@shared/schema";
+import { storage, type IStorage } from "./storage";
+import { getMinimumMargin, suppliers as catalogSuppliers } from "./data/suppliers";
+import { utvProducts } from "./data/products";
+
+export interface ReturnTerms {
+  supplierName: string | null;
+  windowDays: number;
+  restockingFeePercent: number;
+}
+
+// For products no supplier is on file for
+export const storeReturnTerms: ReturnTerms = { supplierName: null, windowDays: 30, restockingFeePercent: 0 };
+
+export interface CatalogImportReport {
+  suppliersCreated: number;
+  costsRecorded: number;
+  unmatchedSkus: string[]; // catalog products with no matching store product
+}
+
+// Percent of the price left after cost, to one decimal place
+export function marginPercent(price: string, cost: string): number | null {
+  const priceValue = parseFloat(price);
+  if (!(priceValue > 0)) return null;
+  return Math.round((priceValue - parseFloat(cost)) / priceValue * 1000) / 10;
+}
+
+// The supplier a product's cost comes from: the preferred one, or else the cheapest
+function costSource(
+  links: SupplierProduct[],
+  suppliersById: Map<number, Supplier>
+): { link: SupplierProduct; supplier: Supplier } | undefined {
+  const active = links.filter(link => suppliersById.get(link.supplierId)?.isActive);
+  const link = active.find(candidate => candidate.isPreferred) ??
+    active.sort((a, b) => parseFloat(a.cost) - parseFloat(b.cost))[0];
+  return link && { link, supplier: suppliersById.get(link.supplierId)! };
+}
+
+function toProductMargin(product: Product, source: ReturnType<typeof costSource>, minimumMargin: number): ProductMargin {
+  const margin = source ? marginPercent(product.price, source.link.cost) : null;
+  return {
+    productId: product.id,
+    name: product.name,
+    sku: product.sku,
+    isActive: product.isActive ?? true,
+    price: product.price,
+    cost: source?.link.cost ?? null,
+    supplierId: source?.supplier.id ?? null,
+    supplierName: source?.supplier.name ?? null,
+    marginPercent: margin,
+    belowMinimum: margin !== null && margin < minimumMargin
+  };
+}
+
+async function suppliersById(): Promise<Map<number, Supplier>> {
+  return new Map((await storage.getSuppliers()).map(supplier => [supplier.id, supplier]));
+}
+
+export async function getProductMargin(productId: number): Promise<ProductMargin | undefined> {
+  const product = await storage.getProductById(productId);
+  if (!product) return undefined;
+
+  const links = await storage.getSupplierProducts({ productId });
+  return toProductMargin(product, costSource(links, await suppliersById()), getMinimumMargin());
+}
+
+/**
+ * Every product's margin, lowest first; products with no cost on file come last. With
+ * belowMinimum, only the products whose margin is under getMinimumMargin().
+ */
+export async function getProductMargins(options: { belowMinimum?: boolean } = {}): Promise<ProductMargin[]> {
+  const [{ products }, links, bySupplier] = await Promise.all([
+    storage.getProducts(),
+    storage.getSupplierProducts(),
+    suppliersById()
+  ]);
+  const minimumMargin = getMinimumMargin();
+
+  const linksByProduct = new Map<number, SupplierProduct[]>();
+  for (const link of links) {
+    linksByProduct.set(link.productId, [...(linksByProduct.get(link.productId) ?? []), link]);
+  }
+
+  return products
+    .map(product => toProductMargin(product, costSource(linksByProduct.get(product.id) ?? [], bySupplier), minimumMargin))
+    .filter(margin => !options.belowMinimum || margin.belowMinimum)
+    .sort((a, b) => (a.marginPercent ?? Infinity) - (b.marginPercent ?? Infinity) || a.productId - b.productId);
+}
+
+// Return terms come from the supplier the product's cost comes from
+export async function returnTermsForProduct(productId: number): Promise<ReturnTerms> {
+  const links = await storage.getSupplierProducts({ productId });
+  const source = costSource(links, await suppliersById());
+  if (!source) return storeReturnTerms;
+
+  return {
+    supplierName: source.supplier.name,
+    windowDays: source.supplier.returnWindowDays,
+    restockingFeePercent: source.supplier.restockingFeePercent
+  };
+}
+
+export interface DropshipSource {
+  link: SupplierProduct;
+  supplier: Supplier;
+}
+
+// The dropshipping supplier an order for the product goes to, chosen the same way as its cost
+export async function dropshipSourceFor(productId: number): Promise<DropshipSource | undefined> {
+  const links = await storage.getSupplierProducts({ productId });
+  const dropshippers = new Map(Array.from(await suppliersById()).filter(([, supplier]) => supplier.dropshipping));
+  return costSource(links, dropshippers);
+}
+
+// A catalog shipping time like "3-5 business days"
+function catalogShippingDays(shippingTime: string): { min: number; max: number } | undefined {
+  const match = /(\d+)\s*-\s*(\d+)/.exec(shippingTime);
+  return match ? { min: parseInt(match[1], 10), max: parseInt(match[2], 10) } : undefined;
+}
+
+/**
+ * Loads the supplier directory in data/suppliers.ts, and the costs in data/products.ts for
+ * store products with a matching SKU, into the database, with a stock location for each
+ * dropshipper. Safe to re-run: suppliers are matched by name and costs already on file
+ * are left alone.
+ */
+export async function importCatalogSuppliers(target: IStorage): Promise<CatalogImportReport> {
+  const report: CatalogImportReport = { suppliersCreated: 0, costsRecorded: 0, unmatchedSkus: [] };
+
+  const supplierIds = new Map<number, number>(); // catalog id -> database id
+  for (const catalogSupplier of catalogSuppliers) {
+    let supplier = await target.getSupplierByName(catalogSupplier.name);
+    if (!supplier) {
+      supplier = await target.createSupplier({
+        name: catalogSupplier.name,
+        website: catalogSupplier.website,
+        contactEmail: catalogSupplier.contact.email,
+        contactPhone: catalogSupplier.contact.phone,
+        address: catalogSupplier.contact.address,
+        dropshipping: catalogSupplier.dropshippingAvailable,
+        apiAvailable: catalogSupplier.apiAvailable,
+        minimumOrder: catalogSupplier.minimumOrder.toFixed(2),
+        returnWindowDays: catalogSupplier.returnWindowDays,
+        restockingFeePercent: catalogSupplier.restockingFeePercent,
+        paymentTerms: catalogSupplier.paymentTerms,
+        notes: catalogSupplier.notes
+      });
+      report.suppliersCreated++;
+    }
+    if (supplier.dropshipping && !await target.getStockLocationBySupplierId(supplier.id)) {
+      const days = catalogShippingDays(catalogSupplier.shippingTime);
+      await target.createStockLocation({
+        name: supplier.name,
+        kind: "supplier",
+        supplierId: supplier.id,
+        shippingDaysMin: days?.min,
+        shippingDaysMax: days?.max
+      });
+    }
+    supplierIds.set(catalogSupplier.id, supplier.id);
+  }
+
+  for (const catalogProduct of utvProducts) {
+    const supplierId = supplierIds.get(catalogProduct.supplierId);
+    const product = await target.getProductBySku(catalogProduct.sku);
+    if (!product || supplierId === undefined) {
+      report.unmatchedSkus.push(catalogProduct.sku);
+      continue;
+    }
+
+    const existing = await target.getSupplierProducts({ supplierId, productId: product.id });
+    if (existing.length > 0) continue;
+
+    await target.createSupplierProduct({
+      supplierId,
+      productId: product.id,
+      supplierSku: catalogProduct.sku,
+      cost: catalogProduct.costPrice.toFixed(2)
+    });
+    report.costsRecorded++;
+  }
+
+  return report;
+}
@@ -0,0 +1,26 @@
+import { expect } from "vitest";
+import { paymentService } from "../payments/payment-service";
+import type { FakePaymentProvider, FakeWebhook } from "../payments/fake-provider";
+import { storage } from "../storage";
+import type { TestClient } from "./http";
+import { TEST_ADDRESS } from "./fixtures";
+
+// vitest.config.ts sets PAYMENT_PROVIDER=fake
+export const fakeProvider = paymentService.provider as FakePaymentProvider;
+
+// Checks out the cart as the client's shopper, leaving a pending order and an unpaid payment intent
+export async function checkOut(client: TestClient, cartItems: { productId: number; quantity: number }[]) {
+  const { status, body } = await client.request("POST", "/api/create-payment-intent", {
+    cartItems,
+    shippingAddress: TEST_ADDRESS,
+    billingAddress: TEST_ADDRESS,
+    email: "rider@example.com"
+  });
+  expect(status).toBe(200);
+  const order = (await storage.getOrderById(body.orderId))!;
+  return { order, paymentIntentId: order.stripePaymentIntentId!, quote: body.quote };
+}
+
+// Delivers a fake provider webhook the way Stripe would, raw body and all
+export const deliverWebhook = (client: TestClient, webhook: FakeWebhook) =>
+  client.request("POST", "/api/stripe-webhook", webhook.payload, { "stripe-signature": webhook.signature });
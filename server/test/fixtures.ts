@@ -0,0 +1,72 @@
+import { canTransitionOrder, type InsertProduct, type Order, type OrderStatus, type Product, type User } from "@shared/schema";
+import { storage } from "../storage";
+
+// Tests share the one in-memory store, so what they create is named to stay out of each other's way
+let sequence = 0;
+const unique = (prefix: string) => `${prefix}-${process.pid}-${++sequence}`;
+
+export const TEST_PASSWORD = "Password123!";
+
+// A new account that signs in with TEST_PASSWORD, as a customer unless a role is given
+export async function createTestUser(role?: User["role"]): Promise<User> {
+  const username = unique("tester");
+  const user = await storage.createUser({ username, email: `${username}@example.com`, password: TEST_PASSWORD, fullName: null });
+  return role ? (await storage.updateUser(user.id, { role }))! : user;
+}
+
+// An active product, in stock unless told otherwise
+export async function createTestProduct(overrides: Partial<InsertProduct> = {}): Promise<Product> {
+  const sku = unique("TEST");
+  return storage.createProduct({
+    sku,
+    name: `Test product ${sku}`,
+    slug: sku.toLowerCase(),
+    description: "A product made for a test",
+    price: "50.00",
+    images: [],
+    inventoryCount: 10,
+    isActive: true,
+    isFeatured: false,
+    ...overrides
+  });
+}
+
+export const uniqueSessionId = () => unique("session-id");
+
+export const TEST_ADDRESS = {
+  name: "Test Rider",
+  line1: "1 Trail Rd",
+  city: "Moab",
+  state: "UT",
+  postalCode: "84532",
+  country: "US"
+};
+
+const FULFILLMENT_PATH: readonly OrderStatus[] = ["paid", "processing", "shipped", "delivered"];
+
+// An order for one of each product, moved on to the given status
+export async function createTestOrder(userId: number | null, products: Product[], status: OrderStatus = "processing"): Promise<Order> {
+  const subtotal = products.reduce((sum, product) => sum + parseFloat(product.price), 0).toFixed(2);
+  const order = await storage.createOrder({
+    userId,
+    email: "rider@example.com",
+    shippingAddress: TEST_ADDRESS,
+    billingAddress: TEST_ADDRESS,
+    shippingMethod: "standard",
+    shippingCost: "0",
+    subtotal,
+    tax: "0",
+    total: subtotal,
+    paymentMethod: "card"
+  });
+  for (const product of products) {
+    await storage.createOrderItem({ orderId: order.id, productId: product.id, quantity: 1, price: product.price, subtotal: product.price });
+  }
+  // Along the way a real order goes, as far as it needs to before it can take the status
+  let current = order;
+  for (const next of FULFILLMENT_PATH) {
+    if (current.status === status || canTransitionOrder(current.status, status)) break;
+    current = (await storage.updateOrderStatus(order.id, next))!;
+  }
+  return current.status === status ? current : (await storage.updateOrderStatus(order.id, status))!;
+}
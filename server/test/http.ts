@@ -0,0 +1,77 @@
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { setupAuth } from "../auth";
+import { registerRoutes } from "../routes";
+
+export interface TestResponse {
+  status: number;
+  body: any;
+}
+
+/**
+ * Talks to the test server the way a browser would, keeping whatever cookies it's sent,
+ * so each client is its own session.
+ */
+export class TestClient {
+  private cookies = new Map<string, string>();
+
+  constructor(private baseUrl: string) {}
+
+  async request(method: string, path: string, body?: unknown, headers: Record<string, string> = {}): Promise<TestResponse> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: {
+        ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+        cookie: Array.from(this.cookies, ([name, value]) => `${name}=${value}`).join("; "),
+        ...headers
+      },
+      body: body === undefined ? undefined : typeof body === "string" ? body : JSON.stringify(body)
+    });
+    for (const cookie of response.headers.getSetCookie()) {
+      const [pair] = cookie.split(";");
+      const separator = pair.indexOf("=");
+      this.cookies.set(pair.slice(0, separator), pair.slice(separator + 1));
+    }
+
+    const text = await response.text();
+    let parsed: unknown = text;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      // Not every response is JSON
+    }
+    return { status: response.status, body: parsed };
+  }
+
+  async signIn(email: string, password: string): Promise<void> {
+    const { status } = await this.request("POST", "/api/users/login", { email, password });
+    if (status !== 200) throw new Error(`Signing in as ${email} failed with ${status}`);
+  }
+}
+
+export interface TestServer {
+  client(): TestClient;
+  close(): Promise<void>;
+}
+
+// The API as index.ts sets it up, without Vite, on a free port
+export async function startTestServer(): Promise<TestServer> {
+  const app = express();
+  app.use(express.json({
+    verify: (req, _res, buf) => {
+      req.rawBody = buf;
+    }
+  }));
+  app.use(express.urlencoded({ extended: false }));
+  setupAuth(app);
+
+  const server: Server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    client: () => new TestClient(`http://127.0.0.1:${port}`),
+    close: () => new Promise((resolve, reject) => server.close(error => error ? reject(error) : resolve()))
+  };
+}
@@ -0,0 +1,74 @@
+import { createRequire } from "module";
+import { newDb, type IBackup, type QueryResult } from "pg-mem";
+import { drizzle } from "drizzle-orm/node-postgres";
+import type { Pool as NodePgPool, QueryArrayConfig, QueryConfig } from "pg";
+import * as schema from "@shared/schema";
+import type { Database } from "../db";
+
+// drizzle-kit's API is CommonJS that requires Node built-ins, which Vite's ESM loader can't do
+const require = createRequire(import.meta.url);
+const { generateDrizzleJson, generateMigration } = require("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+/**
+ * A fresh in-memory Postgres with the current schema, for running DatabaseStorage
+ * without a server. pg-mem's node-postgres adapter is bent to what Drizzle expects of it:
+ * no custom type parsers, array row mode for selects, and transactions that roll back.
+ */
+export async function createTestDatabase(): Promise<Database> {
+  const mem = newDb();
+  for (const statement of await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema))) {
+    // pg-mem keeps a quoted numeric default as text, which `+` then concatenates
+    mem.public.none(statement.replace(/(numeric\([^)]*\) DEFAULT )'(-?[\d.]+)'/g, "$1$2"));
+  }
+
+  // What Drizzle passes node-postgres's query(): SQL text, or the text with its values and options
+  type PgQuery = string | QueryConfig<unknown[]> | QueryArrayConfig<unknown[]>;
+  type QueryCallback = (error: Error | null, result?: QueryResult) => void;
+
+  const { Pool } = mem.adapters.createPg();
+  class DrizzlePool extends Pool {
+    // pg-mem runs each statement on its own, so a transaction is a snapshot to go back to
+    private snapshot: IBackup | null = null;
+
+    query(query: PgQuery, values?: unknown[], callback?: QueryCallback) {
+      const text = (typeof query === "string" ? query : query.text).trim().toLowerCase();
+      if (text === "begin") {
+        this.snapshot = mem.backup();
+      } else if (text === "commit") {
+        this.snapshot = null;
+      } else if (text === "rollback") {
+        this.snapshot?.restore();
+        this.snapshot = null;
+      }
+      return super.query(query, values, callback);
+    }
+
+    // Drizzle's type parsers keep dates and numerics as the strings Postgres sends
+    adaptQuery(query: PgQuery, values?: unknown[]) {
+      if (typeof query === "object") {
+        const { types, ...rest } = query;
+        query = rest;
+      }
+      return super.adaptQuery(query, values);
+    }
+
+    adaptResults(query: Exclude<PgQuery, string>, res: QueryResult): QueryResult {
+      const { fields } = res;
+      const rows = res.rows.map((row: Record<string, unknown>) =>
+        Object.fromEntries(fields.map(field => [field.name, toWireValue(row[field.name], field.type)])));
+      if (!("rowMode" in query) || query.rowMode !== "array") return { ...res, rows };
+      return { ...res, rows: rows.map(row => fields.map(field => row[field.name])) };
+    }
+  }
+
+  return drizzle({ client: new DrizzlePool() as unknown as NodePgPool, schema });
+}
+
+// What node-postgres hands Drizzle for a value pg-mem has already parsed. The schema's
+// decimals are all to the cent, and pg-mem reads them back as floats
+function toWireValue(value: unknown, type: string): unknown {
+  if (value instanceof Date) return value.toISOString().replace("T", " ").replace("Z", "");
+  if (typeof value === "number" && type === "float") return value.toFixed(2);
+  if (typeof value === "number" && type === "bigint") return value.toString();
+  return value;
+}
@@ -1,7 +1,11 @@
-import { pgTable, text, serial, integer, boolean, jsonb, timestamp, decimal, varchar } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, timestamp, decimal, varchar, date, index, unique, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Staff roles plus regular customers; what each role may do is defined in server/permissions.ts
+export const userRoles = ["admin", "fulfillment", "support", "customer"] as const;
+export type UserRole = typeof userRoles[number];
+
 // User schema
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -9,7 +13,8 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   email: text("email").notNull().unique(),
   fullName: text("full_name"),
-  isAdmin: boolean("is_admin").default(false),
+  isAdmin: boolean("is_admin").default(false), // legacy flag, superseded by role
+  role: text("role").$type<UserRole>().notNull().default("customer"),
   stripeCustomerId: text("stripe_customer_id"),
   shippingAddress: jsonb("shipping_address"),
   billingAddress: jsonb("billing_address"),
@@ -22,6 +27,54 @@ export const insertUserSchema = createInsertSchema(users).pick({
   fullName: true,
 });
 
+// Postal address as stored on orders; users keep one of each kind as checkout defaults
+export const addressSchema = z.object({
+  name: z.string(),
+  line1: z.string(),
+  line2: z.string().optional(),
+  city: z.string(),
+  state: z.string(),
+  postalCode: z.string(),
+  country: z.string(),
+});
+
+// Audit log of privileged actions
+export const auditLogs = pgTable("audit_logs", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  action: text("action").notNull(), // e.g. "product.create", "refund.create"
+  resourceType: text("resource_type").notNull(),
+  resourceId: text("resource_id"),
+  details: jsonb("details"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertAuditLogSchema = createInsertSchema(auditLogs).pick({
+  userId: true,
+  action: true,
+  resourceType: true,
+  resourceId: true,
+  details: true,
+  ipAddress: true,
+});
+
+// Password reset tokens - only a hash of the emailed token is stored
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTokens).pick({
+  userId: true,
+  tokenHash: true,
+  expiresAt: true,
+});
+
 // Product Categories
 export const categories = pgTable("categories", {
   id: serial("id").primaryKey(),
@@ -29,7 +82,7 @@ export const categories = pgTable("categories", {
   slug: text("slug").notNull().unique(),
   description: text("description"),
   imageUrl: text("image_url"),
-  parentId: integer("parent_id").references(() => categories.id),
+  parentId: integer("parent_id").references((): AnyPgColumn => categories.id),
   productCount: integer("product_count").default(0),
 });
 
@@ -85,7 +138,7 @@ export const products = pgTable("products", {
   brandId: integer("brand_id").references(() => brands.id),
   categoryId: integer("category_id").references(() => categories.id),
   images: jsonb("images").notNull().default([]),
-  inventoryCount: integer("inventory_count").default(0),
+  inventoryCount: integer("inventory_count").default(0), // over all active stock locations, kept in step by storage
   isFeatured: boolean("is_featured").default(false),
   isActive: boolean("is_active").default(true),
   specs: jsonb("specs").default({}),
@@ -118,6 +171,52 @@ export const insertProductSchema = createInsertSchema(products).pick({
   metaDescription: true,
 });
 
+// Product fitment - which vehicles (and model years) a product fits
+export const productFitments = pgTable("product_fitments", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").references(() => products.id, { onDelete: "cascade" }).notNull(),
+  vehicleModelId: integer("vehicle_model_id").references(() => vehicleModels.id).notNull(),
+  yearFrom: integer("year_from").notNull(),
+  yearTo: integer("year_to").notNull(),
+  variant: text("variant"), // null fits every variant of the model
+  notes: text("notes"),
+});
+
+export const insertProductFitmentSchema = createInsertSchema(productFitments).pick({
+  productId: true,
+  vehicleModelId: true,
+  yearFrom: true,
+  yearTo: true,
+  variant: true,
+  notes: true,
+}).refine((fitment) => fitment.yearFrom <= fitment.yearTo, {
+  message: "yearFrom must not be after yearTo",
+  path: ["yearTo"],
+});
+
+// Customer garage - vehicles saved by a customer
+export const userVehicles = pgTable("user_vehicles", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  make: text("make").notNull(),
+  model: text("model").notNull(),
+  year: integer("year").notNull(),
+  variant: text("variant"),
+  nickname: text("nickname"),
+  isActive: boolean("is_active").default(false), // the vehicle the storefront is scoped to
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertUserVehicleSchema = createInsertSchema(userVehicles).pick({
+  userId: true,
+  make: true,
+  model: true,
+  year: true,
+  variant: true,
+  nickname: true,
+  isActive: true,
+});
+
 // Product Reviews
 export const reviews = pgTable("reviews", {
   id: serial("id").primaryKey(),
@@ -139,38 +238,82 @@ export const insertReviewSchema = createInsertSchema(reviews).pick({
   isVerifiedPurchase: true,
 });
 
+// Order lifecycle. Payment events move orders to paid and the refund statuses; staff move them through fulfillment.
+export const orderStatuses = [
+  "pending",
+  "paid",
+  "processing",
+  "shipped",
+  "delivered",
+  "cancelled",
+  "refunded",
+  "partially_refunded",
+] as const;
+export type OrderStatus = typeof orderStatuses[number];
+
+export const orderStatusTransitions: Record<OrderStatus, readonly OrderStatus[]> = {
+  pending: ["paid", "cancelled"],
+  paid: ["processing", "cancelled", "refunded", "partially_refunded"],
+  processing: ["shipped", "cancelled", "refunded", "partially_refunded"],
+  shipped: ["delivered", "refunded", "partially_refunded"],
+  delivered: ["refunded", "partially_refunded"],
+  cancelled: [],
+  refunded: [],
+  // Fulfillment can carry on after part of an order is refunded
+  partially_refunded: ["processing", "shipped", "delivered", "refunded", "partially_refunded"],
+};
+
+// Statuses only a payment or refund may set, never a manual status change
+export const paymentOrderStatuses: readonly OrderStatus[] = ["paid", "refunded", "partially_refunded"];
+
+export function canTransitionOrder(from: OrderStatus, to: OrderStatus): boolean {
+  return orderStatusTransitions[from]?.includes(to) ?? false;
+}
+
 // Orders
 export const orders = pgTable("orders", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id),
   orderNumber: text("order_number").notNull().unique(),
-  status: text("status").notNull().default("pending"),
+  email: text("email"), // contact email given at checkout; guests track orders with it
+  status: text("status").$type<OrderStatus>().notNull().default("pending"),
   shippingAddress: jsonb("shipping_address").notNull(),
   billingAddress: jsonb("billing_address").notNull(),
   shippingMethod: text("shipping_method"),
   shippingCost: decimal("shipping_cost", { precision: 10, scale: 2 }).default("0"),
   subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
+  discount: decimal("discount", { precision: 10, scale: 2 }).notNull().default("0"), // taken off the subtotal by promotion codes
+  promotionCodes: text("promotion_codes").array().notNull().default([]),
   tax: decimal("tax", { precision: 10, scale: 2 }).default("0"),
   total: decimal("total", { precision: 10, scale: 2 }).notNull(),
+  refundedAmount: decimal("refunded_amount", { precision: 10, scale: 2 }).notNull().default("0"), // running total paid back to the customer
   paymentMethod: text("payment_method").notNull(),
   paymentStatus: text("payment_status").notNull().default("pending"),
   stripePaymentIntentId: text("stripe_payment_intent_id"),
+  carrier: text("carrier"),
+  trackingNumber: text("tracking_number"),
   note: text("note"),
+  stockIssue: text("stock_issue"), // set when stock paid for couldn't be found, for staff to sort out
+  analyticsSessionId: text("analytics_session_id"), // the storefront session the order was placed in, if known
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 export const insertOrderSchema = createInsertSchema(orders).pick({
   userId: true,
+  email: true,
   shippingAddress: true,
   billingAddress: true,
   shippingMethod: true,
   shippingCost: true,
   subtotal: true,
+  discount: true,
+  promotionCodes: true,
   tax: true,
   total: true,
   paymentMethod: true,
   note: true,
+  analyticsSessionId: true,
 });
 
 // Order Items
@@ -181,6 +324,9 @@ export const orderItems = pgTable("order_items", {
   quantity: integer("quantity").notNull(),
   price: decimal("price", { precision: 10, scale: 2 }).notNull(),
   subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
+  // Running totals of what returns have refunded on this line
+  refundedQuantity: integer("refunded_quantity").notNull().default(0),
+  refundedAmount: decimal("refunded_amount", { precision: 10, scale: 2 }).notNull().default("0"),
 });
 
 export const insertOrderItemSchema = createInsertSchema(orderItems).pick({
@@ -191,6 +337,641 @@ export const insertOrderItemSchema = createInsertSchema(orderItems).pick({
   subtotal: true,
 });
 
+// Order history - one row per status change, written by storage.updateOrderStatus
+export const orderEvents = pgTable("order_events", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").references(() => orders.id, { onDelete: "cascade" }).notNull(),
+  fromStatus: text("from_status").$type<OrderStatus>(), // null for the order being placed
+  toStatus: text("to_status").$type<OrderStatus>().notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }), // staff member, null for the system
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Stock held for an order between checkout and payment, at the location the order line will
+// ship from. Active reservations count against that location's stock until they expire;
+// committing one takes the stock off the location's level.
+export const inventoryReservationStatuses = ["active", "committed", "released", "restocked"] as const;
+export type InventoryReservationStatus = typeof inventoryReservationStatuses[number];
+
+export const inventoryReservations = pgTable("inventory_reservations", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").references(() => orders.id, { onDelete: "cascade" }).notNull(),
+  productId: integer("product_id").references(() => products.id, { onDelete: "cascade" }).notNull(),
+  quantity: integer("quantity").notNull(),
+  locationId: integer("location_id").references(() => stockLocations.id, { onDelete: "set null" }), // null once the location is gone
+  status: text("status").$type<InventoryReservationStatus>().notNull().default("active"),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Payment webhook events already handled, so a redelivered event is applied only once
+export const processedWebhookEvents = pgTable("processed_webhook_events", {
+  id: serial("id").primaryKey(),
+  eventId: text("event_id").notNull().unique(),
+  type: text("type").notNull(),
+  processedAt: timestamp("processed_at").defaultNow(),
+});
+
+// Returns (RMA): the customer asks to send items back, staff approve or reject, the goods
+// are received back into stock, then the approved amount is refunded
+export const returnStatuses = ["requested", "approved", "rejected", "received", "refunded"] as const;
+export type ReturnStatus = typeof returnStatuses[number];
+
+export const returnStatusTransitions: Record<ReturnStatus, readonly ReturnStatus[]> = {
+  requested: ["approved", "rejected"],
+  // Rejected after approval when the goods never arrive or come back unusable
+  approved: ["received", "rejected"],
+  received: ["refunded"],
+  rejected: [],
+  refunded: [],
+};
+
+export function canTransitionReturn(from: ReturnStatus, to: ReturnStatus): boolean {
+  return returnStatusTransitions[from]?.includes(to) ?? false;
+}
+
+export const returnReasons = ["defective", "damaged_in_shipping", "wrong_item", "does_not_fit", "no_longer_needed", "other"] as const;
+export type ReturnReason = typeof returnReasons[number];
+
+// Our or the supplier's fault, so no restocking fee
+export const feeExemptReturnReasons: readonly ReturnReason[] = ["defective", "damaged_in_shipping", "wrong_item"];
+
+// The goods come back unfit to sell, so they aren't restocked
+export const unsaleableReturnReasons: readonly ReturnReason[] = ["defective", "damaged_in_shipping"];
+
+export const returnRequests = pgTable("return_requests", {
+  id: serial("id").primaryKey(),
+  rmaNumber: text("rma_number").notNull().unique(),
+  orderId: integer("order_id").references(() => orders.id, { onDelete: "cascade" }).notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  status: text("status").$type<ReturnStatus>().notNull().default("requested"),
+  customerNote: text("customer_note"),
+  staffNote: text("staff_note"),
+  // Set when approved, summed from the items
+  restockingFee: decimal("restocking_fee", { precision: 10, scale: 2 }).notNull().default("0"),
+  refundAmount: decimal("refund_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  refundId: text("refund_id"), // the payment provider's refund
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const returnItems = pgTable("return_items", {
+  id: serial("id").primaryKey(),
+  returnRequestId: integer("return_request_id").references(() => returnRequests.id, { onDelete: "cascade" }).notNull(),
+  orderItemId: integer("order_item_id").references(() => orderItems.id, { onDelete: "cascade" }).notNull(),
+  quantity: integer("quantity").notNull(),
+  reason: text("reason").$type<ReturnReason>().notNull(),
+  restockingFeePercent: integer("restocking_fee_percent").notNull().default(0),
+  restockingFee: decimal("restocking_fee", { precision: 10, scale: 2 }).notNull().default("0"),
+  refundAmount: decimal("refund_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+});
+
+export const insertReturnRequestSchema = createInsertSchema(returnRequests).pick({
+  orderId: true,
+  userId: true,
+  customerNote: true,
+});
+
+export const insertReturnItemSchema = createInsertSchema(returnItems, {
+  reason: z.enum(returnReasons),
+}).pick({
+  orderItemId: true,
+  quantity: true,
+  reason: true,
+});
+
+// Promotions - discount codes customers enter in the cart
+export const promotionTypes = ["percent", "fixed", "free_shipping"] as const;
+export type PromotionType = typeof promotionTypes[number];
+
+export const promotions = pgTable("promotions", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(), // stored uppercase; customers can type any case
+  description: text("description").notNull(), // shown to the customer next to the discount
+  type: text("type").$type<PromotionType>().notNull(),
+  value: decimal("value", { precision: 10, scale: 2 }).notNull().default("0"), // percent off, or dollars off for fixed
+  minSubtotal: decimal("min_subtotal", { precision: 10, scale: 2 }),
+  // Limits the discount to matching products; all empty applies it to the whole cart
+  productIds: integer("product_ids").array().notNull().default([]),
+  categoryIds: integer("category_ids").array().notNull().default([]),
+  brandIds: integer("brand_ids").array().notNull().default([]),
+  usageLimit: integer("usage_limit"), // across all customers; null for unlimited
+  perCustomerLimit: integer("per_customer_limit"),
+  stackable: boolean("stackable").notNull().default(false), // can be combined with other stackable codes
+  startsAt: timestamp("starts_at"),
+  endsAt: timestamp("ends_at"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertPromotionSchema = createInsertSchema(promotions, {
+  code: z.string().trim().min(3).max(32).regex(/^[A-Za-z0-9_-]+$/, "Letters, numbers, - and _ only").transform(code => code.toUpperCase()),
+  type: z.enum(promotionTypes),
+  value: z.string().regex(/^\d+(\.\d{1,2})?$/, "An amount like 10 or 12.50").optional(),
+  usageLimit: z.number().int().positive().nullable(),
+  perCustomerLimit: z.number().int().positive().nullable(),
+  startsAt: z.coerce.date().nullable(),
+  endsAt: z.coerce.date().nullable(),
+}).pick({
+  code: true,
+  description: true,
+  type: true,
+  value: true,
+  minSubtotal: true,
+  productIds: true,
+  categoryIds: true,
+  brandIds: true,
+  usageLimit: true,
+  perCustomerLimit: true,
+  stackable: true,
+  startsAt: true,
+  endsAt: true,
+  isActive: true,
+}).refine((promotion) => promotion.type === "free_shipping" || parseFloat(promotion.value ?? "0") > 0, {
+  message: "A discount has to take something off",
+  path: ["value"],
+}).refine((promotion) => promotion.type !== "percent" || parseFloat(promotion.value ?? "0") <= 100, {
+  message: "A percent discount can't be over 100",
+  path: ["value"],
+}).refine((promotion) => !promotion.startsAt || !promotion.endsAt || promotion.startsAt < promotion.endsAt, {
+  message: "endsAt must be after startsAt",
+  path: ["endsAt"],
+});
+
+/**
+ * One use of a promotion by an order, counted against its usage limits. Like a stock
+ * reservation, an unpaid order only holds the use until expiresAt; a cancelled one never does.
+ */
+export const promotionRedemptions = pgTable("promotion_redemptions", {
+  id: serial("id").primaryKey(),
+  promotionId: integer("promotion_id").references(() => promotions.id, { onDelete: "cascade" }).notNull(),
+  orderId: integer("order_id").references(() => orders.id, { onDelete: "cascade" }).notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  email: text("email").notNull(), // lowercased; per-customer limits match on it for guests
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const bundleSources = ["auto", "curated"] as const;
+export type BundleSource = typeof bundleSources[number];
+
+/**
+ * A "frequently bought together" offer shown on its product's page. The discount is only
+ * given while every item is in the cart. Auto bundles come from sales recommendations and
+ * are refreshed; editing one makes it curated, which is left alone.
+ */
+export const bundles = pgTable("bundles", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  productId: integer("product_id").references(() => products.id, { onDelete: "cascade" }).notNull(), // the page it's offered on
+  productIds: integer("product_ids").array().notNull(), // one of each, productId included
+  discountPercent: integer("discount_percent").notNull(), // off the bundled items only
+  source: text("source").$type<BundleSource>().notNull().default("curated"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertBundleSchema = createInsertSchema(bundles, {
+  name: z.string().trim().min(1).max(100),
+  productIds: z.array(z.number().int().positive()).min(2).max(6),
+  discountPercent: z.number().int().min(1).max(50),
+}).pick({
+  name: true,
+  productId: true,
+  productIds: true,
+  discountPercent: true,
+  isActive: true,
+}).refine((bundle) => bundle.productIds.includes(bundle.productId), {
+  message: "The bundle must include its own product",
+  path: ["productIds"],
+}).refine((bundle) => new Set(bundle.productIds).size === bundle.productIds.length, {
+  message: "Each product can only be in a bundle once",
+  path: ["productIds"],
+});
+
+// Who we buy products from. Most ship straight to the customer.
+export const suppliers = pgTable("suppliers", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  website: text("website"),
+  contactEmail: text("contact_email"),
+  contactPhone: text("contact_phone"),
+  address: text("address"),
+  dropshipping: boolean("dropshipping").notNull().default(true),
+  apiAvailable: boolean("api_available").notNull().default(false), // takes purchase orders through its API rather than email
+  minimumOrder: decimal("minimum_order", { precision: 10, scale: 2 }).notNull().default("0"), // per purchase order
+  returnWindowDays: integer("return_window_days").notNull().default(30), // from delivery
+  restockingFeePercent: integer("restocking_fee_percent").notNull().default(0), // only on returns that aren't the product's fault
+  paymentTerms: text("payment_terms"),
+  notes: text("notes"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertSupplierSchema = createInsertSchema(suppliers, {
+  name: z.string().trim().min(1).max(100),
+  contactEmail: z.string().email().nullish(),
+  minimumOrder: z.string().regex(/^\d+(\.\d{1,2})?$/, "An amount like 100 or 99.50").optional(),
+  returnWindowDays: z.number().int().min(0).max(365).optional(),
+  restockingFeePercent: z.number().int().min(0).max(100).optional(),
+}).pick({
+  name: true,
+  website: true,
+  contactEmail: true,
+  contactPhone: true,
+  address: true,
+  dropshipping: true,
+  apiAvailable: true,
+  minimumOrder: true,
+  returnWindowDays: true,
+  restockingFeePercent: true,
+  paymentTerms: true,
+  notes: true,
+  isActive: true,
+});
+
+/**
+ * What a supplier charges us for a product. A product can come from several suppliers; its
+ * cost, and so its margin, is the preferred supplier's, or the cheapest when none is.
+ */
+export const supplierProducts = pgTable("supplier_products", {
+  id: serial("id").primaryKey(),
+  supplierId: integer("supplier_id").notNull().references(() => suppliers.id, { onDelete: "cascade" }),
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  supplierSku: text("supplier_sku").notNull(),
+  cost: decimal("cost", { precision: 10, scale: 2 }).notNull(),
+  minimumOrderQuantity: integer("minimum_order_quantity").notNull().default(1),
+  leadTimeDays: integer("lead_time_days").notNull().default(0), // until the supplier ships
+  isPreferred: boolean("is_preferred").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("supplier_products_supplier_product_unique").on(table.supplierId, table.productId),
+]);
+
+export const insertSupplierProductSchema = createInsertSchema(supplierProducts, {
+  supplierSku: z.string().trim().min(1).max(64),
+  cost: z.string().regex(/^\d+(\.\d{1,2})?$/, "An amount like 40 or 39.95"),
+  minimumOrderQuantity: z.number().int().positive().optional(),
+  leadTimeDays: z.number().int().min(0).max(365).optional(),
+}).pick({
+  supplierId: true,
+  productId: true,
+  supplierSku: true,
+  cost: true,
+  minimumOrderQuantity: true,
+  leadTimeDays: true,
+  isPreferred: true,
+});
+
+/**
+ * Where stock is held: our own warehouses, and the suppliers that ship orders for us, one
+ * location each. An order line ships from the best location with enough stock, see
+ * server/inventory.ts.
+ */
+export const stockLocationKinds = ["warehouse", "supplier"] as const;
+export type StockLocationKind = typeof stockLocationKinds[number];
+
+export const stockLocations = pgTable("stock_locations", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  kind: text("kind").$type<StockLocationKind>().notNull(),
+  supplierId: integer("supplier_id").unique().references(() => suppliers.id, { onDelete: "cascade" }), // for supplier locations
+  shippingDaysMin: integer("shipping_days_min").notNull().default(1), // business days until an order from here ships
+  shippingDaysMax: integer("shipping_days_max").notNull().default(2),
+  isActive: boolean("is_active").notNull().default(true), // inactive locations' stock isn't sold
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertStockLocationSchema = createInsertSchema(stockLocations, {
+  name: z.string().trim().min(1).max(100),
+  kind: z.enum(stockLocationKinds),
+  shippingDaysMin: z.number().int().min(0).max(90).optional(),
+  shippingDaysMax: z.number().int().min(0).max(90).optional(),
+}).pick({
+  name: true,
+  kind: true,
+  supplierId: true,
+  shippingDaysMin: true,
+  shippingDaysMax: true,
+  isActive: true,
+}).refine((location) => (location.kind === "supplier") === (location.supplierId != null), {
+  message: "Supplier locations need a supplier, and warehouses can't have one",
+  path: ["supplierId"],
+}).refine((location) => (location.shippingDaysMin ?? 1) <= (location.shippingDaysMax ?? 2), {
+  message: "The shortest shipping time can't be longer than the longest",
+  path: ["shippingDaysMax"],
+});
+
+// How much of a product a location holds. Only storage writes these, keeping products.inventoryCount in step.
+export const stockLevels = pgTable("stock_levels", {
+  id: serial("id").primaryKey(),
+  locationId: integer("location_id").notNull().references(() => stockLocations.id, { onDelete: "cascade" }),
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  quantity: integer("quantity").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("stock_levels_location_product_unique").on(table.locationId, table.productId),
+]);
+
+/**
+ * Purchase orders for dropshipping: once an order is paid, its items are split by the
+ * supplier that ships them, and each supplier gets one purchase order for its share,
+ * emailed or sent through the supplier's API. Items no dropshipping supplier carries are
+ * shipped from our own stock and get no purchase order.
+ */
+export const purchaseOrderStatuses = ["pending", "sent", "failed", "acknowledged", "shipped", "cancelled"] as const;
+export type PurchaseOrderStatus = typeof purchaseOrderStatuses[number];
+
+export const purchaseOrderStatusTransitions: Record<PurchaseOrderStatus, readonly PurchaseOrderStatus[]> = {
+  pending: ["sent", "failed", "cancelled"],
+  // Staff can resend one that couldn't be sent, or give up and order it some other way
+  failed: ["sent", "cancelled"],
+  sent: ["acknowledged", "shipped", "cancelled"],
+  acknowledged: ["shipped", "cancelled"],
+  shipped: [],
+  cancelled: [],
+};
+
+export function canTransitionPurchaseOrder(from: PurchaseOrderStatus, to: PurchaseOrderStatus): boolean {
+  return purchaseOrderStatusTransitions[from]?.includes(to) ?? false;
+}
+
+export const purchaseOrderLineStatuses = ["pending", "ordered", "backordered", "shipped", "cancelled"] as const;
+export type PurchaseOrderLineStatus = typeof purchaseOrderLineStatuses[number];
+
+export const purchaseOrderChannels = ["email", "api"] as const;
+export type PurchaseOrderChannel = typeof purchaseOrderChannels[number];
+
+export const purchaseOrders = pgTable("purchase_orders", {
+  id: serial("id").primaryKey(),
+  poNumber: text("po_number").notNull().unique(),
+  orderId: integer("order_id").references(() => orders.id, { onDelete: "cascade" }).notNull(),
+  // The supplier's name is kept so the purchase order still reads right if it's deleted
+  supplierId: integer("supplier_id").references(() => suppliers.id, { onDelete: "set null" }),
+  supplierName: text("supplier_name").notNull(),
+  status: text("status").$type<PurchaseOrderStatus>().notNull().default("pending"),
+  sentVia: text("sent_via").$type<PurchaseOrderChannel>(),
+  supplierReference: text("supplier_reference"), // the supplier's own order number, from its API
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(), // at our cost
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"), // why the last attempt to send it failed
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("purchase_orders_order_supplier_unique").on(table.orderId, table.supplierId),
+]);
+
+export const purchaseOrderItems = pgTable("purchase_order_items", {
+  id: serial("id").primaryKey(),
+  purchaseOrderId: integer("purchase_order_id").references(() => purchaseOrders.id, { onDelete: "cascade" }).notNull(),
+  orderItemId: integer("order_item_id").references(() => orderItems.id, { onDelete: "cascade" }).notNull(),
+  productId: integer("product_id").notNull(),
+  name: text("name").notNull(),
+  supplierSku: text("supplier_sku").notNull(),
+  quantity: integer("quantity").notNull(),
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }).notNull(),
+  status: text("status").$type<PurchaseOrderLineStatus>().notNull().default("pending"),
+  carrier: text("carrier"),
+  trackingNumber: text("tracking_number"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertPurchaseOrderSchema = createInsertSchema(purchaseOrders).pick({
+  orderId: true,
+  supplierId: true,
+  supplierName: true,
+  subtotal: true,
+});
+
+export const insertPurchaseOrderItemSchema = createInsertSchema(purchaseOrderItems).pick({
+  orderItemId: true,
+  productId: true,
+  name: true,
+  supplierSku: true,
+  quantity: true,
+  unitCost: true,
+});
+
+/**
+ * Supplier catalog and price feeds. A feed profile says how to read one supplier's feed
+ * file: its format and which of its columns hold what. Importing a feed diffs it against
+ * the products we get from that supplier, matched by supplier SKU, into a change set that
+ * staff review before any of it is applied.
+ */
+export const feedFormats = ["csv", "xlsx", "json"] as const;
+export type FeedFormat = typeof feedFormats[number];
+
+// What a feed can tell us about a product; a profile maps each to one of the feed's columns
+export const feedFields = ["supplierSku", "name", "description", "cost", "price", "stock", "discontinued"] as const;
+export type FeedField = typeof feedFields[number];
+
+// Feed column (or, for JSON, key or dotted path) by field; the SKU is always needed
+export type FeedColumnMapping = Partial<Record<FeedField, string>> & { supplierSku: string };
+
+export const feedImportStatuses = ["review", "applied", "discarded", "failed"] as const;
+export type FeedImportStatus = typeof feedImportStatuses[number];
+
+export const feedChangeKinds = ["new_product", "price_change", "stock_change", "discontinued"] as const;
+export type FeedChangeKind = typeof feedChangeKinds[number];
+
+export const feedChangeStatuses = ["pending", "applied", "skipped", "failed"] as const;
+export type FeedChangeStatus = typeof feedChangeStatuses[number];
+
+export const supplierFeedProfiles = pgTable("supplier_feed_profiles", {
+  id: serial("id").primaryKey(),
+  supplierId: integer("supplier_id").notNull().references(() => suppliers.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  format: text("format").$type<FeedFormat>().notNull(),
+  columnMapping: jsonb("column_mapping").$type<FeedColumnMapping>().notNull(),
+  delimiter: text("delimiter").notNull().default(","), // CSV only
+  sheet: text("sheet"), // XLSX only; the first sheet when not set
+  recordsPath: text("records_path"), // JSON only; dotted path to the array of products, or the top level
+  // Whether the feed lists the supplier's whole catalog, so products missing from it are discontinued
+  discontinueMissing: boolean("discontinue_missing").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("supplier_feed_profiles_supplier_name_unique").on(table.supplierId, table.name),
+]);
+
+export const insertSupplierFeedProfileSchema = createInsertSchema(supplierFeedProfiles, {
+  name: z.string().trim().min(1).max(100),
+  format: z.enum(feedFormats),
+  columnMapping: z.object({
+    supplierSku: z.string().trim().min(1),
+    name: z.string().trim().min(1).optional(),
+    description: z.string().trim().min(1).optional(),
+    cost: z.string().trim().min(1).optional(),
+    price: z.string().trim().min(1).optional(),
+    stock: z.string().trim().min(1).optional(),
+    discontinued: z.string().trim().min(1).optional(),
+  }),
+  delimiter: z.string().length(1).optional(),
+}).pick({
+  supplierId: true,
+  name: true,
+  format: true,
+  columnMapping: true,
+  delimiter: true,
+  sheet: true,
+  recordsPath: true,
+  discontinueMissing: true,
+});
+
+// A product as a feed describes it, as far as the profile maps it
+export interface FeedProductValues {
+  name?: string;
+  description?: string;
+  cost?: string;
+  price?: string;
+  stock?: number;
+}
+
+// A feed row that couldn't be used; rows are numbered as in the spreadsheet, header included, or from 1 in JSON
+export interface FeedRowError {
+  row: number;
+  supplierSku?: string;
+  message: string;
+}
+
+// Each time a supplier's feed was imported, with the change set it produced
+export const feedImports = pgTable("feed_imports", {
+  id: serial("id").primaryKey(),
+  supplierId: integer("supplier_id").notNull().references(() => suppliers.id, { onDelete: "cascade" }),
+  profileId: integer("profile_id").references(() => supplierFeedProfiles.id, { onDelete: "set null" }),
+  filename: text("filename").notNull(),
+  status: text("status").$type<FeedImportStatus>().notNull().default("review"),
+  rowCount: integer("row_count").notNull().default(0),
+  unchangedCount: integer("unchanged_count").notNull().default(0),
+  summary: jsonb("summary").$type<Partial<Record<FeedChangeKind, number>>>().notNull().default({}),
+  rowErrors: jsonb("row_errors").$type<FeedRowError[]>().notNull().default([]),
+  error: text("error"), // why a failed import couldn't be read at all
+  importedBy: integer("imported_by").references(() => users.id, { onDelete: "set null" }),
+  reviewedBy: integer("reviewed_by").references(() => users.id, { onDelete: "set null" }), // who applied or discarded it
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("feed_imports_supplier_id_idx").on(table.supplierId),
+]);
+
+export const feedImportChanges = pgTable("feed_import_changes", {
+  id: serial("id").primaryKey(),
+  importId: integer("import_id").notNull().references(() => feedImports.id, { onDelete: "cascade" }),
+  kind: text("kind").$type<FeedChangeKind>().notNull(),
+  supplierSku: text("supplier_sku").notNull(),
+  productId: integer("product_id").references(() => products.id, { onDelete: "set null" }), // none for new products
+  name: text("name").notNull(),
+  before: jsonb("before").$type<FeedProductValues>().notNull().default({}),
+  after: jsonb("after").$type<FeedProductValues>().notNull().default({}),
+  status: text("status").$type<FeedChangeStatus>().notNull().default("pending"),
+  note: text("note"), // e.g. why applying it failed
+}, (table) => [
+  index("feed_import_changes_import_id_idx").on(table.importId),
+]);
+
+// Storefront analytics. Purchases are recorded by the server when an order is paid; the
+// other events come from the browser in batches.
+export const analyticsEventTypes = ["session_start", "product_view", "add_to_cart", "cart_abandon", "checkout_start", "purchase"] as const;
+export type AnalyticsEventType = typeof analyticsEventTypes[number];
+
+export const analyticsEvents = pgTable("analytics_events", {
+  id: serial("id").primaryKey(),
+  type: text("type").$type<AnalyticsEventType>().notNull(),
+  sessionId: text("session_id"), // the browser's analytics session; for purchases, the order's if known
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  productId: integer("product_id"), // kept after the product is deleted
+  quantity: integer("quantity"),
+  value: decimal("value", { precision: 10, scale: 2 }), // what a purchase line brought in
+  orderId: integer("order_id"),
+  data: jsonb("data").$type<Record<string, unknown>>(), // e.g. a session's device and referrer
+  occurredAt: timestamp("occurred_at").notNull(),
+  receivedAt: timestamp("received_at").defaultNow(),
+}, (table) => [
+  index("analytics_events_occurred_at_idx").on(table.occurredAt),
+  index("analytics_events_session_id_idx").on(table.sessionId),
+  index("analytics_events_user_id_idx").on(table.userId),
+]);
+
+const analyticsEventFields = {
+  sessionId: z.string().min(8).max(64),
+  occurredAt: z.number().int(), // ms since the epoch, in the browser's clock
+};
+
+// An event as the browser sends it
+export const clientAnalyticsEventSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("session_start"),
+    ...analyticsEventFields,
+    referrer: z.string().max(500).nullable(), // only from other sites
+    device: z.object({
+      screenWidth: z.number().int().nonnegative(),
+      mobileDevice: z.boolean(),
+      browser: z.string().max(50),
+      os: z.string().max(50),
+    }),
+    returning: z.boolean().default(false), // this browser has visited before
+  }),
+  z.object({
+    type: z.literal("product_view"),
+    ...analyticsEventFields,
+    productId: z.number().int().positive(),
+  }),
+  z.object({
+    type: z.literal("add_to_cart"),
+    ...analyticsEventFields,
+    productId: z.number().int().positive(),
+    quantity: z.number().int().positive(),
+  }),
+  z.object({
+    type: z.literal("cart_abandon"),
+    ...analyticsEventFields,
+    productIds: z.array(z.number().int().positive()).min(1).max(100),
+  }),
+  z.object({
+    type: z.literal("checkout_start"),
+    ...analyticsEventFields,
+  }),
+]);
+
+export const analyticsBatchSchema = z.object({
+  events: z.array(z.unknown()).min(1).max(50), // each checked on its own; bad ones are dropped
+});
+
+// Where a session came from, worked out from its referrer
+export const trafficSources = ["direct", "search", "social", "email", "referral"] as const;
+export type TrafficSource = typeof trafficSources[number];
+
+// The steps of the storefront funnel in order, as in FunnelStep in server/ai/salesOptimization
+export const funnelSteps = ["browsing", "product_detail", "add_to_cart", "checkout", "post_purchase"] as const;
+export type FunnelStepName = typeof funnelSteps[number];
+
+/**
+ * Each product's activity for one UTC day, rolled up from analyticsEvents. Counts are of
+ * distinct sessions (orders for purchases), so a shopper reloading a page counts once.
+ */
+export const analyticsProductDaily = pgTable("analytics_product_daily", {
+  id: serial("id").primaryKey(),
+  day: date("day", { mode: "string" }).notNull(),
+  productId: integer("product_id").notNull(),
+  views: integer("views").notNull().default(0),
+  addToCarts: integer("add_to_carts").notNull().default(0),
+  cartAbandons: integer("cart_abandons").notNull().default(0),
+  orders: integer("orders").notNull().default(0),
+  unitsSold: integer("units_sold").notNull().default(0),
+  revenue: decimal("revenue", { precision: 10, scale: 2 }).notNull().default("0"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("analytics_product_daily_day_product_unique").on(table.day, table.productId),
+]);
+
 // Blog Articles
 export const articles = pgTable("articles", {
   id: serial("id").primaryKey(),
@@ -280,6 +1061,12 @@ export const insertChatMessageSchema = createInsertSchema(chatMessages).pick({
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
+
 export type Category = typeof categories.$inferSelect;
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
 
@@ -289,9 +1076,28 @@ export type InsertBrand = z.infer<typeof insertBrandSchema>;
 export type VehicleModel = typeof vehicleModels.$inferSelect;
 export type InsertVehicleModel = z.infer<typeof insertVehicleModelSchema>;
 
+// Legacy shape of each entry in products.compatibleVehicles (product_fitments is authoritative)
+export type CompatibleVehicle = {
+  make: string;
+  model: string;
+  years: number[];
+};
+
 export type Product = typeof products.$inferSelect;
 export type InsertProduct = z.infer<typeof insertProductSchema>;
 
+export type ProductFitment = typeof productFitments.$inferSelect;
+export type InsertProductFitment = z.infer<typeof insertProductFitmentSchema>;
+
+// Fitment joined with the make and model it refers to
+export type ProductFitmentDetail = ProductFitment & {
+  make: string;
+  model: string;
+};
+
+export type UserVehicle = typeof userVehicles.$inferSelect;
+export type InsertUserVehicle = z.infer<typeof insertUserVehicleSchema>;
+
 export type Review = typeof reviews.$inferSelect;
 export type InsertReview = z.infer<typeof insertReviewSchema>;
 
@@ -301,6 +1107,181 @@ export type InsertOrder = z.infer<typeof insertOrderSchema>;
 export type OrderItem = typeof orderItems.$inferSelect;
 export type InsertOrderItem = z.infer<typeof insertOrderItemSchema>;
 
+export type OrderEvent = typeof orderEvents.$inferSelect;
+
+export type InventoryReservation = typeof inventoryReservations.$inferSelect;
+
+export type ProcessedWebhookEvent = typeof processedWebhookEvents.$inferSelect;
+
+export type ReturnRequest = typeof returnRequests.$inferSelect;
+export type InsertReturnRequest = z.infer<typeof insertReturnRequestSchema>;
+
+export type ReturnItem = typeof returnItems.$inferSelect;
+export type InsertReturnItem = z.infer<typeof insertReturnItemSchema>;
+
+export type Promotion = typeof promotions.$inferSelect;
+export type InsertPromotion = z.infer<typeof insertPromotionSchema>;
+
+export type PromotionRedemption = typeof promotionRedemptions.$inferSelect;
+
+export type Bundle = typeof bundles.$inferSelect;
+export type InsertBundle = z.infer<typeof insertBundleSchema>;
+
+export type Supplier = typeof suppliers.$inferSelect;
+export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
+
+export type SupplierProduct = typeof supplierProducts.$inferSelect;
+export type InsertSupplierProduct = z.infer<typeof insertSupplierProductSchema>;
+
+export type StockLocation = typeof stockLocations.$inferSelect;
+export type InsertStockLocation = z.infer<typeof insertStockLocationSchema>;
+
+export type StockLevel = typeof stockLevels.$inferSelect;
+
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+export type InsertPurchaseOrder = z.infer<typeof insertPurchaseOrderSchema>;
+
+export type PurchaseOrderItem = typeof purchaseOrderItems.$inferSelect;
+export type InsertPurchaseOrderItem = z.infer<typeof insertPurchaseOrderItemSchema>;
+
+export type SupplierFeedProfile = typeof supplierFeedProfiles.$inferSelect;
+export type InsertSupplierFeedProfile = z.infer<typeof insertSupplierFeedProfileSchema>;
+
+// Imports and their changes are only ever made by the importer, so have no request schemas
+export type FeedImport = typeof feedImports.$inferSelect;
+export type InsertFeedImport = Omit<typeof feedImports.$inferInsert, "id" | "reviewedBy" | "reviewedAt" | "createdAt">;
+
+export type FeedImportChange = typeof feedImportChanges.$inferSelect;
+export type InsertFeedImportChange = Omit<typeof feedImportChanges.$inferInsert, "id" | "importId" | "status" | "note">;
+
+export type AnalyticsEvent = typeof analyticsEvents.$inferSelect;
+export type InsertAnalyticsEvent = typeof analyticsEvents.$inferInsert;
+export type ClientAnalyticsEvent = z.infer<typeof clientAnalyticsEventSchema>;
+
+export type AnalyticsProductDaily = typeof analyticsProductDaily.$inferSelect;
+
+export type Address = z.infer<typeof addressSchema>;
+
+export interface QuoteLine {
+  productId: number;
+  name: string;
+  sku: string;
+  quantity: number;
+  unitPrice: string;
+  compareAtPrice: string | null;
+  lineTotal: string;
+}
+
+export interface QuoteDiscount {
+  code?: string; // the promotion code that granted it
+  bundleId?: number; // or the bundle
+  description: string;
+  amount: string; // "0.00" for free shipping, which shows in the shipping line instead
+}
+
+// A code the cart asked for that couldn't be applied, and why
+export interface RejectedPromotionCode {
+  code: string;
+  message: string;
+}
+
+// A priced cart from the server's PricingEngine; amounts are decimal strings like the order columns
+export interface Quote {
+  lines: QuoteLine[];
+  discounts: QuoteDiscount[];
+  promotionCodes: string[]; // codes applied, normalized
+  rejectedCodes: RejectedPromotionCode[];
+  subtotal: string; // sum of line totals
+  discount: string; // order-level discounts, taken off the subtotal
+  shipping: string;
+  shippingMethod: string;
+  amountToFreeShipping: string; // "0.00" once the order ships free
+  tax: string;
+  total: string;
+  currency: "usd";
+}
+
+// A bundle as offered on its product's page, priced from the catalog
+export interface BundleOffer {
+  id: number;
+  name: string;
+  discountPercent: number;
+  products: Product[];
+  price: string; // the items bought separately
+  bundlePrice: string;
+}
+
+// A product's analytics summed over a range of days, with the rates worked out
+export interface ProductAnalyticsSummary {
+  productId: number;
+  name: string | null; // null once the product is deleted
+  views: number;
+  addToCarts: number;
+  cartAbandons: number;
+  orders: number;
+  unitsSold: number;
+  revenue: string;
+  addToCartRate: number; // of the sessions that viewed it, 0-1
+  conversionRate: number; // orders per viewing session, 0-1
+}
+
+// A product's margin on its current price and cost
+export interface ProductMargin {
+  productId: number;
+  name: string;
+  sku: string;
+  isActive: boolean;
+  price: string;
+  cost: string | null; // null until a supplier's cost is on file
+  supplierId: number | null;
+  supplierName: string | null;
+  marginPercent: number | null; // of the price
+  belowMinimum: boolean;
+}
+
+// How many sessions got as far as one funnel step
+export interface FunnelStepSummary {
+  step: FunnelStepName;
+  sessions: number;
+  conversionRate: number; // of the sessions at the step before, 0-1
+  dropOff: number; // sessions that reached the step before but not this one
+}
+
+export type FunnelSegmentDimension = "device" | "source" | "visitor";
+
+// The funnel for one kind of session, e.g. mobile or search traffic
+export interface FunnelSegmentSummary {
+  dimension: FunnelSegmentDimension;
+  segment: string;
+  sessions: number;
+  steps: number[]; // sessions reaching each of funnelSteps
+  orders: number;
+  revenue: string;
+  conversionRate: number; // sessions that bought, 0-1
+  revenuePerSession: string;
+}
+
+export interface FunnelDaySummary {
+  day: string;
+  sessions: number;
+  convertedSessions: number;
+  revenue: string;
+}
+
+// Sessions started in a range of UTC days, followed through the funnel
+export interface FunnelReport {
+  from: string;
+  to: string;
+  sessions: number;
+  orders: number;
+  revenue: string;
+  revenuePerSession: string;
+  steps: FunnelStepSummary[];
+  segments: FunnelSegmentSummary[];
+  days: FunnelDaySummary[];
+  topAbandoned: ProductAnalyticsSummary[];
+}
+
 export type Article = typeof articles.$inferSelect;
 export type InsertArticle = z.infer<typeof insertArticleSchema>;
 
@@ -0,0 +1,25 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname, "client", "src"),
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+    environment: "node",
+    // In memory, with the fake payment provider and mock supplier API, and no AI calls
+    env: {
+      STORAGE_DRIVER: "memory",
+      PAYMENT_PROVIDER: "fake",
+      STRIPE_WEBHOOK_SECRET: "whsec_test",
+      SUPPLIER_API: "mock",
+      SESSION_SECRET: "test-session-secret",
+      APP_URL: "http://localhost:5000",
+      OPENAI_API_KEY: "",
+    },
+  },
+});